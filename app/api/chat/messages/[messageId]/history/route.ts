@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { authorizeHistoryActor, redactionErrorResponse } from '../../../redactions/auth';
+
+/**
+ * Edit history of a message with word diffs, plus its redaction tombstones
+ */
+export async function GET(request: Request, { params }: { params: { messageId: string } }) {
+  const auth = await authorizeHistoryActor(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const [revisions, redactions] = await Promise.all([
+      auth.service.getEditHistory(params.messageId, auth.client),
+      auth.service.listRedactions(params.messageId, auth.client)
+    ]);
+
+    return NextResponse.json({ messageId: params.messageId, revisions, redactions });
+  } catch (error) {
+    await logger.error('Failed to load message history', error instanceof Error ? error : undefined, {
+      messageId: params.messageId
+    });
+    return redactionErrorResponse(error, 'Failed to load message history');
+  }
+}
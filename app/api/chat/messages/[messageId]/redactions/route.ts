@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { REDACTION_CATEGORIES } from '@/services/chat/history';
+import { authorizeHistoryActor, redactionErrorResponse } from '../../../redactions/auth';
+
+const redactionSchema = z.object({
+  spans: z.array(z.object({
+    start: z.number().int().nonnegative(),
+    end: z.number().int().positive(),
+    category: z.enum(REDACTION_CATEGORIES)
+  })).min(1).max(100),
+  reason: z.string().trim().min(3).max(500)
+});
+
+/**
+ * Replaces spans of a message with typed placeholders
+ */
+export async function POST(request: Request, { params }: { params: { messageId: string } }) {
+  const auth = await authorizeHistoryActor(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const parsed = redactionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const redaction = await auth.service.redactMessage(params.messageId, {
+      ...parsed.data,
+      actor: auth.actor
+    }, auth.client);
+    return NextResponse.json(redaction, { status: 201 });
+  } catch (error) {
+    await logger.error('Failed to redact message', error instanceof Error ? error : undefined, {
+      messageId: params.messageId
+    });
+    return redactionErrorResponse(error, 'Failed to redact message');
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MessageRecoveryService } from '@/services/chat/MessageRecoveryService';
+import { createServerSupabaseClient, createServiceRoleClient } from '@/lib/supabase-server';
+import { redis } from '@/lib/redis';
+import { logger } from '@/lib/logger';
+
+const failureSchema = z.object({
+  message: z.object({
+    id: z.string().uuid(),
+    threadId: z.string().min(1),
+    senderId: z.string().min(1),
+    recipientId: z.string().optional(),
+    content: z.string().min(1),
+    timestamp: z.string(),
+    metadata: z.record(z.unknown()).optional()
+  }),
+  error: z.string().max(1000),
+  attempts: z.number().int().nonnegative()
+});
+
+/**
+ * Takes over an offline message the browser outbox could not deliver and
+ * queues it for server-side retry. Users can only hand off their own messages,
+ * in threads they take part in; the queue itself is written with the service
+ * role.
+ */
+export async function POST(request: Request) {
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = failureSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { message, error, attempts } = parsed.data;
+  if (message.senderId !== session.user.id) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { data: participant, error: participantError } = await supabase
+      .from('thread_participants')
+      .select('thread_id')
+      .eq('thread_id', message.threadId)
+      .eq('user_id', session.user.id)
+      .maybeSingle();
+
+    if (participantError) throw new Error(participantError.message);
+    if (!participant) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const recovery = MessageRecoveryService.getInstance(createServiceRoleClient(), redis);
+    await recovery.queueMessageForRetry(message, new Error(`Offline replay failed after ${attempts} attempts: ${error}`));
+
+    return NextResponse.json({ messageId: message.id, queued: true }, { status: 202 });
+  } catch (err) {
+    await logger.error('Failed to hand off outbox message', err instanceof Error ? err : undefined, {
+      messageId: message.id
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
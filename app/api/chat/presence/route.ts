@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { PresenceService } from '../../../../lib/services/PresenceService';
+import { ConnectionStore } from '../../../../lib/services/ConnectionStore';
+import { createServerSupabaseClient } from '@/lib/supabase-server';
+import { logger } from '@/lib/logger';
+
+const heartbeatSchema = z.object({
+  deviceId: z.string().min(1).max(128),
+  status: z.enum(['online', 'idle', 'in_session', 'dnd']).optional(),
+  threadId: z.string().min(1).optional(),
+  isTyping: z.boolean().optional()
+});
+
+const disconnectSchema = z.object({
+  deviceId: z.string().min(1).max(128)
+});
+
+// Relay presence events to this instance's SSE connections once per instance
+const presence = PresenceService.getInstance();
+presence.onEvent(event => {
+  if (event.threadId) {
+    void ConnectionStore.getInstance().broadcastToThread(event.threadId, event);
+  }
+});
+
+async function getCaller() {
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session ? { supabase, userId: session.user.id } : null;
+}
+
+/** Presence in a thread is only visible to, and published by, its participants */
+async function isThreadParticipant(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  threadId: string,
+  userId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('thread_participants')
+    .select('thread_id')
+    .eq('thread_id', threadId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return Boolean(data);
+}
+
+/** Who is present and typing in a thread */
+export async function GET(request: Request) {
+  const caller = await getCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const threadId = new URL(request.url).searchParams.get('threadId');
+  if (!threadId) {
+    return NextResponse.json({ error: 'threadId is required' }, { status: 400 });
+  }
+
+  try {
+    if (!(await isThreadParticipant(caller.supabase, threadId, caller.userId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    return NextResponse.json({ participants: await presence.getThreadPresence(threadId) });
+  } catch (err) {
+    await logger.error('Failed to read presence', err instanceof Error ? err : undefined, { threadId });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Device heartbeat, optionally carrying a typing change. Typing starts
+ * over the rate limit are dropped and reported as not accepted.
+ */
+export async function POST(request: Request) {
+  const caller = await getCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = heartbeatSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { deviceId, status, threadId, isTyping } = parsed.data;
+  const { userId } = caller;
+  try {
+    if (threadId && !(await isThreadParticipant(caller.supabase, threadId, userId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const user = await presence.heartbeat(userId, deviceId, { status, threadId });
+    const typingAccepted = threadId && isTyping !== undefined
+      ? await presence.setTyping(userId, threadId, isTyping)
+      : undefined;
+
+    return NextResponse.json({ presence: user, typingAccepted });
+  } catch (err) {
+    await logger.error('Failed to record presence', err instanceof Error ? err : undefined, { deviceId });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/** Explicit sign-off for a device so it does not linger until its TTL */
+export async function DELETE(request: Request) {
+  const caller = await getCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = disconnectSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ presence: await presence.disconnect(caller.userId, parsed.data.deviceId) });
+  } catch (err) {
+    await logger.error('Failed to remove presence', err instanceof Error ? err : undefined, {
+      deviceId: parsed.data.deviceId
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
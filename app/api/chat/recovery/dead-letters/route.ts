@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MessageRecoveryService } from '@/services/chat/MessageRecoveryService';
+import { createServiceRoleClient, getServerCaller } from '@/lib/supabase-server';
+import { redis } from '@/lib/redis';
+import { logger } from '@/lib/logger';
+
+const actionSchema = z.object({
+  messageId: z.string().min(1),
+  action: z.enum(['replay', 'discard'])
+});
+
+/**
+ * Dead letters hold message content, so the operator API is admin-only. The
+ * role is checked as the caller; the queue itself is only writable with the
+ * service role.
+ */
+async function authorize(): Promise<{ userId: string; service: MessageRecoveryService } | NextResponse> {
+  const caller = await getServerCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (caller.role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return {
+    userId: caller.userId,
+    service: MessageRecoveryService.getInstance(createServiceRoleClient(), redis)
+  };
+}
+
+/**
+ * Lists dead letters, optionally for one thread, with queue totals
+ */
+export async function GET(request: Request) {
+  const auth = await authorize();
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const threadId = searchParams.get('threadId') ?? undefined;
+    const [deadLetters, stats] = await Promise.all([
+      auth.service.listDeadLetters(threadId),
+      auth.service.getQueueStats()
+    ]);
+
+    return NextResponse.json({
+      stats,
+      deadLetters: deadLetters.map(job => ({
+        messageId: job.messageId,
+        threadId: job.threadId,
+        attempts: job.attempts,
+        lastError: job.lastError,
+        keyTransition: Boolean(job.payload.keyTransitionContext),
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt
+      }))
+    });
+  } catch (error) {
+    await logger.error('Failed to list dead letters', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Failed to list dead letters' }, { status: 500 });
+  }
+}
+
+/**
+ * Replays or discards a single dead letter
+ */
+export async function POST(request: Request) {
+  const auth = await authorize();
+  if (auth instanceof NextResponse) return auth;
+
+  const parsed = actionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const { messageId, action } = parsed.data;
+    const applied = action === 'replay'
+      ? await auth.service.replayDeadLetter(messageId, auth.userId)
+      : await auth.service.discardDeadLetter(messageId, auth.userId);
+
+    if (!applied) {
+      return NextResponse.json({ error: 'Dead letter not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ messageId, action });
+  } catch (error) {
+    await logger.error('Failed to apply dead letter action', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { authorizeHistoryActor, redactionErrorResponse } from '../../auth';
+
+/**
+ * Decrypted pre-redaction content; compliance roles only, and every read is audited
+ */
+export async function GET(request: Request, { params }: { params: { redactionId: string } }) {
+  const auth = await authorizeHistoryActor(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const original = await auth.service.getOriginal(params.redactionId, auth.actor, auth.client);
+    return NextResponse.json(original, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    await logger.error('Failed to read redacted original', error instanceof Error ? error : undefined, {
+      redactionId: params.redactionId
+    });
+    return redactionErrorResponse(error, 'Failed to read redacted original');
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MessageHistoryService } from '@/services/chat/MessageHistoryService';
+import { HistoryActor, RedactionError } from '@/services/chat/history';
+import { getServerCaller } from '@/lib/supabase-server';
+import { redis } from '@/lib/redis';
+
+/**
+ * Resolves the signed-in user as an audit actor. Role checks for redaction
+ * and original access happen in MessageHistoryService so denials are audited.
+ * Routes pass `client`, which acts as the caller, to each service call so
+ * row-level policies apply to this request's user.
+ */
+export async function authorizeHistoryActor(
+  request: Request
+): Promise<{ actor: HistoryActor; client: SupabaseClient; service: MessageHistoryService } | NextResponse> {
+  const caller = await getServerCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return {
+    actor: {
+      id: caller.userId,
+      role: caller.role ?? 'user',
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? 'unknown'
+    },
+    client: caller.supabase,
+    service: MessageHistoryService.getInstance(caller.supabase, redis)
+  };
+}
+
+export function redactionErrorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof RedactionError) {
+    const status = {
+      invalid_span: 422,
+      forbidden: 403,
+      not_found: 404,
+      decryption_failed: 500,
+      not_configured: 503
+    }[error.code];
+    return NextResponse.json({ error: error.message, code: error.code }, { status });
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
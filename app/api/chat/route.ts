@@ -1,7 +1,10 @@
+import 'reflect-metadata';
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { ChatOpenAI } from '@langchain/openai';
-import { HumanMessage } from '@langchain/core/messages';
+import { BaseMessage, HumanMessage, ToolMessage } from '@langchain/core/messages';
+import { Redis } from '@upstash/redis';
+import { container } from 'tsyringe';
 
 import { ZKMessage } from '@/lib/zk/types';
 import { encrypt, decrypt, generateMessageId } from '@/lib/zk/crypto';
@@ -18,6 +21,11 @@ import { ConnectionStore } from '@/lib/ConnectionStore';
 import { RateLimiter } from '@/lib/RateLimiter';
 import { InstanceManager } from '@/lib/InstanceManager';
 import { streamToAsyncIterable } from '@/lib';
+import { ToolRegistry, createPlatformTools, type ToolContext, type ToolRole } from '@/ai/tools';
+import { CalendarService } from '@/services/calendar/CalendarService';
+import { RiskAssessmentService } from '@/services/risk/RiskAssessmentService';
+import { MessageSearchService } from '@/services/chat/MessageSearchService';
+import { getServerCaller } from '@/lib/supabase-server';
 
 // Initialize services
 const metrics = new MetricsService();
@@ -31,9 +39,11 @@ const instanceManager = new InstanceManager();
 const MAX_MESSAGE_LENGTH = 4000;
 const MAX_CONCURRENT_REQUESTS = 50;
 const REQUEST_TIMEOUT = 30000; // 30 seconds
+const MAX_TOOL_ROUNDS = 3;
 
-// Enable edge runtime
-export const runtime = "edge";
+// Node runtime: the tool services are resolved through tsyringe, which
+// needs the reflect-metadata polyfill loaded above
+export const runtime = "nodejs";
 export const preferredRegion = "auto";
 export const dynamic = "force-dynamic";
 
@@ -60,6 +70,84 @@ const supabase = createClient(
 // Initialize encryption service
 const encryptionService = new ChatEncryptionService();
 
+/**
+ * Platform tools for one request. They query through the caller's client,
+ * so the relationship checks and searches run under RLS as the caller.
+ */
+function createRequestTools(client: SupabaseClient): ToolRegistry {
+  const registry = new ToolRegistry();
+  createPlatformTools({
+    supabase: client,
+    calendar: () => container.resolve(CalendarService),
+    riskAssessments: () => container.resolve(RiskAssessmentService),
+    messageSearch: () =>
+      MessageSearchService.getInstance(
+        supabase,
+        new Redis({
+          url: process.env.UPSTASH_REDIS_REST_URL!,
+          token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+        }),
+      ),
+  }).forEach((tool) => registry.register(tool));
+  return registry;
+}
+
+const TOOL_ROLES: ToolRole[] = ["admin", "therapist", "client", "guest", "instructor"];
+
+// Map the caller's profile role onto tool permissions
+function resolveToolRole(role: string | null): ToolRole {
+  return role && TOOL_ROLES.includes(role as ToolRole) ? (role as ToolRole) : "guest";
+}
+
+/**
+ * Let the model call tools for up to MAX_TOOL_ROUNDS. Tool calls and
+ * results are appended to `messages`. Returns the model's answer when it
+ * finished without needing more tools, or null when the final answer
+ * still has to be generated.
+ */
+async function runToolRounds(
+  messages: BaseMessage[],
+  context: ToolContext,
+  toolRegistry: ToolRegistry,
+): Promise<string | null> {
+  const tools = toolRegistry.describeFor(context.role);
+  if (tools.length === 0) return null;
+
+  const toolModel = new ChatOpenAI({ modelName: "gpt-4", temperature: 0.7 }).bindTools(tools);
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const reply = await toolModel.invoke(messages);
+    if (!reply.tool_calls?.length) {
+      return typeof reply.content === "string" ? reply.content : null;
+    }
+
+    messages.push(reply);
+    const results = await toolRegistry.executeAll(
+      reply.tool_calls.map((call) => ({
+        id: call.id ?? generateMessageId(),
+        name: call.name,
+        arguments: call.args,
+      })),
+      context,
+    );
+
+    for (const result of results) {
+      await metrics.incrementCounter("tool_calls", {
+        tool: result.name,
+        outcome: result.ok ? "success" : result.error.code,
+      });
+      messages.push(
+        new ToolMessage({
+          tool_call_id: result.toolCallId,
+          content: JSON.stringify(result.ok ? result.result : { error: result.error }),
+        }),
+      );
+    }
+  }
+
+  return null;
+}
+
 // Helper function to generate cache key
 function generateCacheKey(userId: string, threadId?: string) {
   return `chat:${userId}:${threadId || "direct"}`;
@@ -351,11 +439,9 @@ export async function POST(req: NextRequest) {
       throw new Error("Too many concurrent requests");
     }
 
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
+    const caller = await getServerCaller();
 
-    if (!session) {
+    if (!caller) {
       await logger.warn("Unauthorized message send attempt", {
         recipientId,
         threadId,
@@ -366,16 +452,16 @@ export async function POST(req: NextRequest) {
 
     // Check rate limit with enhanced monitoring
     const rateLimitInfo = await rateLimiter.checkLimit(
-      session.user.id,
+      caller.userId,
       "messages",
     );
     await metrics.incrementCounter("rate_limit_check", {
-      userId: session.user.id,
+      userId: caller.userId,
     });
 
     if (rateLimitInfo.remaining === 0) {
       await metrics.incrementCounter("rate_limit_exceeded", {
-        userId: session.user.id,
+        userId: caller.userId,
       });
       const response = new NextResponse("Rate limit exceeded", { status: 429 });
       addRateLimitHeaders(response.headers, rateLimitInfo);
@@ -391,7 +477,7 @@ export async function POST(req: NextRequest) {
     const messagePromise = Promise.race([
       encryptionService.encryptMessage(
         message,
-        session.user.id,
+        caller.userId,
         recipientId,
         threadId,
       ),
@@ -402,10 +488,10 @@ export async function POST(req: NextRequest) {
     await metrics.timing("message_encryption", Date.now() - startTime);
 
     // Store the message in database
-    const { data, error } = await supabase.from("messages").insert([
+    const { data, error } = await caller.supabase.from("messages").insert([
       {
         id: encryptedMessage.id,
-        sender_id: session.user.id,
+        sender_id: caller.userId,
         recipient_id: recipientId,
         thread_id: threadId,
         content: encryptedMessage.encryptedContent,
@@ -446,19 +532,39 @@ export async function POST(req: NextRequest) {
     });
 
     // Convert message to LangChain format
-    const langchainMessages = [new HumanMessage(message)];
-
-    // Start AI response generation with monitoring
-    chat.call(langchainMessages, {}, [handlers]);
+    const langchainMessages: BaseMessage[] = [new HumanMessage(message)];
+
+    // Resolve tool calls first; stream only when an answer is still needed
+    const toolContext: ToolContext = {
+      userId: caller.userId,
+      role: resolveToolRole(caller.role),
+      requestId,
+      threadId,
+    };
+    const answer = await runToolRounds(langchainMessages, toolContext, createRequestTools(caller.supabase));
+
+    if (answer !== null) {
+      handlers
+        .handleLLMNewToken(answer)
+        .then(() => handlers.handleLLMEnd())
+        .catch((error) => {
+          logger.error("Failed to stream tool answer", error);
+          // The stream may already be closed; there is nothing left to report to
+          return handlers.handleLLMError(error).catch(() => undefined);
+        });
+    } else {
+      // Start AI response generation with monitoring
+      chat.call(langchainMessages, {}, [handlers]);
+    }
 
     // Invalidate cache for both participants
     await Promise.all([
-      invalidateByPattern(`chat:${session.user.id}:*`, true),
+      invalidateByPattern(`chat:${caller.userId}:*`, true),
       invalidateByPattern(`chat:${recipientId}:*`, true),
     ]);
 
     // Increment message rate limit counter
-    await rateLimiter.incrementCounter(session.user.id, "messages");
+    await rateLimiter.incrementCounter(caller.userId, "messages");
 
     // Track request metrics
     const duration = Date.now() - startTime;
@@ -466,7 +572,7 @@ export async function POST(req: NextRequest) {
       metrics.timing("request_duration", duration),
       resourceMonitor.trackRequest(duration),
       logger.info("Message sent successfully", {
-        userId: session.user.id,
+        userId: caller.userId,
         recipientId,
         threadId,
         messageId: encryptedMessage.id,
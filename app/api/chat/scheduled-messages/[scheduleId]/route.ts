@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { authorizeScheduleActor, scheduleErrorResponse } from '../auth';
+
+const actionSchema = z.object({
+  action: z.enum(['pause', 'resume'])
+});
+
+/** Upcoming occurrences of a saved schedule */
+export async function GET(request: Request, { params }: { params: { scheduleId: string } }) {
+  const auth = await authorizeScheduleActor();
+  if (auth instanceof NextResponse) return auth;
+
+  const count = Math.min(Number(new URL(request.url).searchParams.get('count')) || 5, 50);
+
+  try {
+    return NextResponse.json(await auth.scheduler.previewSchedule(params.scheduleId, count, auth.client));
+  } catch (error) {
+    await logger.error('Failed to preview scheduled message', error instanceof Error ? error : undefined, {
+      scheduleId: params.scheduleId
+    });
+    return scheduleErrorResponse(error, 'Failed to preview scheduled message');
+  }
+}
+
+/** Pause or resume a schedule */
+export async function PATCH(request: Request, { params }: { params: { scheduleId: string } }) {
+  const auth = await authorizeScheduleActor();
+  if (auth instanceof NextResponse) return auth;
+
+  const parsed = actionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const schedule = parsed.data.action === 'pause'
+      ? await auth.scheduler.pause(params.scheduleId, auth.actor, auth.client)
+      : await auth.scheduler.resume(params.scheduleId, auth.actor, auth.client);
+    return NextResponse.json(schedule);
+  } catch (error) {
+    await logger.error('Failed to update scheduled message', error instanceof Error ? error : undefined, {
+      scheduleId: params.scheduleId
+    });
+    return scheduleErrorResponse(error, 'Failed to update scheduled message');
+  }
+}
+
+/** Cancel a schedule; it stays listed with its delivery history */
+export async function DELETE(_request: Request, { params }: { params: { scheduleId: string } }) {
+  const auth = await authorizeScheduleActor();
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    return NextResponse.json(await auth.scheduler.cancel(params.scheduleId, auth.actor, auth.client));
+  } catch (error) {
+    await logger.error('Failed to cancel scheduled message', error instanceof Error ? error : undefined, {
+      scheduleId: params.scheduleId
+    });
+    return scheduleErrorResponse(error, 'Failed to cancel scheduled message');
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MessageScheduler } from '@/services/chat/MessageScheduler';
+import { ScheduleActor, ScheduleError } from '@/services/chat/schedule';
+import { createServiceRoleClient, getServerCaller } from '@/lib/supabase-server';
+import { redis } from '@/lib/redis';
+
+/**
+ * Resolves the signed-in user and their role. Which roles may schedule,
+ * pause or cancel is decided by MessageScheduler. Routes pass `client`,
+ * which acts as the caller, to each call; the scheduler's own client is the
+ * service-role one its delivery worker runs with.
+ */
+export async function authorizeScheduleActor(): Promise<
+  { actor: ScheduleActor; client: SupabaseClient; scheduler: MessageScheduler } | NextResponse
+> {
+  const caller = await getServerCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return {
+    actor: { id: caller.userId, role: caller.role ?? 'user' },
+    client: caller.supabase,
+    scheduler: MessageScheduler.getInstance(createServiceRoleClient(), redis)
+  };
+}
+
+export function scheduleErrorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof ScheduleError) {
+    const status = {
+      invalid_rule: 422,
+      invalid_timezone: 422,
+      invalid_state: 409,
+      forbidden: 403,
+      not_found: 404
+    }[error.code];
+    return NextResponse.json({ error: error.message, code: error.code }, { status });
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
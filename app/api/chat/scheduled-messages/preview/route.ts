@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authorizeScheduleActor, scheduleErrorResponse } from '../auth';
+
+const previewSchema = z.object({
+  recipientId: z.string().uuid(),
+  startsAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/),
+  rrule: z.string().max(500).nullable().optional(),
+  count: z.number().int().min(1).max(50).optional()
+});
+
+/**
+ * Upcoming occurrences of a schedule before it is saved, in the
+ * recipient's timezone
+ */
+export async function POST(request: Request) {
+  const auth = await authorizeScheduleActor();
+  if (auth instanceof NextResponse) return auth;
+
+  const parsed = previewSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const { count, ...schedule } = parsed.data;
+    return NextResponse.json(await auth.scheduler.preview(schedule, count));
+  } catch (error) {
+    return scheduleErrorResponse(error, 'Failed to preview schedule');
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { authorizeScheduleActor, scheduleErrorResponse } from './auth';
+
+const scheduleSchema = z.object({
+  threadId: z.string().uuid(),
+  recipientId: z.string().uuid(),
+  content: z.string().trim().min(1).max(4000),
+  // Wall-clock time in the recipient's timezone, e.g. 2024-04-08T09:00
+  startsAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/),
+  rrule: z.string().max(500).nullable().optional()
+});
+
+/** Schedules of a thread */
+export async function GET(request: Request) {
+  const auth = await authorizeScheduleActor();
+  if (auth instanceof NextResponse) return auth;
+
+  const threadId = new URL(request.url).searchParams.get('threadId');
+  if (!threadId) {
+    return NextResponse.json({ error: 'threadId is required' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ schedules: await auth.scheduler.listForThread(threadId, auth.client) });
+  } catch (error) {
+    await logger.error('Failed to list scheduled messages', error instanceof Error ? error : undefined, { threadId });
+    return scheduleErrorResponse(error, 'Failed to list scheduled messages');
+  }
+}
+
+/**
+ * Schedules a one-off or recurring message from the signed-in user
+ */
+export async function POST(request: Request) {
+  const auth = await authorizeScheduleActor();
+  if (auth instanceof NextResponse) return auth;
+
+  const parsed = scheduleSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const schedule = await auth.scheduler.schedule(
+      { ...parsed.data, senderId: auth.actor.id },
+      auth.actor,
+      auth.client
+    );
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    await logger.error('Failed to schedule message', error instanceof Error ? error : undefined, {
+      threadId: parsed.data.threadId
+    });
+    return scheduleErrorResponse(error, 'Failed to schedule message');
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { createServiceRoleClient, getServerCaller } from '@/lib/supabase-server';
+import { SessionIntegrityService } from '@/services/integrity';
+
+const fieldElement = z.string().regex(/^\d{1,78}$/);
+
+const registerSchema = z.object({
+  // Baby Jubjub public key as decimal field elements; the private key stays with the therapist
+  publicKey: z.object({ x: fieldElement, y: fieldElement })
+});
+
+/**
+ * Registers the public half of the caller's session integrity signing
+ * key, replacing any earlier one. Proofs signed with a replaced key stop
+ * verifying.
+ * @route POST /api/integrity/keys
+ */
+export async function POST(request: Request) {
+  const caller = await getServerCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (caller.role !== 'therapist') {
+    return NextResponse.json({ error: 'Only therapists can register integrity keys' }, { status: 403 });
+  }
+
+  const body = registerSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: body.error.issues }, { status: 400 });
+  }
+
+  try {
+    const { x, y } = body.data.publicKey;
+    await SessionIntegrityService.getInstance(createServiceRoleClient()).registerTherapistKey({
+      therapistId: caller.userId,
+      publicKey: [x, y]
+    });
+    return NextResponse.json({ publicKey: { x, y } }, { status: 201 });
+  } catch (error) {
+    await logger.error('Failed to register integrity key', error instanceof Error ? error : undefined, {
+      therapistId: caller.userId
+    });
+    return NextResponse.json({ error: 'Failed to register integrity key' }, { status: 500 });
+  }
+}
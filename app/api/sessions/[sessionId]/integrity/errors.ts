@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { SessionIntegrityError } from '@/services/integrity';
+
+export function integrityErrorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof SessionIntegrityError) {
+    const status = {
+      session_not_completed: 409,
+      metrics_out_of_range: 422,
+      session_expired: 422,
+      invalid_signature: 422,
+      unregistered_key: 403,
+      not_session_therapist: 403,
+      not_found: 404,
+      artifacts_missing: 503,
+      proof_failed: 500
+    }[error.code];
+    const message = error.code === 'artifacts_missing' ? 'Integrity proofs are not available' : error.message;
+    return NextResponse.json({ error: message, code: error.code }, { status });
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { createServiceRoleClient, getServerCaller } from '@/lib/supabase-server';
+import SessionManager from '@/services/sessionManager';
+import { SessionIntegrityError, SessionIntegrityService } from '@/services/integrity';
+import { integrityErrorResponse } from '../errors';
+
+const sessionIdSchema = z.string().uuid();
+
+const querySchema = z.object({
+  interventionCount: z.coerce.number().int().min(0)
+});
+
+/**
+ * Returns the message the session's therapist signs, with their
+ * registered key, before asking for a proof. It commits to the session,
+ * its end time, its metrics and the client.
+ * @route GET /api/sessions/:sessionId/integrity/message?interventionCount=
+ */
+export async function GET(request: Request, { params }: { params: { sessionId: string } }) {
+  const sessionId = sessionIdSchema.safeParse(params.sessionId);
+  if (!sessionId.success) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+
+  const caller = await getServerCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const query = querySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!query.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: query.error.issues }, { status: 400 });
+  }
+
+  try {
+    const session = await SessionManager.getInstance().getSession(sessionId.data);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const message = await SessionIntegrityService.getInstance(createServiceRoleClient()).getSessionMessage(session, {
+      therapistId: caller.userId,
+      interventionCount: query.data.interventionCount
+    });
+    return NextResponse.json({ message });
+  } catch (error) {
+    if (!(error instanceof SessionIntegrityError)) {
+      await logger.error('Failed to build session integrity message', error instanceof Error ? error : undefined, {
+        sessionId: sessionId.data
+      });
+    }
+    return integrityErrorResponse(error, 'Failed to build session integrity message');
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { createServiceRoleClient, getServerCaller } from '@/lib/supabase-server';
+import SessionManager from '@/services/sessionManager';
+import { SessionIntegrityError, SessionIntegrityService } from '@/services/integrity';
+import { integrityErrorResponse } from './errors';
+
+const sessionIdSchema = z.string().uuid();
+
+const fieldElement = z.string().regex(/^\d{1,78}$/);
+
+const proveSchema = z.object({
+  interventionCount: z.number().int().min(0),
+  // EdDSA-Poseidon signature over the message from GET ./message
+  signature: z.object({
+    r8: z.tuple([fieldElement, fieldElement]),
+    s: fieldElement
+  }),
+  protocol: z.enum(['groth16', 'plonk']).optional()
+});
+
+/**
+ * Verifies a session's integrity proof. Public so auditors can call it
+ * without an account; the response holds only the proof's public signals
+ * @route GET /api/sessions/:sessionId/integrity
+ */
+export async function GET(_request: Request, { params }: { params: { sessionId: string } }) {
+  const parsed = sessionIdSchema.safeParse(params.sessionId);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+
+  try {
+    const verification = await SessionIntegrityService.getInstance(createServiceRoleClient()).verifySession(parsed.data);
+    return NextResponse.json({ verification });
+  } catch (error) {
+    if (!(error instanceof SessionIntegrityError)) {
+      await logger.error('Failed to verify session integrity proof', error instanceof Error ? error : undefined);
+    }
+    return integrityErrorResponse(error, 'Failed to verify session integrity proof');
+  }
+}
+
+/**
+ * Proves a completed session as its therapist, replacing any earlier
+ * proof. The therapist signs the message from
+ * GET /api/sessions/:sessionId/integrity/message with the key registered
+ * through POST /api/integrity/keys; the private key never reaches the server.
+ * @route POST /api/sessions/:sessionId/integrity
+ */
+export async function POST(request: Request, { params }: { params: { sessionId: string } }) {
+  const sessionId = sessionIdSchema.safeParse(params.sessionId);
+  if (!sessionId.success) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+
+  const caller = await getServerCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = proveSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: body.error.issues }, { status: 400 });
+  }
+
+  try {
+    const session = await SessionManager.getInstance().getSession(sessionId.data);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const proof = await SessionIntegrityService.getInstance(createServiceRoleClient()).proveSession(session, {
+      therapistId: caller.userId,
+      interventionCount: body.data.interventionCount,
+      signature: body.data.signature,
+      protocol: body.data.protocol
+    });
+    return NextResponse.json({
+      proof: {
+        sessionId: proof.sessionId,
+        protocol: proof.protocol,
+        publicSignals: proof.publicSignals,
+        provedAt: proof.provedAt
+      }
+    }, { status: 201 });
+  } catch (error) {
+    if (!(error instanceof SessionIntegrityError)) {
+      await logger.error('Failed to prove session integrity', error instanceof Error ? error : undefined, {
+        sessionId: sessionId.data
+      });
+    }
+    return integrityErrorResponse(error, 'Failed to prove session integrity');
+  }
+}
@@ -0,0 +1,120 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SessionRecorder } from '@/services/recording';
+import { DifficultyTrajectoryStore } from '@/ai/difficulty';
+
+const annotationSchema = z.object({
+  atSequence: z.number().int().min(0),
+  note: z.string().trim().min(1).max(2000)
+});
+
+function createClient() {
+  const cookieStore = cookies();
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: any) {
+          cookieStore.set(name, value, options);
+        },
+        remove(name: string, options: any) {
+          cookieStore.set(name, '', options);
+        },
+      },
+    }
+  );
+}
+
+/**
+ * Instructors and admins can replay any session; therapists only their own
+ */
+async function authorize(sessionId: string): Promise<{ userId: string } | NextResponse> {
+  const supabase = createClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('user_id', session.user.id)
+    .maybeSingle();
+
+  if (profile && ['instructor', 'admin'].includes(profile.role)) {
+    return { userId: session.user.id };
+  }
+
+  const { data: therapySession } = await supabase
+    .from('sessions')
+    .select('therapist_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (therapySession?.therapist_id !== session.user.id) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * Returns the session recording for playback, with the simulated client's
+ * difficulty trajectory
+ * @route GET /api/sessions/:sessionId/recording
+ */
+export async function GET(_request: Request, { params }: { params: { sessionId: string } }) {
+  try {
+    const auth = await authorize(params.sessionId);
+    if (auth instanceof NextResponse) return auth;
+
+    const recording = await SessionRecorder.getInstance().getRecording(params.sessionId);
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    const difficulty = await DifficultyTrajectoryStore.getInstance().getTrajectory(params.sessionId, createClient());
+
+    return NextResponse.json({ recording, difficulty });
+  } catch (error) {
+    console.error('Error fetching session recording:', error);
+    return NextResponse.json({ error: 'Failed to fetch recording' }, { status: 500 });
+  }
+}
+
+/**
+ * Adds an annotation at a point in the recording
+ * @route POST /api/sessions/:sessionId/recording
+ */
+export async function POST(request: Request, { params }: { params: { sessionId: string } }) {
+  try {
+    const auth = await authorize(params.sessionId);
+    if (auth instanceof NextResponse) return auth;
+
+    const parsed = annotationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid annotation', issues: parsed.error.issues }, { status: 400 });
+    }
+
+    const sequence = await SessionRecorder.getInstance().annotate(
+      params.sessionId,
+      parsed.data.atSequence,
+      auth.userId,
+      parsed.data.note
+    );
+
+    return NextResponse.json({ sequence }, { status: 201 });
+  } catch (error) {
+    console.error('Error annotating session recording:', error);
+    return NextResponse.json({ error: 'Failed to add annotation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { authorizeBundleAdmin, bundleErrorResponse } from '../../auth';
+
+const exportSchema = z.object({
+  passphrase: z.string().min(12).optional(),
+  // Internal supervision archives only; whispers are never in client exports
+  includeSupervision: z.boolean().optional()
+});
+
+/**
+ * Exports a thread as a signed bundle, encrypted when a passphrase is given
+ */
+export async function POST(request: Request, { params }: { params: { threadId: string } }) {
+  const auth = await authorizeBundleAdmin();
+  if (auth instanceof NextResponse) return auth;
+
+  const parsed = exportSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const bundle = await auth.service.exportThread(params.threadId, {
+      passphrase: parsed.data.passphrase,
+      exportedBy: auth.userId,
+      includeSupervision: parsed.data.includeSupervision
+    }, auth.client);
+
+    return new NextResponse(bundle, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="thread-${params.threadId}.bundle.json"`
+      }
+    });
+  } catch (error) {
+    await logger.error('Failed to export thread', error instanceof Error ? error : undefined, {
+      threadId: params.threadId
+    });
+    if (error instanceof Error && error.message === 'Thread not found') {
+      return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+    }
+    return bundleErrorResponse(error, 'Failed to export thread');
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ThreadManagementService } from '@/services/chat/ThreadManagementService';
+import { ThreadBundleError } from '@/services/chat/threadBundle';
+import { createServiceRoleClient, getServerCaller } from '@/lib/supabase-server';
+import { redis } from '@/lib/redis';
+
+/**
+ * Bundles carry whole conversations across environments, so export and
+ * import are admin-only. Once the caller's role is checked, bundle work runs
+ * with the service-role `client`, which routes pass to each call.
+ */
+export async function authorizeBundleAdmin(): Promise<
+  { userId: string; client: SupabaseClient; service: ThreadManagementService } | NextResponse
+> {
+  const caller = await getServerCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (caller.role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const client = createServiceRoleClient();
+  return {
+    userId: caller.userId,
+    client,
+    service: ThreadManagementService.getInstance(client, redis)
+  };
+}
+
+/** Bundle problems are the caller's to fix; everything else is a server error */
+export function bundleErrorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof ThreadBundleError) {
+    const status = error.code === 'not_configured' ? 503 : 422;
+    return NextResponse.json({ error: error.message, code: error.code }, { status });
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { authorizeBundleAdmin, bundleErrorResponse } from '../auth';
+
+const importSchema = z.object({
+  bundle: z.union([z.string(), z.record(z.unknown())]),
+  userIdMap: z.record(z.string().min(1)),
+  passphrase: z.string().optional(),
+  parentThreadId: z.string().optional()
+});
+
+/**
+ * Imports a bundle as a new thread. Responds 422 with a `code` when the
+ * bundle fails verification or references unmapped users.
+ */
+export async function POST(request: Request) {
+  const auth = await authorizeBundleAdmin();
+  if (auth instanceof NextResponse) return auth;
+
+  const parsed = importSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const { bundle, userIdMap, passphrase, parentThreadId } = parsed.data;
+    const result = await auth.service.importThread(
+      typeof bundle === 'string' ? bundle : JSON.stringify(bundle),
+      { userIdMap, passphrase, parentThreadId },
+      auth.client
+    );
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    await logger.error('Failed to import thread', error instanceof Error ? error : undefined);
+    return bundleErrorResponse(error, 'Failed to import thread');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { authorizeTemplateActor, templateErrorResponse } from '../../auth';
+
+const provisionSchema = z.object({
+  users: z.array(z.object({
+    userId: z.string().uuid(),
+    displayName: z.string().trim().min(1).max(200).optional()
+  })).min(1).max(200)
+});
+
+/**
+ * Instantiates a template for a cohort. Safe to repeat: trainees who
+ * already have it are reported as such, and partial runs are resumed.
+ * Responds 207 when some trainees failed.
+ */
+export async function POST(request: Request, { params }: { params: { templateId: string } }) {
+  const auth = await authorizeTemplateActor();
+  if (auth instanceof NextResponse) return auth;
+
+  const parsed = provisionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const report = await auth.service.provision(params.templateId, parsed.data.users, auth.actor, auth.client);
+    return NextResponse.json(report, { status: report.failed > 0 ? 207 : 200 });
+  } catch (error) {
+    await logger.error('Failed to provision thread template', error instanceof Error ? error : undefined, {
+      templateId: params.templateId
+    });
+    return templateErrorResponse(error, 'Failed to provision thread template');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ThreadTemplateService } from '@/services/chat/ThreadTemplateService';
+import { TemplateActor, TemplateError } from '@/services/chat/templates';
+import { getServerCaller } from '@/lib/supabase-server';
+import { redis } from '@/lib/redis';
+
+/**
+ * Resolves the signed-in user and their role. Which roles may author and
+ * provision templates is decided by ThreadTemplateService. Routes pass
+ * `client`, which acts as the caller, to each service call.
+ */
+export async function authorizeTemplateActor(): Promise<{ actor: TemplateActor; client: SupabaseClient; service: ThreadTemplateService } | NextResponse> {
+  const caller = await getServerCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return {
+    actor: { id: caller.userId, role: caller.role ?? 'user' },
+    client: caller.supabase,
+    service: ThreadTemplateService.getInstance(caller.supabase, redis)
+  };
+}
+
+export function templateErrorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof TemplateError) {
+    const status = {
+      invalid_template: 422,
+      unknown_client_profile: 422,
+      forbidden: 403,
+      not_found: 404
+    }[error.code];
+    return NextResponse.json({ error: error.message, code: error.code }, { status });
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { authorizeTemplateActor, templateErrorResponse } from './auth';
+
+const seedMessageSchema = z.object({
+  role: z.enum(['instructor', 'client']),
+  content: z.string().trim().min(1).max(4000)
+});
+
+const threadEntrySchema = z.object({
+  key: z.string().regex(/^[a-z0-9_-]{1,64}$/),
+  title: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  parentKey: z.string().optional(),
+  pinned: z.boolean().optional(),
+  clientProfileId: z.string().min(1).optional(),
+  position: z.number().int().min(0),
+  seedMessages: z.array(seedMessageSchema).max(50).default([])
+});
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  definition: z.object({
+    group: z.object({
+      name: z.string().trim().min(1).max(200),
+      description: z.string().max(2000).optional(),
+      color: z.string().max(32).optional(),
+      icon: z.string().max(64).optional(),
+      position: z.number().int().min(0)
+    }).nullable(),
+    threads: z.array(threadEntrySchema).min(1).max(50)
+  })
+});
+
+export async function GET() {
+  const auth = await authorizeTemplateActor();
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    return NextResponse.json({ templates: await auth.service.listTemplates(auth.client) });
+  } catch (error) {
+    await logger.error('Failed to list thread templates', error instanceof Error ? error : undefined);
+    return templateErrorResponse(error, 'Failed to list thread templates');
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await authorizeTemplateActor();
+  if (auth instanceof NextResponse) return auth;
+
+  const parsed = templateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await auth.service.createTemplate(parsed.data, auth.actor, auth.client), { status: 201 });
+  } catch (error) {
+    await logger.error('Failed to create thread template', error instanceof Error ? error : undefined);
+    return templateErrorResponse(error, 'Failed to create thread template');
+  }
+}
@@ -9,6 +9,13 @@ const supabaseKey = process.env.SUPABASE_KEY || '';
 
 export const supabase = createClient<Database>(supabaseUrl, supabaseKey);
 
+// Bypasses RLS; only for writes to tables that have no client-facing policies
+export const supabaseServiceRole = createClient<Database>(
+  supabaseUrl,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
 // Message table types
 export interface Message {
   id: string;
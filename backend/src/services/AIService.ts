@@ -1,6 +1,9 @@
 import { SecurityAuditService } from "./SecurityAuditService";
 import { RateLimiterService } from "./RateLimiterService";
 import { TextAnalysisService } from "./TextAnalysisService";
+import { randomUUID } from "crypto";
+import { ContextWindowManager } from "../../../src/ai/context";
+import { GuardrailPipeline, InterventionRecorder, defaultChecks } from "./guardrails";
 
 interface AIMessage {
   role: "user" | "assistant" | "system";
@@ -36,7 +39,10 @@ export class AIService {
   private securityAudit: SecurityAuditService;
   private rateLimiter: RateLimiterService;
   private textAnalysis: TextAnalysisService;
+  private contextWindow: ContextWindowManager;
+  private guardrails: GuardrailPipeline;
   private systemPrompt: string;
+  private model: string = "gpt-4";
   private maxRetries: number = 3;
   private retryDelay: number = 1000; // 1 second
 
@@ -45,11 +51,21 @@ export class AIService {
     rateLimiter: RateLimiterService,
     textAnalysis: TextAnalysisService,
     systemPrompt?: string,
+    guardrails?: GuardrailPipeline,
+    contextWindow?: ContextWindowManager,
   ) {
     this.securityAudit = securityAudit;
     this.rateLimiter = rateLimiter;
     this.textAnalysis = textAnalysis;
     this.systemPrompt = systemPrompt || this.getDefaultSystemPrompt();
+    this.contextWindow = contextWindow || ContextWindowManager.getInstance();
+    this.guardrails =
+      guardrails ||
+      new GuardrailPipeline(
+        defaultChecks(),
+        {},
+        new InterventionRecorder(securityAudit),
+      );
   }
 
   private getDefaultSystemPrompt(): string {
@@ -65,7 +81,12 @@ export class AIService {
     immediately provide crisis resources and alert the system.`;
   }
 
-  async processMessage(userId: string, message: string): Promise<AIResponse> {
+  async processMessage(
+    userId: string,
+    message: string,
+    history: AIMessage[] = [],
+    conversationId?: string,
+  ): Promise<AIResponse> {
     try {
       // Rate limiting check
       if (this.rateLimiter.isRateLimited(userId, "ai_request")) {
@@ -82,7 +103,12 @@ export class AIService {
         return this.handleCrisisSituation(message);
       }
       // Process message with retries
-      return await this.processWithRetries(userId, message);
+      return await this.processWithRetries(
+        userId,
+        message,
+        history,
+        conversationId,
+      );
     } catch (error) {
       this.securityAudit.recordEvent("ai_error", {
         userId,
@@ -99,15 +125,13 @@ export class AIService {
   private async processWithRetries(
     userId: string,
     message: string,
+    history: AIMessage[],
+    conversationId?: string,
   ): Promise<AIResponse> {
+    const messages = await this.fitContext(message, history, conversationId);
     let lastError: Error | null = null;
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
       try {
-        const messages: AIMessage[] = [
-          { role: "system", content: this.systemPrompt },
-          { role: "user", content: message },
-        ];
-
         // Perform text analysis in parallel with AI model call
         const [response, textAnalysisResult] = await Promise.all([
           this.callAIModel(messages),
@@ -154,6 +178,34 @@ export class AIService {
     };
   }
 
+  /**
+   * Rolling summaries belong to one conversation; without its id there is
+   * nothing to carry across calls, so the summary is dropped afterwards
+   */
+  private async fitContext(
+    message: string,
+    history: AIMessage[],
+    conversationId?: string,
+  ): Promise<AIMessage[]> {
+    const key = conversationId ?? `once:${randomUUID()}`;
+    try {
+      const { messages } = await this.contextWindow.fit(
+        key,
+        [
+          { role: "system", content: this.systemPrompt, pinned: true },
+          ...history.filter((m) => m.role !== "system"),
+          { role: "user", content: message },
+        ],
+        this.model,
+      );
+      return messages.map(({ role, content }) => ({ role, content }));
+    } finally {
+      if (!conversationId) {
+        this.contextWindow.reset(key);
+      }
+    }
+  }
+
   private containsCrisisKeywords(message: string): boolean {
     const crisisKeywords = [
       "suicide",
@@ -257,6 +309,11 @@ export class AIService {
       }
     }
 
-    return generateResponse();
+    const sessionId =
+      history.length > 0 ? history[history.length - 1].session_id : undefined;
+    return this.guardrails.guardStream(generateResponse(), {
+      userId,
+      sessionId,
+    });
   }
 }
@@ -0,0 +1,82 @@
+import { AIService } from "../AIService";
+import { ContextWindowManager } from "../../../../src/ai/context";
+import type { ContextMessage, Summarizer } from "../../../../src/ai/context";
+import { GuardrailPipeline } from "../guardrails";
+
+jest.mock("../../config/supabase", () => ({ supabase: {}, supabaseServiceRole: {} }));
+jest.mock("../../../../src/services/summarization/SessionSummarizationService", () => ({
+  SessionSummarizationService: { getInstance: jest.fn() },
+}));
+
+// ~100 tokens per turn, so an 8k model holds roughly 70 of them
+const history = (topic: string, length: number) =>
+  Array.from({ length }, (_, index) => ({
+    role: (index % 2 === 0 ? "user" : "assistant") as "user" | "assistant",
+    content: `${topic} ${index} `.padEnd(400, "."),
+  }));
+
+const createService = (contextWindow: ContextWindowManager) =>
+  new AIService(
+    { recordEvent: jest.fn() } as any,
+    { isRateLimited: jest.fn().mockReturnValue(false) } as any,
+    {
+      analyzeText: jest.fn().mockResolvedValue({
+        emotions: { primary: "neutral", intensity: 0 },
+        therapyTechniques: [],
+        crisisIndicators: { severity: "none", triggers: [], immediateActionRequired: false },
+      }),
+    } as any,
+    undefined,
+    new GuardrailPipeline([], {}),
+    contextWindow,
+  );
+
+describe("AIService context window", () => {
+  let summarized: ContextMessage[][];
+  let summarizer: Summarizer;
+
+  beforeEach(() => {
+    summarized = [];
+    summarizer = {
+      summarize: jest.fn(async (turns: ContextMessage[], previous?: string) => {
+        summarized.push(turns);
+        return `${turns[0].content.split(" ")[0]} summary${previous ? " + earlier" : ""}`;
+      }),
+    };
+  });
+
+  it("should keep rolling summaries per conversation, not per user", async () => {
+    const contextWindow = new ContextWindowManager(summarizer);
+    const service = createService(contextWindow);
+    const fit = jest.spyOn(contextWindow, "fit");
+
+    await service.processMessage("user-1", "hello", history("anxiety", 120), "thread-a");
+    await service.processMessage("user-1", "hello", history("sleep", 120), "thread-b");
+
+    expect(fit.mock.calls.map(([conversationId]) => conversationId)).toEqual([
+      "thread-a",
+      "thread-b",
+    ]);
+    // The second thread starts its own summary instead of extending the first
+    expect((await fit.mock.results[1].value).summary).toBe("sleep summary");
+  });
+
+  it("should budget for the configured model", async () => {
+    const contextWindow = new ContextWindowManager(summarizer);
+    const fit = jest.spyOn(contextWindow, "fit");
+
+    await createService(contextWindow).processMessage("user-1", "hello", history("anxiety", 4), "thread-a");
+
+    expect(fit).toHaveBeenCalledWith("thread-a", expect.any(Array), "gpt-4");
+  });
+
+  it("should not keep a summary for calls without a conversation", async () => {
+    const contextWindow = new ContextWindowManager(summarizer);
+    const reset = jest.spyOn(contextWindow, "reset");
+
+    await createService(contextWindow).processMessage("user-1", "hello", history("anxiety", 120));
+
+    expect(summarizer.summarize).toHaveBeenCalledTimes(1);
+    expect(reset).toHaveBeenCalledWith(expect.stringMatching(/^once:/));
+  });
+});
@@ -0,0 +1,121 @@
+import { SessionManager } from "../websocket/SessionManager";
+import { SecurityAuditService } from "../SecurityAuditService";
+import { supabase } from "../../config/supabase";
+
+jest.mock('../../config/supabase', () => ({
+    supabase: {
+        from: jest.fn().mockReturnThis(),
+        insert: jest.fn().mockResolvedValue({ error: null })
+    },
+    supabaseServiceRole: {}
+}));
+jest.mock('../SecurityAuditService', () => ({
+    SecurityAuditService: { getInstance: jest.fn() }
+}));
+
+describe('SessionManager supervision', () => {
+    let manager: SessionManager;
+    let audit: { recordEvent: jest.Mock; recordAlert: jest.Mock };
+    const roles: Record<string, string> = { 'sup-user': 'supervisor', 'trainee-user': 'therapist' };
+    const assignments: Record<string, 'client' | 'trainee' | 'supervisor'> = {
+        'client-user': 'client',
+        'trainee-user': 'trainee',
+        'sup-user': 'supervisor'
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        audit = {
+            recordEvent: jest.fn().mockResolvedValue(undefined),
+            recordAlert: jest.fn().mockResolvedValue(undefined)
+        };
+        manager = new SessionManager(
+            audit as unknown as SecurityAuditService,
+            async (userId) => roles[userId] ?? null,
+            async (sessionId, userId) => (sessionId === 's1' ? assignments[userId] ?? null : null)
+        );
+
+        await manager.addClient('s1', 'trainee', { userId: 'trainee-user', role: 'trainee' });
+        await manager.addClient('s1', 'client', { userId: 'client-user', role: 'client' });
+    });
+
+    it('should take the role from the session record when joining', async () => {
+        await expect(manager.join('s1', 'sup', 'sup-user')).resolves.toBe('supervisor');
+
+        expect(manager.getParticipants('s1', true)).toContainEqual(
+            expect.objectContaining({ clientId: 'sup', userId: 'sup-user', role: 'supervisor', hidden: true })
+        );
+    });
+
+    it('should reject users the session does not name', async () => {
+        await expect(manager.join('s1', 'intruder', 'other-user')).rejects.toThrow('Not a participant in this session');
+        await expect(manager.join('s2', 'sup', 'sup-user')).rejects.toThrow('Not a participant in this session');
+
+        expect(audit.recordAlert).toHaveBeenCalledWith('SESSION_JOIN_DENIED', 'HIGH', expect.objectContaining({
+            sessionId: 's1',
+            userId: 'other-user'
+        }));
+        expect(manager.getParticipants('s1', true).map(p => p.clientId)).toEqual(['trainee', 'client']);
+    });
+
+    it('should reject supervisors without a supervisor profile', async () => {
+        await expect(
+            manager.addClient('s1', 'intruder', { userId: 'trainee-user', role: 'supervisor' })
+        ).rejects.toThrow('Supervisor role required');
+        expect(audit.recordAlert).toHaveBeenCalledWith('SUPERVISION_DENIED', 'HIGH', expect.any(Object));
+    });
+
+    it('should hide supervisors from the participant list', async () => {
+        await manager.addClient('s1', 'sup', { userId: 'sup-user', role: 'supervisor' });
+
+        expect(manager.getParticipants('s1').map(p => p.clientId)).toEqual(['trainee', 'client']);
+        expect(manager.getParticipants('s1', true).map(p => p.clientId)).toContain('sup');
+        expect(audit.recordEvent).toHaveBeenCalledWith('SUPERVISION_JOIN', expect.objectContaining({ clientId: 'sup' }));
+    });
+
+    it('should route trainee drafts to supervisors only', async () => {
+        await manager.addClient('s1', 'sup', { userId: 'sup-user', role: 'supervisor' });
+
+        const delivery = await manager.routeMessage('s1', 'trainee', { type: 'draft_update', draft: 'How are' });
+
+        expect(delivery).toEqual({
+            recipients: ['sup'],
+            message: expect.objectContaining({ type: 'supervision_draft', draft: 'How are' })
+        });
+    });
+
+    it('should deliver whispers to the trainee and persist them with supervision visibility', async () => {
+        await manager.addClient('s1', 'sup', { userId: 'sup-user', role: 'supervisor' });
+
+        const delivery = await manager.routeMessage('s1', 'sup', { type: 'whisper', content: 'Reflect back first' });
+
+        expect(delivery?.recipients).toEqual(['trainee']);
+        expect(delivery?.message).toEqual(expect.objectContaining({ type: 'whisper', visibility: 'supervision' }));
+        expect(supabase.from).toHaveBeenCalledWith('messages');
+        expect((supabase as any).insert).toHaveBeenCalledWith(expect.objectContaining({
+            session_id: 's1',
+            user_id: 'sup-user',
+            visibility: 'supervision'
+        }));
+    });
+
+    it('should not let trainees whisper or supervisors post visibly', async () => {
+        await manager.addClient('s1', 'sup', { userId: 'sup-user', role: 'supervisor' });
+
+        await expect(
+            manager.routeMessage('s1', 'trainee', { type: 'whisper', content: 'hi' })
+        ).rejects.toThrow('Only supervisors can whisper');
+        await expect(
+            manager.routeMessage('s1', 'sup', { type: 'message', content: 'hi' })
+        ).rejects.toThrow('Supervisors cannot post to the session');
+    });
+
+    it('should send regular messages to everyone but the sender', async () => {
+        await manager.addClient('s1', 'sup', { userId: 'sup-user', role: 'supervisor' });
+
+        const delivery = await manager.routeMessage('s1', 'client', { type: 'message', content: 'hello' });
+
+        expect(delivery?.recipients).toEqual(['trainee', 'sup']);
+        expect(delivery?.message.visibility).toBe('all');
+    });
+});
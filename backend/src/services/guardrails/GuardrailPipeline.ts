@@ -0,0 +1,212 @@
+import { defaultChecks } from "./checks";
+import { SentenceBuffer } from "./SentenceBuffer";
+import {
+  GuardrailAction,
+  GuardrailCheck,
+  GuardrailContext,
+  GuardrailFinding,
+  GuardrailIntervention,
+  GuardrailPolicy,
+  GuardrailResult,
+  InterventionSink,
+} from "./types";
+
+export const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = {
+  self_harm_encouragement: "block",
+  dosage_advice: "rewrite",
+  phi_leakage: "rewrite",
+  boundary_violation: "annotate",
+};
+
+export const BLOCKED_RESPONSE =
+  "I'm not able to continue this response. If you're in crisis or thinking about harming yourself, please call or text 988, text HOME to 741741, or call 911.";
+
+const ACTION_RANK: Record<GuardrailAction, number> = {
+  annotate: 1,
+  rewrite: 2,
+  block: 3,
+};
+
+const SEVERITY_RANK = { low: 1, medium: 2, high: 3 };
+
+interface SentenceOutcome {
+  text: string;
+  blocked: boolean;
+  annotations: string[];
+}
+
+/**
+ * Post-generation safety stage for AI responses. Every sentence is run
+ * through all checks; the strictest configured action among the findings
+ * wins, and each finding is recorded as an intervention.
+ */
+export class GuardrailPipeline {
+  private readonly policy: GuardrailPolicy;
+
+  constructor(
+    private readonly checks: GuardrailCheck[] = defaultChecks(),
+    policy: Partial<GuardrailPolicy> = {},
+    private readonly sink?: InterventionSink,
+  ) {
+    this.policy = { ...DEFAULT_GUARDRAIL_POLICY, ...policy };
+  }
+
+  /** Guard a complete response */
+  async evaluate(
+    text: string,
+    context: GuardrailContext,
+  ): Promise<GuardrailResult> {
+    const buffer = new SentenceBuffer();
+    const sentences = buffer.push(text);
+    const rest = buffer.flush();
+    if (rest) sentences.push(rest);
+
+    const interventions: GuardrailIntervention[] = [];
+    const annotations: string[] = [];
+    let output = "";
+    for (const sentence of sentences) {
+      const outcome = await this.processSentence(sentence, context, interventions);
+      if (outcome.blocked) {
+        return { text: BLOCKED_RESPONSE, blocked: true, annotations, interventions };
+      }
+      output += outcome.text;
+      this.addAnnotations(annotations, outcome.annotations);
+    }
+
+    return {
+      text: output + this.formatAnnotations(annotations),
+      blocked: false,
+      annotations,
+      interventions,
+    };
+  }
+
+  /**
+   * Guard a streamed response. Output is held back until a sentence is
+   * complete; a block stops reading from the source immediately.
+   */
+  async *guardStream(
+    source: AsyncIterable<string>,
+    context: GuardrailContext,
+  ): AsyncGenerator<string> {
+    const buffer = new SentenceBuffer();
+    const interventions: GuardrailIntervention[] = [];
+    const annotations: string[] = [];
+
+    for await (const chunk of source) {
+      for (const sentence of buffer.push(chunk)) {
+        const outcome = await this.processSentence(sentence, context, interventions);
+        if (outcome.blocked) {
+          yield BLOCKED_RESPONSE;
+          return;
+        }
+        this.addAnnotations(annotations, outcome.annotations);
+        yield outcome.text;
+      }
+    }
+
+    const rest = buffer.flush();
+    if (rest) {
+      const outcome = await this.processSentence(rest, context, interventions);
+      if (outcome.blocked) {
+        yield BLOCKED_RESPONSE;
+        return;
+      }
+      this.addAnnotations(annotations, outcome.annotations);
+      yield outcome.text;
+    }
+
+    if (annotations.length > 0) {
+      yield this.formatAnnotations(annotations);
+    }
+  }
+
+  private async processSentence(
+    sentence: string,
+    context: GuardrailContext,
+    interventions: GuardrailIntervention[],
+  ): Promise<SentenceOutcome> {
+    const findings = (
+      await Promise.all(this.checks.map((check) => this.runCheck(check, sentence, context)))
+    ).filter((finding): finding is GuardrailFinding => finding !== null);
+
+    if (findings.length === 0) {
+      return { text: sentence, blocked: false, annotations: [] };
+    }
+
+    const timestamp = new Date().toISOString();
+    for (const finding of findings) {
+      const intervention: GuardrailIntervention = {
+        check: finding.check,
+        action: this.policy[finding.check],
+        severity: finding.severity,
+        reason: finding.reason,
+        userId: context.userId,
+        sessionId: context.sessionId,
+        originalLength: sentence.length,
+        timestamp,
+      };
+      interventions.push(intervention);
+      await this.sink?.record(intervention);
+    }
+
+    const strictest = findings.reduce((current, finding) => {
+      const rank = ACTION_RANK[this.policy[finding.check]];
+      const currentRank = ACTION_RANK[this.policy[current.check]];
+      return rank > currentRank ||
+        (rank === currentRank &&
+          SEVERITY_RANK[finding.severity] > SEVERITY_RANK[current.severity])
+        ? finding
+        : current;
+    });
+
+    switch (this.policy[strictest.check]) {
+      case "block":
+        return { text: "", blocked: true, annotations: [] };
+      case "rewrite":
+        return {
+          text: `${strictest.rewrite ?? ""}${sentence.match(/\s*$/)?.[0] ?? ""}`,
+          blocked: false,
+          annotations: findings
+            .filter((finding) => this.policy[finding.check] === "annotate")
+            .map((finding) => finding.reason),
+        };
+      default:
+        return {
+          text: sentence,
+          blocked: false,
+          annotations: findings.map((finding) => finding.reason),
+        };
+    }
+  }
+
+  private async runCheck(
+    check: GuardrailCheck,
+    sentence: string,
+    context: GuardrailContext,
+  ): Promise<GuardrailFinding | null> {
+    try {
+      return await check.evaluate(sentence, context);
+    } catch (error) {
+      // A broken check must not let content through unexamined
+      console.error(`Guardrail check ${check.id} failed:`, error);
+      return {
+        check: check.id,
+        severity: "high",
+        reason: `Check ${check.id} could not be completed`,
+      };
+    }
+  }
+
+  private addAnnotations(target: string[], annotations: string[]): void {
+    for (const annotation of annotations) {
+      if (!target.includes(annotation)) target.push(annotation);
+    }
+  }
+
+  private formatAnnotations(annotations: string[]): string {
+    return annotations.length > 0
+      ? `\n\n[Reviewer note: ${annotations.join("; ")}]`
+      : "";
+  }
+}
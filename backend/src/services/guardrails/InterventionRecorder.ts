@@ -0,0 +1,48 @@
+import { supabaseServiceRole } from "../../config/supabase";
+import { SecurityAuditService } from "../SecurityAuditService";
+import { GuardrailIntervention, InterventionSink } from "./types";
+
+/**
+ * Persists guardrail interventions for the compliance dashboards. Recording
+ * failures are audited but never interrupt the response being guarded.
+ *
+ * guardrail_interventions has no INSERT policy, so the default client is the
+ * service-role one.
+ */
+export class InterventionRecorder implements InterventionSink {
+  constructor(
+    private readonly securityAudit: SecurityAuditService,
+    private readonly client: any = supabaseServiceRole,
+  ) {}
+
+  async record(intervention: GuardrailIntervention): Promise<void> {
+    this.securityAudit.recordEvent("AI_GUARDRAIL_INTERVENTION", {
+      check: intervention.check,
+      action: intervention.action,
+      severity: intervention.severity,
+      userId: intervention.userId,
+      sessionId: intervention.sessionId,
+    });
+
+    try {
+      const { error } = await this.client.from("guardrail_interventions").insert([
+        {
+          check_id: intervention.check,
+          action: intervention.action,
+          severity: intervention.severity,
+          reason: intervention.reason,
+          user_id: intervention.userId,
+          session_id: intervention.sessionId ?? null,
+          original_length: intervention.originalLength,
+          created_at: intervention.timestamp,
+        },
+      ]);
+      if (error) throw error;
+    } catch (error) {
+      this.securityAudit.recordEvent("AI_GUARDRAIL_RECORD_ERROR", {
+        error: error instanceof Error ? error.message : String(error),
+        check: intervention.check,
+      });
+    }
+  }
+}
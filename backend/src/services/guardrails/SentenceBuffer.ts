@@ -0,0 +1,32 @@
+// Sentence end: terminal punctuation (optionally closed by a quote or
+// bracket) followed by whitespace, or a blank line
+const SENTENCE_END = /[.!?]+["')\]]*\s+|\n{2,}/g;
+
+/**
+ * Accumulates streamed chunks and releases whole sentences, so checks never
+ * see half a phrase. Whatever is left when the stream ends comes out of `flush`.
+ */
+export class SentenceBuffer {
+  private pending = "";
+
+  push(chunk: string): string[] {
+    this.pending += chunk;
+    const sentences: string[] = [];
+    let start = 0;
+    SENTENCE_END.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_END.exec(this.pending)) !== null) {
+      const end = match.index + match[0].length;
+      sentences.push(this.pending.slice(start, end));
+      start = end;
+    }
+    this.pending = this.pending.slice(start);
+    return sentences;
+  }
+
+  flush(): string | null {
+    const rest = this.pending;
+    this.pending = "";
+    return rest.length > 0 ? rest : null;
+  }
+}
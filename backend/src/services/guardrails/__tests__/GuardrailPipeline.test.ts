@@ -0,0 +1,153 @@
+import { GuardrailPipeline, BLOCKED_RESPONSE } from "../GuardrailPipeline";
+import { SentenceBuffer } from "../SentenceBuffer";
+import { createBoundaryCheck, createPHILeakageCheck, defaultChecks } from "../checks";
+import type { GuardrailIntervention, InterventionSink } from "../types";
+
+const context = { userId: "user-1", sessionId: "session-1" };
+
+async function* chunked(text: string, size = 7): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+const collect = async (stream: AsyncIterable<string>) => {
+  let output = "";
+  for await (const chunk of stream) output += chunk;
+  return output;
+};
+
+const recordingSink = () => {
+  const recorded: GuardrailIntervention[] = [];
+  const sink: InterventionSink = {
+    record: jest.fn(async (intervention) => {
+      recorded.push(intervention);
+    }),
+  };
+  return { sink, recorded };
+};
+
+describe("SentenceBuffer", () => {
+  it("should release only complete sentences", () => {
+    const buffer = new SentenceBuffer();
+    expect(buffer.push("Hello the")).toEqual([]);
+    expect(buffer.push("re. How are")).toEqual(["Hello there. "]);
+    expect(buffer.push(" you?\n\nFine")).toEqual(["How are you?\n\n"]);
+    expect(buffer.flush()).toBe("Fine");
+    expect(buffer.flush()).toBeNull();
+  });
+});
+
+describe("GuardrailPipeline", () => {
+  it("should pass safe responses through unchanged", async () => {
+    const { sink } = recordingSink();
+    const pipeline = new GuardrailPipeline(defaultChecks(), {}, sink);
+    const text = "That sounds really hard. What helped you last time?";
+
+    expect(await collect(pipeline.guardStream(chunked(text), context))).toBe(text);
+    expect(sink.record).not.toHaveBeenCalled();
+  });
+
+  it("should block self-harm encouragement and stop streaming", async () => {
+    const { sink, recorded } = recordingSink();
+    const pipeline = new GuardrailPipeline(defaultChecks(), {}, sink);
+    const source = chunked(
+      "I hear you. It's okay to hurt yourself when it gets bad. More text.",
+    );
+
+    const output = await collect(pipeline.guardStream(source, context));
+
+    expect(output).toBe(`I hear you. ${BLOCKED_RESPONSE}`);
+    expect(recorded).toEqual([
+      expect.objectContaining({
+        check: "self_harm_encouragement",
+        action: "block",
+        userId: "user-1",
+        sessionId: "session-1",
+      }),
+    ]);
+  });
+
+  it("should rewrite dosage advice and PHI", async () => {
+    const pipeline = new GuardrailPipeline();
+
+    const result = await pipeline.evaluate(
+      "You could take 50mg of sertraline. Call me at 555-123-4567. Take care.",
+      context,
+    );
+
+    expect(result.text).not.toMatch(/50mg|555-123-4567/);
+    expect(result.text).toContain("prescriber or pharmacist");
+    expect(result.text).toContain("[personal details removed]");
+    expect(result.text).toMatch(/Take care\.$/);
+    expect(result.interventions.map((i) => i.check)).toEqual([
+      "dosage_advice",
+      "phi_leakage",
+    ]);
+  });
+
+  it("should annotate boundary issues without changing the text", async () => {
+    const pipeline = new GuardrailPipeline();
+
+    const result = await pipeline.evaluate(
+      "We could grab coffee sometime. Let's keep talking.",
+      context,
+    );
+
+    expect(result.text).toMatch(/^We could grab coffee sometime\. Let's keep talking\./);
+    expect(result.annotations).toEqual([
+      "Offer of contact outside the therapeutic setting",
+    ]);
+    expect(result.text).toContain("[Reviewer note:");
+  });
+
+  it("should honour configured actions", async () => {
+    const pipeline = new GuardrailPipeline(defaultChecks(), {
+      boundary_violation: "block",
+    });
+
+    const result = await pipeline.evaluate("Text me on my personal number.", context);
+
+    expect(result.blocked).toBe(true);
+    expect(result.text).toBe(BLOCKED_RESPONSE);
+  });
+
+  it("should delegate to injected PHI and boundary services", async () => {
+    const phi = {
+      checkPHIHandling: jest
+        .fn()
+        .mockResolvedValue({ isSecure: false, issues: ["Unencrypted PHI"] }),
+    };
+    const ethics = {
+      checkBoundaries: jest
+        .fn()
+        .mockResolvedValue({ isMaintained: true, severity: "low" }),
+    };
+    const pipeline = new GuardrailPipeline([
+      createPHILeakageCheck(phi),
+      createBoundaryCheck(ethics),
+    ]);
+
+    const result = await pipeline.evaluate("Anything at all.", context);
+
+    expect(phi.checkPHIHandling).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "session-1", content: "Anything at all." }),
+    );
+    expect(ethics.checkBoundaries).toHaveBeenCalled();
+    expect(result.interventions[0].reason).toBe("Unencrypted PHI");
+  });
+
+  it("should fail closed when a check throws", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const pipeline = new GuardrailPipeline([
+      {
+        id: "self_harm_encouragement",
+        evaluate: jest.fn().mockRejectedValue(new Error("model offline")),
+      },
+    ]);
+
+    const result = await pipeline.evaluate("Hello.", context);
+
+    expect(result.blocked).toBe(true);
+  });
+});
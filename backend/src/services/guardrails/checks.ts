@@ -0,0 +1,148 @@
+import {
+  BoundaryChecker,
+  GuardrailCheck,
+  GuardrailSeverity,
+  PHIHandlingChecker,
+} from "./types";
+import {
+  detectBoundaryIssues,
+  detectPHI,
+} from "../../../../src/lib/compliance/output-patterns";
+
+const SELF_HARM_ENCOURAGEMENT =
+  /\b(you should|you could|go ahead and|it'?s (ok|okay|fine) to|try to|the best way to)\b[^.!?]*\b(hurt|harm|cut|kill|starve) (yourself|your body)\b|\b(you'?d be better off dead|nobody would miss you|end it all)\b/i;
+
+const DOSAGE_ADVICE =
+  /\b(take|try|increase|double|reduce|stop taking)\b[^.!?]*\b(\d+(\.\d+)?\s?(mg|mcg|ml|milligrams?|pills?|tablets?|doses?)|your (medication|meds|prescription))\b/i;
+
+const SELF_HARM_REWRITE =
+  "I can't help with anything that could hurt you. If you're thinking about harming yourself, please reach out now: call or text 988, or text HOME to 741741.";
+const DOSAGE_REWRITE =
+  "Questions about medication and dosage are best answered by your prescriber or pharmacist.";
+const PHI_REWRITE = "[personal details removed]";
+const BOUNDARY_REWRITE =
+  "I'm here to support you within our sessions.";
+
+export const selfHarmEncouragementCheck: GuardrailCheck = {
+  id: "self_harm_encouragement",
+  async evaluate(text) {
+    return SELF_HARM_ENCOURAGEMENT.test(text)
+      ? {
+          check: "self_harm_encouragement",
+          severity: "high",
+          reason: "Response appears to encourage self-harm",
+          rewrite: SELF_HARM_REWRITE,
+        }
+      : null;
+  },
+};
+
+export const dosageAdviceCheck: GuardrailCheck = {
+  id: "dosage_advice",
+  async evaluate(text) {
+    return DOSAGE_ADVICE.test(text)
+      ? {
+          check: "dosage_advice",
+          severity: "medium",
+          reason: "Response gives medication or dosage advice",
+          rewrite: DOSAGE_REWRITE,
+        }
+      : null;
+  },
+};
+
+/**
+ * Detects identifiers in generated text with the patterns
+ * HIPAAService.checkPHIHandling applies to session content. The rest of that
+ * check audits stored sessions' access controls and encryption, which a
+ * response still being streamed doesn't have.
+ */
+export class OutputPHIChecker implements PHIHandlingChecker {
+  async checkPHIHandling(session: { content?: string }) {
+    const issues = detectPHI(session.content ?? "").map(
+      (type) => `Response discloses ${type.replace("_", " ")}`,
+    );
+    return {
+      isSecure: issues.length === 0,
+      issues: issues.length > 0 ? issues : undefined,
+      recommendations:
+        issues.length > 0
+          ? ["Remove identifiers from generated responses"]
+          : undefined,
+    };
+  }
+}
+
+/**
+ * Flags boundary-crossing language in generated text with the patterns
+ * EthicsService.checkBoundaries applies to session content.
+ */
+export class OutputBoundaryChecker implements BoundaryChecker {
+  async checkBoundaries(session: { content?: string }) {
+    const issues = detectBoundaryIssues(session.content ?? "");
+    const severity: GuardrailSeverity =
+      issues.length > 1 ? "high" : issues.length === 1 ? "medium" : "low";
+    return {
+      isMaintained: issues.length === 0,
+      severity,
+      issues: issues.length > 0 ? issues : undefined,
+    };
+  }
+}
+
+export function createPHILeakageCheck(
+  checker: PHIHandlingChecker = new OutputPHIChecker(),
+): GuardrailCheck {
+  return {
+    id: "phi_leakage",
+    async evaluate(text, context) {
+      const result = await checker.checkPHIHandling({
+        id: context.sessionId,
+        userId: context.userId,
+        content: text,
+        direction: "outbound",
+      });
+      return result.isSecure
+        ? null
+        : {
+            check: "phi_leakage",
+            severity: "high",
+            reason: (result.issues ?? ["PHI detected"]).join("; "),
+            rewrite: PHI_REWRITE,
+          };
+    },
+  };
+}
+
+export function createBoundaryCheck(
+  checker: BoundaryChecker = new OutputBoundaryChecker(),
+): GuardrailCheck {
+  return {
+    id: "boundary_violation",
+    async evaluate(text, context) {
+      const result = await checker.checkBoundaries({
+        id: context.sessionId,
+        userId: context.userId,
+        content: text,
+        direction: "outbound",
+      });
+      return result.isMaintained
+        ? null
+        : {
+            check: "boundary_violation",
+            severity: result.severity,
+            reason: (result.issues ?? ["Boundary violation"]).join("; "),
+            rewrite: BOUNDARY_REWRITE,
+          };
+    },
+  };
+}
+
+export function defaultChecks(): GuardrailCheck[] {
+  return [
+    selfHarmEncouragementCheck,
+    dosageAdviceCheck,
+    createPHILeakageCheck(),
+    createBoundaryCheck(),
+  ];
+}
@@ -0,0 +1,15 @@
+export * from "./types";
+export * from "./checks";
+export {
+  PHI_PATTERNS,
+  BOUNDARY_PATTERNS,
+  detectPHI,
+  detectBoundaryIssues,
+} from "../../../../src/lib/compliance/output-patterns";
+export { SentenceBuffer } from "./SentenceBuffer";
+export {
+  GuardrailPipeline,
+  DEFAULT_GUARDRAIL_POLICY,
+  BLOCKED_RESPONSE,
+} from "./GuardrailPipeline";
+export { InterventionRecorder } from "./InterventionRecorder";
@@ -0,0 +1,74 @@
+export type GuardrailAction = "block" | "rewrite" | "annotate";
+
+export type GuardrailCheckId =
+  | "self_harm_encouragement"
+  | "dosage_advice"
+  | "phi_leakage"
+  | "boundary_violation";
+
+export type GuardrailSeverity = "low" | "medium" | "high";
+
+export interface GuardrailContext {
+  userId: string;
+  sessionId?: string;
+}
+
+export interface GuardrailFinding {
+  check: GuardrailCheckId;
+  severity: GuardrailSeverity;
+  reason: string;
+  /** Replacement text used when the configured action is `rewrite` */
+  rewrite?: string;
+}
+
+export interface GuardrailCheck {
+  id: GuardrailCheckId;
+  evaluate(
+    text: string,
+    context: GuardrailContext,
+  ): Promise<GuardrailFinding | null>;
+}
+
+export type GuardrailPolicy = Record<GuardrailCheckId, GuardrailAction>;
+
+export interface GuardrailIntervention {
+  check: GuardrailCheckId;
+  action: GuardrailAction;
+  severity: GuardrailSeverity;
+  reason: string;
+  userId: string;
+  sessionId?: string;
+  /** Length only; the flagged text itself may contain PHI */
+  originalLength: number;
+  timestamp: string;
+}
+
+export interface GuardrailResult {
+  text: string;
+  blocked: boolean;
+  annotations: string[];
+  interventions: GuardrailIntervention[];
+}
+
+/** Same contract as the web app's HIPAAService.checkPHIHandling */
+export interface PHIHandlingChecker {
+  checkPHIHandling(session: any): Promise<{
+    isSecure: boolean;
+    issues?: string[];
+    recommendations?: string[];
+  }>;
+}
+
+/** Same contract as the web app's EthicsService.checkBoundaries */
+export interface BoundaryChecker {
+  checkBoundaries(session: any): Promise<{
+    isMaintained: boolean;
+    severity: GuardrailSeverity;
+    issues?: string[];
+    recommendations?: string[];
+  }>;
+}
+
+export interface InterventionSink {
+  record(intervention: GuardrailIntervention): Promise<void>;
+}
@@ -1,13 +1,68 @@
-import { supabase } from "../../config/database";
+import { supabase, supabaseServiceRole } from "../../config/supabase";
 import { SecurityAuditService } from '../SecurityAuditService';
-import { Session, SessionStatus } from "../../types/session";
+import { randomUUID } from 'crypto';
+import {
+    ParticipantRole,
+    Session,
+    SessionDelivery,
+    SessionParticipant,
+    SessionStatus
+} from "../../types/session";
+
+/** Profile roles allowed to join a session as a supervisor */
+const SUPERVISOR_PROFILE_ROLES = ['supervisor', 'admin'];
+
+export type UserRoleResolver = (userId: string) => Promise<string | null>;
+export type SessionRoleResolver = (sessionId: string, userId: string) => Promise<ParticipantRole | null>;
+
+async function fetchProfileRole(userId: string): Promise<string | null> {
+    const { data } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('user_id', userId)
+        .maybeSingle();
+    return data?.role ?? null;
+}
+
+/**
+ * The user's role in the session record, or null if they aren't assigned to
+ * it. Reads with the service-role client, since the lookup decides access.
+ */
+async function fetchSessionRole(sessionId: string, userId: string): Promise<ParticipantRole | null> {
+    const { data } = await supabaseServiceRole
+        .from('sessions')
+        .select('client_id, therapist_id, supervisor_id')
+        .eq('id', sessionId)
+        .maybeSingle();
+    if (!data) return null;
+    if (data.client_id === userId) return 'client';
+    if (data.therapist_id === userId) return 'trainee';
+    if (data.supervisor_id === userId) return 'supervisor';
+    return null;
+}
 
 export class SessionManager {
+    private static instance: SessionManager;
     private readonly sessions: Map<string, Session> = new Map();
     private readonly securityAuditService: SecurityAuditService;
+    private readonly resolveUserRole: UserRoleResolver;
+    private readonly resolveSessionRole: SessionRoleResolver;
 
-    constructor(securityAuditService: SecurityAuditService) {
+    constructor(
+        securityAuditService: SecurityAuditService,
+        resolveUserRole: UserRoleResolver = fetchProfileRole,
+        resolveSessionRole: SessionRoleResolver = fetchSessionRole
+    ) {
         this.securityAuditService = securityAuditService;
+        this.resolveUserRole = resolveUserRole;
+        this.resolveSessionRole = resolveSessionRole;
+    }
+
+    static getInstance(): SessionManager {
+        if (!SessionManager.instance) {
+            SessionManager.instance = new SessionManager(SecurityAuditService.getInstance());
+        }
+        return SessionManager.instance;
     }
 
     async createSession(userId: string): Promise<Session> {
@@ -60,12 +115,56 @@ export class SessionManager {
         }
     }
 
-    async addClient(sessionId: string, clientId: string): Promise<void> {
+    /**
+     * Joins an authenticated user to a session under the role the session
+     * record assigns them. Users the session doesn't name are rejected.
+     */
+    async join(sessionId: string, clientId: string, userId: string): Promise<ParticipantRole> {
+        const role = await this.resolveSessionRole(sessionId, userId);
+        if (!role) {
+            await this.securityAuditService.recordAlert('SESSION_JOIN_DENIED', 'HIGH', {
+                sessionId,
+                clientId,
+                userId
+            });
+            throw new Error('Not a participant in this session');
+        }
+
+        await this.addClient(sessionId, clientId, { userId, role });
+        return role;
+    }
+
+    /**
+     * Adds a connection to a session. Supervisors must hold a supervisor or
+     * admin profile; they join hidden, so other participants never see them.
+     */
+    async addClient(
+        sessionId: string,
+        clientId: string,
+        participant: { userId?: string; role?: ParticipantRole } = {}
+    ): Promise<void> {
+        const role = participant.role ?? 'client';
+
+        if (role === 'supervisor') {
+            const profileRole = participant.userId ? await this.resolveUserRole(participant.userId) : null;
+            if (!profileRole || !SUPERVISOR_PROFILE_ROLES.includes(profileRole)) {
+                await this.securityAuditService.recordAlert('SUPERVISION_DENIED', 'HIGH', {
+                    sessionId,
+                    clientId,
+                    userId: participant.userId
+                });
+                throw new Error('Supervisor role required');
+            }
+        }
+
         let session = this.sessions.get(sessionId);
 
         if (!session) {
             session = {
                 id: sessionId,
+                userId: participant.userId ?? '',
+                status: SessionStatus.ACTIVE,
+                startTime: new Date(),
                 clients: new Set(),
                 data: {}
             };
@@ -73,10 +172,21 @@ export class SessionManager {
         }
 
         session.clients.add(clientId);
+        if (!session.participants) {
+            session.participants = new Map();
+        }
+        session.participants.set(clientId, {
+            clientId,
+            userId: participant.userId,
+            role,
+            hidden: role === 'supervisor',
+            joinedAt: new Date()
+        });
 
-        await this.securityAuditService.recordEvent('SESSION_JOIN', {
+        await this.securityAuditService.recordEvent(role === 'supervisor' ? 'SUPERVISION_JOIN' : 'SESSION_JOIN', {
             sessionId,
-            clientId
+            clientId,
+            role
         });
     }
 
@@ -85,6 +195,7 @@ export class SessionManager {
         if (!session) return;
 
         session.clients.delete(clientId);
+        session.participants?.delete(clientId);
 
         if (session.clients.size === 0) {
             this.sessions.delete(sessionId);
@@ -96,6 +207,118 @@ export class SessionManager {
         });
     }
 
+    /** Participants as other users see them; hidden supervisors only when asked for */
+    getParticipants(sessionId: string, includeHidden = false): SessionParticipant[] {
+        const participants = Array.from(this.sessions.get(sessionId)?.participants?.values() ?? []);
+        return includeHidden ? participants : participants.filter(participant => !participant.hidden);
+    }
+
+    private clientsWithRole(session: Session, role: ParticipantRole, exclude?: string): string[] {
+        return Array.from(session.participants?.values() ?? [])
+            .filter(participant => participant.role === role && participant.clientId !== exclude)
+            .map(participant => participant.clientId);
+    }
+
+    /**
+     * Decides who receives a session message:
+     * - `draft_update` (trainee's unsent text) goes to supervisors only
+     * - `whisper` (supervisor coaching) goes to the trainee and other
+     *   supervisors, is stored with `supervision` visibility, and never
+     *   reaches the client
+     * - `message` goes to everyone else; hidden supervisors may not post
+     * Returns null for types the session manager does not route.
+     */
+    async routeMessage(sessionId: string, clientId: string, message: any): Promise<SessionDelivery | null> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new Error('Session not found');
+        }
+        const sender = session.participants?.get(clientId);
+        if (!sender) {
+            throw new Error('Not a session participant');
+        }
+
+        switch (message.type) {
+            case 'draft_update':
+                if (sender.role !== 'trainee') {
+                    throw new Error('Only trainees share drafts');
+                }
+                return {
+                    recipients: this.clientsWithRole(session, 'supervisor'),
+                    message: {
+                        type: 'supervision_draft',
+                        sessionId,
+                        traineeClientId: clientId,
+                        draft: String(message.draft ?? ''),
+                        timestamp: Date.now()
+                    }
+                };
+
+            case 'whisper': {
+                if (sender.role !== 'supervisor') {
+                    await this.securityAuditService.recordAlert('SUPERVISION_WHISPER_DENIED', 'MEDIUM', {
+                        sessionId,
+                        clientId,
+                        role: sender.role
+                    });
+                    throw new Error('Only supervisors can whisper');
+                }
+                const content = String(message.content ?? '').trim();
+                if (!content) {
+                    throw new Error('Whisper content is required');
+                }
+
+                const whisper = {
+                    type: 'whisper',
+                    id: randomUUID(),
+                    sessionId,
+                    senderId: sender.userId,
+                    content,
+                    visibility: 'supervision',
+                    timestamp: new Date().toISOString()
+                };
+                await this.persistWhisper(whisper);
+                await this.securityAuditService.recordEvent('SUPERVISION_WHISPER', {
+                    sessionId,
+                    clientId,
+                    messageId: whisper.id
+                });
+
+                return {
+                    recipients: [
+                        ...this.clientsWithRole(session, 'trainee'),
+                        ...this.clientsWithRole(session, 'supervisor', clientId)
+                    ],
+                    message: whisper
+                };
+            }
+
+            case 'message':
+                if (sender.hidden) {
+                    throw new Error('Supervisors cannot post to the session');
+                }
+                return {
+                    recipients: Array.from(session.clients).filter(id => id !== clientId),
+                    message: { ...message, visibility: 'all' }
+                };
+
+            default:
+                return null;
+        }
+    }
+
+    private async persistWhisper(whisper: { id: string; sessionId: string; senderId?: string; content: string }): Promise<void> {
+        const { error } = await supabase.from('messages').insert({
+            id: whisper.id,
+            session_id: whisper.sessionId,
+            user_id: whisper.senderId,
+            content: whisper.content,
+            visibility: 'supervision',
+            metadata: { kind: 'whisper' }
+        });
+        if (error) throw error;
+    }
+
     async handleMessage(sessionId: string, clientId: string, message: any): Promise<void> {
         const session = this.sessions.get(sessionId);
         if (!session) {
@@ -1,8 +1,13 @@
 import { WebSocket, Server as WSServer } from 'ws';
 import { IncomingMessage } from 'http';
 import { SecurityAuditService } from '../SecurityAuditService';
-import { SessionManager } from '../SessionManager';
+import { SessionManager } from './SessionManager';
 import { logger } from '../../lib/logger';
+import { supabase } from '../../config/supabase';
+import { ParticipantRole, SessionDelivery } from '../../types/session';
+
+/** Message types the session manager routes instead of plain forwarding */
+const SESSION_ROUTED_TYPES = new Set(['message', 'draft_update', 'whisper']);
 
 interface WebSocketClient extends WebSocket {
     id: string;
@@ -175,6 +180,17 @@ export class WebSocketService {
             // Update client activity
             this.updateClientActivity(client);
 
+            if (message.type === 'join_session') {
+                await this.joinSession(client, message);
+                return;
+            }
+
+            if (client.sessionId && SESSION_ROUTED_TYPES.has(message.type)) {
+                const delivery = await this.sessionManager.routeMessage(client.sessionId, client.id, message);
+                if (delivery) this.deliver(delivery);
+                return;
+            }
+
             // Process message
             if (message.recipient) {
                 await this.forwardMessage(client, message);
@@ -193,6 +209,46 @@ export class WebSocketService {
         }
     }
 
+    /**
+     * Joins the client to a session. The user is taken from the access token
+     * and the role from the session record, never from the message.
+     */
+    private async joinSession(client: WebSocketClient, message: any): Promise<void> {
+        const { data, error } = await supabase.auth.getUser(message.accessToken);
+        if (error || !data.user) {
+            this.sendToClient(client, { type: 'JOIN_REJECTED', payload: { reason: 'unauthenticated' }, timestamp: Date.now() });
+            return;
+        }
+
+        let role: ParticipantRole;
+        try {
+            role = await this.sessionManager.join(message.sessionId, client.id, data.user.id);
+        } catch (error) {
+            this.sendToClient(client, { type: 'JOIN_REJECTED', payload: { reason: (error as Error).message }, timestamp: Date.now() });
+            return;
+        }
+        client.sessionId = message.sessionId;
+
+        this.sendToClient(client, {
+            type: 'SESSION_JOINED',
+            payload: {
+                sessionId: message.sessionId,
+                role,
+                participants: this.sessionManager.getParticipants(message.sessionId, role === 'supervisor')
+            },
+            timestamp: Date.now()
+        });
+    }
+
+    private deliver(delivery: SessionDelivery): void {
+        const recipients = new Set(delivery.recipients);
+        this.clients.forEach(client => {
+            if (recipients.has(client.id)) {
+                this.sendToClient(client, delivery.message);
+            }
+        });
+    }
+
     private async handleError(client: WebSocketClient, error: Error): Promise<void> {
         await this.securityAuditService.recordAlert('WEBSOCKET_CLIENT_ERROR', 'HIGH', {
             error: error.message,
@@ -10,6 +10,27 @@ export interface SessionMetadata {
     duration: number;
 }
 
+/** Supervisors observe invisibly; only trainees see their whispers */
+export type ParticipantRole = 'client' | 'trainee' | 'supervisor';
+
+/** `supervision` messages (whispers) are shown to the trainee and supervisors only */
+export type MessageVisibility = 'all' | 'supervision';
+
+export interface SessionParticipant {
+    clientId: string;
+    userId?: string;
+    role: ParticipantRole;
+    /** Hidden participants are left out of presence and can't post to the session */
+    hidden: boolean;
+    joinedAt: Date;
+}
+
+/** A message routed by the session manager and the clients that should receive it */
+export interface SessionDelivery {
+    recipients: string[];
+    message: Record<string, any>;
+}
+
 export interface Session {
     id: string;
     userId: string;
@@ -18,6 +39,7 @@ export interface Session {
     endTime?: Date;
     metadata?: SessionMetadata;
     clients: Set<string>;
+    participants?: Map<string, SessionParticipant>;
     data: Record<string, any>;
 }
 
@@ -3,6 +3,8 @@ import * as snarkjs from 'snarkjs';
 import { ProofOutput } from "@/zk/types";
 interface WorkerMessage {
     type: 'generate' | 'verify';
+    /** Defaults to groth16; PLONK proves with a universal-setup zkey */
+    protocol?: 'groth16' | 'plonk';
     input?: any;
     proof?: ProofOutput;
     vKey?: any;
@@ -14,18 +16,22 @@ if (!parentPort) {
 }
 parentPort.on('message', async (message: WorkerMessage) => {
     try {
+        const protocol = message.protocol ?? 'groth16';
+        if (protocol !== 'groth16' && protocol !== 'plonk') {
+            throw new Error(`Unsupported proof system: ${protocol}`);
+        }
         if (message.type === 'generate') {
             if (!message.input || !message.wasmPath || !message.zkeyPath) {
                 throw new Error('Missing required parameters for proof generation');
             }
-            const { proof, publicSignals } = await snarkjs.groth16.fullProve(message.input, message.wasmPath, message.zkeyPath);
+            const { proof, publicSignals } = await snarkjs[protocol].fullProve(message.input, message.wasmPath, message.zkeyPath);
             parentPort!.postMessage({ proof: { proof, publicSignals } });
         }
         else if (message.type === 'verify') {
             if (!message.proof || !message.vKey) {
                 throw new Error('Missing required parameters for proof verification');
             }
-            const isValid = await snarkjs.groth16.verify(message.vKey, message.proof.publicSignals, message.proof.proof);
+            const isValid = await snarkjs[protocol].verify(message.vKey, message.proof.publicSignals, message.proof.proof);
             parentPort!.postMessage({ isValid });
         }
         else {
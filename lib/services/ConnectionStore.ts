@@ -19,6 +19,7 @@ export class ConnectionStore {
   private readonly CLEANUP_INTERVAL = 60000; // 1 minute
   private readonly CONNECTION_TIMEOUT = 35000; // 35 seconds (slightly longer than heartbeat)
   private controllers = new Map<string, ReadableStreamDefaultController>();
+  private threads = new Map<string, string>();
 
   private constructor() {
     this.redis = new Redis({
@@ -56,6 +57,7 @@ export class ConnectionStore {
       
       if (metadata.controller) {
         this.controllers.set(metadata.clientId, metadata.controller);
+        this.threads.set(metadata.clientId, metadata.threadId);
       }
       
       await this.logger.info('Connection added', {
@@ -78,6 +80,7 @@ export class ConnectionStore {
       const key = `${this.CONNECTIONS_KEY}:${clientId}`;
       await this.redis.del(key);
       this.controllers.delete(clientId);
+      this.threads.delete(clientId);
       
       await this.logger.info('Connection removed', { clientId });
       // Track active connections count in Redis
@@ -173,4 +176,17 @@ export class ConnectionStore {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Send an event to every connection on this instance that is in the
+   * thread, e.g. presence events relayed from other instances
+   */
+  public async broadcastToThread(threadId: string, event: any): Promise<number> {
+    const clientIds = Array.from(this.threads.entries())
+      .filter(([, connectionThreadId]) => connectionThreadId === threadId)
+      .map(([clientId]) => clientId);
+
+    const results = await Promise.allSettled(clientIds.map(clientId => this.sendEvent(clientId, event)));
+    return results.filter(result => result.status === 'fulfilled').length;
+  }
+}
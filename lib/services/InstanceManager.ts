@@ -1,7 +1,7 @@
 import { Redis } from '@upstash/redis';
 import { Logger } from '../logger';
 
-interface InstanceMetadata {
+export interface InstanceMetadata {
   instanceId: string;
   host: string;
   port: number;
@@ -55,6 +55,10 @@ export class InstanceManager {
     return InstanceManager.instance;
   }
 
+  public getInstanceId(): string {
+    return this.instanceId;
+  }
+
   public async registerInstance(): Promise<void> {
     try {
       const metadata: InstanceMetadata = {
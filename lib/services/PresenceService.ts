@@ -0,0 +1,327 @@
+import { Redis } from '@upstash/redis';
+import { Logger } from '../logger';
+import { InstanceManager } from './InstanceManager';
+import { RateLimiter } from './RateLimiter';
+
+export type DeviceStatus = 'online' | 'idle' | 'in_session' | 'dnd';
+export type PresenceStatus = DeviceStatus | 'offline';
+
+export interface DevicePresence {
+  userId: string;
+  deviceId: string;
+  status: DeviceStatus;
+  threadId?: string;
+  lastHeartbeat: number;
+}
+
+export interface UserPresence {
+  userId: string;
+  status: PresenceStatus;
+  devices: DevicePresence[];
+  lastSeen: number | null;
+}
+
+export interface ThreadPresence extends UserPresence {
+  threadId: string;
+  isTyping: boolean;
+}
+
+export type PresenceEvent =
+  | { type: 'presence'; userId: string; status: PresenceStatus; threadId?: string; origin: string; at: number }
+  | { type: 'typing'; userId: string; threadId: string; isTyping: boolean; origin: string; at: number };
+
+/** The part of an ioredis subscriber connection the service needs */
+export interface PresenceSubscriber {
+  subscribe(channel: string): Promise<unknown>;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+}
+
+type PresenceListener = (event: PresenceEvent) => void;
+
+// When devices disagree the most specific status wins
+const STATUS_PRECEDENCE: DeviceStatus[] = ['dnd', 'in_session', 'online', 'idle'];
+
+/**
+ * Presence and typing state shared by every node. Each device heartbeats
+ * its own record, which expires unless refreshed; a user's status is the
+ * aggregate of their live devices. Status changes and typing events are
+ * published to the channel of every healthy instance in InstanceManager,
+ * so a node only needs a subscriber on its own channel
+ * (`presence:events:<instanceId>`) to relay them to local connections.
+ * Upstash cannot subscribe, so that connection is attached separately.
+ */
+export class PresenceService {
+  private static instance: PresenceService;
+  private redis: Redis;
+  private logger: Logger;
+  private instances: InstanceManager;
+  private rateLimiter: RateLimiter;
+  private listeners = new Set<PresenceListener>();
+  private readonly KEY_PREFIX = 'presence';
+  private readonly CHANNEL_PREFIX = 'presence:events';
+  private readonly PRESENCE_TTL = 45; // seconds; clients heartbeat every 15 seconds
+  private readonly TYPING_TTL = 6000; // 6 seconds
+
+  private constructor() {
+    this.redis = new Redis({
+      url: process.env.UPSTASH_REDIS_REST_URL!,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+    });
+    this.logger = Logger.getInstance();
+    this.instances = InstanceManager.getInstance();
+    this.rateLimiter = RateLimiter.getInstance();
+  }
+
+  public static getInstance(): PresenceService {
+    if (!PresenceService.instance) {
+      PresenceService.instance = new PresenceService();
+    }
+    return PresenceService.instance;
+  }
+
+  /**
+   * Refresh one device's presence. Publishes only when the user's
+   * aggregate status changes, so steady heartbeats stay off the bus.
+   */
+  public async heartbeat(
+    userId: string,
+    deviceId: string,
+    options: { status?: DeviceStatus; threadId?: string } = {}
+  ): Promise<UserPresence> {
+    const previous = await this.getUserPresence(userId);
+    const now = Date.now();
+    const device: DevicePresence = {
+      userId,
+      deviceId,
+      status: options.status ?? 'online',
+      threadId: options.threadId,
+      lastHeartbeat: now,
+    };
+
+    try {
+      await this.redis.set(this.deviceKey(userId, deviceId), device, { ex: this.PRESENCE_TTL });
+      await this.redis.sadd(this.devicesKey(userId), deviceId);
+      await this.redis.expire(this.devicesKey(userId), this.PRESENCE_TTL);
+
+      if (options.threadId) {
+        await this.redis.zadd(this.threadKey(options.threadId), { score: now, member: userId });
+        await this.redis.expire(this.threadKey(options.threadId), this.PRESENCE_TTL);
+      }
+    } catch (error) {
+      await this.logger.error('Error recording presence heartbeat', error as Error, { userId, deviceId });
+      throw error;
+    }
+
+    const current = aggregate(userId, [...previous.devices.filter(d => d.deviceId !== deviceId), device]);
+    if (current.status !== previous.status) {
+      await this.fanOut({ type: 'presence', userId, status: current.status, threadId: options.threadId, origin: this.origin(), at: now });
+    }
+    return current;
+  }
+
+  /** Drop a device immediately, e.g. on logout or socket close */
+  public async disconnect(userId: string, deviceId: string): Promise<UserPresence> {
+    const previous = await this.getUserPresence(userId);
+
+    try {
+      await this.redis.del(this.deviceKey(userId, deviceId));
+      await this.redis.srem(this.devicesKey(userId), deviceId);
+    } catch (error) {
+      await this.logger.error('Error removing device presence', error as Error, { userId, deviceId });
+      throw error;
+    }
+
+    const removed = previous.devices.find(d => d.deviceId === deviceId);
+    const current = aggregate(userId, previous.devices.filter(d => d.deviceId !== deviceId));
+    if (current.status !== previous.status) {
+      await this.fanOut({ type: 'presence', userId, status: current.status, threadId: removed?.threadId, origin: this.origin(), at: Date.now() });
+    }
+    return current;
+  }
+
+  /** Aggregate status across the user's unexpired devices */
+  public async getUserPresence(userId: string): Promise<UserPresence> {
+    try {
+      const deviceIds = await this.redis.smembers(this.devicesKey(userId));
+      if (deviceIds.length === 0) {
+        return aggregate(userId, []);
+      }
+
+      const records = await this.redis.mget<(DevicePresence | null)[]>(
+        ...deviceIds.map(deviceId => this.deviceKey(userId, deviceId))
+      );
+      const expired = deviceIds.filter((_, index) => !records[index]);
+      if (expired.length > 0) {
+        await this.redis.srem(this.devicesKey(userId), ...expired);
+      }
+
+      return aggregate(userId, records.filter((record): record is DevicePresence => Boolean(record)));
+    } catch (error) {
+      await this.logger.error('Error getting user presence', error as Error, { userId });
+      return aggregate(userId, []);
+    }
+  }
+
+  /**
+   * Everyone present in a thread. Members whose heartbeats have lapsed are
+   * pruned here, and an offline event goes out for those with no devices
+   * left, so expiry is announced even though no request marks it.
+   */
+  public async getThreadPresence(threadId: string): Promise<ThreadPresence[]> {
+    const now = Date.now();
+    const cutoff = now - this.PRESENCE_TTL * 1000;
+
+    try {
+      const stale = await this.redis.zrange<string[]>(this.threadKey(threadId), 0, cutoff, { byScore: true });
+      if (stale.length > 0) {
+        await this.redis.zremrangebyscore(this.threadKey(threadId), 0, cutoff);
+      }
+      await this.redis.zremrangebyscore(this.typingKey(threadId), 0, now);
+
+      const [memberIds, typingIds] = await Promise.all([
+        this.redis.zrange<string[]>(this.threadKey(threadId), 0, -1),
+        this.redis.zrange<string[]>(this.typingKey(threadId), 0, -1),
+      ]);
+
+      for (const userId of stale) {
+        const presence = await this.getUserPresence(userId);
+        if (presence.status === 'offline') {
+          await this.fanOut({ type: 'presence', userId, status: 'offline', threadId, origin: this.origin(), at: now });
+        }
+      }
+
+      const members = await Promise.all(memberIds.map(userId => this.getUserPresence(userId)));
+      return members
+        .filter(member => member.status !== 'offline')
+        .map(member => ({ ...member, threadId, isTyping: typingIds.includes(member.userId) }));
+    } catch (error) {
+      await this.logger.error('Error getting thread presence', error as Error, { threadId });
+      return [];
+    }
+  }
+
+  /**
+   * Typing starts are rate limited per user and thread; a continuous typist
+   * refreshes the indicator once per window and it lapses after TYPING_TTL.
+   * Stops always go through so indicators clear promptly.
+   */
+  public async setTyping(userId: string, threadId: string, isTyping: boolean): Promise<boolean> {
+    const now = Date.now();
+
+    try {
+      if (!isTyping) {
+        const removed = await this.redis.zrem(this.typingKey(threadId), userId);
+        if (removed === 0) return false;
+      } else {
+        const limit = await this.rateLimiter.checkLimit(`${userId}:${threadId}`, 'typing');
+        if (limit.remaining === 0) return false;
+
+        await this.rateLimiter.incrementCounter(`${userId}:${threadId}`, 'typing');
+        await this.redis.zadd(this.typingKey(threadId), { score: now + this.TYPING_TTL, member: userId });
+        await this.redis.expire(this.typingKey(threadId), Math.ceil(this.TYPING_TTL / 1000));
+      }
+    } catch (error) {
+      await this.logger.error('Error updating typing state', error as Error, { userId, threadId });
+      return false;
+    }
+
+    await this.fanOut({ type: 'typing', userId, threadId, isTyping, origin: this.origin(), at: now });
+    return true;
+  }
+
+  /** Listen for presence events from this node and, once subscribed, every other */
+  public onEvent(listener: PresenceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Subscribe this node to its own channel on a pub/sub capable connection */
+  public async attachSubscriber(subscriber: PresenceSubscriber): Promise<void> {
+    const channel = this.channelFor(this.origin());
+    subscriber.on('message', (received, message) => {
+      if (received !== channel) return;
+      try {
+        this.dispatch(JSON.parse(message) as PresenceEvent);
+      } catch (error) {
+        void this.logger.error('Error parsing presence event', error as Error, { channel });
+      }
+    });
+    await subscriber.subscribe(channel);
+  }
+
+  /**
+   * Local listeners are called directly; every other healthy instance gets
+   * the event on its own channel. A failed publish is logged and skipped
+   * since the next heartbeat or sweep corrects the state.
+   */
+  private async fanOut(event: PresenceEvent): Promise<void> {
+    this.dispatch(event);
+
+    try {
+      const targets = (await this.instances.getHealthyInstances()).filter(
+        instance => instance.instanceId !== event.origin
+      );
+      const payload = JSON.stringify(event);
+      const results = await Promise.allSettled(
+        targets.map(instance => this.redis.publish(this.channelFor(instance.instanceId), payload))
+      );
+
+      const failed = results.filter(result => result.status === 'rejected').length;
+      if (failed > 0) {
+        await this.logger.warn('Presence event not delivered to every instance', {
+          type: event.type,
+          failed,
+          total: targets.length,
+        });
+      }
+    } catch (error) {
+      await this.logger.error('Error fanning out presence event', error as Error, { type: event.type });
+    }
+  }
+
+  private dispatch(event: PresenceEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        void this.logger.error('Presence listener failed', error as Error);
+      }
+    });
+  }
+
+  private origin(): string {
+    return this.instances.getInstanceId();
+  }
+
+  private channelFor(instanceId: string): string {
+    return `${this.CHANNEL_PREFIX}:${instanceId}`;
+  }
+
+  private deviceKey(userId: string, deviceId: string): string {
+    return `${this.KEY_PREFIX}:device:${userId}:${deviceId}`;
+  }
+
+  private devicesKey(userId: string): string {
+    return `${this.KEY_PREFIX}:devices:${userId}`;
+  }
+
+  private threadKey(threadId: string): string {
+    return `${this.KEY_PREFIX}:thread:${threadId}`;
+  }
+
+  private typingKey(threadId: string): string {
+    return `${this.KEY_PREFIX}:typing:${threadId}`;
+  }
+}
+
+function aggregate(userId: string, devices: DevicePresence[]): UserPresence {
+  const status = STATUS_PRECEDENCE.find(candidate => devices.some(device => device.status === candidate));
+  return {
+    userId,
+    status: status ?? 'offline',
+    devices,
+    lastSeen: devices.length > 0 ? Math.max(...devices.map(device => device.lastHeartbeat)) : null,
+  };
+}
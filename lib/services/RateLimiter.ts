@@ -23,6 +23,7 @@ export class RateLimiter {
     messages: { windowMs: 60000, maxRequests: 30 }, // 30 requests per minute
     connections: { windowMs: 300000, maxRequests: 5 }, // 5 connections per 5 minutes
     history: { windowMs: 60000, maxRequests: 20 }, // 20 history requests per minute
+    typing: { windowMs: 2000, maxRequests: 1 }, // 1 typing event per 2 seconds
   };
 
   private constructor() {
@@ -0,0 +1,218 @@
+/**
+ * @jest-environment node
+ */
+import { PresenceService, PresenceEvent } from '../PresenceService';
+import { InstanceManager } from '../InstanceManager';
+import { RateLimiter } from '../RateLimiter';
+
+const store = new Map<string, { value: any; expiresAt?: number }>();
+const published: Array<{ channel: string; message: string }> = [];
+let now = 1_700_000_000_000;
+
+function live(key: string) {
+  const entry = store.get(key);
+  if (entry?.expiresAt !== undefined && entry.expiresAt <= now) {
+    store.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+function zset(key: string): Map<string, number> {
+  if (!live(key)) store.set(key, { value: new Map<string, number>() });
+  return store.get(key)!.value;
+}
+
+const fakeRedis = {
+  set: jest.fn(async (key: string, value: unknown, options?: { ex: number }) => {
+    store.set(key, { value, expiresAt: options ? now + options.ex * 1000 : undefined });
+    return 'OK';
+  }),
+  mget: jest.fn(async (...keys: string[]) => keys.map(key => live(key)?.value ?? null)),
+  del: jest.fn(async (key: string) => (store.delete(key) ? 1 : 0)),
+  expire: jest.fn(async (key: string, seconds: number) => {
+    const entry = live(key);
+    if (entry) entry.expiresAt = now + seconds * 1000;
+    return entry ? 1 : 0;
+  }),
+  sadd: jest.fn(async (key: string, member: string) => {
+    if (!live(key)) store.set(key, { value: new Set<string>() });
+    store.get(key)!.value.add(member);
+    return 1;
+  }),
+  smembers: jest.fn(async (key: string) => Array.from(live(key)?.value ?? [])),
+  srem: jest.fn(async (key: string, ...members: string[]) => {
+    members.forEach(member => live(key)?.value.delete(member));
+    return members.length;
+  }),
+  zadd: jest.fn(async (key: string, { score, member }: { score: number; member: string }) => {
+    zset(key).set(member, score);
+    return 1;
+  }),
+  zrange: jest.fn(async (key: string, min: number, max: number, options?: { byScore: true }) => {
+    const entries = Array.from(zset(key).entries()).sort((a, b) => a[1] - b[1]);
+    return options?.byScore
+      ? entries.filter(([, score]) => score >= min && score <= max).map(([member]) => member)
+      : entries.map(([member]) => member);
+  }),
+  zremrangebyscore: jest.fn(async (key: string, min: number, max: number) => {
+    const set = zset(key);
+    set.forEach((score, member) => {
+      if (score >= min && score <= max) set.delete(member);
+    });
+    return 0;
+  }),
+  zrem: jest.fn(async (key: string, member: string) => (zset(key).delete(member) ? 1 : 0)),
+  publish: jest.fn(async (channel: string, message: string) => {
+    published.push({ channel, message });
+    return 1;
+  })
+};
+
+jest.mock('@upstash/redis', () => ({ Redis: jest.fn(() => fakeRedis) }));
+jest.mock('../../logger', () => ({
+  Logger: { getInstance: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }) }
+}));
+jest.mock('../InstanceManager', () => ({ InstanceManager: { getInstance: jest.fn() } }));
+jest.mock('../RateLimiter', () => ({ RateLimiter: { getInstance: jest.fn() } }));
+
+describe('PresenceService', () => {
+  let service: PresenceService;
+  let typingWindows: Map<string, number>;
+
+  const channels = () => published.map(entry => entry.channel);
+  const events = () => published.map(entry => JSON.parse(entry.message) as PresenceEvent);
+
+  beforeEach(() => {
+    store.clear();
+    published.length = 0;
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    (InstanceManager.getInstance as jest.Mock).mockReturnValue({
+      getInstanceId: () => 'node-a',
+      getHealthyInstances: jest.fn().mockResolvedValue([
+        { instanceId: 'node-a' },
+        { instanceId: 'node-b' },
+        { instanceId: 'node-c' }
+      ])
+    });
+
+    // One typing event per 2 second window
+    typingWindows = new Map();
+    (RateLimiter.getInstance as jest.Mock).mockReturnValue({
+      checkLimit: jest.fn(async (identifier: string) => {
+        const last = typingWindows.get(identifier);
+        return { remaining: last !== undefined && now - last < 2000 ? 0 : 1, reset: now + 2000, total: 1 };
+      }),
+      incrementCounter: jest.fn(async (identifier: string) => {
+        typingWindows.set(identifier, now);
+      })
+    });
+
+    (PresenceService as any).instance = undefined;
+    service = PresenceService.getInstance();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should aggregate devices with the most specific status winning', async () => {
+    await service.heartbeat('u1', 'laptop', { status: 'idle' });
+    expect((await service.getUserPresence('u1')).status).toBe('idle');
+
+    await service.heartbeat('u1', 'phone', { status: 'online' });
+    await service.heartbeat('u1', 'tablet', { status: 'in_session' });
+    expect((await service.getUserPresence('u1')).status).toBe('in_session');
+
+    await service.heartbeat('u1', 'laptop', { status: 'dnd' });
+    const presence = await service.getUserPresence('u1');
+    expect(presence.status).toBe('dnd');
+    expect(presence.devices).toHaveLength(3);
+  });
+
+  it('should fan out status changes to every other healthy instance only', async () => {
+    const local: PresenceEvent[] = [];
+    service.onEvent(event => local.push(event));
+
+    await service.heartbeat('u1', 'laptop', { threadId: 't1' });
+    await service.heartbeat('u1', 'laptop', { threadId: 't1' });
+
+    expect(channels()).toEqual(['presence:events:node-b', 'presence:events:node-c']);
+    expect(events()[0]).toMatchObject({ type: 'presence', userId: 'u1', status: 'online', threadId: 't1', origin: 'node-a' });
+    expect(local).toHaveLength(1);
+  });
+
+  it('should stay online while another device is still connected', async () => {
+    await service.heartbeat('u1', 'laptop', { threadId: 't1' });
+    await service.heartbeat('u1', 'phone', { threadId: 't1' });
+    published.length = 0;
+
+    expect((await service.disconnect('u1', 'laptop')).status).toBe('online');
+    expect(published).toHaveLength(0);
+
+    expect((await service.disconnect('u1', 'phone')).status).toBe('offline');
+    expect(events()[0]).toMatchObject({ status: 'offline', threadId: 't1' });
+  });
+
+  it('should expire devices that stop heartbeating and announce it', async () => {
+    await service.heartbeat('u1', 'laptop', { threadId: 't1' });
+    await service.heartbeat('u2', 'laptop', { threadId: 't1' });
+    published.length = 0;
+
+    now += 30_000;
+    await service.heartbeat('u2', 'laptop', { threadId: 't1' });
+    now += 20_000;
+
+    const present = await service.getThreadPresence('t1');
+    expect(present.map(member => member.userId)).toEqual(['u2']);
+    expect(channels()).toEqual(['presence:events:node-b', 'presence:events:node-c']);
+    expect(events()[0]).toMatchObject({ type: 'presence', userId: 'u1', status: 'offline', threadId: 't1' });
+    expect((await service.getUserPresence('u1')).status).toBe('offline');
+  });
+
+  it('should rate limit typing starts but always pass stops', async () => {
+    expect(await service.setTyping('u1', 't1', true)).toBe(true);
+    expect(await service.setTyping('u1', 't1', true)).toBe(false);
+
+    now += 2000;
+    expect(await service.setTyping('u1', 't1', true)).toBe(true);
+    expect(await service.setTyping('u1', 't1', false)).toBe(true);
+    expect(await service.setTyping('u1', 't1', false)).toBe(false);
+
+    const typing = events().filter(event => event.type === 'typing');
+    expect(typing.map(event => event.type === 'typing' && event.isTyping)).toEqual([true, true, true, true, false, false]);
+  });
+
+  it('should let typing lapse without a stop event', async () => {
+    await service.heartbeat('u1', 'laptop', { threadId: 't1' });
+    await service.setTyping('u1', 't1', true);
+    expect((await service.getThreadPresence('t1'))[0].isTyping).toBe(true);
+
+    now += 7000;
+    await service.heartbeat('u1', 'laptop', { threadId: 't1' });
+    expect((await service.getThreadPresence('t1'))[0].isTyping).toBe(false);
+  });
+
+  it('should dispatch events received on its own channel', async () => {
+    const local: PresenceEvent[] = [];
+    service.onEvent(event => local.push(event));
+
+    let deliver: (channel: string, message: string) => void = () => undefined;
+    const subscriber = {
+      subscribe: jest.fn().mockResolvedValue(1),
+      on: jest.fn((_event: 'message', listener: typeof deliver) => {
+        deliver = listener;
+      })
+    };
+    await service.attachSubscriber(subscriber);
+
+    const event = { type: 'typing', userId: 'u9', threadId: 't1', isTyping: true, origin: 'node-b', at: now };
+    deliver('presence:events:node-c', JSON.stringify(event));
+    deliver('presence:events:node-a', JSON.stringify(event));
+
+    expect(subscriber.subscribe).toHaveBeenCalledWith('presence:events:node-a');
+    expect(local).toEqual([event]);
+  });
+});
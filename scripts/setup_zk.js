@@ -3,10 +3,11 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as snarkjs from 'snarkjs';
 import { randomBytes } from 'crypto';
-import { buildEddsa } from 'circomlibjs';
+import { buildEddsa, buildPoseidon } from 'circomlibjs';
 
 const CIRCUIT_NAME = 'session_integrity';
-const PHASE1_PATH = 'pot14_final.ptau';
+// PLONK needs more powers than Groth16 for the EdDSA verifier
+const PHASE1_PATH = 'pot16_final.ptau';
 const BUILD_DIR = path.join(process.cwd(), 'build', 'circuits');
 const PUBLIC_DIR = path.join(process.cwd(), 'public', 'circuits');
 const CIRCUIT_DIR = path.join(process.cwd(), 'src', 'circuits');
@@ -39,8 +40,8 @@ async function main() {
         // Download Powers of Tau file
         console.log('Downloading Powers of Tau file...');
         try {
-            const powersOfTauUrl = 'https://hermez.s3-eu-west-1.amazonaws.com/powersOfTau28_hez_final_14.ptau';
-            const powersOfTauPath = path.join(BUILD_DIR, 'pot14_final.ptau');
+            const powersOfTauUrl = 'https://hermez.s3-eu-west-1.amazonaws.com/powersOfTau28_hez_final_16.ptau';
+            const powersOfTauPath = path.join(BUILD_DIR, PHASE1_PATH);
 
             console.log(`Checking if Powers of Tau file exists at: ${powersOfTauPath}`);
             if (!(await fs.stat(powersOfTauPath).catch(() => null))) {
@@ -146,6 +147,31 @@ async function main() {
             throw error;
         }
 
+        // Generate PLONK keys; PLONK uses the universal setup, no phase 2
+        console.log('Generating PLONK proving and verification keys...');
+        try {
+            await snarkjs.plonk.setup(
+                path.join(BUILD_DIR, CIRCUIT_NAME + '.r1cs'),
+                path.join(BUILD_DIR, PHASE1_PATH),
+                path.join(BUILD_DIR, CIRCUIT_NAME + '_plonk.zkey')
+            );
+
+            const plonkVKey = await snarkjs.zKey.exportVerificationKey(
+                path.join(BUILD_DIR, CIRCUIT_NAME + '_plonk.zkey')
+            );
+
+            await fs.writeFile(
+                path.join(PUBLIC_DIR, CIRCUIT_NAME + '_plonk_verification_key.json'),
+                JSON.stringify(plonkVKey, null, 2)
+            );
+        } catch (error) {
+            console.error('Error generating PLONK keys:', error);
+            if (error instanceof Error) {
+                console.error('Stack:', error.stack);
+            }
+            throw error;
+        }
+
         // Export solidity verifier
         console.log('Generating Solidity verifier...');
         try {
@@ -177,60 +203,37 @@ async function main() {
         console.log('Generating example proof...');
         try {
             const eddsa = await buildEddsa();
+            const poseidon = await buildPoseidon();
+            const F = poseidon.F;
 
-            // Generate private key as a field element
+            // Same construction as src/services/integrity/witness.ts
             const privateKey = Buffer.from(randomBytes(32));
-            const publicKey = eddsa.prv2pub(privateKey);
-
-            // Create message hash using MiMC
-            const F = eddsa.F;
-            const msgHash = F.e('123456789');
-            const signature = eddsa.signMiMC(privateKey, msgHash);
-
-            // Helper function to convert field element to bits
-            const fieldToBits = (f) => {
-                const bytes = new Uint8Array(32);
-                F.toRprBE(bytes, 0, F.e(f));
-                let bits = [];
-                for (let i = 0; i < bytes.length; i++) {
-                    for (let j = 7; j >= 0; j--) {
-                        bits.push((bytes[i] >> j) & 1);
-                    }
-                }
-                return bits;
-            };
-
-            // Helper function to convert point to bits
-            const pointToBits = (point) => {
-                const xBits = fieldToBits(point[0]);
-                const yBits = fieldToBits(point[1]);
-                return [...xBits, ...yBits];
-            };
-
-            // Helper function to convert number to bits
-            const numberToBits = (num, bits = 64) => {
-                const binary = BigInt(num).toString(2).padStart(bits, '0');
-                return Array.from(binary).map(Number);
-            };
+            const [ax, ay] = eddsa.prv2pub(privateKey);
 
-            // Convert inputs to bits
-            const sessionIdBits = numberToBits(123456789n, 64);
-            const pubKeyBits = pointToBits(publicKey);
-            const sigR8Bits = pointToBits(signature.R8);
-            const sigSBits = fieldToBits(signature.S);
+            const now = Math.floor(Date.now() / 1000);
+            const sessionId = 123456789n;
+            const timestamp = BigInt(now - 3600);
+            const clientDataHash = 987654321n;
+            const metrics = [60, 5, 3, 85];
+            const metricsHash = F.toObject(poseidon(metrics));
+            const message = poseidon([sessionId, timestamp, metricsHash, clientDataHash]);
+            const signature = eddsa.signPoseidon(privateKey, message);
 
             const input = {
-                sessionId: sessionIdBits,
-                timestamp: Math.floor(Date.now() / 1000),
-                therapistPubKey: pubKeyBits,
-                metricsHash: '0x5678',
-                durationMinutes: 60,
-                interventionCount: 5,
-                riskLevel: 3,
-                engagementScore: 85,
-                clientDataHash: '0x9abc',
-                therapistSigR8: sigR8Bits,
-                therapistSigS: sigSBits
+                sessionId: sessionId.toString(),
+                timestamp: timestamp.toString(),
+                referenceTime: now.toString(),
+                therapistPubKeyAx: F.toObject(ax).toString(),
+                therapistPubKeyAy: F.toObject(ay).toString(),
+                metricsHash: metricsHash.toString(),
+                durationMinutes: '60',
+                interventionCount: '5',
+                riskLevel: '3',
+                engagementScore: '85',
+                clientDataHash: clientDataHash.toString(),
+                therapistSigR8x: F.toObject(signature.R8[0]).toString(),
+                therapistSigR8y: F.toObject(signature.R8[1]).toString(),
+                therapistSigS: signature.S.toString()
             };
 
             const { proof, publicSignals } = await snarkjs.groth16.fullProve(
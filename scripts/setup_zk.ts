@@ -3,9 +3,10 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as snarkjs from 'snarkjs';
 import { randomBytes } from 'crypto';
-import { buildEddsa } from 'circomlibjs';
+import { buildEddsa, buildPoseidon } from 'circomlibjs';
 const CIRCUIT_NAME = 'session_integrity';
-const PHASE1_PATH = 'pot14_final.ptau';
+// PLONK needs more powers than Groth16 for the EdDSA verifier
+const PHASE1_PATH = 'pot16_final.ptau';
 const BUILD_DIR = path.join(process.cwd(), 'build', 'circuits');
 const CIRCUIT_DIR = path.join(process.cwd(), 'src', 'circuits');
 const PUBLIC_DIR = path.join(process.cwd(), 'public', 'circuits');
@@ -43,6 +44,11 @@ async function generateKeys() {
         console.log('Generating verification key...');
         const vKey = await snarkjs.zKey.exportVerificationKey(path.join(BUILD_DIR, CIRCUIT_NAME + '_1.zkey'));
         await fs.writeFile(path.join(PUBLIC_DIR, CIRCUIT_NAME + '_verification_key.json'), JSON.stringify(vKey, null, 2));
+        // PLONK uses the universal setup, no phase 2
+        console.log('Generating PLONK keys...');
+        await snarkjs.plonk.setup(path.join(BUILD_DIR, CIRCUIT_NAME + '.r1cs'), path.join(BUILD_DIR, PHASE1_PATH), path.join(BUILD_DIR, CIRCUIT_NAME + '_plonk.zkey'));
+        const plonkVKey = await snarkjs.zKey.exportVerificationKey(path.join(BUILD_DIR, CIRCUIT_NAME + '_plonk.zkey'));
+        await fs.writeFile(path.join(PUBLIC_DIR, CIRCUIT_NAME + '_plonk_verification_key.json'), JSON.stringify(plonkVKey, null, 2));
     }
     catch (error) {
         console.error('Error generating keys:', error);
@@ -75,8 +81,8 @@ async function main() {
         // Download Powers of Tau file
         console.log('Downloading Powers of Tau file...');
         try {
-            const powersOfTauUrl = 'https://hermez.s3-eu-west-1.amazonaws.com/powersOfTau28_hez_final_14.ptau';
-            const powersOfTauPath = path.join(BUILD_DIR, 'pot14_final.ptau');
+            const powersOfTauUrl = 'https://hermez.s3-eu-west-1.amazonaws.com/powersOfTau28_hez_final_16.ptau';
+            const powersOfTauPath = path.join(BUILD_DIR, PHASE1_PATH);
             console.log(`Checking if Powers of Tau file exists at: ${powersOfTauPath}`);
             if (!(await fs.stat(powersOfTauPath).catch(() => null))) {
                 console.log('Downloading Powers of Tau file...');
@@ -95,7 +101,7 @@ async function main() {
         }
         // Add circuit compilation
         console.log('Compiling ZK circuits...');
-        await compileCircuit(path.join(__dirname, '../zk/circuits/session_validator.circom'));
+        await compileCircuit(path.join(CIRCUIT_DIR, CIRCUIT_NAME + '.circom'));
         // Generate trusted setup
         console.log('Generating zk-SNARK keys...');
         await generateKeys();
@@ -142,27 +148,34 @@ async function main() {
         console.log('Generating example proof...');
         try {
             const eddsa = await buildEddsa();
+            const poseidon = await buildPoseidon();
+            const F = poseidon.F;
+            // Same construction as src/services/integrity/witness.ts
             const privateKey = randomBytes(32);
-            const publicKey = eddsa.prv2pub(privateKey);
-            const sessionId = '123456789';
-            const msgBuf = Buffer.from(sessionId);
-            const signature = eddsa.signMiMC(privateKey, msgBuf);
-            // Convert public key and signature to bit arrays
-            const pubKeyBits = (eddsa as any).pubKey2Bits(publicKey);
-            const sigR8Bits = (eddsa as any).r8Bits(signature.R8);
-            const sigSBits = (eddsa as any).sBits(signature.S);
+            const [ax, ay] = eddsa.prv2pub(privateKey);
+            const now = Math.floor(Date.now() / 1000);
+            const sessionId = BigInt(123456789);
+            const timestamp = BigInt(now - 3600);
+            const clientDataHash = BigInt(987654321);
+            const metricsHash = F.toObject(poseidon([60, 5, 3, 85]));
+            const message = poseidon([sessionId, timestamp, metricsHash, clientDataHash]);
+            const signature = eddsa.signPoseidon(privateKey, message);
+            const [r8x, r8y] = signature.R8 as [Uint8Array, Uint8Array];
             const input = {
-                sessionId,
-                timestamp: Math.floor(Date.now() / 1000),
-                therapistPubKey: pubKeyBits,
-                metricsHash: '0x5678',
-                durationMinutes: 60,
-                interventionCount: 5,
-                riskLevel: 3,
-                engagementScore: 85,
-                clientDataHash: '0x9abc',
-                therapistSigR8: sigR8Bits,
-                therapistSigS: sigSBits
+                sessionId: sessionId.toString(),
+                timestamp: timestamp.toString(),
+                referenceTime: now.toString(),
+                therapistPubKeyAx: F.toObject(ax).toString(),
+                therapistPubKeyAy: F.toObject(ay).toString(),
+                metricsHash: metricsHash.toString(),
+                durationMinutes: '60',
+                interventionCount: '5',
+                riskLevel: '3',
+                engagementScore: '85',
+                clientDataHash: clientDataHash.toString(),
+                therapistSigR8x: F.toObject(r8x).toString(),
+                therapistSigR8y: F.toObject(r8y).toString(),
+                therapistSigS: signature.S.toString()
             };
             const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, path.join(BUILD_DIR, CIRCUIT_NAME + '_js', CIRCUIT_NAME + '.wasm'), path.join(BUILD_DIR, CIRCUIT_NAME + '_1.zkey'));
             // Load verification key
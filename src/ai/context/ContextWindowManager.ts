@@ -0,0 +1,166 @@
+import { estimateTokens } from '@/ai/providers';
+import { DEFAULT_CRISIS_RULES } from '@/ai/intent';
+import { SessionSummarizationService } from '@/services/summarization/SessionSummarizationService';
+import { budgetForModel } from './budgets';
+import { ContextMessage, ContextWindowOptions, ContextWindowResult, Summarizer } from './types';
+
+/** Per-message framing overhead in chat formats */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const DEFAULT_SUMMARY_SHARE = 0.15;
+const DEFAULT_MAX_CONVERSATIONS = 1000;
+const SUMMARY_PREFIX = 'Summary of earlier conversation:\n';
+
+interface RollingSummary {
+  text: string;
+  /** Ids (or positions) of turns already folded into the summary */
+  covered: Set<string>;
+}
+
+const sessionSummarizer: Summarizer = {
+  summarize: (turns, previousSummary) =>
+    SessionSummarizationService.getInstance().summarizeTurns(
+      turns.map(({ role, content }) => ({ role, content })),
+      previousSummary
+    )
+};
+
+export function isRiskFlagged(message: ContextMessage): boolean {
+  return message.riskFlagged === true
+    || (message.role === 'user' && DEFAULT_CRISIS_RULES.some(rule => rule.pattern.test(message.content)));
+}
+
+export function countTokens(messages: ContextMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Fits a conversation into a model's context window. System and pinned
+ * messages are always kept, risk-flagged turns are never summarized away,
+ * and the oldest remaining turns are folded into a rolling summary that is
+ * extended incrementally as the conversation grows.
+ */
+export class ContextWindowManager {
+  private static instance: ContextWindowManager;
+  private summaries = new Map<string, RollingSummary>();
+
+  constructor(
+    private summarizer: Summarizer = sessionSummarizer,
+    private options: ContextWindowOptions = {}
+  ) {}
+
+  public static getInstance(): ContextWindowManager {
+    if (!ContextWindowManager.instance) {
+      ContextWindowManager.instance = new ContextWindowManager();
+    }
+    return ContextWindowManager.instance;
+  }
+
+  public async fit(conversationId: string, conversation: ContextMessage[], model: string): Promise<ContextWindowResult> {
+    const messages = conversation.some(message => message.visibility === 'supervision')
+      ? conversation.filter(message => message.visibility !== 'supervision')
+      : conversation;
+    const { contextTokens, reservedForResponse } = budgetForModel(model, this.options.reservedForResponse);
+    const budget = contextTokens - reservedForResponse;
+
+    if (countTokens(messages) <= budget) {
+      return { messages, tokenCount: countTokens(messages), budget, summarizedCount: 0, overBudget: false };
+    }
+
+    const keys = messages.map((message, index) => message.id ?? `#${index}`);
+    const mustKeep = messages.map((message, index) =>
+      message.role === 'system'
+      || message.pinned === true
+      || this.isFlagged(message)
+      || index === messages.length - 1
+    );
+
+    // Fill the remaining space newest-first, leaving room for the summary
+    const summaryAllowance = Math.floor(budget * (this.options.maxSummaryShare ?? DEFAULT_SUMMARY_SHARE));
+    let used = countTokens(messages.filter((_, index) => mustKeep[index]));
+    const keep = [...mustKeep];
+    for (let index = messages.length - 1; index >= 0; index--) {
+      if (keep[index]) continue;
+      const cost = countTokens([messages[index]]);
+      if (used + cost > budget - summaryAllowance) break;
+      keep[index] = true;
+      used += cost;
+    }
+
+    const evicted = messages.filter((_, index) => !keep[index]);
+    const summary = await this.updateSummary(
+      conversationId,
+      evicted,
+      keys.filter((_, index) => !keep[index])
+    );
+
+    const result: ContextMessage[] = messages.filter((message, index) => keep[index] && this.isPinned(message));
+    if (summary) {
+      result.push({ role: 'system', content: `${SUMMARY_PREFIX}${summary}` });
+    }
+    result.push(...messages.filter((message, index) => keep[index] && !this.isPinned(message)));
+
+    const tokenCount = countTokens(result);
+    return {
+      messages: result,
+      tokenCount,
+      budget,
+      summarizedCount: evicted.length,
+      summary,
+      overBudget: tokenCount > budget
+    };
+  }
+
+  /** Drop the rolling summary, e.g. when a thread is deleted */
+  public reset(conversationId: string): void {
+    this.summaries.delete(conversationId);
+  }
+
+  private isPinned(message: ContextMessage): boolean {
+    return message.role === 'system' || message.pinned === true;
+  }
+
+  private isFlagged(message: ContextMessage): boolean {
+    return isRiskFlagged(message) || (this.options.isRiskFlagged?.(message) ?? false);
+  }
+
+  private async updateSummary(
+    conversationId: string,
+    evicted: ContextMessage[],
+    evictedKeys: string[]
+  ): Promise<string | undefined> {
+    const current = this.summaries.get(conversationId);
+    const pending = evicted.filter((_, index) => !current?.covered.has(evictedKeys[index]));
+    if (pending.length === 0) {
+      if (current) {
+        this.remember(conversationId, current);
+      }
+      return current?.text;
+    }
+
+    try {
+      const text = await this.summarizer.summarize(pending, current?.text);
+      this.remember(conversationId, {
+        text,
+        covered: new Set([...(current?.covered ?? []), ...evictedKeys])
+      });
+      return text;
+    } catch (error) {
+      // Dropping the oldest turns is a worse answer than summarizing them, but
+      // still a correct one; never fail the request over it
+      console.error('Context summarization failed:', error);
+      return current?.text;
+    }
+  }
+
+  /** Maps iterate in insertion order, so re-inserting keeps the oldest entry first */
+  private remember(conversationId: string, summary: RollingSummary): void {
+    this.summaries.delete(conversationId);
+    this.summaries.set(conversationId, summary);
+
+    const limit = this.options.maxConversations ?? DEFAULT_MAX_CONVERSATIONS;
+    for (const key of this.summaries.keys()) {
+      if (this.summaries.size <= limit) break;
+      this.summaries.delete(key);
+    }
+  }
+}
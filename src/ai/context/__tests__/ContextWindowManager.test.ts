@@ -0,0 +1,175 @@
+import { ContextWindowManager, countTokens } from '../ContextWindowManager';
+import { budgetForModel } from '../budgets';
+import type { ContextMessage, Summarizer } from '../types';
+
+jest.mock('@/services/summarization/SessionSummarizationService', () => ({
+  SessionSummarizationService: { getInstance: jest.fn() }
+}));
+
+// ~100 tokens per turn, so an 8k model holds roughly 70 of them
+const turn = (index: number, overrides: Partial<ContextMessage> = {}): ContextMessage => ({
+  id: `m${index}`,
+  role: index % 2 === 0 ? 'user' : 'assistant',
+  content: `turn ${index} `.padEnd(400, '.'),
+  ...overrides
+});
+
+const conversation = (length: number): ContextMessage[] =>
+  Array.from({ length }, (_, index) => turn(index));
+
+const recordingSummarizer = () => {
+  const calls: Array<{ turns: ContextMessage[]; previous?: string }> = [];
+  const summarizer: Summarizer = {
+    summarize: jest.fn(async (turns, previous) => {
+      calls.push({ turns, previous });
+      return `summary of ${turns.length} turns${previous ? ' + earlier' : ''}`;
+    })
+  };
+  return { summarizer, calls };
+};
+
+describe('budgetForModel', () => {
+  it('should prefer the longest matching prefix', () => {
+    expect(budgetForModel('gpt-4').contextTokens).toBe(8192);
+    expect(budgetForModel('gpt-4-turbo-preview').contextTokens).toBe(128000);
+    expect(budgetForModel('gpt-4o-mini').contextTokens).toBe(128000);
+  });
+
+  it('should fall back to a conservative default for unknown models', () => {
+    expect(budgetForModel('some-local-model').contextTokens).toBe(4096);
+  });
+});
+
+describe('ContextWindowManager', () => {
+  it('should pass short conversations through untouched', async () => {
+    const { summarizer } = recordingSummarizer();
+    const manager = new ContextWindowManager(summarizer);
+    const messages = conversation(4);
+
+    const result = await manager.fit('c1', messages, 'gpt-4');
+
+    expect(result.messages).toBe(messages);
+    expect(result.summarizedCount).toBe(0);
+    expect(summarizer.summarize).not.toHaveBeenCalled();
+  });
+
+  it('should never pass supervisor whispers to the model', async () => {
+    const { summarizer } = recordingSummarizer();
+    const manager = new ContextWindowManager(summarizer);
+    const messages = [...conversation(3), turn(3, { visibility: 'supervision' })];
+
+    const result = await manager.fit('c1', messages, 'gpt-4');
+
+    expect(result.messages.map(message => message.id)).toEqual(['m0', 'm1', 'm2']);
+  });
+
+  it('should summarize the oldest turns to stay within budget', async () => {
+    const { summarizer, calls } = recordingSummarizer();
+    const manager = new ContextWindowManager(summarizer);
+    const messages = [{ role: 'system', content: 'You are a therapist.' } as ContextMessage, ...conversation(120)];
+
+    const result = await manager.fit('c1', messages, 'gpt-4');
+
+    expect(result.tokenCount).toBeLessThanOrEqual(result.budget);
+    expect(result.messages[0].content).toBe('You are a therapist.');
+    expect(result.messages[1].content).toMatch(/^Summary of earlier conversation/);
+    expect(result.messages[result.messages.length - 1].id).toBe('m119');
+    expect(calls[0].turns[0].id).toBe('m0');
+    expect(result.summarizedCount).toBe(calls[0].turns.length);
+  });
+
+  it('should never drop pinned or risk-flagged turns', async () => {
+    const { summarizer } = recordingSummarizer();
+    const manager = new ContextWindowManager(summarizer);
+    const messages = conversation(120);
+    messages[2] = turn(2, { pinned: true, content: 'Safety plan: call 988 if needed.' });
+    messages[4] = turn(4, { content: 'Sometimes I want to die.' });
+    messages[6] = turn(6, { riskFlagged: true });
+
+    const result = await manager.fit('c1', messages, 'gpt-4');
+    const ids = result.messages.map(message => message.id);
+
+    expect(ids).toEqual(expect.arrayContaining(['m2', 'm4', 'm6']));
+    expect(ids.indexOf('m4')).toBeLessThan(ids.indexOf('m6'));
+  });
+
+  it('should only summarize newly evicted turns on later calls', async () => {
+    const { summarizer, calls } = recordingSummarizer();
+    const manager = new ContextWindowManager(summarizer);
+    const messages = conversation(120);
+
+    await manager.fit('c1', messages, 'gpt-4');
+    const firstBatch = calls[0].turns.length;
+    const result = await manager.fit('c1', [...messages, turn(120), turn(121)], 'gpt-4');
+
+    expect(calls).toHaveLength(2);
+    expect(calls[1].previous).toBeDefined();
+    expect(calls[1].turns.map(message => message.id)).toEqual(['m' + firstBatch, 'm' + (firstBatch + 1)]);
+    expect(result.summary).toMatch(/\+ earlier$/);
+  });
+
+  it('should reuse the summary when nothing new was evicted', async () => {
+    const { summarizer } = recordingSummarizer();
+    const manager = new ContextWindowManager(summarizer);
+    const messages = conversation(120);
+
+    const first = await manager.fit('c1', messages, 'gpt-4');
+    const second = await manager.fit('c1', messages, 'gpt-4');
+
+    expect(summarizer.summarize).toHaveBeenCalledTimes(1);
+    expect(second.summary).toBe(first.summary);
+  });
+
+  it('should keep each conversation\'s summary separate', async () => {
+    const { summarizer, calls } = recordingSummarizer();
+    const manager = new ContextWindowManager(summarizer);
+
+    await manager.fit('c1', conversation(120), 'gpt-4');
+    const result = await manager.fit('c2', conversation(120), 'gpt-4');
+
+    expect(calls[1].previous).toBeUndefined();
+    expect(result.summary).not.toMatch(/\+ earlier$/);
+  });
+
+  it('should drop the least recently used summaries past the limit', async () => {
+    const { summarizer } = recordingSummarizer();
+    const manager = new ContextWindowManager(summarizer, { maxConversations: 2 });
+    const messages = conversation(120);
+
+    await manager.fit('c1', messages, 'gpt-4');
+    await manager.fit('c2', messages, 'gpt-4');
+    await manager.fit('c1', messages, 'gpt-4');
+    await manager.fit('c3', messages, 'gpt-4');
+    expect(summarizer.summarize).toHaveBeenCalledTimes(3);
+
+    // c1 was used after c2, so c2 was the one dropped
+    await manager.fit('c1', messages, 'gpt-4');
+    expect(summarizer.summarize).toHaveBeenCalledTimes(3);
+    await manager.fit('c2', messages, 'gpt-4');
+    expect(summarizer.summarize).toHaveBeenCalledTimes(4);
+  });
+
+  it('should fall back to dropping turns when summarization fails', async () => {
+    const summarizer: Summarizer = { summarize: jest.fn().mockRejectedValue(new Error('provider down')) };
+    const manager = new ContextWindowManager(summarizer);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await manager.fit('c1', conversation(120), 'gpt-4');
+
+    expect(result.summary).toBeUndefined();
+    expect(result.tokenCount).toBeLessThanOrEqual(result.budget);
+    expect(result.summarizedCount).toBeGreaterThan(0);
+  });
+
+  it('should report when must-keep messages alone exceed the budget', async () => {
+    const { summarizer } = recordingSummarizer();
+    const manager = new ContextWindowManager(summarizer);
+    const flagged = conversation(120).map(message => ({ ...message, riskFlagged: true }));
+
+    const result = await manager.fit('c1', flagged, 'gpt-4');
+
+    expect(result.overBudget).toBe(true);
+    expect(result.messages).toHaveLength(120);
+    expect(countTokens(result.messages)).toBe(result.tokenCount);
+  });
+});
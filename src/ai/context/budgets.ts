@@ -0,0 +1,34 @@
+import { ModelBudget } from './types';
+
+/**
+ * Context sizes by model name prefix. Longer prefixes win, so
+ * `gpt-4-turbo` is not treated as `gpt-4`.
+ */
+export const MODEL_CONTEXT_TOKENS: Record<string, number> = {
+  'gpt-4o': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4-32k': 32768,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'mistral': 32768,
+  'mixtral': 32768,
+  'llama3': 8192,
+  'llama2': 4096
+};
+
+export const DEFAULT_CONTEXT_TOKENS = 4096;
+export const DEFAULT_RESPONSE_RESERVE = 1024;
+
+export function budgetForModel(model: string, reservedForResponse: number = DEFAULT_RESPONSE_RESERVE): ModelBudget {
+  const name = model.toLowerCase();
+  const prefix = Object.keys(MODEL_CONTEXT_TOKENS)
+    .filter(key => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  const contextTokens = prefix ? MODEL_CONTEXT_TOKENS[prefix] : DEFAULT_CONTEXT_TOKENS;
+  return {
+    model,
+    contextTokens,
+    reservedForResponse: Math.min(reservedForResponse, Math.floor(contextTokens / 2))
+  };
+}
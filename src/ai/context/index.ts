@@ -0,0 +1,3 @@
+export * from './types';
+export { budgetForModel, MODEL_CONTEXT_TOKENS, DEFAULT_CONTEXT_TOKENS, DEFAULT_RESPONSE_RESERVE } from './budgets';
+export { ContextWindowManager, countTokens, isRiskFlagged } from './ContextWindowManager';
@@ -0,0 +1,45 @@
+import type { LLMRole } from '@/ai/providers';
+
+export interface ContextMessage {
+  id?: string;
+  role: LLMRole;
+  content: string;
+  /** Always kept verbatim, e.g. safety instructions. System messages are pinned by default. */
+  pinned?: boolean;
+  /** Set by risk detection; flagged turns are never summarized away */
+  riskFlagged?: boolean;
+  /** Supervisor whispers (`supervision`) are coaching for the trainee, never model input */
+  visibility?: 'all' | 'supervision';
+}
+
+export interface ModelBudget {
+  model: string;
+  contextTokens: number;
+  /** Held back for the model's reply */
+  reservedForResponse: number;
+}
+
+export interface Summarizer {
+  summarize(turns: ContextMessage[], previousSummary?: string): Promise<string>;
+}
+
+export interface ContextWindowOptions {
+  /** Share of the prompt budget a summary may take */
+  maxSummaryShare?: number;
+  reservedForResponse?: number;
+  /** Extra risk check applied to unflagged messages */
+  isRiskFlagged?: (message: ContextMessage) => boolean;
+  /** Rolling summaries kept in memory; the least recently used are dropped first */
+  maxConversations?: number;
+}
+
+export interface ContextWindowResult {
+  messages: ContextMessage[];
+  tokenCount: number;
+  budget: number;
+  /** Number of turns represented only by the summary */
+  summarizedCount: number;
+  summary?: string;
+  /** Pinned and risk-flagged turns alone exceed the budget */
+  overBudget: boolean;
+}
@@ -0,0 +1,243 @@
+import type {
+  Intervention,
+  InterventionContext,
+  InterventionDetectionService,
+  InterventionType
+} from '@/services/InterventionDetectionService';
+import type { ComprehensiveQualityMetrics } from '@/types/metrics';
+import { boundAt, validateCurve } from './curves';
+import { DifficultyCurve, DifficultyParameters, DifficultyTrajectoryPoint, PerformanceSignal } from './types';
+
+type InterventionDetector = Pick<InterventionDetectionService, 'detectIntervention'>;
+
+export interface TurnContext {
+  /** Current alliance from the persona state, 0-1 */
+  alliance?: number;
+  /** Current client emotional intensity, 1-10 */
+  emotionalIntensity?: number;
+  topics?: string[];
+}
+
+/** How well each intervention type reflects trainee skill, 0-1 */
+const INTERVENTION_SCORES: Record<InterventionType, number> = {
+  'validation': 0.8,
+  'cognitive-restructuring': 0.75,
+  'mindfulness': 0.7,
+  'behavioral-activation': 0.7,
+  'crisis-intervention': 0.7,
+  'skills-training': 0.65,
+  'exposure': 0.6,
+  'psychoeducation': 0.6
+};
+
+/** Score for a therapist turn with no recognizable intervention */
+const NO_INTERVENTION_SCORE = 0.4;
+/** Quality scores summarize many turns, so they count more than a single intervention */
+const QUALITY_WEIGHT = 3;
+const PERFORMANCE_SMOOTHING = 0.3;
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+const round = (value: number) => Number(value.toFixed(4));
+
+export function parametersForLevel(level: number): DifficultyParameters {
+  return {
+    resistance: round(level),
+    disclosurePace: round(clamp(1 - level * 0.8)),
+    defenseIntensity: round(clamp(level * 1.1 - 0.05))
+  };
+}
+
+/**
+ * Adapts a simulated client's difficulty to the trainee's performance.
+ *
+ * Intervention detections and quality scores are folded into a smoothed
+ * performance estimate. Stronger performance pushes the difficulty level
+ * toward the top of the scenario's curve, weaker performance toward the
+ * bottom, and each adjustment moves at most `curve.maxStep`.
+ */
+export class DifficultyController {
+  private readonly sessionId: string;
+  private readonly curve: DifficultyCurve;
+  private readonly detector?: InterventionDetector;
+  private readonly startedAt: number;
+  private level: number;
+  private performance = 0.5;
+  private turn = 0;
+  private recentInterventions: string[] = [];
+  private trajectory: DifficultyTrajectoryPoint[] = [];
+
+  constructor(sessionId: string, curve: DifficultyCurve, detector?: InterventionDetector, startedAt: number = Date.now()) {
+    const issues = validateCurve(curve);
+    if (issues.length > 0) {
+      throw new Error(`Invalid difficulty curve ${curve.id}: ${issues.join('; ')}`);
+    }
+
+    this.sessionId = sessionId;
+    this.curve = curve;
+    this.detector = detector;
+    this.startedAt = startedAt;
+
+    const start = boundAt(curve, 0);
+    this.level = (start.min + start.max) / 2;
+    this.record(startedAt, 'Session start');
+  }
+
+  /**
+   * Rebuild a controller from a stored trajectory so adaptation carries
+   * across stateless requests
+   */
+  public static resume(
+    sessionId: string,
+    curve: DifficultyCurve,
+    trajectory: DifficultyTrajectoryPoint[],
+    detector?: InterventionDetector
+  ): DifficultyController {
+    const last = trajectory[trajectory.length - 1];
+    if (!last) {
+      return new DifficultyController(sessionId, curve, detector);
+    }
+
+    const startedAt = new Date(last.recordedAt).getTime() - last.elapsedMinutes * 60000;
+    const controller = new DifficultyController(sessionId, curve, detector, startedAt);
+    controller.level = last.level;
+    controller.performance = last.performance;
+    controller.turn = last.turn;
+    controller.trajectory = trajectory.map(point => ({ ...point }));
+    return controller;
+  }
+
+  public get turnCount(): number {
+    return this.turn;
+  }
+
+  public get parameters(): DifficultyParameters {
+    return parametersForLevel(this.level);
+  }
+
+  public getTrajectory(): DifficultyTrajectoryPoint[] {
+    return this.trajectory.map(point => ({ ...point }));
+  }
+
+  /**
+   * Score the trainee's message with the intervention detector, then adjust
+   */
+  public async observeTherapistTurn(
+    message: string,
+    context: TurnContext = {},
+    now: number = Date.now()
+  ): Promise<DifficultyTrajectoryPoint> {
+    this.turn += 1;
+
+    let intervention: Intervention | null = null;
+    if (this.detector) {
+      try {
+        intervention = await this.detector.detectIntervention(message, this.buildInterventionContext(context, now));
+      } catch (error) {
+        console.error('Intervention detection failed:', error);
+      }
+    }
+
+    return this.applySignal(
+      {
+        source: 'intervention',
+        score: intervention ? INTERVENTION_SCORES[intervention.type] ?? NO_INTERVENTION_SCORE : NO_INTERVENTION_SCORE,
+        weight: 1,
+        interventionType: intervention?.type ?? null
+      },
+      now
+    );
+  }
+
+  /**
+   * Fold in session quality scores from QualityMetricsService
+   */
+  public applyQualityScores(
+    scores: ComprehensiveQualityMetrics['scores'],
+    now: number = Date.now()
+  ): DifficultyTrajectoryPoint {
+    // Scores are 0-1 in most pipelines but some benchmarks report percentages
+    const overall = scores.overall > 1 ? scores.overall / 100 : scores.overall;
+    return this.applySignal({ source: 'quality', score: clamp(overall), weight: QUALITY_WEIGHT }, now);
+  }
+
+  /**
+   * Roleplay instructions for the current difficulty
+   */
+  public buildPromptDirective(): string {
+    const { resistance, disclosurePace, defenseIntensity } = this.parameters;
+    const describe = (value: number, low: string, mid: string, high: string) =>
+      value < 0.35 ? low : value < 0.65 ? mid : high;
+
+    return [
+      'Difficulty:',
+      `- Resistance: ${describe(resistance, 'mostly cooperative with suggestions', 'question some suggestions before engaging', 'push back on most suggestions and challenge the therapist')}.`,
+      `- Disclosure pace: ${describe(disclosurePace, 'reveal core issues only after sustained, skilled effort', 'reveal core issues gradually', 'open up readily when asked')}.`,
+      `- Defense mechanisms: ${describe(defenseIntensity, 'show them subtly', 'show them clearly', 'lean on them heavily')}.`
+    ].join('\n');
+  }
+
+  private applySignal(signal: PerformanceSignal, now: number): DifficultyTrajectoryPoint {
+    const alpha = clamp(PERFORMANCE_SMOOTHING * signal.weight);
+    this.performance = clamp(this.performance + (signal.score - this.performance) * alpha);
+
+    const minute = (now - this.startedAt) / 60000;
+    const bound = boundAt(this.curve, minute);
+    const target = bound.min + (bound.max - bound.min) * this.performance;
+    const step = clamp(target - this.level, -this.curve.maxStep, this.curve.maxStep);
+    // Keep the level inside the curve even when the curve itself moves
+    this.level = clamp(this.level + step, bound.min, bound.max);
+
+    if (signal.interventionType) {
+      this.recentInterventions = [...this.recentInterventions, signal.interventionType].slice(-5);
+    }
+
+    const reason =
+      signal.source === 'quality'
+        ? `Quality score ${signal.score.toFixed(2)}`
+        : signal.interventionType
+        ? `Detected ${signal.interventionType}`
+        : 'No recognizable intervention';
+    return this.record(now, reason, bound);
+  }
+
+  private buildInterventionContext(context: TurnContext, now: number): InterventionContext {
+    return {
+      clientState: {
+        emotionalState: context.emotionalIntensity ?? 5,
+        engagementLevel: 1 - this.parameters.resistance,
+        currentTopics: context.topics ?? []
+      },
+      sessionState: {
+        duration: Math.round((now - this.startedAt) / 1000),
+        interventionCount: this.recentInterventions.length,
+        recentInterventions: [...this.recentInterventions]
+      },
+      therapeuticRelationship: {
+        alliance: context.alliance ?? 0.5,
+        resistance: this.parameters.resistance,
+        rapport: context.alliance ?? 0.5
+      }
+    };
+  }
+
+  private record(
+    now: number,
+    reason: string,
+    bound: { min: number; max: number } = boundAt(this.curve, (now - this.startedAt) / 60000)
+  ): DifficultyTrajectoryPoint {
+    const minute = (now - this.startedAt) / 60000;
+    const point: DifficultyTrajectoryPoint = {
+      sessionId: this.sessionId,
+      turn: this.turn,
+      elapsedMinutes: round(minute),
+      level: round(this.level),
+      bound: { min: round(bound.min), max: round(bound.max) },
+      performance: round(this.performance),
+      parameters: this.parameters,
+      reason,
+      recordedAt: new Date(now).toISOString()
+    };
+    this.trajectory.push(point);
+    return point;
+  }
+}
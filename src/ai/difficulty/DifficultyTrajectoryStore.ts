@@ -0,0 +1,65 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { DifficultyTrajectoryPoint } from './types';
+
+/**
+ * Stores difficulty adjustments so instructors can review how a simulated
+ * client adapted over a session. Routes pass their request-scoped client so
+ * reads and writes go through the table's RLS policies as the caller.
+ */
+export class DifficultyTrajectoryStore {
+  private static instance: DifficultyTrajectoryStore;
+  private readonly table = 'session_difficulty_trajectory';
+
+  public static getInstance(): DifficultyTrajectoryStore {
+    if (!DifficultyTrajectoryStore.instance) {
+      DifficultyTrajectoryStore.instance = new DifficultyTrajectoryStore();
+    }
+    return DifficultyTrajectoryStore.instance;
+  }
+
+  public async append(points: DifficultyTrajectoryPoint[], client: SupabaseClient = supabase): Promise<void> {
+    if (points.length === 0) return;
+
+    const { error } = await client.from(this.table).insert(
+      points.map(point => ({
+        session_id: point.sessionId,
+        turn: point.turn,
+        elapsed_minutes: point.elapsedMinutes,
+        level: point.level,
+        bound_min: point.bound.min,
+        bound_max: point.bound.max,
+        performance: point.performance,
+        parameters: point.parameters,
+        reason: point.reason,
+        recorded_at: point.recordedAt
+      }))
+    );
+
+    if (error) {
+      throw new Error(`Failed to store difficulty trajectory: ${error.message}`);
+    }
+  }
+
+  public async getTrajectory(sessionId: string, client: SupabaseClient = supabase): Promise<DifficultyTrajectoryPoint[]> {
+    const { data, error } = await client
+      .from(this.table)
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('recorded_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      sessionId: row.session_id,
+      turn: row.turn,
+      elapsedMinutes: row.elapsed_minutes,
+      level: row.level,
+      bound: { min: row.bound_min, max: row.bound_max },
+      performance: row.performance,
+      parameters: row.parameters,
+      reason: row.reason,
+      recordedAt: row.recorded_at
+    }));
+  }
+}
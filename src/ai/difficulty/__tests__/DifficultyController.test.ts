@@ -0,0 +1,122 @@
+import { DifficultyController, parametersForLevel } from '../DifficultyController';
+import { boundAt, curveForComplexity, validateCurve } from '../curves';
+import type { DifficultyCurve } from '../types';
+import type { Intervention, InterventionType } from '@/services/InterventionDetectionService';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+const START = Date.parse('2024-03-28T10:00:00Z');
+const minutes = (n: number) => START + n * 60000;
+
+const curve: DifficultyCurve = {
+  id: 'test',
+  points: [
+    { minute: 0, min: 0.2, max: 0.5 },
+    { minute: 20, min: 0.3, max: 0.8 }
+  ],
+  maxStep: 0.1
+};
+
+const detectorReturning = (type: InterventionType | null) => ({
+  detectIntervention: jest.fn(async (): Promise<Intervention | null> =>
+    type ? { id: 'i1', type, timestamp: new Date(), description: '', targetOutcome: '', context: {} as any } : null
+  )
+});
+
+describe('DifficultyController', () => {
+  describe('curves', () => {
+    it('should interpolate bounds between points and hold after the last', () => {
+      expect(boundAt(curve, 10)).toEqual({ min: 0.25, max: 0.65 });
+      expect(boundAt(curve, 45)).toEqual({ min: 0.3, max: 0.8 });
+    });
+
+    it('should ship valid default curves', () => {
+      ['low', 'moderate', 'high', undefined].forEach(complexity => {
+        expect(validateCurve(curveForComplexity(complexity))).toEqual([]);
+      });
+    });
+
+    it('should reject curves without points', () => {
+      expect(() => new DifficultyController('s1', { id: 'bad', points: [], maxStep: 0.1 })).toThrow(/Invalid difficulty curve/);
+    });
+  });
+
+  it('should start in the middle of the initial bound', () => {
+    const controller = new DifficultyController('s1', curve, undefined, START);
+
+    expect(controller.parameters).toEqual(parametersForLevel(0.35));
+    expect(controller.getTrajectory()).toHaveLength(1);
+    expect(controller.getTrajectory()[0].reason).toBe('Session start');
+  });
+
+  it('should raise difficulty for strong interventions within the step limit', async () => {
+    const detector = detectorReturning('validation');
+    const controller = new DifficultyController('s1', curve, detector, START);
+
+    let previous = controller.getTrajectory()[0].level;
+    for (let turn = 1; turn <= 10; turn++) {
+      const point = await controller.observeTherapistTurn('That sounds really hard.', { alliance: 0.6 }, minutes(turn * 2));
+      expect(point.level - previous).toBeLessThanOrEqual(curve.maxStep + 1e-9);
+      expect(point.level).toBeGreaterThanOrEqual(point.bound.min);
+      expect(point.level).toBeLessThanOrEqual(point.bound.max);
+      previous = point.level;
+    }
+
+    expect(previous).toBeGreaterThan(0.35);
+    expect(detector.detectIntervention).toHaveBeenCalledTimes(10);
+    expect(controller.getTrajectory().slice(-1)[0].reason).toBe('Detected validation');
+  });
+
+  it('should ease difficulty when no interventions are recognized', async () => {
+    const controller = new DifficultyController('s1', curve, detectorReturning(null), START);
+
+    for (let turn = 1; turn <= 5; turn++) {
+      await controller.observeTherapistTurn('ok', {}, START);
+    }
+
+    const last = controller.getTrajectory().slice(-1)[0];
+    expect(last.performance).toBeLessThan(0.5);
+    expect(last.level).toBeLessThan(0.35);
+    expect(last.parameters.disclosurePace).toBeGreaterThan(parametersForLevel(0.35).disclosurePace);
+  });
+
+  it('should weight quality scores more heavily and accept percentages', () => {
+    const controller = new DifficultyController('s1', curve, undefined, START);
+    const scores = { overall: 95, therapeutic: 90, engagement: 90, emotional: 90, outcome: 90, compliance: 90 };
+
+    const point = controller.applyQualityScores(scores as any, minutes(5));
+
+    expect(point.reason).toBe('Quality score 0.95');
+    expect(point.performance).toBeCloseTo(0.905, 3);
+  });
+
+  it('should keep adapting when the detector fails', async () => {
+    const detector = { detectIntervention: jest.fn().mockRejectedValue(new Error('offline')) };
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const controller = new DifficultyController('s1', curve, detector, START);
+
+    const point = await controller.observeTherapistTurn('hello', {}, minutes(1));
+
+    expect(point.reason).toBe('No recognizable intervention');
+    errorSpy.mockRestore();
+  });
+
+  it('should resume from a stored trajectory', async () => {
+    const controller = new DifficultyController('s1', curve, detectorReturning('validation'), START);
+    await controller.observeTherapistTurn('I hear you.', {}, minutes(3));
+    await controller.observeTherapistTurn('That makes sense.', {}, minutes(6));
+
+    const resumed = DifficultyController.resume('s1', curve, controller.getTrajectory());
+
+    expect(resumed.turnCount).toBe(2);
+    expect(resumed.parameters).toEqual(controller.parameters);
+    const point = resumed.applyQualityScores({ overall: 0.5 } as any, minutes(9));
+    expect(point.elapsedMinutes).toBeCloseTo(9, 5);
+  });
+
+  it('should describe the current difficulty for the roleplay prompt', () => {
+    const controller = new DifficultyController('s1', curve, undefined, START);
+
+    expect(controller.buildPromptDirective()).toContain('Resistance: question some suggestions');
+  });
+});
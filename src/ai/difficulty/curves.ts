@@ -0,0 +1,86 @@
+import { DifficultyBound, DifficultyCurve } from './types';
+
+export type ComplexityLevel = 'low' | 'moderate' | 'high';
+
+export const DEFAULT_CURVES: Record<ComplexityLevel, DifficultyCurve> = {
+  low: {
+    id: 'default-low',
+    maxStep: 0.08,
+    points: [
+      { minute: 0, min: 0.1, max: 0.35 },
+      { minute: 20, min: 0.15, max: 0.45 },
+      { minute: 50, min: 0.1, max: 0.4 }
+    ]
+  },
+  moderate: {
+    id: 'default-moderate',
+    maxStep: 0.1,
+    points: [
+      { minute: 0, min: 0.25, max: 0.5 },
+      { minute: 20, min: 0.3, max: 0.65 },
+      { minute: 50, min: 0.25, max: 0.6 }
+    ]
+  },
+  high: {
+    id: 'default-high',
+    maxStep: 0.12,
+    points: [
+      { minute: 0, min: 0.45, max: 0.7 },
+      { minute: 20, min: 0.5, max: 0.85 },
+      { minute: 50, min: 0.45, max: 0.8 }
+    ]
+  }
+};
+
+/**
+ * Map the free-text `ClientProfile.complexity` onto one of the default curves
+ */
+export function complexityLevel(complexity: string | undefined): ComplexityLevel {
+  const value = (complexity || '').toLowerCase();
+  if (/\b(low|mild|simple|beginner)\b/.test(value)) return 'low';
+  if (/\b(high|severe|complex|advanced)\b/.test(value)) return 'high';
+  return 'moderate';
+}
+
+export function curveForComplexity(complexity: string | undefined): DifficultyCurve {
+  return DEFAULT_CURVES[complexityLevel(complexity)];
+}
+
+export function validateCurve(curve: DifficultyCurve): string[] {
+  const issues: string[] = [];
+  if (curve.points.length === 0) issues.push('curve needs at least one point');
+  if (curve.maxStep <= 0 || curve.maxStep > 1) issues.push('maxStep must be in (0, 1]');
+
+  curve.points.forEach((point, index) => {
+    if (point.min < 0 || point.max > 1 || point.min > point.max) {
+      issues.push(`point ${index} must satisfy 0 <= min <= max <= 1`);
+    }
+    if (index > 0 && point.minute <= curve.points[index - 1].minute) {
+      issues.push(`point ${index} must come after point ${index - 1}`);
+    }
+  });
+  return issues;
+}
+
+/**
+ * Difficulty bounds at a point in the session
+ */
+export function boundAt(curve: DifficultyCurve, minute: number): Pick<DifficultyBound, 'min' | 'max'> {
+  const points = curve.points;
+  if (minute <= points[0].minute) return { min: points[0].min, max: points[0].max };
+
+  for (let i = 1; i < points.length; i++) {
+    const next = points[i];
+    if (minute <= next.minute) {
+      const prev = points[i - 1];
+      const t = (minute - prev.minute) / (next.minute - prev.minute);
+      return {
+        min: prev.min + (next.min - prev.min) * t,
+        max: prev.max + (next.max - prev.max) * t
+      };
+    }
+  }
+
+  const last = points[points.length - 1];
+  return { min: last.min, max: last.max };
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export { DEFAULT_CURVES, boundAt, complexityLevel, curveForComplexity, validateCurve, type ComplexityLevel } from './curves';
+export { DifficultyController, parametersForLevel, type TurnContext } from './DifficultyController';
+export { DifficultyTrajectoryStore } from './DifficultyTrajectoryStore';
@@ -0,0 +1,53 @@
+import type { InterventionType } from '@/services/InterventionDetectionService';
+
+/**
+ * How hard the simulated client is to work with, each on a 0-1 scale.
+ */
+export interface DifficultyParameters {
+  /** Pushback against the trainee's interventions */
+  resistance: number;
+  /** How quickly the client opens up about core issues (1 = readily) */
+  disclosurePace: number;
+  /** How strongly defense mechanisms show in responses */
+  defenseIntensity: number;
+}
+
+export interface DifficultyBound {
+  /** Minutes since session start */
+  minute: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Per-scenario envelope for the difficulty level. Bounds are interpolated
+ * linearly between points and held constant past the last one.
+ */
+export interface DifficultyCurve {
+  id: string;
+  points: DifficultyBound[];
+  /** Largest change in difficulty level allowed per adjustment */
+  maxStep: number;
+}
+
+export type PerformanceSignalSource = 'intervention' | 'quality';
+
+export interface PerformanceSignal {
+  source: PerformanceSignalSource;
+  /** 0-1, higher is better trainee performance */
+  score: number;
+  weight: number;
+  interventionType?: InterventionType | null;
+}
+
+export interface DifficultyTrajectoryPoint {
+  sessionId: string;
+  turn: number;
+  elapsedMinutes: number;
+  level: number;
+  bound: { min: number; max: number };
+  performance: number;
+  parameters: DifficultyParameters;
+  reason: string;
+  recordedAt: string;
+}
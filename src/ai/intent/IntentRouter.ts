@@ -0,0 +1,161 @@
+import { z } from 'zod';
+import { LLMProviderRegistry } from '@/ai/providers';
+import { DEFAULT_CRISIS_RULES, DEFAULT_ROUTES } from './routes';
+import { IntentResult, IntentRouterOptions, RouteDefinition, RouteId } from './types';
+
+const llmAnswerSchema = z.object({
+  route: z.string(),
+  confidence: z.coerce.number().min(0).max(1),
+  rationale: z.string().optional().default('')
+});
+
+/** Confidence assigned when the model names a service in free text instead of JSON */
+const FREE_TEXT_CONFIDENCE = 0.5;
+
+/**
+ * Classifies incoming messages into one of the registered routes.
+ *
+ * Crisis keywords are matched first and never reach the model. Everything
+ * else is classified by the provider bound to the `routing` feature, and
+ * answers below `minConfidence` are sent to the fallback route.
+ */
+export class IntentRouter {
+  private static instance: IntentRouter;
+  private options: IntentRouterOptions;
+  private registry: LLMProviderRegistry;
+
+  constructor(options: Partial<IntentRouterOptions> = {}, registry?: LLMProviderRegistry) {
+    this.options = {
+      routes: DEFAULT_ROUTES,
+      crisisRules: DEFAULT_CRISIS_RULES,
+      fallbackRoute: 'general_chat',
+      minConfidence: 0.6,
+      ...options
+    };
+    this.registry = registry ?? LLMProviderRegistry.getInstance();
+  }
+
+  public static getInstance(): IntentRouter {
+    if (!IntentRouter.instance) {
+      IntentRouter.instance = new IntentRouter();
+    }
+    return IntentRouter.instance;
+  }
+
+  public getRoutes(): RouteDefinition[] {
+    return [...this.options.routes];
+  }
+
+  public setFallbackRoute(route: RouteId, minConfidence?: number): void {
+    this.options.fallbackRoute = route;
+    if (minConfidence !== undefined) {
+      this.options.minConfidence = minConfidence;
+    }
+  }
+
+  /**
+   * Match crisis keywords without calling the model
+   */
+  public matchCrisisRules(message: string): IntentResult | null {
+    const matched = this.options.crisisRules.filter(rule => rule.pattern.test(message));
+    if (matched.length === 0) return null;
+
+    return {
+      route: 'crisis',
+      confidence: 1,
+      rationale: `Matched crisis rule(s): ${matched.map(rule => rule.description).join(', ')}`,
+      source: 'rule'
+    };
+  }
+
+  public async classify(message: string): Promise<IntentResult> {
+    const crisis = this.matchCrisisRules(message);
+    if (crisis) return crisis;
+
+    let answer: string;
+    try {
+      const completion = await this.registry.complete('routing', [
+        { role: 'system', content: this.buildSystemPrompt() },
+        { role: 'user', content: message }
+      ]);
+      answer = completion.content;
+    } catch (error) {
+      console.error('Intent classification failed:', error);
+      return this.fallback(`Classifier unavailable: ${(error as Error).message}`);
+    }
+
+    const parsed = this.parseAnswer(answer);
+    if (!parsed) {
+      return this.fallback('Could not parse classifier response');
+    }
+
+    if (parsed.confidence < this.options.minConfidence) {
+      return {
+        ...this.fallback(
+          `Low confidence (${parsed.confidence.toFixed(2)}) for ${parsed.route}: ${parsed.rationale}`.trim()
+        ),
+        confidence: parsed.confidence,
+        suggestedRoute: parsed.route
+      };
+    }
+
+    return { ...parsed, source: 'llm' };
+  }
+
+  /**
+   * Parse a model answer, accepting either the requested JSON shape or a bare
+   * route/service name.
+   */
+  public parseAnswer(answer: string): Omit<IntentResult, 'source'> | null {
+    const json = answer.match(/\{[\s\S]*\}/);
+    if (json) {
+      try {
+        const result = llmAnswerSchema.safeParse(JSON.parse(json[0]));
+        const route = result.success ? this.resolveRoute(result.data.route) : null;
+        if (result.success && route) {
+          return { route, confidence: result.data.confidence, rationale: result.data.rationale };
+        }
+      } catch {
+        // Fall through to free-text matching
+      }
+    }
+
+    const route = this.resolveRoute(answer);
+    return route
+      ? { route, confidence: FREE_TEXT_CONFIDENCE, rationale: `Model answered in free text: ${answer.trim()}` }
+      : null;
+  }
+
+  private resolveRoute(value: string): RouteId | null {
+    const normalized = value.trim().toLowerCase();
+    const exact = this.options.routes.find(
+      route => route.id === normalized || route.label.toLowerCase() === normalized
+    );
+    if (exact) return exact.id;
+
+    const mentioned = this.options.routes.find(route => normalized.includes(route.label.toLowerCase()));
+    return mentioned ? mentioned.id : null;
+  }
+
+  private fallback(rationale: string): IntentResult {
+    return {
+      route: this.options.fallbackRoute,
+      confidence: 0,
+      rationale,
+      source: 'fallback'
+    };
+  }
+
+  private buildSystemPrompt(): string {
+    const routes = this.options.routes
+      .map(route => `- ${route.id}: ${route.description}`)
+      .join('\n');
+
+    return `You analyze user messages and decide which service should handle them.
+The available routes are:
+${routes}
+
+Respond with JSON only, in the form:
+{"route": "<route id>", "confidence": <number between 0 and 1>, "rationale": "<one sentence>"}`;
+  }
+}
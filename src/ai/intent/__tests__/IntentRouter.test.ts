@@ -0,0 +1,96 @@
+import { IntentRouter } from '../IntentRouter';
+import { LLMProviderRegistry } from '@/ai/providers/LLMProviderRegistry';
+import { FixtureProvider } from '@/ai/providers/adapters/FixtureProvider';
+import { LLMProviderError } from '@/ai/providers/errors';
+import { LLMMessage, LLMRegistryConfig } from '@/ai/providers/types';
+import recordedExamples from './fixtures/recordedExamples.json';
+
+interface RecordedExample {
+  message: string;
+  recordedResponse: string | null;
+  expected: { route: string; source: string; suggestedRoute?: string };
+}
+
+const examples = recordedExamples as RecordedExample[];
+
+const createRegistry = (): LLMProviderRegistry => {
+  const config: LLMRegistryConfig = {
+    features: {
+      routing: { provider: 'recorded', model: 'recorded' },
+      roleplay: { provider: 'recorded', model: 'recorded' },
+      summarization: { provider: 'recorded', model: 'recorded' }
+    },
+    retry: { maxAttempts: 1, initialDelayMs: 1, maxDelayMs: 1 },
+    timeoutMs: 1000
+  };
+  return new LLMProviderRegistry(config);
+};
+
+describe('IntentRouter', () => {
+  let registry: LLMProviderRegistry;
+  let provider: FixtureProvider;
+  let router: IntentRouter;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    // Replay the recorded model answer for each example message
+    provider = new FixtureProvider([], (messages: LLMMessage[]) => {
+      const text = messages[messages.length - 1].content;
+      return examples.find(e => e.message === text)?.recordedResponse ?? '';
+    }, 'recorded');
+    registry.registerProvider(provider);
+    router = new IntentRouter({}, registry);
+  });
+
+  describe('recorded examples', () => {
+    it.each(examples.map(e => [e.message, e] as const))('should route "%s"', async (_, example) => {
+      const result = await router.classify(example.message);
+
+      expect(result.route).toBe(example.expected.route);
+      expect(result.source).toBe(example.expected.source);
+      expect(result.suggestedRoute).toBe(example.expected.suggestedRoute);
+      expect(result.confidence).toBeGreaterThanOrEqual(0);
+      expect(result.confidence).toBeLessThanOrEqual(1);
+      expect(result.rationale).toBeTruthy();
+    });
+  });
+
+  describe('crisis pre-filter', () => {
+    it('should not call the model for crisis messages', async () => {
+      const result = await router.classify('I want to kill myself');
+
+      expect(result).toMatchObject({ route: 'crisis', confidence: 1, source: 'rule' });
+      expect(provider.calls).toHaveLength(0);
+    });
+
+    it('should call the model for ordinary messages', async () => {
+      await router.classify(examples[0].message);
+
+      expect(provider.calls).toHaveLength(1);
+    });
+  });
+
+  describe('fallback', () => {
+    it('should use the configured fallback route', async () => {
+      router.setFallbackRoute('therapy', 0.9);
+      const result = await router.classify("What's your favourite colour?");
+
+      expect(result.route).toBe('therapy');
+      expect(result.source).toBe('fallback');
+      expect(result.suggestedRoute).toBe('general_chat');
+    });
+
+    it('should fall back when the provider fails', async () => {
+      registry.registerProvider({
+        name: 'recorded',
+        complete: () => Promise.reject(new LLMProviderError('recorded', 'offline')),
+        stream: async function* () {}
+      });
+
+      const result = await router.classify('Can you send me some reading on sleep hygiene?');
+
+      expect(result).toMatchObject({ route: 'general_chat', confidence: 0, source: 'fallback' });
+      expect(result.rationale).toContain('offline');
+    });
+  });
+});
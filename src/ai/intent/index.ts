@@ -0,0 +1,3 @@
+export * from './types';
+export { DEFAULT_ROUTES, DEFAULT_CRISIS_RULES } from './routes';
+export { IntentRouter } from './IntentRouter';
@@ -0,0 +1,56 @@
+import { CrisisRule, RouteDefinition } from './types';
+
+export const DEFAULT_ROUTES: RouteDefinition[] = [
+  {
+    id: 'therapy',
+    label: 'Therapy Service',
+    description: 'Direct therapy-related inquiries, emotional support and discussing personal difficulties.'
+  },
+  {
+    id: 'resource',
+    label: 'Resource Service',
+    description: 'Accessing helpful resources, reading material and information.'
+  },
+  {
+    id: 'appointment',
+    label: 'Appointment Service',
+    description: 'Scheduling, rescheduling, cancelling or managing appointments.'
+  },
+  {
+    id: 'general_chat',
+    label: 'General Chat',
+    description: 'Casual conversation or general questions.'
+  },
+  {
+    id: 'crisis',
+    label: 'Crisis Service',
+    description: 'Immediate risk of harm to self or others, suicidal thoughts or an emergency.'
+  }
+];
+
+/**
+ * Keyword rules that bypass the model entirely. Kept deliberately broad: a
+ * false positive costs a crisis-resources reply, a false negative can cost far more.
+ */
+export const DEFAULT_CRISIS_RULES: CrisisRule[] = [
+  {
+    id: 'suicide',
+    pattern: /\b(suicid(e|al)|kill(ing)? myself|end(ing)? (my life|it all)|take my (own )?life)\b/i,
+    description: 'Suicidal ideation'
+  },
+  {
+    id: 'death-wish',
+    pattern: /\b(want(ed)? to die|better off dead|no reason to (live|go on)|don'?t want to (live|be alive|wake up))\b/i,
+    description: 'Expressed wish to die'
+  },
+  {
+    id: 'self-harm',
+    pattern: /\b(self[- ]harm(ing)?|hurt(ing)? myself|cut(ting)? myself|overdos(e|ing))\b/i,
+    description: 'Self-harm'
+  },
+  {
+    id: 'harm-to-others',
+    pattern: /\b(kill|hurt|harm) (him|her|them|someone|somebody|people)\b/i,
+    description: 'Risk of harm to others'
+  }
+];
@@ -0,0 +1,35 @@
+export type RouteId = 'therapy' | 'resource' | 'appointment' | 'general_chat' | 'crisis';
+
+export interface RouteDefinition {
+  id: RouteId;
+  /** Human readable service name, also accepted when the model answers in free text */
+  label: string;
+  description: string;
+}
+
+export type IntentSource = 'rule' | 'llm' | 'fallback';
+
+export interface IntentResult {
+  route: RouteId;
+  /** 0-1, how sure the classifier is about `route` */
+  confidence: number;
+  rationale: string;
+  source: IntentSource;
+  /** Route the classifier picked before a low-confidence fallback was applied */
+  suggestedRoute?: RouteId;
+}
+
+export interface CrisisRule {
+  id: string;
+  pattern: RegExp;
+  description: string;
+}
+
+export interface IntentRouterOptions {
+  routes: RouteDefinition[];
+  crisisRules: CrisisRule[];
+  /** Route used when the model is unsure or its answer cannot be parsed */
+  fallbackRoute: RouteId;
+  /** Minimum confidence required to accept the model's route */
+  minConfidence: number;
+}
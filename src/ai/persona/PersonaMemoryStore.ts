@@ -0,0 +1,48 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { PersonaState } from './types';
+
+/**
+ * Persists persona state per session so long or resumed sessions keep the
+ * same memory across requests and server instances. Routes pass their
+ * request-scoped client so the table's RLS policies apply to the caller.
+ */
+export class PersonaMemoryStore {
+  private static instance: PersonaMemoryStore;
+  private readonly table = 'persona_states';
+
+  public static getInstance(): PersonaMemoryStore {
+    if (!PersonaMemoryStore.instance) {
+      PersonaMemoryStore.instance = new PersonaMemoryStore();
+    }
+    return PersonaMemoryStore.instance;
+  }
+
+  public async load(sessionId: string, client: SupabaseClient = supabase): Promise<PersonaState | null> {
+    const { data, error } = await client
+      .from(this.table)
+      .select('state')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? (data.state as PersonaState) : null;
+  }
+
+  public async save(state: PersonaState, client: SupabaseClient = supabase): Promise<void> {
+    const { error } = await client.from(this.table).upsert(
+      {
+        session_id: state.sessionId,
+        client_id: state.clientId,
+        state,
+        contradiction_count: state.contradictions.length,
+        updated_at: state.updatedAt
+      },
+      { onConflict: 'session_id' }
+    );
+
+    if (error) {
+      throw new Error(`Failed to persist persona state for session ${state.sessionId}: ${error.message}`);
+    }
+  }
+}
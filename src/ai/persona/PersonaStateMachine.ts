@@ -0,0 +1,231 @@
+import { analyzeEmotion } from '@/services/chat/emotionalState';
+import type { ClientProfile } from '@/lib/prompts';
+import { extractFacts, findConflict } from './factExtraction';
+import {
+  AlliancePhase,
+  FiredTrigger,
+  PersonaContradiction,
+  PersonaEmotion,
+  PersonaFact,
+  PersonaState,
+  TurnObservation
+} from './types';
+
+const PHASE_THRESHOLDS: Array<[AlliancePhase, number]> = [
+  ['collaborative', 0.8],
+  ['working', 0.6],
+  ['engaging', 0.35],
+  ['guarded', 0]
+];
+
+const PHASE_GUIDANCE: Record<AlliancePhase, string> = {
+  guarded: 'Share only surface-level information and deflect personal questions.',
+  engaging: 'Begin to share some feelings, but keep core issues at a distance.',
+  working: 'Engage with core issues and reflect on your patterns when prompted.',
+  collaborative: 'Speak openly about core issues and work actively with the therapist.'
+};
+
+const ATTUNED_PHRASES = [
+  'that sounds', 'i hear', 'makes sense', 'i understand', 'it seems like', 'thank you for sharing',
+  'that must', 'i can see', 'what i\'m hearing'
+];
+// Open question at the start of any sentence
+const OPEN_QUESTION = /(^|[.!?]\s+)(what|how|could you|can you tell|tell me)\b/i;
+const RUPTURE_PHRASES = [
+  'you should', 'you need to', 'why didn\'t you', 'that\'s wrong', 'you\'re wrong', 'just stop', 'calm down',
+  'you always', 'that\'s not true'
+];
+
+const ATTUNED_DELTA = 0.05;
+const OPEN_QUESTION_DELTA = 0.02;
+const RUPTURE_DELTA = -0.07;
+const TRIGGER_DELTA = -0.03;
+const TRIGGER_INTENSITY_BOOST = 2;
+
+// Persona state is plain JSON so it can be persisted as-is
+const cloneState = (state: PersonaState): PersonaState => JSON.parse(JSON.stringify(state));
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function phaseForAlliance(alliance: number): AlliancePhase {
+  return PHASE_THRESHOLDS.find(([, threshold]) => alliance >= threshold)![0];
+}
+
+/**
+ * Per-session persona memory for a simulated client. Tracks what the client
+ * has said about themselves, their emotional state, which known triggers the
+ * trainee has touched and how far the alliance has progressed, and turns that
+ * into a context block that is sent with every roleplay turn.
+ */
+export class PersonaStateMachine {
+  private readonly profile: ClientProfile;
+  private state: PersonaState;
+
+  constructor(profile: ClientProfile, sessionId: string, state?: PersonaState) {
+    this.profile = profile;
+    this.state = state ? cloneState(state) : this.createInitialState(sessionId);
+  }
+
+  public getState(): PersonaState {
+    return cloneState(this.state);
+  }
+
+  public get phase(): AlliancePhase {
+    return this.state.phase;
+  }
+
+  public get knownTriggers(): string[] {
+    return this.profile.metadata?.history?.knownTriggers ?? [];
+  }
+
+  /**
+   * Update alliance and trigger state from the trainee's message. Call this
+   * before generating the client's reply.
+   */
+  public observeTherapistTurn(message: string): TurnObservation {
+    this.state.turn += 1;
+    const turn = this.state.turn;
+    const text = message.toLowerCase();
+    const previousPhase = this.state.phase;
+
+    const firedTriggers: FiredTrigger[] = this.knownTriggers
+      .filter(trigger => text.includes(trigger.toLowerCase()))
+      .map(trigger => ({ trigger, turn, message }));
+    this.state.firedTriggers.push(...firedTriggers);
+
+    let delta = 0;
+    if (ATTUNED_PHRASES.some(phrase => text.includes(phrase))) delta += ATTUNED_DELTA;
+    if (OPEN_QUESTION.test(message.trim())) delta += OPEN_QUESTION_DELTA;
+    if (RUPTURE_PHRASES.some(phrase => text.includes(phrase))) delta += RUPTURE_DELTA;
+    delta += firedTriggers.length * TRIGGER_DELTA;
+    this.setAlliance(this.state.alliance + delta);
+
+    if (firedTriggers.length > 0) {
+      this.setEmotion({
+        ...this.state.emotion,
+        intensity: clamp(this.state.emotion.intensity + TRIGGER_INTENSITY_BOOST, 1, 10),
+        triggers: firedTriggers.map(f => f.trigger),
+        turn
+      });
+    }
+
+    return {
+      emotion: { ...this.state.emotion },
+      firedTriggers,
+      newFacts: [],
+      contradictions: [],
+      phaseChanged: previousPhase !== this.state.phase
+    };
+  }
+
+  /**
+   * Record the model's in-character reply: update the emotional state, store
+   * newly disclosed facts and flag any that contradict established ones.
+   */
+  public observeClientTurn(response: string): TurnObservation {
+    const turn = this.state.turn;
+    const analysis = analyzeEmotion(response, this.knownTriggers);
+
+    if (analysis.primaryEmotion === 'neutral') {
+      // No emotional content: let intensity settle back toward baseline
+      this.setEmotion({ ...this.state.emotion, intensity: clamp(this.state.emotion.intensity - 1, 2, 10), turn });
+    } else {
+      this.setEmotion({ ...analysis, turn });
+    }
+
+    const newFacts: PersonaFact[] = [];
+    const contradictions: PersonaContradiction[] = [];
+    for (const fact of extractFacts(response, turn)) {
+      const conflict = findConflict(this.state.facts, fact);
+      if (conflict) {
+        contradictions.push({ key: fact.key, established: conflict, contradicting: fact, turn });
+        continue;
+      }
+      if (!this.state.facts.some(f => f.key === fact.key && f.value === fact.value)) {
+        newFacts.push(fact);
+      }
+    }
+
+    this.state.facts.push(...newFacts);
+    this.state.contradictions.push(...contradictions);
+    this.state.updatedAt = new Date().toISOString();
+
+    return {
+      emotion: { ...this.state.emotion },
+      firedTriggers: [],
+      newFacts,
+      contradictions,
+      phaseChanged: false
+    };
+  }
+
+  /**
+   * System prompt block describing the current persona state
+   */
+  public buildContextPrompt(): string {
+    const { turn, alliance, phase, emotion, facts, firedTriggers } = this.state;
+    const lines = [
+      `Persona state (turn ${turn}):`,
+      `- Therapeutic alliance: ${phase} (${alliance.toFixed(2)}). ${PHASE_GUIDANCE[phase]}`,
+      `- Current emotional state: ${emotion.primaryEmotion}, intensity ${emotion.intensity}/10.`
+    ];
+
+    if (facts.length > 0) {
+      lines.push(
+        `- Established facts, stay consistent with these: ${facts.map(f => `${f.key.replace(/_/g, ' ')}: ${f.value}`).join('; ')}.`
+      );
+    }
+
+    if (firedTriggers.length > 0) {
+      const touched = Array.from(new Set(firedTriggers.map(f => f.trigger)));
+      lines.push(`- Triggers already touched this session: ${touched.join(', ')}.`);
+    }
+
+    const current = firedTriggers.filter(f => f.turn === turn);
+    if (current.length > 0 && this.profile.defense_mechanisms.length > 0) {
+      lines.push(
+        `- The therapist just touched a known trigger (${current.map(f => f.trigger).join(', ')}). ` +
+          `Respond through your defense mechanisms (${this.profile.defense_mechanisms.join(', ')}).`
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  private createInitialState(sessionId: string): PersonaState {
+    const emotion: PersonaEmotion = { primaryEmotion: 'neutral', intensity: 3, triggers: [], turn: 0 };
+    const facts: PersonaFact[] = [
+      {
+        key: 'age',
+        value: String(this.profile.age),
+        source: 'profile',
+        turn: 0,
+        evidence: 'Client profile'
+      }
+    ];
+
+    return {
+      sessionId,
+      clientId: this.profile.id,
+      turn: 0,
+      alliance: 0.2,
+      phase: phaseForAlliance(0.2),
+      emotion,
+      emotionHistory: [emotion],
+      facts,
+      firedTriggers: [],
+      contradictions: [],
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private setAlliance(value: number): void {
+    this.state.alliance = clamp(Number(value.toFixed(4)), 0, 1);
+    this.state.phase = phaseForAlliance(this.state.alliance);
+  }
+
+  private setEmotion(emotion: PersonaEmotion): void {
+    this.state.emotion = emotion;
+    this.state.emotionHistory.push(emotion);
+  }
+}
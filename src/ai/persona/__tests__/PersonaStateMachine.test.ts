@@ -0,0 +1,128 @@
+import { PersonaStateMachine, phaseForAlliance } from '../PersonaStateMachine';
+import { extractFacts } from '../factExtraction';
+import type { ClientProfile } from '@/lib/prompts';
+
+jest.mock('@/services/interventionOptimization', () => ({
+  InterventionOptimizationSystem: { getInstance: jest.fn() }
+}));
+
+const profile: ClientProfile = {
+  id: 'client-1',
+  name: 'Sam',
+  age: 41,
+  primary_issue: 'Grief',
+  complexity: 'high',
+  background: 'Lost their father last year.',
+  key_traits: ['guarded'],
+  behavioral_patterns: ['withdrawal'],
+  communication_style: 'Terse',
+  defense_mechanisms: ['denial', 'intellectualization'],
+  treatment_history: 'One prior course of CBT',
+  therapeutic_challenges: ['avoidance'],
+  description: 'Grieving client',
+  metadata: { history: { knownTriggers: ['father', 'hospital'] } }
+};
+
+describe('PersonaStateMachine', () => {
+  let persona: PersonaStateMachine;
+
+  beforeEach(() => {
+    persona = new PersonaStateMachine(profile, 'session-1');
+  });
+
+  it('should start guarded with profile facts established', () => {
+    const state = persona.getState();
+
+    expect(state.phase).toBe('guarded');
+    expect(state.facts).toEqual([expect.objectContaining({ key: 'age', value: '41', source: 'profile' })]);
+  });
+
+  describe('observeTherapistTurn', () => {
+    it('should record fired triggers and raise emotional intensity', () => {
+      const before = persona.getState().emotion.intensity;
+      const observation = persona.observeTherapistTurn('Can we talk about your father?');
+
+      expect(observation.firedTriggers).toEqual([expect.objectContaining({ trigger: 'father', turn: 1 })]);
+      expect(observation.emotion.intensity).toBe(before + 2);
+      expect(persona.buildContextPrompt()).toContain('Respond through your defense mechanisms (denial, intellectualization)');
+    });
+
+    it('should progress the alliance with attuned responses', () => {
+      for (let i = 0; i < 6; i++) {
+        persona.observeTherapistTurn('That sounds really hard. What was that like for you?');
+      }
+
+      expect(persona.getState().alliance).toBeCloseTo(0.62);
+      expect(persona.phase).toBe('working');
+    });
+
+    it('should lose alliance on ruptures', () => {
+      persona.observeTherapistTurn('You should just stop thinking about it.');
+
+      expect(persona.getState().alliance).toBeLessThan(0.2);
+    });
+  });
+
+  describe('observeClientTurn', () => {
+    it('should store disclosed facts and include them in later turns', () => {
+      persona.observeTherapistTurn('Tell me about yourself.');
+      const observation = persona.observeClientTurn("I work as a nurse. I live alone since the divorce.");
+
+      expect(observation.newFacts.map(f => [f.key, f.value])).toEqual([
+        ['occupation', 'nurse'],
+        ['living_situation', 'alone']
+      ]);
+      expect(persona.buildContextPrompt()).toContain('occupation: nurse; living situation: alone');
+    });
+
+    it('should flag responses that contradict established facts', () => {
+      persona.observeTherapistTurn('How old are you?');
+      const observation = persona.observeClientTurn("I'm 29, if that matters.");
+
+      expect(observation.contradictions).toHaveLength(1);
+      expect(observation.contradictions[0]).toMatchObject({
+        key: 'age',
+        established: { value: '41', source: 'profile' },
+        contradicting: { value: '29' }
+      });
+      // Contradicting facts never overwrite established ones
+      expect(persona.getState().facts.filter(f => f.key === 'age')).toHaveLength(1);
+    });
+
+    it('should track emotional state from the response', () => {
+      persona.observeTherapistTurn('How have you been?');
+      const observation = persona.observeClientTurn("Honestly I've been so sad and lonely.");
+
+      expect(observation.emotion.primaryEmotion).toBe('sadness');
+      expect(persona.getState().emotionHistory.length).toBeGreaterThan(1);
+    });
+  });
+
+  it('should resume from a persisted state', () => {
+    persona.observeTherapistTurn('Tell me about the hospital.');
+    persona.observeClientTurn('I have two kids.');
+    const restored = new PersonaStateMachine(profile, 'session-1', persona.getState());
+
+    expect(restored.getState()).toEqual(persona.getState());
+    expect(restored.observeClientTurn("I don't have any kids.").contradictions).toHaveLength(1);
+  });
+});
+
+describe('extractFacts', () => {
+  it('should ignore sentences without first-person facts', () => {
+    expect(extractFacts('My friend is 30. She works as a teacher.', 1)).toEqual([]);
+  });
+
+  it('should treat siblings mentions as compatible with later detail', () => {
+    expect(extractFacts("I'm an only child.", 1)).toEqual([expect.objectContaining({ key: 'siblings', value: '0' })]);
+  });
+});
+
+describe('phaseForAlliance', () => {
+  it('should map alliance scores to phases', () => {
+    expect(phaseForAlliance(0)).toBe('guarded');
+    expect(phaseForAlliance(0.4)).toBe('engaging');
+    expect(phaseForAlliance(0.7)).toBe('working');
+    expect(phaseForAlliance(0.95)).toBe('collaborative');
+  });
+});
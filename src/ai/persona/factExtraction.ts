@@ -0,0 +1,99 @@
+import { PersonaFact } from './types';
+
+interface FactRule {
+  key: string;
+  pattern: RegExp;
+  value: (match: RegExpMatchArray) => string;
+}
+
+const NUMBER_WORDS: Record<string, string> = {
+  no: '0', none: '0', zero: '0', one: '1', a: '1', an: '1', two: '2', three: '3', four: '4', five: '5'
+};
+
+const normalizeCount = (word: string) => NUMBER_WORDS[word.toLowerCase()] ?? word;
+
+/**
+ * Patterns for concrete biographical facts a simulated client may state about
+ * themselves. Only first-person statements are matched, so quoting others or
+ * hypotheticals do not register as disclosures.
+ */
+const FACT_RULES: FactRule[] = [
+  {
+    key: 'age',
+    pattern: /\bi(?:'m| am) (\d{1,2})(?: years old)?\b/i,
+    value: m => m[1]
+  },
+  {
+    key: 'occupation',
+    pattern: /\bi work as an? ([a-z][a-z -]{2,30}?)(?=[.,!?;]| at | for |$)/i,
+    value: m => m[1].trim().toLowerCase()
+  },
+  {
+    key: 'relationship_status',
+    pattern: /\bi(?:'m| am) (single|married|divorced|separated|widowed|engaged)\b/i,
+    value: m => m[1].toLowerCase()
+  },
+  {
+    key: 'relationship_status',
+    pattern: /\bmy (wife|husband)\b/i,
+    value: () => 'married'
+  },
+  {
+    key: 'children',
+    pattern: /\bi (?:have|got) (no|one|two|three|four|five|a|an|\d) (?:kids?|children|child|sons?|daughters?)\b/i,
+    value: m => normalizeCount(m[1])
+  },
+  {
+    key: 'children',
+    pattern: /\bi (?:don't|do not) have (?:any )?(?:kids|children)\b/i,
+    value: () => '0'
+  },
+  {
+    key: 'siblings',
+    pattern: /\bi(?:'m| am) an only child\b/i,
+    value: () => '0'
+  },
+  {
+    key: 'siblings',
+    pattern: /\bmy (?:older |younger |little |big )?(?:brother|sister)\b/i,
+    value: () => 'has siblings'
+  },
+  {
+    key: 'living_situation',
+    pattern: /\bi live (alone|by myself|with (?:my |a |an )?[a-z]+)\b/i,
+    value: m => (m[1].toLowerCase() === 'by myself' ? 'alone' : m[1].toLowerCase())
+  }
+];
+
+/**
+ * Values that are compatible even though they are not equal, e.g. a client
+ * who "has siblings" and later names how many.
+ */
+function isCompatible(key: string, a: string, b: string): boolean {
+  if (a === b) return true;
+  if (key === 'siblings') {
+    return (a === 'has siblings' && b !== '0') || (b === 'has siblings' && a !== '0');
+  }
+  return false;
+}
+
+export function extractFacts(text: string, turn: number): PersonaFact[] {
+  const facts: PersonaFact[] = [];
+  const sentences = (text.match(/[^.!?]+[.!?]*/g) || []).map(s => s.trim()).filter(Boolean);
+
+  for (const sentence of sentences) {
+    for (const rule of FACT_RULES) {
+      const match = sentence.match(rule.pattern);
+      if (!match) continue;
+      // One fact per key per sentence
+      if (facts.some(f => f.key === rule.key && f.evidence === sentence)) continue;
+      facts.push({ key: rule.key, value: rule.value(match), source: 'disclosed', turn, evidence: sentence });
+    }
+  }
+
+  return facts;
+}
+
+export function findConflict(facts: PersonaFact[], candidate: PersonaFact): PersonaFact | undefined {
+  return facts.find(f => f.key === candidate.key && !isCompatible(f.key, f.value, candidate.value));
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export { extractFacts, findConflict } from './factExtraction';
+export { PersonaStateMachine, phaseForAlliance } from './PersonaStateMachine';
+export { PersonaMemoryStore } from './PersonaMemoryStore';
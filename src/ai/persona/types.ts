@@ -0,0 +1,60 @@
+import type { EmotionAnalysis } from '@/services/chat/emotionalState';
+
+/**
+ * Stages of the therapeutic alliance, from first contact to active
+ * collaboration. The simulated client discloses more as it moves forward.
+ */
+export type AlliancePhase = 'guarded' | 'engaging' | 'working' | 'collaborative';
+
+export type FactSource = 'profile' | 'disclosed';
+
+export interface PersonaFact {
+  /** Normalized fact key, e.g. `age`, `occupation`, `children` */
+  key: string;
+  value: string;
+  source: FactSource;
+  /** Turn on which the fact was established (0 for profile facts) */
+  turn: number;
+  /** Sentence the fact was extracted from */
+  evidence: string;
+}
+
+export interface FiredTrigger {
+  trigger: string;
+  turn: number;
+  message: string;
+}
+
+export interface PersonaContradiction {
+  key: string;
+  established: PersonaFact;
+  contradicting: PersonaFact;
+  turn: number;
+}
+
+export interface PersonaEmotion extends EmotionAnalysis {
+  turn: number;
+}
+
+export interface PersonaState {
+  sessionId: string;
+  clientId: string;
+  turn: number;
+  /** 0-1, grows with empathic therapist turns and shrinks with ruptures */
+  alliance: number;
+  phase: AlliancePhase;
+  emotion: PersonaEmotion;
+  emotionHistory: PersonaEmotion[];
+  facts: PersonaFact[];
+  firedTriggers: FiredTrigger[];
+  contradictions: PersonaContradiction[];
+  updatedAt: string;
+}
+
+export interface TurnObservation {
+  emotion: PersonaEmotion;
+  firedTriggers: FiredTrigger[];
+  newFacts: PersonaFact[];
+  contradictions: PersonaContradiction[];
+  phaseChanged: boolean;
+}
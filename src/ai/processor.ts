@@ -1,6 +1,8 @@
 import { ClientProfile } from '@/types/clientprofile';
 import { analyzeMessage, AnalysisResult, MessageContext } from '@/ai/models/therapeuticPatterns';
-import { Message } from '@/ollama/process';
+import { Message, processWithOllama } from '@/ollama/process';
+import type { AlliancePhase, PersonaContradiction, PersonaStateMachine } from '@/ai/persona';
+import type { DifficultyController, DifficultyParameters } from '@/ai/difficulty';
 interface ProcessorOptions {
     temperature?: number;
     topP?: number;
@@ -14,16 +16,29 @@ export interface ProcessedResponse {
         emotions: Array<string>;
         intensity: number;
     };
+    consistency?: {
+        phase: AlliancePhase;
+        contradictions: Array<PersonaContradiction>;
+    };
+    difficulty?: DifficultyParameters;
+    parameters: Required<ProcessorOptions>;
 }
 export class TherapeuticAIProcessor {
     private clientProfile: ClientProfile;
+    private persona?: PersonaStateMachine;
+    private difficulty?: DifficultyController;
+    // Roleplay prompt rendered from the prompt registry, if the profile allowed it
+    private rolePrompt?: string;
     private emotionalState: {
         primary: string;
         intensity: number;
         triggers: Array<string>;
     };
-    constructor(clientProfile: ClientProfile) {
+    constructor(clientProfile: ClientProfile, persona?: PersonaStateMachine, difficulty?: DifficultyController, rolePrompt?: string) {
         this.clientProfile = clientProfile;
+        this.persona = persona;
+        this.difficulty = difficulty;
+        this.rolePrompt = rolePrompt;
         this.emotionalState = {
             primary: 'neutral',
             intensity: 5,
@@ -95,38 +110,36 @@ export class TherapeuticAIProcessor {
         const analysis = analyzeMessage(lastMessage.content, context);
         // Update emotional state based on analysis
         this.updateEmotionalState(analysis);
+        // Feed the persona memory (facts, triggers, alliance) into this turn
+        this.persona?.observeTherapistTurn(lastMessage.content);
+        // Adapt resistance and disclosure to how well the trainee is doing
+        await this.difficulty?.observeTherapistTurn(lastMessage.content, {
+            alliance: this.persona?.getState().alliance,
+            emotionalIntensity: this.emotionalState.intensity
+        });
         // Prepare system message with current emotional state
-        const systemMessage = {
+        const emotionalState = `currently feeling ${this.emotionalState.primary} 
+        with intensity ${this.emotionalState.intensity}/10. Respond authentically based on this emotional state.`;
+        const systemMessage: Message = {
             role: 'system',
-            content: `You are roleplaying as ${this.clientProfile.name}, currently feeling ${this.emotionalState.primary} 
-        with intensity ${this.emotionalState.intensity}/10. Respond authentically based on this emotional state.`
+            content: (this.rolePrompt
+                ? `${this.rolePrompt}\n\nYou are ${emotionalState}`
+                : `You are roleplaying as ${this.clientProfile.name}, ${emotionalState}`) +
+                (this.persona ? `\n\n${this.persona.buildContextPrompt()}` : '') +
+                (this.difficulty ? `\n\n${this.difficulty.buildPromptDirective()}` : '')
         };
         // Add system message to the conversation
         const enhancedMessages = [systemMessage, ...messages];
+        const parameters: Required<ProcessorOptions> = {
+            temperature: options.temperature || 0.9,
+            topP: options.topP || 0.95,
+            maxTokens: options.maxTokens || 1000
+        };
         try {
-            const response = await fetch('https://api.gemcity.xyz/api/chat', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    model: 'mistral',
-                    messages: enhancedMessages,
-                    stream: false,
-                    options: {
-                        temperature: options.temperature || 0.9,
-                        top_p: options.topP || 0.95,
-                        max_tokens: options.maxTokens || 1000
-                    }
-                }),
-            });
-            if (!response.ok) {
-                throw new Error('Failed to get response from AI service');
-            }
-            const data = await response.json();
-            const baseResponse = data.message?.content || '';
+            const baseResponse = await processWithOllama(enhancedMessages, parameters);
             // Adjust response based on analysis
             const adjustedResponse = this.adjustResponseBasedOnAnalysis(baseResponse, analysis);
+            const observation = this.persona?.observeClientTurn(baseResponse);
             return {
                 content: adjustedResponse,
                 analysis: {
@@ -134,7 +147,15 @@ export class TherapeuticAIProcessor {
                     defenses: analysis.defenses.map(d => d.name),
                     emotions: analysis.emotions.map(e => e.emotion),
                     intensity: this.emotionalState.intensity
-                }
+                },
+                parameters,
+                ...(this.persona && observation && {
+                    consistency: {
+                        phase: this.persona.phase,
+                        contradictions: observation.contradictions
+                    }
+                }),
+                ...(this.difficulty && { difficulty: this.difficulty.parameters })
             };
         }
         catch (error) {
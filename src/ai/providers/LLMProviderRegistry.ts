@@ -0,0 +1,265 @@
+import {
+  FeatureBinding,
+  LLMCompletion,
+  LLMFeature,
+  LLMMessage,
+  LLMProvider,
+  LLMRegistryConfig,
+  LLMRequestOptions,
+  LLMStreamChunk,
+  TokenUsage,
+  UsageRecord
+} from './types';
+import { LLMProviderError, LLMProviderNotFoundError, LLMTimeoutError } from './errors';
+import { loadLLMConfig, OLLAMA_BASE_URL, OPENAI_BASE_URL } from './config';
+import { OpenAICompatibleProvider } from './adapters/OpenAICompatibleProvider';
+import { OllamaProvider } from './adapters/OllamaProvider';
+import { FixtureProvider } from './adapters/FixtureProvider';
+
+const emptyUsage = (): UsageRecord => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  requests: 0,
+  failures: 0
+});
+
+/**
+ * Resolves the provider bound to each feature and applies the shared request
+ * policy (timeout, retry with exponential backoff and token accounting).
+ */
+export class LLMProviderRegistry {
+  private static instance: LLMProviderRegistry;
+  private providers: Map<string, LLMProvider> = new Map();
+  private config: LLMRegistryConfig;
+  private usage: Map<string, UsageRecord> = new Map();
+
+  constructor(config: LLMRegistryConfig = loadLLMConfig()) {
+    this.config = config;
+
+    // Initialize default providers
+    this.registerProvider(
+      new OpenAICompatibleProvider({
+        baseUrl: OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel: 'gpt-4'
+      })
+    );
+    this.registerProvider(new OllamaProvider({ baseUrl: OLLAMA_BASE_URL, defaultModel: 'mistral' }));
+    this.registerProvider(new FixtureProvider());
+  }
+
+  public static getInstance(): LLMProviderRegistry {
+    if (!LLMProviderRegistry.instance) {
+      LLMProviderRegistry.instance = new LLMProviderRegistry();
+    }
+    return LLMProviderRegistry.instance;
+  }
+
+  /**
+   * Register (or replace) a provider under its name
+   */
+  public registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  public getProvider(name: string): LLMProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new LLMProviderNotFoundError(name);
+    }
+    return provider;
+  }
+
+  /**
+   * Rebind a feature to a different provider or model at runtime
+   */
+  public configureFeature(feature: LLMFeature, binding: Partial<FeatureBinding>): void {
+    this.config.features[feature] = { ...this.config.features[feature], ...binding };
+  }
+
+  public getBinding(feature: LLMFeature): FeatureBinding {
+    return { ...this.config.features[feature] };
+  }
+
+  /**
+   * Run a completion for a feature using its bound provider
+   */
+  public async complete(
+    feature: LLMFeature,
+    messages: LLMMessage[],
+    options: LLMRequestOptions = {}
+  ): Promise<LLMCompletion> {
+    const binding = this.config.features[feature];
+    const provider = this.getProvider(binding.provider);
+    const requestOptions = this.mergeOptions(binding, options);
+
+    try {
+      const result = await this.withRetry(provider.name, async () => {
+        const { signal, dispose, timedOut } = this.createTimeout(requestOptions.signal);
+        try {
+          return await provider.complete(messages, { ...requestOptions, signal });
+        } catch (error) {
+          if (timedOut()) throw new LLMTimeoutError(provider.name, this.config.timeoutMs);
+          throw error;
+        } finally {
+          dispose();
+        }
+      });
+
+      this.recordUsage(feature, provider.name, result.usage);
+      return result;
+    } catch (error) {
+      this.recordFailure(feature, provider.name);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a completion for a feature. Retries only happen before the first
+   * chunk is yielded; the timeout applies to the gap between chunks.
+   */
+  public async *stream(
+    feature: LLMFeature,
+    messages: LLMMessage[],
+    options: LLMRequestOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    const binding = this.config.features[feature];
+    const provider = this.getProvider(binding.provider);
+    const requestOptions = this.mergeOptions(binding, options);
+
+    for (let attempt = 1; ; attempt++) {
+      const { signal, dispose, timedOut, refresh } = this.createTimeout(requestOptions.signal);
+      let started = false;
+
+      try {
+        for await (const chunk of provider.stream(messages, { ...requestOptions, signal })) {
+          started = true;
+          refresh();
+          if (chunk.done && chunk.usage) {
+            this.recordUsage(feature, provider.name, chunk.usage);
+          }
+          yield chunk;
+        }
+        return;
+      } catch (caught) {
+        const error = timedOut() ? new LLMTimeoutError(provider.name, this.config.timeoutMs) : caught;
+        if (started || !this.shouldRetry(error, attempt)) {
+          this.recordFailure(feature, provider.name);
+          throw error;
+        }
+        await this.delay(attempt);
+      } finally {
+        dispose();
+      }
+    }
+  }
+
+  /**
+   * Accumulated token usage, either for one feature or across all features
+   */
+  public getUsage(feature?: LLMFeature): UsageRecord {
+    const total = emptyUsage();
+    this.usage.forEach((record, key) => {
+      if (feature && !key.startsWith(`${feature}:`)) return;
+      total.promptTokens += record.promptTokens;
+      total.completionTokens += record.completionTokens;
+      total.totalTokens += record.totalTokens;
+      total.requests += record.requests;
+      total.failures += record.failures;
+    });
+    return total;
+  }
+
+  public getUsageByProvider(): Record<string, UsageRecord> {
+    return Object.fromEntries(this.usage.entries());
+  }
+
+  public resetUsage(): void {
+    this.usage.clear();
+  }
+
+  private mergeOptions(binding: FeatureBinding, options: LLMRequestOptions): LLMRequestOptions {
+    return {
+      model: binding.model,
+      temperature: binding.temperature,
+      topP: binding.topP,
+      maxTokens: binding.maxTokens,
+      ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined))
+    };
+  }
+
+  private async withRetry<T>(providerName: string, operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (!this.shouldRetry(error, attempt)) throw error;
+        await this.delay(attempt);
+      }
+    }
+  }
+
+  private shouldRetry(error: unknown, attempt: number): boolean {
+    return error instanceof LLMProviderError && error.retryable && attempt < this.config.retry.maxAttempts;
+  }
+
+  private delay(attempt: number): Promise<void> {
+    const { initialDelayMs, maxDelayMs } = this.config.retry;
+    const ms = Math.min(maxDelayMs, initialDelayMs * Math.pow(2, attempt - 1));
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private createTimeout(parent?: AbortSignal) {
+    const controller = new AbortController();
+    let expired = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const arm = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        expired = true;
+        controller.abort();
+      }, this.config.timeoutMs);
+    };
+    const onParentAbort = () => controller.abort();
+
+    parent?.addEventListener('abort', onParentAbort);
+    if (parent?.aborted) controller.abort();
+    arm();
+
+    return {
+      signal: controller.signal,
+      timedOut: () => expired,
+      refresh: arm,
+      dispose: () => {
+        if (timer) clearTimeout(timer);
+        parent?.removeEventListener('abort', onParentAbort);
+      }
+    };
+  }
+
+  private recordUsage(feature: LLMFeature, providerName: string, usage: TokenUsage): void {
+    const record = this.getRecord(feature, providerName);
+    record.promptTokens += usage.promptTokens;
+    record.completionTokens += usage.completionTokens;
+    record.totalTokens += usage.totalTokens;
+    record.requests += 1;
+  }
+
+  private recordFailure(feature: LLMFeature, providerName: string): void {
+    const record = this.getRecord(feature, providerName);
+    record.requests += 1;
+    record.failures += 1;
+  }
+
+  private getRecord(feature: LLMFeature, providerName: string): UsageRecord {
+    const key = `${feature}:${providerName}`;
+    let record = this.usage.get(key);
+    if (!record) {
+      record = emptyUsage();
+      this.usage.set(key, record);
+    }
+    return record;
+  }
+}
@@ -0,0 +1,195 @@
+import { LLMProviderRegistry } from '../LLMProviderRegistry';
+import { FixtureProvider } from '../adapters/FixtureProvider';
+import { loadLLMConfig } from '../config';
+import { LLMProviderError, LLMProviderNotFoundError, LLMTimeoutError } from '../errors';
+import { LLMCompletion, LLMMessage, LLMProvider, LLMRegistryConfig, LLMStreamChunk } from '../types';
+
+const createConfig = (): LLMRegistryConfig => ({
+  features: {
+    routing: { provider: 'fixture', model: 'fixture' },
+    roleplay: { provider: 'fixture', model: 'fixture', temperature: 0.9 },
+    summarization: { provider: 'fixture', model: 'fixture' }
+  },
+  retry: { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 2 },
+  timeoutMs: 50
+});
+
+class FlakyProvider implements LLMProvider {
+  public readonly name = 'flaky';
+  public attempts = 0;
+
+  constructor(private failures: number, private error: Error) {}
+
+  async complete(): Promise<LLMCompletion> {
+    this.attempts++;
+    if (this.attempts <= this.failures) throw this.error;
+    return {
+      content: 'ok',
+      model: 'flaky',
+      provider: this.name,
+      usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 }
+    };
+  }
+
+  async *stream(): AsyncGenerator<LLMStreamChunk> {
+    this.attempts++;
+    if (this.attempts <= this.failures) throw this.error;
+    yield { content: 'ok', done: false };
+    yield { content: '', done: true, usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 } };
+  }
+}
+
+class HangingProvider implements LLMProvider {
+  public readonly name = 'hanging';
+
+  complete(_messages: LLMMessage[], options: { signal?: AbortSignal } = {}): Promise<LLMCompletion> {
+    return new Promise((_, reject) => {
+      options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  }
+
+  async *stream(): AsyncGenerator<LLMStreamChunk> {
+    yield { content: '', done: true };
+  }
+}
+
+describe('LLMProviderRegistry', () => {
+  let registry: LLMProviderRegistry;
+  let fixture: FixtureProvider;
+
+  beforeEach(() => {
+    registry = new LLMProviderRegistry(createConfig());
+    fixture = new FixtureProvider([
+      { match: 'appointment', response: 'Appointment Service', systemIncludes: 'route' },
+      { match: /hello/i, response: 'Hi there, nice to meet you.' }
+    ]);
+    registry.registerProvider(fixture);
+  });
+
+  describe('complete', () => {
+    it('should resolve the provider bound to the feature', async () => {
+      const result = await registry.complete('routing', [
+        { role: 'system', content: 'Decide where to route this message' },
+        { role: 'user', content: 'I need to book an appointment' }
+      ]);
+
+      expect(result.content).toBe('Appointment Service');
+      expect(result.provider).toBe('fixture');
+    });
+
+    it('should return the same fallback for the same conversation', async () => {
+      const messages: LLMMessage[] = [{ role: 'user', content: 'Something unmatched' }];
+      const first = await registry.complete('roleplay', messages);
+      const second = await registry.complete('roleplay', messages);
+
+      expect(first.content).toBe(second.content);
+      expect(first.content).toMatch(/^\[fixture:[0-9a-f]{8}\] Something unmatched$/);
+    });
+
+    it('should throw when the bound provider is not registered', async () => {
+      registry.configureFeature('summarization', { provider: 'missing' });
+
+      await expect(
+        registry.complete('summarization', [{ role: 'user', content: 'hello' }])
+      ).rejects.toBeInstanceOf(LLMProviderNotFoundError);
+    });
+
+    it('should retry retryable errors with backoff', async () => {
+      const flaky = new FlakyProvider(2, new LLMProviderError('flaky', 'rate limited', { status: 429, retryable: true }));
+      registry.registerProvider(flaky);
+      registry.configureFeature('routing', { provider: 'flaky' });
+
+      const result = await registry.complete('routing', [{ role: 'user', content: 'hi' }]);
+
+      expect(result.content).toBe('ok');
+      expect(flaky.attempts).toBe(3);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const flaky = new FlakyProvider(1, new LLMProviderError('flaky', 'bad request', { status: 400 }));
+      registry.registerProvider(flaky);
+      registry.configureFeature('routing', { provider: 'flaky' });
+
+      await expect(registry.complete('routing', [{ role: 'user', content: 'hi' }])).rejects.toThrow('bad request');
+      expect(flaky.attempts).toBe(1);
+      expect(registry.getUsage('routing').failures).toBe(1);
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      registry.registerProvider(new HangingProvider());
+      registry.configureFeature('roleplay', { provider: 'hanging' });
+
+      await expect(
+        registry.complete('roleplay', [{ role: 'user', content: 'hi' }])
+      ).rejects.toBeInstanceOf(LLMTimeoutError);
+    });
+  });
+
+  describe('stream', () => {
+    it('should stream fixture responses that re-join to the full text', async () => {
+      const chunks: LLMStreamChunk[] = [];
+      for await (const chunk of registry.stream('roleplay', [{ role: 'user', content: 'Hello' }])) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map(c => c.content).join('')).toBe('Hi there, nice to meet you.');
+      expect(chunks[chunks.length - 1].done).toBe(true);
+    });
+
+    it('should retry before the first chunk is emitted', async () => {
+      const flaky = new FlakyProvider(1, new LLMProviderError('flaky', 'unavailable', { status: 503, retryable: true }));
+      registry.registerProvider(flaky);
+      registry.configureFeature('roleplay', { provider: 'flaky' });
+
+      const chunks: string[] = [];
+      for await (const chunk of registry.stream('roleplay', [{ role: 'user', content: 'hi' }])) {
+        chunks.push(chunk.content);
+      }
+
+      expect(chunks.join('')).toBe('ok');
+      expect(flaky.attempts).toBe(2);
+    });
+  });
+
+  describe('usage accounting', () => {
+    it('should accumulate token usage per feature', async () => {
+      await registry.complete('routing', [{ role: 'user', content: 'hello' }]);
+      await registry.complete('roleplay', [{ role: 'user', content: 'hello' }]);
+      await registry.complete('roleplay', [{ role: 'user', content: 'hello again' }]);
+
+      expect(registry.getUsage('routing').requests).toBe(1);
+      expect(registry.getUsage('roleplay').requests).toBe(2);
+      expect(registry.getUsage().totalTokens).toBeGreaterThan(0);
+      expect(registry.getUsageByProvider()['roleplay:fixture'].requests).toBe(2);
+
+      registry.resetUsage();
+      expect(registry.getUsage().requests).toBe(0);
+    });
+  });
+
+  describe('loadLLMConfig', () => {
+    it('should keep the historical defaults', () => {
+      const config = loadLLMConfig({});
+
+      expect(config.features.routing).toMatchObject({ provider: 'openai', model: 'gpt-4' });
+      expect(config.features.roleplay).toMatchObject({ provider: 'ollama', model: 'mistral' });
+    });
+
+    it('should let LLM_PROVIDER switch every feature to the fixture provider', () => {
+      const config = loadLLMConfig({ LLM_PROVIDER: 'fixture' });
+
+      expect(Object.values(config.features).every(f => f.provider === 'fixture')).toBe(true);
+    });
+
+    it('should apply per-feature overrides', () => {
+      const config = loadLLMConfig({
+        LLM_PROVIDER: 'fixture',
+        LLM_ROLEPLAY_PROVIDER: 'ollama',
+        LLM_ROLEPLAY_MODEL: 'llama3'
+      });
+
+      expect(config.features.roleplay).toMatchObject({ provider: 'ollama', model: 'llama3' });
+      expect(config.features.routing.provider).toBe('fixture');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { LLMCompletion, LLMMessage, LLMProvider, LLMRequestOptions, LLMStreamChunk } from '../types';
+import { estimateUsage } from '../utils';
+
+export interface LLMFixture {
+  /** Matched against the last user message; strings match as case-insensitive substrings */
+  match: string | RegExp;
+  response: string;
+  /** Optionally restrict the fixture to requests whose system prompt contains this text */
+  systemIncludes?: string;
+}
+
+export type FixtureFallback = (messages: LLMMessage[]) => string;
+
+/**
+ * Deterministic, network-free provider. Responses come from registered
+ * fixtures, or from a stable fallback derived from the conversation, so the
+ * same input always produces the same output. Used for offline CI runs.
+ */
+export class FixtureProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly calls: LLMMessage[][] = [];
+  private fixtures: LLMFixture[] = [];
+  private fallback: FixtureFallback;
+
+  constructor(fixtures: LLMFixture[] = [], fallback?: FixtureFallback, name = 'fixture') {
+    this.fixtures = [...fixtures];
+    this.fallback = fallback ?? FixtureProvider.defaultFallback;
+    this.name = name;
+  }
+
+  public addFixture(fixture: LLMFixture): void {
+    this.fixtures.push(fixture);
+  }
+
+  public clear(): void {
+    this.fixtures = [];
+    this.calls.length = 0;
+  }
+
+  public async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    this.calls.push(messages);
+    const content = this.resolve(messages);
+    return {
+      content,
+      model: options.model || 'fixture',
+      provider: this.name,
+      usage: estimateUsage(messages, content),
+      estimatedUsage: true
+    };
+  }
+
+  public async *stream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const { content, usage } = await this.complete(messages, options);
+    // Split on word boundaries while keeping whitespace so chunks re-join exactly
+    const parts = content.match(/\S+\s*|\s+/g) || [];
+    for (const part of parts) {
+      yield { content: part, done: false };
+    }
+    yield { content: '', done: true, usage };
+  }
+
+  private resolve(messages: LLMMessage[]): string {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    const text = lastUser?.content ?? '';
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+
+    const fixture = this.fixtures.find(f => {
+      if (f.systemIncludes && !system.includes(f.systemIncludes)) return false;
+      return typeof f.match === 'string'
+        ? text.toLowerCase().includes(f.match.toLowerCase())
+        : f.match.test(text);
+    });
+
+    return fixture ? fixture.response : this.fallback(messages);
+  }
+
+  private static defaultFallback(messages: LLMMessage[]): string {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    return `[fixture:${FixtureProvider.hash(messages)}] ${lastUser?.content ?? ''}`.trim();
+  }
+
+  private static hash(messages: LLMMessage[]): string {
+    // FNV-1a over the serialized conversation, stable across runs and platforms
+    const input = messages.map(m => `${m.role}:${m.content}`).join('\n');
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+}
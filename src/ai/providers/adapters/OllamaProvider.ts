@@ -0,0 +1,105 @@
+import { LLMCompletion, LLMMessage, LLMProvider, LLMRequestOptions, LLMStreamChunk, TokenUsage } from '../types';
+import { LLMProviderError } from '../errors';
+import { estimateUsage, readLines } from '../utils';
+
+export interface OllamaConfig {
+  baseUrl: string;
+  defaultModel: string;
+}
+
+/**
+ * Talks to the Ollama `/api/chat` endpoint.
+ */
+export class OllamaProvider implements LLMProvider {
+  public readonly name: string;
+  private config: OllamaConfig;
+
+  constructor(config: OllamaConfig, name = 'ollama') {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    this.name = name;
+  }
+
+  public async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    const response = await this.request(messages, options, false);
+    const data = await response.json();
+    const content: string = data.message?.content || '';
+    const usage = this.readUsage(data);
+
+    return {
+      content,
+      model: data.model || options.model || this.config.defaultModel,
+      provider: this.name,
+      usage: usage ?? estimateUsage(messages, content),
+      estimatedUsage: !usage
+    };
+  }
+
+  public async *stream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.request(messages, options, true);
+    if (!response.body) {
+      throw new LLMProviderError(this.name, 'Streaming response has no body');
+    }
+
+    let content = '';
+    for await (const line of readLines(response.body)) {
+      const data = JSON.parse(line);
+      if (data.error) {
+        throw new LLMProviderError(this.name, data.error);
+      }
+
+      const delta: string = data.message?.content || '';
+      if (delta) {
+        content += delta;
+        yield { content: delta, done: false };
+      }
+
+      if (data.done) {
+        yield { content: '', done: true, usage: this.readUsage(data) ?? estimateUsage(messages, content) };
+        return;
+      }
+    }
+
+    yield { content: '', done: true, usage: estimateUsage(messages, content) };
+  }
+
+  private readUsage(data: any): TokenUsage | null {
+    if (typeof data.prompt_eval_count !== 'number' && typeof data.eval_count !== 'number') {
+      return null;
+    }
+    const promptTokens = data.prompt_eval_count ?? 0;
+    const completionTokens = data.eval_count ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private async request(messages: LLMMessage[], options: LLMRequestOptions, stream: boolean): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        signal: options.signal,
+        body: JSON.stringify({
+          model: options.model || this.config.defaultModel,
+          messages,
+          stream,
+          options: {
+            temperature: options.temperature,
+            top_p: options.topP,
+            num_predict: options.maxTokens,
+            stop: options.stop
+          }
+        })
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      throw new LLMProviderError(this.name, `Network error: ${(error as Error).message}`, { retryable: true });
+    }
+
+    if (!response.ok) {
+      throw LLMProviderError.fromResponse(this.name, response.status, await response.text());
+    }
+    return response;
+  }
+}
@@ -0,0 +1,112 @@
+import { LLMCompletion, LLMMessage, LLMProvider, LLMRequestOptions, LLMStreamChunk } from '../types';
+import { LLMProviderError } from '../errors';
+import { estimateUsage, readLines } from '../utils';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  /** Extra headers, e.g. for Azure or gateway deployments */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Talks to any backend implementing the OpenAI `/chat/completions` API
+ * (OpenAI itself, Azure gateways, vLLM, LM Studio, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly name: string;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig, name = 'openai') {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    this.name = name;
+  }
+
+  public async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    const response = await this.request(messages, options, false);
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content ?? '';
+    const model: string = data.model || options.model || this.config.defaultModel;
+
+    if (data.usage) {
+      return {
+        content,
+        model,
+        provider: this.name,
+        usage: {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+          totalTokens: data.usage.total_tokens ?? 0
+        }
+      };
+    }
+
+    return {
+      content,
+      model,
+      provider: this.name,
+      usage: estimateUsage(messages, content),
+      estimatedUsage: true
+    };
+  }
+
+  public async *stream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.request(messages, options, true);
+    if (!response.body) {
+      throw new LLMProviderError(this.name, 'Streaming response has no body');
+    }
+
+    let content = '';
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') break;
+
+      const data = JSON.parse(payload);
+      const delta: string = data.choices?.[0]?.delta?.content ?? '';
+      if (delta) {
+        content += delta;
+        yield { content: delta, done: false };
+      }
+    }
+
+    yield { content: '', done: true, usage: estimateUsage(messages, content) };
+  }
+
+  private async request(messages: LLMMessage[], options: LLMRequestOptions, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers
+    };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: options.signal,
+        body: JSON.stringify({
+          model: options.model || this.config.defaultModel,
+          messages,
+          stream,
+          temperature: options.temperature,
+          top_p: options.topP,
+          max_tokens: options.maxTokens,
+          stop: options.stop
+        })
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      throw new LLMProviderError(this.name, `Network error: ${(error as Error).message}`, { retryable: true });
+    }
+
+    if (!response.ok) {
+      throw LLMProviderError.fromResponse(this.name, response.status, await response.text());
+    }
+    return response;
+  }
+}
@@ -0,0 +1,68 @@
+import { FeatureBinding, LLMFeature, LLMProviderType, LLMRegistryConfig } from './types';
+
+type LLMEnv = Record<string, string | undefined>;
+
+const DEFAULT_MODELS: Record<LLMProviderType, string> = {
+  openai: 'gpt-4',
+  ollama: 'mistral',
+  fixture: 'fixture'
+};
+
+const DEFAULT_FEATURE_PROVIDERS: Record<LLMFeature, LLMProviderType> = {
+  routing: 'openai',
+  roleplay: 'ollama',
+  summarization: 'openai'
+};
+
+const DEFAULT_FEATURE_SAMPLING: Record<LLMFeature, Pick<FeatureBinding, 'temperature' | 'topP'>> = {
+  routing: { temperature: 0.7 },
+  roleplay: { temperature: 0.9, topP: 0.95 },
+  summarization: { temperature: 0.3 }
+};
+
+export const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+export const OLLAMA_BASE_URL =
+  process.env.OLLAMA_BASE_URL || process.env.NEXT_PUBLIC_OLLAMA_URL || 'https://api.gemcity.xyz';
+
+function readInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function resolveBinding(feature: LLMFeature, env: LLMEnv): FeatureBinding {
+  const prefix = `LLM_${feature.toUpperCase()}`;
+  const provider = env[`${prefix}_PROVIDER`] || env.LLM_PROVIDER || DEFAULT_FEATURE_PROVIDERS[feature];
+  const model =
+    env[`${prefix}_MODEL`] ||
+    DEFAULT_MODELS[provider as LLMProviderType] ||
+    DEFAULT_MODELS[DEFAULT_FEATURE_PROVIDERS[feature]];
+
+  return {
+    provider,
+    model,
+    ...DEFAULT_FEATURE_SAMPLING[feature]
+  };
+}
+
+/**
+ * Build the registry configuration from environment variables.
+ *
+ * - `LLM_PROVIDER` sets the provider for every feature (e.g. `fixture` in CI)
+ * - `LLM_<FEATURE>_PROVIDER` / `LLM_<FEATURE>_MODEL` override a single feature
+ * - `LLM_TIMEOUT_MS` / `LLM_MAX_ATTEMPTS` tune the shared request policy
+ */
+export function loadLLMConfig(env: LLMEnv = process.env): LLMRegistryConfig {
+  return {
+    features: {
+      routing: resolveBinding('routing', env),
+      roleplay: resolveBinding('roleplay', env),
+      summarization: resolveBinding('summarization', env)
+    },
+    retry: {
+      maxAttempts: readInt(env.LLM_MAX_ATTEMPTS, 3),
+      initialDelayMs: 500,
+      maxDelayMs: 8000
+    },
+    timeoutMs: readInt(env.LLM_TIMEOUT_MS, 60000)
+  };
+}
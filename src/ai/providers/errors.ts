@@ -0,0 +1,34 @@
+export class LLMProviderError extends Error {
+  public readonly provider: string;
+  public readonly status?: number;
+  public readonly retryable: boolean;
+
+  constructor(provider: string, message: string, options: { status?: number; retryable?: boolean } = {}) {
+    super(`[${provider}] ${message}`);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+
+  static fromResponse(provider: string, status: number, body: string): LLMProviderError {
+    return new LLMProviderError(provider, `Request failed with status ${status}: ${body}`, {
+      status,
+      retryable: status === 408 || status === 429 || status >= 500
+    });
+  }
+}
+
+export class LLMProviderNotFoundError extends LLMProviderError {
+  constructor(providerName: string) {
+    super(providerName, `LLM provider not registered: ${providerName}`);
+    this.name = 'LLMProviderNotFoundError';
+  }
+}
+
+export class LLMTimeoutError extends LLMProviderError {
+  constructor(provider: string, timeoutMs: number) {
+    super(provider, `Request timed out after ${timeoutMs}ms`, { retryable: true });
+    this.name = 'LLMTimeoutError';
+  }
+}
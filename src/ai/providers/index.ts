@@ -0,0 +1,8 @@
+export * from './types';
+export * from './errors';
+export { loadLLMConfig } from './config';
+export { estimateTokens, estimateUsage } from './utils';
+export { LLMProviderRegistry } from './LLMProviderRegistry';
+export { OpenAICompatibleProvider, type OpenAICompatibleConfig } from './adapters/OpenAICompatibleProvider';
+export { OllamaProvider, type OllamaConfig } from './adapters/OllamaProvider';
+export { FixtureProvider, type LLMFixture, type FixtureFallback } from './adapters/FixtureProvider';
@@ -0,0 +1,84 @@
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+/**
+ * Platform features that talk to a language model. Each feature can be bound
+ * to its own provider and model so deployments can mix backends.
+ */
+export type LLMFeature = 'routing' | 'roleplay' | 'summarization';
+
+export type LLMProviderType = 'openai' | 'ollama' | 'fixture';
+
+export interface LLMRequestOptions {
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  provider: string;
+  usage: TokenUsage;
+  /** True when usage was estimated locally because the backend did not report it */
+  estimatedUsage?: boolean;
+}
+
+export interface LLMStreamChunk {
+  content: string;
+  done: boolean;
+  /** Only present on the final chunk */
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Run a chat completion and return the full response
+   */
+  complete(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMCompletion>;
+
+  /**
+   * Run a chat completion and yield the response as it is generated
+   */
+  stream(messages: LLMMessage[], options?: LLMRequestOptions): AsyncIterable<LLMStreamChunk>;
+}
+
+export interface FeatureBinding {
+  provider: string;
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface LLMRegistryConfig {
+  features: Record<LLMFeature, FeatureBinding>;
+  retry: RetryPolicy;
+  timeoutMs: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  requests: number;
+  failures: number;
+}
@@ -0,0 +1,52 @@
+import { LLMMessage, TokenUsage } from './types';
+
+/**
+ * Rough token estimate (~4 characters per token) used when a backend does not
+ * report usage, e.g. for streamed responses or the fixture provider.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateUsage(messages: LLMMessage[], completion: string): TokenUsage {
+  // Each message carries a few tokens of role/formatting overhead
+  const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content) + 4, 0);
+  const completionTokens = estimateTokens(completion);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens
+  };
+}
+
+/**
+ * Split a streamed HTTP body into lines. Both the OpenAI SSE format and the
+ * Ollama NDJSON format are line oriented.
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line) yield line;
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+
+    const rest = buffer.trim();
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,129 @@
+import { AuditService } from '@/services/audit/AuditService';
+import { ToolError, ToolNotFoundError, ToolPermissionError, ToolValidationError } from './errors';
+import { ToolCall, ToolContext, ToolDefinition, ToolDescriptor, ToolResult } from './types';
+
+type Auditor = Pick<AuditService, 'logEvent'>;
+
+/**
+ * Registry and executor for assistant tools. Every invocation, allowed or
+ * not, is written to the audit log.
+ */
+export class ToolRegistry {
+  private static instance: ToolRegistry;
+  private tools: Map<string, ToolDefinition> = new Map();
+  private readonly auditor: Auditor;
+
+  constructor(auditor: Auditor = AuditService.getInstance()) {
+    this.auditor = auditor;
+  }
+
+  public static getInstance(): ToolRegistry {
+    if (!ToolRegistry.instance) {
+      ToolRegistry.instance = new ToolRegistry();
+    }
+    return ToolRegistry.instance;
+  }
+
+  public register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new ToolError(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  public get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Tools the given role may call, described for the model
+   */
+  public describeFor(role: ToolContext['role']): ToolDescriptor[] {
+    return Array.from(this.tools.values())
+      .filter(tool => tool.roles.includes(role))
+      .map(tool => ({ name: tool.name, description: tool.description, schema: tool.parameters }));
+  }
+
+  /**
+   * Run a tool call. Failures come back as results so the model can
+   * recover; they are never thrown.
+   */
+  public async execute(call: ToolCall, context: ToolContext): Promise<ToolResult> {
+    const startTime = Date.now();
+    let rawArgs: unknown;
+    let result: ToolResult;
+
+    try {
+      const tool = this.tools.get(call.name);
+      if (!tool) throw new ToolNotFoundError(call.name);
+      if (!tool.roles.includes(context.role)) throw new ToolPermissionError(call.name, context.role);
+
+      rawArgs = this.parseArguments(call);
+      const args = tool.parameters.safeParse(rawArgs);
+      if (!args.success) {
+        throw new ToolValidationError(
+          call.name,
+          args.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        );
+      }
+
+      result = { toolCallId: call.id, name: call.name, ok: true, result: await tool.execute(args.data, context) };
+    } catch (error) {
+      const toolError = error instanceof ToolError
+        ? error
+        : new ToolError(error instanceof Error ? error.message : 'Tool execution failed');
+      result = {
+        toolCallId: call.id,
+        name: call.name,
+        ok: false,
+        error: { code: toolError.code, message: toolError.message }
+      };
+    }
+
+    await this.audit(call, context, rawArgs, result, Date.now() - startTime);
+    return result;
+  }
+
+  public async executeAll(calls: ToolCall[], context: ToolContext): Promise<ToolResult[]> {
+    return Promise.all(calls.map(call => this.execute(call, context)));
+  }
+
+  private parseArguments(call: ToolCall): unknown {
+    if (typeof call.arguments !== 'string') return call.arguments ?? {};
+    try {
+      return JSON.parse(call.arguments || '{}');
+    } catch {
+      throw new ToolValidationError(call.name, ['arguments are not valid JSON']);
+    }
+  }
+
+  private async audit(
+    call: ToolCall,
+    context: ToolContext,
+    args: unknown,
+    result: ToolResult,
+    durationMs: number
+  ): Promise<void> {
+    try {
+      await this.auditor.logEvent({
+        type: 'tool_call',
+        action: call.name,
+        resourceType: 'chat_tool',
+        resourceId: call.id,
+        userId: context.userId,
+        metadata: {
+          role: context.role,
+          requestId: context.requestId,
+          threadId: context.threadId,
+          // Argument names only: values can contain PHI
+          argumentKeys: args && typeof args === 'object' ? Object.keys(args) : undefined,
+          outcome: result.ok ? 'success' : result.error.code,
+          durationMs
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Failed to audit tool call:', error);
+    }
+  }
+}
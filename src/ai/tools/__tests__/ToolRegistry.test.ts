@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import { ToolRegistry } from '../ToolRegistry';
+import { createPlatformTools, PlatformToolDependencies } from '../platformTools';
+import type { ToolContext, ToolDefinition } from '../types';
+
+jest.mock('@/services/audit/AuditService', () => ({
+  AuditService: { getInstance: jest.fn() }
+}));
+
+const therapist: ToolContext = { userId: 'therapist-1', role: 'therapist', requestId: 'req-1', threadId: 'thread-1' };
+const client: ToolContext = { ...therapist, userId: 'client-1', role: 'client' };
+
+const echoTool: ToolDefinition = {
+  name: 'echo',
+  description: 'Echo text back',
+  parameters: z.object({ text: z.string().min(1), times: z.number().int().default(1) }),
+  roles: ['therapist'],
+  execute: async ({ text, times }) => Array(times).fill(text).join(' ')
+};
+
+/** Minimal chainable stand-in for the Supabase query builder */
+const supabaseReturning = (data: unknown[]) => {
+  const query: any = {};
+  ['select', 'eq', 'or', 'limit'].forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.then = (resolve: (value: unknown) => unknown) => resolve({ data, error: null });
+  return { from: jest.fn(() => query), query };
+};
+
+describe('ToolRegistry', () => {
+  let auditor: { logEvent: jest.Mock };
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    auditor = { logEvent: jest.fn().mockResolvedValue(undefined) };
+    registry = new ToolRegistry(auditor);
+    registry.register(echoTool);
+  });
+
+  it('should reject duplicate registrations', () => {
+    expect(() => registry.register(echoTool)).toThrow(/already registered/);
+  });
+
+  it('should only describe tools the role may call', () => {
+    expect(registry.describeFor('therapist').map(t => t.name)).toEqual(['echo']);
+    expect(registry.describeFor('client')).toEqual([]);
+  });
+
+  it('should validate arguments, apply defaults and execute', async () => {
+    const result = await registry.execute({ id: 'call-1', name: 'echo', arguments: '{"text":"hi","times":2}' }, therapist);
+
+    expect(result).toEqual({ toolCallId: 'call-1', name: 'echo', ok: true, result: 'hi hi' });
+  });
+
+  it('should return validation failures instead of throwing', async () => {
+    const result = await registry.execute({ id: 'call-2', name: 'echo', arguments: { text: '' } }, therapist);
+
+    expect(result.ok).toBe(false);
+    expect(result.ok === false && result.error.code).toBe('invalid_arguments');
+    expect(result.ok === false && result.error.message).toContain('text:');
+  });
+
+  it('should reject malformed JSON arguments', async () => {
+    const result = await registry.execute({ id: 'call-3', name: 'echo', arguments: '{text' }, therapist);
+
+    expect(result.ok === false && result.error.code).toBe('invalid_arguments');
+  });
+
+  it('should enforce role permissions before running the tool', async () => {
+    const execute = jest.spyOn(echoTool, 'execute');
+
+    const result = await registry.execute({ id: 'call-4', name: 'echo', arguments: { text: 'hi' } }, client);
+
+    expect(result.ok === false && result.error.code).toBe('forbidden');
+    expect(execute).not.toHaveBeenCalled();
+    execute.mockRestore();
+  });
+
+  it('should report unknown tools', async () => {
+    const result = await registry.execute({ id: 'call-5', name: 'nope', arguments: {} }, therapist);
+
+    expect(result.ok === false && result.error.code).toBe('not_found');
+  });
+
+  it('should audit every call without logging argument values', async () => {
+    await registry.execute({ id: 'call-6', name: 'echo', arguments: { text: 'secret PHI' } }, therapist);
+    await registry.execute({ id: 'call-7', name: 'echo', arguments: { text: 'x' } }, client);
+
+    expect(auditor.logEvent).toHaveBeenCalledTimes(2);
+    const [allowed, denied] = auditor.logEvent.mock.calls.map(([event]) => event);
+    expect(allowed).toMatchObject({
+      type: 'tool_call',
+      action: 'echo',
+      resourceType: 'chat_tool',
+      resourceId: 'call-6',
+      userId: 'therapist-1',
+      metadata: { role: 'therapist', requestId: 'req-1', argumentKeys: ['text'], outcome: 'success' }
+    });
+    expect(JSON.stringify(allowed)).not.toContain('secret PHI');
+    expect(denied.metadata.outcome).toBe('forbidden');
+  });
+
+  it('should still return results when auditing fails', async () => {
+    auditor.logEvent.mockRejectedValue(new Error('audit store down'));
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await registry.execute({ id: 'call-8', name: 'echo', arguments: { text: 'hi' } }, therapist);
+
+    expect(result.ok).toBe(true);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('platform tools', () => {
+  const build = (supabase: any, overrides: Partial<PlatformToolDependencies> = {}) => {
+    const registry = new ToolRegistry({ logEvent: jest.fn().mockResolvedValue(undefined) });
+    const deps: PlatformToolDependencies = {
+      supabase,
+      calendar: () => ({ getAvailableSlots: jest.fn().mockResolvedValue([]) }),
+      riskAssessments: () => ({ getLatestAssessment: jest.fn().mockResolvedValue({ overallRisk: 'high' }) }),
+      messageSearch: () => ({ searchMessages: jest.fn().mockResolvedValue([]) }),
+      ...overrides
+    };
+    createPlatformTools(deps).forEach(tool => registry.register(tool));
+    return registry;
+  };
+
+  it('should pass validated slot queries to CalendarService', async () => {
+    const getAvailableSlots = jest.fn().mockResolvedValue([{ startTime: 'a' }]);
+    const registry = build(supabaseReturning([]), { calendar: () => ({ getAvailableSlots }) });
+
+    const result = await registry.execute(
+      { id: 'c1', name: 'get_available_slots', arguments: { therapistId: 't1', startDate: '2024-04-01', endDate: '2024-04-08' } },
+      client
+    );
+
+    expect(result.ok).toBe(true);
+    expect(getAvailableSlots).toHaveBeenCalledWith('google', 't1', new Date('2024-04-01'), new Date('2024-04-08'), 'UTC');
+  });
+
+  it('should reject slot ranges that are too long', async () => {
+    const registry = build(supabaseReturning([]));
+
+    const result = await registry.execute(
+      { id: 'c2', name: 'get_available_slots', arguments: { therapistId: 't1', startDate: '2024-01-01', endDate: '2024-06-01' } },
+      client
+    );
+
+    expect(result.ok === false && result.error.message).toContain('at most 31 days');
+  });
+
+  it('should only return risk assessments to treating therapists', async () => {
+    const getLatestAssessment = jest.fn().mockResolvedValue({ overallRisk: 'high' });
+
+    const unrelated = build(supabaseReturning([]), { riskAssessments: () => ({ getLatestAssessment }) });
+    const denied = await unrelated.execute({ id: 'r1', name: 'get_risk_assessment', arguments: { clientId: 'c9' } }, therapist);
+    expect(denied.ok === false && denied.error.code).toBe('forbidden');
+    expect(getLatestAssessment).not.toHaveBeenCalled();
+
+    const treating = build(supabaseReturning([{ id: 's1' }]), { riskAssessments: () => ({ getLatestAssessment }) });
+    const allowed = await treating.execute({ id: 'r2', name: 'get_risk_assessment', arguments: { clientId: 'c9' } }, therapist);
+    expect(allowed).toMatchObject({ ok: true, result: { overallRisk: 'high' } });
+  });
+
+  it('should scope message search to the current thread by default', async () => {
+    const searchMessages = jest.fn().mockResolvedValue([]);
+    const supabase = supabaseReturning([{ thread_id: 'thread-1' }]);
+    const registry = build(supabase, { messageSearch: () => ({ searchMessages }) });
+
+    await registry.execute({ id: 's1', name: 'search_messages', arguments: { query: 'sleep' } }, client);
+
+    // Searches run through the caller's client, like the membership check
+    expect(searchMessages).toHaveBeenCalledWith(
+      expect.objectContaining({ query: 'sleep', thread_id: 'thread-1', requester_id: 'client-1', limit: 10 }),
+      supabase
+    );
+  });
+
+  it('should only search threads the caller takes part in', async () => {
+    const searchMessages = jest.fn().mockResolvedValue([]);
+    const registry = build(supabaseReturning([]), { messageSearch: () => ({ searchMessages }) });
+
+    const denied = await registry.execute(
+      { id: 's2', name: 'search_messages', arguments: { query: 'sleep', threadId: 'thread-9' } },
+      client
+    );
+    const unscoped = await registry.execute(
+      { id: 's3', name: 'search_messages', arguments: { query: 'sleep' } },
+      { ...client, threadId: undefined }
+    );
+
+    expect(denied.ok === false && denied.error.code).toBe('forbidden');
+    expect(unscoped.ok === false && unscoped.error.code).toBe('invalid_arguments');
+    expect(searchMessages).not.toHaveBeenCalled();
+  });
+
+  it('should strip filter syntax from case study queries', async () => {
+    const supabase = supabaseReturning([{ id: 'cs1', title: 'Grief' }]);
+    const registry = build(supabase);
+
+    const result = await registry.execute(
+      { id: 'l1', name: 'lookup_case_study', arguments: { query: 'grief),id.eq.(1' } },
+      therapist
+    );
+
+    expect(result).toMatchObject({ ok: true, result: [{ id: 'cs1' }] });
+    expect(supabase.query.or.mock.calls[0][0]).not.toMatch(/[()]/);
+  });
+});
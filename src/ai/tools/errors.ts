@@ -0,0 +1,35 @@
+import type { ToolErrorCode, ToolRole } from './types';
+
+export class ToolError extends Error {
+  public readonly code: ToolErrorCode;
+
+  constructor(message: string, code: ToolErrorCode = 'execution_failed') {
+    super(message);
+    this.name = 'ToolError';
+    this.code = code;
+  }
+}
+
+export class ToolNotFoundError extends ToolError {
+  constructor(toolName: string) {
+    super(`Tool not found: ${toolName}`, 'not_found');
+    this.name = 'ToolNotFoundError';
+  }
+}
+
+export class ToolPermissionError extends ToolError {
+  constructor(toolName: string, role: ToolRole) {
+    super(`Role ${role} may not call ${toolName}`, 'forbidden');
+    this.name = 'ToolPermissionError';
+  }
+}
+
+export class ToolValidationError extends ToolError {
+  public readonly issues: string[];
+
+  constructor(toolName: string, issues: string[]) {
+    super(`Invalid arguments for ${toolName}: ${issues.join('; ')}`, 'invalid_arguments');
+    this.name = 'ToolValidationError';
+    this.issues = issues;
+  }
+}
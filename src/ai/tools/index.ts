@@ -0,0 +1,4 @@
+export * from './types';
+export * from './errors';
+export { ToolRegistry } from './ToolRegistry';
+export { createPlatformTools, type PlatformToolDependencies } from './platformTools';
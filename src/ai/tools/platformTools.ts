@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CalendarService } from '@/services/calendar/CalendarService';
+import type { RiskAssessmentService } from '@/services/risk/RiskAssessmentService';
+import type { MessageSearchService } from '@/services/chat/MessageSearchService';
+import type { CaseStudy } from '@/types/education';
+import { ToolError } from './errors';
+import { ToolContext, ToolDefinition } from './types';
+
+/**
+ * Services are resolved lazily so a request that calls no tools never
+ * constructs them. `supabase` is the caller's request-scoped client: the
+ * relationship checks and message search rely on RLS seeing the caller.
+ */
+export interface PlatformToolDependencies {
+  supabase: SupabaseClient;
+  calendar: () => Pick<CalendarService, 'getAvailableSlots'>;
+  riskAssessments: () => Pick<RiskAssessmentService, 'getLatestAssessment'>;
+  messageSearch: () => Pick<MessageSearchService, 'searchMessages'>;
+}
+
+const MAX_SLOT_RANGE_DAYS = 31;
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'must be an ISO 8601 date');
+
+/**
+ * Therapists may only read risk data for clients they have a session with
+ */
+async function assertTreatingTherapist(deps: PlatformToolDependencies, clientId: string, context: ToolContext) {
+  if (context.role === 'admin') return;
+
+  const { data, error } = await deps.supabase
+    .from('sessions')
+    .select('id')
+    .eq('therapist_id', context.userId)
+    .eq('client_id', clientId)
+    .limit(1);
+
+  if (error) throw new ToolError(`Failed to verify client relationship: ${error.message}`);
+  if (!data || data.length === 0) {
+    throw new ToolError('No treatment relationship with this client', 'forbidden');
+  }
+}
+
+/**
+ * Callers may only search threads they take part in
+ */
+async function assertThreadParticipant(deps: PlatformToolDependencies, threadId: string, context: ToolContext) {
+  if (context.role === 'admin') return;
+
+  const { data, error } = await deps.supabase
+    .from('thread_participants')
+    .select('thread_id')
+    .eq('thread_id', threadId)
+    .eq('user_id', context.userId)
+    .limit(1);
+
+  if (error) throw new ToolError(`Failed to verify thread membership: ${error.message}`);
+  if (!data || data.length === 0) {
+    throw new ToolError('Not a participant in this thread', 'forbidden');
+  }
+}
+
+export function createPlatformTools(deps: PlatformToolDependencies): ToolDefinition[] {
+  const lookupCaseStudy: ToolDefinition = {
+    name: 'lookup_case_study',
+    description: 'Find training case studies by id or by keywords in the title and description.',
+    parameters: z
+      .object({
+        id: z.string().optional(),
+        query: z.string().min(2).max(200).optional(),
+        limit: z.number().int().min(1).max(10).default(3)
+      })
+      .refine(args => args.id || args.query, 'provide an id or a query'),
+    roles: ['therapist', 'instructor', 'admin'],
+    async execute({ id, query, limit }) {
+      // Characters with meaning in PostgREST filter syntax
+      const term = (query || '').replace(/[%,()*\\]/g, ' ').trim();
+      let request = deps.supabase
+        .from('case_studies')
+        .select('id, title, description, clientProfile, therapeuticProcess, learningObjectives');
+      request = id
+        ? request.eq('id', id)
+        : request.or(`title.ilike.%${term}%,description.ilike.%${term}%`);
+
+      const { data, error } = await request.limit(limit);
+      if (error) throw new ToolError(`Case study lookup failed: ${error.message}`);
+      return (data || []) as Partial<CaseStudy>[];
+    }
+  };
+
+  const getAvailableSlots: ToolDefinition = {
+    name: 'get_available_slots',
+    description: "List a therapist's open appointment slots between two dates, in the caller's timezone.",
+    parameters: z
+      .object({
+        therapistId: z.string().min(1),
+        provider: z.enum(['google', 'outlook', 'icloud']).default('google'),
+        startDate: isoDate,
+        endDate: isoDate,
+        timezone: z.string().min(1).default('UTC')
+      })
+      .refine(args => Date.parse(args.endDate) > Date.parse(args.startDate), 'endDate must be after startDate')
+      .refine(
+        args => Date.parse(args.endDate) - Date.parse(args.startDate) <= MAX_SLOT_RANGE_DAYS * 86400000,
+        `range must be at most ${MAX_SLOT_RANGE_DAYS} days`
+      ),
+    roles: ['client', 'therapist', 'admin'],
+    async execute({ therapistId, provider, startDate, endDate, timezone }) {
+      const slots = await deps
+        .calendar()
+        .getAvailableSlots(provider, therapistId, new Date(startDate), new Date(endDate), timezone);
+      return slots;
+    }
+  };
+
+  const getRiskAssessment: ToolDefinition = {
+    name: 'get_risk_assessment',
+    description: "Fetch a client's most recent risk assessment, including overall risk and safety plan.",
+    parameters: z.object({ clientId: z.string().min(1) }),
+    roles: ['therapist', 'admin'],
+    async execute({ clientId }, context) {
+      await assertTreatingTherapist(deps, clientId, context);
+      const assessment = await deps.riskAssessments().getLatestAssessment(clientId);
+      return assessment ?? { clientId, found: false };
+    }
+  };
+
+  const searchMessages: ToolDefinition = {
+    name: 'search_messages',
+    description: 'Full-text search over chat messages in a thread the caller takes part in.',
+    parameters: z.object({
+      query: z.string().min(2).max(200),
+      threadId: z.string().optional(),
+      startDate: isoDate.optional(),
+      endDate: isoDate.optional(),
+      limit: z.number().int().min(1).max(20).default(10)
+    }),
+    roles: ['client', 'therapist', 'admin'],
+    async execute({ query, threadId, startDate, endDate, limit }, context) {
+      const scopedThreadId = threadId ?? context.threadId;
+      if (scopedThreadId) {
+        await assertThreadParticipant(deps, scopedThreadId, context);
+      } else if (context.role !== 'admin') {
+        throw new ToolError('Message search needs a thread to search in', 'invalid_arguments');
+      }
+
+      return deps.messageSearch().searchMessages({
+        query,
+        thread_id: scopedThreadId,
+        requester_id: context.userId,
+        start_date: startDate,
+        end_date: endDate,
+        limit
+      }, deps.supabase);
+    }
+  };
+
+  return [lookupCaseStudy, getAvailableSlots, getRiskAssessment, searchMessages];
+}
@@ -0,0 +1,45 @@
+import type { z } from 'zod';
+import type { UserRole } from '@/types/user';
+
+export type ToolRole = UserRole | 'instructor';
+
+export interface ToolContext {
+  userId: string;
+  role: ToolRole;
+  requestId: string;
+  threadId?: string;
+}
+
+/**
+ * A server-side function the assistant may call. Arguments are validated
+ * against `parameters` before `execute` runs, and only callers whose role
+ * is listed in `roles` may invoke it.
+ */
+export interface ToolDefinition<TArgs extends z.ZodTypeAny = z.ZodTypeAny, TResult = unknown> {
+  name: string;
+  description: string;
+  parameters: TArgs;
+  roles: readonly ToolRole[];
+  execute(args: z.infer<TArgs>, context: ToolContext): Promise<TResult>;
+}
+
+/** A tool invocation requested by the model */
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Parsed arguments, or the raw JSON string the model produced */
+  arguments: unknown;
+}
+
+export type ToolErrorCode = 'not_found' | 'forbidden' | 'invalid_arguments' | 'execution_failed';
+
+export type ToolResult =
+  | { toolCallId: string; name: string; ok: true; result: unknown }
+  | { toolCallId: string; name: string; ok: false; error: { code: ToolErrorCode; message: string } };
+
+/** Shape accepted by LangChain's `bindTools` */
+export interface ToolDescriptor {
+  name: string;
+  description: string;
+  schema: z.ZodTypeAny;
+}
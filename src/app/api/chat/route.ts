@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { ChatOpenAI } from "@langchain/openai";
-import { HumanMessage } from "@langchain/core/messages";
+import { AIMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { StreamingTextResponse } from "@/lib/streaming-text-response";
 import { createRouteHandlerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
@@ -44,6 +44,7 @@ import { ChatService } from "@/services/chat/ChatService";
 import { SecurityAuditService } from "@/services/SecurityAuditService";
 import { cache as reactCache } from "react";
 import type { Message as ChatMessage } from "@/types/chat";
+import { ContextWindowManager, type ContextMessage } from "@/ai/context";
 
 // Initialize services
 const zkService = new ZKService();
@@ -209,13 +210,35 @@ export async function POST(req: Request) {
       return new Response("Failed to store message", { status: 500 });
     }
 
+    const modelName = "gpt-4";
     const chatModel = new ChatOpenAI({
-      modelName: "gpt-4",
+      modelName,
       streaming: true,
     });
 
+    const context = await ContextWindowManager.getInstance().fit(
+      threadId,
+      messages.map(
+        (m: any): ContextMessage => ({
+          id: m.id,
+          role: m.role === "assistant" || m.role === "system" ? m.role : "user",
+          content: m.content,
+          pinned: m.pinned,
+          riskFlagged: m.riskFlagged,
+          visibility: m.visibility,
+        }),
+      ),
+      modelName,
+    );
+
     const stream = await chatModel.stream(
-      messages.map((m: any) => new HumanMessage(m.content)),
+      context.messages.map((m) =>
+        m.role === "system"
+          ? new SystemMessage(m.content)
+          : m.role === "assistant"
+            ? new AIMessage(m.content)
+            : new HumanMessage(m.content),
+      ),
     );
 
     // Convert the response into a friendly text-stream
@@ -326,9 +349,7 @@ export async function GET(req: Request) {
         try {
           const decryptedContent = await zkService.decryptMessageWithSessionKey(
             message.content,
-            message.iv,
-            sessionKeys.privateKey,
-            message.session_key_id,
+            { threadId, userId: session.user.id, messageId: message.id },
           );
 
           await securityAudit.logOperation({
@@ -351,6 +372,7 @@ export async function GET(req: Request) {
             recipient_id: message.recipient_id,
             created_at: message.created_at,
             role: message.role || "user",
+            visibility: message.visibility ?? "all",
           };
         } catch (error) {
           await securityAudit.logOperation({
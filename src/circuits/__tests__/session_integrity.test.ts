@@ -1,267 +1,119 @@
 import { wasm as wasmTester } from 'circom_tester';
 import * as path from 'path';
-import { buildEddsa } from 'circomlibjs';
+import { buildEddsa, buildPoseidon } from 'circomlibjs';
 import { randomBytes } from 'crypto';
 interface CircuitInput {
     sessionId: string;
-    timestamp: number;
-    therapistPubKey: Uint8Array;
+    timestamp: string;
+    referenceTime: string;
+    therapistPubKeyAx: string;
+    therapistPubKeyAy: string;
     metricsHash: string;
+    durationMinutes: string;
+    interventionCount: string;
+    riskLevel: string;
+    engagementScore: string;
+    clientDataHash: string;
+    therapistSigR8x: string;
+    therapistSigR8y: string;
+    therapistSigS: string;
+}
+interface SessionValues {
     durationMinutes: number;
     interventionCount: number;
     riskLevel: number;
     engagementScore: number;
-    clientDataHash: string;
-    therapistSigR8: Uint8Array;
-    therapistSigS: Uint8Array;
+    endedSecondsAgo: number;
 }
+const VALID_SESSION: SessionValues = {
+    durationMinutes: 60,
+    interventionCount: 5,
+    riskLevel: 3,
+    engagementScore: 85,
+    endedSecondsAgo: 3600
+};
 describe('Session Integrity Circuit', () => {
     let circuit: any;
     let eddsaInstance: any;
+    let poseidon: any;
     beforeAll(async () => {
         circuit = await wasmTester(path.join(__dirname, '../session_integrity.circom'));
         eddsaInstance = await buildEddsa();
+        poseidon = await buildPoseidon();
     });
-    it('should verify valid session data', async () => {
-        // Generate valid EdDSA keypair
-        const privateKey = randomBytes(32);
-        const publicKey = eddsaInstance.prv2pub(privateKey);
-        // Create session data
-        const sessionId = randomBytes(32);
-        const signature = eddsaInstance.signPoseidon(privateKey, sessionId);
-        // Convert signature to bits for circuit input
-        const sigR8 = signature.R8;
-        const sigS = signature.S;
-        // Prepare circuit input
-        const input = {
-            sessionId: sessionId,
-            pubKey: publicKey,
-            R8: sigR8,
-            S: sigS
+    // Signs the session the way src/services/integrity/witness.ts does
+    function signedInput(overrides: Partial<SessionValues> = {}, privateKey: Buffer = randomBytes(32)): CircuitInput {
+        const values = { ...VALID_SESSION, ...overrides };
+        const F = poseidon.F;
+        const now = Math.floor(Date.now() / 1000);
+        const sessionId = BigInt(123456789);
+        const timestamp = BigInt(now - values.endedSecondsAgo);
+        const clientDataHash = BigInt(987654321);
+        const metricsHash = F.toObject(poseidon([
+            values.durationMinutes,
+            values.interventionCount,
+            values.riskLevel,
+            values.engagementScore
+        ]));
+        const signature = eddsaInstance.signPoseidon(privateKey, poseidon([sessionId, timestamp, metricsHash, clientDataHash]));
+        const [ax, ay] = eddsaInstance.prv2pub(privateKey);
+        return {
+            sessionId: sessionId.toString(),
+            timestamp: timestamp.toString(),
+            referenceTime: now.toString(),
+            therapistPubKeyAx: F.toObject(ax).toString(),
+            therapistPubKeyAy: F.toObject(ay).toString(),
+            metricsHash: metricsHash.toString(),
+            durationMinutes: values.durationMinutes.toString(),
+            interventionCount: values.interventionCount.toString(),
+            riskLevel: values.riskLevel.toString(),
+            engagementScore: values.engagementScore.toString(),
+            clientDataHash: clientDataHash.toString(),
+            therapistSigR8x: F.toObject(signature.R8[0]).toString(),
+            therapistSigR8y: F.toObject(signature.R8[1]).toString(),
+            therapistSigS: signature.S.toString()
         };
-        const witness = await circuit.calculateWitness(input);
+    }
+    it('should verify valid session data', async () => {
+        const witness = await circuit.calculateWitness(signedInput());
         await circuit.checkConstraints(witness);
     });
     it('should reject invalid duration', async () => {
-        // Generate valid EdDSA keypair
-        const privateKey = randomBytes(32);
-        const publicKey = eddsaInstance.prv2pub(privateKey);
-        // Create signature for session ID
-        const sessionId = '123456789';
-        const msgBuf = Buffer.from(sessionId);
-        const signature = eddsaInstance.signMiMC(privateKey, msgBuf);
-        // Convert public key and signature to bit arrays
-        const pubKeyBits = eddsaInstance.pubKey2Bits(publicKey);
-        const sigR8Bits = eddsaInstance.r8Bits(signature.R8);
-        const sigSBits = eddsaInstance.sBits(signature.S);
-        const input = {
-            sessionId,
-            timestamp: Math.floor(Date.now() / 1000),
-            therapistPubKey: pubKeyBits,
-            metricsHash: '0x5678',
-            durationMinutes: 200, // > MAX_DURATION (180)
-            interventionCount: 5,
-            riskLevel: 3,
-            engagementScore: 85,
-            clientDataHash: '0x9abc',
-            therapistSigR8: sigR8Bits,
-            therapistSigS: sigSBits
-        };
-        await expect(circuit.calculateWitness(input)).rejects.toThrow();
+        await expect(circuit.calculateWitness(signedInput({ durationMinutes: 200 }))).rejects.toThrow(); // > MAX_DURATION (180)
     });
     it('should reject invalid intervention count', async () => {
-        // Generate valid EdDSA keypair
-        const privateKey = randomBytes(32);
-        const publicKey = eddsaInstance.prv2pub(privateKey);
-        // Create signature for session ID
-        const sessionId = '123456789';
-        const msgBuf = Buffer.from(sessionId);
-        const signature = eddsaInstance.signMiMC(privateKey, msgBuf);
-        // Convert public key and signature to bit arrays
-        const pubKeyBits = eddsaInstance.pubKey2Bits(publicKey);
-        const sigR8Bits = eddsaInstance.r8Bits(signature.R8);
-        const sigSBits = eddsaInstance.sBits(signature.S);
-        const input = {
-            sessionId,
-            timestamp: Math.floor(Date.now() / 1000),
-            therapistPubKey: pubKeyBits,
-            metricsHash: '0x5678',
-            durationMinutes: 60,
-            interventionCount: 51, // > MAX_INTERVENTIONS (50)
-            riskLevel: 3,
-            engagementScore: 85,
-            clientDataHash: '0x9abc',
-            therapistSigR8: sigR8Bits,
-            therapistSigS: sigSBits
-        };
-        await expect(circuit.calculateWitness(input)).rejects.toThrow();
+        await expect(circuit.calculateWitness(signedInput({ interventionCount: 51 }))).rejects.toThrow(); // > MAX_INTERVENTIONS (50)
     });
     it('should reject invalid risk level', async () => {
-        // Generate valid EdDSA keypair
-        const privateKey = randomBytes(32);
-        const publicKey = eddsaInstance.prv2pub(privateKey);
-        // Create signature for session ID
-        const sessionId = '123456789';
-        const msgBuf = Buffer.from(sessionId);
-        const signature = eddsaInstance.signMiMC(privateKey, msgBuf);
-        // Convert public key and signature to bit arrays
-        const pubKeyBits = eddsaInstance.pubKey2Bits(publicKey);
-        const sigR8Bits = eddsaInstance.r8Bits(signature.R8);
-        const sigSBits = eddsaInstance.sBits(signature.S);
-        const input = {
-            sessionId,
-            timestamp: Math.floor(Date.now() / 1000),
-            therapistPubKey: pubKeyBits,
-            metricsHash: '0x5678',
-            durationMinutes: 60,
-            interventionCount: 5,
-            riskLevel: 11, // > MAX_RISK_LEVEL (10)
-            engagementScore: 85,
-            clientDataHash: '0x9abc',
-            therapistSigR8: sigR8Bits,
-            therapistSigS: sigSBits
-        };
-        await expect(circuit.calculateWitness(input)).rejects.toThrow();
+        await expect(circuit.calculateWitness(signedInput({ riskLevel: 11 }))).rejects.toThrow(); // > MAX_RISK_LEVEL (10)
     });
     it('should reject invalid engagement score', async () => {
-        // Generate valid EdDSA keypair
-        const privateKey = randomBytes(32);
-        const publicKey = eddsaInstance.prv2pub(privateKey);
-        // Create signature for session ID
-        const sessionId = '123456789';
-        const msgBuf = Buffer.from(sessionId);
-        const signature = eddsaInstance.signMiMC(privateKey, msgBuf);
-        // Convert public key and signature to bit arrays
-        const pubKeyBits = eddsaInstance.pubKey2Bits(publicKey);
-        const sigR8Bits = eddsaInstance.r8Bits(signature.R8);
-        const sigSBits = eddsaInstance.sBits(signature.S);
-        const input = {
-            sessionId,
-            timestamp: Math.floor(Date.now() / 1000),
-            therapistPubKey: pubKeyBits,
-            metricsHash: '0x5678',
-            durationMinutes: 60,
-            interventionCount: 5,
-            riskLevel: 3,
-            engagementScore: 101, // > MAX_ENGAGEMENT (100)
-            clientDataHash: '0x9abc',
-            therapistSigR8: sigR8Bits,
-            therapistSigS: sigSBits
-        };
-        await expect(circuit.calculateWitness(input)).rejects.toThrow();
+        await expect(circuit.calculateWitness(signedInput({ engagementScore: 101 }))).rejects.toThrow(); // > MAX_ENGAGEMENT (100)
     });
     it('should reject future timestamp', async () => {
-        // Generate valid EdDSA keypair
-        const privateKey = randomBytes(32);
-        const publicKey = eddsaInstance.prv2pub(privateKey);
-        // Create signature for session ID
-        const sessionId = '123456789';
-        const msgBuf = Buffer.from(sessionId);
-        const signature = eddsaInstance.signMiMC(privateKey, msgBuf);
-        // Convert public key and signature to bit arrays
-        const pubKeyBits = eddsaInstance.pubKey2Bits(publicKey);
-        const sigR8Bits = eddsaInstance.r8Bits(signature.R8);
-        const sigSBits = eddsaInstance.sBits(signature.S);
-        const input = {
-            sessionId,
-            timestamp: Math.floor(Date.now() / 1000) + 3600, // 1 hour in future
-            therapistPubKey: pubKeyBits,
-            metricsHash: '0x5678',
-            durationMinutes: 60,
-            interventionCount: 5,
-            riskLevel: 3,
-            engagementScore: 85,
-            clientDataHash: '0x9abc',
-            therapistSigR8: sigR8Bits,
-            therapistSigS: sigSBits
-        };
-        await expect(circuit.calculateWitness(input)).rejects.toThrow();
+        await expect(circuit.calculateWitness(signedInput({ endedSecondsAgo: -3600 }))).rejects.toThrow(); // 1 hour in future
     });
     it('should reject old timestamp', async () => {
-        // Generate valid EdDSA keypair
-        const privateKey = randomBytes(32);
-        const publicKey = eddsaInstance.prv2pub(privateKey);
-        // Create signature for session ID
-        const sessionId = '123456789';
-        const msgBuf = Buffer.from(sessionId);
-        const signature = eddsaInstance.signMiMC(privateKey, msgBuf);
-        // Convert public key and signature to bit arrays
-        const pubKeyBits = eddsaInstance.pubKey2Bits(publicKey);
-        const sigR8Bits = eddsaInstance.r8Bits(signature.R8);
-        const sigSBits = eddsaInstance.sBits(signature.S);
-        const input = {
-            sessionId,
-            timestamp: Math.floor(Date.now() / 1000) - (31 * 24 * 3600), // 31 days old
-            therapistPubKey: pubKeyBits,
-            metricsHash: '0x5678',
-            durationMinutes: 60,
-            interventionCount: 5,
-            riskLevel: 3,
-            engagementScore: 85,
-            clientDataHash: '0x9abc',
-            therapistSigR8: sigR8Bits,
-            therapistSigS: sigSBits
-        };
-        await expect(circuit.calculateWitness(input)).rejects.toThrow();
+        await expect(circuit.calculateWitness(signedInput({ endedSecondsAgo: 31 * 24 * 3600 }))).rejects.toThrow(); // 31 days old
     });
     it('should reject invalid therapist signature', async () => {
-        // Generate valid EdDSA keypair
-        const privateKey = randomBytes(32);
-        const publicKey = eddsaInstance.prv2pub(privateKey);
-        // Create signature for session ID
-        const sessionId = '123456789';
-        const msgBuf = Buffer.from(sessionId);
-        const signature = eddsaInstance.signMiMC(privateKey, msgBuf);
-        // Convert public key and signature to bit arrays
-        const pubKeyBits = eddsaInstance.pubKey2Bits(publicKey);
-        const sigR8Bits = eddsaInstance.r8Bits(signature.R8);
-        const sigSBits = eddsaInstance.sBits(signature.S);
-        const input = {
-            sessionId,
-            timestamp: Math.floor(Date.now() / 1000),
-            therapistPubKey: pubKeyBits,
-            metricsHash: '0x5678',
-            durationMinutes: 60,
-            interventionCount: 5,
-            riskLevel: 3,
-            engagementScore: 85,
-            clientDataHash: '0x9abc',
-            therapistSigR8: eddsaInstance.r8Bits(Buffer.from('wrong signature', 'utf8')),
-            therapistSigS: eddsaInstance.sBits(Buffer.from('wrong signature', 'utf8'))
-        };
-        await expect(circuit.calculateWitness(input)).rejects.toThrow();
+        const input = signedInput();
+        const forged = signedInput({}, randomBytes(32));
+        await expect(circuit.calculateWitness({
+            ...input,
+            therapistSigR8x: forged.therapistSigR8x,
+            therapistSigR8y: forged.therapistSigR8y,
+            therapistSigS: forged.therapistSigS
+        })).rejects.toThrow();
     });
     it('should reject tampered metrics hash', async () => {
-        // Generate valid EdDSA keypair
-        const privateKey = randomBytes(32);
-        const publicKey = eddsaInstance.prv2pub(privateKey);
-        // Create signature for session ID and metrics
-        const sessionId = '123456789';
-        const metricsHash = '0x5678';
-        const message = Buffer.concat([
-            Buffer.from(sessionId),
-            Buffer.from(metricsHash.slice(2), 'hex')
-        ]);
-        const signature = eddsaInstance.signMiMC(privateKey, message);
-        // Convert public key and signature to bit arrays
-        const pubKeyBits = eddsaInstance.pubKey2Bits(publicKey);
-        const sigR8Bits = eddsaInstance.r8Bits(signature.R8);
-        const sigSBits = eddsaInstance.sBits(signature.S);
-        // Create tampered input with modified metrics hash but original signature
-        const input: CircuitInput = {
-            sessionId,
-            timestamp: Math.floor(Date.now() / 1000),
-            therapistPubKey: pubKeyBits,
-            metricsHash: '0x1234', // Tampered metrics hash
-            durationMinutes: 60,
-            interventionCount: 5,
-            riskLevel: 3,
-            engagementScore: 85,
-            clientDataHash: '0x9abc',
-            therapistSigR8: signature.R8,
-            therapistSigS: signature.S
-        };
-        // Expect circuit to reject tampered input
-        await expect(circuit.calculateWitness(input)).rejects.toThrow();
+        const input = signedInput();
+        const tampered = signedInput({ riskLevel: 1 });
+        // Metrics and hash agree, but the therapist signed the original hash
+        await expect(circuit.calculateWitness({
+            ...input,
+            riskLevel: tampered.riskLevel,
+            metricsHash: tampered.metricsHash
+        })).rejects.toThrow();
     });
 });
@@ -3,134 +3,125 @@ pragma circom 2.1.4;
 include "poseidon.circom";
 include "comparators.circom";
 include "bitify.circom";
-include "eddsa.circom";
+include "eddsaposeidon.circom";
 
 /*
  * Session Integrity Circuit
- * 
+ *
  * This circuit verifies the integrity of a therapy session by proving:
- * 1. Session data has not been tampered with
- * 2. Metrics are within valid ranges
- * 3. Timestamps are consistent
- * 4. Therapist authorization is valid
+ * 1. Session metrics are within valid ranges and hash to metricsHash
+ * 2. The session ended at most 30 days before referenceTime, and not after it
+ * 3. The therapist signed (sessionId, timestamp, metricsHash, clientDataHash)
+ *
+ * Public signals, in order: sessionId, timestamp, referenceTime,
+ * therapistPubKeyAx, therapistPubKeyAy, metricsHash
  */
 template SessionIntegrityVerifier() {
     // Public inputs
     signal input sessionId;
     signal input timestamp;
-    signal input therapistPubKey[256];  // EdDSA public key bits
+    signal input referenceTime;
+    signal input therapistPubKeyAx;     // Baby Jubjub EdDSA public key
+    signal input therapistPubKeyAy;
     signal input metricsHash;
-    
+
     // Private inputs
     signal input durationMinutes;
     signal input interventionCount;
     signal input riskLevel;
     signal input engagementScore;
     signal input clientDataHash;
-    signal input therapistSigR8[256];   // EdDSA signature R8 point bits
-    signal input therapistSigS[256];    // EdDSA signature S bits
-    
-    // Intermediate signals
-    signal metricsValid;
-    signal timestampValid;
-    signal therapistValid;
-    signal sessionValid;
-    
+    signal input therapistSigR8x;       // EdDSA-Poseidon signature
+    signal input therapistSigR8y;
+    signal input therapistSigS;
+
     // Constants
     var MAX_DURATION = 180; // 3 hours
     var MAX_INTERVENTIONS = 50;
     var MAX_RISK_LEVEL = 10;
     var MAX_ENGAGEMENT = 100;
-    
-    // Component instantiation
-    component durationCheck = LessThan(32);
-    component interventionCheck = LessThan(32);
-    component riskCheck = LessThan(32);
-    component engagementCheck = LessThan(32);
-    component poseidonMetrics = Poseidon(4);
-    component therapistAuth = EdDSAVerifier(64);  // 64-bit message size
-    component isEqual = IsEqual();
-    
-    // Duration validation
-    durationCheck.in[0] <== durationMinutes;
-    durationCheck.in[1] <== MAX_DURATION;
-    
-    // Intervention count validation
-    interventionCheck.in[0] <== interventionCount;
-    interventionCheck.in[1] <== MAX_INTERVENTIONS;
-    
-    // Risk level validation
-    riskCheck.in[0] <== riskLevel;
-    riskCheck.in[1] <== MAX_RISK_LEVEL;
-    
-    // Engagement score validation
-    engagementCheck.in[0] <== engagementScore;
-    engagementCheck.in[1] <== MAX_ENGAGEMENT;
-    
+
+    // Metric validation
+    component durationCheck = BelowBound(MAX_DURATION);
+    durationCheck.in <== durationMinutes;
+
+    component interventionCheck = BelowBound(MAX_INTERVENTIONS);
+    interventionCheck.in <== interventionCount;
+
+    component riskCheck = BelowBound(MAX_RISK_LEVEL);
+    riskCheck.in <== riskLevel;
+
+    component engagementCheck = BelowBound(MAX_ENGAGEMENT);
+    engagementCheck.in <== engagementScore;
+
     // Metrics hash verification
+    component poseidonMetrics = Poseidon(4);
     poseidonMetrics.inputs[0] <== durationMinutes;
     poseidonMetrics.inputs[1] <== interventionCount;
     poseidonMetrics.inputs[2] <== riskLevel;
     poseidonMetrics.inputs[3] <== engagementScore;
-    
-    // Verify metrics hash matches
-    isEqual.in[0] <== poseidonMetrics.out;
-    isEqual.in[1] <== metricsHash;
-    metricsValid <== isEqual.out;
-    
+    poseidonMetrics.out === metricsHash;
+
     // Verify timestamp is within acceptable range
     component timestampCheck = TimeCheck();
     timestampCheck.timestamp <== timestamp;
-    timestampValid <== timestampCheck.valid;
-    
-    // Convert sessionId to bits for EdDSA
-    component sessionIdBits = Num2Bits(64);
-    sessionIdBits.in <== sessionId;
-    
-    // Verify therapist authorization
-    for (var i = 0; i < 256; i++) {
-        therapistAuth.A[i] <== therapistPubKey[i];
-        therapistAuth.R8[i] <== therapistSigR8[i];
-        therapistAuth.S[i] <== therapistSigS[i];
-    }
-    for (var i = 0; i < 64; i++) {
-        therapistAuth.msg[i] <== sessionIdBits.out[i];
-    }
-    
-    // Final validation
-    sessionValid <== metricsValid * timestampValid;
-    component finalCheck = IsEqual();
-    finalCheck.in[0] <== sessionValid;
-    finalCheck.in[1] <== 1;
-    finalCheck.out === 1;
+    timestampCheck.referenceTime <== referenceTime;
+
+    // Verify therapist authorization over the session and its metrics
+    component signedMessage = Poseidon(4);
+    signedMessage.inputs[0] <== sessionId;
+    signedMessage.inputs[1] <== timestamp;
+    signedMessage.inputs[2] <== metricsHash;
+    signedMessage.inputs[3] <== clientDataHash;
+
+    component therapistAuth = EdDSAPoseidonVerifier();
+    therapistAuth.enabled <== 1;
+    therapistAuth.Ax <== therapistPubKeyAx;
+    therapistAuth.Ay <== therapistPubKeyAy;
+    therapistAuth.R8x <== therapistSigR8x;
+    therapistAuth.R8y <== therapistSigR8y;
+    therapistAuth.S <== therapistSigS;
+    therapistAuth.M <== signedMessage.out;
+}
+
+/*
+ * Constrains 0 <= in < bound. The bit decomposition keeps the comparator
+ * input small, so a field element near the modulus cannot pass as negative.
+ */
+template BelowBound(bound) {
+    signal input in;
+
+    component bits = Num2Bits(8);
+    bits.in <== in;
+
+    component lessThan = LessThan(8);
+    lessThan.in[0] <== in;
+    lessThan.in[1] <== bound;
+    lessThan.out === 1;
 }
 
 /*
  * Timestamp validation component
- * Ensures timestamp is within acceptable range
+ * Ensures timestamp is no later than referenceTime and at most 30 days older
  */
 template TimeCheck() {
     signal input timestamp;
-    signal output valid;
-    
-    // Components
-    component futureCheck = LessThan(64);
-    component pastCheck = GreaterThan(64);
-    
+    signal input referenceTime;
+
     // Constants (30 days in seconds)
     var THIRTY_DAYS = 2592000;
-    var currentTime = timestamp;
-    
+
     // Check timestamp is not in future
+    component futureCheck = LessEqThan(64);
     futureCheck.in[0] <== timestamp;
-    futureCheck.in[1] <== currentTime;
-    
+    futureCheck.in[1] <== referenceTime;
+    futureCheck.out === 1;
+
     // Check timestamp is not too old
-    pastCheck.in[0] <== timestamp;
-    pastCheck.in[1] <== currentTime - THIRTY_DAYS;
-    
-    // Timestamp is valid if both checks pass
-    valid <== futureCheck.out * pastCheck.out;
+    component pastCheck = GreaterThan(64);
+    pastCheck.in[0] <== timestamp + THIRTY_DAYS;
+    pastCheck.in[1] <== referenceTime;
+    pastCheck.out === 1;
 }
 
-component main = SessionIntegrityVerifier();
+component main {public [sessionId, timestamp, referenceTime, therapistPubKeyAx, therapistPubKeyAy, metricsHash]} = SessionIntegrityVerifier();
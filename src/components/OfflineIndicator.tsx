@@ -1,17 +1,22 @@
 import React from 'react';
 import { useOffline } from '../hooks/useOffline';
 import { toast } from 'react-hot-toast';
+import { OfflineOutbox } from '../services/chat/outbox';
 
 interface OfflineIndicatorProps {
     className?: string;
     showToast?: boolean;
+    /** Shows how many queued changes are waiting to sync */
+    outbox?: OfflineOutbox;
 }
 
 export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
     className = '',
-    showToast = true
+    showToast = true,
+    outbox
 }) => {
-    const { isOffline, connectionInfo } = useOffline({
+    const { isOffline, pendingOperations, connectionInfo } = useOffline({
+        outbox,
         onOffline: () => {
             if (showToast) {
                 toast.error('You are offline. Some features may be limited.', {
@@ -30,10 +35,18 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
         }
     });
 
-    if (!isOffline) {
+    if (!isOffline && pendingOperations === 0) {
         return null;
     }
 
+    if (!isOffline) {
+        return (
+            <div className={`fixed bottom-4 left-4 z-50 bg-white dark:bg-gray-800 rounded-lg shadow-lg px-4 py-2 text-sm text-gray-600 dark:text-gray-300 ${className}`}>
+                Syncing {pendingOperations} offline {pendingOperations === 1 ? 'change' : 'changes'}...
+            </div>
+        );
+    }
+
     return (
         <div className={`
             fixed bottom-4 left-4 z-50 
@@ -74,6 +87,11 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
                         {connectionInfo.saveData && (
                             <p className="text-xs">Data Saver is enabled</p>
                         )}
+                        {pendingOperations > 0 && (
+                            <p>
+                                {pendingOperations} {pendingOperations === 1 ? 'change' : 'changes'} will be sent when you reconnect
+                            </p>
+                        )}
                     </div>
                 </div>
             </div>
@@ -12,6 +12,8 @@ import { Attachment } from '../../types/attachments';
 interface ChatInputProps {
   onSendMessage: (content: string, attachments?: Attachment[]) => void;
   onTyping?: () => void;
+  /** Receives the unsent text on every change, and '' once it is sent */
+  onDraftChange?: (draft: string) => void;
   disabled?: boolean;
   isLoading?: boolean;
   placeholder?: string;
@@ -21,6 +23,7 @@ interface ChatInputProps {
 export const ChatInput: React.FC<ChatInputProps> = ({
   onSendMessage,
   onTyping,
+  onDraftChange,
   disabled,
   isLoading,
   placeholder = 'Type a message...',
@@ -97,6 +100,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
 
     onSendMessage(message, pendingAttachments);
     setMessage('');
+    onDraftChange?.('');
     setPendingAttachments([]);
   };
 
@@ -137,6 +141,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
           onChange={(e) => {
             setMessage(e.target.value);
             onTyping?.();
+            onDraftChange?.(e.target.value);
           }}
           onKeyDown={handleKeyDown}
           placeholder={placeholder}
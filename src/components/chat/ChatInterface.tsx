@@ -1,9 +1,11 @@
 // @ts-nocheck
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { useAuth } from '@/hooks/useAuth';
 import { Message, ChatSession, MessageStatus } from '@/types/chat';
 import { useToast } from '@/hooks/useToast';
+import { useDebounce } from '@/hooks/useDebounce';
+import { usePresence } from '@/hooks/usePresence';
 import { createBrowserClient } from '@supabase/ssr';
 import { ZKService } from '@/lib/zk/ZKService';
 import { Spinner } from '@/components/ui/Spinner';
@@ -18,18 +20,28 @@ import { AttachmentManager } from '../Attachments/AttachmentManager';
 import { SearchBar } from './SearchBar';
 import { SearchResults } from './SearchResults';
 import { MessageSearchService } from '../../services/chat/MessageSearchService';
-import { MessageSearchResult, SearchOptions } from '../../types/chat';
+import { MessageSearchResult, SearchOptions, MessageVisibility } from '../../types/chat';
+import { WhisperBubble } from './WhisperBubble';
+import { OfflineOutbox, SupabaseOutboxServerState } from '../../services/chat/outbox';
+
+interface SupervisionOptions {
+  sessionId: string;
+  // Trainees share their draft and receive whispers; supervisors watch hidden
+  role: 'trainee' | 'supervisor';
+}
 
 interface ChatInterfaceProps {
   threadId: string;
   recipientId: string;
   className?: string;
+  supervision?: SupervisionOptions;
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   threadId, 
   recipientId, 
-  className 
+  className,
+  supervision
 }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [failedMessages, setFailedMessages] = useState<Message[]>([]);
@@ -45,6 +57,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [hasMoreResults, setHasMoreResults] = useState(false);
   const [searchOffset, setSearchOffset] = useState(0);
   const [currentSearch, setCurrentSearch] = useState<SearchOptions | null>(null);
+  const [draft, setDraft] = useState('');
+  const [traineeDraft, setTraineeDraft] = useState('');
+  const debouncedDraft = useDebounce(draft, 300);
+  const isSupervisor = supervision?.role === 'supervisor';
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { user } = useAuth();
@@ -53,11 +69,19 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const zkService = ZKService.getInstance();
   const chatService = ChatService.getInstance();
   const searchService = MessageSearchService.getInstance(supabase, redis);
+  const outbox = OfflineOutbox.getInstance();
+  const outboxServerState = useMemo(() => new SupabaseOutboxServerState(supabase), []);
+  const { typists, setTyping } = usePresence(threadId, {
+    status: supervision ? 'in_session' : 'online',
+    currentUserId: user?.id
+  });
   
   const wsUrl = `${process.env.NEXT_PUBLIC_WS_URL}/chat`;
   const { sendMessage, lastMessage, connectionStatus } = useWebSocket(wsUrl, {
     threadId,
     recipientId,
+    outbox,
+    serverState: outboxServerState,
     onError: (error) => {
       setError(error);
       toast.showToast({
@@ -72,6 +96,81 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
 
+  // Tell the user when an offline change could not be applied as made
+  useEffect(() => outbox.subscribe(event => {
+    if (event.type === 'conflict' && (event.reason === 'target_deleted' || event.reason === 'superseded')) {
+      toast.showToast({
+        title: 'Offline Change Discarded',
+        description: event.reason === 'target_deleted'
+          ? 'The message was deleted before your change could be sent.'
+          : 'The message was changed elsewhere after your offline edit.',
+        type: 'info'
+      });
+    } else if (event.type === 'handed_off') {
+      toast.showToast({
+        title: 'Message Delayed',
+        description: 'A message sent while offline will keep retrying in the background.',
+        type: 'info'
+      });
+    } else if (event.type === 'failed') {
+      toast.showToast({
+        title: 'Offline Change Failed',
+        description: event.error,
+        type: 'error'
+      });
+    }
+  }), [outbox, toast]);
+
+  // Join the live session once connected; the server assigns the role from the session record
+  useEffect(() => {
+    if (!supervision || connectionStatus !== 'connected') return;
+
+    supabase.auth.getSession().then(({ data }) => {
+      sendMessage(JSON.stringify({
+        type: 'join_session',
+        sessionId: supervision.sessionId,
+        accessToken: data.session?.access_token
+      }));
+    });
+  }, [supervision?.sessionId, connectionStatus]);
+
+  // Whispers and the trainee's live draft
+  useEffect(() => {
+    if (!supervision || !lastMessage) return;
+
+    let event;
+    try {
+      event = JSON.parse(lastMessage.data);
+    } catch {
+      return;
+    }
+
+    if (event.type === 'whisper') {
+      setMessages(prev => [...prev, {
+        id: event.id,
+        threadId,
+        senderId: event.senderId,
+        content: event.content,
+        created_at: event.timestamp,
+        visibility: MessageVisibility.SUPERVISION
+      }]);
+      scrollToBottom();
+    } else if (event.type === 'supervision_draft') {
+      setTraineeDraft(event.draft);
+    } else if (event.type === 'JOIN_REJECTED') {
+      toast.showToast({
+        title: 'Supervision Unavailable',
+        description: event.payload?.reason ?? 'Could not join the session',
+        type: 'error'
+      });
+    }
+  }, [lastMessage, supervision, threadId, scrollToBottom, toast]);
+
+  useEffect(() => {
+    if (supervision?.role !== 'trainee' || connectionStatus !== 'connected') return;
+    sendMessage(JSON.stringify({ type: 'draft_update', draft: debouncedDraft }));
+  }, [debouncedDraft, supervision?.role]);
+
   useEffect(() => {
     if (lastMessage) {
       if (lastMessage.type === 'message') {
@@ -174,6 +273,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const handleSendMessage = async (content: string) => {
     if (!user || !content.trim()) return;
 
+    // Supervisors are hidden from the client, so everything they type is a whisper
+    if (isSupervisor) {
+      sendMessage(JSON.stringify({ type: 'whisper', content }));
+      setMessages(prev => [...prev, {
+        id: crypto.randomUUID(),
+        threadId,
+        senderId: user.id,
+        content,
+        created_at: new Date().toISOString(),
+        visibility: MessageVisibility.SUPERVISION
+      }]);
+      scrollToBottom();
+      return;
+    }
+
     const message: Message = {
       id: crypto.randomUUID(),
       threadId,
@@ -189,7 +303,18 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
 
     try {
-      await sendMessage(message);
+      // Queued in the outbox if the socket is down, replayed on reconnect
+      await sendMessage(message, {
+        kind: 'send',
+        message: {
+          id: message.id,
+          threadId,
+          senderId: user.id,
+          recipientId,
+          content,
+          timestamp: message.timestamp.toISOString()
+        }
+      });
     } catch (err) {
       // Message will be handled by recovery service
       toast.showToast({
@@ -205,6 +330,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
     try {
       setIsTyping(isTyping);
+      await setTyping(isTyping);
       await sendMessage(JSON.stringify({
         type: isTyping ? 'typing_started' : 'typing_stopped',
         user_id: user.id,
@@ -577,17 +703,31 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 </div>
               ) : (
                 messages.map((message) => (
-                  <ChatBubble
-                    key={message.id}
-                    message={message}
-                    isOwn={message.senderId === user?.id}
-                    onReact={handleReaction}
-                    onRemoveReaction={handleRemoveReaction}
-                    id={`message-${message.id}`}
-                  />
+                  message.visibility === MessageVisibility.SUPERVISION ? (
+                    <WhisperBubble
+                      key={message.id}
+                      message={message}
+                      isOwn={message.senderId === user?.id}
+                      id={`message-${message.id}`}
+                    />
+                  ) : (
+                    <ChatBubble
+                      key={message.id}
+                      message={message}
+                      isOwn={message.senderId === user?.id}
+                      onReact={handleReaction}
+                      onRemoveReaction={handleRemoveReaction}
+                      id={`message-${message.id}`}
+                    />
+                  )
                 ))
               )}
-              {isTyping && <TypingIndicator />}
+              {typists.length > 0 && <TypingIndicator count={typists.length} />}
+              {isSupervisor && traineeDraft && (
+                <div className="mt-2 rounded border border-dashed border-gray-300 p-2 text-sm text-gray-500">
+                  <span className="font-medium">Trainee is drafting:</span> {traineeDraft}
+                </div>
+              )}
             </>
           )}
           <div ref={messagesEndRef} />
@@ -598,12 +738,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <ChatInput
             onSendMessage={handleSendMessage}
             onTyping={handleTypingStatus}
+            onDraftChange={supervision?.role === 'trainee' ? setDraft : undefined}
             disabled={connectionStatus === 'disconnected'}
             isLoading={isSending}
             placeholder={
               connectionStatus === 'disconnected'
                 ? 'Connection lost. Messages will be queued...'
-                : 'Type a message...'
+                : isSupervisor
+                  ? 'Whisper to the trainee...'
+                  : 'Type a message...'
             }
           />
         </div>
@@ -8,11 +8,22 @@ import { Alert, Progress, Button, Spinner } from '@/components/ui';
 interface MessageRecoveryStatusProps {
   threadId: string;
   onRecoveryComplete?: () => void;
+  /** Show dead letters with replay/discard actions (admins only) */
+  showDeadLetters?: boolean;
+}
+
+interface DeadLetterSummary {
+  messageId: string;
+  attempts: number;
+  lastError?: string;
+  keyTransition: boolean;
+  updatedAt: string;
 }
 
 export const MessageRecoveryStatus: React.FC<MessageRecoveryStatusProps> = ({
   threadId,
-  onRecoveryComplete
+  onRecoveryComplete,
+  showDeadLetters = false
 }) => {
   const [stats, setStats] = useState<{
     total: number;
@@ -20,6 +31,8 @@ export const MessageRecoveryStatus: React.FC<MessageRecoveryStatusProps> = ({
     inTransition: number;
   }>({ total: 0, needsKeyTransition: 0, inTransition: 0 });
 
+  const [deadLetters, setDeadLetters] = useState<DeadLetterSummary[]>([]);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
   const [isRecovering, setIsRecovering] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { supabase } = useSupabase();
@@ -39,11 +52,46 @@ export const MessageRecoveryStatus: React.FC<MessageRecoveryStatusProps> = ({
     }
   };
 
+  const fetchDeadLetters = async () => {
+    if (!showDeadLetters) return;
+    try {
+      const response = await fetch(`/api/chat/recovery/dead-letters?threadId=${encodeURIComponent(threadId)}`);
+      if (!response.ok) throw new Error('Failed to fetch dead letters');
+      const body = await response.json();
+      setDeadLetters(body.deadLetters);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to fetch dead letters');
+    }
+  };
+
   useEffect(() => {
     fetchStats();
-    const interval = setInterval(fetchStats, 5000); // Update stats every 5 seconds
+    fetchDeadLetters();
+    const interval = setInterval(() => {
+      fetchStats();
+      fetchDeadLetters();
+    }, 5000); // Update stats every 5 seconds
     return () => clearInterval(interval);
-  }, [threadId]);
+  }, [threadId, showDeadLetters]);
+
+  const handleDeadLetterAction = async (messageId: string, action: 'replay' | 'discard') => {
+    setPendingAction(messageId);
+    setError(null);
+    try {
+      const response = await fetch('/api/chat/recovery/dead-letters', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId, action })
+      });
+      if (!response.ok) throw new Error(`Failed to ${action} message`);
+      setDeadLetters(current => current.filter(letter => letter.messageId !== messageId));
+      await fetchStats();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to ${action} message`);
+    } finally {
+      setPendingAction(null);
+    }
+  };
 
   const handleRecoveryStart = async () => {
     setIsRecovering(true);
@@ -57,11 +105,11 @@ export const MessageRecoveryStatus: React.FC<MessageRecoveryStatusProps> = ({
     }
   };
 
-  if (stats.total === 0) {
+  if (stats.total === 0 && deadLetters.length === 0) {
     return null;
   }
 
-  const recoveryProgress = Math.round(
+  const recoveryProgress = stats.total === 0 ? 100 : Math.round(
     ((stats.total - stats.needsKeyTransition - stats.inTransition) / stats.total) * 100
   );
 
@@ -108,6 +156,48 @@ export const MessageRecoveryStatus: React.FC<MessageRecoveryStatusProps> = ({
         </div>
       </div>
 
+      {deadLetters.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+            Dead Letters ({deadLetters.length})
+          </h4>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {deadLetters.map(letter => (
+              <li key={letter.messageId} className="flex items-center justify-between py-2">
+                <div className="min-w-0">
+                  <div className="font-mono text-xs text-gray-900 dark:text-gray-100 truncate">
+                    {letter.messageId}
+                  </div>
+                  <div className="text-gray-600 dark:text-gray-300 truncate">
+                    {letter.attempts} attempts
+                    {letter.keyTransition && ' · key transition'}
+                    {letter.lastError && ` · ${letter.lastError}`}
+                  </div>
+                </div>
+                <div className="flex space-x-2 shrink-0">
+                  <Button
+                    onClick={() => handleDeadLetterAction(letter.messageId, 'replay')}
+                    disabled={pendingAction === letter.messageId}
+                    variant="outline"
+                    size="sm"
+                  >
+                    Replay
+                  </Button>
+                  <Button
+                    onClick={() => handleDeadLetterAction(letter.messageId, 'discard')}
+                    disabled={pendingAction === letter.messageId}
+                    variant="destructive"
+                    size="sm"
+                  >
+                    Discard
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {isRecovering && (
         <div className="flex items-center justify-center space-x-2 text-sm text-gray-600 dark:text-gray-300">
           <Spinner size="sm" />
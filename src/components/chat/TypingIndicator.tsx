@@ -1,6 +1,20 @@
 import React from 'react';
 
-export const TypingIndicator: React.FC = () => {
+interface TypingIndicatorProps {
+  /** Display names of the people typing, excluding the current user */
+  names?: string[];
+  /** Number of people typing, used when names are not known */
+  count?: number;
+}
+
+function describeTypists(names: string[], count: number): string {
+  if (names.length === 0) return count > 1 ? `${count} people are typing...` : 'Someone is typing...';
+  if (names.length === 1) return `${names[0]} is typing...`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+  return 'Several people are typing...';
+}
+
+export const TypingIndicator: React.FC<TypingIndicatorProps> = ({ names = [], count = names.length }) => {
   return (
     <div className="flex items-center space-x-2 p-2">
       <div className="flex space-x-1">
@@ -8,7 +22,7 @@ export const TypingIndicator: React.FC = () => {
         <div className="h-2 w-2 rounded-full bg-gray-400 animate-bounce [animation-delay:-0.15s]" />
         <div className="h-2 w-2 rounded-full bg-gray-400 animate-bounce" />
       </div>
-      <span className="text-sm text-gray-500">Someone is typing...</span>
+      <span className="text-sm text-gray-500">{describeTypists(names, count)}</span>
     </div>
   );
-}; 
\ No newline at end of file
+};
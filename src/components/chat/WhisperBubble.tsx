@@ -0,0 +1,45 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { EyeOff } from 'lucide-react';
+import { Message } from '@/types/chat';
+
+interface WhisperBubbleProps {
+  message: Message;
+  isOwn: boolean;
+  className?: string;
+  id?: string;
+}
+
+/**
+ * Supervisor coaching message. Rendered apart from the conversation so a
+ * trainee never mistakes it for something the client can see.
+ */
+export const WhisperBubble: React.FC<WhisperBubbleProps> = ({
+  message,
+  isOwn,
+  className,
+  id
+}) => {
+  const timestamp = new Date(message.created_at);
+
+  return (
+    <div id={id} className={`flex justify-center mb-4 ${className ?? ''}`}>
+      <div
+        className="max-w-[80%] rounded-lg border border-dashed border-purple-400 bg-purple-50 px-4 py-2 text-purple-900"
+        role="note"
+        aria-label="Supervisor whisper"
+      >
+        <div className="flex items-center gap-1 text-xs font-medium text-purple-700 mb-1">
+          <EyeOff className="w-3 h-3" />
+          <span>{isOwn ? 'Your whisper' : 'Supervisor whisper'} · not visible to client</span>
+        </div>
+        <p className="break-words italic">{message.content}</p>
+        {!isNaN(timestamp.getTime()) && (
+          <div className="text-xs text-purple-500 mt-1">
+            {formatDistanceToNow(timestamp, { addSuffix: true })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Box, Card, CardContent, Typography } from '@mui/material';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { DifficultyTrajectoryPoint } from '@/ai/difficulty';
+
+interface DifficultyTrajectoryChartProps {
+  trajectory: DifficultyTrajectoryPoint[];
+  className?: string;
+}
+
+/**
+ * Post-session view for instructors: how the simulated client's difficulty
+ * moved within the scenario's curve, and why. The trajectory comes with the
+ * session recording (GET /api/sessions/:sessionId/recording).
+ */
+export const DifficultyTrajectoryChart: React.FC<DifficultyTrajectoryChartProps> = ({
+  trajectory,
+  className
+}) => {
+  const data = trajectory.map(point => ({
+    minute: Number(point.elapsedMinutes.toFixed(1)),
+    level: point.level,
+    performance: point.performance,
+    min: point.bound.min,
+    max: point.bound.max,
+    reason: point.reason
+  }));
+
+  return (
+    <Card className={className}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Client Difficulty
+        </Typography>
+
+        {data.length === 0 ? (
+          <Typography color="textSecondary">No difficulty adjustments recorded for this session.</Typography>
+        ) : (
+          <Box height={300}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="minute" unit=" min" />
+                <YAxis domain={[0, 1]} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [value.toFixed(2), name]}
+                  labelFormatter={(minute, payload) =>
+                    `${minute} min${payload?.[0] ? ` – ${payload[0].payload.reason}` : ''}`
+                  }
+                />
+                <Legend />
+                <Line type="monotone" dataKey="level" name="Difficulty" stroke="#F44336" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="performance" name="Trainee performance" stroke="#2196F3" dot={false} />
+                <Line type="stepAfter" dataKey="max" name="Curve max" stroke="#9E9E9E" strokeDasharray="4 4" dot={false} />
+                <Line type="stepAfter" dataKey="min" name="Curve min" stroke="#9E9E9E" strokeDasharray="4 4" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Slider,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  SkipPrevious as SkipPreviousIcon,
+  NavigateBefore as StepBackIcon,
+  NavigateNext as StepForwardIcon,
+  FastForward as NextMessageIcon
+} from '@mui/icons-material';
+import type { PlaybackFrame } from '@/services/recording';
+
+interface SessionPlaybackControlsProps {
+  frame: PlaybackFrame;
+  index: number;
+  length: number;
+  onStep: (count: number) => void;
+  onStepToNextMessage: () => void;
+  onSeek: (index: number) => void;
+  onAnnotate: (note: string) => Promise<void>;
+}
+
+const formatOffset = (offsetMs: number) => {
+  const totalSeconds = Math.floor(offsetMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const SessionPlaybackControls: React.FC<SessionPlaybackControlsProps> = ({
+  frame,
+  index,
+  length,
+  onStep,
+  onStepToNextMessage,
+  onSeek,
+  onAnnotate
+}) => {
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [annotationError, setAnnotationError] = useState<string | null>(null);
+
+  const handleAnnotate = async () => {
+    try {
+      setSaving(true);
+      setAnnotationError(null);
+      await onAnnotate(note.trim());
+      setNote('');
+    } catch (err) {
+      setAnnotationError(err instanceof Error ? err.message : 'Failed to save annotation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const { metrics, modelParams, latestAnalysis, triggeredBranches, annotations } = frame;
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" gap={1}>
+        <Tooltip title="Restart">
+          <IconButton onClick={() => onSeek(-1)} disabled={index < 0}>
+            <SkipPreviousIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Step back">
+          <IconButton onClick={() => onStep(-1)} disabled={index < 0}>
+            <StepBackIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Step forward">
+          <IconButton onClick={() => onStep(1)} disabled={index >= length - 1}>
+            <StepForwardIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Next message">
+          <IconButton onClick={onStepToNextMessage} disabled={index >= length - 1}>
+            <NextMessageIcon />
+          </IconButton>
+        </Tooltip>
+        <Typography variant="body2" sx={{ ml: 'auto' }}>
+          {formatOffset(frame.offsetMs)} · event {index + 1}/{length}
+        </Typography>
+      </Box>
+
+      <Slider
+        value={index}
+        min={-1}
+        max={Math.max(length - 1, 0)}
+        step={1}
+        onChange={(_, value) => onSeek(value as number)}
+        aria-label="Playback position"
+      />
+
+      <Box display="flex" flexWrap="wrap" gap={1} my={1}>
+        {metrics.sentiment !== undefined && <Chip size="small" label={`Sentiment ${metrics.sentiment.toFixed(2)}`} />}
+        {metrics.engagement !== undefined && <Chip size="small" label={`Engagement ${metrics.engagement.toFixed(2)}`} />}
+        {metrics.riskLevel !== undefined && (
+          <Chip size="small" color={metrics.riskLevel >= 0.7 ? 'error' : 'default'} label={`Risk ${metrics.riskLevel.toFixed(2)}`} />
+        )}
+        {latestAnalysis?.emotion && (
+          <Chip size="small" color="primary" label={`${latestAnalysis.emotion.primary} (${latestAnalysis.emotion.intensity}/10)`} />
+        )}
+        {latestAnalysis?.interventions?.map(intervention => (
+          <Chip key={intervention} size="small" variant="outlined" label={intervention} />
+        ))}
+        {modelParams.model && (
+          <Chip size="small" variant="outlined" label={`${modelParams.model} · T=${modelParams.temperature ?? '-'}`} />
+        )}
+      </Box>
+
+      {triggeredBranches.length > 0 && (
+        <Box my={1}>
+          <Typography variant="subtitle2">Branches</Typography>
+          {triggeredBranches.map(branch => (
+            <Typography key={branch.branchId} variant="body2">
+              {formatOffset(branch.offsetMs)} – {branch.branchId} ({branch.action.type})
+            </Typography>
+          ))}
+        </Box>
+      )}
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>Annotations</Typography>
+      <List dense>
+        {annotations.map(annotation => (
+          <ListItem key={annotation.id} disableGutters>
+            <ListItemText primary={annotation.note} secondary={`Event ${annotation.atSequence}`} />
+          </ListItem>
+        ))}
+      </List>
+      <Box display="flex" gap={1}>
+        <TextField
+          size="small"
+          fullWidth
+          placeholder="Add a note at this point"
+          value={note}
+          onChange={event => setNote(event.target.value)}
+          error={!!annotationError}
+          helperText={annotationError}
+        />
+        <Button onClick={handleAnnotate} disabled={!note.trim() || saving || frame.cursor < 0}>
+          Annotate
+        </Button>
+      </Box>
+    </Box>
+  );
+};
@@ -18,23 +18,30 @@ import {
 import { ChatWindow } from '../chat/ChatWindow';
 import { AudioAnalysisDisplay } from '../audio/AudioAnalysisDisplay';
 import { EmotionalTrendsDisplay } from './EmotionalTrendsDisplay';
+import { SessionPlaybackControls } from './SessionPlaybackControls';
+import { DifficultyTrajectoryChart } from './DifficultyTrajectoryChart';
 import { VideoAnalysisDisplay } from '../video/VideoAnalysisDisplay';
 import { useTherapySession } from '@/hooks/useTherapySession';
+import { useSessionPlayback } from '@/hooks/useSessionPlayback';
 import { AIIntegrationService } from '@/services/AIIntegrationService';
 import { AudioAnalysisResult } from '@/types/audio';
 import { VideoAnalysisResult } from '@/types/video';
 import { EmotionalResponse } from '@/types/emotions';
 import { ModelMetrics } from '@/types/models';
+import { Message } from '@/types/therapy';
 
 const DRAWER_WIDTH = 400;
 
 interface TherapySessionProps {
   sessionId: string;
+  /** Replay the session recording instead of joining it live */
+  replay?: boolean;
   className?: string;
 }
 
 export const TherapySession: React.FC<TherapySessionProps> = ({
   sessionId,
+  replay = false,
   className
 }) => {
   const theme = useTheme();
@@ -53,9 +60,20 @@ export const TherapySession: React.FC<TherapySessionProps> = ({
     updateEmotionalState,
     reload
   } = useTherapySession(sessionId, {
-    enableEmotionalAnalysis: true
+    enableEmotionalAnalysis: !replay
   });
 
+  const playback = useSessionPlayback(sessionId, { enabled: replay });
+
+  const replayMessages: Message[] = (playback.frame?.messages || []).map(message => ({
+    id: message.id,
+    sessionId,
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(session?.startTime ? new Date(session.startTime).getTime() + message.offsetMs : message.offsetMs),
+    metadata: message.analysis ? { analysis: message.analysis } : undefined
+  }));
+
   const aiService = AIIntegrationService.getInstance();
 
   useEffect(() => {
@@ -116,6 +134,9 @@ export const TherapySession: React.FC<TherapySessionProps> = ({
   };
 
   useEffect(() => {
+    // Replays show the model parameters that were recorded
+    if (replay) return;
+
     // Fetch model metrics periodically
     const fetchMetrics = async () => {
       try {
@@ -132,7 +153,7 @@ export const TherapySession: React.FC<TherapySessionProps> = ({
     fetchMetrics(); // Initial fetch
 
     return () => clearInterval(intervalId);
-  }, [sessionId]);
+  }, [sessionId, replay]);
 
   const drawer = (
     <Box
@@ -158,7 +179,7 @@ export const TherapySession: React.FC<TherapySessionProps> = ({
           borderColor: 'divider'
         }}
       >
-        <Typography variant="h6">Session Analysis</Typography>
+        <Typography variant="h6">{replay ? 'Session Replay' : 'Session Analysis'}</Typography>
         {isMobile && (
           <IconButton
             onClick={() => setIsDrawerOpen(false)}
@@ -169,36 +190,62 @@ export const TherapySession: React.FC<TherapySessionProps> = ({
         )}
       </Box>
 
-      <Box sx={{ padding: 2 }}>
-        {aiError && (
-          <Alert severity="warning" sx={{ mb: 2 }}>
-            AI Service: {aiError}
-          </Alert>
-        )}
+      {replay ? (
+        <Box sx={{ padding: 2 }}>
+          {playback.error && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {playback.error.message}
+            </Alert>
+          )}
+          {playback.frame && (
+            <SessionPlaybackControls
+              frame={playback.frame}
+              index={playback.index}
+              length={playback.length}
+              onStep={playback.step}
+              onStepToNextMessage={playback.stepToNextMessage}
+              onSeek={playback.seek}
+              onAnnotate={playback.annotate}
+            />
+          )}
+          {playback.frame && (
+            <Box sx={{ mt: 2 }}>
+              <DifficultyTrajectoryChart trajectory={playback.difficulty} />
+            </Box>
+          )}
+        </Box>
+      ) : (
+        <Box sx={{ padding: 2 }}>
+          {aiError && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              AI Service: {aiError}
+            </Alert>
+          )}
 
-        <VideoAnalysisDisplay
-          onAnalysisComplete={handleVideoAnalysisComplete}
-          onEmotionalStateUpdate={updateEmotionalState}
-          sx={{ mb: 2 }}
-        />
+          <VideoAnalysisDisplay
+            onAnalysisComplete={handleVideoAnalysisComplete}
+            onEmotionalStateUpdate={updateEmotionalState}
+            sx={{ mb: 2 }}
+          />
 
-        <AudioAnalysisDisplay
-          onAnalysisComplete={handleAnalysisComplete}
-        />
+          <AudioAnalysisDisplay
+            onAnalysisComplete={handleAnalysisComplete}
+          />
 
-        {emotionalContext && (
-          <>
-            <Box my={2}>
-              <Divider />
-            </Box>
-            <EmotionalTrendsDisplay
-              emotionalContext={emotionalContext}
-              modelMetrics={modelMetrics}
-              onRefresh={reload}
-            />
-          </>
-        )}
-      </Box>
+          {emotionalContext && (
+            <>
+              <Box my={2}>
+                <Divider />
+              </Box>
+              <EmotionalTrendsDisplay
+                emotionalContext={emotionalContext}
+                modelMetrics={modelMetrics}
+                onRefresh={reload}
+              />
+            </>
+          )}
+        </Box>
+      )}
     </Box>
   );
 
@@ -255,9 +302,9 @@ export const TherapySession: React.FC<TherapySessionProps> = ({
         
         <Box sx={{ flex: 1, overflow: 'hidden' }}>
           <ChatWindow
-            messages={messages}
-            onSendMessage={sendMessage}
-            isLoading={isLoading}
+            messages={replay ? replayMessages : messages}
+            onSendMessage={replay ? async () => undefined : sendMessage}
+            isLoading={replay ? playback.isLoading : isLoading}
           />
         </Box>
       </Box>
@@ -1,13 +1,28 @@
 import { useState, useEffect } from 'react';
+import { OfflineOutbox } from '../services/chat/outbox';
 
 interface UseOfflineOptions {
     onOffline?: () => void;
     onOnline?: () => void;
+    /** Outbox whose queued operations should be counted */
+    outbox?: OfflineOutbox;
 }
 
 export const useOffline = (options: UseOfflineOptions = {}) => {
     const [isOffline, setIsOffline] = useState(!navigator.onLine);
-    const { onOffline, onOnline } = options;
+    const [pendingOperations, setPendingOperations] = useState(0);
+    const { onOffline, onOnline, outbox } = options;
+
+    useEffect(() => {
+        if (!outbox) return;
+
+        outbox.pending().then(operations => setPendingOperations(operations.length));
+        return outbox.subscribe(event => {
+            if (event.type === 'changed') {
+                setPendingOperations(event.pending);
+            }
+        });
+    }, [outbox]);
 
     useEffect(() => {
         const handleOffline = () => {
@@ -46,6 +61,7 @@ export const useOffline = (options: UseOfflineOptions = {}) => {
 
     return {
         isOffline,
+        pendingOperations,
         // Helper methods
         checkConnection: async () => {
             try {
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { DeviceStatus, ThreadPresence } from '../../lib/services/PresenceService';
+
+interface UsePresenceOptions {
+    /** Stable per-browser id so several tabs and devices aggregate */
+    deviceId?: string;
+    status?: DeviceStatus;
+    currentUserId?: string;
+}
+
+const HEARTBEAT_INTERVAL = 15000; // 15 seconds, a third of the server TTL
+const DEVICE_ID_KEY = 'presence:deviceId';
+
+function getDeviceId(): string {
+    const existing = localStorage.getItem(DEVICE_ID_KEY);
+    if (existing) return existing;
+
+    const deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    return deviceId;
+}
+
+export const usePresence = (threadId: string, options: UsePresenceOptions = {}) => {
+    const [participants, setParticipants] = useState<ThreadPresence[]>([]);
+    const { status = 'online', currentUserId } = options;
+    const deviceId = useRef(options.deviceId);
+
+    const post = useCallback(async (body: Record<string, unknown>) => {
+        deviceId.current ??= getDeviceId();
+        await fetch('/api/chat/presence', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ deviceId: deviceId.current, threadId, status, ...body })
+        });
+    }, [threadId, status]);
+
+    const refresh = useCallback(async () => {
+        const response = await fetch(`/api/chat/presence?threadId=${encodeURIComponent(threadId)}`);
+        if (response.ok) {
+            const data = await response.json();
+            setParticipants(data.participants ?? []);
+        }
+    }, [threadId]);
+
+    useEffect(() => {
+        const beat = async () => {
+            try {
+                await post({});
+                await refresh();
+            } catch (error) {
+                console.error('Error sending presence heartbeat:', error);
+            }
+        };
+
+        beat();
+        const heartbeatInterval = setInterval(beat, HEARTBEAT_INTERVAL);
+
+        return () => {
+            clearInterval(heartbeatInterval);
+            if (deviceId.current) {
+                fetch('/api/chat/presence', {
+                    method: 'DELETE',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ deviceId: deviceId.current }),
+                    keepalive: true
+                }).catch(() => undefined);
+            }
+        };
+    }, [post, refresh]);
+
+    const setTyping = useCallback(async (isTyping: boolean) => {
+        try {
+            await post({ isTyping });
+        } catch (error) {
+            console.error('Error updating typing status:', error);
+        }
+    }, [post]);
+
+    return {
+        participants,
+        typists: participants.filter(p => p.isTyping && p.userId !== currentUserId).map(p => p.userId),
+        setTyping,
+        refresh
+    };
+};
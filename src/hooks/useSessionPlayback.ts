@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SessionPlayback, type PlaybackFrame, type SessionRecording } from '@/services/recording';
+import type { DifficultyTrajectoryPoint } from '@/ai/difficulty';
+
+interface UseSessionPlaybackOptions {
+  enabled?: boolean;
+}
+
+interface UseSessionPlaybackReturn {
+  frame: PlaybackFrame | null;
+  /** Timeline position, -1 before the first event */
+  index: number;
+  length: number;
+  durationMs: number;
+  /** How the simulated client's difficulty moved over the session */
+  difficulty: DifficultyTrajectoryPoint[];
+  isLoading: boolean;
+  error: Error | null;
+  step: (count?: number) => void;
+  stepToNextMessage: () => void;
+  seek: (index: number) => void;
+  seekToTime: (offsetMs: number) => void;
+  annotate: (note: string) => Promise<void>;
+  reload: () => Promise<void>;
+}
+
+export function useSessionPlayback(
+  sessionId: string,
+  options: UseSessionPlaybackOptions = {}
+): UseSessionPlaybackReturn {
+  const { enabled = true } = options;
+  const playbackRef = useRef<SessionPlayback | null>(null);
+  const [frame, setFrame] = useState<PlaybackFrame | null>(null);
+  const [index, setIndex] = useState(-1);
+  const [difficulty, setDifficulty] = useState<DifficultyTrajectoryPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<Error | null>(null);
+
+  const update = useCallback((next: PlaybackFrame) => {
+    setFrame(next);
+    setIndex(playbackRef.current?.index ?? -1);
+  }, []);
+
+  const reload = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/sessions/${sessionId}/recording`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'No recording for this session' : 'Failed to load recording');
+      }
+      const { recording, difficulty: trajectory } = (await response.json()) as {
+        recording: SessionRecording;
+        difficulty?: DifficultyTrajectoryPoint[];
+      };
+      setDifficulty(trajectory ?? []);
+
+      // Keep the cursor where it was so annotating does not rewind playback
+      const previousIndex = playbackRef.current?.index ?? -1;
+      playbackRef.current = new SessionPlayback(recording);
+      update(playbackRef.current.seek(previousIndex));
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load recording'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, update]);
+
+  useEffect(() => {
+    playbackRef.current = null;
+    if (enabled) {
+      reload();
+    }
+  }, [enabled, reload]);
+
+  const step = useCallback((count: number = 1) => {
+    if (playbackRef.current) update(playbackRef.current.step(count));
+  }, [update]);
+
+  const stepToNextMessage = useCallback(() => {
+    if (playbackRef.current) update(playbackRef.current.stepToNextMessage());
+  }, [update]);
+
+  const seek = useCallback((target: number) => {
+    if (playbackRef.current) update(playbackRef.current.seek(target));
+  }, [update]);
+
+  const seekToTime = useCallback((offsetMs: number) => {
+    if (playbackRef.current) update(playbackRef.current.seekToTime(offsetMs));
+  }, [update]);
+
+  const annotate = useCallback(async (note: string) => {
+    if (!frame || frame.cursor < 0) return;
+
+    const response = await fetch(`/api/sessions/${sessionId}/recording`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ atSequence: frame.cursor, note })
+    });
+    if (!response.ok) {
+      throw new Error('Failed to save annotation');
+    }
+    await reload();
+  }, [frame, sessionId, reload]);
+
+  return {
+    frame,
+    index,
+    length: playbackRef.current?.length ?? 0,
+    durationMs: playbackRef.current?.durationMs ?? 0,
+    difficulty,
+    isLoading,
+    error,
+    step,
+    stepToNextMessage,
+    seek,
+    seekToTime,
+    annotate,
+    reload
+  };
+}
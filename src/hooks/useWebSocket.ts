@@ -1,15 +1,25 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useAuth } from "./useAuth";
+import { OfflineOutbox, OutboxDraft, OutboxServerState, toFrame } from '../services/chat/outbox';
 
 type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'reconnecting' | 'stalled';
 
+interface UseWebSocketOptions {
+  /** Queues operations sent while disconnected and replays them on (re)connect */
+  outbox?: OfflineOutbox;
+  /** Server view used to resolve replay conflicts; must be stable across renders */
+  serverState?: OutboxServerState;
+}
+
 interface UseWebSocketReturn {
-  sendMessage: (message: string) => void;
+  /** With an outbox, `operation` is queued instead of dropped while disconnected */
+  sendMessage: (message: string, operation?: OutboxDraft) => void;
   lastMessage: MessageEvent | null;
   connectionStatus: ConnectionStatus;
 }
 
-export const useWebSocket = (url: string): UseWebSocketReturn => {
+export const useWebSocket = (url: string, options: UseWebSocketOptions = {}): UseWebSocketReturn => {
+  const { outbox, serverState } = options;
   const [lastMessage, setLastMessage] = useState<MessageEvent | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
   const { user, getToken } = useAuth();
@@ -58,6 +68,21 @@ export const useWebSocket = (url: string): UseWebSocketReturn => {
     }, heartbeatInterval);
   }, [checkStall]);
 
+  const replayOutbox = useCallback(async () => {
+    if (!outbox || !serverState) return;
+
+    try {
+      await outbox.replay((operation) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) {
+          throw new Error('WebSocket is not connected');
+        }
+        ws.current.send(toFrame(operation));
+      }, serverState);
+    } catch (error) {
+      console.error('Error replaying outbox:', error);
+    }
+  }, [outbox, serverState]);
+
   const connect = useCallback(async () => {
     try {
       if (ws.current?.readyState === WebSocket.OPEN) {
@@ -79,6 +104,7 @@ export const useWebSocket = (url: string): UseWebSocketReturn => {
         reconnectAttempts.current = 0;
         lastMessageTime.current = Date.now();
         startHeartbeat();
+        replayOutbox();
       };
 
       ws.current.onclose = () => {
@@ -117,7 +143,7 @@ export const useWebSocket = (url: string): UseWebSocketReturn => {
       console.error('Error connecting to WebSocket:', error);
       scheduleReconnect();
     }
-  }, [url, getToken, startHeartbeat, checkStall]);
+  }, [url, getToken, startHeartbeat, checkStall, replayOutbox]);
 
   const scheduleReconnect = useCallback(() => {
     if (reconnectAttempts.current >= maxReconnectAttempts) {
@@ -141,18 +167,22 @@ export const useWebSocket = (url: string): UseWebSocketReturn => {
     }, delay);
   }, [connect]);
 
-  const sendMessage = useCallback((message: string) => {
+  const sendMessage = useCallback((message: string, operation?: OutboxDraft) => {
     if (ws.current?.readyState === WebSocket.OPEN) {
       ws.current.send(message);
       lastMessageTime.current = Date.now();
     } else {
-      console.error('WebSocket is not connected');
+      if (outbox && operation) {
+        outbox.enqueue(operation).catch(error => console.error('Error queueing offline operation:', error));
+      } else {
+        console.error('WebSocket is not connected');
+      }
       if (connectionStatus === 'connected') {
         setConnectionStatus('stalled');
         scheduleReconnect();
       }
     }
-  }, [connectionStatus, scheduleReconnect]);
+  }, [connectionStatus, scheduleReconnect, outbox]);
 
   // Connect on mount or when URL/user changes
   useEffect(() => {
@@ -0,0 +1,21 @@
+import { detectBoundaryIssues, detectPHI } from '../output-patterns';
+
+describe('Output patterns', () => {
+  it('should name the identifier types found in text', () => {
+    expect(detectPHI('Call me at 555-123-4567 or write to jo@example.com')).toEqual(['phone', 'email']);
+    expect(detectPHI('Her SSN is 123-45-6789 and MRN 88231')).toEqual(['ssn', 'medical_record']);
+  });
+
+  it('should not flag ordinary therapeutic language', () => {
+    const text = 'It sounds like last week was hard. What helped you get through Tuesday?';
+    expect(detectPHI(text)).toEqual([]);
+    expect(detectBoundaryIssues(text)).toEqual([]);
+  });
+
+  it('should describe boundary-crossing language', () => {
+    expect(detectBoundaryIssues('We could grab a coffee sometime, just text me')).toEqual([
+      'Offer of contact outside the therapeutic setting',
+      'Sharing personal contact details'
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Identifier and boundary patterns for message text. HIPAAService and
+ * EthicsService apply them to session content, and the backend's output
+ * guardrails import them from here so both flag the same things.
+ */
+
+export const PHI_PATTERNS: Record<string, RegExp> = {
+  ssn: /\b\d{3}-\d{2}-\d{4}\b/,
+  phone: /\b\d{3}[-.)]\s?\d{3}[-.]\d{4}\b/,
+  email: /\b[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/,
+  date_of_birth: /\b(born on|date of birth|dob)\b[^.!?]*\d/i,
+  medical_record: /\b(mrn|medical record( number)?)\b[^.!?]*\d/i,
+};
+
+export const BOUNDARY_PATTERNS: Array<{ pattern: RegExp; issue: string }> = [
+  {
+    pattern: /\b(meet (up|me)|grab (a )?(coffee|drink|dinner)|hang out)\b/i,
+    issue: 'Offer of contact outside the therapeutic setting',
+  },
+  {
+    pattern: /\b(my (personal )?(number|phone|email|instagram)|text me|add me on)\b/i,
+    issue: 'Sharing personal contact details',
+  },
+  {
+    pattern: /\b(i love you|i'?m in love|date you|be your (friend|partner))\b/i,
+    issue: 'Personal or romantic relationship language',
+  },
+];
+
+/** Names of the identifier types found in `text` */
+export function detectPHI(text: string): string[] {
+  return Object.entries(PHI_PATTERNS)
+    .filter(([, pattern]) => pattern.test(text))
+    .map(([type]) => type);
+}
+
+/** Descriptions of the boundary issues found in `text` */
+export function detectBoundaryIssues(text: string): string[] {
+  return BOUNDARY_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(
+    ({ issue }) => issue,
+  );
+}
@@ -3,6 +3,7 @@ import { cache } from 'react';
 import { nanoid } from 'nanoid';
 import { ZKChatMessage, ZKSession } from '@/lib/zk/types';
 import { Logger } from '@/lib/logger';
+import { PresenceService, PresenceStatus, ThreadPresence } from '../../../lib/services/PresenceService';
 
 const logger = new Logger('chat-cache');
 
@@ -12,13 +13,11 @@ const CACHE_CONFIG = {
     message: 300, // 5 minutes
     thread: 600, // 10 minutes
     session: 1800, // 30 minutes
-    presence: 60, // 1 minute
   },
   prefix: {
     message: 'chat:message:',
     thread: 'chat:thread:',
     session: 'chat:session:',
-    presence: 'chat:presence:',
   },
   maxBatchSize: 50,
 };
@@ -43,8 +42,17 @@ interface PresenceInfo {
   threadId: string;
   lastSeen: string;
   isTyping: boolean;
+  status: PresenceStatus;
 }
 
+const toPresenceInfo = (presence: ThreadPresence): PresenceInfo => ({
+  userId: presence.userId,
+  threadId: presence.threadId,
+  lastSeen: new Date(presence.lastSeen ?? Date.now()).toISOString(),
+  isTyping: presence.isTyping,
+  status: presence.status,
+});
+
 // Message caching
 export const cacheMessage = cache(async (
   message: ZKChatMessage,
@@ -117,23 +125,19 @@ export const cacheThread = cache(async (
   }
 });
 
-// Presence tracking
+// Presence tracking; expiry, device aggregation and fan-out live in PresenceService
 export const updatePresence = cache(async (
   userId: string,
   threadId: string,
-  isTyping: boolean = false
+  isTyping: boolean = false,
+  deviceId: string = 'default'
 ) => {
   try {
-    const presenceKey = `${CACHE_CONFIG.prefix.presence}${threadId}:${userId}`;
-    const presenceInfo: PresenceInfo = {
-      userId,
-      threadId,
-      lastSeen: new Date().toISOString(),
-      isTyping,
-    };
+    const presence = PresenceService.getInstance();
+    const user = await presence.heartbeat(userId, deviceId, { threadId });
+    await presence.setTyping(userId, threadId, isTyping);
 
-    await kv.set(presenceKey, presenceInfo, { ex: CACHE_CONFIG.ttl.presence });
-    return presenceInfo;
+    return toPresenceInfo({ ...user, threadId, isTyping });
   } catch (error) {
     logger.error('Failed to update presence', error as Error);
     throw error;
@@ -143,15 +147,8 @@ export const updatePresence = cache(async (
 // Get thread participants' presence
 export const getThreadPresence = cache(async (threadId: string): Promise<PresenceInfo[]> => {
   try {
-    const pattern = `${CACHE_CONFIG.prefix.presence}${threadId}:*`;
-    const keys = await kv.keys(pattern);
-    
-    if (keys.length === 0) {
-      return [];
-    }
-
-    const presenceInfos = await kv.mget<PresenceInfo[]>(...keys);
-    return presenceInfos.filter(Boolean);
+    const participants = await PresenceService.getInstance().getThreadPresence(threadId);
+    return participants.map(toPresenceInfo);
   } catch (error) {
     logger.error('Failed to get thread presence', error as Error);
     return [];
@@ -218,12 +215,14 @@ export const invalidateThread = cache(async (threadId: string): Promise<void> =>
 
 export const invalidatePresence = cache(async (
   userId: string,
-  threadId: string
+  threadId: string,
+  deviceId: string = 'default'
 ): Promise<void> => {
   try {
-    const presenceKey = `${CACHE_CONFIG.prefix.presence}${threadId}:${userId}`;
-    await kv.del(presenceKey);
+    const presence = PresenceService.getInstance();
+    await presence.setTyping(userId, threadId, false);
+    await presence.disconnect(userId, deviceId);
   } catch (error) {
     logger.error('Failed to invalidate presence', error as Error);
   }
-}); 
\ No newline at end of file
+});
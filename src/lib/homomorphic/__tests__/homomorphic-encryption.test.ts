@@ -1,4 +1,8 @@
-import { HomomorphicEncryption, HomomorphicConfig } from '../homomorphic-encryption';
+import {
+  HomomorphicEncryption,
+  HomomorphicConfig,
+  HomomorphicEncryptionError
+} from '../homomorphic-encryption';
 
 describe('HomomorphicEncryption', () => {
   let encryption: HomomorphicEncryption;
@@ -71,6 +75,63 @@ describe('HomomorphicEncryption', () => {
       
       expect(decrypted).toEqual(expected);
     });
+
+    it('should perform homomorphic subtraction', async () => {
+      const encrypted1 = await encryption.encrypt([5, 7, 9]);
+      const encrypted2 = await encryption.encrypt([1, 2, 3]);
+
+      const result = await encryption.subtract(encrypted2, encrypted1);
+
+      expect(await encryption.decrypt(result)).toEqual([-4, -5, -6]);
+    });
+
+    it('should track the noise budget and refuse multiplications that would exhaust it', async () => {
+      let encrypted = await encryption.encrypt([1, 2]);
+      const fresh = encryption.noiseBudget(encrypted);
+      let squarings = 0;
+
+      let error: unknown;
+      try {
+        for (;;) {
+          encrypted = await encryption.multiply(encrypted, encrypted);
+          squarings++;
+        }
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(HomomorphicEncryptionError);
+      expect((error as HomomorphicEncryptionError).code).toBe('noise_budget_exhausted');
+      expect(squarings).toBeGreaterThan(0);
+      expect(encryption.noiseBudget(encrypted)).toBeLessThan(fresh);
+      // The last ciphertext that was allowed still decrypts correctly
+      expect(await encryption.decrypt(encrypted)).toEqual([1, Math.pow(2, Math.pow(2, squarings))]);
+    });
+
+    it('should measure the noise budget rather than trust the envelope', async () => {
+      const encrypted = await encryption.encrypt([1, 2]);
+      const squared = await encryption.multiply(encrypted, encrypted);
+      const forged = HomomorphicEncryption.deserialize(
+        HomomorphicEncryption.serialize({ ...squared, noise_budget: 1000 })
+      );
+
+      expect(encryption.noiseBudget(forged)).toBe(encryption.noiseBudget(squared));
+      expect(encryption.noiseBudget(forged)).toBeLessThan(encryption.noiseBudget(encrypted));
+    });
+
+    it('should reject fractional scalars', async () => {
+      const encrypted = await encryption.encrypt([1, 2, 3]);
+      await expect(encryption.multiplyPlain(encrypted, 0.5)).rejects.toThrow('BFV scalars must be integers');
+    });
+
+    it('should round-trip ciphertexts through serialization', async () => {
+      const encrypted = await encryption.encrypt([4, 5, 6]);
+      const restored = HomomorphicEncryption.deserialize(HomomorphicEncryption.serialize(encrypted));
+
+      expect(await encryption.decrypt(restored)).toEqual([4, 5, 6]);
+      expect(() => HomomorphicEncryption.deserialize('{"data":1}')).toThrow(HomomorphicEncryptionError);
+      expect(() => HomomorphicEncryption.deserialize('not json')).toThrow(HomomorphicEncryptionError);
+    });
   });
 
   describe('CKKS Scheme', () => {
@@ -146,10 +207,66 @@ describe('HomomorphicEncryption', () => {
         expect(value).toBeCloseTo(expected[index], 4);
       });
     });
+
+    it('should combine ciphertexts at different levels', async () => {
+      const encrypted = await encryption.encrypt([1.5, 2.5]);
+      const squared = await encryption.multiply(encrypted, encrypted);
+
+      expect(squared.chain_index).toBe(encrypted.chain_index! - 1);
+
+      const result = await encryption.subtract(squared, encrypted);
+      const decrypted = await encryption.decrypt(result);
+
+      expect(decrypted).toHaveLength(2);
+      expect(decrypted[0]).toBeCloseTo(0.75, 4);
+      expect(decrypted[1]).toBeCloseTo(3.75, 4);
+    });
+
+    it('should refuse multiplications once the modulus chain is exhausted', async () => {
+      const encrypted = await encryption.encrypt([2]);
+      const squared = await encryption.multiply(encrypted, encrypted);
+      const fourth = await encryption.multiply(squared, squared);
+
+      expect(encryption.noiseBudget(fourth)).toBe(0);
+      expect((await encryption.decrypt(fourth))[0]).toBeCloseTo(16, 3);
+      await expect(encryption.multiplyPlain(fourth, 2)).rejects.toMatchObject({
+        code: 'noise_budget_exhausted'
+      });
+    });
+  });
+
+  describe('Evaluation-only instances', () => {
+    it('should compute with public keys but refuse to decrypt', async () => {
+      const evaluator = await HomomorphicEncryption.withPublicKeys(encryption.exportPublicKeys());
+
+      const product = await evaluator.multiply(
+        await evaluator.encrypt([2, 3]),
+        await encryption.encrypt([4, 5])
+      );
+
+      expect(await encryption.decrypt(product)).toEqual([8, 15]);
+      await expect(evaluator.decrypt(product)).rejects.toMatchObject({ code: 'secret_key_unavailable' });
+      expect(() => evaluator.exportPublicKeys()).toThrow(HomomorphicEncryptionError);
+      evaluator.destroy();
+    });
+
+    it('should treat ciphertexts from elsewhere as fresh encryptions', async () => {
+      const keys = encryption.exportPublicKeys();
+      const evaluator = await HomomorphicEncryption.withPublicKeys(keys);
+      const encrypted = await encryption.encrypt([1, 2]);
+      const squared = await evaluator.multiply(encrypted, encrypted);
+
+      expect(evaluator.noiseBudget(squared)).toBeLessThan(keys.freshNoiseBudget!);
+      // Its own prediction is conservative, but a claimed budget is ignored
+      expect(evaluator.noiseBudget(squared)).toBeLessThanOrEqual(encryption.noiseBudget(squared));
+      expect(evaluator.noiseBudget({ ...encrypted, noise_budget: 1000 })).toBe(keys.freshNoiseBudget);
+      evaluator.destroy();
+    });
   });
 
   describe('Error Handling', () => {
     it('should throw error when context is not initialized', async () => {
+      HomomorphicEncryption.getInstance().destroy();
       const encryption = HomomorphicEncryption.getInstance();
       await expect(encryption.encrypt([1, 2, 3])).rejects.toThrow(
         'Homomorphic encryption context not initialized'
@@ -1,4 +1,4 @@
-import * as SEAL from 'node-seal';
+import SEAL from 'node-seal';
 import { EncryptedData } from '@/types/services/encryption';
 
 /**
@@ -9,11 +9,15 @@ export interface HomomorphicConfig {
   polyModulusDegree: 4096 | 8192 | 16384;
   securityLevel: 128 | 192 | 256;
   scheme: 'bfv' | 'ckks';
+  // Operations predicted to leave less BFV noise budget than this are refused
+  minNoiseBudget: number;
 }
 
 export interface HomomorphicContext {
   publicKey: any;
+  // Null on evaluation-only instances, which cannot decrypt
   secretKey: any;
+  relinKeys: any;
   encryptor: any;
   decryptor: any;
   evaluator: any;
@@ -24,29 +28,103 @@ export interface HomomorphicContext {
 export interface HomomorphicEncryptedData extends EncryptedData {
   scheme: 'bfv' | 'ckks';
   scale?: number;
+  // CKKS: rescales left before the modulus chain runs out
   chain_index?: number;
+  // BFV: bits of noise budget left; decryption fails once it reaches zero
+  noise_budget?: number;
 }
 
+/**
+ * Everything a party needs to encrypt and compute on ciphertexts without
+ * being able to decrypt them
+ */
+export interface HomomorphicPublicKeys {
+  scheme: 'bfv' | 'ckks';
+  polyModulusDegree: HomomorphicConfig['polyModulusDegree'];
+  securityLevel: HomomorphicConfig['securityLevel'];
+  publicKey: string;
+  relinKeys: string;
+  // BFV: noise budget of a fresh encryption, measured by the key holder
+  freshNoiseBudget?: number;
+}
+
+export type HomomorphicEncryptionErrorCode =
+  | 'not_initialized'
+  | 'secret_key_unavailable'
+  | 'invalid_parameters'
+  | 'invalid_operand'
+  | 'scheme_mismatch'
+  | 'noise_budget_exhausted';
+
+export class HomomorphicEncryptionError extends Error {
+  constructor(message: string, public readonly code: HomomorphicEncryptionErrorCode) {
+    super(message);
+    this.name = 'HomomorphicEncryptionError';
+  }
+}
+
+const CKKS_SCALE = Math.pow(2, 40);
+const BFV_PLAIN_MODULUS_BITS = 20;
+
 export class HomomorphicEncryption {
-  private static instance: HomomorphicEncryption;
+  // One instance per scheme, so BFV counts and CKKS reals can be used side by side
+  private static instances = new Map<HomomorphicConfig['scheme'], HomomorphicEncryption>();
   private readonly config: HomomorphicConfig;
   private seal: any;
   private context: HomomorphicContext | null = null;
+  // Budgets of ciphertexts this instance produced without a secret key to measure them
+  private readonly predictedBudgets = new WeakMap<HomomorphicEncryptedData, { data: string; budget: number }>();
+  private freshNoiseBudget = 0;
 
   private constructor(config: Partial<HomomorphicConfig> = {}) {
     this.config = {
       polyModulusDegree: 8192,
       securityLevel: 128,
       scheme: 'bfv',
+      minNoiseBudget: 10,
       ...config
     };
   }
 
   public static getInstance(config?: Partial<HomomorphicConfig>): HomomorphicEncryption {
-    if (!HomomorphicEncryption.instance) {
-      HomomorphicEncryption.instance = new HomomorphicEncryption(config);
+    const scheme = config?.scheme ?? 'bfv';
+    if (!HomomorphicEncryption.instances.has(scheme)) {
+      HomomorphicEncryption.instances.set(scheme, new HomomorphicEncryption(config));
+    }
+    return HomomorphicEncryption.instances.get(scheme)!;
+  }
+
+  /**
+   * An evaluation-only instance for a party that combines ciphertexts but
+   * must not decrypt them. It is not shared through getInstance.
+   */
+  public static async withPublicKeys(keys: HomomorphicPublicKeys): Promise<HomomorphicEncryption> {
+    const instance = new HomomorphicEncryption({
+      scheme: keys.scheme,
+      polyModulusDegree: keys.polyModulusDegree,
+      securityLevel: keys.securityLevel
+    });
+    const context = await instance.createSealContext();
+
+    const publicKey = instance.seal.PublicKey();
+    const relinKeys = instance.seal.RelinKeys();
+    try {
+      publicKey.load(context, keys.publicKey);
+      relinKeys.load(context, keys.relinKeys);
+    } catch (error) {
+      publicKey.delete();
+      relinKeys.delete();
+      context.delete();
+      throw new HomomorphicEncryptionError('Public keys could not be loaded', 'invalid_parameters');
     }
-    return HomomorphicEncryption.instance;
+
+    instance.context = instance.createTools(context, publicKey, relinKeys, null);
+    instance.freshNoiseBudget = keys.freshNoiseBudget ?? 0;
+    return instance;
+  }
+
+  public get scheme(): HomomorphicConfig['scheme'] {
+    return this.config.scheme;
   }
 
   /**
@@ -55,14 +133,259 @@ export class HomomorphicEncryption {
   public async initialize(): Promise<void> {
     if (this.context) return;
 
+    const context = await this.createSealContext();
+
+    // Generate keys
+    const keyGenerator = this.seal.KeyGenerator(context);
+    const publicKey = keyGenerator.createPublicKey();
+    const secretKey = keyGenerator.secretKey();
+    const relinKeys = keyGenerator.createRelinKeys();
+    keyGenerator.delete();
+
+    this.context = this.createTools(context, publicKey, relinKeys, secretKey);
+  }
+
+  /**
+   * Keys for withPublicKeys; requires the secret key, to measure the
+   * budget of a fresh BFV encryption
+   */
+  public exportPublicKeys(): HomomorphicPublicKeys {
+    const context = this.requireSecretKey();
+    const keys: HomomorphicPublicKeys = {
+      scheme: this.config.scheme,
+      polyModulusDegree: this.config.polyModulusDegree,
+      securityLevel: this.config.securityLevel,
+      publicKey: context.publicKey.save(),
+      relinKeys: context.relinKeys.save()
+    };
+
+    if (this.config.scheme === 'bfv') {
+      const encoded = this.encode([0]);
+      const encrypted = context.encryptor.encrypt(encoded);
+      keys.freshNoiseBudget = context.decryptor.invariantNoiseBudget(encrypted);
+      encoded.delete();
+      encrypted.delete();
+    }
+
+    return keys;
+  }
+
+  /**
+   * Encrypt data using homomorphic encryption
+   */
+  public async encrypt(data: number[]): Promise<HomomorphicEncryptedData> {
+    const context = this.requireContext();
+
+    if (data.length === 0 || data.length > context.encoder.slotCount) {
+      throw new HomomorphicEncryptionError(
+        `Expected between 1 and ${context.encoder.slotCount} values`,
+        'invalid_operand'
+      );
+    }
+
+    const encoded = this.encode(data);
+    const encrypted = context.encryptor.encrypt(encoded);
+    encoded.delete();
+
+    return this.wrap(encrypted, data.length, {
+      polyModulusDegree: this.config.polyModulusDegree,
+      securityLevel: this.config.securityLevel
+    }, this.freshNoiseBudget);
+  }
+
+  /**
+   * Decrypt homomorphically encrypted data
+   */
+  public async decrypt(encryptedData: HomomorphicEncryptedData): Promise<number[]> {
+    const context = this.requireSecretKey();
+    this.assertScheme(encryptedData);
+
+    const encrypted = this.load(encryptedData);
+    // Budgets tracked without the secret key are predictions; this is the actual one
+    if (this.config.scheme === 'bfv' && context.decryptor.invariantNoiseBudget(encrypted) === 0) {
+      encrypted.delete();
+      throw new HomomorphicEncryptionError(
+        'Ciphertext has no noise budget left and would not decrypt correctly',
+        'noise_budget_exhausted'
+      );
+    }
+    const decrypted = context.decryptor.decrypt(encrypted);
+    // BFV decodes signed integers, CKKS floating point numbers
+    const decoded = this.config.scheme === 'bfv'
+      ? context.encoder.decode(decrypted, true)
+      : context.encoder.decode(decrypted);
+    encrypted.delete();
+    decrypted.delete();
+
+    return Array.from(decoded as ArrayLike<number>).slice(0, this.length(encryptedData));
+  }
+
+  /**
+   * Perform addition on encrypted values
+   */
+  public async add(
+    a: HomomorphicEncryptedData,
+    b: HomomorphicEncryptedData
+  ): Promise<HomomorphicEncryptedData> {
+    return this.combine('add', a, b);
+  }
+
+  /**
+   * Perform subtraction (a - b) on encrypted values
+   */
+  public async subtract(
+    a: HomomorphicEncryptedData,
+    b: HomomorphicEncryptedData
+  ): Promise<HomomorphicEncryptedData> {
+    return this.combine('sub', a, b);
+  }
+
+  /**
+   * Perform multiplication on encrypted values
+   */
+  public async multiply(
+    a: HomomorphicEncryptedData,
+    b: HomomorphicEncryptedData
+  ): Promise<HomomorphicEncryptedData> {
+    const context = this.requireContext();
+    this.assertScheme(a);
+    this.assertScheme(b);
+
+    let predicted: number | undefined;
+    if (this.config.scheme === 'bfv') {
+      // Multiplication noise grows with the plain modulus and ring dimension
+      const cost = BFV_PLAIN_MODULUS_BITS + Math.log2(this.config.polyModulusDegree);
+      predicted = Math.min(this.budget(a), this.budget(b)) - cost;
+      this.assertNoiseBudget('multiply', predicted);
+    } else {
+      this.assertLevelsLeft('multiply', a, b);
+    }
+
+    const [encryptedA, encryptedB] = this.alignOperands(this.load(a), this.load(b));
+    const result = context.evaluator.multiply(encryptedA, encryptedB);
+    context.evaluator.relinearize(result, context.relinKeys, result);
+    if (this.config.scheme === 'ckks') {
+      context.evaluator.rescaleToNext(result, result);
+    }
+    encryptedA.delete();
+    encryptedB.delete();
+
+    return this.wrap(result, this.length(a, b), { operation: 'multiply' }, predicted);
+  }
+
+  /**
+   * Perform scalar multiplication on encrypted value
+   */
+  public async multiplyPlain(
+    encrypted: HomomorphicEncryptedData,
+    scalar: number
+  ): Promise<HomomorphicEncryptedData> {
+    const context = this.requireContext();
+    this.assertScheme(encrypted);
+
+    let predicted: number | undefined;
+    if (this.config.scheme === 'bfv') {
+      if (!Number.isInteger(scalar)) {
+        throw new HomomorphicEncryptionError('BFV scalars must be integers', 'invalid_operand');
+      }
+      const cost = Math.ceil(Math.log2(Math.abs(scalar) + 1)) + 1;
+      predicted = this.budget(encrypted) - cost;
+      this.assertNoiseBudget('multiplyPlain', predicted);
+    } else {
+      this.assertLevelsLeft('multiplyPlain', encrypted);
+    }
+
+    const encryptedValue = this.load(encrypted);
+    // The scalar fills every slot so it applies to the whole vector
+    const encoded = this.encode(new Array(context.encoder.slotCount).fill(scalar));
+    if (this.config.scheme === 'ckks') {
+      context.evaluator.plainModSwitchTo(encoded, encryptedValue.parmsId, encoded);
+    }
+
+    const result = context.evaluator.multiplyPlain(encryptedValue, encoded);
+    if (this.config.scheme === 'ckks') {
+      context.evaluator.rescaleToNext(result, result);
+    }
+    encryptedValue.delete();
+    encoded.delete();
+
+    return this.wrap(result, this.length(encrypted), { operation: 'multiply_plain', scalar }, predicted);
+  }
+
+  /**
+   * Remaining noise budget in bits (BFV) or rescales left (CKKS). An
+   * operation that would exhaust it is refused rather than producing a
+   * ciphertext that no longer decrypts correctly. Both are taken from the
+   * ciphertext, never from the noise_budget and chain_index it arrived
+   * with. Without the secret key a BFV budget can't be measured, so
+   * ciphertexts from elsewhere count as fresh encryptions and decrypt
+   * checks the actual budget.
+   */
+  public noiseBudget(encrypted: HomomorphicEncryptedData): number {
+    this.assertScheme(encrypted);
+    return this.config.scheme === 'bfv' ? this.budget(encrypted) : this.level(encrypted);
+  }
+
+  /**
+   * Serialize a ciphertext for storage
+   */
+  public static serialize(encrypted: HomomorphicEncryptedData): string {
+    return JSON.stringify(encrypted);
+  }
+
+  /**
+   * Restore a ciphertext saved with serialize. Only the envelope is checked
+   * here; the ciphertext itself is validated, and its budget measured, when
+   * it is next used.
+   */
+  public static deserialize(serialized: string): HomomorphicEncryptedData {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(serialized);
+    } catch (error) {
+      throw new HomomorphicEncryptionError('Serialized ciphertext is not valid JSON', 'invalid_operand');
+    }
+
+    if (
+      !parsed ||
+      typeof parsed.data !== 'string' ||
+      (parsed.scheme !== 'bfv' && parsed.scheme !== 'ckks') ||
+      parsed.algorithm !== `SEAL-${String(parsed.scheme).toUpperCase()}` ||
+      typeof parsed.metadata !== 'object' || parsed.metadata === null
+    ) {
+      throw new HomomorphicEncryptionError('Serialized ciphertext is malformed', 'invalid_operand');
+    }
+
+    return parsed as HomomorphicEncryptedData;
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    if (this.context) {
+      this.context.publicKey.delete();
+      this.context.secretKey?.delete();
+      this.context.relinKeys.delete();
+      this.context.encryptor.delete();
+      this.context.decryptor?.delete();
+      this.context.evaluator.delete();
+      this.context.encoder.delete();
+      this.context.context.delete();
+      this.context = null;
+    }
+  }
+
+  private async createSealContext(): Promise<any> {
     this.seal = await SEAL();
-    
-    const schemeType = this.config.scheme === 'bfv' 
+
+    const schemeType = this.config.scheme === 'bfv'
       ? this.seal.SchemeType.bfv
       : this.seal.SchemeType.ckks;
+    const securityLevel = this.seal.SecurityLevel[`tc${this.config.securityLevel}`];
 
     const encParams = this.seal.EncryptionParameters(schemeType);
-    
+
     // Set the polynomial modulus degree
     encParams.setPolyModulusDegree(this.config.polyModulusDegree);
 
@@ -71,41 +394,42 @@ export class HomomorphicEncryption {
       encParams.setCoeffModulus(
         this.seal.CoeffModulus.BFVDefault(
           this.config.polyModulusDegree,
-          this.config.securityLevel
+          securityLevel
         )
       );
       // Set plain modulus to a prime that supports batching
       encParams.setPlainModulus(
         this.seal.PlainModulus.Batching(
           this.config.polyModulusDegree,
-          20
+          BFV_PLAIN_MODULUS_BITS
         )
       );
     } else {
-      // For CKKS scheme
+      // For CKKS scheme; the two 40-bit primes allow two rescales
       encParams.setCoeffModulus(
         this.seal.CoeffModulus.Create(
           this.config.polyModulusDegree,
-          [60, 40, 40, 60]
+          Int32Array.from([60, 40, 40, 60])
         )
       );
     }
 
     // Create context
-    const context = this.seal.Context(
-      encParams,
-      true,
-      this.config.securityLevel
-    );
+    const context = this.seal.Context(encParams, true, securityLevel);
+    if (!context.parametersSet()) {
+      throw new HomomorphicEncryptionError(
+        `Invalid ${this.config.scheme.toUpperCase()} parameters: ${context.parameterErrorMessage()}`,
+        'invalid_parameters'
+      );
+    }
 
-    // Generate keys
-    const keyGenerator = this.seal.KeyGenerator(context);
-    const publicKey = keyGenerator.createPublicKey();
-    const secretKey = keyGenerator.secretKey();
+    return context;
+  }
 
+  private createTools(context: any, publicKey: any, relinKeys: any, secretKey: any): HomomorphicContext {
     // Create encryption tools
     const encryptor = this.seal.Encryptor(context, publicKey);
-    const decryptor = this.seal.Decryptor(context, secretKey);
+    const decryptor = secretKey ? this.seal.Decryptor(context, secretKey) : null;
     const evaluator = this.seal.Evaluator(context);
 
     // Create encoder based on scheme
@@ -113,9 +437,10 @@ export class HomomorphicEncryption {
       ? this.seal.BatchEncoder(context)
       : this.seal.CKKSEncoder(context);
 
-    this.context = {
+    return {
       publicKey,
       secretKey,
+      relinKeys,
       encryptor,
       decryptor,
       evaluator,
@@ -124,201 +449,192 @@ export class HomomorphicEncryption {
     };
   }
 
-  /**
-   * Encrypt data using homomorphic encryption
-   */
-  public async encrypt(data: number[]): Promise<HomomorphicEncryptedData> {
-    if (!this.context) {
-      throw new Error('Homomorphic encryption context not initialized');
-    }
+  private combine(
+    operation: 'add' | 'sub',
+    a: HomomorphicEncryptedData,
+    b: HomomorphicEncryptedData
+  ): HomomorphicEncryptedData {
+    const context = this.requireContext();
+    this.assertScheme(a);
+    this.assertScheme(b);
 
-    let encoded;
+    let predicted: number | undefined;
     if (this.config.scheme === 'bfv') {
-      // BFV scheme - encode integers
-      encoded = this.context.encoder.encode(Int32Array.from(data));
-    } else {
-      // CKKS scheme - encode floating point numbers
-      encoded = this.context.encoder.encode(
-        Float64Array.from(data),
-        Math.pow(2, 40)
-      );
+      // Noise terms add up, so the result has a little less budget than the worse operand
+      predicted = -Math.log2(Math.pow(2, -this.budget(a)) + Math.pow(2, -this.budget(b)));
+      this.assertNoiseBudget(operation === 'add' ? 'add' : 'subtract', predicted);
     }
 
-    const encrypted = this.context.encryptor.encrypt(encoded);
-    const serialized = encrypted.save();
+    const [encryptedA, encryptedB] = this.alignOperands(this.load(a), this.load(b));
+    const result = context.evaluator[operation](encryptedA, encryptedB);
+    encryptedA.delete();
+    encryptedB.delete();
 
-    return {
-      data: Buffer.from(serialized).toString('base64'),
-      iv: '', // Not needed for homomorphic encryption
-      algorithm: `SEAL-${this.config.scheme.toUpperCase()}`,
-      keyId: '', // Not applicable
-      metadata: {
-        polyModulusDegree: this.config.polyModulusDegree,
-        securityLevel: this.config.securityLevel,
-        timestamp: new Date().toISOString()
-      },
-      scheme: this.config.scheme,
-      scale: this.config.scheme === 'ckks' ? Math.pow(2, 40) : undefined,
-      chain_index: encrypted.chainIndex
-    };
+    return this.wrap(result, this.length(a, b), {
+      operation: operation === 'add' ? 'add' : 'subtract'
+    }, predicted);
   }
 
   /**
-   * Decrypt homomorphically encrypted data
+   * CKKS operands must share a level and scale. The operand with more
+   * levels left is switched down; scales that drifted apart through
+   * rescaling by primes close to 2^40 are snapped together.
    */
-  public async decrypt(encryptedData: HomomorphicEncryptedData): Promise<number[]> {
-    if (!this.context) {
-      throw new Error('Homomorphic encryption context not initialized');
+  private alignOperands(a: any, b: any): [any, any] {
+    if (this.config.scheme !== 'ckks') {
+      return [a, b];
     }
 
-    const encrypted = this.seal.Ciphertext();
-    encrypted.load(
-      this.context.context,
-      Buffer.from(encryptedData.data, 'base64')
-    );
-
-    const decrypted = this.context.decryptor.decrypt(encrypted);
-    
-    if (this.config.scheme === 'bfv') {
-      // BFV scheme - decode integers
-      const decoded = this.context.encoder.decode(decrypted);
-      return Array.from(decoded);
-    } else {
-      // CKKS scheme - decode floating point numbers
-      const decoded = this.context.encoder.decode(decrypted);
-      return Array.from(decoded);
+    const { context, evaluator } = this.requireContext();
+    const levelA = context.getContextData(a.parmsId).chainIndex;
+    const levelB = context.getContextData(b.parmsId).chainIndex;
+    if (levelA > levelB) {
+      evaluator.cipherModSwitchTo(a, b.parmsId, a);
+    } else if (levelB > levelA) {
+      evaluator.cipherModSwitchTo(b, a.parmsId, b);
     }
-  }
 
-  /**
-   * Perform addition on encrypted values
-   */
-  public async add(
-    a: HomomorphicEncryptedData,
-    b: HomomorphicEncryptedData
-  ): Promise<HomomorphicEncryptedData> {
-    if (!this.context) {
-      throw new Error('Homomorphic encryption context not initialized');
+    if (Math.abs(Math.log2(a.scale) - Math.log2(b.scale)) > 1e-3) {
+      throw new HomomorphicEncryptionError('CKKS operand scales do not match', 'invalid_operand');
     }
+    b.setScale(a.scale);
 
-    const encryptedA = this.seal.Ciphertext();
-    const encryptedB = this.seal.Ciphertext();
+    return [a, b];
+  }
 
-    encryptedA.load(this.context.context, Buffer.from(a.data, 'base64'));
-    encryptedB.load(this.context.context, Buffer.from(b.data, 'base64'));
+  private encode(values: number[]): any {
+    const { encoder } = this.requireContext();
+    if (this.config.scheme === 'bfv') {
+      // BFV scheme - encode integers
+      return encoder.encode(Int32Array.from(values));
+    }
+    // CKKS scheme - encode floating point numbers
+    return encoder.encode(Float64Array.from(values), CKKS_SCALE);
+  }
 
-    const result = this.context.evaluator.add(encryptedA, encryptedB);
-    const serialized = result.save();
+  private load(encryptedData: HomomorphicEncryptedData): any {
+    const { context } = this.requireContext();
+    const encrypted = this.seal.CipherText();
+    try {
+      encrypted.load(context, encryptedData.data);
+    } catch (error) {
+      encrypted.delete();
+      throw new HomomorphicEncryptionError('Ciphertext could not be loaded', 'invalid_operand');
+    }
+    return encrypted;
+  }
 
-    return {
-      data: Buffer.from(serialized).toString('base64'),
-      iv: '',
+  private wrap(
+    encrypted: any,
+    length: number | undefined,
+    metadata: Record<string, unknown>,
+    predictedBudget?: number
+  ): HomomorphicEncryptedData {
+    const context = this.requireContext();
+    const wrapped: HomomorphicEncryptedData = {
+      data: encrypted.save(),
+      iv: '', // Not needed for homomorphic encryption
       algorithm: `SEAL-${this.config.scheme.toUpperCase()}`,
-      keyId: '',
+      keyId: '', // Not applicable
       metadata: {
-        operation: 'add',
+        ...metadata,
+        length,
         timestamp: new Date().toISOString()
       },
-      scheme: this.config.scheme,
-      scale: this.config.scheme === 'ckks' ? Math.pow(2, 40) : undefined,
-      chain_index: result.chainIndex
+      scheme: this.config.scheme
     };
-  }
 
-  /**
-   * Perform multiplication on encrypted values
-   */
-  public async multiply(
-    a: HomomorphicEncryptedData,
-    b: HomomorphicEncryptedData
-  ): Promise<HomomorphicEncryptedData> {
-    if (!this.context) {
-      throw new Error('Homomorphic encryption context not initialized');
+    if (this.config.scheme === 'bfv') {
+      wrapped.noise_budget = context.decryptor
+        ? context.decryptor.invariantNoiseBudget(encrypted)
+        : Math.max(0, Math.floor(predictedBudget ?? this.freshNoiseBudget));
+      this.predictedBudgets.set(wrapped, { data: wrapped.data, budget: wrapped.noise_budget! });
+    } else {
+      wrapped.scale = encrypted.scale;
+      wrapped.chain_index = context.context.getContextData(encrypted.parmsId).chainIndex;
     }
 
-    const encryptedA = this.seal.Ciphertext();
-    const encryptedB = this.seal.Ciphertext();
-
-    encryptedA.load(this.context.context, Buffer.from(a.data, 'base64'));
-    encryptedB.load(this.context.context, Buffer.from(b.data, 'base64'));
-
-    const result = this.context.evaluator.multiply(encryptedA, encryptedB);
-    const serialized = result.save();
-
-    return {
-      data: Buffer.from(serialized).toString('base64'),
-      iv: '',
-      algorithm: `SEAL-${this.config.scheme.toUpperCase()}`,
-      keyId: '',
-      metadata: {
-        operation: 'multiply',
-        timestamp: new Date().toISOString()
-      },
-      scheme: this.config.scheme,
-      scale: this.config.scheme === 'ckks' ? Math.pow(2, 40) : undefined,
-      chain_index: result.chainIndex
-    };
+    encrypted.delete();
+    return wrapped;
   }
 
   /**
-   * Perform scalar multiplication on encrypted value
+   * Number of meaningful slots; ciphertexts from before lengths were
+   * recorded decrypt to every slot
    */
-  public async multiplyPlain(
-    encrypted: HomomorphicEncryptedData,
-    scalar: number
-  ): Promise<HomomorphicEncryptedData> {
-    if (!this.context) {
-      throw new Error('Homomorphic encryption context not initialized');
+  private length(...operands: HomomorphicEncryptedData[]): number | undefined {
+    const lengths = operands
+      .map(operand => operand.metadata?.length)
+      .filter((length): length is number => typeof length === 'number');
+    return lengths.length === operands.length ? Math.max(...lengths) : undefined;
+  }
+
+  private budget(encryptedData: HomomorphicEncryptedData): number {
+    const { decryptor } = this.requireContext();
+    if (!decryptor) {
+      const predicted = this.predictedBudgets.get(encryptedData);
+      return predicted && predicted.data === encryptedData.data ? predicted.budget : this.freshNoiseBudget;
     }
+    const encrypted = this.load(encryptedData);
+    const budget = decryptor.invariantNoiseBudget(encrypted);
+    encrypted.delete();
+    return budget;
+  }
 
-    const encryptedValue = this.seal.Ciphertext();
-    encryptedValue.load(
-      this.context.context,
-      Buffer.from(encrypted.data, 'base64')
-    );
+  private level(encryptedData: HomomorphicEncryptedData): number {
+    const { context } = this.requireContext();
+    const encrypted = this.load(encryptedData);
+    const level = context.getContextData(encrypted.parmsId).chainIndex;
+    encrypted.delete();
+    return level;
+  }
 
-    let encoded;
-    if (this.config.scheme === 'bfv') {
-      encoded = this.context.encoder.encode([scalar]);
-    } else {
-      encoded = this.context.encoder.encode(
-        [scalar],
-        Math.pow(2, 40)
+  private assertNoiseBudget(operation: string, predicted: number): void {
+    if (predicted < this.config.minNoiseBudget) {
+      throw new HomomorphicEncryptionError(
+        `Refusing ${operation}: about ${Math.max(0, Math.floor(predicted))} bits of noise budget ` +
+        `would remain, below the minimum of ${this.config.minNoiseBudget}`,
+        'noise_budget_exhausted'
       );
     }
+  }
 
-    const result = this.context.evaluator.multiplyPlain(encryptedValue, encoded);
-    const serialized = result.save();
+  private assertLevelsLeft(operation: string, ...operands: HomomorphicEncryptedData[]): void {
+    if (operands.some(operand => this.level(operand) < 1)) {
+      throw new HomomorphicEncryptionError(
+        `Refusing ${operation}: the CKKS modulus chain is exhausted`,
+        'noise_budget_exhausted'
+      );
+    }
+  }
 
-    return {
-      data: Buffer.from(serialized).toString('base64'),
-      iv: '',
-      algorithm: `SEAL-${this.config.scheme.toUpperCase()}`,
-      keyId: '',
-      metadata: {
-        operation: 'multiply_plain',
-        scalar,
-        timestamp: new Date().toISOString()
-      },
-      scheme: this.config.scheme,
-      scale: this.config.scheme === 'ckks' ? Math.pow(2, 40) : undefined,
-      chain_index: result.chainIndex
-    };
+  private assertScheme(encryptedData: HomomorphicEncryptedData): void {
+    if (encryptedData.scheme !== this.config.scheme) {
+      throw new HomomorphicEncryptionError(
+        `Expected ${this.config.scheme.toUpperCase()} ciphertext, got ${String(encryptedData.scheme).toUpperCase()}`,
+        'scheme_mismatch'
+      );
+    }
   }
 
-  /**
-   * Clean up resources
-   */
-  public destroy(): void {
-    if (this.context) {
-      this.context.publicKey.delete();
-      this.context.secretKey.delete();
-      this.context.encryptor.delete();
-      this.context.decryptor.delete();
-      this.context.evaluator.delete();
-      this.context.encoder.delete();
-      this.context.context.delete();
-      this.context = null;
+  private requireSecretKey(): HomomorphicContext {
+    const context = this.requireContext();
+    if (!context.decryptor) {
+      throw new HomomorphicEncryptionError(
+        'This instance only holds public keys and cannot decrypt',
+        'secret_key_unavailable'
+      );
     }
+    return context;
   }
-} 
\ No newline at end of file
+
+  private requireContext(): HomomorphicContext {
+    if (!this.context) {
+      throw new HomomorphicEncryptionError(
+        'Homomorphic encryption context not initialized',
+        'not_initialized'
+      );
+    }
+    return this.context;
+  }
+}
@@ -1,85 +1,20 @@
-import type { ClientProfile } from '@/types/clientprofile';
 import { ClientDocument } from '@/types/database.types';
-interface ClientProfile {
-    id: string;
-    age: number;
-    primary_issue: string;
-    complexity: string;
-    background: string;
-    key_traits: string[];
-    behavioral_patterns: string[];
-    communication_style: string;
-    defense_mechanisms: string[];
-    treatment_history: string;
-    therapeutic_challenges: string[];
-    description: string;
-    metadata?: {
-        history?: {
-            knownTriggers?: string[];
-        };
-        goals?: string[];
-    };
-}
-export const generateClientPrompt = (client: ClientProfile): string => {
-    return `You are roleplaying as ${client.name}, a therapy client with the following profile:
-
-Basic Information:
-- Age: ${client.age}
-- Primary Issue: ${client.primary_issue}
-- Complexity Level: ${client.complexity}
-
-Background:
-${client.background}
-
-Key Characteristics:
-- Personality Traits: ${client.key_traits.join(', ')}
-- Behavioral Patterns: ${client.behavioral_patterns.join(', ')}
-- Communication Style: ${client.communication_style}
-- Defense Mechanisms: ${client.defense_mechanisms.join(', ')}
+import { CLIENT_ROLEPLAY_TEMPLATE_ID, PromptRegistry, type ClientProfile, type PromptLocale } from './prompts';
+
+export type { ClientProfile };
 
-Therapeutic Context:
-- Treatment History: ${client.treatment_history}
-- Therapeutic Challenges: ${client.therapeutic_challenges.join(', ')}
-
-Response Guidelines:
-1. Maintain Consistent Character:
-   - Express thoughts and emotions in alignment with the client's profile
-   - Use language and communication patterns that match the client's style
-   - Show appropriate resistance and defense mechanisms
-
-2. Emotional Expression:
-   - Display emotional patterns typical for this client
-   - React authentically to therapeutic interventions
-   - Show appropriate vulnerability or resistance based on the context
-
-3. Defense Mechanisms:
-   - Utilize specified defense mechanisms naturally in responses
-   - Show how these mechanisms protect from emotional pain
-   - Demonstrate typical patterns of avoiding or engaging with difficult topics
-
-4. Therapeutic Relationship:
-   - Maintain the client's characteristic way of relating to therapists
-   - Show typical patterns of engagement or resistance
-   - React to therapeutic interventions in character-appropriate ways
-
-5. Behavioral Consistency:
-   - Demonstrate characteristic behavioral patterns
-   - Show typical reactions to stress or emotional triggers
-   - Maintain consistent level of functioning and impairment
-
-Never:
-- Break character or provide meta-commentary
-- Explain the roleplay or acknowledge being an AI
-- Provide therapeutic insights from a therapist's perspective
-- Suddenly change behavioral patterns without context
-
-Begin the session showing characteristic opening behaviors and communication style.`;
+/**
+ * Render the roleplay system prompt from the latest registered template.
+ * Use `PromptRegistry` directly when the template version needs recording.
+ */
+export const generateClientPrompt = (client: ClientProfile, locale?: PromptLocale): string => {
+    return PromptRegistry.getInstance().render(CLIENT_ROLEPLAY_TEMPLATE_ID, client, { locale }).content;
 };
 export const generateAnalysisPrompt = (messages: Array<{
     role: 'user' | 'assistant';
     content: string;
 }>, client: ClientProfile): string => {
-    return `Analyze this therapy session with ${client.name} who presents with ${client.primary_issue}.
+    return `Analyze this therapy session with ${client.name || 'the client'} who presents with ${client.primary_issue}.
 
 Session Context:
 - Client Profile: ${client.description}
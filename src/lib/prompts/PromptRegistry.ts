@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { clientProfileSchema, getSchemaPaths } from './schema';
+import { CLIENT_ROLEPLAY_TEMPLATE_ID, clientRoleplayTemplates } from './templates/clientRoleplay';
+import { PromptTemplateError, PromptTemplateNotFoundError, PromptValidationError } from './errors';
+import {
+  DEFAULT_PROMPT_LOCALE,
+  PROMPT_LOCALES,
+  PromptLocale,
+  PromptTemplate,
+  RenderOptions,
+  RenderedPrompt,
+  SessionPromptRecord
+} from './types';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g;
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+}
+
+function readPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+/**
+ * Versioned, locale-aware registry of roleplay prompt templates. Templates
+ * are checked against the client profile schema when registered, so a
+ * placeholder for a field that does not exist fails at startup rather than
+ * rendering "undefined" into a live session.
+ */
+export class PromptRegistry {
+  private static instance: PromptRegistry;
+  // templateId -> locale -> version -> template
+  private templates: Map<string, Map<PromptLocale, Map<string, PromptTemplate>>> = new Map();
+  private readonly allowedPaths: Set<string>;
+
+  constructor(templates: PromptTemplate[] = clientRoleplayTemplates) {
+    this.allowedPaths = new Set(getSchemaPaths(clientProfileSchema));
+    templates.forEach(template => this.register(template));
+  }
+
+  public static getInstance(): PromptRegistry {
+    if (!PromptRegistry.instance) {
+      PromptRegistry.instance = new PromptRegistry();
+    }
+    return PromptRegistry.instance;
+  }
+
+  /**
+   * Register a template version. Published versions are immutable: changing
+   * the wording requires a new version number.
+   */
+  public register(template: PromptTemplate): void {
+    this.validateTemplate(template);
+
+    const byLocale = this.templates.get(template.id) ?? new Map<PromptLocale, Map<string, PromptTemplate>>();
+    const byVersion = byLocale.get(template.locale) ?? new Map<string, PromptTemplate>();
+
+    const existing = byVersion.get(template.version);
+    if (existing && existing.body !== template.body) {
+      throw new PromptTemplateError(
+        `Template ${template.id}@${template.version} (${template.locale}) is already registered with different content`
+      );
+    }
+
+    byVersion.set(template.version, template);
+    byLocale.set(template.locale, byVersion);
+    this.templates.set(template.id, byLocale);
+  }
+
+  /**
+   * List the versions available for a template in a locale, oldest first
+   */
+  public listVersions(templateId: string, locale: PromptLocale = DEFAULT_PROMPT_LOCALE): string[] {
+    const byVersion = this.templates.get(templateId)?.get(locale);
+    return byVersion ? Array.from(byVersion.keys()).sort(compareVersions) : [];
+  }
+
+  /**
+   * Resolve a template, falling back to the default locale when the requested
+   * locale has no variant for that version.
+   */
+  public getTemplate(templateId: string, options: RenderOptions = {}): PromptTemplate {
+    const byLocale = this.templates.get(templateId);
+    if (!byLocale) {
+      throw new PromptTemplateNotFoundError(templateId);
+    }
+
+    const locales: PromptLocale[] = [options.locale ?? DEFAULT_PROMPT_LOCALE, DEFAULT_PROMPT_LOCALE];
+    for (const locale of locales) {
+      const byVersion = byLocale.get(locale);
+      if (!byVersion) continue;
+
+      if (options.version) {
+        const pinned = byVersion.get(options.version);
+        if (pinned) return pinned;
+        continue;
+      }
+
+      const latest = this.listVersions(templateId, locale).pop();
+      if (latest) return byVersion.get(latest)!;
+    }
+
+    throw new PromptTemplateNotFoundError(templateId, options.version);
+  }
+
+  /**
+   * Validate a client profile and render a template for it
+   */
+  public render(templateId: string, profile: unknown, options: RenderOptions = {}): RenderedPrompt {
+    const parsed = clientProfileSchema.safeParse(profile);
+    if (!parsed.success) {
+      throw new PromptValidationError(
+        'Client profile does not match schema',
+        parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      );
+    }
+
+    const template = this.getTemplate(templateId, options);
+    const content = template.body.replace(PLACEHOLDER_PATTERN, (_, path: string, fallback?: string) => {
+      const value = readPath(parsed.data, path);
+      const text = Array.isArray(value) ? value.join(', ') : value == null ? '' : String(value);
+      return text || (fallback ?? '').trim();
+    });
+
+    return {
+      templateId: template.id,
+      version: template.version,
+      locale: template.locale,
+      content,
+      checksum: this.checksum(template)
+    };
+  }
+
+  /**
+   * Record which template version produced a session's prompt so evaluation
+   * results can be grouped by prompt revision. Pass the caller's client so
+   * the insert runs under their session's RLS policies.
+   */
+  public async recordSessionPrompt(
+    sessionId: string,
+    prompt: RenderedPrompt,
+    client: SupabaseClient = supabase
+  ): Promise<void> {
+    const record: SessionPromptRecord = {
+      session_id: sessionId,
+      template_id: prompt.templateId,
+      template_version: prompt.version,
+      locale: prompt.locale,
+      checksum: prompt.checksum,
+      created_at: new Date().toISOString()
+    };
+
+    const { error } = await client.from('session_prompt_versions').insert(record);
+    if (error) {
+      throw new Error(`Failed to record prompt version for session ${sessionId}: ${error.message}`);
+    }
+  }
+
+  public async getSessionPrompts(
+    sessionId: string,
+    client: SupabaseClient = supabase
+  ): Promise<SessionPromptRecord[]> {
+    const { data, error } = await client
+      .from('session_prompt_versions')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as SessionPromptRecord[];
+  }
+
+  /**
+   * Render the roleplay prompt for a session turn. The first turn records
+   * the template version it used; later turns are pinned to that version so
+   * a template release mid-session does not change how the client is played.
+   */
+  public async renderForSession(
+    sessionId: string,
+    profile: unknown,
+    options: RenderOptions & { templateId?: string; client?: SupabaseClient } = {}
+  ): Promise<RenderedPrompt> {
+    const { templateId = CLIENT_ROLEPLAY_TEMPLATE_ID, client = supabase, ...renderOptions } = options;
+
+    const recorded = (await this.getSessionPrompts(sessionId, client))
+      .find(record => record.template_id === templateId);
+    if (recorded) {
+      return this.render(templateId, profile, { version: recorded.template_version, locale: recorded.locale });
+    }
+
+    const prompt = this.render(templateId, profile, renderOptions);
+    await this.recordSessionPrompt(sessionId, prompt, client);
+    return prompt;
+  }
+
+  private validateTemplate(template: PromptTemplate): void {
+    const issues: string[] = [];
+
+    if (!template.id) issues.push('id is required');
+    if (!VERSION_PATTERN.test(template.version)) issues.push(`version "${template.version}" is not semver (x.y.z)`);
+    if (!PROMPT_LOCALES.includes(template.locale)) issues.push(`unsupported locale "${template.locale}"`);
+
+    for (const match of Array.from(template.body.matchAll(PLACEHOLDER_PATTERN))) {
+      if (!this.allowedPaths.has(match[1])) {
+        issues.push(`placeholder {{${match[1]}}} is not a ClientProfile field`);
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new PromptValidationError(`Invalid template ${template.id}@${template.version}`, issues);
+    }
+  }
+
+  private checksum(template: PromptTemplate): string {
+    return createHash('sha256').update(template.body).digest('hex').slice(0, 16);
+  }
+}
@@ -0,0 +1,172 @@
+import { PromptRegistry } from '../PromptRegistry';
+import { CLIENT_ROLEPLAY_TEMPLATE_ID } from '../templates/clientRoleplay';
+import { PromptTemplateError, PromptTemplateNotFoundError, PromptValidationError } from '../errors';
+import { ClientProfile } from '../schema';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn()
+  }
+}));
+
+const profile: ClientProfile = {
+  id: 'client-1',
+  name: 'Alex',
+  age: 34,
+  primary_issue: 'Generalized anxiety',
+  complexity: 'moderate',
+  background: 'Works in finance, recently promoted.',
+  key_traits: ['perfectionistic', 'guarded'],
+  behavioral_patterns: ['overworking'],
+  communication_style: 'Intellectualizing',
+  defense_mechanisms: ['rationalization', 'humor'],
+  treatment_history: 'No prior therapy',
+  therapeutic_challenges: ['difficulty trusting'],
+  description: 'Anxious professional',
+  metadata: { history: { knownTriggers: ['criticism'] } }
+};
+
+describe('PromptRegistry', () => {
+  let registry: PromptRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    registry = new PromptRegistry();
+  });
+
+  describe('render', () => {
+    it('should render the client roleplay prompt from the profile', () => {
+      const prompt = registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, profile);
+
+      expect(prompt.version).toBe('1.0.0');
+      expect(prompt.locale).toBe('en');
+      expect(prompt.content).toContain('You are roleplaying as Alex');
+      expect(prompt.content).toContain('- Defense Mechanisms: rationalization, humor');
+      expect(prompt.content).not.toContain('{{');
+      expect(prompt.checksum).toHaveLength(16);
+    });
+
+    it('should use the placeholder fallback when the name is missing', () => {
+      const { name, ...anonymous } = profile;
+      const prompt = registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, anonymous);
+
+      expect(prompt.content).toContain('You are roleplaying as a therapy client,');
+    });
+
+    it('should render locale variants', () => {
+      expect(registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, profile, { locale: 'de' }).content).toContain('Alter: 34');
+      expect(registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, profile, { locale: 'es' }).content).toContain('Edad: 34');
+      expect(registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, profile, { locale: 'fr' }).content).toContain('Âge : 34');
+    });
+
+    it('should reject profiles that do not match the schema', () => {
+      expect(() => registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, { ...profile, age: 'thirty' })).toThrow(
+        PromptValidationError
+      );
+    });
+  });
+
+  describe('versioning', () => {
+    const v2 = {
+      id: CLIENT_ROLEPLAY_TEMPLATE_ID,
+      version: '1.1.0',
+      locale: 'en' as const,
+      body: 'You are {{name}}, dealing with {{primary_issue}}. Triggers: {{metadata.history.knownTriggers|none}}'
+    };
+
+    it('should render the latest version unless one is pinned', () => {
+      registry.register(v2);
+
+      expect(registry.listVersions(CLIENT_ROLEPLAY_TEMPLATE_ID)).toEqual(['1.0.0', '1.1.0']);
+      expect(registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, profile).content).toBe(
+        'You are Alex, dealing with Generalized anxiety. Triggers: criticism'
+      );
+      expect(registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, profile, { version: '1.0.0' }).version).toBe('1.0.0');
+    });
+
+    it('should fall back to English when a locale has no variant for the version', () => {
+      registry.register(v2);
+      const prompt = registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, profile, { locale: 'fr', version: '1.1.0' });
+
+      expect(prompt.locale).toBe('en');
+      expect(prompt.version).toBe('1.1.0');
+    });
+
+    it('should refuse to change a published version', () => {
+      expect(() => registry.register({ ...v2, version: '1.0.0', body: 'changed' })).toThrow(PromptTemplateError);
+    });
+
+    it('should reject placeholders that are not ClientProfile fields', () => {
+      expect(() => registry.register({ ...v2, version: '2.0.0', body: 'Hello {{nickname}}' })).toThrow(
+        /\{\{nickname\}\} is not a ClientProfile field/
+      );
+    });
+
+    it('should throw for unknown templates and versions', () => {
+      expect(() => registry.getTemplate('missing')).toThrow(PromptTemplateNotFoundError);
+      expect(() => registry.getTemplate(CLIENT_ROLEPLAY_TEMPLATE_ID, { version: '9.9.9' })).toThrow(
+        PromptTemplateNotFoundError
+      );
+    });
+  });
+
+  describe('recordSessionPrompt', () => {
+    it('should store the template version used for a session', async () => {
+      const insert = jest.fn().mockResolvedValue({ error: null });
+      (supabase.from as jest.Mock).mockReturnValue({ insert });
+
+      const prompt = registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, profile, { locale: 'es' });
+      await registry.recordSessionPrompt('session-1', prompt);
+
+      expect(supabase.from).toHaveBeenCalledWith('session_prompt_versions');
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          session_id: 'session-1',
+          template_id: CLIENT_ROLEPLAY_TEMPLATE_ID,
+          template_version: '1.0.0',
+          locale: 'es',
+          checksum: prompt.checksum
+        })
+      );
+    });
+  });
+
+  describe('renderForSession', () => {
+    const sessionClient = (records: unknown[]) => {
+      const insert = jest.fn().mockResolvedValue({ error: null });
+      const order = jest.fn().mockResolvedValue({ data: records, error: null });
+      const select = jest.fn(() => ({ eq: jest.fn(() => ({ order })) }));
+      return { client: { from: jest.fn(() => ({ select, insert })) }, insert };
+    };
+
+    it('should record the version used on the first turn', async () => {
+      const { client, insert } = sessionClient([]);
+
+      const prompt = await registry.renderForSession('session-1', profile, { locale: 'de', client: client as any });
+
+      expect(prompt.version).toBe('1.0.0');
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({ session_id: 'session-1', template_version: '1.0.0', locale: 'de' })
+      );
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should pin later turns to the recorded version', async () => {
+      const v2 = { ...registry.getTemplate(CLIENT_ROLEPLAY_TEMPLATE_ID), version: '2.0.0', body: 'Play {{name}}.' };
+      registry.register(v2);
+      const { client, insert } = sessionClient([{
+        session_id: 'session-1',
+        template_id: CLIENT_ROLEPLAY_TEMPLATE_ID,
+        template_version: '1.0.0',
+        locale: 'en'
+      }]);
+
+      const prompt = await registry.renderForSession('session-1', profile, { client: client as any });
+
+      expect(prompt.version).toBe('1.0.0');
+      expect(prompt.content).toContain('You are roleplaying as Alex');
+      expect(insert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,23 @@
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export class PromptTemplateNotFoundError extends PromptTemplateError {
+  constructor(templateId: string, version?: string) {
+    super(`Prompt template not found: ${templateId}${version ? `@${version}` : ''}`);
+    this.name = 'PromptTemplateNotFoundError';
+  }
+}
+
+export class PromptValidationError extends PromptTemplateError {
+  public readonly issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(`${message}: ${issues.join('; ')}`);
+    this.name = 'PromptValidationError';
+    this.issues = issues;
+  }
+}
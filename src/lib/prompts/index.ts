@@ -0,0 +1,5 @@
+export * from './types';
+export * from './errors';
+export { clientProfileSchema, getSchemaPaths, type ClientProfile } from './schema';
+export { CLIENT_ROLEPLAY_TEMPLATE_ID, clientRoleplayTemplates } from './templates/clientRoleplay';
+export { PromptRegistry } from './PromptRegistry';
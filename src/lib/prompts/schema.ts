@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+/**
+ * Schema for the simulated client profiles used in roleplay prompts. Prompt
+ * templates are validated against this schema when they are registered, and
+ * profiles are validated against it when a template is rendered.
+ */
+export const clientProfileSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).optional(),
+  age: z.number().int().positive(),
+  primary_issue: z.string().min(1),
+  complexity: z.string().min(1),
+  background: z.string(),
+  key_traits: z.array(z.string()),
+  behavioral_patterns: z.array(z.string()),
+  communication_style: z.string(),
+  defense_mechanisms: z.array(z.string()),
+  treatment_history: z.string(),
+  therapeutic_challenges: z.array(z.string()),
+  description: z.string(),
+  metadata: z
+    .object({
+      history: z
+        .object({
+          knownTriggers: z.array(z.string()).optional()
+        })
+        .optional(),
+      goals: z.array(z.string()).optional()
+    })
+    .optional()
+});
+
+export type ClientProfile = z.infer<typeof clientProfileSchema>;
+
+/**
+ * List every dot-separated field path a template may reference
+ */
+export function getSchemaPaths(schema: z.ZodTypeAny = clientProfileSchema, prefix = ''): string[] {
+  let inner = schema;
+  while (
+    inner instanceof z.ZodOptional ||
+    inner instanceof z.ZodNullable ||
+    inner instanceof z.ZodDefault
+  ) {
+    inner = inner instanceof z.ZodDefault ? inner._def.innerType : inner.unwrap();
+  }
+
+  if (!(inner instanceof z.ZodObject)) {
+    return prefix ? [prefix] : [];
+  }
+
+  const paths: string[] = prefix ? [prefix] : [];
+  for (const [key, value] of Object.entries(inner.shape as z.ZodRawShape)) {
+    paths.push(...getSchemaPaths(value, prefix ? `${prefix}.${key}` : key));
+  }
+  return paths;
+}
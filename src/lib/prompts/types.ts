@@ -0,0 +1,44 @@
+/** Locales with translated prompt variants, matching src/lib/i18n/locales */
+export const PROMPT_LOCALES = ['en', 'de', 'es', 'fr'] as const;
+
+export type PromptLocale = (typeof PROMPT_LOCALES)[number];
+
+export const DEFAULT_PROMPT_LOCALE: PromptLocale = 'en';
+
+export interface PromptTemplate {
+  id: string;
+  /** Semantic version, bumped whenever the wording changes */
+  version: string;
+  locale: PromptLocale;
+  description?: string;
+  /**
+   * Template body. `{{path}}` inserts a profile field (arrays are joined with
+   * ", "), `{{path|fallback}}` inserts the fallback when the field is empty.
+   */
+  body: string;
+}
+
+export interface RenderOptions {
+  locale?: PromptLocale;
+  /** Pin a specific version instead of the latest */
+  version?: string;
+}
+
+export interface RenderedPrompt {
+  templateId: string;
+  version: string;
+  /** Locale actually used, which may differ from the requested one after fallback */
+  locale: PromptLocale;
+  content: string;
+  /** Hash of the template body, to detect edits that forgot a version bump */
+  checksum: string;
+}
+
+export interface SessionPromptRecord {
+  session_id: string;
+  template_id: string;
+  template_version: string;
+  locale: PromptLocale;
+  checksum: string;
+  created_at: string;
+}
@@ -0,0 +1,225 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import {
+  MlDsaParameterSet,
+  mlDsaKeyGenInternal,
+  mlDsaSign,
+  mlDsaSignInternal,
+  mlDsaSizes,
+  mlDsaVerify
+} from '../ml-dsa';
+import {
+  MlKemParameterSet,
+  mlKemDecaps,
+  mlKemEncaps,
+  mlKemEncapsInternal,
+  mlKemKeyGenInternal,
+  mlKemSizes
+} from '../ml-kem';
+import { concatBytes } from '../shake';
+
+const sha3 = (data: Uint8Array) => createHash('sha3-256').update(data).digest('hex');
+const hex = (value: string) => new Uint8Array(Buffer.from(value, 'hex'));
+const toHex = (value: Uint8Array) => Buffer.from(value).toString('hex');
+const utf8 = (value: string) => new TextEncoder().encode(value);
+
+/**
+ * Cross-implementation vectors, not NIST ACVP known-answer files: each
+ * expected value is the SHA3-256 digest of what another implementation
+ * produced for the same input. Key generation from fixed seeds comes from
+ * the OpenSSL 3.5 ML-KEM and ML-DSA providers.
+ */
+const ML_KEM_KEYGEN_CROSS_VECTORS: Array<{ set: MlKemParameterSet; seed: string; ek: string; dk: string }> = [
+  {
+    set: 512,
+    seed: 'cc3537ef9362a5b50b79895fda26ae596c563e7fbca83adcf876ce70e8ff72a95c358e99d1fcb6f1e9613dfe869dca9273bcfa12ab2df040acbdb379b67c882d',
+    ek: '1dd958fd8d31c49fdaa28f4c9ff2f122eb0c52c44b90143c3021f0c2475115a9',
+    dk: '94671241a2bbd03192c3762f2660adc8fb20ea4def62e3d8fac50b2b434df5e5'
+  },
+  {
+    set: 768,
+    seed: 'fe0c8f62a3f7862fd478326cd1fe2da3f585a8267cac1a62062381e629251e0988c0d754f10b9098131f3972679e54d3df250f3c2d6570b7e57ea30c5f07027a',
+    ek: 'cfb80fddad76e3caed7af4b691b520dbccdc8bc84f2e7695e6bf99a3fb28490b',
+    dk: 'b3fb1e038f4053250459f4dfd65bfe857eaa55b0e9c879fc35ee4b84e15ed4b2'
+  },
+  {
+    set: 1024,
+    seed: '6c2206a5c34b6d4b4364a5f4d7498293e6ca917f37c708ca2f91605d36e5c6afa034c3dac981756d3cedc31b9db67b08335ca475e005586490b42e3495f86bcd',
+    ek: 'baef60b3ff179d26c04622c77e435841c844ce56d65262ec65963b806ea42558',
+    dk: 'a8039e6e2ca995a0b10b7a427491b05e5142dc87913a2b7eccf44daf26002ff2'
+  }
+];
+
+const ML_DSA_KEYGEN_CROSS_VECTORS: Array<{ set: MlDsaParameterSet; seed: string; pk: string; sk: string }> = [
+  {
+    set: 44,
+    seed: '8dd44c70e5366abdf3b82b075e6502be9695ffac0320c0d54d88c00ab2d9f361',
+    pk: '0de3a3663c109639a5fd382ce6cb028cc98682e02647205d0e13c6706b520cc8',
+    sk: '105da579d7d0d0bfdf24297ba316a3c0d663ebbdcf1a595fbc843408f48e0c44'
+  },
+  {
+    set: 65,
+    seed: '4f596ba9765d9933786e58a7a472d2b5ff55f272ad76c220e1195bbcaeff1376',
+    pk: 'f10b6ae0e4d19c5ea706f20f9051b2a73cf5d72765ed12e30cf399ae7f439699',
+    sk: '56e74e61aa553f7b6c442e7cce996dbbc9b6b1f34b9d108d16d2a399579b3fb2'
+  },
+  {
+    set: 87,
+    seed: '72aac9940b8c7ee1a32441e9c8bbdc8e736bb84980038ae5c7926f6342eca62e',
+    pk: 'ffd753c90b06f06bff7f35486a8e78ea4bc19600f2d6a18d19d455c0a71b5bab',
+    sk: '087b0826e74398f00fa39628d0d8cbeb2ea2ed1c9cf286c669a5952e23412ff2'
+  }
+];
+
+/**
+ * Internal encapsulation with a fixed m and deterministic signing with
+ * rnd = 0, over the keys above, as computed by @noble/post-quantum 0.2.
+ * OpenSSL 3.5 also verifies the signatures.
+ */
+const ML_KEM_ENCAPS_M = 'd8b990e2ed4b7c22f644e102f5aa05efdf0c5dca0f7e4f080f78aae38cf570a0';
+
+const ML_KEM_ENCAPS_CROSS_VECTORS: Array<{ set: MlKemParameterSet; c: string; k: string }> = [
+  {
+    set: 512,
+    c: 'ab440f146e7cadaeca33c97fe5504e7aa45974e90b12dc3268ac9c90bd9173f0',
+    k: 'a691919672cfb85cd2ba49a46e9293669e105edaaad15ae2aa750d6d1677b5f8'
+  },
+  {
+    set: 768,
+    c: 'ed278b0223b2dfe253feed4dc8b03eb179ba37442c42c96cbfa45798b1b193a6',
+    k: '997e73417a6dbe5e043b991a5a669104408d9033d716fa180a0c657a8bf26abc'
+  },
+  {
+    set: 1024,
+    c: 'c962141bfd7bc5ea59036ec03bf10b46b5b00b024f038fb2f63a51526f62c946',
+    k: 'e08e0efd5bda8f9d93ace80b38d022e8bb19894b909ae4cedb1215d74c1d8a6f'
+  }
+];
+
+const ML_DSA_SIGN_MESSAGE = 'Session transcript digest';
+
+const ML_DSA_SIGN_CROSS_VECTORS: Array<{ set: MlDsaParameterSet; signature: string }> = [
+  { set: 44, signature: 'a5d8d40057edbc0e40fc5494e82a5d2bc248c88b4f309a5cd88b190bbb7020f0' },
+  { set: 65, signature: '9c9b728903dc780059ccff435861a8db5283fc76ed89c3fbcbb0bd7a5545995c' },
+  { set: 87, signature: 'e43a26921dcd68e196b5915c0ba5076eae8d90a5240d21f8820219961f80a137' }
+];
+
+describe('ML-KEM', () => {
+  it.each(ML_KEM_KEYGEN_CROSS_VECTORS)('should derive the same keys as OpenSSL for ML-KEM-$set', ({ set, seed, ek, dk }) => {
+    const keys = mlKemKeyGenInternal(set, hex(seed).subarray(0, 32), hex(seed).subarray(32));
+
+    expect(keys.encapsulationKey.length).toBe(mlKemSizes(set).encapsulationKey);
+    expect(keys.decapsulationKey.length).toBe(mlKemSizes(set).decapsulationKey);
+    expect(sha3(keys.encapsulationKey)).toBe(ek);
+    expect(sha3(keys.decapsulationKey)).toBe(dk);
+  });
+
+  it.each(ML_KEM_ENCAPS_CROSS_VECTORS)('should encapsulate like @noble/post-quantum for ML-KEM-$set', ({ set, c, k }) => {
+    const { seed } = ML_KEM_KEYGEN_CROSS_VECTORS.find(vector => vector.set === set)!;
+    const keys = mlKemKeyGenInternal(set, hex(seed).subarray(0, 32), hex(seed).subarray(32));
+
+    const { sharedSecret, ciphertext } = mlKemEncapsInternal(set, keys.encapsulationKey, hex(ML_KEM_ENCAPS_M));
+
+    expect(sha3(ciphertext)).toBe(c);
+    expect(toHex(sharedSecret)).toBe(k);
+    expect(toHex(mlKemDecaps(set, keys.decapsulationKey, ciphertext))).toBe(k);
+  });
+
+  it.each([512, 768, 1024] as MlKemParameterSet[])('should agree on the shared secret for ML-KEM-%s', set => {
+    const { seed } = ML_KEM_KEYGEN_CROSS_VECTORS.find(vector => vector.set === set)!;
+    const keys = mlKemKeyGenInternal(set, hex(seed).subarray(0, 32), hex(seed).subarray(32));
+
+    const { sharedSecret, ciphertext } = mlKemEncaps(set, keys.encapsulationKey);
+
+    expect(ciphertext.length).toBe(mlKemSizes(set).ciphertext);
+    expect(mlKemDecaps(set, keys.decapsulationKey, ciphertext)).toEqual(sharedSecret);
+  });
+
+  it('should be deterministic in its randomness and reject implicitly', () => {
+    const { seed } = ML_KEM_KEYGEN_CROSS_VECTORS[1];
+    const keys = mlKemKeyGenInternal(768, hex(seed).subarray(0, 32), hex(seed).subarray(32));
+    const m = new Uint8Array(32).fill(0x42);
+
+    const first = mlKemEncapsInternal(768, keys.encapsulationKey, m);
+    expect(mlKemEncapsInternal(768, keys.encapsulationKey, m)).toEqual(first);
+
+    // A modified ciphertext decapsulates to J(z ‖ c), not to an error
+    const tampered = first.ciphertext.slice();
+    tampered[10] ^= 0x01;
+    const z = keys.decapsulationKey.subarray(-32);
+    const rejection = new Uint8Array(createHash('shake256', { outputLength: 32 }).update(concatBytes(z, tampered)).digest());
+    expect(mlKemDecaps(768, keys.decapsulationKey, tampered)).toEqual(rejection);
+  });
+
+  it('should refuse malformed keys and ciphertexts', () => {
+    const { seed } = ML_KEM_KEYGEN_CROSS_VECTORS[0];
+    const keys = mlKemKeyGenInternal(512, hex(seed).subarray(0, 32), hex(seed).subarray(32));
+
+    // 0xfff in the first coefficient is outside the modulus
+    const outOfRange = keys.encapsulationKey.slice();
+    outOfRange[0] = 0xff;
+    outOfRange[1] |= 0x0f;
+    expect(() => mlKemEncaps(512, outOfRange)).toThrow('outside the modulus');
+
+    const corrupted = keys.decapsulationKey.slice();
+    corrupted[800] ^= 0x01;
+    const { ciphertext } = mlKemEncaps(512, keys.encapsulationKey);
+    expect(() => mlKemDecaps(512, corrupted, ciphertext)).toThrow('hash check');
+    expect(() => mlKemDecaps(512, keys.decapsulationKey, ciphertext.subarray(1))).toThrow('768 bytes');
+  });
+});
+
+describe('ML-DSA', () => {
+  it.each(ML_DSA_KEYGEN_CROSS_VECTORS)('should derive the same keys as OpenSSL for ML-DSA-$set', ({ set, seed, pk, sk }) => {
+    const keys = mlDsaKeyGenInternal(set, hex(seed));
+
+    expect(keys.publicKey.length).toBe(mlDsaSizes(set).publicKey);
+    expect(keys.privateKey.length).toBe(mlDsaSizes(set).privateKey);
+    expect(sha3(keys.publicKey)).toBe(pk);
+    expect(sha3(keys.privateKey)).toBe(sk);
+  });
+
+  it.each(ML_DSA_SIGN_CROSS_VECTORS)('should sign like @noble/post-quantum for ML-DSA-$set', ({ set, signature }) => {
+    const keys = mlDsaKeyGenInternal(set, hex(ML_DSA_KEYGEN_CROSS_VECTORS.find(vector => vector.set === set)!.seed));
+    const message = utf8(ML_DSA_SIGN_MESSAGE);
+
+    // Pure ML-DSA with an empty context frames the message as 0 ‖ 0 ‖ M
+    const framed = concatBytes(Uint8Array.of(0, 0), message);
+    const signed = mlDsaSignInternal(set, keys.privateKey, framed, new Uint8Array(32));
+
+    expect(sha3(signed)).toBe(signature);
+    expect(mlDsaVerify(set, keys.publicKey, message, signed)).toBe(true);
+  });
+
+  it.each([44, 65, 87] as MlDsaParameterSet[])('should sign and verify with ML-DSA-%s', set => {
+    const keys = mlDsaKeyGenInternal(set, hex(ML_DSA_KEYGEN_CROSS_VECTORS.find(vector => vector.set === set)!.seed));
+    const message = utf8('Session transcript digest');
+
+    const signature = mlDsaSign(set, keys.privateKey, message);
+
+    expect(signature.length).toBe(mlDsaSizes(set).signature);
+    expect(mlDsaVerify(set, keys.publicKey, message, signature)).toBe(true);
+    expect(mlDsaVerify(set, keys.publicKey, utf8('Session transcript digesT'), signature)).toBe(false);
+
+    const tampered = signature.slice();
+    tampered[tampered.length - 100] ^= 0x01;
+    expect(mlDsaVerify(set, keys.publicKey, message, tampered)).toBe(false);
+  });
+
+  it('should bind signatures to their context and sign deterministically given the randomness', () => {
+    const keys = mlDsaKeyGenInternal(44, hex(ML_DSA_KEYGEN_CROSS_VECTORS[0].seed));
+    const message = utf8('consent form v3');
+    const context = utf8('consent');
+
+    const signature = mlDsaSign(44, keys.privateKey, message, context);
+    expect(mlDsaVerify(44, keys.publicKey, message, signature, context)).toBe(true);
+    expect(mlDsaVerify(44, keys.publicKey, message, signature)).toBe(false);
+
+    const framed = concatBytes(Uint8Array.of(0, 0), message);
+    const rnd = new Uint8Array(32);
+    expect(mlDsaSignInternal(44, keys.privateKey, framed, rnd))
+      .toEqual(mlDsaSignInternal(44, keys.privateKey, framed, rnd));
+  });
+});
@@ -1,3 +1,4 @@
+import { randomFillSync } from 'crypto';
 import { QuantumResistantEncryption, QuantumResistantConfig } from '../quantum-resistant-encryption';
 
 describe('QuantumResistantEncryption', () => {
@@ -5,48 +6,50 @@ describe('QuantumResistantEncryption', () => {
   
   beforeEach(() => {
     const config: Partial<QuantumResistantConfig> = {
-      kyberSecurityLevel: 1024,
-      sphincsVariant: 'small',
-      useAesHybridMode: true
+      kemSecurityLevel: 1024,
+      signatureSecurityLevel: 87,
+      classicalHybrid: true
     };
+    (QuantumResistantEncryption as any).instance = undefined;
     encryption = QuantumResistantEncryption.getInstance(config);
   });
 
   describe('Key Generation', () => {
-    it('should generate Kyber key pairs', async () => {
-      const keyPair = await encryption.generateKeyPair('kyber');
+    it('should generate hybrid X25519+ML-KEM key pairs', async () => {
+      const keyPair = await encryption.generateKeyPair('ml-kem');
       
-      expect(keyPair.publicKey).toBeDefined();
-      expect(keyPair.privateKey).toBeDefined();
-      expect(keyPair.type).toBe('kyber');
-      expect(keyPair.metadata.algorithm).toBe('KYBER-1024');
-      expect(keyPair.metadata.securityLevel).toBe(1024);
+      expect(keyPair.publicKey.length).toBe(32 + 1568);
+      expect(keyPair.privateKey.length).toBe(32 + 3168);
+      expect(keyPair.type).toBe('ml-kem');
+      expect(keyPair.metadata.algorithm).toBe('X25519-ML-KEM-1024');
+      expect(keyPair.metadata.securityLevel).toBe(5);
       expect(keyPair.metadata.created).toBeInstanceOf(Date);
     });
 
-    it('should generate SPHINCS+ key pairs', async () => {
-      const keyPair = await encryption.generateKeyPair('sphincs');
+    it('should generate ML-DSA key pairs', async () => {
+      const keyPair = await encryption.generateKeyPair('ml-dsa');
       
-      expect(keyPair.publicKey).toBeDefined();
-      expect(keyPair.privateKey).toBeDefined();
-      expect(keyPair.type).toBe('sphincs');
-      expect(keyPair.metadata.algorithm).toBe('SPHINCS+');
-      expect(keyPair.metadata.securityLevel).toBe(256);
+      expect(keyPair.publicKey.length).toBe(2592);
+      expect(keyPair.privateKey.length).toBe(4896);
+      expect(keyPair.type).toBe('ml-dsa');
+      expect(keyPair.metadata.algorithm).toBe('ML-DSA-87');
+      expect(keyPair.metadata.securityLevel).toBe(5);
       expect(keyPair.metadata.created).toBeInstanceOf(Date);
     });
   });
 
   describe('Hybrid Encryption', () => {
     it('should encrypt and decrypt data using hybrid mode', async () => {
-      const keyPair = await encryption.generateKeyPair('kyber');
+      const keyPair = await encryption.generateKeyPair('ml-kem');
       const testData = 'Test message for hybrid encryption';
 
       const encrypted = await encryption.encrypt(testData, keyPair.publicKey);
       
-      expect(encrypted.algorithm).toBe('KYBER-1024');
+      expect(encrypted.algorithm).toBe('X25519-ML-KEM-1024');
       expect(encrypted.data).toBeDefined();
       expect(encrypted.iv).toBeDefined();
-      expect(encrypted.hybridEncryption).toBeDefined();
+      expect(encrypted.hybridEncryption.kemCiphertext.length).toBe(1568);
+      expect(encrypted.hybridEncryption.ephemeralPublicKey?.length).toBe(32);
       expect(encrypted.metadata.mode).toBe('hybrid');
 
       const decrypted = await encryption.decrypt(encrypted, keyPair.privateKey);
@@ -54,48 +57,48 @@ describe('QuantumResistantEncryption', () => {
     });
 
     it('should handle large data in hybrid mode', async () => {
-      const keyPair = await encryption.generateKeyPair('kyber');
-      const largeData = Buffer.alloc(1024 * 1024); // 1MB of data
-      crypto.getRandomValues(new Uint8Array(largeData));
+      const keyPair = await encryption.generateKeyPair('ml-kem');
+      const largeData = new Uint8Array(1024 * 1024); // 1MB of data
+      randomFillSync(largeData);
 
       const encrypted = await encryption.encrypt(largeData, keyPair.publicKey);
       const decrypted = await encryption.decrypt(encrypted, keyPair.privateKey);
 
       expect(decrypted.length).toBe(largeData.length);
-      expect(Buffer.compare(decrypted, largeData)).toBe(0);
+      expect(Buffer.compare(new Uint8Array(decrypted), largeData)).toBe(0);
     });
   });
 
-  describe('Direct Kyber Encryption', () => {
+  describe('ML-KEM Only Encryption', () => {
     let encryptionWithoutHybrid: QuantumResistantEncryption;
 
     beforeEach(() => {
+      (QuantumResistantEncryption as any).instance = undefined;
       encryptionWithoutHybrid = QuantumResistantEncryption.getInstance({
-        kyberSecurityLevel: 1024,
-        sphincsVariant: 'small',
-        useAesHybridMode: false
+        kemSecurityLevel: 768,
+        classicalHybrid: false
       });
     });
 
-    it('should encrypt and decrypt data directly with Kyber', async () => {
-      const keyPair = await encryptionWithoutHybrid.generateKeyPair('kyber');
-      const testData = 'Test message for direct encryption';
+    it('should encrypt and decrypt data with ML-KEM alone', async () => {
+      const keyPair = await encryptionWithoutHybrid.generateKeyPair('ml-kem');
+      const testData = 'Test message for ML-KEM encryption';
 
       const encrypted = await encryptionWithoutHybrid.encrypt(testData, keyPair.publicKey);
       
-      expect(encrypted.algorithm).toBe('KYBER-1024');
+      expect(encrypted.algorithm).toBe('ML-KEM-768');
       expect(encrypted.data).toBeDefined();
-      expect(encrypted.hybridEncryption).toBeUndefined();
-      expect(encrypted.metadata.mode).toBe('direct');
+      expect(encrypted.hybridEncryption.ephemeralPublicKey).toBeUndefined();
+      expect(encrypted.metadata.mode).toBe('ml-kem');
 
       const decrypted = await encryptionWithoutHybrid.decrypt(encrypted, keyPair.privateKey);
       expect(decrypted.toString()).toBe(testData);
     });
   });
 
-  describe('SPHINCS+ Signatures', () => {
+  describe('ML-DSA Signatures', () => {
     it('should sign and verify data', async () => {
-      const keyPair = await encryption.generateKeyPair('sphincs');
+      const keyPair = await encryption.generateKeyPair('ml-dsa');
       const testData = 'Test message for signing';
 
       const signature = await encryption.sign(testData, keyPair.privateKey);
@@ -107,9 +110,9 @@ describe('QuantumResistantEncryption', () => {
     });
 
     it('should handle large data for signing', async () => {
-      const keyPair = await encryption.generateKeyPair('sphincs');
-      const largeData = Buffer.alloc(1024 * 1024); // 1MB of data
-      crypto.getRandomValues(new Uint8Array(largeData));
+      const keyPair = await encryption.generateKeyPair('ml-dsa');
+      const largeData = new Uint8Array(1024 * 1024); // 1MB of data
+      randomFillSync(largeData);
 
       const signature = await encryption.sign(largeData, keyPair.privateKey);
       expect(signature).toBeDefined();
@@ -122,9 +125,9 @@ describe('QuantumResistantEncryption', () => {
 
   describe('Error Handling', () => {
     it('should handle invalid key pairs', async () => {
-      const keyPair = await encryption.generateKeyPair('kyber');
+      const keyPair = await encryption.generateKeyPair('ml-kem');
       const testData = 'Test message';
-      const invalidPrivateKey = Buffer.alloc(keyPair.privateKey.length);
+      const invalidPrivateKey = new Uint8Array(keyPair.privateKey.length);
 
       const encrypted = await encryption.encrypt(testData, keyPair.publicKey);
       
@@ -133,10 +136,28 @@ describe('QuantumResistantEncryption', () => {
       ).rejects.toThrow();
     });
 
+    it('should reject tampered KEM ciphertexts and X25519 keys', async () => {
+      const keyPair = await encryption.generateKeyPair('ml-kem');
+      const encrypted = await encryption.encrypt('Test message', keyPair.publicKey);
+
+      const kemCiphertext = encrypted.hybridEncryption.kemCiphertext.slice();
+      kemCiphertext[0] ^= 1;
+      await expect(encryption.decrypt({
+        ...encrypted,
+        hybridEncryption: { ...encrypted.hybridEncryption, kemCiphertext }
+      }, keyPair.privateKey)).rejects.toThrow();
+
+      const other = await encryption.generateKeyPair('ml-kem');
+      await expect(encryption.decrypt({
+        ...encrypted,
+        hybridEncryption: { ...encrypted.hybridEncryption, ephemeralPublicKey: other.publicKey.subarray(0, 32) }
+      }, keyPair.privateKey)).rejects.toThrow();
+    });
+
     it('should handle invalid signatures', async () => {
-      const keyPair = await encryption.generateKeyPair('sphincs');
+      const keyPair = await encryption.generateKeyPair('ml-dsa');
       const testData = 'Test message';
-      const invalidSignature = Buffer.alloc(64);
+      const invalidSignature = new Uint8Array(64);
 
       const isValid = await encryption.verify(testData, invalidSignature, keyPair.publicKey);
       expect(isValid).toBe(false);
@@ -0,0 +1,470 @@
+import { randomFillSync, timingSafeEqual } from 'crypto';
+import { XofReader, concatBytes, shake } from './shake';
+
+/**
+ * ML-DSA (FIPS 204), the standardized form of CRYSTALS-Dilithium. The
+ * `*Internal` functions take the key seed and signing randomness as
+ * arguments so they can be checked against known-answer vectors.
+ */
+export type MlDsaParameterSet = 44 | 65 | 87;
+
+interface MlDsaParams {
+  k: number;
+  l: number;
+  eta: number;
+  tau: number;
+  lambda: number;
+  gamma1: number;
+  gamma2: number;
+  beta: number;
+  omega: number;
+}
+
+const Q = 8380417;
+const N = 256;
+const D = 13;
+const N_INV = 8347681; // 256^-1 mod q
+
+const PARAMS: Record<MlDsaParameterSet, MlDsaParams> = {
+  44: { k: 4, l: 4, eta: 2, tau: 39, lambda: 128, gamma1: 2 ** 17, gamma2: (Q - 1) / 88, beta: 78, omega: 80 },
+  65: { k: 6, l: 5, eta: 4, tau: 49, lambda: 192, gamma1: 2 ** 19, gamma2: (Q - 1) / 32, beta: 196, omega: 55 },
+  87: { k: 8, l: 7, eta: 2, tau: 60, lambda: 256, gamma1: 2 ** 19, gamma2: (Q - 1) / 32, beta: 120, omega: 75 }
+};
+
+type Poly = Int32Array;
+
+export interface MlDsaSizes {
+  publicKey: number;
+  privateKey: number;
+  signature: number;
+}
+
+const bitLength = (x: number): number => Math.floor(Math.log2(x)) + 1;
+
+export function mlDsaSizes(parameterSet: MlDsaParameterSet): MlDsaSizes {
+  const { k, l, eta, lambda, gamma1, omega } = PARAMS[parameterSet];
+  return {
+    publicKey: 32 + 320 * k,
+    privateKey: 128 + 32 * ((k + l) * bitLength(2 * eta) + D * k),
+    signature: lambda / 4 + 32 * l * (1 + bitLength(gamma1 - 1)) + omega + k
+  };
+}
+
+const mod = (x: number): number => ((x % Q) + Q) % Q;
+const mulMod = (a: number, b: number): number => (a * b) % Q; // both below 2^23, so the product is exact
+
+/** r mod± α, in (-α/2, α/2] */
+const modPm = (r: number, alpha: number): number => {
+  const r0 = ((r % alpha) + alpha) % alpha;
+  return r0 > alpha / 2 ? r0 - alpha : r0;
+};
+
+const bitRev8 = (i: number): number => {
+  let r = 0;
+  for (let b = 0; b < 8; b++) r |= ((i >> b) & 1) << (7 - b);
+  return r;
+};
+
+const ZETAS = (() => {
+  const powers = [1];
+  for (let i = 1; i < 256; i++) powers.push(mulMod(powers[i - 1], 1753));
+  return Array.from({ length: 256 }, (_, i) => powers[bitRev8(i)]);
+})();
+
+function ntt(w: Poly): Poly {
+  const out = Int32Array.from(w);
+  let m = 0;
+  for (let len = 128; len >= 1; len >>= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[++m];
+      for (let j = start; j < start + len; j++) {
+        const t = mulMod(zeta, out[j + len]);
+        out[j + len] = mod(out[j] - t);
+        out[j] = (out[j] + t) % Q;
+      }
+    }
+  }
+  return out;
+}
+
+function invNtt(w: Poly): Poly {
+  const out = Int32Array.from(w);
+  let m = 256;
+  for (let len = 1; len < N; len <<= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = Q - ZETAS[--m];
+      for (let j = start; j < start + len; j++) {
+        const t = out[j];
+        out[j] = (t + out[j + len]) % Q;
+        out[j + len] = mulMod(zeta, mod(t - out[j + len]));
+      }
+    }
+  }
+  return out.map(x => mulMod(x, N_INV));
+}
+
+const pointwise = (a: Poly, b: Poly): Poly => a.map((x, i) => mulMod(x, b[i]));
+const addPolys = (a: Poly, b: Poly): Poly => a.map((x, i) => (x + b[i]) % Q);
+const subPolys = (a: Poly, b: Poly): Poly => a.map((x, i) => mod(x - b[i]));
+
+/** Â ∘ v̂ for a k×l matrix and a length-l vector, all in the NTT domain */
+function matVec(a: Poly[][], v: Poly[]): Poly[] {
+  return a.map(row => row.reduce((acc, aij, j) => addPolys(acc, pointwise(aij, v[j])), new Int32Array(N)));
+}
+
+/** Largest |coefficient| with coefficients read mod± q */
+const infinityNorm = (polys: Poly[]): number =>
+  Math.max(...polys.map(p => p.reduce((max, x) => Math.max(max, Math.abs(modPm(x, Q))), 0)));
+
+// Bit packing; coefficients are written little-endian, `bits` bits each
+
+function packBits(values: ArrayLike<number>, bits: number): Uint8Array {
+  const out = new Uint8Array((values.length * bits) / 8);
+  let acc = 0;
+  let filled = 0;
+  let pos = 0;
+  for (let i = 0; i < values.length; i++) {
+    acc += values[i] * 2 ** filled;
+    filled += bits;
+    while (filled >= 8) {
+      out[pos++] = acc % 256;
+      acc = Math.floor(acc / 256);
+      filled -= 8;
+    }
+  }
+  return out;
+}
+
+function unpackBits(bytes: Uint8Array, bits: number): Poly {
+  const out = new Int32Array(N);
+  let acc = 0;
+  let filled = 0;
+  let pos = 0;
+  for (let i = 0; i < N; i++) {
+    while (filled < bits) {
+      acc += bytes[pos++] * 2 ** filled;
+      filled += 8;
+    }
+    out[i] = acc % 2 ** bits;
+    acc = Math.floor(acc / 2 ** bits);
+    filled -= bits;
+  }
+  return out;
+}
+
+const simpleBitPack = (w: Poly, b: number): Uint8Array => packBits(w, bitLength(b));
+
+/** Packs coefficients in [-a, b] as b - w */
+const bitPack = (w: Poly, a: number, b: number): Uint8Array =>
+  packBits(Array.from(w, x => b - modPm(x, Q)), bitLength(a + b));
+
+const bitUnpack = (bytes: Uint8Array, a: number, b: number): Poly =>
+  unpackBits(bytes, bitLength(a + b)).map(z => mod(b - z));
+
+class Cursor {
+  private offset = 0;
+  constructor(private readonly bytes: Uint8Array) {}
+  take(length: number): Uint8Array {
+    const out = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+}
+
+// Sampling
+
+function rejNttPoly(seed: Uint8Array): Poly {
+  const xof = new XofReader('shake128', seed, 168 * 5);
+  const a = new Int32Array(N);
+  let j = 0;
+  while (j < N) {
+    const [b0, b1, b2] = xof.read(3);
+    const z = ((b2 & 0x7f) << 16) | (b1 << 8) | b0;
+    if (z < Q) a[j++] = z;
+  }
+  return a;
+}
+
+function rejBoundedPoly(seed: Uint8Array, eta: number): Poly {
+  const xof = new XofReader('shake256', seed, 136 * 2);
+  const coeffFromHalfByte = (b: number): number | null => {
+    if (eta === 2 && b < 15) return 2 - (b % 5);
+    if (eta === 4 && b < 9) return 4 - b;
+    return null;
+  };
+  const a = new Int32Array(N);
+  let j = 0;
+  while (j < N) {
+    const z = xof.readByte();
+    for (const half of [z & 0x0f, z >> 4]) {
+      const coeff = coeffFromHalfByte(half);
+      if (coeff !== null && j < N) a[j++] = mod(coeff);
+    }
+  }
+  return a;
+}
+
+function sampleInBall(seed: Uint8Array, tau: number): Poly {
+  const xof = new XofReader('shake256', seed, 136);
+  const signs = xof.read(8);
+  const c = new Int32Array(N);
+  for (let i = N - tau; i < N; i++) {
+    let j = xof.readByte();
+    while (j > i) j = xof.readByte();
+    const bit = i + tau - N;
+    c[i] = c[j];
+    c[j] = (signs[bit >> 3] >> (bit & 7)) & 1 ? Q - 1 : 1;
+  }
+  return c;
+}
+
+const u16 = (n: number): Uint8Array => Uint8Array.of(n & 0xff, n >> 8);
+
+/** Â[r][s] = RejNTTPoly(ρ‖s‖r) */
+function expandA(rho: Uint8Array, { k, l }: MlDsaParams): Poly[][] {
+  return Array.from({ length: k }, (_, r) =>
+    Array.from({ length: l }, (_, s) => rejNttPoly(concatBytes(rho, Uint8Array.of(s, r))))
+  );
+}
+
+function expandS(rho: Uint8Array, { k, l, eta }: MlDsaParams): { s1: Poly[]; s2: Poly[] } {
+  return {
+    s1: Array.from({ length: l }, (_, r) => rejBoundedPoly(concatBytes(rho, u16(r)), eta)),
+    s2: Array.from({ length: k }, (_, r) => rejBoundedPoly(concatBytes(rho, u16(r + l)), eta))
+  };
+}
+
+function expandMask(rho: Uint8Array, mu: number, { l, gamma1 }: MlDsaParams): Poly[] {
+  const c = 1 + bitLength(gamma1 - 1);
+  return Array.from({ length: l }, (_, r) =>
+    bitUnpack(shake('shake256', concatBytes(rho, u16(mu + r)), 32 * c), gamma1 - 1, gamma1)
+  );
+}
+
+// Rounding
+
+function power2Round(r: number): [number, number] {
+  const r0 = modPm(r, 2 ** D);
+  return [(r - r0) / 2 ** D, r0];
+}
+
+function decompose(r: number, gamma2: number): [number, number] {
+  let r0 = modPm(r, 2 * gamma2);
+  if (r - r0 === Q - 1) {
+    r0 -= 1;
+    return [0, r0];
+  }
+  return [(r - r0) / (2 * gamma2), r0];
+}
+
+const highBits = (r: number, gamma2: number): number => decompose(r, gamma2)[0];
+const lowBits = (r: number, gamma2: number): number => decompose(r, gamma2)[1];
+
+function useHint(h: number, r: number, gamma2: number): number {
+  const m = (Q - 1) / (2 * gamma2);
+  const [r1, r0] = decompose(r, gamma2);
+  if (h === 1 && r0 > 0) return (r1 + 1) % m;
+  if (h === 1) return (r1 - 1 + m) % m;
+  return r1;
+}
+
+// Encodings
+
+function w1Encode(w1: Poly[], gamma2: number): Uint8Array {
+  return concatBytes(...w1.map(p => simpleBitPack(p, (Q - 1) / (2 * gamma2) - 1)));
+}
+
+function hintBitPack(h: Poly[], { k, omega }: MlDsaParams): Uint8Array {
+  const y = new Uint8Array(omega + k);
+  let index = 0;
+  h.forEach((poly, i) => {
+    poly.forEach((bit, j) => {
+      if (bit) y[index++] = j;
+    });
+    y[omega + i] = index;
+  });
+  return y;
+}
+
+function hintBitUnpack(y: Uint8Array, { k, omega }: MlDsaParams): Poly[] | null {
+  const h = Array.from({ length: k }, () => new Int32Array(N));
+  let index = 0;
+  for (let i = 0; i < k; i++) {
+    if (y[omega + i] < index || y[omega + i] > omega) return null;
+    const first = index;
+    while (index < y[omega + i]) {
+      if (index > first && y[index - 1] >= y[index]) return null;
+      h[i][y[index]] = 1;
+      index++;
+    }
+  }
+  for (let i = index; i < omega; i++) {
+    if (y[i] !== 0) return null;
+  }
+  return h;
+}
+
+function skDecode(sk: Uint8Array, params: MlDsaParams) {
+  const { k, l, eta } = params;
+  const cursor = new Cursor(sk);
+  const rho = cursor.take(32);
+  const key = cursor.take(32);
+  const tr = cursor.take(64);
+  const etaBytes = 32 * bitLength(2 * eta);
+  const s1 = Array.from({ length: l }, () => bitUnpack(cursor.take(etaBytes), eta, eta));
+  const s2 = Array.from({ length: k }, () => bitUnpack(cursor.take(etaBytes), eta, eta));
+  const t0 = Array.from({ length: k }, () => bitUnpack(cursor.take(32 * D), 2 ** (D - 1) - 1, 2 ** (D - 1)));
+  return { rho, key, tr, s1, s2, t0 };
+}
+
+// Key generation, signing and verification
+
+export function mlDsaKeyGenInternal(
+  parameterSet: MlDsaParameterSet,
+  xi: Uint8Array
+): { publicKey: Uint8Array; privateKey: Uint8Array } {
+  const params = PARAMS[parameterSet];
+  const { k, l, eta } = params;
+  const seeds = shake('shake256', concatBytes(xi, Uint8Array.of(k, l)), 128);
+  const rho = seeds.subarray(0, 32);
+  const rhoPrime = seeds.subarray(32, 96);
+  const key = seeds.subarray(96);
+
+  const a = expandA(rho, params);
+  const { s1, s2 } = expandS(rhoPrime, params);
+  const t = matVec(a, s1.map(ntt)).map((p, i) => addPolys(invNtt(p), s2[i]));
+
+  const rounded = t.map(p => Array.from(p, power2Round));
+  const t1 = rounded.map(p => Int32Array.from(p, ([high]) => high));
+  const t0 = rounded.map(p => Int32Array.from(p, ([, low]) => mod(low)));
+
+  const publicKey = concatBytes(rho, ...t1.map(p => simpleBitPack(p, 2 ** (bitLength(Q - 1) - D) - 1)));
+  const tr = shake('shake256', publicKey, 64);
+  const privateKey = concatBytes(
+    rho,
+    key,
+    tr,
+    ...s1.map(p => bitPack(p, eta, eta)),
+    ...s2.map(p => bitPack(p, eta, eta)),
+    ...t0.map(p => bitPack(p, 2 ** (D - 1) - 1, 2 ** (D - 1)))
+  );
+  return { publicKey, privateKey };
+}
+
+/** Signs the already-framed message M′ with the given 32-byte randomness */
+export function mlDsaSignInternal(
+  parameterSet: MlDsaParameterSet,
+  privateKey: Uint8Array,
+  message: Uint8Array,
+  rnd: Uint8Array
+): Uint8Array {
+  const params = PARAMS[parameterSet];
+  const { l, tau, lambda, gamma1, gamma2, beta, omega } = params;
+  const { rho, key, tr, s1, s2, t0 } = skDecode(privateKey, params);
+  const s1Hat = s1.map(ntt);
+  const s2Hat = s2.map(ntt);
+  const t0Hat = t0.map(ntt);
+  const a = expandA(rho, params);
+
+  const mu = shake('shake256', concatBytes(tr, message), 64);
+  const rhoPrime = shake('shake256', concatBytes(key, rnd, mu), 64);
+
+  for (let kappa = 0; ; kappa += l) {
+    const y = expandMask(rhoPrime, kappa, params);
+    const w = matVec(a, y.map(ntt)).map(invNtt);
+    const w1 = w.map(p => p.map(x => highBits(x, gamma2)));
+
+    const cTilde = shake('shake256', concatBytes(mu, w1Encode(w1, gamma2)), lambda / 4);
+    const cHat = ntt(sampleInBall(cTilde, tau));
+    const cs1 = s1Hat.map(p => invNtt(pointwise(cHat, p)));
+    const cs2 = s2Hat.map(p => invNtt(pointwise(cHat, p)));
+
+    const z = y.map((p, i) => addPolys(p, cs1[i]));
+    const wMinusCs2 = w.map((p, i) => subPolys(p, cs2[i]));
+    const r0 = wMinusCs2.map(p => p.map(x => mod(lowBits(x, gamma2))));
+    if (infinityNorm(z) >= gamma1 - beta || infinityNorm(r0) >= gamma2 - beta) continue;
+
+    const ct0 = t0Hat.map(p => invNtt(pointwise(cHat, p)));
+    const h = ct0.map((p, i) =>
+      p.map((x, j) => {
+        const r = wMinusCs2[i][j];
+        return highBits(r, gamma2) !== highBits((r + x) % Q, gamma2) ? 1 : 0;
+      })
+    );
+    const hintCount = h.reduce((sum, p) => sum + p.reduce((s, bit) => s + bit, 0), 0);
+    if (infinityNorm(ct0) >= gamma2 || hintCount > omega) continue;
+
+    return concatBytes(cTilde, ...z.map(p => bitPack(p, gamma1 - 1, gamma1)), hintBitPack(h, params));
+  }
+}
+
+export function mlDsaVerifyInternal(
+  parameterSet: MlDsaParameterSet,
+  publicKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array
+): boolean {
+  const params = PARAMS[parameterSet];
+  const { k, l, tau, lambda, gamma1, gamma2, beta } = params;
+  const sizes = mlDsaSizes(parameterSet);
+  if (publicKey.length !== sizes.publicKey || signature.length !== sizes.signature) return false;
+
+  const pk = new Cursor(publicKey);
+  const rho = pk.take(32);
+  const t1 = Array.from({ length: k }, () => unpackBits(pk.take(320), 10));
+
+  const sig = new Cursor(signature);
+  const cTilde = sig.take(lambda / 4);
+  const zBytes = 32 * (1 + bitLength(gamma1 - 1));
+  const z = Array.from({ length: l }, () => bitUnpack(sig.take(zBytes), gamma1 - 1, gamma1));
+  const h = hintBitUnpack(sig.take(params.omega + k), params);
+  if (!h || infinityNorm(z) >= gamma1 - beta) return false;
+
+  const a = expandA(rho, params);
+  const tr = shake('shake256', publicKey, 64);
+  const mu = shake('shake256', concatBytes(tr, message), 64);
+  const cHat = ntt(sampleInBall(cTilde, tau));
+
+  const az = matVec(a, z.map(ntt));
+  const wApprox = az.map((p, i) => invNtt(subPolys(p, pointwise(cHat, ntt(t1[i].map(x => (x * 2 ** D) % Q))))));
+  const w1 = wApprox.map((p, i) => p.map((x, j) => useHint(h[i][j], x, gamma2)));
+
+  const expected = shake('shake256', concatBytes(mu, w1Encode(w1, gamma2)), lambda / 4);
+  return timingSafeEqual(expected, cTilde);
+}
+
+/** M′ = 0 ‖ |ctx| ‖ ctx ‖ M, the pure (non-prehashed) ML-DSA framing */
+function frameMessage(message: Uint8Array, context: Uint8Array): Uint8Array {
+  if (context.length > 255) {
+    throw new Error('ML-DSA context strings are limited to 255 bytes');
+  }
+  return concatBytes(Uint8Array.of(0, context.length), context, message);
+}
+
+export function mlDsaKeyGen(parameterSet: MlDsaParameterSet) {
+  return mlDsaKeyGenInternal(parameterSet, randomFillSync(new Uint8Array(32)));
+}
+
+/** Hedged signing: fresh randomness per signature */
+export function mlDsaSign(
+  parameterSet: MlDsaParameterSet,
+  privateKey: Uint8Array,
+  message: Uint8Array,
+  context: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  if (privateKey.length !== mlDsaSizes(parameterSet).privateKey) {
+    throw new Error(`ML-DSA-${parameterSet} private key must be ${mlDsaSizes(parameterSet).privateKey} bytes`);
+  }
+  return mlDsaSignInternal(parameterSet, privateKey, frameMessage(message, context), randomFillSync(new Uint8Array(32)));
+}
+
+export function mlDsaVerify(
+  parameterSet: MlDsaParameterSet,
+  publicKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array,
+  context: Uint8Array = new Uint8Array(0)
+): boolean {
+  if (context.length > 255) return false;
+  return mlDsaVerifyInternal(parameterSet, publicKey, frameMessage(message, context), signature);
+}
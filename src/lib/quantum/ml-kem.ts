@@ -0,0 +1,329 @@
+import { randomFillSync, timingSafeEqual } from 'crypto';
+import { XofReader, concatBytes, sha3, shake } from './shake';
+
+/**
+ * ML-KEM (FIPS 203), the standardized form of CRYSTALS-Kyber. The
+ * `*Internal` functions take their randomness as arguments so they can
+ * be checked against known-answer vectors.
+ */
+export type MlKemParameterSet = 512 | 768 | 1024;
+
+interface MlKemParams {
+  k: number;
+  eta1: number;
+  eta2: number;
+  du: number;
+  dv: number;
+}
+
+const PARAMS: Record<MlKemParameterSet, MlKemParams> = {
+  512: { k: 2, eta1: 3, eta2: 2, du: 10, dv: 4 },
+  768: { k: 3, eta1: 2, eta2: 2, du: 10, dv: 4 },
+  1024: { k: 4, eta1: 2, eta2: 2, du: 11, dv: 5 }
+};
+
+const N = 256;
+const Q = 3329;
+const N_INV = 3303; // 128^-1 mod q
+
+type Poly = Int32Array;
+
+export interface MlKemSizes {
+  encapsulationKey: number;
+  decapsulationKey: number;
+  ciphertext: number;
+  sharedSecret: number;
+}
+
+export function mlKemSizes(parameterSet: MlKemParameterSet): MlKemSizes {
+  const { k, du, dv } = PARAMS[parameterSet];
+  return {
+    encapsulationKey: 384 * k + 32,
+    decapsulationKey: 768 * k + 96,
+    ciphertext: 32 * (du * k + dv),
+    sharedSecret: 32
+  };
+}
+
+const mod = (x: number): number => ((x % Q) + Q) % Q;
+
+const bitRev7 = (i: number): number => {
+  let r = 0;
+  for (let b = 0; b < 7; b++) r |= ((i >> b) & 1) << (6 - b);
+  return r;
+};
+
+const powMod = (base: number, exp: number): number => {
+  let result = 1;
+  for (let i = 0; i < exp; i++) result = (result * base) % Q;
+  return result;
+};
+
+const ZETAS = Array.from({ length: 128 }, (_, i) => powMod(17, bitRev7(i)));
+const GAMMAS = Array.from({ length: 128 }, (_, i) => powMod(17, 2 * bitRev7(i) + 1));
+
+function ntt(f: Poly): Poly {
+  const out = Int32Array.from(f);
+  let i = 1;
+  for (let len = 128; len >= 2; len >>= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[i++];
+      for (let j = start; j < start + len; j++) {
+        const t = (zeta * out[j + len]) % Q;
+        out[j + len] = mod(out[j] - t);
+        out[j] = (out[j] + t) % Q;
+      }
+    }
+  }
+  return out;
+}
+
+function invNtt(f: Poly): Poly {
+  const out = Int32Array.from(f);
+  let i = 127;
+  for (let len = 2; len <= 128; len <<= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[i--];
+      for (let j = start; j < start + len; j++) {
+        const t = out[j];
+        out[j] = (t + out[j + len]) % Q;
+        out[j + len] = (zeta * mod(out[j + len] - t)) % Q;
+      }
+    }
+  }
+  return out.map(x => (x * N_INV) % Q);
+}
+
+function multiplyNtts(f: Poly, g: Poly): Poly {
+  const h = new Int32Array(N);
+  for (let i = 0; i < 128; i++) {
+    const [a0, a1, b0, b1] = [f[2 * i], f[2 * i + 1], g[2 * i], g[2 * i + 1]];
+    h[2 * i] = (a0 * b0 + ((a1 * b1) % Q) * GAMMAS[i]) % Q;
+    h[2 * i + 1] = (a0 * b1 + a1 * b0) % Q;
+  }
+  return h;
+}
+
+const addPolys = (...polys: Poly[]): Poly => {
+  const out = new Int32Array(N);
+  for (const p of polys) for (let i = 0; i < N; i++) out[i] = (out[i] + p[i]) % Q;
+  return out;
+};
+
+function byteEncode(f: ArrayLike<number>, d: number): Uint8Array {
+  const out = new Uint8Array(32 * d);
+  let acc = 0;
+  let bits = 0;
+  let pos = 0;
+  for (let i = 0; i < N; i++) {
+    acc |= f[i] << bits;
+    bits += d;
+    while (bits >= 8) {
+      out[pos++] = acc & 0xff;
+      acc >>>= 8;
+      bits -= 8;
+    }
+  }
+  return out;
+}
+
+function byteDecode(bytes: Uint8Array, d: number): Poly {
+  const out = new Int32Array(N);
+  const m = d < 12 ? 1 << d : Q;
+  let acc = 0;
+  let bits = 0;
+  let pos = 0;
+  for (let i = 0; i < N; i++) {
+    while (bits < d) {
+      acc |= bytes[pos++] << bits;
+      bits += 8;
+    }
+    out[i] = (acc & ((1 << d) - 1)) % m;
+    acc >>>= d;
+    bits -= d;
+  }
+  return out;
+}
+
+// round(2^d / q * x) mod 2^d, in integers
+const compress = (f: Poly, d: number): Poly =>
+  f.map(x => Math.floor((x * 2 ** (d + 1) + Q) / (2 * Q)) % 2 ** d);
+
+const decompress = (f: Poly, d: number): Poly =>
+  f.map(y => Math.floor((y * Q * 2 + 2 ** d) / 2 ** (d + 1)));
+
+function sampleNtt(seed: Uint8Array): Poly {
+  const xof = new XofReader('shake128', seed, 168 * 4);
+  const a = new Int32Array(N);
+  let j = 0;
+  while (j < N) {
+    const [c0, c1, c2] = xof.read(3);
+    const d1 = c0 + 256 * (c1 & 0x0f);
+    const d2 = (c1 >> 4) + 16 * c2;
+    if (d1 < Q) a[j++] = d1;
+    if (d2 < Q && j < N) a[j++] = d2;
+  }
+  return a;
+}
+
+function samplePolyCbd(bytes: Uint8Array, eta: number): Poly {
+  const bit = (i: number) => (bytes[i >> 3] >> (i & 7)) & 1;
+  const f = new Int32Array(N);
+  for (let i = 0; i < N; i++) {
+    let x = 0;
+    let y = 0;
+    for (let j = 0; j < eta; j++) {
+      x += bit(2 * i * eta + j);
+      y += bit(2 * i * eta + eta + j);
+    }
+    f[i] = mod(x - y);
+  }
+  return f;
+}
+
+const prf = (eta: number, seed: Uint8Array, n: number): Uint8Array =>
+  shake('shake256', concatBytes(seed, Uint8Array.of(n)), 64 * eta);
+
+function g(...inputs: Uint8Array[]): [Uint8Array, Uint8Array] {
+  const out = sha3(512, ...inputs);
+  return [out.subarray(0, 32), out.subarray(32)];
+}
+
+/** Â[i][j] = SampleNTT(ρ‖j‖i) */
+function expandMatrix(rho: Uint8Array, k: number): Poly[][] {
+  return Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => sampleNtt(concatBytes(rho, Uint8Array.of(j, i))))
+  );
+}
+
+function pkeKeyGen(params: MlKemParams, d: Uint8Array): { ek: Uint8Array; dk: Uint8Array } {
+  const { k, eta1 } = params;
+  const [rho, sigma] = g(d, Uint8Array.of(k));
+  const a = expandMatrix(rho, k);
+
+  let n = 0;
+  const s = Array.from({ length: k }, () => ntt(samplePolyCbd(prf(eta1, sigma, n++), eta1)));
+  const e = Array.from({ length: k }, () => ntt(samplePolyCbd(prf(eta1, sigma, n++), eta1)));
+  const t = a.map((row, i) => addPolys(...row.map((aij, j) => multiplyNtts(aij, s[j])), e[i]));
+
+  return {
+    ek: concatBytes(...t.map(ti => byteEncode(ti, 12)), rho),
+    dk: concatBytes(...s.map(si => byteEncode(si, 12)))
+  };
+}
+
+function pkeEncrypt(params: MlKemParams, ek: Uint8Array, m: Uint8Array, r: Uint8Array): Uint8Array {
+  const { k, eta1, eta2, du, dv } = params;
+  const t = Array.from({ length: k }, (_, i) => byteDecode(ek.subarray(384 * i, 384 * (i + 1)), 12));
+  const rho = ek.subarray(384 * k, 384 * k + 32);
+  const a = expandMatrix(rho, k);
+
+  let n = 0;
+  const y = Array.from({ length: k }, () => ntt(samplePolyCbd(prf(eta1, r, n++), eta1)));
+  const e1 = Array.from({ length: k }, () => samplePolyCbd(prf(eta2, r, n++), eta2));
+  const e2 = samplePolyCbd(prf(eta2, r, n), eta2);
+
+  // u = NTT^-1(Âᵀ ∘ ŷ) + e1
+  const u = Array.from({ length: k }, (_, i) =>
+    addPolys(invNtt(addPolys(...y.map((yj, j) => multiplyNtts(a[j][i], yj)))), e1[i])
+  );
+  const mu = decompress(byteDecode(m, 1), 1);
+  const v = addPolys(invNtt(addPolys(...t.map((tj, j) => multiplyNtts(tj, y[j])))), e2, mu);
+
+  return concatBytes(
+    ...u.map(ui => byteEncode(compress(ui, du), du)),
+    byteEncode(compress(v, dv), dv)
+  );
+}
+
+function pkeDecrypt(params: MlKemParams, dk: Uint8Array, c: Uint8Array): Uint8Array {
+  const { k, du, dv } = params;
+  const u = Array.from({ length: k }, (_, i) =>
+    ntt(decompress(byteDecode(c.subarray(32 * du * i, 32 * du * (i + 1)), du), du))
+  );
+  const v = decompress(byteDecode(c.subarray(32 * du * k), dv), dv);
+  const s = Array.from({ length: k }, (_, i) => byteDecode(dk.subarray(384 * i, 384 * (i + 1)), 12));
+
+  const su = invNtt(addPolys(...s.map((si, i) => multiplyNtts(si, u[i]))));
+  const w = v.map((vi, i) => mod(vi - su[i]));
+  return byteEncode(compress(w, 1), 1);
+}
+
+export function mlKemKeyGenInternal(
+  parameterSet: MlKemParameterSet,
+  d: Uint8Array,
+  z: Uint8Array
+): { encapsulationKey: Uint8Array; decapsulationKey: Uint8Array } {
+  const { ek, dk } = pkeKeyGen(PARAMS[parameterSet], d);
+  return {
+    encapsulationKey: ek,
+    decapsulationKey: concatBytes(dk, ek, sha3(256, ek), z)
+  };
+}
+
+export function mlKemEncapsInternal(
+  parameterSet: MlKemParameterSet,
+  encapsulationKey: Uint8Array,
+  m: Uint8Array
+): { sharedSecret: Uint8Array; ciphertext: Uint8Array } {
+  const [sharedSecret, r] = g(m, sha3(256, encapsulationKey));
+  return { sharedSecret, ciphertext: pkeEncrypt(PARAMS[parameterSet], encapsulationKey, m, r) };
+}
+
+export function mlKemDecapsInternal(
+  parameterSet: MlKemParameterSet,
+  decapsulationKey: Uint8Array,
+  ciphertext: Uint8Array
+): Uint8Array {
+  const params = PARAMS[parameterSet];
+  const { k } = params;
+  const dkPke = decapsulationKey.subarray(0, 384 * k);
+  const ek = decapsulationKey.subarray(384 * k, 768 * k + 32);
+  const h = decapsulationKey.subarray(768 * k + 32, 768 * k + 64);
+  const z = decapsulationKey.subarray(768 * k + 64);
+
+  const m = pkeDecrypt(params, dkPke, ciphertext);
+  const [sharedSecret, r] = g(m, h);
+  const rejection = shake('shake256', concatBytes(z, ciphertext), 32);
+  const reencrypted = pkeEncrypt(params, ek, m, r);
+
+  // Implicit rejection: a tampered ciphertext yields an unrelated key, not an error
+  return timingSafeEqual(reencrypted, ciphertext) ? sharedSecret : rejection;
+}
+
+export function mlKemKeyGen(parameterSet: MlKemParameterSet) {
+  return mlKemKeyGenInternal(parameterSet, randomFillSync(new Uint8Array(32)), randomFillSync(new Uint8Array(32)));
+}
+
+/** Encapsulates to `encapsulationKey` after the FIPS 203 modulus check */
+export function mlKemEncaps(parameterSet: MlKemParameterSet, encapsulationKey: Uint8Array) {
+  const { k } = PARAMS[parameterSet];
+  if (encapsulationKey.length !== mlKemSizes(parameterSet).encapsulationKey) {
+    throw new Error(`ML-KEM-${parameterSet} encapsulation key must be ${mlKemSizes(parameterSet).encapsulationKey} bytes`);
+  }
+  for (let i = 0; i < k; i++) {
+    const chunk = encapsulationKey.subarray(384 * i, 384 * (i + 1));
+    if (!timingSafeEqual(byteEncode(byteDecode(chunk, 12), 12), chunk)) {
+      throw new Error('ML-KEM encapsulation key has coefficients outside the modulus');
+    }
+  }
+  return mlKemEncapsInternal(parameterSet, encapsulationKey, randomFillSync(new Uint8Array(32)));
+}
+
+/** Decapsulates after the FIPS 203 length and hash checks on the inputs */
+export function mlKemDecaps(parameterSet: MlKemParameterSet, decapsulationKey: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const { k } = PARAMS[parameterSet];
+  const sizes = mlKemSizes(parameterSet);
+  if (ciphertext.length !== sizes.ciphertext) {
+    throw new Error(`ML-KEM-${parameterSet} ciphertext must be ${sizes.ciphertext} bytes`);
+  }
+  if (decapsulationKey.length !== sizes.decapsulationKey) {
+    throw new Error(`ML-KEM-${parameterSet} decapsulation key must be ${sizes.decapsulationKey} bytes`);
+  }
+  const ek = decapsulationKey.subarray(384 * k, 768 * k + 32);
+  const h = decapsulationKey.subarray(768 * k + 32, 768 * k + 64);
+  if (!timingSafeEqual(sha3(256, ek), h)) {
+    throw new Error('ML-KEM decapsulation key failed its hash check');
+  }
+  return mlKemDecapsInternal(parameterSet, decapsulationKey, ciphertext);
+}
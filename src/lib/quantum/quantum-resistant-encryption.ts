@@ -1,45 +1,101 @@
-import { createHash } from 'crypto';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  randomFillSync
+} from 'crypto';
 import { EncryptedData } from '@/types/services/encryption';
+import { MlDsaParameterSet, mlDsaKeyGen, mlDsaSign, mlDsaVerify } from './ml-dsa';
+import { MlKemParameterSet, mlKemDecaps, mlKemEncaps, mlKemKeyGen, mlKemSizes } from './ml-kem';
+import { concatBytes, sha3 } from './shake';
 
 /**
- * Implements quantum-resistant encryption using a combination of
- * lattice-based cryptography (CRYSTALS-Kyber) and hash-based signatures (SPHINCS+)
+ * Post-quantum encryption and signatures: ML-KEM (FIPS 203) establishes
+ * an AES-256-GCM key, optionally combined with X25519 so the result stays
+ * secure while either primitive holds, and ML-DSA (FIPS 204) signs.
  */
 export interface QuantumResistantConfig {
-  kyberSecurityLevel: 512 | 768 | 1024;
-  sphincsVariant: 'fast' | 'small';
-  useAesHybridMode: boolean;
+  kemSecurityLevel: MlKemParameterSet;
+  signatureSecurityLevel: MlDsaParameterSet;
+  /** Combine ML-KEM with X25519 (hybrid) rather than relying on ML-KEM alone */
+  classicalHybrid: boolean;
 }
 
+export type QuantumKemAlgorithm = `${'X25519-' | ''}ML-KEM-${MlKemParameterSet}`;
+
 export interface QuantumKeyPair {
-  publicKey: Buffer;
-  privateKey: Buffer;
-  type: 'kyber' | 'sphincs';
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+  type: 'ml-kem' | 'ml-dsa';
   metadata: {
     algorithm: string;
+    /** NIST security category, 1–5 */
     securityLevel: number;
     created: Date;
   };
 }
 
 export interface QuantumEncryptedData extends EncryptedData {
-  algorithm: 'KYBER-1024' | 'KYBER-768' | 'KYBER-512';
-  signature?: Buffer;
-  hybridEncryption?: {
-    aesKey: Buffer;
-    aesIv: Buffer;
+  algorithm: QuantumKemAlgorithm;
+  signature?: Uint8Array;
+  hybridEncryption: {
+    kemCiphertext: Uint8Array;
+    /** X25519 ephemeral public key, in hybrid mode */
+    ephemeralPublicKey?: Uint8Array;
+    aesIv: Uint8Array;
+    authTag: Uint8Array;
+  };
+}
+
+const KEM_CATEGORY: Record<MlKemParameterSet, number> = { 512: 1, 768: 3, 1024: 5 };
+const DSA_CATEGORY: Record<MlDsaParameterSet, number> = { 44: 2, 65: 3, 87: 5 };
+
+// DER framing for raw 32-byte X25519 keys
+const X25519_PKCS8_PREFIX = new Uint8Array(Buffer.from('302e020100300506032b656e04220420', 'hex'));
+const X25519_SPKI_PREFIX = new Uint8Array(Buffer.from('302a300506032b656e032100', 'hex'));
+const X25519_KEY_LENGTH = 32;
+
+// Domain separator for the hybrid combiner, which follows X-Wing
+const COMBINER_LABEL = new TextEncoder().encode('QRE-X25519-MLKEM-v1');
+
+const x25519PrivateKey = (raw: Uint8Array) =>
+  createPrivateKey({ key: Buffer.from(concatBytes(X25519_PKCS8_PREFIX, raw)), format: 'der', type: 'pkcs8' });
+
+const x25519PublicKey = (raw: Uint8Array) =>
+  createPublicKey({ key: Buffer.from(concatBytes(X25519_SPKI_PREFIX, raw)), format: 'der', type: 'spki' });
+
+const encode = (data: Uint8Array | string): Uint8Array =>
+  typeof data === 'string' ? new TextEncoder().encode(data) : data;
+
+function generateX25519(): { publicKey: Uint8Array; privateKey: Uint8Array } {
+  const { publicKey, privateKey } = generateKeyPairSync('x25519');
+  return {
+    publicKey: new Uint8Array(publicKey.export({ format: 'der', type: 'spki' }).subarray(-X25519_KEY_LENGTH)),
+    privateKey: new Uint8Array(privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(-X25519_KEY_LENGTH))
   };
 }
 
+function parseKemAlgorithm(algorithm: string): { hybrid: boolean; level: MlKemParameterSet } {
+  const match = /^(X25519-)?ML-KEM-(512|768|1024)$/.exec(algorithm);
+  if (!match) {
+    throw new Error(`Unsupported algorithm ${algorithm}`);
+  }
+  return { hybrid: Boolean(match[1]), level: Number(match[2]) as MlKemParameterSet };
+}
+
 export class QuantumResistantEncryption {
   private static instance: QuantumResistantEncryption;
   private readonly config: QuantumResistantConfig;
 
   private constructor(config: Partial<QuantumResistantConfig> = {}) {
     this.config = {
-      kyberSecurityLevel: 1024,
-      sphincsVariant: 'small',
-      useAesHybridMode: true,
+      kemSecurityLevel: 1024,
+      signatureSecurityLevel: 87,
+      classicalHybrid: true,
       ...config
     };
   }
@@ -51,192 +107,167 @@ export class QuantumResistantEncryption {
     return QuantumResistantEncryption.instance;
   }
 
+  private get kemAlgorithm(): QuantumKemAlgorithm {
+    return `${this.config.classicalHybrid ? 'X25519-' : ''}ML-KEM-${this.config.kemSecurityLevel}`;
+  }
+
   /**
-   * Generate a new quantum-resistant key pair
+   * Generate a key pair. Hybrid KEM keys are the X25519 key followed by
+   * the ML-KEM key, in both halves of the pair.
    */
-  public async generateKeyPair(type: 'kyber' | 'sphincs' = 'kyber'): Promise<QuantumKeyPair> {
-    // Note: This is a placeholder. In production, we would use actual quantum-resistant libraries
-    // such as liboqs-node for Kyber and SPHINCS+
-    
-    const keySize = type === 'kyber' ? this.config.kyberSecurityLevel / 8 : 512;
-    const publicKey = Buffer.alloc(keySize);
-    const privateKey = Buffer.alloc(keySize);
-
-    // Simulate key generation
-    crypto.getRandomValues(new Uint8Array(publicKey));
-    crypto.getRandomValues(new Uint8Array(privateKey));
+  public async generateKeyPair(type: 'ml-kem' | 'ml-dsa' = 'ml-kem'): Promise<QuantumKeyPair> {
+    if (type === 'ml-dsa') {
+      const level = this.config.signatureSecurityLevel;
+      const { publicKey, privateKey } = mlDsaKeyGen(level);
+      return {
+        publicKey,
+        privateKey,
+        type,
+        metadata: { algorithm: `ML-DSA-${level}`, securityLevel: DSA_CATEGORY[level], created: new Date() }
+      };
+    }
+
+    const level = this.config.kemSecurityLevel;
+    const { encapsulationKey, decapsulationKey } = mlKemKeyGen(level);
+    const classical = this.config.classicalHybrid ? generateX25519() : null;
 
     return {
-      publicKey,
-      privateKey,
+      publicKey: classical ? concatBytes(classical.publicKey, encapsulationKey) : encapsulationKey,
+      privateKey: classical ? concatBytes(classical.privateKey, decapsulationKey) : decapsulationKey,
       type,
-      metadata: {
-        algorithm: type === 'kyber' ? `KYBER-${this.config.kyberSecurityLevel}` : 'SPHINCS+',
-        securityLevel: type === 'kyber' ? this.config.kyberSecurityLevel : 256,
-        created: new Date()
-      }
+      metadata: { algorithm: this.kemAlgorithm, securityLevel: KEM_CATEGORY[level], created: new Date() }
     };
   }
 
   /**
-   * Encrypt data using quantum-resistant encryption
+   * Encrypt data for the holder of `recipientPublicKey`: a fresh KEM
+   * shared secret keys AES-256-GCM for the payload
    */
   public async encrypt(
-    data: Buffer | string,
-    recipientPublicKey: Buffer
+    data: Uint8Array | string,
+    recipientPublicKey: Uint8Array
   ): Promise<QuantumEncryptedData> {
-    const dataBuffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
-    
-    // In hybrid mode, we use Kyber for key encapsulation and AES for data encryption
-    if (this.config.useAesHybridMode) {
-      // Generate AES key and IV
-      const aesKey = Buffer.alloc(32);
-      const aesIv = Buffer.alloc(16);
-      crypto.getRandomValues(new Uint8Array(aesKey));
-      crypto.getRandomValues(new Uint8Array(aesIv));
-
-      // Encrypt AES key with Kyber
-      // Note: In production, this would use actual Kyber implementation
-      const encryptedKey = this.simulateKyberEncryption(aesKey, recipientPublicKey);
-
-      // Encrypt data with AES
-      const encryptedData = this.hybridEncrypt(dataBuffer, aesKey, aesIv);
+    const algorithm = this.kemAlgorithm;
+    const { hybrid, level } = parseKemAlgorithm(algorithm);
 
-      return {
-        data: encryptedData.toString('base64'),
-        iv: aesIv.toString('base64'),
-        algorithm: `KYBER-${this.config.kyberSecurityLevel}`,
-        keyId: createHash('sha256').update(recipientPublicKey).digest('hex'),
-        metadata: {
-          mode: 'hybrid',
-          timestamp: new Date().toISOString()
-        },
-        hybridEncryption: {
-          aesKey: encryptedKey,
-          aesIv
-        }
-      };
+    this.assertKeyLength(recipientPublicKey, level, hybrid, 'public');
+    const classicalKey = hybrid ? recipientPublicKey.subarray(0, X25519_KEY_LENGTH) : null;
+    const encapsulationKey = hybrid ? recipientPublicKey.subarray(X25519_KEY_LENGTH) : recipientPublicKey;
+
+    const { sharedSecret, ciphertext } = mlKemEncaps(level, encapsulationKey);
+    let aesKey = sharedSecret;
+    let ephemeralPublicKey: Uint8Array | undefined;
+
+    if (classicalKey) {
+      const ephemeral = generateX25519();
+      const classicalSecret = new Uint8Array(diffieHellman({
+        privateKey: x25519PrivateKey(ephemeral.privateKey),
+        publicKey: x25519PublicKey(classicalKey)
+      }));
+      ephemeralPublicKey = ephemeral.publicKey;
+      aesKey = this.combineSecrets(sharedSecret, classicalSecret, ephemeralPublicKey, classicalKey);
     }
 
-    // Direct Kyber encryption for small data
-    const encryptedData = this.simulateKyberEncryption(dataBuffer, recipientPublicKey);
+    const aesIv = randomFillSync(new Uint8Array(12));
+    const cipher = createCipheriv('aes-256-gcm', aesKey, aesIv);
+    cipher.setAAD(new TextEncoder().encode(algorithm));
+    const encryptedData = concatBytes(new Uint8Array(cipher.update(encode(data))), new Uint8Array(cipher.final()));
 
     return {
-      data: encryptedData.toString('base64'),
-      iv: Buffer.alloc(0).toString('base64'), // No IV needed for direct Kyber
-      algorithm: `KYBER-${this.config.kyberSecurityLevel}`,
+      data: Buffer.from(encryptedData).toString('base64'),
+      iv: Buffer.from(aesIv).toString('base64'),
+      algorithm,
       keyId: createHash('sha256').update(recipientPublicKey).digest('hex'),
       metadata: {
-        mode: 'direct',
+        mode: hybrid ? 'hybrid' : 'ml-kem',
         timestamp: new Date().toISOString()
+      },
+      hybridEncryption: {
+        kemCiphertext: ciphertext,
+        ephemeralPublicKey,
+        aesIv,
+        authTag: new Uint8Array(cipher.getAuthTag())
       }
     };
   }
 
   /**
-   * Decrypt data using quantum-resistant encryption
+   * Decrypt data; fails if the key does not match or anything was altered
    */
   public async decrypt(
     encryptedData: QuantumEncryptedData,
-    privateKey: Buffer
+    privateKey: Uint8Array
   ): Promise<Buffer> {
-    if (encryptedData.hybridEncryption) {
-      // Decrypt AES key using Kyber
-      const aesKey = this.simulateKyberDecryption(
-        encryptedData.hybridEncryption.aesKey,
-        privateKey
-      );
+    const { hybrid, level } = parseKemAlgorithm(encryptedData.algorithm);
+    const { kemCiphertext, ephemeralPublicKey, aesIv, authTag } = encryptedData.hybridEncryption;
+
+    this.assertKeyLength(privateKey, level, hybrid, 'private');
+    const decapsulationKey = hybrid ? privateKey.subarray(X25519_KEY_LENGTH) : privateKey;
+    let aesKey = mlKemDecaps(level, decapsulationKey, kemCiphertext);
 
-      // Decrypt data using AES
-      return this.hybridDecrypt(
-        Buffer.from(encryptedData.data, 'base64'),
-        aesKey,
-        encryptedData.hybridEncryption.aesIv
+    if (hybrid) {
+      if (!ephemeralPublicKey) {
+        throw new Error('Hybrid ciphertext is missing its X25519 ephemeral key');
+      }
+      const classicalPrivate = x25519PrivateKey(privateKey.subarray(0, X25519_KEY_LENGTH));
+      const classicalSecret = new Uint8Array(diffieHellman({
+        privateKey: classicalPrivate,
+        publicKey: x25519PublicKey(ephemeralPublicKey)
+      }));
+      const classicalKey = new Uint8Array(
+        createPublicKey(classicalPrivate).export({ format: 'der', type: 'spki' }).subarray(-X25519_KEY_LENGTH)
       );
+      aesKey = this.combineSecrets(aesKey, classicalSecret, ephemeralPublicKey, classicalKey);
     }
 
-    // Direct Kyber decryption
-    return this.simulateKyberDecryption(
-      Buffer.from(encryptedData.data, 'base64'),
-      privateKey
-    );
+    const decipher = createDecipheriv('aes-256-gcm', aesKey, aesIv);
+    decipher.setAAD(new TextEncoder().encode(encryptedData.algorithm));
+    decipher.setAuthTag(authTag);
+    return Buffer.from(concatBytes(
+      new Uint8Array(decipher.update(encryptedData.data, 'base64')),
+      new Uint8Array(decipher.final())
+    ));
   }
 
   /**
-   * Sign data using SPHINCS+
+   * Sign data using ML-DSA
    */
-  public async sign(data: Buffer | string, privateKey: Buffer): Promise<Buffer> {
-    const dataBuffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
-    
-    // Note: This is a placeholder. In production, we would use actual SPHINCS+ implementation
-    const signature = Buffer.alloc(64);
-    const hash = createHash('sha256')
-      .update(Buffer.concat([dataBuffer, privateKey]))
-      .digest();
-    signature.set(hash.slice(0, 64));
-    
-    return signature;
+  public async sign(data: Uint8Array | string, privateKey: Uint8Array): Promise<Uint8Array> {
+    return mlDsaSign(this.config.signatureSecurityLevel, privateKey, encode(data));
   }
 
   /**
-   * Verify a SPHINCS+ signature
+   * Verify an ML-DSA signature; malformed signatures or keys are invalid
    */
   public async verify(
-    data: Buffer | string,
-    signature: Buffer,
-    publicKey: Buffer
+    data: Uint8Array | string,
+    signature: Uint8Array,
+    publicKey: Uint8Array
   ): Promise<boolean> {
-    const dataBuffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
-    // Simulate signature verification with hash comparison
-    const expectedHash = createHash('sha256')
-      .update(Buffer.concat([dataBuffer, publicKey]))
-      .digest();
-    return Buffer.compare(signature.slice(0, 32), expectedHash.slice(0, 32)) === 0;
+    return mlDsaVerify(this.config.signatureSecurityLevel, publicKey, encode(data), signature);
   }
 
   // Private helper methods
 
-  private simulateKyberEncryption(data: Buffer, publicKey: Buffer): Buffer {
-    // Simulate encryption with XOR and hash
-    const keyHash = createHash('sha256').update(publicKey).digest();
-    const encrypted = Buffer.alloc(data.length);
-    for (let i = 0; i < data.length; i++) {
-      encrypted[i] = data[i] ^ keyHash[i % 32];
-    }
-    return encrypted;
-  }
-
-  private simulateKyberDecryption(data: Buffer, privateKey: Buffer): Buffer {
-    // Simulate decryption with XOR and hash (inverse of encryption)
-    const keyHash = createHash('sha256').update(privateKey).digest();
-    const decrypted = Buffer.alloc(data.length);
-    for (let i = 0; i < data.length; i++) {
-      decrypted[i] = data[i] ^ keyHash[i % 32];
-    }
-    return decrypted;
-  }
-
-  private hybridEncrypt(data: Buffer, key: Buffer, iv: Buffer): Buffer {
-    // Simulate AES encryption with XOR and hash
-    const keyIvHash = createHash('sha256')
-      .update(Buffer.concat([key, iv]))
-      .digest();
-    const encrypted = Buffer.alloc(data.length);
-    for (let i = 0; i < data.length; i++) {
-      encrypted[i] = data[i] ^ keyIvHash[i % 32];
-    }
-    return encrypted;
+  /**
+   * Hybrid combiner in the shape of X-Wing: the KEM ciphertext is bound
+   * through ML-KEM's own transcript hashing, the X25519 transcript here
+   */
+  private combineSecrets(
+    kemSecret: Uint8Array,
+    classicalSecret: Uint8Array,
+    ephemeralPublicKey: Uint8Array,
+    recipientClassicalKey: Uint8Array
+  ): Uint8Array {
+    return sha3(256, COMBINER_LABEL, kemSecret, classicalSecret, ephemeralPublicKey, recipientClassicalKey);
   }
 
-  private hybridDecrypt(data: Buffer, key: Buffer, iv: Buffer): Buffer {
-    // Simulate AES decryption with XOR and hash (inverse of encryption)
-    const keyIvHash = createHash('sha256')
-      .update(Buffer.concat([key, iv]))
-      .digest();
-    const decrypted = Buffer.alloc(data.length);
-    for (let i = 0; i < data.length; i++) {
-      decrypted[i] = data[i] ^ keyIvHash[i % 32];
+  private assertKeyLength(key: Uint8Array, level: MlKemParameterSet, hybrid: boolean, half: 'public' | 'private'): void {
+    const sizes = mlKemSizes(level);
+    const expected = (hybrid ? X25519_KEY_LENGTH : 0)
+      + (half === 'public' ? sizes.encapsulationKey : sizes.decapsulationKey);
+    if (key.length !== expected) {
+      throw new Error(`${half === 'public' ? 'Public' : 'Private'} key must be ${expected} bytes for this algorithm`);
     }
-    return decrypted;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+import { createHash } from 'crypto';
+
+export type XofAlgorithm = 'shake128' | 'shake256';
+
+export function shake(algorithm: XofAlgorithm, input: Uint8Array, length: number): Uint8Array {
+  return new Uint8Array(createHash(algorithm, { outputLength: length }).update(input).digest());
+}
+
+export function sha3(bits: 256 | 512, ...inputs: Uint8Array[]): Uint8Array {
+  const hash = createHash(`sha3-${bits}`);
+  inputs.forEach(input => hash.update(input));
+  return new Uint8Array(hash.digest());
+}
+
+export function concatBytes(...chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Incremental reader over a SHAKE output stream. Node only hashes to a
+ * fixed length, so the stream is re-derived at twice the length when the
+ * reader runs out; a longer SHAKE output always extends the shorter one.
+ */
+export class XofReader {
+  private buffer: Uint8Array;
+  private offset = 0;
+
+  constructor(private readonly algorithm: XofAlgorithm, private readonly seed: Uint8Array, initialLength: number) {
+    this.buffer = shake(algorithm, seed, initialLength);
+  }
+
+  public read(length: number): Uint8Array {
+    while (this.offset + length > this.buffer.length) {
+      this.buffer = shake(this.algorithm, this.seed, this.buffer.length * 2);
+    }
+    const out = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+
+  public readByte(): number {
+    return this.read(1)[0];
+  }
+}
@@ -1,6 +1,9 @@
 import { createServerClient } from '@supabase/ssr'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
 
+let serviceRoleClient: SupabaseClient | null = null
+
 export function createServerSupabaseClient() {
   return createServerClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -21,6 +24,28 @@ export function createServerSupabaseClient() {
   )
 }
 
+/**
+ * Client for server-side work that is not done on behalf of one caller, such
+ * as queue workers and system tables without user policies. It bypasses RLS,
+ * so callers must authorize the request themselves first. Never expose it to
+ * the browser.
+ */
+export function createServiceRoleClient(): SupabaseClient {
+  if (!serviceRoleClient) {
+    serviceRoleClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    )
+  }
+  return serviceRoleClient
+}
+
 export async function getServerSession() {
   const supabase = createServerSupabaseClient()
   try {
@@ -37,4 +62,31 @@ export async function getServerSession() {
 export async function getServerUser() {
   const session = await getServerSession()
   return session?.user ?? null
+}
+
+export interface ServerCaller {
+  /** Cookie-scoped client acting as the caller */
+  supabase: ReturnType<typeof createServerSupabaseClient>
+  userId: string
+  role: string | null
+}
+
+/**
+ * The signed-in caller and their profile role, for API routes that gate on
+ * role. Returns null when there is no session.
+ */
+export async function getServerCaller(): Promise<ServerCaller | null> {
+  const supabase = createServerSupabaseClient()
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) return null
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('user_id', session.user.id)
+    .maybeSingle()
+
+  return { supabase, userId: session.user.id, role: profile?.role ?? null }
 } 
\ No newline at end of file
@@ -1,404 +1,690 @@
-import { createHash, randomBytes } from "crypto";
-import { SecurityAuditService } from "@/services/SecurityAuditService";
+import { randomInt } from "crypto";
 import { SupabaseClient, createClient } from "@supabase/supabase-js";
+import { v4 as uuidv4 } from "uuid";
+import { logger } from "../logger";
+import { KeyTransitionContext } from "../../types/chat";
+import {
+  DeviceAddress,
+  DeviceRecord,
+  DeviceSecrets,
+  KeyPair,
+  PreKeyBundle,
+  PreKeyHeader,
+  RATCHET_KEY_VERSION,
+  RatchetEnvelope,
+  RatchetError,
+  RatchetErrorCode,
+  RatchetFanout,
+  RatchetState,
+  RatchetStore,
+  RatchetVault,
+  SupabaseRatchetStore,
+  acceptSession,
+  decodeEnvelopes,
+  decodeHeader,
+  decodePreKey,
+  deserializeState,
+  encodeHeader,
+  encodePreKey,
+  initiateSession,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  serializeState,
+} from "./ratchet";
+import {
+  bytesEqual,
+  fromBase64,
+  generateDhKeyPair,
+  generateSigningKeyPair,
+  signKey,
+  toBase64,
+} from "./ratchet/primitives";
+
+interface ForwardSecrecyOptions {
+  store?: RatchetStore;
+  vault?: RatchetVault;
+}
 
-interface RatchetState {
-  rootKey: Buffer;
-  sendingChainKey: Buffer;
-  receivingChainKey: Buffer;
-  sendingRatchetKeyPair: { privateKey: Buffer; publicKey: Buffer };
-  receivingRatchetPublicKey: Buffer;
-  previousRatchetPublicKeys: Buffer[];
-  messageNumbers: Map<string, number>;
-  skippedMessageKeys: Map<string, Buffer>;
+interface SessionUpdate<T> {
+  state: RatchetState;
+  result: T;
+  /** The state comes from a new handshake and replaces the stored session */
+  replaces?: boolean;
 }
 
+// Failures that concern one device only, rather than this instance or its storage
+const UNDELIVERABLE: RatchetErrorCode[] = ["unknown_device", "invalid_bundle"];
+
+const sameDevice = (a: DeviceAddress, b: DeviceAddress) =>
+  a.userId === b.userId && a.deviceId === b.deviceId;
+
+/**
+ * Double Ratchet sessions between devices, persisted so any instance can
+ * continue a conversation. Sessions are opened asynchronously from X3DH
+ * prekey bundles and kept per device pair (Sesame): a message is encrypted
+ * once for each of the recipient's devices and each of the sender's other
+ * devices, so every device a user reads from holds its own chain. A message
+ * key is spent once used, so each device keeps a sealed copy of what it has
+ * read, and the sending device keeps one of what it sent.
+ */
 export class ForwardSecrecyService {
-  private securityAudit: SecurityAuditService;
-  private supabase: SupabaseClient;
-  private ratchetStates: Map<string, RatchetState>;
-  private readonly MAX_SKIP = 1000;
-  private readonly HASH_ALG = "sha256";
+  private static instance: ForwardSecrecyService;
+  private store: RatchetStore;
+  private vaultInstance?: RatchetVault;
+  private readonly MAX_SAVE_ATTEMPTS = 3;
+  private readonly PREKEY_BATCH_SIZE = 100;
+  private readonly PREKEY_LOW_WATER = 20;
 
   constructor(
     supabaseClient?: SupabaseClient,
-    securityAudit?: SecurityAuditService,
+    options: ForwardSecrecyOptions = {},
   ) {
-    this.securityAudit = securityAudit || new SecurityAuditService();
-    if (supabaseClient) {
-      this.supabase = supabaseClient;
-    } else {
+    this.vaultInstance = options.vault;
+    if (options.store) {
+      this.store = options.store;
+      return;
+    }
+    if (!supabaseClient) {
       if (
         !process.env.NEXT_PUBLIC_SUPABASE_URL ||
         !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
       ) {
         throw new Error("Supabase environment variables are required");
       }
-      this.supabase = createClient(
+      supabaseClient = createClient(
         process.env.NEXT_PUBLIC_SUPABASE_URL,
         process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
       );
     }
-    this.ratchetStates = new Map();
+    this.store = new SupabaseRatchetStore(supabaseClient);
   }
 
-  public setSupabaseClient(supabaseClient: SupabaseClient): void {
-    this.supabase = supabaseClient;
+  public static getInstance(
+    supabaseClient?: SupabaseClient,
+  ): ForwardSecrecyService {
+    if (!ForwardSecrecyService.instance) {
+      ForwardSecrecyService.instance = new ForwardSecrecyService(
+        supabaseClient,
+      );
+    }
+    return ForwardSecrecyService.instance;
   }
 
-  public async initializeRatchet(
-    threadId: string,
-    sharedSecret: Buffer,
-    isInitiator: boolean,
-  ): Promise<void> {
-    const rootKey = await this.generateRootKey(sharedSecret);
-    const ratchetKeyPair = await this.generateRatchetKeyPair();
-
-    const state: RatchetState = {
-      rootKey,
-      sendingChainKey: isInitiator ? rootKey : Buffer.alloc(0),
-      receivingChainKey: isInitiator ? Buffer.alloc(0) : rootKey,
-      sendingRatchetKeyPair: ratchetKeyPair,
-      receivingRatchetPublicKey: Buffer.alloc(0),
-      previousRatchetPublicKeys: [],
-      messageNumbers: new Map(),
-      skippedMessageKeys: new Map(),
-    };
-
-    this.ratchetStates.set(threadId, state);
+  public setSupabaseClient(supabaseClient: SupabaseClient): void {
+    this.store = new SupabaseRatchetStore(supabaseClient);
+  }
 
-    await this.securityAudit.logEvent({
-      type: "ratchet_initialized",
-      threadId,
-      isInitiator,
-    });
+  /** Read lazily so constructing the service does not require the key */
+  private get vault(): RatchetVault {
+    this.vaultInstance ??= RatchetVault.fromEnv();
+    return this.vaultInstance;
   }
 
-  public async ratchetEncrypt(
-    threadId: string,
-    message: Buffer,
-  ): Promise<{
-    ciphertext: Buffer;
-    header: {
-      publicKey: Buffer;
-      messageNumber: number;
-      previousChainLength: number;
+  // Devices and prekeys
+
+  /**
+   * Create a device's identity, signed prekey and a batch of one-time
+   * prekeys. Re-registering an address replaces its keys, which peers
+   * see as a new device.
+   */
+  public async registerDevice(address: DeviceAddress): Promise<DeviceRecord> {
+    const identity = generateDhKeyPair();
+    const signing = generateSigningKeyPair();
+    const signedPreKey = { ...generateDhKeyPair(), keyId: randomInt(1, 2 ** 31) };
+
+    const device: DeviceRecord = {
+      address,
+      identityKey: identity.publicKey,
+      signingKey: signing.publicKey,
+      signedPreKey: {
+        keyId: signedPreKey.keyId,
+        publicKey: signedPreKey.publicKey,
+        signature: signKey(signing.privateKey, signedPreKey.publicKey),
+      },
+      sealedSecrets: this.sealSecrets(address, {
+        identityPrivateKey: identity.privateKey,
+        signingPrivateKey: signing.privateKey,
+        signedPreKeys: [signedPreKey],
+      }),
     };
-  }> {
-    const state = this.ratchetStates.get(threadId);
-    if (!state) throw new Error("Ratchet not initialized");
 
-    // Generate message key and next chain key
-    const { messageKey, nextChainKey } = await this.ratchetStep(
-      state.sendingChainKey,
-    );
-    state.sendingChainKey = nextChainKey;
-
-    // Encrypt message
-    const ciphertext = await this.encrypt(messageKey, message);
-
-    // Update state
-    const messageNumber = state.messageNumbers.get(threadId) || 0;
-    state.messageNumbers.set(threadId, messageNumber + 1);
+    await this.store.saveDevice(device);
+    await this.replenishPreKeys(address, this.PREKEY_BATCH_SIZE);
+    await logger.info("Ratchet device registered", {
+      userId: address.userId,
+      deviceId: address.deviceId,
+    });
+    return device;
+  }
 
-    const header = {
-      publicKey: await this.getPublicKey(
-        state.sendingRatchetKeyPair.privateKey,
-      ),
-      messageNumber,
-      previousChainLength: state.previousRatchetPublicKeys.length,
-    };
+  public async ensureDevice(address: DeviceAddress): Promise<DeviceRecord> {
+    const existing = await this.store.getDevice(address);
+    return existing && !existing.revokedAt
+      ? existing
+      : this.registerDevice(address);
+  }
 
-    await this.securityAudit.logEvent({
-      type: "message_encrypted",
-      threadId,
-      messageNumber,
+  /** Stop encrypting to a device; its sessions stay readable until retired */
+  public async revokeDevice(address: DeviceAddress): Promise<void> {
+    await this.store.revokeDevice(address);
+    await logger.info("Ratchet device revoked", {
+      userId: address.userId,
+      deviceId: address.deviceId,
     });
+  }
 
-    return { ciphertext, header };
+  /**
+   * Replace the signed prekey. The previous one stays usable so handshakes
+   * started from an older bundle still complete.
+   */
+  public async rotateSignedPreKey(address: DeviceAddress): Promise<void> {
+    const device = await this.requireDevice(address);
+    const secrets = this.openSecrets(device);
+    const signedPreKey = { ...generateDhKeyPair(), keyId: randomInt(1, 2 ** 31) };
+
+    await this.store.saveDevice({
+      ...device,
+      signedPreKey: {
+        keyId: signedPreKey.keyId,
+        publicKey: signedPreKey.publicKey,
+        signature: signKey(secrets.signingPrivateKey, signedPreKey.publicKey),
+      },
+      sealedSecrets: this.sealSecrets(address, {
+        ...secrets,
+        signedPreKeys: [signedPreKey, secrets.signedPreKeys[0]],
+      }),
+    });
   }
 
-  public async ratchetDecrypt(
-    threadId: string,
-    message: {
-      ciphertext: Buffer;
-      header: {
-        publicKey: Buffer;
-        messageNumber: number;
-        previousChainLength: number;
+  public async replenishPreKeys(
+    address: DeviceAddress,
+    count: number = this.PREKEY_BATCH_SIZE,
+  ): Promise<void> {
+    const keys = Array.from({ length: count }, () => {
+      const keyPair = generateDhKeyPair();
+      const keyId = randomInt(1, 2 ** 31);
+      return {
+        keyId,
+        publicKey: keyPair.publicKey,
+        sealedPrivate: this.vault.seal(
+          this.preKeyRecordId(address, keyId),
+          toBase64(keyPair.privateKey),
+        ),
       };
-    },
-  ): Promise<Buffer> {
-    const state = this.ratchetStates.get(threadId);
-    if (!state) throw new Error("Ratchet not initialized");
+    });
+    await this.store.addOneTimePreKeys(address, keys);
+  }
 
-    // Try to decrypt with skipped message keys
-    const skippedKey = this.trySkippedMessageKeys(state, message.header);
-    if (skippedKey) {
-      return await this.decrypt(skippedKey, message.ciphertext);
+  /** Fetch a bundle to open a session with, consuming one one-time prekey if any are left */
+  public async getPreKeyBundle(address: DeviceAddress): Promise<PreKeyBundle> {
+    const device = await this.requireDevice(address);
+    const oneTimePreKey = await this.store.claimOneTimePreKey(address);
+    if (!oneTimePreKey) {
+      await logger.warn("Device is out of one-time prekeys", {
+        userId: address.userId,
+        deviceId: address.deviceId,
+      });
     }
 
-    // Perform ratchet steps if needed
-    if (!state.receivingRatchetPublicKey.equals(message.header.publicKey)) {
-      await this.performRatchetSteps(state, message.header);
+    return {
+      address,
+      identityKey: device.identityKey,
+      signingKey: device.signingKey,
+      signedPreKey: device.signedPreKey,
+      oneTimePreKey: oneTimePreKey ?? undefined,
+    };
+  }
+
+  // Messages
+
+  /**
+   * Encrypt a message for every active device of the recipient and every
+   * other device of the sender. Devices no session can be opened with
+   * are reported rather than failing the whole message. Given the message
+   * id, the sending device keeps a sealed copy so it can read it back.
+   */
+  public async encryptForUser(
+    threadId: string,
+    sender: DeviceAddress,
+    recipientUserId: string,
+    message: Uint8Array | string,
+    messageId?: string,
+  ): Promise<RatchetFanout> {
+    const plaintext =
+      typeof message === "string" ? new TextEncoder().encode(message) : message;
+    const recipients = await this.fanoutDevices(sender, recipientUserId);
+    if (!recipients.some((device) => device.userId === recipientUserId)) {
+      throw new RatchetError(
+        "unknown_device",
+        `User ${recipientUserId} has no registered devices`,
+      );
     }
 
-    // Generate message key and next chain key
-    const { messageKey, nextChainKey } = await this.ratchetStep(
-      state.receivingChainKey,
-    );
-    state.receivingChainKey = nextChainKey;
+    const fanout: RatchetFanout = { envelopes: [], undelivered: [] };
+    for (const remote of recipients) {
+      try {
+        fanout.envelopes.push(
+          await this.encryptForDevice(threadId, sender, remote, plaintext),
+        );
+      } catch (error) {
+        if (
+          !(error instanceof RatchetError) ||
+          !UNDELIVERABLE.includes(error.code)
+        ) {
+          throw error;
+        }
+        fanout.undelivered.push(remote);
+        await logger.warn("Could not encrypt for device", {
+          threadId,
+          userId: remote.userId,
+          deviceId: remote.deviceId,
+          error: error.message,
+        });
+      }
+    }
 
-    await this.securityAudit.logEvent({
-      type: "message_decrypted",
-      threadId,
-      messageNumber: message.header.messageNumber,
-    });
+    if (messageId) {
+      await this.saveCopy(messageId, sender, plaintext);
+    }
+    return fanout;
+  }
 
-    return await this.decrypt(messageKey, message.ciphertext);
+  /**
+   * Read a stored message as one device. The first read decrypts the
+   * device's envelope and keeps a sealed copy; later reads, and the
+   * sender's own device, open that copy without touching the ratchet.
+   */
+  public async readMessage(
+    local: DeviceAddress,
+    messageId: string,
+    content: string,
+  ): Promise<Buffer> {
+    const copy = await this.openCopy(messageId, local);
+    if (copy) return copy;
+
+    try {
+      const plaintext = await this.decryptForDevice(local, content);
+      await this.saveCopy(messageId, local, new Uint8Array(plaintext));
+      return plaintext;
+    } catch (error) {
+      // A concurrent first read may have spent the key and kept the copy
+      const raced = await this.openCopy(messageId, local);
+      if (raced) return raced;
+      throw error;
+    }
   }
 
-  private async generateRootKey(sharedSecret: Buffer): Promise<Buffer> {
-    // Use HKDF to derive root key
-    const key = await window.crypto.subtle.importKey(
-      "raw",
-      sharedSecret,
-      { name: "HKDF" },
-      false,
-      ["deriveBits"],
+  /** Decrypt this device's envelope out of encoded message content */
+  public async decryptForDevice(
+    local: DeviceAddress,
+    content: string,
+  ): Promise<Buffer> {
+    const envelope = decodeEnvelopes(content).find((candidate) =>
+      sameDevice(candidate.recipient, local),
     );
+    if (!envelope) {
+      throw new RatchetError(
+        "unknown_device",
+        `Message was not encrypted for device ${local.deviceId}`,
+      );
+    }
+    return this.decryptEnvelope(local, envelope);
+  }
+
+  public async decryptEnvelope(
+    local: DeviceAddress,
+    envelope: RatchetEnvelope,
+  ): Promise<Buffer> {
+    if (!sameDevice(envelope.recipient, local)) {
+      throw new RatchetError(
+        "unknown_device",
+        "Envelope is addressed to another device",
+      );
+    }
 
-    const rootKey = await window.crypto.subtle.deriveBits(
-      {
-        name: "HKDF",
-        hash: "SHA-256",
-        salt: new Uint8Array(32),
-        info: new TextEncoder().encode("RootKey"),
+    const header = decodeHeader(envelope.header);
+    const ciphertext = fromBase64(envelope.ciphertext);
+    const preKey = envelope.preKey ? decodePreKey(envelope.preKey) : null;
+    let consumedPreKeyId: number | undefined;
+
+    const plaintext = await this.withSession(
+      local,
+      envelope.sender,
+      async (current) => {
+        let state = current;
+        let replaces = false;
+        // A prekey header we have not accepted yet starts a new session;
+        // repeats of the one we have just continue it
+        if (
+          preKey &&
+          !(current && bytesEqual(current.baseKey, preKey.ephemeralKey))
+        ) {
+          state = await this.acceptPreKey(local, envelope.sender, preKey);
+          replaces = true;
+          consumedPreKeyId = preKey.oneTimePreKeyId;
+        }
+        if (!state) {
+          throw new RatchetError(
+            "no_session",
+            `No session with ${envelope.sender.userId}/${envelope.sender.deviceId}`,
+          );
+        }
+
+        const decrypted = ratchetDecrypt(
+          state,
+          header,
+          ciphertext,
+          new TextEncoder().encode(envelope.threadId),
+        );
+        return { state: decrypted.state, result: decrypted.plaintext, replaces };
       },
-      key,
-      256,
     );
 
-    return Buffer.from(rootKey);
+    if (consumedPreKeyId !== undefined) {
+      await this.store.deleteOneTimePreKey(local, consumedPreKeyId);
+      if (
+        (await this.store.countOneTimePreKeys(local)) < this.PREKEY_LOW_WATER
+      ) {
+        await this.replenishPreKeys(local);
+      }
+    }
+    return Buffer.from(plaintext);
   }
 
-  private async generateRatchetKeyPair(): Promise<{
-    privateKey: Buffer;
-    publicKey: Buffer;
-  }> {
-    const keyPair = await window.crypto.subtle.generateKey(
-      {
-        name: "ECDH",
-        namedCurve: "P-256",
-      },
-      true,
-      ["deriveKey", "deriveBits"],
-    );
+  // Recovery
+
+  /**
+   * Retire the sender's sessions with the recipient's devices and its own
+   * other devices, so the next send opens fresh ones by X3DH. Used when a
+   * device lost its ratchet state or a chain can no longer be decrypted;
+   * the returned context lets MessageRecoveryService re-send the message.
+   */
+  public async beginKeyTransition(
+    sender: DeviceAddress,
+    recipientUserId: string,
+  ): Promise<KeyTransitionContext> {
+    const sessions = [
+      ...(await this.store.listSessions(sender, recipientUserId)),
+      ...(recipientUserId === sender.userId
+        ? []
+        : await this.store.listSessions(sender, sender.userId)),
+    ];
+    for (const session of sessions) {
+      await this.store.retireSession(session.id);
+    }
 
-    const privateKeyBuffer = await window.crypto.subtle.exportKey(
-      "raw",
-      keyPair.privateKey,
-    );
-    const publicKeyBuffer = await window.crypto.subtle.exportKey(
-      "raw",
-      keyPair.publicKey,
-    );
+    await logger.info("Ratchet sessions retired for key transition", {
+      userId: sender.userId,
+      deviceId: sender.deviceId,
+      recipientUserId,
+      sessions: sessions.length,
+    });
 
     return {
-      privateKey: Buffer.from(privateKeyBuffer),
-      publicKey: Buffer.from(publicKeyBuffer),
+      fromVersion: RATCHET_KEY_VERSION,
+      toVersion: "current",
+      keyId: `${sender.userId}:${sender.deviceId}`,
+      transitionStarted: new Date(),
+      retryCount: 0,
+      ratchet: {
+        senderDeviceId: sender.deviceId,
+        retiredSessionIds: sessions.map((session) => session.id),
+      },
     };
   }
 
-  private async ratchetStep(
-    chainKey: Buffer,
-  ): Promise<{ messageKey: Buffer; nextChainKey: Buffer }> {
-    // Import chain key
-    const key = await window.crypto.subtle.importKey(
-      "raw",
-      chainKey,
-      { name: "HKDF" },
-      false,
-      ["deriveBits"],
-    );
-
-    // Derive message key
-    const messageKeyBits = await window.crypto.subtle.deriveBits(
-      {
-        name: "HKDF",
-        hash: "SHA-256",
-        salt: new Uint8Array(32),
-        info: new TextEncoder().encode("MessageKey"),
-      },
-      key,
-      256,
-    );
+  // Private helper methods
 
-    // Derive next chain key
-    const nextChainKeyBits = await window.crypto.subtle.deriveBits(
-      {
-        name: "HKDF",
-        hash: "SHA-256",
-        salt: new Uint8Array(32),
-        info: new TextEncoder().encode("ChainKey"),
-      },
-      key,
-      256,
-    );
+  private async encryptForDevice(
+    threadId: string,
+    sender: DeviceAddress,
+    remote: DeviceAddress,
+    plaintext: Uint8Array,
+  ): Promise<RatchetEnvelope> {
+    return this.withSession(sender, remote, async (current) => {
+      const state = current ?? (await this.openSession(sender, remote));
+      const encrypted = ratchetEncrypt(
+        state,
+        plaintext,
+        new TextEncoder().encode(threadId),
+      );
 
-    return {
-      messageKey: Buffer.from(messageKeyBits),
-      nextChainKey: Buffer.from(nextChainKeyBits),
-    };
+      return {
+        state: encrypted.state,
+        result: {
+          threadId,
+          sender,
+          recipient: remote,
+          header: encodeHeader(encrypted.header),
+          preKey: state.pendingPreKey
+            ? encodePreKey(state.pendingPreKey)
+            : undefined,
+          ciphertext: toBase64(encrypted.ciphertext),
+        },
+      };
+    });
   }
 
-  private async encrypt(key: Buffer, message: Buffer): Promise<Buffer> {
-    // Import key for encryption
-    const cryptoKey = await window.crypto.subtle.importKey(
-      "raw",
-      key,
-      { name: "AES-GCM" },
-      false,
-      ["encrypt"],
-    );
-
-    // Generate IV
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  /**
+   * Load, advance and save a session with optimistic concurrency: if another
+   * instance saved the same session in between, start over from its state
+   */
+  private async withSession<T>(
+    local: DeviceAddress,
+    remote: DeviceAddress,
+    update: (state: RatchetState | null) => Promise<SessionUpdate<T>>,
+  ): Promise<T> {
+    for (let attempt = 0; attempt < this.MAX_SAVE_ATTEMPTS; attempt++) {
+      const record = await this.store.getSession(local, remote);
+      const current = record
+        ? deserializeState(this.vault.open(record.id, record.sealedState))
+        : null;
+
+      const { state, result, replaces } = await update(current);
+
+      if (record && replaces) {
+        await this.store.retireSession(record.id);
+      }
+      const fresh = !record || replaces;
+      const id = fresh ? uuidv4() : record.id;
+      const saved = await this.store.saveSession(
+        {
+          id,
+          local,
+          remote,
+          sealedState: this.vault.seal(id, serializeState(state)),
+          version: fresh ? 1 : record.version + 1,
+          status: "active",
+        },
+        fresh ? null : record.version,
+      );
+      if (saved) return result;
+    }
 
-    // Encrypt
-    const ciphertext = await window.crypto.subtle.encrypt(
-      {
-        name: "AES-GCM",
-        iv,
-        tagLength: 128,
-      },
-      cryptoKey,
-      message,
+    throw new RatchetError(
+      "state_conflict",
+      `Session ${local.deviceId} -> ${remote.userId}/${remote.deviceId} kept changing underneath`,
     );
-
-    // Combine IV and ciphertext
-    return Buffer.concat([Buffer.from(iv), Buffer.from(ciphertext)]);
   }
 
-  private async decrypt(key: Buffer, ciphertext: Buffer): Promise<Buffer> {
-    // Import key for decryption
-    const cryptoKey = await window.crypto.subtle.importKey(
-      "raw",
-      key,
-      { name: "AES-GCM" },
-      false,
-      ["decrypt"],
+  private async openSession(
+    local: DeviceAddress,
+    remote: DeviceAddress,
+  ): Promise<RatchetState> {
+    const device = await this.requireDevice(local);
+    const secrets = this.openSecrets(device);
+    const bundle = await this.getPreKeyBundle(remote);
+
+    await logger.info("Opening ratchet session", {
+      userId: local.userId,
+      deviceId: local.deviceId,
+      remoteUserId: remote.userId,
+      remoteDeviceId: remote.deviceId,
+    });
+    return initiateSession(
+      { publicKey: device.identityKey, privateKey: secrets.identityPrivateKey },
+      bundle,
     );
+  }
 
-    // Split IV and ciphertext
-    const iv = ciphertext.slice(0, 12);
-    const encryptedData = ciphertext.slice(12);
+  private async acceptPreKey(
+    local: DeviceAddress,
+    sender: DeviceAddress,
+    preKey: PreKeyHeader,
+  ): Promise<RatchetState> {
+    // The identity in the header must be the one the sender registered
+    const senderDevice = await this.store.getDevice(sender);
+    if (
+      !senderDevice ||
+      !bytesEqual(senderDevice.identityKey, preKey.identityKey)
+    ) {
+      throw new RatchetError(
+        "invalid_bundle",
+        `Identity key does not match device ${sender.userId}/${sender.deviceId}`,
+      );
+    }
 
-    // Decrypt
-    const plaintext = await window.crypto.subtle.decrypt(
-      {
-        name: "AES-GCM",
-        iv,
-        tagLength: 128,
-      },
-      cryptoKey,
-      encryptedData,
+    const device = await this.requireDevice(local);
+    const secrets = this.openSecrets(device);
+    const signedPreKey = secrets.signedPreKeys.find(
+      (key) => key.keyId === preKey.signedPreKeyId,
     );
+    if (!signedPreKey) {
+      throw new RatchetError(
+        "invalid_bundle",
+        `Signed prekey ${preKey.signedPreKeyId} is no longer held`,
+      );
+    }
 
-    return Buffer.from(plaintext);
-  }
+    let oneTimePreKey: Uint8Array | null = null;
+    if (preKey.oneTimePreKeyId !== undefined) {
+      const sealed = await this.store.getOneTimePreKey(
+        local,
+        preKey.oneTimePreKeyId,
+      );
+      if (!sealed) {
+        throw new RatchetError(
+          "invalid_bundle",
+          `One-time prekey ${preKey.oneTimePreKeyId} was already used`,
+        );
+      }
+      oneTimePreKey = fromBase64(
+        this.vault.open(
+          this.preKeyRecordId(local, preKey.oneTimePreKeyId),
+          sealed,
+        ),
+      );
+    }
 
-  private async getPublicKey(privateKey: Buffer): Promise<Buffer> {
-    // In a real implementation, this would use proper elliptic curve cryptography
-    return createHash(this.HASH_ALG).update(privateKey).digest();
+    const identity: KeyPair = {
+      publicKey: device.identityKey,
+      privateKey: secrets.identityPrivateKey,
+    };
+    return acceptSession(identity, signedPreKey, oneTimePreKey, preKey);
   }
 
-  private trySkippedMessageKeys(
-    state: RatchetState,
-    header: { publicKey: Buffer; messageNumber: number },
-  ): Buffer | null {
-    const key = `${header.publicKey.toString("hex")}-${header.messageNumber}`;
-    const messageKey = state.skippedMessageKeys.get(key);
-    if (messageKey) {
-      state.skippedMessageKeys.delete(key);
-      return messageKey;
+  /**
+   * Every device but the sender's own, which keeps a copy instead: a
+   * session with itself would share one chain for sending and receiving.
+   * The recipient's devices come first, then the sender's others.
+   */
+  private async fanoutDevices(
+    sender: DeviceAddress,
+    recipientUserId: string,
+  ): Promise<DeviceAddress[]> {
+    const userIds =
+      recipientUserId === sender.userId
+        ? [recipientUserId]
+        : [recipientUserId, sender.userId];
+    const devices: DeviceAddress[] = [];
+    for (const userId of userIds) {
+      for (const device of await this.store.listDevices(userId)) {
+        if (!sameDevice(device.address, sender)) devices.push(device.address);
+      }
     }
-    return null;
+    return devices;
   }
 
-  private async performRatchetSteps(
-    state: RatchetState,
-    header: {
-      publicKey: Buffer;
-      messageNumber: number;
-      previousChainLength: number;
-    },
-  ): Promise<void> {
-    // Store current receiving chain key for skipped messages
-    if (state.receivingChainKey.length > 0) {
-      state.previousRatchetPublicKeys.push(state.receivingRatchetPublicKey);
+  private async requireDevice(address: DeviceAddress): Promise<DeviceRecord> {
+    const device = await this.store.getDevice(address);
+    if (!device || device.revokedAt) {
+      throw new RatchetError(
+        "unknown_device",
+        `Device ${address.userId}/${address.deviceId} is not registered`,
+      );
     }
+    return device;
+  }
 
-    // Import keys for DH
-    const privateKey = await window.crypto.subtle.importKey(
-      "raw",
-      state.sendingRatchetKeyPair.privateKey,
-      {
-        name: "ECDH",
-        namedCurve: "P-256",
-      },
-      true,
-      ["deriveKey", "deriveBits"],
+  private async saveCopy(
+    messageId: string,
+    address: DeviceAddress,
+    plaintext: Uint8Array,
+  ): Promise<void> {
+    await this.store.saveMessageCopy(
+      messageId,
+      address,
+      this.vault.seal(
+        this.copyRecordId(messageId, address),
+        toBase64(plaintext),
+      ),
     );
+  }
 
-    const publicKey = await window.crypto.subtle.importKey(
-      "raw",
-      header.publicKey,
-      {
-        name: "ECDH",
-        namedCurve: "P-256",
-      },
-      true,
-      [],
-    );
+  private async openCopy(
+    messageId: string,
+    address: DeviceAddress,
+  ): Promise<Buffer | null> {
+    const sealed = await this.store.getMessageCopy(messageId, address);
+    return sealed
+      ? Buffer.from(
+          this.vault.open(this.copyRecordId(messageId, address), sealed),
+          "base64",
+        )
+      : null;
+  }
 
-    // Perform DH and derive new root key
-    const dhResult = await window.crypto.subtle.deriveBits(
-      {
-        name: "ECDH",
-        public: publicKey,
-      },
-      privateKey,
-      256,
-    );
+  private copyRecordId(messageId: string, address: DeviceAddress): string {
+    return `copy:${messageId}:${address.userId}:${address.deviceId}`;
+  }
 
-    // Import current root key
-    const rootKey = await window.crypto.subtle.importKey(
-      "raw",
-      state.rootKey,
-      { name: "HKDF" },
-      false,
-      ["deriveBits"],
-    );
+  private deviceRecordId(address: DeviceAddress): string {
+    return `device:${address.userId}:${address.deviceId}`;
+  }
 
-    // Derive new root key and chain key
-    const newKeys = await window.crypto.subtle.deriveBits(
-      {
-        name: "HKDF",
-        hash: "SHA-256",
-        salt: Buffer.from(dhResult),
-        info: new TextEncoder().encode("RatchetStep"),
-      },
-      rootKey,
-      512, // 256 bits for root key + 256 bits for chain key
-    );
+  private preKeyRecordId(address: DeviceAddress, keyId: number): string {
+    return `prekey:${address.userId}:${address.deviceId}:${keyId}`;
+  }
 
-    // Update state
-    state.rootKey = Buffer.from(newKeys.slice(0, 32));
-    state.receivingChainKey = Buffer.from(newKeys.slice(32));
-    state.receivingRatchetPublicKey = header.publicKey;
+  private sealSecrets(address: DeviceAddress, secrets: DeviceSecrets) {
+    return this.vault.seal(
+      this.deviceRecordId(address),
+      JSON.stringify({
+        identityPrivateKey: toBase64(secrets.identityPrivateKey),
+        signingPrivateKey: toBase64(secrets.signingPrivateKey),
+        signedPreKeys: secrets.signedPreKeys.map((key) => ({
+          keyId: key.keyId,
+          publicKey: toBase64(key.publicKey),
+          privateKey: toBase64(key.privateKey),
+        })),
+      }),
+    );
+  }
 
-    // Generate new sending ratchet key pair
-    state.sendingRatchetKeyPair = await this.generateRatchetKeyPair();
+  private openSecrets(device: DeviceRecord): DeviceSecrets {
+    const secrets = JSON.parse(
+      this.vault.open(this.deviceRecordId(device.address), device.sealedSecrets),
+    );
+    return {
+      identityPrivateKey: fromBase64(secrets.identityPrivateKey),
+      signingPrivateKey: fromBase64(secrets.signingPrivateKey),
+      signedPreKeys: secrets.signedPreKeys.map(
+        (key: { keyId: number; publicKey: string; privateKey: string }) => ({
+          keyId: key.keyId,
+          publicKey: fromBase64(key.publicKey),
+          privateKey: fromBase64(key.privateKey),
+        }),
+      ),
+    };
   }
 }
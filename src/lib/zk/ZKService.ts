@@ -10,6 +10,11 @@ import { encrypt, decrypt, generateMessageId } from "./crypto";
 import { SecurityAuditService } from "@/services/SecurityAuditService";
 import { SupabaseClient, createClient } from "@supabase/supabase-js";
 import { ForwardSecrecyService } from "./ForwardSecrecyService";
+import {
+  DEFAULT_DEVICE_ID,
+  RATCHET_ENVELOPE_FORMAT,
+  encodeEnvelopes,
+} from "./ratchet";
 import { cache } from "react";
 import { createECDH, randomBytes, createHash } from "crypto";
 
@@ -54,7 +59,7 @@ export class ZKService {
         process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
       );
     }
-    this.forwardSecrecy = new ForwardSecrecyService();
+    this.forwardSecrecy = ForwardSecrecyService.getInstance(this.supabase);
   }
 
   public setSupabaseClient(supabaseClient: SupabaseClient): void {
@@ -285,6 +290,9 @@ export class ZKService {
       senderId: string;
       recipientId: string;
       threadId: string;
+      senderDeviceId?: string;
+      /** Id the message is stored under; generated when not given */
+      messageId?: string;
     },
   ): Promise<{
     id: string;
@@ -306,22 +314,22 @@ export class ZKService {
         metadata,
       });
 
-      // Get or initialize ratchet for the thread
-      const sharedSecret = Buffer.from(sessionPublicKey, "hex");
-      const isInitiator = metadata.senderId < metadata.recipientId;
-      await this.forwardSecrecy.initializeRatchet(
-        metadata.threadId,
-        sharedSecret,
-        isInitiator,
-      );
+      const messageId = metadata.messageId ?? generateMessageId();
 
-      // Encrypt with forward secrecy
-      const { ciphertext, header } = await this.forwardSecrecy.ratchetEncrypt(
+      // One Double Ratchet envelope per device of the recipient and sender
+      const { envelopes } = await this.forwardSecrecy.encryptForUser(
         metadata.threadId,
-        Buffer.from(content),
+        {
+          userId: metadata.senderId,
+          deviceId: metadata.senderDeviceId ?? DEFAULT_DEVICE_ID,
+        },
+        metadata.recipientId,
+        content,
+        messageId,
       );
-
-      const messageId = generateMessageId();
+      if (envelopes.length === 0) {
+        throw new Error("Message could not be encrypted for any device");
+      }
 
       await this.securityAudit.logMessageEncryption({
         messageId,
@@ -333,8 +341,9 @@ export class ZKService {
 
       return {
         id: messageId,
-        encryptedContent: ciphertext.toString("base64"),
-        iv: header.publicKey.toString("hex"),
+        encryptedContent: encodeEnvelopes(envelopes),
+        // Each envelope carries its own ratchet header
+        iv: RATCHET_ENVELOPE_FORMAT,
         proof,
       };
     } catch (error) {
@@ -350,34 +359,33 @@ export class ZKService {
 
   public async decryptMessageWithSessionKey(
     encryptedContent: string,
-    iv: string,
-    sessionPrivateKey: string,
     metadata: {
       threadId: string;
-      messageNumber: number;
-      previousChainLength: number;
+      userId: string;
+      deviceId?: string;
+      /** Stored message id; reads of a known message reuse the device's copy */
+      messageId?: string;
     },
   ): Promise<string> {
     try {
-      const message = {
-        ciphertext: Buffer.from(encryptedContent, "base64"),
-        header: {
-          publicKey: Buffer.from(iv, "hex"),
-          messageNumber: metadata.messageNumber,
-          previousChainLength: metadata.previousChainLength,
-        },
+      const device = {
+        userId: metadata.userId,
+        deviceId: metadata.deviceId ?? DEFAULT_DEVICE_ID,
       };
-
-      const decryptedBuffer = await this.forwardSecrecy.ratchetDecrypt(
-        metadata.threadId,
-        message,
-      );
+      const decryptedBuffer = metadata.messageId
+        ? await this.forwardSecrecy.readMessage(
+            device,
+            metadata.messageId,
+            encryptedContent,
+          )
+        : await this.forwardSecrecy.decryptForDevice(device, encryptedContent);
 
       return decryptedBuffer.toString();
     } catch (error) {
       await this.securityAudit.logError({
         operation: "decrypt_message",
         error,
+        userId: metadata.userId,
         threadId: metadata.threadId,
       });
       throw error;
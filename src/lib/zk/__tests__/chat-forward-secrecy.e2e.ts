@@ -117,13 +117,7 @@ describe('Chat Forward Secrecy E2E', () => {
         await expect(
           zkService.decryptMessageWithSessionKey(
             sent.payload.encryptedContent,
-            sent.payload.iv,
-            compromisedKeys.privateKey,
-            {
-              threadId,
-              messageNumber: sent.payload.messageNumber,
-              previousChainLength: sent.payload.previousChainLength
-            }
+            { threadId, userId: bobId, deviceId: compromisedKeys.id }
           )
         ).rejects.toThrow();
       }
@@ -210,13 +204,7 @@ describe('Chat Forward Secrecy E2E', () => {
         await expect(
           zkService.decryptMessageWithSessionKey(
             recoveredMessage.payload.encryptedContent,
-            recoveredMessage.payload.iv,
-            originalKeys.privateKey,
-            {
-              threadId,
-              messageNumber: recoveredMessage.payload.messageNumber,
-              previousChainLength: recoveredMessage.payload.previousChainLength
-            }
+            { threadId, userId: bobId, deviceId: originalKeys.id }
           )
         ).rejects.toThrow();
       }
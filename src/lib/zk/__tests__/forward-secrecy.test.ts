@@ -1,689 +1,317 @@
-// Mock environment variables
-process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
-process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'test-key';
-
-// Mock ZK validation
-vi.mock('../validation', () => ({
-  initializeCircuit: vi.fn().mockResolvedValue(undefined),
-  generateProof: vi.fn().mockResolvedValue({
-    proof: new Uint8Array([1, 2, 3, 4]),
-    publicInputs: [new Uint8Array([5, 6, 7, 8])]
-  }),
-  verifyProof: vi.fn().mockResolvedValue(true),
-  validateCircuitConstraints: vi.fn().mockResolvedValue({ isValid: true })
-}));
-
-// Mock Supabase client
-vi.mock('@supabase/supabase-js', () => ({
-  createClient: () => ({
-    from: () => ({
-      select: () => ({
-        eq: () => ({
-          gt: () => ({
-            single: () => Promise.resolve({ 
-              data: {
-                id: 'test-session-id',
-                publicKey: Buffer.from('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef', 'hex').toString('base64'),
-                privateKey: Buffer.from('fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210', 'hex').toString('base64'),
-                expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-              },
-              error: null
-            })
-          })
-        }),
-        single: () => Promise.resolve({
-          data: {
-            id: 'test-session-id',
-            publicKey: Buffer.from('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef', 'hex').toString('base64'),
-            privateKey: Buffer.from('fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210', 'hex').toString('base64'),
-            expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-          },
-          error: null
-        })
-      }),
-      insert: () => ({
-        select: () => ({
-          single: () => Promise.resolve({
-            data: {
-              id: 'test-key-id',
-              publicKey: Buffer.from('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef', 'hex').toString('base64'),
-              privateKey: Buffer.from('fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210', 'hex').toString('base64'),
-              expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-            },
-            error: null
-          })
-        })
-      }),
-      update: () => ({
-        eq: () => Promise.resolve({
-          data: {
-            id: 'test-session-id',
-            publicKey: Buffer.from('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef', 'hex').toString('base64'),
-            privateKey: Buffer.from('fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210', 'hex').toString('base64'),
-            expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-          },
-          error: null
-        })
-      })
-    })
-  })
-}));
-
-// Mock SecurityAuditService
-const mockSecurityAuditService = {
-  logEvent: vi.fn(),
-  logMessageEncryption: vi.fn(),
-  logMessageDecryption: vi.fn(),
-  logError: vi.fn(),
-  logOperation: vi.fn(),
-  getUserOperations: vi.fn().mockResolvedValue([]),
-  getSessionOperations: vi.fn().mockResolvedValue([]),
-  getThreadOperations: vi.fn().mockResolvedValue([]),
-  getOperationsByType: vi.fn().mockResolvedValue([]),
-  getOperationsByDateRange: vi.fn().mockResolvedValue([]),
-  getOperationsByUser: vi.fn().mockResolvedValue([]),
-  getOperationsInTimeRange: vi.fn().mockResolvedValue([]),
-  getFailedOperations: vi.fn().mockResolvedValue([]),
-  clearAuditLog: vi.fn().mockResolvedValue(undefined),
-  auditLog: [],
-  severity: 'info'
-};
-
-vi.mock('../../audit/SecurityAuditService', () => ({
-  SecurityAuditService: vi.fn().mockImplementation(() => mockSecurityAuditService)
+/**
+ * @jest-environment node
+ */
+import { ForwardSecrecyService } from '../ForwardSecrecyService';
+import {
+  DeviceAddress,
+  DeviceRecord,
+  OneTimePreKeyRecord,
+  RatchetEnvelope,
+  RatchetStore,
+  RatchetVault,
+  SealedBlob,
+  SessionRecord,
+  decodeEnvelopes,
+  encodeEnvelopes
+} from '../ratchet';
+
+jest.mock('../../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
 }));
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { ZKService } from '../ZKService';
-import { ForwardSecrecyService } from '../ForwardSecrecyService';
-import { generateKey, generateNonce } from '../crypto';
-import { SecurityAuditService } from '@/services/SecurityAuditService';
-import { initializeCircuit } from '../validation';
-import { createHash } from 'crypto';
-import { randomBytes } from 'crypto';
-
-// Mock window.crypto
-const mockCrypto: Crypto = {
-  subtle: {
-    generateKey: vi.fn().mockImplementation(async (algorithm, extractable, keyUsages) => {
-      const privateKey = Buffer.from(randomBytes(32));
-      const publicKey = createHash('sha256').update(privateKey).digest();
-      
-      if (algorithm.name === 'ECDH') {
-        return {
-          privateKey: {
-            type: 'private',
-            algorithm: { name: 'ECDH', namedCurve: 'P-256' },
-            extractable: true,
-            usages: ['deriveKey', 'deriveBits'],
-            key: privateKey
-          },
-          publicKey: {
-            type: 'public',
-            algorithm: { name: 'ECDH', namedCurve: 'P-256' },
-            extractable: true,
-            usages: [],
-            key: publicKey
-          }
-        };
-      } else {
-        return {
-          type: 'secret',
-          algorithm: algorithm,
-          extractable: true,
-          usages: keyUsages,
-          key: privateKey
-        };
-      }
-    }),
-    exportKey: vi.fn().mockImplementation(async (format, key) => {
-      return key.key;
-    }),
-    importKey: vi.fn().mockImplementation(async (format, keyData, algorithm, extractable, keyUsages) => {
-      if (algorithm.name === 'ECDH') {
-        return {
-          type: keyUsages.includes('deriveBits') ? 'private' : 'public',
-          algorithm: { name: 'ECDH', namedCurve: 'P-256' },
-          extractable: true,
-          usages: keyUsages,
-          key: keyData
-        };
-      } else if (algorithm.name === 'HKDF') {
-        return {
-          type: 'secret',
-          algorithm: { name: 'HKDF', hash: 'SHA-256' },
-          extractable: false,
-          usages: ['deriveBits'],
-          key: keyData
-        };
-      } else if (algorithm.name === 'AES-GCM') {
-        return {
-          type: 'secret',
-          algorithm: { name: 'AES-GCM', length: 256 },
-          extractable: false,
-          usages: keyUsages,
-          key: keyData
-        };
+const addressKey = (address: DeviceAddress) => `${address.userId}/${address.deviceId}`;
+
+/**
+ * In-memory stand-in with the same claim and version semantics as the
+ * Supabase store; every value round-trips through JSON like a row would
+ */
+class MemoryRatchetStore implements RatchetStore {
+  devices = new Map<string, string>();
+  preKeys = new Map<string, Map<number, { publicKey: string; sealed: SealedBlob; claimed: boolean }>>();
+  sessions = new Map<string, { id: string; local: DeviceAddress; remote: DeviceAddress; sealed: string; version: number; status: 'active' | 'retired' }>();
+  copies = new Map<string, string>();
+
+  async saveDevice(device: DeviceRecord) {
+    this.devices.set(addressKey(device.address), JSON.stringify(device));
+  }
+
+  async getDevice(address: DeviceAddress) {
+    const json = this.devices.get(addressKey(address));
+    return json ? this.toDevice(json) : null;
+  }
+
+  async listDevices(userId: string) {
+    return Array.from(this.devices.values())
+      .map(json => this.toDevice(json))
+      .filter(device => device.address.userId === userId && !device.revokedAt);
+  }
+
+  async revokeDevice(address: DeviceAddress) {
+    const device = await this.getDevice(address);
+    if (device) await this.saveDevice({ ...device, revokedAt: new Date().toISOString() });
+  }
+
+  async addOneTimePreKeys(address: DeviceAddress, keys: OneTimePreKeyRecord[]) {
+    const held = this.preKeys.get(addressKey(address)) ?? new Map();
+    keys.forEach(key => held.set(key.keyId, {
+      publicKey: Buffer.from(key.publicKey).toString('base64'), sealed: key.sealedPrivate, claimed: false
+    }));
+    this.preKeys.set(addressKey(address), held);
+  }
+
+  async claimOneTimePreKey(address: DeviceAddress) {
+    for (const [keyId, key] of this.preKeys.get(addressKey(address)) ?? []) {
+      if (!key.claimed) {
+        key.claimed = true;
+        return { keyId, publicKey: new Uint8Array(Buffer.from(key.publicKey, 'base64')) };
       }
-      throw new Error(`Unsupported algorithm: ${algorithm.name}`);
-    }),
-    deriveKey: vi.fn().mockImplementation(async (algorithm, baseKey, derivedKeyAlgorithm, extractable, keyUsages) => {
-      const bits = await mockCrypto.subtle.deriveBits(algorithm, baseKey, 256);
-      return {
-        type: 'secret',
-        algorithm: derivedKeyAlgorithm,
-        extractable,
-        usages: keyUsages,
-        key: bits
-      };
-    }),
-    deriveBits: vi.fn().mockImplementation(async (algorithm, baseKey, length) => {
-      if (algorithm.name === 'ECDH') {
-        // Simulate DH key agreement
-        const privateKey = baseKey.key;
-        const publicKey = algorithm.public.key;
-        
-        // In real DH, this would be an actual DH computation
-        // For testing, we'll use HKDF with both keys as input
-        const hash = createHash('sha256');
-        hash.update(privateKey);
-        hash.update(publicKey);
-        return hash.digest();
-      } else if (algorithm.name === 'HKDF') {
-        // Simulate HKDF
-        const hash = createHash('sha256');
-        hash.update(baseKey.key);
-        if (algorithm.salt) hash.update(algorithm.salt);
-        if (algorithm.info) hash.update(algorithm.info);
-        const output = hash.digest();
-        return output.slice(0, length / 8);
-      }
-      throw new Error(`Unsupported algorithm: ${algorithm.name}`);
-    }),
-    encrypt: vi.fn().mockImplementation(async (algorithm, key, data) => {
-      if (algorithm.name !== 'AES-GCM') {
-        throw new Error(`Unsupported algorithm: ${algorithm.name}`);
+    }
+    return null;
+  }
+
+  async getOneTimePreKey(address: DeviceAddress, keyId: number) {
+    return this.preKeys.get(addressKey(address))?.get(keyId)?.sealed ?? null;
+  }
+
+  async deleteOneTimePreKey(address: DeviceAddress, keyId: number) {
+    this.preKeys.get(addressKey(address))?.delete(keyId);
+  }
+
+  async countOneTimePreKeys(address: DeviceAddress) {
+    return Array.from(this.preKeys.get(addressKey(address))?.values() ?? []).filter(key => !key.claimed).length;
+  }
+
+  async getSession(local: DeviceAddress, remote: DeviceAddress) {
+    const row = Array.from(this.sessions.values()).find(session =>
+      session.status === 'active'
+      && addressKey(session.local) === addressKey(local)
+      && addressKey(session.remote) === addressKey(remote));
+    return row ? this.toSession(row) : null;
+  }
+
+  async listSessions(local: DeviceAddress, remoteUserId: string) {
+    return Array.from(this.sessions.values())
+      .filter(session => session.status === 'active'
+        && addressKey(session.local) === addressKey(local)
+        && session.remote.userId === remoteUserId)
+      .map(row => this.toSession(row));
+  }
+
+  async saveSession(session: SessionRecord, expectedVersion: number | null) {
+    if (expectedVersion === null) {
+      if (await this.getSession(session.local, session.remote)) return false;
+    } else {
+      const row = this.sessions.get(session.id);
+      if (!row || row.version !== expectedVersion || row.status !== 'active') return false;
+    }
+    this.sessions.set(session.id, {
+      id: session.id, local: session.local, remote: session.remote,
+      sealed: JSON.stringify(session.sealedState), version: session.version, status: session.status
+    });
+    return true;
+  }
+
+  async retireSession(id: string) {
+    const row = this.sessions.get(id);
+    if (row) row.status = 'retired';
+  }
+
+  async saveMessageCopy(messageId: string, address: DeviceAddress, sealedContent: SealedBlob) {
+    const key = `${messageId}:${addressKey(address)}`;
+    if (!this.copies.has(key)) this.copies.set(key, JSON.stringify(sealedContent));
+  }
+
+  async getMessageCopy(messageId: string, address: DeviceAddress) {
+    const json = this.copies.get(`${messageId}:${addressKey(address)}`);
+    return json ? JSON.parse(json) as SealedBlob : null;
+  }
+
+  private toDevice(json: string): DeviceRecord {
+    const raw = JSON.parse(json);
+    // JSON keeps a Uint8Array as an object of index to byte
+    const bytes = (value: Record<string, number>) => Uint8Array.from(Object.values(value));
+    return {
+      ...raw,
+      identityKey: bytes(raw.identityKey),
+      signingKey: bytes(raw.signingKey),
+      signedPreKey: {
+        keyId: raw.signedPreKey.keyId,
+        publicKey: bytes(raw.signedPreKey.publicKey),
+        signature: bytes(raw.signedPreKey.signature)
       }
+    };
+  }
 
-      const message = Buffer.from(data);
-      const keyBuffer = key.key;
-      const iv = algorithm.iv;
-      
-      // Use HKDF to derive encryption key and MAC key
-      const hash1 = createHash('sha256');
-      hash1.update(keyBuffer);
-      hash1.update(iv);
-      hash1.update(Buffer.from('encryption'));
-      const encryptionKey = hash1.digest();
-      
-      const hash2 = createHash('sha256');
-      hash2.update(keyBuffer);
-      hash2.update(iv);
-      hash2.update(Buffer.from('mac'));
-      const macKey = hash2.digest();
-      
-      // Encrypt message
-      const ciphertext = Buffer.alloc(message.length);
-      for (let i = 0; i < message.length; i++) {
-        ciphertext[i] = message[i] ^ encryptionKey[i % encryptionKey.length];
-      }
-      
-      // Calculate MAC
-      const mac = createHash('sha256');
-      mac.update(macKey);
-      mac.update(ciphertext);
-      mac.update(iv);
-      const tag = mac.digest();
-      
-      // Combine ciphertext and MAC
-      return Buffer.concat([ciphertext, tag]);
-    }),
-    decrypt: vi.fn().mockImplementation(async (algorithm, key, data) => {
-      if (algorithm.name !== 'AES-GCM') {
-        throw new Error(`Unsupported algorithm: ${algorithm.name}`);
-      }
+  private toSession(row: { id: string; local: DeviceAddress; remote: DeviceAddress; sealed: string; version: number; status: 'active' | 'retired' }): SessionRecord {
+    return { ...row, sealedState: JSON.parse(row.sealed) };
+  }
+}
 
-      const keyBuffer = key.key;
-      const iv = algorithm.iv;
-      
-      // Use HKDF to derive encryption key and MAC key
-      const hash1 = createHash('sha256');
-      hash1.update(keyBuffer);
-      hash1.update(iv);
-      hash1.update(Buffer.from('encryption'));
-      const encryptionKey = hash1.digest();
-      
-      const hash2 = createHash('sha256');
-      hash2.update(keyBuffer);
-      hash2.update(iv);
-      hash2.update(Buffer.from('mac'));
-      const macKey = hash2.digest();
-      
-      // Split ciphertext and MAC
-      const ciphertext = data.slice(0, data.length - 32);
-      const receivedTag = data.slice(data.length - 32);
-      
-      // Verify MAC
-      const mac = createHash('sha256');
-      mac.update(macKey);
-      mac.update(ciphertext);
-      mac.update(iv);
-      const calculatedTag = mac.digest();
-      
-      if (!calculatedTag.equals(receivedTag)) {
-        throw new Error('Message authentication failed');
-      }
-      
-      // Decrypt message
-      const plaintext = Buffer.alloc(ciphertext.length);
-      for (let i = 0; i < ciphertext.length; i++) {
-        plaintext[i] = ciphertext[i] ^ encryptionKey[i % encryptionKey.length];
-      }
-      
-      return plaintext;
-    }),
-    digest: vi.fn().mockImplementation(async (algorithm, data) => {
-      const hash = createHash('sha256');
-      hash.update(Buffer.from(data));
-      return hash.digest();
-    }),
-    sign: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3, 4])),
-    verify: vi.fn().mockResolvedValue(true),
-    wrapKey: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3, 4])),
-    unwrapKey: vi.fn().mockResolvedValue({
-      type: 'secret',
-      algorithm: { name: 'AES-GCM', length: 256 },
-      extractable: true,
-      usages: ['encrypt', 'decrypt'],
-      key: Buffer.from(randomBytes(32))
-    })
-  } as SubtleCrypto,
-  getRandomValues: vi.fn().mockImplementation((array) => {
-    // Generate different random values each time
-    const randomBytes = Buffer.from(createHash('sha256')
-      .update(Buffer.from(String(Date.now() + Math.random())))
-      .digest());
-    
-    for (let i = 0; i < array.length; i++) {
-      array[i] = randomBytes[i % randomBytes.length];
-    }
-    return array;
-  }),
-  randomUUID: vi.fn().mockReturnValue('test-uuid')
-};
+const alicePhone = { userId: 'alice', deviceId: 'phone' };
+const aliceLaptop = { userId: 'alice', deviceId: 'laptop' };
+const bobPhone = { userId: 'bob', deviceId: 'phone' };
+const bobTablet = { userId: 'bob', deviceId: 'tablet' };
 
-// @ts-ignore
-global.window = {
-  crypto: mockCrypto
-};
+const envelopeFor = (envelopes: RatchetEnvelope[], device: DeviceAddress) =>
+  envelopes.find(envelope => addressKey(envelope.recipient) === addressKey(device))!;
 
-describe('Forward Secrecy', () => {
-  let zkService: ZKService;
-  let forwardSecrecy: ForwardSecrecyService;
+describe('ForwardSecrecyService', () => {
+  let store: MemoryRatchetStore;
+  let vault: RatchetVault;
+  let service: ForwardSecrecyService;
+
+  /** A fresh instance over the same storage, as after a restart or on another server */
+  const restart = () => new ForwardSecrecyService(undefined, { store, vault });
 
   beforeEach(async () => {
-    // Reset mocks
-    vi.clearAllMocks();
-    
-    // Reset singleton instance
-    // @ts-ignore - Access private static instance for testing
-    ForwardSecrecyService.instance = undefined;
-    
-    // Initialize services
-    // @ts-ignore - Mock security audit service for testing
-    zkService = new ZKService(undefined, mockSecurityAuditService);
-    // @ts-ignore - Mock security audit service for testing
-    forwardSecrecy = ForwardSecrecyService.getInstance(undefined, mockSecurityAuditService);
-    // @ts-ignore - Ensure security audit service is properly set
-    forwardSecrecy.securityAudit = mockSecurityAuditService;
-
-    // Initialize ZK circuit
-    await initializeCircuit('test-circuit-path');
+    store = new MemoryRatchetStore();
+    vault = new RatchetVault('test-ratchet-key');
+    service = restart();
+    for (const device of [alicePhone, aliceLaptop, bobPhone]) {
+      await service.registerDevice(device);
+    }
   });
 
-  describe('Message Encryption and Decryption', () => {
-    it('should encrypt and decrypt a message successfully', async () => {
-      const sessionKeys = await zkService.getOrCreateSessionKeys('test-thread-id');
-      const sessionPublicKey = Buffer.from(sessionKeys.publicKey, 'base64').toString('hex');
-      const sessionPrivateKey = Buffer.from(sessionKeys.privateKey, 'base64').toString('hex');
-      
-      const message = 'Hello, World!';
-      const metadata = {
-        senderId: 'sender123',
-        recipientId: 'recipient456',
-        threadId: 'test-thread-id'
-      };
-
-      const encrypted = await zkService.encryptMessageWithSessionKey(
-        message,
-        sessionPublicKey,
-        metadata
-      );
-
-      expect(encrypted).toBeDefined();
-      expect(encrypted.encryptedContent).toBeDefined();
-      expect(encrypted.iv).toBeDefined();
-
-      // Decrypt message
-      const decrypted = await zkService.decryptMessageWithSessionKey(
-        encrypted.encryptedContent,
-        encrypted.iv,
-        sessionPrivateKey,
-        {
-          threadId: metadata.threadId,
-          messageNumber: 0,
-          previousChainLength: 0
-        }
-      );
-
-      expect(decrypted).toBe(message);
-    });
+  it('should deliver to every device of both users and let them reply', async () => {
+    const { envelopes, undelivered } = await service.encryptForUser('thread-1', alicePhone, 'bob', 'Session notes attached');
 
-    it('should generate different keys for each message', async () => {
-      const threadId = 'test-thread';
-      const senderId = 'sender';
-      const recipientId = 'recipient';
-      const message = 'Test message';
-
-      const sessionKeys = await zkService.getOrCreateSessionKeys(threadId);
-
-      const encrypted1 = await zkService.encryptMessageWithSessionKey(
-        message,
-        sessionKeys.publicKey,
-        {
-          senderId,
-          recipientId,
-          threadId
-        }
-      );
-
-      const encrypted2 = await zkService.encryptMessageWithSessionKey(
-        message,
-        sessionKeys.publicKey,
-        {
-          senderId,
-          recipientId,
-          threadId
-        }
-      );
-
-      expect(encrypted1.encryptedContent).not.toBe(encrypted2.encryptedContent);
-      expect(encrypted1.iv).not.toBe(encrypted2.iv);
-    });
+    expect(undelivered).toEqual([]);
+    expect(envelopes.map(envelope => addressKey(envelope.recipient)).sort()).toEqual(['alice/laptop', 'bob/phone']);
+    expect(envelopes.every(envelope => envelope.preKey)).toBe(true);
 
-    it('should handle out-of-order messages', async () => {
-      const threadId = 'test-thread';
-      const senderId = 'sender';
-      const recipientId = 'recipient';
-      const messages = ['First', 'Second', 'Third'];
-      const sessionKeys = await zkService.getOrCreateSessionKeys(threadId);
-
-      // Encrypt messages
-      const encrypted = await Promise.all(
-        messages.map((msg, i) => 
-          zkService.encryptMessageWithSessionKey(
-            msg,
-            sessionKeys.publicKey,
-            {
-              senderId,
-              recipientId,
-              threadId
-            }
-          )
-        )
-      );
-
-      // Decrypt in reverse order
-      const decrypted = await Promise.all([
-        zkService.decryptMessageWithSessionKey(
-          encrypted[2].encryptedContent,
-          encrypted[2].iv,
-          sessionKeys.privateKey,
-          {
-            threadId,
-            messageNumber: 2,
-            previousChainLength: 0
-          }
-        ),
-        zkService.decryptMessageWithSessionKey(
-          encrypted[1].encryptedContent,
-          encrypted[1].iv,
-          sessionKeys.privateKey,
-          {
-            threadId,
-            messageNumber: 1,
-            previousChainLength: 1
-          }
-        ),
-        zkService.decryptMessageWithSessionKey(
-          encrypted[0].encryptedContent,
-          encrypted[0].iv,
-          sessionKeys.privateKey,
-          {
-            threadId,
-            messageNumber: 0,
-            previousChainLength: 2
-          }
-        )
-      ]);
-
-      expect(decrypted.reverse()).toEqual(messages);
-    });
+    const content = encodeEnvelopes(envelopes);
+    expect((await restart().decryptForDevice(bobPhone, content)).toString()).toBe('Session notes attached');
+    expect((await restart().decryptForDevice(aliceLaptop, content)).toString()).toBe('Session notes attached');
 
-    it('should prevent replay attacks', async () => {
-      const threadId = 'test-thread';
-      const senderId = 'sender';
-      const recipientId = 'recipient';
-      const message = 'Test message';
-      const sessionKeys = await zkService.getOrCreateSessionKeys(threadId);
-
-      const encrypted = await zkService.encryptMessageWithSessionKey(
-        message,
-        sessionKeys.publicKey,
-        {
-          senderId,
-          recipientId,
-          threadId
-        }
-      );
-
-      // First decryption should succeed
-      const decrypted1 = await zkService.decryptMessageWithSessionKey(
-        encrypted.encryptedContent,
-        encrypted.iv,
-        sessionKeys.privateKey,
-        {
-          threadId,
-          messageNumber: 0,
-          previousChainLength: 0
-        }
-      );
-      expect(decrypted1).toBe(message);
-
-      // Second decryption with same message number should fail
-      await expect(
-        zkService.decryptMessageWithSessionKey(
-          encrypted.encryptedContent,
-          encrypted.iv,
-          sessionKeys.privateKey,
-          {
-            threadId,
-            messageNumber: 0,
-            previousChainLength: 0
-          }
-        )
-      ).rejects.toThrow();
-    });
+    // Bob answers on the session Alice opened; once she reads it the prekey header goes away
+    const reply = await restart().encryptForUser('thread-1', bobPhone, 'alice', 'Thanks!');
+    expect(envelopeFor(reply.envelopes, alicePhone).preKey).toBeUndefined();
+    // Alice's laptop had no session with Bob's phone yet
+    expect(envelopeFor(reply.envelopes, aliceLaptop).preKey).toBeDefined();
+    expect((await restart().decryptEnvelope(alicePhone, envelopeFor(reply.envelopes, alicePhone))).toString()).toBe('Thanks!');
 
-    it('should maintain forward secrecy with new session keys', async () => {
-      const threadId = 'test-thread';
-      const senderId = 'sender';
-      const recipientId = 'recipient';
-      const message1 = 'Message with first key';
-      const message2 = 'Message with second key';
-
-      // First session
-      const sessionKeys1 = await zkService.getOrCreateSessionKeys(threadId);
-      const encrypted1 = await zkService.encryptMessageWithSessionKey(
-        message1,
-        sessionKeys1.publicKey,
-        {
-          senderId,
-          recipientId,
-          threadId
-        }
-      );
-
-      // Second session with new keys
-      const sessionKeys2 = await zkService.getOrCreateSessionKeys(threadId);
-      const encrypted2 = await zkService.encryptMessageWithSessionKey(
-        message2,
-        sessionKeys2.publicKey,
-        {
-          senderId,
-          recipientId,
-          threadId
-        }
-      );
-
-      // Both messages should decrypt correctly with their respective keys
-      const decrypted1 = await zkService.decryptMessageWithSessionKey(
-        encrypted1.encryptedContent,
-        encrypted1.iv,
-        sessionKeys1.privateKey,
-        {
-          threadId,
-          messageNumber: 0,
-          previousChainLength: 0
-        }
-      );
-
-      const decrypted2 = await zkService.decryptMessageWithSessionKey(
-        encrypted2.encryptedContent,
-        encrypted2.iv,
-        sessionKeys2.privateKey,
-        {
-          threadId,
-          messageNumber: 0,
-          previousChainLength: 0
-        }
-      );
-
-      expect(decrypted1).toBe(message1);
-      expect(decrypted2).toBe(message2);
-
-      // Attempting to decrypt message2 with old keys should fail
-      await expect(
-        zkService.decryptMessageWithSessionKey(
-          encrypted2.encryptedContent,
-          encrypted2.iv,
-          sessionKeys1.privateKey,
-          {
-            threadId,
-            messageNumber: 0,
-            previousChainLength: 0
-          }
-        )
-      ).rejects.toThrow();
-    });
+    const next = await restart().encryptForUser('thread-1', alicePhone, 'bob', 'See you Tuesday');
+    expect(envelopeFor(next.envelopes, bobPhone).preKey).toBeUndefined();
+    expect((await restart().decryptEnvelope(bobPhone, envelopeFor(next.envelopes, bobPhone))).toString()).toBe('See you Tuesday');
   });
 
-  describe('Ratchet State Management', () => {
-    it('should maintain separate ratchet states for different threads', async () => {
-      const thread1 = 'thread-1';
-      const thread2 = 'thread-2';
-      const senderId = 'sender';
-      const recipientId = 'recipient';
-      const message = 'Test message';
-
-      const sessionKeys1 = await zkService.getOrCreateSessionKeys(thread1);
-      const sessionKeys2 = await zkService.getOrCreateSessionKeys(thread2);
-
-      const encrypted1 = await zkService.encryptMessageWithSessionKey(
-        message,
-        sessionKeys1.publicKey,
-        {
-          senderId,
-          recipientId,
-          threadId: thread1
-        }
-      );
-
-      const encrypted2 = await zkService.encryptMessageWithSessionKey(
-        message,
-        sessionKeys2.publicKey,
-        {
-          senderId,
-          recipientId,
-          threadId: thread2
-        }
-      );
-
-      const decrypted1 = await zkService.decryptMessageWithSessionKey(
-        encrypted1.encryptedContent,
-        encrypted1.iv,
-        sessionKeys1.privateKey,
-        {
-          threadId: thread1,
-          messageNumber: 0,
-          previousChainLength: 0
-        }
-      );
-
-      const decrypted2 = await zkService.decryptMessageWithSessionKey(
-        encrypted2.encryptedContent,
-        encrypted2.iv,
-        sessionKeys2.privateKey,
-        {
-          threadId: thread2,
-          messageNumber: 0,
-          previousChainLength: 0
-        }
-      );
-
-      expect(decrypted1).toBe(message);
-      expect(decrypted2).toBe(message);
-    });
+  it('should decrypt out of order and refuse replays and tampering', async () => {
+    const sent: RatchetEnvelope[] = [];
+    for (const text of ['one', 'two', 'three']) {
+      sent.push(envelopeFor((await service.encryptForUser('thread-1', alicePhone, 'bob', text)).envelopes, bobPhone));
+    }
 
-    it('should handle multiple messages in a thread', async () => {
-      const threadId = 'test-thread';
-      const senderId = 'sender';
-      const recipientId = 'recipient';
-      const messages = Array.from({ length: 10 }, (_, i) => `Message ${i + 1}`);
-      const sessionKeys = await zkService.getOrCreateSessionKeys(threadId);
-
-      // Encrypt all messages
-      const encrypted = await Promise.all(
-        messages.map((msg, i) => 
-          zkService.encryptMessageWithSessionKey(
-            msg,
-            sessionKeys.publicKey,
-            {
-              senderId,
-              recipientId,
-              threadId
-            }
-          )
-        )
-      );
-
-      // Decrypt all messages
-      const decrypted = await Promise.all(
-        encrypted.map((enc, i) => 
-          zkService.decryptMessageWithSessionKey(
-            enc.encryptedContent,
-            enc.iv,
-            sessionKeys.privateKey,
-            {
-              threadId,
-              messageNumber: i,
-              previousChainLength: 0
-            }
-          )
-        )
-      );
-
-      expect(decrypted).toEqual(messages);
-    });
+    expect((await service.decryptEnvelope(bobPhone, sent[2])).toString()).toBe('three');
+    expect((await restart().decryptEnvelope(bobPhone, sent[0])).toString()).toBe('one');
+    await expect(service.decryptEnvelope(bobPhone, sent[0])).rejects.toMatchObject({ code: 'decryption_failed' });
+
+    const ciphertext = Buffer.from(sent[1].ciphertext, 'base64');
+    ciphertext[0] ^= 1;
+    await expect(service.decryptEnvelope(bobPhone, { ...sent[1], ciphertext: ciphertext.toString('base64') }))
+      .rejects.toMatchObject({ code: 'decryption_failed' });
+    // Moving a message to another thread breaks its associated data
+    await expect(service.decryptEnvelope(bobPhone, { ...sent[1], threadId: 'thread-2' }))
+      .rejects.toMatchObject({ code: 'decryption_failed' });
+
+    // A failed attempt leaves the session able to read the genuine message
+    expect((await service.decryptEnvelope(bobPhone, sent[1])).toString()).toBe('two');
+  });
+
+  it('should let the sender and every reader read a message again', async () => {
+    const { envelopes } = await service.encryptForUser('thread-1', alicePhone, 'bob', 'Session notes attached', 'msg-1');
+    const content = encodeEnvelopes(envelopes);
+
+    // The sending device reads its own copy; it has no envelope of its own
+    expect(envelopes.some(envelope => addressKey(envelope.recipient) === 'alice/phone')).toBe(false);
+    expect((await restart().readMessage(alicePhone, 'msg-1', content)).toString()).toBe('Session notes attached');
+
+    for (const device of [bobPhone, aliceLaptop]) {
+      expect((await restart().readMessage(device, 'msg-1', content)).toString()).toBe('Session notes attached');
+      // The message key is spent, so the envelope itself no longer decrypts
+      await expect(restart().decryptForDevice(device, content)).rejects.toMatchObject({ code: 'decryption_failed' });
+      expect((await restart().readMessage(device, 'msg-1', content)).toString()).toBe('Session notes attached');
+    }
+
+    expect(store.copies.size).toBe(3);
+    store.copies.forEach(json => expect(Object.keys(JSON.parse(json)).sort()).toEqual(['ciphertext', 'iv', 'keyId']));
+  });
+
+  it('should keep state and private keys sealed at rest', async () => {
+    const { envelopes } = await service.encryptForUser('thread-1', alicePhone, 'bob', 'hello');
+    await service.decryptEnvelope(bobPhone, envelopeFor(envelopes, bobPhone));
+
+    const rows = Array.from(store.sessions.values());
+    expect(rows).toHaveLength(3);
+    rows.forEach(row => expect(Object.keys(JSON.parse(row.sealed)).sort()).toEqual(['ciphertext', 'iv', 'keyId']));
+
+    const wrongKey = new ForwardSecrecyService(undefined, { store, vault: new RatchetVault('another-key') });
+    await expect(wrongKey.encryptForUser('thread-1', alicePhone, 'bob', 'hi'))
+      .rejects.toMatchObject({ code: 'not_configured' });
+  });
+
+  it('should consume one-time prekeys and pick up devices added later', async () => {
+    const before = await store.countOneTimePreKeys(bobPhone);
+    const first = await service.encryptForUser('thread-1', alicePhone, 'bob', 'hello');
+    await service.decryptEnvelope(bobPhone, envelopeFor(first.envelopes, bobPhone));
+
+    expect(await store.countOneTimePreKeys(bobPhone)).toBe(before - 1);
+    expect(store.preKeys.get('bob/phone')!.has(envelopeFor(first.envelopes, bobPhone).preKey!.oneTimePreKeyId!)).toBe(false);
+
+    await service.registerDevice(bobTablet);
+    const second = await service.encryptForUser('thread-1', alicePhone, 'bob', 'now on the tablet too');
+    expect(second.envelopes.map(envelope => addressKey(envelope.recipient)).sort())
+      .toEqual(['alice/laptop', 'bob/phone', 'bob/tablet']);
+    expect((await service.decryptEnvelope(bobTablet, envelopeFor(second.envelopes, bobTablet))).toString())
+      .toBe('now on the tablet too');
+  });
+
+  it('should reject a prekey message whose identity is not the registered one', async () => {
+    const { envelopes } = await service.encryptForUser('thread-1', alicePhone, 'bob', 'hello');
+    const envelope = envelopeFor(envelopes, bobPhone);
+    const forged = { ...envelope, preKey: { ...envelope.preKey!, identityKey: Buffer.alloc(32, 7).toString('base64') } };
+
+    await expect(service.decryptEnvelope(bobPhone, forged)).rejects.toMatchObject({ code: 'invalid_bundle' });
+  });
+
+  it('should skip revoked devices and report devices without a session', async () => {
+    await service.revokeDevice(aliceLaptop);
+    const { envelopes } = await service.encryptForUser('thread-1', alicePhone, 'bob', 'hello');
+    expect(envelopes.map(envelope => addressKey(envelope.recipient))).toEqual(['bob/phone']);
+
+    await expect(service.encryptForUser('thread-1', alicePhone, 'carol', 'hello'))
+      .rejects.toMatchObject({ code: 'unknown_device' });
+    await expect(service.decryptForDevice(bobTablet, encodeEnvelopes(envelopes)))
+      .rejects.toMatchObject({ code: 'unknown_device' });
+  });
+
+  it('should open new sessions after a key transition so a device that lost its state can read again', async () => {
+    const first = await service.encryptForUser('thread-1', alicePhone, 'bob', 'hello');
+    await service.decryptEnvelope(bobPhone, envelopeFor(first.envelopes, bobPhone));
+    const reply = await service.encryptForUser('thread-1', bobPhone, 'alice', 'hi');
+    await service.decryptEnvelope(alicePhone, envelopeFor(reply.envelopes, alicePhone));
+
+    // Bob's phone loses its session with Alice
+    const lost = (await store.getSession(bobPhone, alicePhone))!;
+    await store.retireSession(lost.id);
+    const stranded = await service.encryptForUser('thread-1', alicePhone, 'bob', 'are you there?');
+    await expect(service.decryptEnvelope(bobPhone, envelopeFor(stranded.envelopes, bobPhone)))
+      .rejects.toMatchObject({ code: 'no_session' });
+
+    const transition = await service.beginKeyTransition(alicePhone, 'bob');
+    expect(transition).toMatchObject({ fromVersion: 'ratchet', toVersion: 'current', retryCount: 0 });
+    expect(transition.ratchet!.senderDeviceId).toBe('phone');
+    expect(transition.ratchet!.retiredSessionIds).toHaveLength(2);
+
+    const resent = await service.encryptForUser('thread-1', alicePhone, 'bob', 'are you there?');
+    expect(envelopeFor(resent.envelopes, bobPhone).preKey).toBeDefined();
+    expect((await service.decryptEnvelope(bobPhone, envelopeFor(resent.envelopes, bobPhone))).toString())
+      .toBe('are you there?');
+  });
+
+  it('should encode envelopes in a self-describing format', async () => {
+    const { envelopes } = await service.encryptForUser('thread-1', alicePhone, 'bob', 'hello');
+
+    expect(decodeEnvelopes(encodeEnvelopes(envelopes))).toEqual(envelopes);
+    expect(() => decodeEnvelopes(Buffer.from('plain text').toString('base64'))).toThrow('dr-sesame-1');
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,282 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { fromBase64, toBase64 } from './primitives';
+import { DeviceAddress, DeviceRecord, OneTimePreKeyRecord, SealedBlob, SessionRecord } from './types';
+
+export interface RatchetStore {
+  saveDevice(device: DeviceRecord): Promise<void>;
+  getDevice(address: DeviceAddress): Promise<DeviceRecord | null>;
+  /** Devices that have not been revoked */
+  listDevices(userId: string): Promise<DeviceRecord[]>;
+  revokeDevice(address: DeviceAddress): Promise<void>;
+  addOneTimePreKeys(address: DeviceAddress, keys: OneTimePreKeyRecord[]): Promise<void>;
+  /** Hand out one unclaimed public prekey; each is handed out once */
+  claimOneTimePreKey(address: DeviceAddress): Promise<{ keyId: number; publicKey: Uint8Array } | null>;
+  getOneTimePreKey(address: DeviceAddress, keyId: number): Promise<SealedBlob | null>;
+  /** Forget a prekey once a session built on it is saved */
+  deleteOneTimePreKey(address: DeviceAddress, keyId: number): Promise<void>;
+  countOneTimePreKeys(address: DeviceAddress): Promise<number>;
+  getSession(local: DeviceAddress, remote: DeviceAddress): Promise<SessionRecord | null>;
+  listSessions(local: DeviceAddress, remoteUserId: string): Promise<SessionRecord[]>;
+  /**
+   * Insert a session (expectedVersion null) or update it if still at
+   * expectedVersion. Returns false when another writer got there first.
+   */
+  saveSession(session: SessionRecord, expectedVersion: number | null): Promise<boolean>;
+  retireSession(id: string): Promise<void>;
+  /** Keep a device's sealed copy of a message; an existing copy is left as it is */
+  saveMessageCopy(messageId: string, address: DeviceAddress, sealedContent: SealedBlob): Promise<void>;
+  getMessageCopy(messageId: string, address: DeviceAddress): Promise<SealedBlob | null>;
+}
+
+interface DeviceRow {
+  user_id: string;
+  device_id: string;
+  identity_key: string;
+  signing_key: string;
+  signed_prekey_id: number;
+  signed_prekey: string;
+  signed_prekey_signature: string;
+  sealed_secrets: SealedBlob;
+  revoked_at: string | null;
+}
+
+interface SessionRow {
+  id: string;
+  local_user_id: string;
+  local_device_id: string;
+  remote_user_id: string;
+  remote_device_id: string;
+  sealed_state: SealedBlob;
+  version: number;
+  status: 'active' | 'retired';
+}
+
+// Unique violation: a concurrent writer created the active session first
+const UNIQUE_VIOLATION = '23505';
+
+function toDevice(row: DeviceRow): DeviceRecord {
+  return {
+    address: { userId: row.user_id, deviceId: row.device_id },
+    identityKey: fromBase64(row.identity_key),
+    signingKey: fromBase64(row.signing_key),
+    signedPreKey: {
+      keyId: row.signed_prekey_id,
+      publicKey: fromBase64(row.signed_prekey),
+      signature: fromBase64(row.signed_prekey_signature)
+    },
+    sealedSecrets: row.sealed_secrets,
+    revokedAt: row.revoked_at
+  };
+}
+
+function toSession(row: SessionRow): SessionRecord {
+  return {
+    id: row.id,
+    local: { userId: row.local_user_id, deviceId: row.local_device_id },
+    remote: { userId: row.remote_user_id, deviceId: row.remote_device_id },
+    sealedState: row.sealed_state,
+    version: row.version,
+    status: row.status
+  };
+}
+
+/**
+ * Ratchet persistence in the `ratchet_*` tables. Sessions are updated with
+ * a version check so two instances advancing the same chain cannot both
+ * win; prekeys are claimed through `claim_one_time_prekey`. Devices keep
+ * their read copies of messages in `ratchet_message_copies`.
+ */
+export class SupabaseRatchetStore implements RatchetStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async saveDevice(device: DeviceRecord): Promise<void> {
+    const { error } = await this.supabase.from('ratchet_devices').upsert(
+      {
+        user_id: device.address.userId,
+        device_id: device.address.deviceId,
+        identity_key: toBase64(device.identityKey),
+        signing_key: toBase64(device.signingKey),
+        signed_prekey_id: device.signedPreKey.keyId,
+        signed_prekey: toBase64(device.signedPreKey.publicKey),
+        signed_prekey_signature: toBase64(device.signedPreKey.signature),
+        sealed_secrets: device.sealedSecrets,
+        revoked_at: device.revokedAt ?? null
+      },
+      { onConflict: 'user_id,device_id' }
+    );
+    if (error) throw error;
+  }
+
+  async getDevice(address: DeviceAddress): Promise<DeviceRecord | null> {
+    const { data, error } = await this.supabase
+      .from('ratchet_devices')
+      .select('*')
+      .eq('user_id', address.userId)
+      .eq('device_id', address.deviceId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toDevice(data as DeviceRow) : null;
+  }
+
+  async listDevices(userId: string): Promise<DeviceRecord[]> {
+    const { data, error } = await this.supabase
+      .from('ratchet_devices')
+      .select('*')
+      .eq('user_id', userId)
+      .is('revoked_at', null);
+    if (error) throw error;
+    return ((data ?? []) as DeviceRow[]).map(toDevice);
+  }
+
+  async revokeDevice(address: DeviceAddress): Promise<void> {
+    const { error } = await this.supabase
+      .from('ratchet_devices')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('user_id', address.userId)
+      .eq('device_id', address.deviceId);
+    if (error) throw error;
+  }
+
+  async addOneTimePreKeys(address: DeviceAddress, keys: OneTimePreKeyRecord[]): Promise<void> {
+    const { error } = await this.supabase.from('ratchet_one_time_prekeys').insert(
+      keys.map(key => ({
+        user_id: address.userId,
+        device_id: address.deviceId,
+        key_id: key.keyId,
+        public_key: toBase64(key.publicKey),
+        sealed_private: key.sealedPrivate
+      }))
+    );
+    if (error) throw error;
+  }
+
+  async claimOneTimePreKey(address: DeviceAddress): Promise<{ keyId: number; publicKey: Uint8Array } | null> {
+    const { data, error } = await this.supabase.rpc('claim_one_time_prekey', {
+      p_user_id: address.userId,
+      p_device_id: address.deviceId
+    });
+    if (error) throw error;
+    const row = (data as Array<{ key_id: number; public_key: string }> | null)?.[0];
+    return row ? { keyId: row.key_id, publicKey: fromBase64(row.public_key) } : null;
+  }
+
+  async getOneTimePreKey(address: DeviceAddress, keyId: number): Promise<SealedBlob | null> {
+    const { data, error } = await this.supabase
+      .from('ratchet_one_time_prekeys')
+      .select('sealed_private')
+      .eq('user_id', address.userId)
+      .eq('device_id', address.deviceId)
+      .eq('key_id', keyId)
+      .maybeSingle();
+    if (error) throw error;
+    return (data?.sealed_private as SealedBlob | undefined) ?? null;
+  }
+
+  async deleteOneTimePreKey(address: DeviceAddress, keyId: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('ratchet_one_time_prekeys')
+      .delete()
+      .eq('user_id', address.userId)
+      .eq('device_id', address.deviceId)
+      .eq('key_id', keyId);
+    if (error) throw error;
+  }
+
+  async countOneTimePreKeys(address: DeviceAddress): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('ratchet_one_time_prekeys')
+      .select('key_id', { count: 'exact', head: true })
+      .eq('user_id', address.userId)
+      .eq('device_id', address.deviceId)
+      .is('claimed_at', null);
+    if (error) throw error;
+    return count ?? 0;
+  }
+
+  async getSession(local: DeviceAddress, remote: DeviceAddress): Promise<SessionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('ratchet_sessions')
+      .select('*')
+      .eq('local_user_id', local.userId)
+      .eq('local_device_id', local.deviceId)
+      .eq('remote_user_id', remote.userId)
+      .eq('remote_device_id', remote.deviceId)
+      .eq('status', 'active')
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toSession(data as SessionRow) : null;
+  }
+
+  async listSessions(local: DeviceAddress, remoteUserId: string): Promise<SessionRecord[]> {
+    const { data, error } = await this.supabase
+      .from('ratchet_sessions')
+      .select('*')
+      .eq('local_user_id', local.userId)
+      .eq('local_device_id', local.deviceId)
+      .eq('remote_user_id', remoteUserId)
+      .eq('status', 'active');
+    if (error) throw error;
+    return ((data ?? []) as SessionRow[]).map(toSession);
+  }
+
+  async saveSession(session: SessionRecord, expectedVersion: number | null): Promise<boolean> {
+    if (expectedVersion === null) {
+      const { error } = await this.supabase.from('ratchet_sessions').insert({
+        id: session.id,
+        local_user_id: session.local.userId,
+        local_device_id: session.local.deviceId,
+        remote_user_id: session.remote.userId,
+        remote_device_id: session.remote.deviceId,
+        sealed_state: session.sealedState,
+        version: session.version,
+        status: session.status
+      });
+      if (error?.code === UNIQUE_VIOLATION) return false;
+      if (error) throw error;
+      return true;
+    }
+
+    const { data, error } = await this.supabase
+      .from('ratchet_sessions')
+      .update({ sealed_state: session.sealedState, version: session.version })
+      .eq('id', session.id)
+      .eq('version', expectedVersion)
+      .eq('status', 'active')
+      .select('id');
+    if (error) throw error;
+    return (data?.length ?? 0) > 0;
+  }
+
+  async retireSession(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('ratchet_sessions')
+      .update({ status: 'retired' })
+      .eq('id', id);
+    if (error) throw error;
+  }
+
+  async saveMessageCopy(messageId: string, address: DeviceAddress, sealedContent: SealedBlob): Promise<void> {
+    const { error } = await this.supabase.from('ratchet_message_copies').upsert(
+      {
+        message_id: messageId,
+        user_id: address.userId,
+        device_id: address.deviceId,
+        sealed_content: sealedContent
+      },
+      { onConflict: 'message_id,user_id,device_id', ignoreDuplicates: true }
+    );
+    if (error) throw error;
+  }
+
+  async getMessageCopy(messageId: string, address: DeviceAddress): Promise<SealedBlob | null> {
+    const { data, error } = await this.supabase
+      .from('ratchet_message_copies')
+      .select('sealed_content')
+      .eq('message_id', messageId)
+      .eq('user_id', address.userId)
+      .eq('device_id', address.deviceId)
+      .maybeSingle();
+    if (error) throw error;
+    return (data?.sealed_content as SealedBlob | undefined) ?? null;
+  }
+}
@@ -0,0 +1,51 @@
+import { createCipheriv, createDecipheriv, createHash, randomFillSync } from 'crypto';
+import { RatchetError } from './errors';
+import { concat, fromBase64, toBase64 } from './primitives';
+import { SealedBlob } from './types';
+
+/**
+ * Encrypts ratchet state and device private keys at rest with AES-256-GCM
+ * under RATCHET_STATE_KEY, bound to the id of the record holding them so a
+ * sealed state cannot be swapped into another session.
+ */
+export class RatchetVault {
+  private readonly key: Uint8Array;
+  private readonly keyId: string;
+
+  constructor(secret: string) {
+    if (!secret) {
+      throw new RatchetError('not_configured', 'A ratchet state key is required');
+    }
+    this.key = new Uint8Array(createHash('sha256').update(secret).digest());
+    this.keyId = createHash('sha256').update(`key-id:${secret}`).digest('hex').slice(0, 16);
+  }
+
+  static fromEnv(env: Record<string, string | undefined> = process.env): RatchetVault {
+    return new RatchetVault(env.RATCHET_STATE_KEY ?? '');
+  }
+
+  seal(recordId: string, plaintext: string): SealedBlob {
+    const iv = randomFillSync(new Uint8Array(12));
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    cipher.setAAD(new TextEncoder().encode(recordId));
+    const ciphertext = concat(cipher.update(plaintext, 'utf8'), cipher.final(), cipher.getAuthTag());
+
+    return { ciphertext: toBase64(ciphertext), iv: toBase64(iv), keyId: this.keyId };
+  }
+
+  open(recordId: string, sealed: SealedBlob): string {
+    if (sealed.keyId !== this.keyId) {
+      throw new RatchetError('not_configured', `Record ${recordId} was sealed with key ${sealed.keyId}`);
+    }
+
+    try {
+      const ciphertext = fromBase64(sealed.ciphertext);
+      const decipher = createDecipheriv('aes-256-gcm', this.key, fromBase64(sealed.iv));
+      decipher.setAAD(new TextEncoder().encode(recordId));
+      decipher.setAuthTag(ciphertext.subarray(-16));
+      return new TextDecoder().decode(concat(decipher.update(ciphertext.subarray(0, -16)), decipher.final()));
+    } catch {
+      throw new RatchetError('decryption_failed', `Record ${recordId} could not be unsealed`);
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import { RatchetError } from './errors';
+import {
+  aeadDecrypt,
+  aeadEncrypt,
+  bytesEqual,
+  concat,
+  dh,
+  fromBase64,
+  generateDhKeyPair,
+  kdfChainKey,
+  kdfRootKey,
+  toBase64,
+  toHex
+} from './primitives';
+import {
+  KeyPair,
+  MAX_SKIP,
+  MAX_STORED_SKIPPED_KEYS,
+  PreKeyHeader,
+  RatchetHeader,
+  RatchetState
+} from './types';
+
+/**
+ * The Double Ratchet as specified by Signal. Every function works on a copy
+ * of the state and returns the new one, so a message that fails to
+ * authenticate leaves the stored session untouched.
+ */
+
+interface SessionSetup {
+  sharedSecret: Uint8Array;
+  associatedData: Uint8Array;
+  baseKey: Uint8Array;
+}
+
+/** The X3DH initiator starts sending straight away, ratcheting against the signed prekey */
+export function initializeSender(
+  setup: SessionSetup,
+  remoteRatchetKey: Uint8Array,
+  pendingPreKey: PreKeyHeader
+): RatchetState {
+  const sendingKeyPair = generateDhKeyPair();
+  const { rootKey, chainKey } = kdfRootKey(setup.sharedSecret, dh(sendingKeyPair.privateKey, remoteRatchetKey));
+
+  return {
+    associatedData: setup.associatedData,
+    baseKey: setup.baseKey,
+    rootKey,
+    sendingKeyPair,
+    remotePublicKey: remoteRatchetKey,
+    sendingChainKey: chainKey,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedKeys: new Map(),
+    pendingPreKey
+  };
+}
+
+/** The responder's first ratchet key is the signed prekey the initiator used */
+export function initializeReceiver(setup: SessionSetup, signedPreKey: KeyPair): RatchetState {
+  return {
+    associatedData: setup.associatedData,
+    baseKey: setup.baseKey,
+    rootKey: setup.sharedSecret,
+    sendingKeyPair: signedPreKey,
+    remotePublicKey: null,
+    sendingChainKey: null,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedKeys: new Map(),
+    pendingPreKey: null
+  };
+}
+
+function headerBytes(header: RatchetHeader): Uint8Array {
+  const counters = new Uint8Array(8);
+  const view = new DataView(counters.buffer);
+  view.setUint32(0, header.pn);
+  view.setUint32(4, header.n);
+  return concat(header.dh, counters);
+}
+
+function cloneState(state: RatchetState): RatchetState {
+  return { ...state, skippedKeys: new Map(state.skippedKeys) };
+}
+
+const skippedKeyId = (ratchetKey: Uint8Array, n: number) => `${toHex(ratchetKey)}:${n}`;
+
+export function ratchetEncrypt(
+  current: RatchetState,
+  plaintext: Uint8Array,
+  associatedData: Uint8Array
+): { state: RatchetState; header: RatchetHeader; ciphertext: Uint8Array } {
+  if (!current.sendingChainKey) {
+    throw new RatchetError('no_session', 'Session cannot send before it has received a message');
+  }
+
+  const state = cloneState(current);
+  const { chainKey, messageKey } = kdfChainKey(current.sendingChainKey);
+  const header: RatchetHeader = {
+    dh: state.sendingKeyPair.publicKey,
+    pn: state.previousSendCount,
+    n: state.sendCount
+  };
+  state.sendingChainKey = chainKey;
+  state.sendCount += 1;
+
+  const ciphertext = aeadEncrypt(
+    messageKey,
+    plaintext,
+    concat(state.associatedData, associatedData, headerBytes(header))
+  );
+  return { state, header, ciphertext };
+}
+
+export function ratchetDecrypt(
+  current: RatchetState,
+  header: RatchetHeader,
+  ciphertext: Uint8Array,
+  associatedData: Uint8Array
+): { state: RatchetState; plaintext: Uint8Array } {
+  const state = cloneState(current);
+  const ad = concat(state.associatedData, associatedData, headerBytes(header));
+
+  const skippedId = skippedKeyId(header.dh, header.n);
+  const skipped = state.skippedKeys.get(skippedId);
+  if (skipped) {
+    const plaintext = aeadDecrypt(skipped, ciphertext, ad);
+    state.skippedKeys.delete(skippedId);
+    return { state, plaintext };
+  }
+
+  if (!state.remotePublicKey || !bytesEqual(header.dh, state.remotePublicKey)) {
+    skipMessageKeys(state, header.pn);
+    dhRatchet(state, header);
+  }
+  skipMessageKeys(state, header.n);
+
+  const { chainKey, messageKey } = kdfChainKey(state.receivingChainKey!);
+  state.receivingChainKey = chainKey;
+  state.receiveCount += 1;
+
+  const plaintext = aeadDecrypt(messageKey, ciphertext, ad);
+  // A reply proves the peer completed the handshake
+  state.pendingPreKey = null;
+  return { state, plaintext };
+}
+
+function skipMessageKeys(state: RatchetState, until: number): void {
+  if (state.receiveCount + MAX_SKIP < until) {
+    throw new RatchetError('too_many_skipped', `Header skips more than ${MAX_SKIP} messages`);
+  }
+  if (!state.receivingChainKey || !state.remotePublicKey) return;
+
+  while (state.receiveCount < until) {
+    const { chainKey, messageKey } = kdfChainKey(state.receivingChainKey);
+    state.skippedKeys.set(skippedKeyId(state.remotePublicKey, state.receiveCount), messageKey);
+    state.receivingChainKey = chainKey;
+    state.receiveCount += 1;
+  }
+
+  // Maps iterate in insertion order, so this evicts the oldest keys
+  for (const id of state.skippedKeys.keys()) {
+    if (state.skippedKeys.size <= MAX_STORED_SKIPPED_KEYS) break;
+    state.skippedKeys.delete(id);
+  }
+}
+
+function dhRatchet(state: RatchetState, header: RatchetHeader): void {
+  state.previousSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.receiveCount = 0;
+  state.remotePublicKey = header.dh;
+
+  const receiving = kdfRootKey(state.rootKey, dh(state.sendingKeyPair.privateKey, header.dh));
+  state.receivingChainKey = receiving.chainKey;
+
+  state.sendingKeyPair = generateDhKeyPair();
+  const sending = kdfRootKey(receiving.rootKey, dh(state.sendingKeyPair.privateKey, header.dh));
+  state.rootKey = sending.rootKey;
+  state.sendingChainKey = sending.chainKey;
+}
+
+interface SerializedState {
+  ad: string;
+  baseKey: string;
+  rk: string;
+  dhs: { pub: string; priv: string };
+  dhr: string | null;
+  cks: string | null;
+  ckr: string | null;
+  ns: number;
+  nr: number;
+  pn: number;
+  skipped: Array<[string, string]>;
+  pending: { ik: string; ek: string; spk: number; opk?: number } | null;
+}
+
+const optional = <T, R>(value: T | null, map: (value: T) => R): R | null => (value === null ? null : map(value));
+
+export function serializeState(state: RatchetState): string {
+  const serialized: SerializedState = {
+    ad: toBase64(state.associatedData),
+    baseKey: toBase64(state.baseKey),
+    rk: toBase64(state.rootKey),
+    dhs: { pub: toBase64(state.sendingKeyPair.publicKey), priv: toBase64(state.sendingKeyPair.privateKey) },
+    dhr: optional(state.remotePublicKey, toBase64),
+    cks: optional(state.sendingChainKey, toBase64),
+    ckr: optional(state.receivingChainKey, toBase64),
+    ns: state.sendCount,
+    nr: state.receiveCount,
+    pn: state.previousSendCount,
+    skipped: Array.from(state.skippedKeys, ([id, key]) => [id, toBase64(key)]),
+    pending: optional(state.pendingPreKey, pending => ({
+      ik: toBase64(pending.identityKey),
+      ek: toBase64(pending.ephemeralKey),
+      spk: pending.signedPreKeyId,
+      opk: pending.oneTimePreKeyId
+    }))
+  };
+  return JSON.stringify(serialized);
+}
+
+export function deserializeState(json: string): RatchetState {
+  const serialized = JSON.parse(json) as SerializedState;
+  return {
+    associatedData: fromBase64(serialized.ad),
+    baseKey: fromBase64(serialized.baseKey),
+    rootKey: fromBase64(serialized.rk),
+    sendingKeyPair: { publicKey: fromBase64(serialized.dhs.pub), privateKey: fromBase64(serialized.dhs.priv) },
+    remotePublicKey: optional(serialized.dhr, fromBase64),
+    sendingChainKey: optional(serialized.cks, fromBase64),
+    receivingChainKey: optional(serialized.ckr, fromBase64),
+    sendCount: serialized.ns,
+    receiveCount: serialized.nr,
+    previousSendCount: serialized.pn,
+    skippedKeys: new Map(serialized.skipped.map(([id, key]) => [id, fromBase64(key)])),
+    pendingPreKey: optional(serialized.pending, pending => ({
+      identityKey: fromBase64(pending.ik),
+      ephemeralKey: fromBase64(pending.ek),
+      signedPreKeyId: pending.spk,
+      oneTimePreKeyId: pending.opk
+    }))
+  };
+}
@@ -0,0 +1,46 @@
+import { RatchetError } from './errors';
+import { fromBase64, toBase64 } from './primitives';
+import { PreKeyHeader, RATCHET_ENVELOPE_FORMAT, RatchetEnvelope, RatchetHeader } from './types';
+
+export function encodeHeader(header: RatchetHeader): RatchetEnvelope['header'] {
+  return { dh: toBase64(header.dh), pn: header.pn, n: header.n };
+}
+
+export function decodeHeader(header: RatchetEnvelope['header']): RatchetHeader {
+  return { dh: fromBase64(header.dh), pn: header.pn, n: header.n };
+}
+
+export function encodePreKey(preKey: PreKeyHeader): NonNullable<RatchetEnvelope['preKey']> {
+  return {
+    identityKey: toBase64(preKey.identityKey),
+    ephemeralKey: toBase64(preKey.ephemeralKey),
+    signedPreKeyId: preKey.signedPreKeyId,
+    oneTimePreKeyId: preKey.oneTimePreKeyId
+  };
+}
+
+export function decodePreKey(preKey: NonNullable<RatchetEnvelope['preKey']>): PreKeyHeader {
+  return {
+    identityKey: fromBase64(preKey.identityKey),
+    ephemeralKey: fromBase64(preKey.ephemeralKey),
+    signedPreKeyId: preKey.signedPreKeyId,
+    oneTimePreKeyId: preKey.oneTimePreKeyId
+  };
+}
+
+/** Pack every device's copy of a message into one stored content string */
+export function encodeEnvelopes(envelopes: RatchetEnvelope[]): string {
+  return Buffer.from(JSON.stringify({ format: RATCHET_ENVELOPE_FORMAT, envelopes })).toString('base64');
+}
+
+export function decodeEnvelopes(content: string): RatchetEnvelope[] {
+  try {
+    const decoded = JSON.parse(Buffer.from(content, 'base64').toString('utf8'));
+    if (decoded.format === RATCHET_ENVELOPE_FORMAT && Array.isArray(decoded.envelopes)) {
+      return decoded.envelopes as RatchetEnvelope[];
+    }
+  } catch {
+    // Fall through to the format error
+  }
+  throw new RatchetError('decryption_failed', `Content is not in ${RATCHET_ENVELOPE_FORMAT} format`);
+}
@@ -0,0 +1,18 @@
+export type RatchetErrorCode =
+  | 'not_configured'
+  | 'unknown_device'
+  | 'invalid_bundle'
+  | 'no_session'
+  | 'too_many_skipped'
+  | 'decryption_failed'
+  | 'state_conflict';
+
+export class RatchetError extends Error {
+  public readonly code: RatchetErrorCode;
+
+  constructor(code: RatchetErrorCode, message: string) {
+    super(message);
+    this.name = 'RatchetError';
+    this.code = code;
+  }
+}
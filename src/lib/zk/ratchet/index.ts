@@ -0,0 +1,7 @@
+export * from './types';
+export * from './errors';
+export * from './doubleRatchet';
+export * from './x3dh';
+export * from './envelope';
+export * from './RatchetVault';
+export * from './RatchetStore';
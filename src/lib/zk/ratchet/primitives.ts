@@ -0,0 +1,146 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  sign,
+  timingSafeEqual,
+  verify
+} from 'crypto';
+import { RatchetError } from './errors';
+import { KeyPair } from './types';
+
+// DER framing for raw 32-byte X25519 and Ed25519 keys
+const DER_PREFIX = {
+  x25519: {
+    pkcs8: '302e020100300506032b656e04220420',
+    spki: '302a300506032b656e032100'
+  },
+  ed25519: {
+    pkcs8: '302e020100300506032b657004220420',
+    spki: '302a300506032b6570032100'
+  }
+};
+
+const KEY_LENGTH = 32;
+const ZERO_SALT = new Uint8Array(32);
+
+type Curve = keyof typeof DER_PREFIX;
+
+/** Joins byte arrays, including the Buffers node's cipher APIs return */
+export function concat(...chunks: ArrayLike<number>[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+export const toBase64 = (value: Uint8Array): string => Buffer.from(value).toString('base64');
+
+export const fromBase64 = (value: string): Uint8Array => new Uint8Array(Buffer.from(value, 'base64'));
+
+export const toHex = (value: Uint8Array): string => Buffer.from(value).toString('hex');
+
+export const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => a.length === b.length && timingSafeEqual(a, b);
+
+const der = (prefix: string, raw: Uint8Array) => Buffer.from(concat(Buffer.from(prefix, 'hex'), raw));
+
+const privateKeyObject = (curve: Curve, raw: Uint8Array) =>
+  createPrivateKey({ key: der(DER_PREFIX[curve].pkcs8, raw), format: 'der', type: 'pkcs8' });
+
+const publicKeyObject = (curve: Curve, raw: Uint8Array) =>
+  createPublicKey({ key: der(DER_PREFIX[curve].spki, raw), format: 'der', type: 'spki' });
+
+function generate(curve: Curve): KeyPair {
+  const { publicKey, privateKey } = curve === 'x25519'
+    ? generateKeyPairSync('x25519')
+    : generateKeyPairSync('ed25519');
+  return {
+    publicKey: new Uint8Array(publicKey.export({ format: 'der', type: 'spki' }).subarray(-KEY_LENGTH)),
+    privateKey: new Uint8Array(privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(-KEY_LENGTH))
+  };
+}
+
+export const generateDhKeyPair = (): KeyPair => generate('x25519');
+
+export const generateSigningKeyPair = (): KeyPair => generate('ed25519');
+
+export function dh(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+  if (publicKey.length !== KEY_LENGTH) {
+    throw new RatchetError('invalid_bundle', 'X25519 public keys are 32 bytes');
+  }
+  return new Uint8Array(diffieHellman({
+    privateKey: privateKeyObject('x25519', privateKey),
+    publicKey: publicKeyObject('x25519', publicKey)
+  }));
+}
+
+export function signKey(signingPrivateKey: Uint8Array, data: Uint8Array): Uint8Array {
+  return new Uint8Array(sign(null, data, privateKeyObject('ed25519', signingPrivateKey)));
+}
+
+export function verifyKeySignature(signingKey: Uint8Array, data: Uint8Array, signature: Uint8Array): boolean {
+  try {
+    return verify(null, data, publicKeyObject('ed25519', signingKey), signature);
+  } catch {
+    return false;
+  }
+}
+
+export function hkdf(ikm: Uint8Array, salt: Uint8Array, info: string, length: number): Uint8Array {
+  return new Uint8Array(hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/** KDF_RK: a DH output advances the root key and starts a new chain */
+export function kdfRootKey(rootKey: Uint8Array, dhOutput: Uint8Array): { rootKey: Uint8Array; chainKey: Uint8Array } {
+  const output = hkdf(dhOutput, rootKey, 'ratchet-root', 64);
+  return { rootKey: output.subarray(0, 32), chainKey: output.subarray(32) };
+}
+
+/** KDF_CK: one step of a symmetric chain, as in the Signal specification */
+export function kdfChainKey(chainKey: Uint8Array): { chainKey: Uint8Array; messageKey: Uint8Array } {
+  return {
+    messageKey: new Uint8Array(createHmac('sha256', chainKey).update(Uint8Array.of(0x01)).digest()),
+    chainKey: new Uint8Array(createHmac('sha256', chainKey).update(Uint8Array.of(0x02)).digest())
+  };
+}
+
+/** X3DH output: KDF(F ‖ DH1 ‖ … ‖ DH4) with F thirty-two 0xFF bytes */
+export function deriveSharedSecret(dhOutputs: Uint8Array[]): Uint8Array {
+  return hkdf(concat(new Uint8Array(32).fill(0xff), ...dhOutputs), ZERO_SALT, 'ratchet-x3dh', 32);
+}
+
+/**
+ * Message keys are used once, so the AES key and nonce can both be
+ * derived from them
+ */
+function messageCipherParams(messageKey: Uint8Array): { key: Uint8Array; iv: Uint8Array } {
+  const output = hkdf(messageKey, ZERO_SALT, 'ratchet-message', 44);
+  return { key: output.subarray(0, 32), iv: output.subarray(32) };
+}
+
+export function aeadEncrypt(messageKey: Uint8Array, plaintext: Uint8Array, associatedData: Uint8Array): Uint8Array {
+  const { key, iv } = messageCipherParams(messageKey);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(associatedData);
+  return concat(cipher.update(plaintext), cipher.final(), cipher.getAuthTag());
+}
+
+export function aeadDecrypt(messageKey: Uint8Array, ciphertext: Uint8Array, associatedData: Uint8Array): Uint8Array {
+  const { key, iv } = messageCipherParams(messageKey);
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAAD(associatedData);
+    decipher.setAuthTag(ciphertext.subarray(-16));
+    return concat(decipher.update(ciphertext.subarray(0, -16)), decipher.final());
+  } catch {
+    throw new RatchetError('decryption_failed', 'Message could not be authenticated');
+  }
+}
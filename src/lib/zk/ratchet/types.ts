@@ -0,0 +1,131 @@
+/** Device used when a caller does not name one */
+export const DEFAULT_DEVICE_ID = 'primary';
+
+/** Most message keys one header may make a chain skip ahead by */
+export const MAX_SKIP = 1000;
+
+/** Skipped message keys kept per session; the oldest go first */
+export const MAX_STORED_SKIPPED_KEYS = 2000;
+
+/** Key version recorded for messages re-sent after their ratchet sessions were reset */
+export const RATCHET_KEY_VERSION = 'ratchet';
+
+/** Envelope encoding understood by decodeEnvelopes */
+export const RATCHET_ENVELOPE_FORMAT = 'dr-sesame-1';
+
+export interface DeviceAddress {
+  userId: string;
+  deviceId: string;
+}
+
+export interface KeyPair {
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+}
+
+/** AES-256-GCM ciphertext under the at-rest key, bound to its record id */
+export interface SealedBlob {
+  ciphertext: string;
+  iv: string;
+  keyId: string;
+}
+
+export interface SignedPreKey {
+  keyId: number;
+  publicKey: Uint8Array;
+  /** Ed25519 signature by the device signing key over the public key */
+  signature: Uint8Array;
+}
+
+/** What a sender needs to open a session with a device it has never talked to */
+export interface PreKeyBundle {
+  address: DeviceAddress;
+  identityKey: Uint8Array;
+  signingKey: Uint8Array;
+  signedPreKey: SignedPreKey;
+  oneTimePreKey?: { keyId: number; publicKey: Uint8Array };
+}
+
+/** Private halves of a device's long-lived keys, stored sealed */
+export interface DeviceSecrets {
+  identityPrivateKey: Uint8Array;
+  signingPrivateKey: Uint8Array;
+  /** Current signed prekey first; the previous one is kept for late handshakes */
+  signedPreKeys: Array<KeyPair & { keyId: number }>;
+}
+
+export interface DeviceRecord {
+  address: DeviceAddress;
+  identityKey: Uint8Array;
+  signingKey: Uint8Array;
+  signedPreKey: SignedPreKey;
+  sealedSecrets: SealedBlob;
+  revokedAt?: string | null;
+}
+
+export interface OneTimePreKeyRecord {
+  keyId: number;
+  publicKey: Uint8Array;
+  sealedPrivate: SealedBlob;
+}
+
+export interface RatchetHeader {
+  /** Sender's current ratchet public key */
+  dh: Uint8Array;
+  /** Length of the sender's previous sending chain */
+  pn: number;
+  /** Message number in the current sending chain */
+  n: number;
+}
+
+/** X3DH parameters carried by a sender's messages until the peer replies */
+export interface PreKeyHeader {
+  identityKey: Uint8Array;
+  ephemeralKey: Uint8Array;
+  signedPreKeyId: number;
+  oneTimePreKeyId?: number;
+}
+
+export interface RatchetState {
+  /** Identity keys of initiator then responder, prefixed to every message's associated data */
+  associatedData: Uint8Array;
+  /** X3DH ephemeral key that created the session, to recognise a repeated handshake */
+  baseKey: Uint8Array;
+  rootKey: Uint8Array;
+  sendingKeyPair: KeyPair;
+  remotePublicKey: Uint8Array | null;
+  sendingChainKey: Uint8Array | null;
+  receivingChainKey: Uint8Array | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  /** Keys of messages not yet received, by `${ratchet key hex}:${n}`, oldest first */
+  skippedKeys: Map<string, Uint8Array>;
+  pendingPreKey: PreKeyHeader | null;
+}
+
+export interface SessionRecord {
+  id: string;
+  local: DeviceAddress;
+  remote: DeviceAddress;
+  sealedState: SealedBlob;
+  /** Optimistic concurrency counter; bumped on every save */
+  version: number;
+  status: 'active' | 'retired';
+}
+
+/** One device's copy of a message, as stored inside message content */
+export interface RatchetEnvelope {
+  threadId: string;
+  sender: DeviceAddress;
+  recipient: DeviceAddress;
+  header: { dh: string; pn: number; n: number };
+  preKey?: { identityKey: string; ephemeralKey: string; signedPreKeyId: number; oneTimePreKeyId?: number };
+  ciphertext: string;
+}
+
+export interface RatchetFanout {
+  envelopes: RatchetEnvelope[];
+  /** Devices no session could be opened with, e.g. out of prekeys */
+  undelivered: DeviceAddress[];
+}
@@ -0,0 +1,77 @@
+import { RatchetError } from './errors';
+import { initializeReceiver, initializeSender } from './doubleRatchet';
+import { concat, deriveSharedSecret, dh, generateDhKeyPair, verifyKeySignature } from './primitives';
+import { KeyPair, PreKeyBundle, PreKeyHeader, RatchetState } from './types';
+
+/**
+ * X3DH key agreement. Identity keys sign with a separate Ed25519 key
+ * rather than XEdDSA, so a bundle carries both public keys.
+ */
+
+/** Open a session from a fetched bundle; the result sends the prekey header until answered */
+export function initiateSession(
+  localIdentity: KeyPair,
+  bundle: PreKeyBundle
+): RatchetState {
+  const { signedPreKey, oneTimePreKey } = bundle;
+  if (!verifyKeySignature(bundle.signingKey, signedPreKey.publicKey, signedPreKey.signature)) {
+    throw new RatchetError('invalid_bundle', 'Signed prekey signature does not verify');
+  }
+
+  const ephemeral = generateDhKeyPair();
+  const dhOutputs = [
+    dh(localIdentity.privateKey, signedPreKey.publicKey),
+    dh(ephemeral.privateKey, bundle.identityKey),
+    dh(ephemeral.privateKey, signedPreKey.publicKey)
+  ];
+  if (oneTimePreKey) {
+    dhOutputs.push(dh(ephemeral.privateKey, oneTimePreKey.publicKey));
+  }
+
+  const pendingPreKey: PreKeyHeader = {
+    identityKey: localIdentity.publicKey,
+    ephemeralKey: ephemeral.publicKey,
+    signedPreKeyId: signedPreKey.keyId,
+    oneTimePreKeyId: oneTimePreKey?.keyId
+  };
+
+  return initializeSender(
+    {
+      sharedSecret: deriveSharedSecret(dhOutputs),
+      associatedData: concat(localIdentity.publicKey, bundle.identityKey),
+      baseKey: ephemeral.publicKey
+    },
+    signedPreKey.publicKey,
+    pendingPreKey
+  );
+}
+
+/**
+ * Accept a session from a prekey header. The caller resolves the private
+ * prekeys it names and must already have checked the identity key belongs
+ * to the sender.
+ */
+export function acceptSession(
+  localIdentity: KeyPair,
+  signedPreKey: KeyPair,
+  oneTimePreKey: Uint8Array | null,
+  preKey: PreKeyHeader
+): RatchetState {
+  const dhOutputs = [
+    dh(signedPreKey.privateKey, preKey.identityKey),
+    dh(localIdentity.privateKey, preKey.ephemeralKey),
+    dh(signedPreKey.privateKey, preKey.ephemeralKey)
+  ];
+  if (oneTimePreKey) {
+    dhOutputs.push(dh(oneTimePreKey, preKey.ephemeralKey));
+  }
+
+  return initializeReceiver(
+    {
+      sharedSecret: deriveSharedSecret(dhOutputs),
+      associatedData: concat(preKey.identityKey, localIdentity.publicKey),
+      baseKey: preKey.ephemeralKey
+    },
+    signedPreKey
+  );
+}
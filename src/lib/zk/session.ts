@@ -1,5 +1,6 @@
 import { ZKService } from './ZKService';
 import { ForwardSecrecyService } from './ForwardSecrecyService';
+import { DEFAULT_DEVICE_ID } from './ratchet';
 import { SecurityAuditService } from '@/services/SecurityAuditService';
 import { SupabaseClient } from '@supabase/supabase-js';
 
@@ -40,9 +41,8 @@ export class SessionManager {
       // Get or create session keys
       const keys = await this.zkService.getOrCreateSessionKeys(threadId);
 
-      // Initialize forward secrecy for the session
-      const sharedSecret = Buffer.from(keys.privateKey, 'hex');
-      await this.forwardSecrecy.initializeRatchet(threadId, sharedSecret, true);
+      // Make sure the user's device can take part in ratchet sessions
+      await this.forwardSecrecy.ensureDevice({ userId, deviceId: DEFAULT_DEVICE_ID });
 
       // Create session context
       const context: SessionContext = {
@@ -1,9 +1,20 @@
 import { createRouteHandlerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { type Message } from '@/ollama/process';
-import { TherapeuticAIProcessor } from '@/ai/processor';
+import { TherapeuticAIProcessor, type ProcessedResponse } from '@/ai/processor';
+import { PersonaMemoryStore, PersonaStateMachine } from '@/ai/persona';
+import { DifficultyController, DifficultyTrajectoryStore, curveForComplexity } from '@/ai/difficulty';
+import { InterventionDetectionService } from '@/services/InterventionDetectionService';
+import { QualityMetricsService } from '@/services/QualityMetricsService';
+import { SessionRecorder } from '@/services/recording';
+import { ScenarioLoader } from '@/services/scenarios';
+import { LLMProviderRegistry } from '@/ai/providers';
+import { CLIENT_ROLEPLAY_TEMPLATE_ID, PROMPT_LOCALES, PromptRegistry, clientProfileSchema, type PromptLocale } from '@/lib/prompts';
 import type { ClientProfile } from '@/types/clientprofile';
 import type { Database } from '@/types/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+// Session-wide quality scores are expensive, so fold them in every few turns
+const QUALITY_REFRESH_TURNS = 5;
 export async function POST(req: Request) {
     try {
         const supabase = createRouteHandlerClient<Database>({ cookies });
@@ -14,12 +25,65 @@ export async function POST(req: Request) {
                 headers: { 'Content-Type': 'application/json' },
             });
         }
-        const { messages, client_profile } = await req.json();
+        const { messages, client_profile, session_id, locale, scenario_id, scenario_version } = await req.json();
         if (!client_profile) {
             throw new Error('Client profile is required');
         }
-        const processor = new TherapeuticAIProcessor(client_profile as ClientProfile);
+        // The session recording has no RLS of its own, so only the session's therapist may write to it
+        if (session_id && !(await isSessionTherapist(supabase, session_id, session.user.id))) {
+            return new Response(JSON.stringify({ error: 'Forbidden' }), {
+                status: 403,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+        // Persona memory needs a full roleplay profile and a session to attach to
+        const roleplayProfile = clientProfileSchema.safeParse(client_profile);
+        const personaStore = PersonaMemoryStore.getInstance();
+        let persona: PersonaStateMachine | undefined;
+        if (session_id && roleplayProfile.success) {
+            const savedState = await personaStore.load(session_id, supabase);
+            persona = new PersonaStateMachine(roleplayProfile.data, session_id, savedState ?? undefined);
+        }
+        const trajectoryStore = DifficultyTrajectoryStore.getInstance();
+        let difficulty: DifficultyController | undefined;
+        let storedPoints = 0;
+        if (session_id) {
+            const trajectory = await trajectoryStore.getTrajectory(session_id, supabase);
+            storedPoints = trajectory.length;
+            // The scenario's authored curve bounds the difficulty; otherwise the client's complexity picks a default
+            const scenario = scenario_id ? await ScenarioLoader.getInstance().load(scenario_id, scenario_version, supabase) : undefined;
+            const curve = scenario?.difficultyCurve ?? curveForComplexity(client_profile.complexity);
+            difficulty = DifficultyController.resume(session_id, curve, trajectory, InterventionDetectionService.getInstance());
+        }
+        // Render the roleplay prompt through the registry so each session records its template version
+        let rolePrompt: string | undefined;
+        if (roleplayProfile.success) {
+            const promptLocale = PROMPT_LOCALES.includes(locale) ? locale as PromptLocale : undefined;
+            const registry = PromptRegistry.getInstance();
+            rolePrompt = session_id
+                ? (await registry.renderForSession(session_id, roleplayProfile.data, { locale: promptLocale, client: supabase })).content
+                : registry.render(CLIENT_ROLEPLAY_TEMPLATE_ID, roleplayProfile.data, { locale: promptLocale }).content;
+        }
+        const processor = new TherapeuticAIProcessor(client_profile as ClientProfile, persona, difficulty, rolePrompt);
         const response = await processor.processMessage(messages as Array<Message>);
+        if (persona) {
+            await personaStore.save(persona.getState(), supabase);
+        }
+        if (difficulty) {
+            if (difficulty.turnCount % QUALITY_REFRESH_TURNS === 0) {
+                try {
+                    const metrics = await QualityMetricsService.getInstance().getComprehensiveMetrics(session_id);
+                    difficulty.applyQualityScores(metrics.scores);
+                }
+                catch (error) {
+                    console.error('Failed to refresh quality scores:', error);
+                }
+            }
+            await trajectoryStore.append(difficulty.getTrajectory().slice(storedPoints), supabase);
+        }
+        if (session_id) {
+            await recordTurn(session_id, messages[messages.length - 1].content, response);
+        }
         // Store interaction in Supabase
         const { error: insertError } = await supabase
             .from('interactions')
@@ -36,7 +100,9 @@ export async function POST(req: Request) {
         }
         return new Response(JSON.stringify({
             message: response.content,
-            analysis: response.analysis
+            analysis: response.analysis,
+            consistency: response.consistency,
+            difficulty: response.difficulty
         }), {
             status: 200,
             headers: { 'Content-Type': 'application/json' },
@@ -50,3 +116,39 @@ export async function POST(req: Request) {
         });
     }
 }
+async function isSessionTherapist(supabase: SupabaseClient<Database>, sessionId: string, userId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('sessions')
+        .select('therapist_id')
+        .eq('id', sessionId)
+        .maybeSingle();
+    if (error) {
+        throw error;
+    }
+    return data?.therapist_id === userId;
+}
+/**
+ * Append the turn to the session recording for instructor playback.
+ * Recording failures are logged, never surfaced to the trainee.
+ */
+async function recordTurn(sessionId: string, therapistMessage: string, response: ProcessedResponse) {
+    const recorder = SessionRecorder.getInstance();
+    try {
+        const { provider, model } = LLMProviderRegistry.getInstance().getBinding('roleplay');
+        await recorder.recordMessage(sessionId, crypto.randomUUID(), 'user', therapistMessage);
+        await recorder.recordModelParams(sessionId, { provider, model, ...response.parameters });
+        const clientMessageId = crypto.randomUUID();
+        await recorder.recordMessage(sessionId, clientMessageId, 'assistant', response.content);
+        await recorder.recordAnalysis(sessionId, {
+            messageId: clientMessageId,
+            emotion: response.analysis.emotions[0]
+                ? { primary: response.analysis.emotions[0], intensity: response.analysis.intensity }
+                : undefined,
+            patterns: response.analysis.patterns,
+            defenses: response.analysis.defenses
+        });
+    }
+    catch (error) {
+        console.error('Failed to record session turn:', error);
+    }
+}
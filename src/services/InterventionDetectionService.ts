@@ -23,7 +23,7 @@ export type InterventionType =
     | 'skills-training'
     | 'crisis-intervention';
 
-interface InterventionContext {
+export interface InterventionContext {
     clientState: {
         emotionalState: number;
         engagementLevel: number;
@@ -479,6 +479,44 @@ export class RedisService {
         }
     }
 
+    /**
+     * Push a value onto a list only if the version stored alongside it is
+     * still `expectedVersion` (-1 when unset), then record `version`. One
+     * script, so concurrent writers cannot both append the same version.
+     */
+    public async appendIfVersion(
+        listKey: string,
+        versionKey: string,
+        expectedVersion: number,
+        version: number,
+        value: string
+    ): Promise<boolean> {
+        try {
+            const script = `
+                local current = tonumber(redis.call("get", KEYS[2]) or "-1")
+                if current ~= tonumber(ARGV[1]) then
+                    return 0
+                end
+                redis.call("rpush", KEYS[1], ARGV[3])
+                redis.call("set", KEYS[2], ARGV[2])
+                return 1
+            `;
+            const result = await this.client.eval(
+                script,
+                2,
+                listKey,
+                versionKey,
+                String(expectedVersion),
+                String(version),
+                value
+            );
+            return result === 1;
+        } catch (error) {
+            console.error('Redis appendIfVersion error:', error);
+            throw error;
+        }
+    }
+
     public async shutdown(): Promise<void> {
         if (this.smartCache) {
             await this.smartCache.shutdown();
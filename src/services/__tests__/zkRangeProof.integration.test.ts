@@ -2,6 +2,10 @@ import { ZKRangeProofService, RangeProofInput } from '../zkRangeProof';
 import { BulletproofsRangeProof } from '../bulletproofs/rangeProof';
 import { Point } from '../zkProof';
 
+jest.mock('../../lib/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
 describe('ZKRangeProof Integration Tests', () => {
     let zkRangeProof: ZKRangeProofService;
 
@@ -1,5 +1,9 @@
 import { ZKRangeProofService, RangeProofInput, RangeProofData } from '../zkRangeProof';
 
+jest.mock('../../lib/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
 describe('ZKRangeProofService', () => {
     let zkRangeProof: ZKRangeProofService;
 
@@ -0,0 +1,158 @@
+import {
+  HomomorphicEncryption,
+  HomomorphicEncryptionError
+} from '@/lib/homomorphic/homomorphic-encryption';
+import { logger } from '@/lib/logger';
+import {
+  CohortPublicKeys,
+  CohortStatisticsError,
+  CohortStatisticsOptions,
+  EncryptedCohortStatistics,
+  EncryptedTraineeScores
+} from './CohortStatisticsService';
+
+// One rescale for squaring the scores and one for dividing by the cohort size
+const CKKS_LEVELS_NEEDED = 2;
+
+/**
+ * Combines trainee submissions into encrypted cohort statistics.
+ *
+ * The aggregator is initialized with the key holder's public keys only, so
+ * it touches nothing but ciphertexts: real-valued sums, means and variances
+ * use CKKS, histogram counts use BFV. Operations that would exhaust a
+ * ciphertext's noise budget are refused by HomomorphicEncryption, which
+ * measures budgets from the ciphertexts rather than from what a
+ * submission claims.
+ */
+export class CohortAggregator {
+  private static instance: CohortAggregator;
+  private readonly options: CohortStatisticsOptions;
+  private ckks: HomomorphicEncryption | null = null;
+  private bfv: HomomorphicEncryption | null = null;
+
+  private constructor(options: Partial<CohortStatisticsOptions> = {}) {
+    this.options = {
+      buckets: 10,
+      minCohortSize: 5,
+      ...options
+    };
+  }
+
+  public static getInstance(options?: Partial<CohortStatisticsOptions>): CohortAggregator {
+    if (!CohortAggregator.instance) {
+      CohortAggregator.instance = new CohortAggregator(options);
+    }
+    return CohortAggregator.instance;
+  }
+
+  public async initialize(keys: CohortPublicKeys): Promise<void> {
+    this.destroy();
+    [this.ckks, this.bfv] = await Promise.all([
+      HomomorphicEncryption.withPublicKeys(keys.ckks),
+      HomomorphicEncryption.withPublicKeys(keys.bfv)
+    ]);
+  }
+
+  /**
+   * Combine trainee submissions into encrypted cohort statistics without
+   * decrypting any of them. The variance is the population variance,
+   * E[x^2] - E[x]^2.
+   */
+  public async aggregate(submissions: EncryptedTraineeScores[]): Promise<EncryptedCohortStatistics> {
+    const { ckks, bfv } = this.requireKeys();
+    this.validateSubmissions(submissions, ckks);
+
+    const cohortSize = submissions.length;
+    let sum = submissions[0].scores;
+    let sumOfSquares = await ckks.multiply(sum, sum);
+    let histogram = submissions[0].histogram;
+
+    for (const submission of submissions.slice(1)) {
+      sum = await ckks.add(sum, submission.scores);
+      sumOfSquares = await ckks.add(
+        sumOfSquares,
+        await ckks.multiply(submission.scores, submission.scores)
+      );
+      histogram = await bfv.add(histogram, submission.histogram);
+    }
+
+    const mean = await ckks.multiplyPlain(sum, 1 / cohortSize);
+    const meanOfSquares = await ckks.multiplyPlain(sumOfSquares, 1 / cohortSize);
+    const variance = await ckks.subtract(meanOfSquares, await ckks.multiply(mean, mean));
+
+    logger.info('Aggregated encrypted cohort statistics', {
+      cohortSize,
+      histogramNoiseBudget: bfv.noiseBudget(histogram)
+    });
+
+    return {
+      cohortSize,
+      buckets: this.options.buckets,
+      sum,
+      mean,
+      variance,
+      histogram,
+      computedAt: new Date().toISOString()
+    };
+  }
+
+  public destroy(): void {
+    this.ckks?.destroy();
+    this.bfv?.destroy();
+    this.ckks = null;
+    this.bfv = null;
+  }
+
+  private validateSubmissions(submissions: EncryptedTraineeScores[], ckks: HomomorphicEncryption): void {
+    if (submissions.length < this.options.minCohortSize) {
+      throw new CohortStatisticsError(
+        `Cohort statistics need at least ${this.options.minCohortSize} trainees, got ${submissions.length}`,
+        'cohort_too_small'
+      );
+    }
+
+    // A trainee counted twice would skew the statistics towards them
+    const traineeIds = new Set(submissions.map(submission => submission.traineeId));
+    if (traineeIds.size !== submissions.length) {
+      throw new CohortStatisticsError('Each trainee may only submit once per cohort', 'invalid_submission');
+    }
+
+    for (const submission of submissions) {
+      if (submission.scores?.scheme !== 'ckks' || submission.histogram?.scheme !== 'bfv') {
+        throw new CohortStatisticsError(
+          `Submission from trainee ${submission.traineeId} is not a CKKS score and BFV histogram pair`,
+          'invalid_submission'
+        );
+      }
+
+      // BFV budgets can't be measured without the secret key; decryption checks them
+      if (this.levelsLeft(ckks, submission) < CKKS_LEVELS_NEEDED) {
+        throw new CohortStatisticsError(
+          `Scores from trainee ${submission.traineeId} are not a fresh CKKS encryption`,
+          'invalid_submission'
+        );
+      }
+    }
+  }
+
+  /**
+   * Rescales left, measured from the ciphertext; -1 if it doesn't load
+   */
+  private levelsLeft(ckks: HomomorphicEncryption, submission: EncryptedTraineeScores): number {
+    try {
+      return ckks.noiseBudget(submission.scores);
+    } catch (error) {
+      if (error instanceof HomomorphicEncryptionError) {
+        return -1;
+      }
+      throw error;
+    }
+  }
+
+  private requireKeys(): { ckks: HomomorphicEncryption; bfv: HomomorphicEncryption } {
+    if (!this.ckks || !this.bfv) {
+      throw new CohortStatisticsError('Cohort aggregator not initialized with public keys', 'not_initialized');
+    }
+    return { ckks: this.ckks, bfv: this.bfv };
+  }
+}
@@ -0,0 +1,233 @@
+import { QualityMetricsService } from '../QualityMetricsService';
+import {
+  HomomorphicEncryption,
+  HomomorphicEncryptedData,
+  HomomorphicPublicKeys
+} from '@/lib/homomorphic/homomorphic-encryption';
+
+export const COHORT_METRICS = [
+  'overall',
+  'therapeuticProgress',
+  'clientEngagement',
+  'emotionalRegulation',
+  'treatmentAdherence',
+  'outcomeProgress'
+] as const;
+
+export type CohortMetric = typeof COHORT_METRICS[number];
+
+export interface CohortStatisticsOptions {
+  buckets: number;        // Histogram buckets over the 0-1 score range
+  minCohortSize: number;  // Smaller cohorts would come too close to revealing individuals
+}
+
+/**
+ * One trainee's scores, encrypted before they leave the trainee's side.
+ * `scores` holds one CKKS slot per metric; `histogram` is a BFV one-hot
+ * vector with a slot per (metric, bucket) pair.
+ */
+export interface EncryptedTraineeScores {
+  traineeId: string;
+  sessionCount: number;
+  scores: HomomorphicEncryptedData;
+  histogram: HomomorphicEncryptedData;
+}
+
+/** Published by the key holder so the aggregator can compute without decrypting */
+export interface CohortPublicKeys {
+  ckks: HomomorphicPublicKeys;
+  bfv: HomomorphicPublicKeys;
+}
+
+export interface EncryptedCohortStatistics {
+  cohortSize: number;
+  buckets: number;
+  sum: HomomorphicEncryptedData;
+  mean: HomomorphicEncryptedData;
+  variance: HomomorphicEncryptedData;
+  histogram: HomomorphicEncryptedData;
+  computedAt: string;
+}
+
+export interface MetricStatistics {
+  sum: number;
+  mean: number;
+  variance: number;
+  standardDeviation: number;
+  histogram: number[];
+}
+
+export interface CohortStatistics {
+  cohortSize: number;
+  metrics: Record<CohortMetric, MetricStatistics>;
+  computedAt: string;
+}
+
+export type CohortStatisticsErrorCode =
+  | 'not_initialized'
+  | 'cohort_too_small'
+  | 'no_sessions'
+  | 'invalid_submission';
+
+export class CohortStatisticsError extends Error {
+  constructor(message: string, public readonly code: CohortStatisticsErrorCode) {
+    super(message);
+    this.name = 'CohortStatisticsError';
+  }
+}
+
+/**
+ * Privacy-preserving cohort statistics over trainee quality scores; the
+ * key holder's side.
+ *
+ * Trainees' scores are encrypted with encryptTraineeScores. The key holder
+ * publishes getPublicKeys to a CohortAggregator, which combines the
+ * submissions without ever holding plaintext scores or the secret keys.
+ * Only the key holder can decryptStatistics, and then only learns
+ * cohort-level results.
+ */
+export class CohortStatisticsService {
+  private static instance: CohortStatisticsService;
+  private readonly options: CohortStatisticsOptions;
+  private readonly qualityMetrics: QualityMetricsService;
+  private readonly ckks: HomomorphicEncryption;
+  private readonly bfv: HomomorphicEncryption;
+
+  private constructor(options: Partial<CohortStatisticsOptions> = {}) {
+    this.options = {
+      buckets: 10,
+      minCohortSize: 5,
+      ...options
+    };
+    this.qualityMetrics = QualityMetricsService.getInstance();
+    this.ckks = HomomorphicEncryption.getInstance({ scheme: 'ckks' });
+    this.bfv = HomomorphicEncryption.getInstance({ scheme: 'bfv' });
+  }
+
+  public static getInstance(options?: Partial<CohortStatisticsOptions>): CohortStatisticsService {
+    if (!CohortStatisticsService.instance) {
+      CohortStatisticsService.instance = new CohortStatisticsService(options);
+    }
+    return CohortStatisticsService.instance;
+  }
+
+  public async initialize(): Promise<void> {
+    await Promise.all([this.ckks.initialize(), this.bfv.initialize()]);
+  }
+
+  /**
+   * Keys for CohortAggregator.initialize; they allow encrypting and
+   * combining ciphertexts but not decrypting them
+   */
+  public getPublicKeys(): CohortPublicKeys {
+    return {
+      ckks: this.ckks.exportPublicKeys(),
+      bfv: this.bfv.exportPublicKeys()
+    };
+  }
+
+  /**
+   * Average a trainee's scores over their sessions and encrypt them
+   */
+  public async encryptTraineeScores(traineeId: string, sessionIds: string[]): Promise<EncryptedTraineeScores> {
+    if (sessionIds.length === 0) {
+      throw new CohortStatisticsError(`Trainee ${traineeId} has no sessions to score`, 'no_sessions');
+    }
+
+    const sessions = await Promise.all(
+      sessionIds.map(sessionId => this.qualityMetrics.getComprehensiveMetrics(sessionId))
+    );
+
+    const scores = COHORT_METRICS.map(metric => {
+      const total = sessions.reduce((sum, session) => {
+        const value = metric === 'overall'
+          ? session.scores.overall
+          : session.scores.categoryScores[metric];
+        return sum + value;
+      }, 0);
+      return Math.min(1, Math.max(0, total / sessions.length));
+    });
+
+    const histogram = new Array(COHORT_METRICS.length * this.options.buckets).fill(0);
+    scores.forEach((score, metricIndex) => {
+      histogram[metricIndex * this.options.buckets + this.bucketOf(score)] = 1;
+    });
+
+    return {
+      traineeId,
+      sessionCount: sessions.length,
+      scores: await this.ckks.encrypt(scores),
+      histogram: await this.bfv.encrypt(histogram)
+    };
+  }
+
+  /**
+   * Decrypt cohort statistics; requires the secret keys
+   */
+  public async decryptStatistics(statistics: EncryptedCohortStatistics): Promise<CohortStatistics> {
+    const [sum, mean, variance, histogram] = await Promise.all([
+      this.ckks.decrypt(statistics.sum),
+      this.ckks.decrypt(statistics.mean),
+      this.ckks.decrypt(statistics.variance),
+      this.bfv.decrypt(statistics.histogram)
+    ]);
+
+    const metrics = {} as Record<CohortMetric, MetricStatistics>;
+    COHORT_METRICS.forEach((metric, i) => {
+      // CKKS results carry small approximation errors; a variance can come out just below zero
+      const metricVariance = Math.max(0, variance[i]);
+      metrics[metric] = {
+        sum: sum[i],
+        mean: mean[i],
+        variance: metricVariance,
+        standardDeviation: Math.sqrt(metricVariance),
+        histogram: histogram.slice(i * statistics.buckets, (i + 1) * statistics.buckets)
+      };
+    });
+
+    return {
+      cohortSize: statistics.cohortSize,
+      metrics,
+      computedAt: statistics.computedAt
+    };
+  }
+
+  /**
+   * Serialize encrypted statistics for storage
+   */
+  public serializeStatistics(statistics: EncryptedCohortStatistics): string {
+    return JSON.stringify({
+      ...statistics,
+      sum: HomomorphicEncryption.serialize(statistics.sum),
+      mean: HomomorphicEncryption.serialize(statistics.mean),
+      variance: HomomorphicEncryption.serialize(statistics.variance),
+      histogram: HomomorphicEncryption.serialize(statistics.histogram)
+    });
+  }
+
+  public deserializeStatistics(serialized: string): EncryptedCohortStatistics {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(serialized);
+    } catch (error) {
+      parsed = null;
+    }
+    if (!parsed || !Number.isInteger(parsed.cohortSize) || !Number.isInteger(parsed.buckets)) {
+      throw new CohortStatisticsError('Serialized cohort statistics are malformed', 'invalid_submission');
+    }
+
+    return {
+      cohortSize: parsed.cohortSize,
+      buckets: parsed.buckets,
+      sum: HomomorphicEncryption.deserialize(parsed.sum),
+      mean: HomomorphicEncryption.deserialize(parsed.mean),
+      variance: HomomorphicEncryption.deserialize(parsed.variance),
+      histogram: HomomorphicEncryption.deserialize(parsed.histogram),
+      computedAt: parsed.computedAt
+    };
+  }
+
+  private bucketOf(score: number): number {
+    return Math.min(this.options.buckets - 1, Math.floor(score * this.options.buckets));
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  CohortStatisticsService,
+  CohortStatisticsError,
+  COHORT_METRICS
+} from '../CohortStatisticsService';
+import { CohortAggregator } from '../CohortAggregator';
+import { HomomorphicEncryption } from '@/lib/homomorphic/homomorphic-encryption';
+
+const mockGetComprehensiveMetrics = jest.fn();
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../../QualityMetricsService', () => ({
+  QualityMetricsService: {
+    getInstance: () => ({ getComprehensiveMetrics: mockGetComprehensiveMetrics })
+  }
+}));
+
+const sessionScores = (overall: number, category: number) => ({
+  scores: {
+    overall,
+    categoryScores: {
+      therapeuticProgress: category,
+      clientEngagement: category,
+      emotionalRegulation: category,
+      treatmentAdherence: category,
+      outcomeProgress: category
+    }
+  }
+});
+
+// Overall scores per session, keyed by session id
+const OVERALL: Record<string, number> = {
+  'session-a1': 0.6,
+  'session-a2': 0.8,
+  'session-b1': 0.5,
+  'session-c1': 0.9,
+  'session-d1': 0.35,
+  'session-e1': 1.0
+};
+
+const TRAINEES: Record<string, string[]> = {
+  'trainee-a': ['session-a1', 'session-a2'],
+  'trainee-b': ['session-b1'],
+  'trainee-c': ['session-c1'],
+  'trainee-d': ['session-d1'],
+  'trainee-e': ['session-e1']
+};
+
+describe('CohortStatisticsService', () => {
+  const service = CohortStatisticsService.getInstance();
+  const aggregator = CohortAggregator.getInstance();
+
+  beforeAll(async () => {
+    mockGetComprehensiveMetrics.mockImplementation(async (sessionId: string) =>
+      sessionScores(OVERALL[sessionId], 0.5)
+    );
+    await service.initialize();
+    await aggregator.initialize(service.getPublicKeys());
+  }, 60000);
+
+  afterAll(() => {
+    aggregator.destroy();
+    HomomorphicEncryption.getInstance({ scheme: 'ckks' }).destroy();
+    HomomorphicEncryption.getInstance({ scheme: 'bfv' }).destroy();
+  });
+
+  const submitAll = () => Promise.all(
+    Object.entries(TRAINEES).map(([traineeId, sessionIds]) =>
+      service.encryptTraineeScores(traineeId, sessionIds)
+    )
+  );
+
+  it('should compute cohort statistics without decrypting submissions', async () => {
+    const submissions = await submitAll();
+    const decrypt = jest.spyOn(HomomorphicEncryption.prototype, 'decrypt');
+
+    const encrypted = await aggregator.aggregate(submissions);
+    expect(decrypt).not.toHaveBeenCalled();
+    decrypt.mockRestore();
+
+    const statistics = await service.decryptStatistics(encrypted);
+
+    // Per-trainee overall scores: 0.7 (mean of two sessions), 0.5, 0.9, 0.35, 1.0
+    const values = [0.7, 0.5, 0.9, 0.35, 1.0];
+    const mean = values.reduce((a, b) => a + b) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+
+    expect(statistics.cohortSize).toBe(5);
+    expect(statistics.metrics.overall.sum).toBeCloseTo(3.45, 4);
+    expect(statistics.metrics.overall.mean).toBeCloseTo(mean, 4);
+    expect(statistics.metrics.overall.variance).toBeCloseTo(variance, 4);
+    expect(statistics.metrics.overall.standardDeviation).toBeCloseTo(Math.sqrt(variance), 3);
+    expect(statistics.metrics.overall.histogram).toEqual([0, 0, 0, 1, 0, 1, 0, 1, 0, 2]);
+
+    expect(statistics.metrics.clientEngagement.mean).toBeCloseTo(0.5, 4);
+    expect(statistics.metrics.clientEngagement.variance).toBeCloseTo(0, 4);
+    expect(statistics.metrics.clientEngagement.histogram[5]).toBe(5);
+    expect(Object.keys(statistics.metrics)).toEqual([...COHORT_METRICS]);
+  }, 60000);
+
+  it('should round-trip encrypted statistics through storage', async () => {
+    const encrypted = await aggregator.aggregate(await submitAll());
+    const restored = service.deserializeStatistics(service.serializeStatistics(encrypted));
+
+    const statistics = await service.decryptStatistics(restored);
+    expect(statistics.metrics.overall.mean).toBeCloseTo(0.69, 4);
+    expect(() => service.deserializeStatistics('{}')).toThrow(CohortStatisticsError);
+  }, 60000);
+
+  it('should refuse cohorts small enough to reveal individuals', async () => {
+    const submissions = (await submitAll()).slice(0, 4);
+
+    await expect(aggregator.aggregate(submissions)).rejects.toMatchObject({ code: 'cohort_too_small' });
+  });
+
+  it('should reject duplicate and malformed submissions', async () => {
+    const submissions = await submitAll();
+
+    await expect(aggregator.aggregate([...submissions, submissions[0]])).rejects.toMatchObject({
+      code: 'invalid_submission'
+    });
+    await expect(aggregator.aggregate(
+      submissions.map((submission, i) => (i === 0 ? { ...submission, scores: submission.histogram } : submission))
+    )).rejects.toMatchObject({ code: 'invalid_submission' });
+  });
+
+  it('should measure submissions rather than trust the levels they claim', async () => {
+    const submissions = await submitAll();
+    const ckks = HomomorphicEncryption.getInstance({ scheme: 'ckks' });
+    const squared = await ckks.multiply(submissions[0].scores, submissions[0].scores);
+    const forged = { ...submissions[0], scores: { ...squared, chain_index: submissions[0].scores.chain_index } };
+
+    await expect(aggregator.aggregate([forged, ...submissions.slice(1)])).rejects.toMatchObject({
+      code: 'invalid_submission'
+    });
+  });
+
+  it('should require at least one session per trainee', async () => {
+    await expect(service.encryptTraineeScores('trainee-z', [])).rejects.toMatchObject({ code: 'no_sessions' });
+  });
+});
@@ -4,6 +4,15 @@ import { v4 as uuidv4 } from "uuid";
 import { FileEncryptionService } from "../../lib/zk/FileEncryptionService";
 import { DistributedLockService } from "../chat/DistributedLockService";
 import { Logger } from "../../lib/logger";
+import { SecurityIncidentService } from "../security/SecurityIncidentService";
+import {
+  AttachmentNotScannedError,
+  AttachmentQuarantinedError,
+  ClamdScanner,
+  CompositeScanner,
+  HeuristicScanner,
+  ScanReport,
+} from "./scanning";
 import {
   Attachment,
   AttachmentType,
@@ -18,11 +27,29 @@ import {
 
 const logger = Logger.getInstance();
 
+const STORAGE_BUCKET = "secure-attachments";
+const QUARANTINE_BUCKET = "quarantined-attachments";
+
+export interface AttachmentServiceOptions {
+  scanner?: CompositeScanner;
+  incidents?: Pick<SecurityIncidentService, "reportIncident">;
+}
+
+/** Heuristics always run; clamd joins in when CLAMD_SOCKET or CLAMD_HOST is set */
+function defaultScanner(): CompositeScanner {
+  const clamd = ClamdScanner.fromEnv();
+  return new CompositeScanner(
+    clamd ? [new HeuristicScanner(), clamd] : [new HeuristicScanner()],
+  );
+}
+
 export class AttachmentService implements AttachmentManager {
   private static instance: AttachmentService;
   private supabase: SupabaseClient;
   private fileEncryption: FileEncryptionService;
   private lockService: DistributedLockService;
+  private scanner: CompositeScanner;
+  private incidents: Pick<SecurityIncidentService, "reportIncident">;
   private serverId: string;
 
   private uploadConfig: AttachmentUploadConfig = {
@@ -59,19 +86,30 @@ export class AttachmentService implements AttachmentManager {
     chunk_size: 1024 * 1024, // 1MB chunks for encryption
   };
 
-  private constructor(supabaseClient: SupabaseClient, redis: Redis) {
+  private constructor(
+    supabaseClient: SupabaseClient,
+    redis: Redis,
+    options: AttachmentServiceOptions = {},
+  ) {
     this.supabase = supabaseClient;
     this.fileEncryption = FileEncryptionService.getInstance();
     this.lockService = DistributedLockService.getInstance(redis);
+    this.scanner = options.scanner ?? defaultScanner();
+    this.incidents = options.incidents ?? SecurityIncidentService.getInstance();
     this.serverId = `server_${uuidv4()}`;
   }
 
   public static getInstance(
     supabaseClient: SupabaseClient,
     redis: Redis,
+    options?: AttachmentServiceOptions,
   ): AttachmentService {
     if (!AttachmentService.instance) {
-      AttachmentService.instance = new AttachmentService(supabaseClient, redis);
+      AttachmentService.instance = new AttachmentService(
+        supabaseClient,
+        redis,
+        options,
+      );
     }
     return AttachmentService.instance;
   }
@@ -302,14 +340,7 @@ export class AttachmentService implements AttachmentManager {
         // Virus scan
         const scanResult = await this.scanAttachment(attachment);
         if (!scanResult.clean) {
-          await this.supabase
-            .from("attachments")
-            .update({
-              status: "failed",
-              virus_scan_status: "infected",
-              virus_scan_result: scanResult,
-            })
-            .eq("id", attachmentId);
+          await this.quarantineAttachment(attachment, scanResult);
           return;
         }
 
@@ -355,22 +386,137 @@ export class AttachmentService implements AttachmentManager {
     }
   }
 
-  private async scanAttachment(_attachment: Attachment): Promise<{
-    scanned_at: string;
-    clean: boolean;
-    threats?: string[];
-    scanner_info?: Record<string, unknown>;
-  }> {
-    // TODO: Implement actual virus scanning
-    // For now, return mock result
-    return {
-      scanned_at: new Date().toISOString(),
-      clean: true,
-      scanner_info: {
-        name: "MockScanner",
-        version: "1.0.0",
-      },
-    };
+  private async scanAttachment(attachment: Attachment): Promise<ScanReport> {
+    const content = await this.readPlaintext(attachment);
+    return this.scanner.scan({
+      fileName: attachment.file_name,
+      mimeType: attachment.mime_type,
+      content,
+    });
+  }
+
+  /** Decrypt all chunks of a stored attachment into one buffer */
+  private async readPlaintext(attachment: Attachment): Promise<Uint8Array> {
+    const metadata = attachment.encryption_metadata;
+    const totalChunks = metadata?.additional_data?.chunks as number | undefined;
+    if (!metadata || !totalChunks) {
+      throw new Error("Encryption metadata not found");
+    }
+
+    const key = await this.fileEncryption.getFileKey(
+      attachment.encryption_key_version,
+      attachment.encryption_key_id,
+      metadata.key_derivation,
+    );
+
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < totalChunks; i++) {
+      const chunk = await this.downloadAndDecryptChunk(
+        `${attachment.storage_path}/chunk_${i}`,
+        key,
+        Buffer.from(metadata.iv),
+      );
+      chunks.push(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+    }
+
+    const plaintext = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      plaintext.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return plaintext;
+  }
+
+  /**
+   * Move an infected attachment's (still encrypted) chunks to the isolated
+   * bucket, block previews and raise a security incident
+   */
+  private async quarantineAttachment(
+    attachment: Attachment,
+    scanResult: ScanReport,
+  ): Promise<void> {
+    const totalChunks =
+      (attachment.encryption_metadata?.additional_data?.chunks as number) || 0;
+    const quarantinePath = `${attachment.thread_id}/${attachment.id}`;
+
+    for (let i = 0; i < totalChunks; i++) {
+      const source = `${attachment.storage_path}/chunk_${i}`;
+      const { data, error: downloadError } = await this.supabase.storage
+        .from(STORAGE_BUCKET)
+        .download(source);
+      if (downloadError || !data) {
+        throw downloadError || new Error(`Failed to read chunk ${source}`);
+      }
+
+      const { error: uploadError } = await this.supabase.storage
+        .from(QUARANTINE_BUCKET)
+        .upload(`${quarantinePath}/chunk_${i}`, data, {
+          contentType: "application/octet-stream",
+          upsert: true,
+        });
+      if (uploadError) throw uploadError;
+
+      const { error: removeError } = await this.supabase.storage
+        .from(STORAGE_BUCKET)
+        .remove([source]);
+      if (removeError) throw removeError;
+    }
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await this.supabase
+      .from("attachments")
+      .update({
+        status: "quarantined",
+        virus_scan_status: "infected",
+        virus_scan_result: scanResult,
+        preview_status: "blocked",
+        quarantine_path: quarantinePath,
+        quarantined_at: now,
+        updated_at: now,
+      })
+      .eq("id", attachment.id);
+    if (updateError) throw updateError;
+
+    try {
+      await this.incidents.reportIncident({
+        type: "malware_detected",
+        severity: "high",
+        status: "open",
+        source: { ip: "internal" },
+        details: {
+          kind: "infected_attachment",
+          attachmentId: attachment.id,
+          threadId: attachment.thread_id,
+          uploaderId: attachment.uploader_id,
+          threats: scanResult.threats,
+          scanners: scanResult.scanner_info,
+        },
+      });
+    } catch (error) {
+      // The file is already isolated; a failed alert must not undo that
+      await this.logError("Failed to report infected attachment", error as Error, {
+        attachmentId: attachment.id,
+      });
+    }
+
+    await this.logInfo("Attachment quarantined", {
+      attachmentId: attachment.id,
+      threats: scanResult.threats,
+    });
+  }
+
+  /** Nothing from quarantine, or not yet scanned clean, leaves the service */
+  private assertDeliverable(attachment: Attachment): void {
+    if (
+      attachment.status === "quarantined" ||
+      attachment.virus_scan_status === "infected"
+    ) {
+      throw new AttachmentQuarantinedError(attachment.id);
+    }
+    if (attachment.virus_scan_status !== "clean") {
+      throw new AttachmentNotScannedError(attachment.id);
+    }
   }
 
   private async generatePreviews(attachment: Attachment): Promise<void> {
@@ -413,6 +559,7 @@ export class AttachmentService implements AttachmentManager {
       try {
         // Get attachment metadata
         const attachment = await this.getAttachment(attachmentId);
+        this.assertDeliverable(attachment);
 
         // Log access
         await this.supabase.from("attachment_access_logs").insert({
@@ -497,7 +644,11 @@ export class AttachmentService implements AttachmentManager {
     },
   ): Promise<string> {
     const attachment = await this.getAttachment(attachmentId);
-    if (!attachment.preview_metadata?.thumbnail_path) {
+    this.assertDeliverable(attachment);
+    if (
+      attachment.preview_status === "blocked" ||
+      !attachment.preview_metadata?.thumbnail_path
+    ) {
       throw new Error("Preview not available");
     }
 
@@ -543,6 +694,7 @@ export class AttachmentService implements AttachmentManager {
 
   public async getDownloadUrl(attachmentId: string): Promise<string> {
     const attachment = await this.getAttachment(attachmentId);
+    this.assertDeliverable(attachment);
     // Create a signed URL with short expiration
     const { data: signedUrl, error } = await this.supabase.storage
       .from("secure-attachments")
@@ -0,0 +1,117 @@
+import { Socket, createConnection } from 'net';
+import { ScanError } from './errors';
+import { AttachmentScanner, ScanTarget, ScanVerdict } from './types';
+
+export interface ClamdOptions {
+  host?: string;
+  port?: number;
+  /** Unix socket path; takes precedence over host/port */
+  socketPath?: string;
+  timeoutMs?: number;
+  /** INSTREAM chunk size; must stay below clamd's StreamMaxLength */
+  chunkSize?: number;
+}
+
+const DEFAULT_OPTIONS = {
+  host: '127.0.0.1',
+  port: 3310,
+  timeoutMs: 30000,
+  chunkSize: 64 * 1024
+};
+
+const FOUND = /^stream: (.+) FOUND$/;
+
+/**
+ * Talks to clamd (or anything speaking its protocol) using the null-terminated
+ * `zINSTREAM` command: the file goes over as length-prefixed chunks ending in a
+ * zero-length chunk, and clamd answers with a single reply line.
+ */
+export class ClamdScanner implements AttachmentScanner {
+  readonly name = 'clamd';
+  private options: ClamdOptions & typeof DEFAULT_OPTIONS;
+
+  constructor(options: ClamdOptions = {}) {
+    // Keys left undefined, e.g. from unset env vars, keep their defaults
+    const defined = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    ) as ClamdOptions;
+    this.options = { ...DEFAULT_OPTIONS, ...defined };
+  }
+
+  static fromEnv(env: Record<string, string | undefined> = process.env): ClamdScanner | null {
+    if (!env.CLAMD_SOCKET && !env.CLAMD_HOST) return null;
+    return new ClamdScanner({
+      socketPath: env.CLAMD_SOCKET,
+      host: env.CLAMD_HOST,
+      port: env.CLAMD_PORT ? Number(env.CLAMD_PORT) : undefined
+    });
+  }
+
+  async ping(): Promise<boolean> {
+    const reply = await this.command(socket => socket.end('zPING\0'));
+    return reply === 'PONG';
+  }
+
+  async scan(target: ScanTarget): Promise<ScanVerdict> {
+    const reply = await this.command(socket => {
+      socket.write('zINSTREAM\0');
+      const { content } = target;
+      for (let offset = 0; offset < content.length; offset += this.options.chunkSize) {
+        const chunk = content.subarray(offset, offset + this.options.chunkSize);
+        socket.write(lengthPrefix(chunk.length));
+        socket.write(chunk);
+      }
+      socket.end(lengthPrefix(0));
+    });
+
+    if (reply === 'stream: OK') {
+      return { scanner: this.name, clean: true, threats: [] };
+    }
+    const found = FOUND.exec(reply);
+    if (found) {
+      return { scanner: this.name, clean: false, threats: [found[1]] };
+    }
+    throw new ScanError(`Unexpected clamd reply: ${reply}`, this.name);
+  }
+
+  private command(send: (socket: Socket) => void): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.socketPath
+        ? createConnection(this.options.socketPath)
+        : createConnection(this.options.port, this.options.host);
+      let received = '';
+      let settled = false;
+
+      const finish = (error: Error | null, reply?: string) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (error) reject(error);
+        else resolve(reply!);
+      };
+
+      socket.setTimeout(this.options.timeoutMs, () =>
+        finish(new ScanError('clamd timed out', this.name))
+      );
+      socket.on('connect', () => send(socket));
+      socket.on('data', data => {
+        received += data.toString('utf8');
+        const end = received.indexOf('\0');
+        if (end !== -1) finish(null, received.slice(0, end).trim());
+      });
+      socket.on('end', () =>
+        finish(null, received.replace(/\0/g, '').trim())
+      );
+      socket.on('error', error =>
+        finish(new ScanError(`clamd connection failed: ${error.message}`, this.name))
+      );
+    });
+  }
+}
+
+/** INSTREAM chunks are framed by a 4-byte big-endian length. */
+function lengthPrefix(length: number): Uint8Array {
+  const prefix = new Uint8Array(4);
+  new DataView(prefix.buffer).setUint32(0, length);
+  return prefix;
+}
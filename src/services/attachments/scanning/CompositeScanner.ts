@@ -0,0 +1,35 @@
+import { ScanError } from './errors';
+import { AttachmentScanner, ScanReport, ScanTarget, ScanVerdict } from './types';
+
+/**
+ * Runs every scanner over the same content. Any scanner failing fails the
+ * whole scan: an attachment is only clean if all of them said so.
+ */
+export class CompositeScanner {
+  constructor(private scanners: AttachmentScanner[]) {}
+
+  get names(): string[] {
+    return this.scanners.map(scanner => scanner.name);
+  }
+
+  async scan(target: ScanTarget): Promise<ScanReport> {
+    const results = await Promise.allSettled(this.scanners.map(scanner => scanner.scan(target)));
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) {
+      const error = failed.reason;
+      throw error instanceof ScanError ? error : new ScanError(String(error?.message ?? error), 'composite');
+    }
+
+    const verdicts = results.map(result => (result as PromiseFulfilledResult<ScanVerdict>).value);
+    const threats = verdicts.flatMap(verdict => verdict.threats);
+    return {
+      scanned_at: new Date().toISOString(),
+      clean: threats.length === 0,
+      threats: threats.length > 0 ? threats : undefined,
+      scanner_info: {
+        scanners: this.names,
+        flagged_by: verdicts.filter(verdict => !verdict.clean).map(verdict => verdict.scanner)
+      }
+    };
+  }
+}
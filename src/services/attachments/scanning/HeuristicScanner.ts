@@ -0,0 +1,115 @@
+import { AttachmentScanner, ScanTarget, ScanVerdict } from './types';
+
+type ContentFamily = 'pdf' | 'png' | 'jpeg' | 'gif' | 'webp' | 'zip' | 'ole2' | 'executable' | 'unknown';
+
+const SIGNATURES: Array<{ family: ContentFamily; bytes: number[]; offset?: number }> = [
+  { family: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { family: 'png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { family: 'jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { family: 'gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { family: 'webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { family: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { family: 'ole2', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  { family: 'executable', bytes: [0x4d, 0x5a] }, // PE
+  { family: 'executable', bytes: [0x7f, 0x45, 0x4c, 0x46] }, // ELF
+  { family: 'executable', bytes: [0xcf, 0xfa, 0xed, 0xfe] }, // Mach-O
+  { family: 'executable', bytes: [0x23, 0x21] } // shebang script
+];
+
+/** Content each declared MIME type may legitimately have */
+const EXPECTED_FAMILIES: Record<string, ContentFamily[]> = {
+  'application/pdf': ['pdf'],
+  'image/png': ['png'],
+  'image/jpeg': ['jpeg'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+  'application/msword': ['ole2'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['zip'],
+  'text/plain': ['unknown'],
+  'application/json': ['unknown']
+};
+
+const EXTENSION_MIME: Record<string, string[]> = {
+  pdf: ['application/pdf'],
+  png: ['image/png'],
+  jpg: ['image/jpeg'],
+  jpeg: ['image/jpeg'],
+  gif: ['image/gif'],
+  webp: ['image/webp'],
+  doc: ['application/msword'],
+  docx: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  txt: ['text/plain'],
+  json: ['application/json']
+};
+
+const MACRO_EXTENSIONS = ['docm', 'dotm', 'xlsm', 'xltm', 'xlam', 'pptm', 'potm', 'ppam'];
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const utf16le = (text: string) => Array.from(text).flatMap(char => [char.charCodeAt(0), 0]);
+
+// OOXML keeps macros in a vbaProject.bin part; the name appears in the zip directory
+const OOXML_MACRO_MARKER = ascii('vbaProject.bin');
+// OLE2 documents with macros carry a _VBA_PROJECT stream (directory names are UTF-16LE)
+const OLE2_MACRO_MARKER = utf16le('_VBA_PROJECT');
+
+function startsWith(content: Uint8Array, bytes: number[], offset = 0): boolean {
+  if (content.length < offset + bytes.length) return false;
+  return bytes.every((byte, index) => content[offset + index] === byte);
+}
+
+function contains(content: Uint8Array, needle: number[]): boolean {
+  outer: for (let i = 0; i <= content.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (content[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+export function detectFamily(content: Uint8Array): ContentFamily {
+  const match = SIGNATURES.find(signature => startsWith(content, signature.bytes, signature.offset));
+  return match?.family ?? 'unknown';
+}
+
+/**
+ * Cheap structural checks that catch what signature scanners often miss:
+ * disguised executables, content that does not match its declared type and
+ * macro-enabled Office documents.
+ */
+export class HeuristicScanner implements AttachmentScanner {
+  readonly name = 'heuristic';
+
+  async scan({ fileName, mimeType, content }: ScanTarget): Promise<ScanVerdict> {
+    const threats: string[] = [];
+    const family = detectFamily(content);
+    const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+
+    if (family === 'executable') {
+      threats.push('Heuristic.Executable');
+    }
+
+    const expected = EXPECTED_FAMILIES[mimeType];
+    const isText = mimeType.startsWith('text/') || mimeType === 'application/json';
+    if (expected && family !== 'executable' && !expected.includes(family)) {
+      threats.push('Heuristic.TypeMismatch');
+    } else if (isText && content.includes(0)) {
+      threats.push('Heuristic.TypeMismatch');
+    }
+
+    const extensionMimes = EXTENSION_MIME[extension];
+    if (extensionMimes && !extensionMimes.includes(mimeType)) {
+      threats.push('Heuristic.ExtensionMismatch');
+    }
+
+    if (
+      MACRO_EXTENSIONS.includes(extension) ||
+      (family === 'zip' && contains(content, OOXML_MACRO_MARKER)) ||
+      (family === 'ole2' && contains(content, OLE2_MACRO_MARKER))
+    ) {
+      threats.push('Heuristic.MacroEnabledOffice');
+    }
+
+    return { scanner: this.name, clean: threats.length === 0, threats };
+  }
+}
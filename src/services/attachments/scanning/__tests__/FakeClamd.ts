@@ -0,0 +1,63 @@
+import { AddressInfo, Server, Socket, createServer } from 'net';
+
+export const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Minimal clamd for tests: answers zPING and zINSTREAM, reporting the EICAR
+ * test string as infected. `reply` overrides the verdict for error cases.
+ */
+export class FakeClamd {
+  private server: Server;
+  received: Uint8Array[] = [];
+  reply?: string;
+
+  constructor() {
+    this.server = createServer(socket => this.handle(socket));
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: Socket): void {
+    let pending: number[] = [];
+    let command: string | null = null;
+    const content: number[] = [];
+
+    socket.on('data', data => {
+      pending.push(...data);
+
+      if (command === null) {
+        const end = pending.indexOf(0);
+        if (end === -1) return;
+        command = String.fromCharCode(...pending.slice(0, end));
+        pending = pending.slice(end + 1);
+        if (command === 'zPING') {
+          socket.end('PONG\0');
+          return;
+        }
+      }
+
+      // INSTREAM: <uint32 length><bytes>... terminated by a zero length
+      while (pending.length >= 4) {
+        const length = ((pending[0] << 24) | (pending[1] << 16) | (pending[2] << 8) | pending[3]) >>> 0;
+        if (length === 0) {
+          this.received.push(Uint8Array.from(content));
+          const text = String.fromCharCode(...content);
+          const verdict = this.reply
+            ?? (text.includes(EICAR) ? 'stream: Eicar-Test-Signature FOUND' : 'stream: OK');
+          socket.end(`${verdict}\0`);
+          return;
+        }
+        if (pending.length < 4 + length) return;
+        content.push(...pending.slice(4, 4 + length));
+        pending = pending.slice(4 + length);
+      }
+    });
+  }
+}
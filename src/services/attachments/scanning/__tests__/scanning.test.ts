@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import { ClamdScanner } from '../ClamdScanner';
+import { CompositeScanner } from '../CompositeScanner';
+import { HeuristicScanner } from '../HeuristicScanner';
+import { ScanError } from '../errors';
+import { EICAR, FakeClamd } from './FakeClamd';
+
+const bytes = (...values: number[]) => Uint8Array.from(values);
+const text = (value: string) => new TextEncoder().encode(value);
+const PDF = text('%PDF-1.7\n...');
+const PNG = bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+
+describe('ClamdScanner', () => {
+  let clamd: FakeClamd;
+  let scanner: ClamdScanner;
+
+  beforeEach(async () => {
+    clamd = new FakeClamd();
+    const port = await clamd.start();
+    // Small chunks so the multi-chunk framing is exercised
+    scanner = new ClamdScanner({ port, chunkSize: 16, timeoutMs: 2000 });
+  });
+
+  afterEach(async () => {
+    await clamd.stop();
+  });
+
+  it('should answer pings', async () => {
+    expect(await scanner.ping()).toBe(true);
+  });
+
+  it('should stream content in length-prefixed chunks', async () => {
+    const content = text('a perfectly ordinary document body that spans several chunks');
+
+    const verdict = await scanner.scan({ fileName: 'notes.txt', mimeType: 'text/plain', content });
+
+    expect(verdict).toEqual({ scanner: 'clamd', clean: true, threats: [] });
+    expect(clamd.received[0]).toEqual(content);
+  });
+
+  it('should report signatures found by the daemon', async () => {
+    const verdict = await scanner.scan({ fileName: 'eicar.txt', mimeType: 'text/plain', content: text(EICAR) });
+
+    expect(verdict.clean).toBe(false);
+    expect(verdict.threats).toEqual(['Eicar-Test-Signature']);
+  });
+
+  it('should reject daemon errors', async () => {
+    clamd.reply = 'INSTREAM size limit exceeded. ERROR';
+
+    await expect(
+      scanner.scan({ fileName: 'big.bin', mimeType: 'text/plain', content: text('x') })
+    ).rejects.toBeInstanceOf(ScanError);
+  });
+
+  it('should reject when the daemon is unreachable', async () => {
+    const unreachable = new ClamdScanner({ port: 1, timeoutMs: 500 });
+
+    await expect(unreachable.ping()).rejects.toThrow(/clamd/);
+  });
+
+  it('should keep the default port when only CLAMD_HOST is set', () => {
+    const fromEnv = ClamdScanner.fromEnv({ CLAMD_HOST: 'clamav.internal' });
+
+    expect(fromEnv!['options']).toMatchObject({ host: 'clamav.internal', port: 3310 });
+    expect(ClamdScanner.fromEnv({})).toBeNull();
+  });
+});
+
+describe('HeuristicScanner', () => {
+  const scanner = new HeuristicScanner();
+
+  it('should pass content that matches its declared type', async () => {
+    expect((await scanner.scan({ fileName: 'report.pdf', mimeType: 'application/pdf', content: PDF })).clean).toBe(true);
+    expect((await scanner.scan({ fileName: 'photo.png', mimeType: 'image/png', content: PNG })).clean).toBe(true);
+  });
+
+  it('should flag disguised executables', async () => {
+    const verdict = await scanner.scan({ fileName: 'photo.png', mimeType: 'image/png', content: bytes(0x4d, 0x5a, 0x90, 0x00) });
+
+    expect(verdict.threats).toContain('Heuristic.Executable');
+  });
+
+  it('should flag MIME and extension mismatches', async () => {
+    const verdict = await scanner.scan({ fileName: 'report.pdf', mimeType: 'image/png', content: PDF });
+
+    expect(verdict.threats).toEqual(['Heuristic.TypeMismatch', 'Heuristic.ExtensionMismatch']);
+  });
+
+  it('should flag macro-enabled Office documents', async () => {
+    const ooxml = new Uint8Array([...bytes(0x50, 0x4b, 0x03, 0x04), ...text('word/vbaProject.bin')]);
+    const ole2 = new Uint8Array([
+      ...bytes(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1),
+      ...Array.from('_VBA_PROJECT').flatMap(char => [char.charCodeAt(0), 0])
+    ]);
+    const docx = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+    expect((await scanner.scan({ fileName: 'a.docx', mimeType: docx, content: ooxml })).threats).toEqual(['Heuristic.MacroEnabledOffice']);
+    expect((await scanner.scan({ fileName: 'a.doc', mimeType: 'application/msword', content: ole2 })).threats).toEqual(['Heuristic.MacroEnabledOffice']);
+    expect((await scanner.scan({ fileName: 'a.docm', mimeType: docx, content: bytes(0x50, 0x4b, 0x03, 0x04) })).threats).toContain('Heuristic.MacroEnabledOffice');
+  });
+});
+
+describe('CompositeScanner', () => {
+  it('should merge verdicts and fail closed on scanner errors', async () => {
+    const broken = { name: 'broken', scan: jest.fn().mockRejectedValue(new Error('down')) };
+    const healthy = new CompositeScanner([new HeuristicScanner()]);
+
+    const report = await healthy.scan({ fileName: 'photo.png', mimeType: 'image/png', content: PDF });
+    expect(report.clean).toBe(false);
+    expect(report.scanner_info).toEqual({ scanners: ['heuristic'], flagged_by: ['heuristic'] });
+
+    await expect(
+      new CompositeScanner([new HeuristicScanner(), broken]).scan({ fileName: 'a.pdf', mimeType: 'application/pdf', content: PDF })
+    ).rejects.toBeInstanceOf(ScanError);
+  });
+});
@@ -0,0 +1,20 @@
+export class ScanError extends Error {
+  constructor(message: string, public readonly scanner: string) {
+    super(message);
+    this.name = 'ScanError';
+  }
+}
+
+export class AttachmentQuarantinedError extends Error {
+  constructor(attachmentId: string) {
+    super(`Attachment ${attachmentId} is quarantined`);
+    this.name = 'AttachmentQuarantinedError';
+  }
+}
+
+export class AttachmentNotScannedError extends Error {
+  constructor(attachmentId: string) {
+    super(`Attachment ${attachmentId} has not been scanned clean`);
+    this.name = 'AttachmentNotScannedError';
+  }
+}
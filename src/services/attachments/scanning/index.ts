@@ -0,0 +1,5 @@
+export * from './types';
+export * from './errors';
+export { ClamdScanner, type ClamdOptions } from './ClamdScanner';
+export { HeuristicScanner, detectFamily } from './HeuristicScanner';
+export { CompositeScanner } from './CompositeScanner';
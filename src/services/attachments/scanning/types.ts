@@ -0,0 +1,24 @@
+export interface ScanTarget {
+  fileName: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+export interface ScanVerdict {
+  scanner: string;
+  clean: boolean;
+  threats: string[];
+}
+
+export interface AttachmentScanner {
+  readonly name: string;
+  scan(target: ScanTarget): Promise<ScanVerdict>;
+}
+
+/** Shape stored in `attachments.virus_scan_result` */
+export interface ScanReport {
+  scanned_at: string;
+  clean: boolean;
+  threats?: string[];
+  scanner_info?: Record<string, unknown>;
+}
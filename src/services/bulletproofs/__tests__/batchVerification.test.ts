@@ -0,0 +1,150 @@
+import { BulletproofsRangeProof, RangeProof, RangeStatement, verifyRangeProofBatch } from '../rangeProof';
+import { BatchRangeProofVerifier } from '../batchVerifier';
+import { VerificationCache } from '../verificationCache';
+import { Point } from '../../zkProof';
+import { logger } from '../../../lib/logger';
+
+jest.mock('../../../lib/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+// Timings depend on the machine, so the benchmark only runs on request, e.g. BULLETPROOFS_BENCH_PROOFS=256
+const BENCH_PROOFS = Number(process.env.BULLETPROOFS_BENCH_PROOFS ?? 0);
+const describeBenchmark = BENCH_PROOFS > 0 ? describe : describe.skip;
+
+async function proveValues(bulletproofs: BulletproofsRangeProof, values: bigint[]): Promise<RangeStatement> {
+    const blindingFactors = values.map((_, i) => BigInt(1000 + i) * 7919n);
+    const proof = await bulletproofs.prove(values, blindingFactors);
+    return {
+        proof,
+        commitments: values.map((value, i) => bulletproofs.commit(value, blindingFactors[i])),
+        bitSize: bulletproofs.bitSize
+    };
+}
+
+const tamper = (proof: RangeProof): RangeProof => ({
+    ...proof,
+    T1: Point.BASE.multiply(789n).toHex()
+});
+
+describe('Bulletproofs batch verification', () => {
+    const bulletproofs8 = new BulletproofsRangeProof(8);
+    const bulletproofs32 = new BulletproofsRangeProof(32);
+    let statements: RangeStatement[];
+
+    beforeAll(async () => {
+        statements = [
+            await proveValues(bulletproofs8, [42n]),
+            await proveValues(bulletproofs32, [123456n]),
+            await proveValues(bulletproofs8, [0n, 255n, 17n]),
+            await proveValues(bulletproofs32, [7n, (1n << 32n) - 1n])
+        ];
+    });
+
+    describe('verifyRangeProofBatch', () => {
+        it('should accept a batch mixing bit sizes and aggregated proofs', () => {
+            expect(verifyRangeProofBatch(statements)).toBe(true);
+        });
+
+        it('should reject a batch containing one tampered proof', () => {
+            const batch = [...statements];
+            batch[2] = { ...batch[2], proof: tamper(batch[2].proof) };
+
+            expect(verifyRangeProofBatch(batch)).toBe(false);
+        });
+
+        it('should reject proofs checked against the wrong commitments or bit size', () => {
+            const [first, second] = statements;
+
+            expect(verifyRangeProofBatch([{ ...first, commitments: second.commitments }])).toBe(false);
+            expect(verifyRangeProofBatch([{ ...first, bitSize: 16 }])).toBe(false);
+            expect(verifyRangeProofBatch([{ ...statements[2], commitments: statements[2].commitments.slice(0, 2) }])).toBe(false);
+        });
+
+        it('should reject malformed proofs', () => {
+            const malformed = { ...statements[0], proof: { ...statements[0].proof, t: 'not-a-scalar' } };
+
+            expect(verifyRangeProofBatch([malformed])).toBe(false);
+            expect(logger.error).toHaveBeenCalledWith('Error in batch range proof verification', expect.any(Error));
+        });
+
+        it('should reject invalid bit sizes before building generators', () => {
+            for (const bitSize of [0, 12, 128, 1 << 30, 8.5]) {
+                expect(verifyRangeProofBatch([statements[1], { ...statements[0], bitSize }])).toBe(false);
+            }
+            expect(verifyRangeProofBatch([{ ...statements[0], commitments: [] }])).toBe(false);
+        });
+    });
+
+    describe('BatchRangeProofVerifier', () => {
+        it('should pinpoint invalid proofs in a failing batch', async () => {
+            const verifier = new BatchRangeProofVerifier({ maxBatchSize: 3 });
+            const batch = [...statements, statements[0]];
+            batch[1] = { ...batch[1], proof: tamper(batch[1].proof) };
+
+            expect(await verifier.verify(batch)).toEqual([true, false, true, true, true]);
+        });
+
+        it('should answer repeated proofs from the cache', async () => {
+            const verifier = new BatchRangeProofVerifier({ cache: new VerificationCache(100) });
+
+            await verifier.verify(statements);
+            expect(verifier.getCacheStats()).toMatchObject({ hits: 0, misses: 4, size: 4 });
+
+            expect(await verifier.verify(statements)).toEqual([true, true, true, true]);
+            expect(verifier.getCacheStats()).toMatchObject({ hits: 4, misses: 4, hitRate: 0.5 });
+
+            // Same proof, different commitment: a different cache key
+            const moved = { ...statements[0], commitments: statements[1].commitments };
+            expect(await verifier.verify([moved])).toEqual([false]);
+            expect(verifier.getCacheStats().misses).toBe(5);
+        });
+
+        it('should evict the least recently used results', () => {
+            const cache = new VerificationCache(2);
+            const [a, b, c] = statements.map(VerificationCache.key);
+
+            cache.set(a, true);
+            cache.set(b, true);
+            cache.get(a);
+            cache.set(c, false);
+
+            expect(cache.get(b)).toBeUndefined();
+            expect(cache.get(a)).toBe(true);
+            expect(cache.get(c)).toBe(false);
+        });
+    });
+
+    describeBenchmark('benchmark', () => {
+        it(`should report verification throughput for ${BENCH_PROOFS} proofs`, async () => {
+            const bench: RangeStatement[] = [];
+            for (let i = 0; i < BENCH_PROOFS; i++) {
+                bench.push(await proveValues(bulletproofs32, [BigInt(i * 1000 + 1)]));
+            }
+
+            const startIndividual = Date.now();
+            const individual = bench.map(statement => verifyRangeProofBatch([statement]));
+            const individualMs = Date.now() - startIndividual;
+
+            const verifier = new BatchRangeProofVerifier();
+            const startBatch = Date.now();
+            const batched = await verifier.verify(bench);
+            const batchMs = Date.now() - startBatch;
+
+            const startCached = Date.now();
+            await verifier.verify(bench);
+            const cachedMs = Date.now() - startCached;
+
+            const throughput = (ms: number) => (ms === 0 ? Infinity : Math.round((BENCH_PROOFS * 1000) / ms));
+            console.log(
+                `Bulletproofs verification of ${BENCH_PROOFS} 32-bit proofs: ` +
+                `individual ${individualMs}ms (${throughput(individualMs)}/s), ` +
+                `batched ${batchMs}ms (${throughput(batchMs)}/s), ` +
+                `cached ${cachedMs}ms (${throughput(cachedMs)}/s)`
+            );
+
+            expect(individual.every(Boolean)).toBe(true);
+            expect(batched.every(Boolean)).toBe(true);
+        }, 120000);
+    });
+});
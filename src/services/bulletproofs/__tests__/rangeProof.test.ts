@@ -1,6 +1,10 @@
 import { BulletproofsRangeProof } from '../rangeProof';
 import { Point } from '../../zkProof';
 
+jest.mock('../../../lib/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
 describe('BulletproofsRangeProof', () => {
     let bulletproofs: BulletproofsRangeProof;
 
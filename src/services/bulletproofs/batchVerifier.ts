@@ -0,0 +1,85 @@
+import { RangeStatement, verifyRangeProofBatch } from './rangeProof';
+import { VerificationCache, VerificationCacheStats } from './verificationCache';
+
+export interface BatchVerifierOptions {
+    maxBatchSize?: number;  // Proofs per multi-exponentiation
+    cache?: VerificationCache;
+}
+
+/**
+ * Verifies large sets of range proofs, e.g. a night's worth of metric
+ * proofs. Results come from the verification cache where possible; the
+ * rest are verified in batches, and a failing batch is bisected to find
+ * the invalid proofs rather than failing every proof in it.
+ */
+export class BatchRangeProofVerifier {
+    private readonly cache: VerificationCache;
+    private readonly maxBatchSize: number;
+
+    constructor(options: BatchVerifierOptions = {}) {
+        this.cache = options.cache ?? new VerificationCache();
+        this.maxBatchSize = options.maxBatchSize ?? 64;
+    }
+
+    /**
+     * Validity of each statement, in input order
+     */
+    public async verify(statements: RangeStatement[]): Promise<boolean[]> {
+        const results = new Array<boolean>(statements.length).fill(false);
+        // Identical statements are verified once
+        const pending = new Map<string, { statement: RangeStatement; indices: number[] }>();
+
+        statements.forEach((statement, index) => {
+            let key: string;
+            try {
+                key = VerificationCache.key(statement);
+            } catch (error) {
+                // Malformed proofs are invalid and not worth caching
+                return;
+            }
+
+            const cached = this.cache.get(key);
+            if (cached !== undefined) {
+                results[index] = cached;
+            } else if (pending.has(key)) {
+                pending.get(key)!.indices.push(index);
+            } else {
+                pending.set(key, { statement, indices: [index] });
+            }
+        });
+
+        const entries = [...pending.entries()];
+        for (let start = 0; start < entries.length; start += this.maxBatchSize) {
+            const batch = entries.slice(start, start + this.maxBatchSize);
+            const valid = this.bisect(batch.map(([, { statement }]) => statement));
+            batch.forEach(([key, { indices }], i) => {
+                this.cache.set(key, valid[i]);
+                indices.forEach(index => {
+                    results[index] = valid[i];
+                });
+            });
+            // Let other work run between batches
+            await new Promise(resolve => setImmediate(resolve));
+        }
+
+        return results;
+    }
+
+    public getCacheStats(): VerificationCacheStats {
+        return this.cache.getStats();
+    }
+
+    private bisect(statements: RangeStatement[]): boolean[] {
+        if (verifyRangeProofBatch(statements)) {
+            return statements.map(() => true);
+        }
+        if (statements.length === 1) {
+            return [false];
+        }
+        const middle = Math.ceil(statements.length / 2);
+        return [
+            ...this.bisect(statements.slice(0, middle)),
+            ...this.bisect(statements.slice(middle))
+        ];
+    }
+}
@@ -0,0 +1,42 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { Point } from '../zkProof';
+
+const DOMAIN = 'noble_secp256k1_bulletproofs_v1';
+
+/**
+ * Hashes a label onto the curve by try-and-increment, so nobody knows a
+ * discrete log relation between the generators. Deriving them as multiples
+ * of the base point would let a prover forge range proofs.
+ */
+function hashToCurve(label: string): Point {
+    for (let counter = 0; ; counter++) {
+        const x = bytesToHex(sha256(`${DOMAIN}/${label}/${counter}`));
+        try {
+            return Point.fromHex(`02${x}`);
+        } catch {
+            // x is not on the curve or not below the field prime; try the next counter
+        }
+    }
+}
+
+/** Base point for committed values; commitments are V = v*G + gamma*H */
+export const PEDERSEN_G = Point.BASE;
+
+/** Blinding generator for Pedersen commitments */
+export const PEDERSEN_H = hashToCurve('H');
+
+// Vector generators are shared by every bit size, so a batch can mix proofs
+// of different sizes and still share the generator terms
+const gVector: Point[] = [];
+const hVector: Point[] = [];
+
+/** The first `count` vector generators G_i and H_i */
+export function vectorGenerators(count: number): { G: Point[]; H: Point[] } {
+    while (gVector.length < count) {
+        const i = gVector.length;
+        gVector.push(hashToCurve(`G${i}`));
+        hVector.push(hashToCurve(`H${i}`));
+    }
+    return { G: gVector.slice(0, count), H: hVector.slice(0, count) };
+}
@@ -0,0 +1,88 @@
+import { Point } from '../zkProof';
+import { mod } from './scalar';
+
+const SCALAR_BITS = 256;
+
+/**
+ * Computes sum(scalars[i] * points[i]) with Pippenger's bucket method, so a
+ * verification equation over hundreds of points costs a fraction of
+ * evaluating each term separately. Variable time: the running time
+ * depends on the scalars.
+ */
+export function multiscalarMul(scalars: bigint[], points: Point[]): Point {
+    if (scalars.length !== points.length) {
+        throw new Error('Number of scalars must match number of points');
+    }
+
+    const terms: Array<{ scalar: bigint; point: Point }> = [];
+    scalars.forEach((scalar, i) => {
+        const reduced = mod(scalar);
+        if (reduced !== 0n) {
+            terms.push({ scalar: reduced, point: points[i] });
+        }
+    });
+
+    if (terms.length === 0) {
+        return Point.ZERO;
+    }
+    if (terms.length <= 4) {
+        return interleavedMul(terms);
+    }
+
+    const windowBits = Math.max(2, Math.floor(Math.log2(terms.length)) - 2);
+    const mask = (1n << BigInt(windowBits)) - 1n;
+    const windows = Math.ceil(SCALAR_BITS / windowBits);
+    let result: Point | null = null;
+
+    for (let w = windows - 1; w >= 0; w--) {
+        if (result) {
+            for (let i = 0; i < windowBits; i++) {
+                result = result.double();
+            }
+        }
+
+        const shift = BigInt(w * windowBits);
+        const buckets: Array<Point | null> = new Array(Number(mask) + 1).fill(null);
+        for (const { scalar, point } of terms) {
+            const digit = Number((scalar >> shift) & mask);
+            if (digit !== 0) {
+                const bucket = buckets[digit];
+                buckets[digit] = bucket ? bucket.add(point) : point;
+            }
+        }
+
+        // sum(j * buckets[j]) as a running sum from the top bucket down
+        let running: Point | null = null;
+        let windowSum: Point | null = null;
+        for (let j = buckets.length - 1; j > 0; j--) {
+            const bucket = buckets[j];
+            if (bucket) {
+                running = running ? running.add(bucket) : bucket;
+            }
+            if (running) {
+                windowSum = windowSum ? windowSum.add(running) : running;
+            }
+        }
+
+        if (windowSum) {
+            result = result ? result.add(windowSum) : windowSum;
+        }
+    }
+
+    return result ?? Point.ZERO;
+}
+
+/** Double-and-add sharing the doublings across a handful of terms */
+function interleavedMul(terms: Array<{ scalar: bigint; point: Point }>): Point {
+    const topBit = terms.reduce((max, { scalar }) => Math.max(max, scalar.toString(2).length), 0);
+    let result = Point.ZERO;
+    for (let bit = topBit - 1; bit >= 0; bit--) {
+        result = result.double();
+        for (const { scalar, point } of terms) {
+            if ((scalar >> BigInt(bit)) & 1n) {
+                result = result.add(point);
+            }
+        }
+    }
+    return result;
+}
@@ -1,873 +1,355 @@
-import * as secp256k1 from '@noble/secp256k1';
-import { sha256 } from '@noble/hashes/sha256';
-import { bytesToHex } from '@noble/hashes/utils';
+import { logger } from '../../lib/logger';
 import { Point } from '../zkProof';
+import { PEDERSEN_G, PEDERSEN_H, vectorGenerators } from './generators';
 import { InnerProductArgument, InnerProductProof } from './innerProduct';
-import { ZKRangeProofService } from './zkRangeProofService';
+import { multiscalarMul } from './multiexp';
+import { innerProduct, mod, modInverse, ORDER, powers, randomScalar } from './scalar';
+import { Transcript } from './transcript';
 
 export interface RangeProof {
     A: string;       // Commitment to aL and aR
     S: string;       // Commitment to sL and sR
     T1: string;      // Commitment to t1
     T2: string;      // Commitment to t2
-    taux: string;    // Blinding factor for inner product
+    t: string;       // Evaluation t(x) = <l(x), r(x)>
+    taux: string;    // Blinding factor for t(x)
     mu: string;      // Blinding factor for A and S
     innerProduct: InnerProductProof;
 }
 
-/**
- * Implementation of Bulletproofs range proof protocol
- */
-export class BulletproofsRangeProof {
-    private innerProduct: InnerProductArgument;
-    private n: number;  // Bit size of the range
-    private zkRangeProofService: ZKRangeProofService;
-    private generatorCache: Map<string, Point>;
-    private basePoint: Point;
-    private g: Point;
-    private h: Point;
-    private g_vec: Point[];
-    private h_vec: Point[];
-    private generatorsInitialized: boolean;
-
-    constructor(bitSize: number = 64, zkRangeProofService: ZKRangeProofService) {
-        // Ensure bitSize is a power of 2
-        if ((bitSize & (bitSize - 1)) !== 0) {
-            throw new Error('Bit size must be a power of 2');
-        }
-        this.n = bitSize;
-        this.innerProduct = new InnerProductArgument(2 * this.n);
-        this.zkRangeProofService = zkRangeProofService;
-        this.generatorCache = new Map();
-        this.basePoint = Point.fromPrivateKey(1n);
-        this.generatorsInitialized = false;
-    }
+/** A proof together with what it claims: each commitment opens to a value in [0, 2^bitSize) */
+export interface RangeStatement {
+    proof: RangeProof;
+    commitments: Point[];
+    bitSize: number;
+}
 
-    private initializeGenerators(): void {
-        try {
-            // Create a fixed-size buffer for the seed
-            const seedBuffer = new Uint8Array(32);
-            
-            // Generate deterministic seeds for each generator
-            const tempSeed = sha256('noble_secp256k1_bulletproofs_v1');
-            const seedData = new Uint8Array(Buffer.from(tempSeed, 'hex'));
-            seedBuffer.set(seedData.slice(0, 32));
-
-            // Initialize base generator G
-            const g = Point.BASE;
-            if (!this.validatePoint(g)) {
-                throw new Error('Failed to validate base generator G');
-            }
-            this.g = g;
+const nextPowerOfTwo = (value: number) => 1 << Math.ceil(Math.log2(Math.max(1, value)));
 
-            // Generate h using the seed
-            const scalar = this.normalizeScalar(seedBuffer);
-            const h = g.multiply(scalar);
-            if (!this.validatePoint(h)) {
-                throw new Error('Failed to validate generator H');
-            }
-            this.h = h;
-
-            // Generate vector generators
-            this.g_vec = [];
-            this.h_vec = [];
-            
-            for (let i = 0; i < this.n; i++) {
-                // Update seed for each generator
-                const g_seed = new Uint8Array(seedBuffer);
-                const h_seed = new Uint8Array(seedBuffer);
-                g_seed[0] = i;
-                h_seed[0] = i + 128; // Offset for h vector to ensure different seeds
-                
-                const g_scalar = this.normalizeScalar(g_seed);
-                const h_scalar = this.normalizeScalar(h_seed);
-                
-                const g_i = g.multiply(g_scalar);
-                const h_i = g.multiply(h_scalar);
-                
-                if (!this.validatePoint(g_i) || !this.validatePoint(h_i)) {
-                    throw new Error(`Failed to validate vector generators at index ${i}`);
-                }
-                
-                this.g_vec.push(g_i);
-                this.h_vec.push(h_i);
-            }
+/** Bit sizes are powers of two up to 64 */
+const isValidBitSize = (bitSize: number) =>
+    Number.isInteger(bitSize) && bitSize >= 1 && bitSize <= 64 && (bitSize & (bitSize - 1)) === 0;
 
-            // Verify all generators are initialized
-            if (!this.g || !this.h || this.g_vec.length !== this.n || this.h_vec.length !== this.n) {
-                throw new Error('Generator initialization incomplete');
-            }
+/**
+ * Starts the transcript shared by prover and verifier. Aggregated proofs
+ * pad the commitments to a power of two with commitments to zero, which
+ * are the identity and bound to the transcript by position only.
+ */
+function openTranscript(bitSize: number, commitments: Point[], padded: number): Transcript {
+    const transcript = new Transcript('rangeproof');
+    transcript.appendNumber('n', bitSize);
+    transcript.appendNumber('m', padded);
+    for (let j = 0; j < padded; j++) {
+        transcript.appendMessage('V', j < commitments.length ? commitments[j].toHex() : 'identity');
+    }
+    return transcript;
+}
 
-            this.generatorsInitialized = true;
-        } catch (error) {
-            console.error('Generator initialization failed:', error);
-            throw new Error(`Failed to initialize generators: ${error.message}`);
-        }
+/** delta(y, z) = (z - z^2) * <1, y^nm> - sum_j z^(j+3) * <1, 2^n> */
+function delta(bitSize: number, padded: number, y: bigint, z: bigint): bigint {
+    const sumY = powers(y, bitSize * padded).reduce((sum, yi) => mod(sum + yi), 0n);
+    const sumTwo = (1n << BigInt(bitSize)) - 1n;
+    const zPowers = powers(z, padded + 3);
+    let result = mod((z - z * z) * sumY);
+    for (let j = 0; j < padded; j++) {
+        result = mod(result - zPowers[j + 3] * sumTwo);
     }
+    return result;
+}
 
-    private normalizeScalar(bytes: Uint8Array): bigint {
-        const scalar = bytesToNumberBE(bytes) % secp256k1.CURVE.n;
-        if (scalar === BigInt(0)) {
-            throw new Error('Invalid scalar: zero');
-        }
-        return scalar;
+const parseScalar = (value: string): bigint => {
+    const scalar = BigInt(value);
+    if (scalar < 0n || scalar >= ORDER) {
+        throw new Error('Scalar is not canonical');
     }
+    return scalar;
+};
 
-    private validateScalar(scalar: bigint): bigint {
-        if (typeof scalar !== 'bigint') {
-            throw new Error('Input must be BigInt');
-        }
-        // Ensure positive and within valid range
-        const modulus = secp256k1.CURVE.n;
-        let validScalar = scalar % modulus;
-        if (validScalar < 0n) {
-            validScalar += modulus;
-        }
-        return validScalar;
+/**
+ * Verifies any number of range proofs with one multi-exponentiation. Each
+ * proof's verification equation is folded into a single point equation,
+ * the equations are weighted by random scalars and summed, so terms on the
+ * shared generators collapse into one scalar per generator. A batch with
+ * an invalid proof passes only with negligible probability.
+ */
+export function verifyRangeProofBatch(statements: RangeStatement[]): boolean {
+    if (statements.length === 0) {
+        return true;
     }
 
-    private validatePoint(point: Point): boolean {
-        try {
-            // Check if point is an instance of Point
-            if (!(point instanceof Point)) {
-                throw new Error('Invalid point: not a Point instance');
+    try {
+        // Checked before the generators are built, which a bogus bit size could make arbitrarily large
+        statements.forEach(({ bitSize, commitments }) => {
+            if (!isValidBitSize(bitSize)) {
+                throw new Error('Bit size must be a power of 2');
             }
-
-            // Check if point coordinates are valid field elements
-            const { x, y } = point.toAffine();
-            if (!this.isValidFieldElement(x) || !this.isValidFieldElement(y)) {
-                throw new Error('Invalid point: coordinates not in valid field range');
-            }
-
-            // Verify point is on the curve: y^2 = x^3 + 7 (secp256k1 curve equation)
-            const p = secp256k1.CURVE.p;
-            const ySquared = (y * y) % p;
-            const xCubed = (x * x * x) % p;
-            const seven = BigInt(7);
-            if (ySquared !== (xCubed + seven) % p) {
-                throw new Error('Invalid point: not on the curve');
+            if (commitments.length === 0) {
+                throw new Error('No commitments to verify');
             }
+        });
 
-            // Verify point order (cofactor check)
-            const n = secp256k1.CURVE.n;
-            const multiplied = point.multiply(n);
-            if (!multiplied.equals(Point.ZERO)) {
-                throw new Error('Invalid point: not in the main subgroup');
+        const sizes = statements.map(({ bitSize, commitments }) => bitSize * nextPowerOfTwo(commitments.length));
+        const generators = vectorGenerators(Math.max(...sizes));
+        const gScalars = new Array<bigint>(generators.G.length).fill(0n);
+        const hScalars = new Array<bigint>(generators.H.length).fill(0n);
+        let pedersenGScalar = 0n;
+        let pedersenHScalar = 0n;
+        const scalars: bigint[] = [];
+        const points: Point[] = [];
+        const innerProductArgument = new InnerProductArgument();
+
+        statements.forEach(({ proof, commitments, bitSize }, index) => {
+            const padded = nextPowerOfTwo(commitments.length);
+            const size = sizes[index];
+
+            const A = Point.fromHex(proof.A);
+            const S = Point.fromHex(proof.S);
+            const T1 = Point.fromHex(proof.T1);
+            const T2 = Point.fromHex(proof.T2);
+            const t = parseScalar(proof.t);
+            const taux = parseScalar(proof.taux);
+            const mu = parseScalar(proof.mu);
+            const a = parseScalar(proof.innerProduct.a);
+            const b = parseScalar(proof.innerProduct.b);
+            const L = proof.innerProduct.L.map(L_i => Point.fromHex(L_i));
+            const R = proof.innerProduct.R.map(R_i => Point.fromHex(R_i));
+
+            const transcript = openTranscript(bitSize, commitments, padded);
+            transcript.appendPoint('A', A);
+            transcript.appendPoint('S', S);
+            const y = transcript.challenge('y');
+            const z = transcript.challenge('z');
+            transcript.appendPoint('T1', T1);
+            transcript.appendPoint('T2', T2);
+            const x = transcript.challenge('x');
+            transcript.appendScalar('t', t);
+            transcript.appendScalar('taux', taux);
+            transcript.appendScalar('mu', mu);
+            const w = transcript.challenge('w');
+            const { challengesSquared, challengesInverseSquared, s } =
+                innerProductArgument.verificationScalars(proof.innerProduct, size, transcript);
+
+            // c combines the polynomial and inner product checks; weight
+            // keeps this proof's equation independent of the others
+            const c = randomScalar();
+            const weight = index === 0 ? 1n : randomScalar();
+            const zz = mod(z * z);
+            const zPowers = powers(z, padded);
+            const yInverse = powers(modInverse(y), size);
+            const twoPowers = powers(2n, bitSize);
+
+            for (let i = 0; i < size; i++) {
+                const g = mod(-z - a * s[i]);
+                const zAndTwo = mod(zz * zPowers[Math.floor(i / bitSize)] * twoPowers[i % bitSize]);
+                const h = mod(z + yInverse[i] * (zAndTwo - b * s[size - 1 - i]));
+                gScalars[i] = mod(gScalars[i] + weight * g);
+                hScalars[i] = mod(hScalars[i] + weight * h);
             }
+            pedersenGScalar = mod(pedersenGScalar + weight * (w * (t - a * b) + c * (delta(bitSize, padded, y, z) - t)));
+            pedersenHScalar = mod(pedersenHScalar + weight * (-mu - c * taux));
+
+            scalars.push(weight, mod(weight * x), mod(weight * c * x), mod(weight * c * x * x));
+            points.push(A, S, T1, T2);
+            challengesSquared.forEach((u, k) => {
+                scalars.push(mod(weight * u));
+                points.push(L[k]);
+            });
+            challengesInverseSquared.forEach((u, k) => {
+                scalars.push(mod(weight * u));
+                points.push(R[k]);
+            });
+            commitments.forEach((V, j) => {
+                scalars.push(mod(weight * c * zz * zPowers[j]));
+                points.push(V);
+            });
+        });
 
-            return true;
-        } catch (error) {
-            console.error('Point validation failed:', error);
-            return false;
-        }
-    }
-
-    private isValidFieldElement(value: bigint): boolean {
-        return value >= BigInt(0) && value < secp256k1.CURVE.p;
+        const check = multiscalarMul(
+            [...scalars, pedersenGScalar, pedersenHScalar, ...gScalars, ...hScalars],
+            [...points, PEDERSEN_G, PEDERSEN_H, ...generators.G, ...generators.H]
+        );
+        return check.equals(Point.ZERO);
+    } catch (error) {
+        logger.error('Error in batch range proof verification', error instanceof Error ? error : undefined);
+        return false;
     }
+}
 
-    private getGenerator(index: number): Point {
-        if (!this.generatorsInitialized) {
-            this.initializeGenerators();
-        }
-
-        if (index < 0) {
-            throw new Error('Invalid generator index: negative value');
-        }
-
-        if (index === 0) {
-            return this.g;
-        }
+/**
+ * Implementation of Bulletproofs range proof protocol. Several values can
+ * be proven in one aggregated proof whose size grows logarithmically.
+ */
+export class BulletproofsRangeProof {
+    private innerProduct: InnerProductArgument;
+    private n: number;  // Bit size of the range
 
-        const vectorIndex = index - 1;
-        if (vectorIndex < this.n) {
-            return this.g_vec[vectorIndex];
-        } else if (vectorIndex < 2 * this.n) {
-            return this.h_vec[vectorIndex - this.n];
+    constructor(bitSize: number = 64) {
+        if (!isValidBitSize(bitSize)) {
+            throw new Error('Bit size must be a power of 2');
         }
+        this.n = bitSize;
+        this.innerProduct = new InnerProductArgument();
+    }
 
-        throw new Error(`Invalid generator index: ${index} exceeds maximum value ${2 * this.n}`);
+    public get bitSize(): number {
+        return this.n;
     }
 
     private getBlindingGenerator(): Point {
-        return this.getGenerator(2 * this.n); // Use last generator for blinding
+        return PEDERSEN_H;
+    }
+
+    /**
+     * Pedersen commitment v*G + gamma*H that proofs from `prove` are verified against
+     */
+    public commit(value: bigint, blindingFactor: bigint): Point {
+        return PEDERSEN_G.multiply(value).add(this.getBlindingGenerator().multiply(blindingFactor));
     }
 
     /**
-     * Generate a range proof for a value v in [0, 2^n)
+     * Generate a range proof that each value v is in [0, 2^n)
      */
     public async prove(
         values: bigint | bigint[],
         blindingFactors: bigint | bigint[]
     ): Promise<RangeProof> {
-        try {
-            // Convert single values to arrays
-            const valueArray = Array.isArray(values) ? values : [values];
-            const blindingArray = Array.isArray(blindingFactors) ? blindingFactors : [blindingFactors];
-
-            if (valueArray.length !== blindingArray.length) {
-                throw new Error('Number of values must match number of blinding factors');
-            }
-
-            // Validate all values are in range
-            valueArray.forEach(value => {
-                if (typeof value !== 'bigint') {
-                    throw new Error('Values must be BigInt');
-                }
-                if (value < 0n || value >= (1n << BigInt(this.n))) {
-                    throw new Error('Value out of range');
-                }
-            });
+        // Convert single values to arrays
+        const valueArray = Array.isArray(values) ? values : [values];
+        const blindingArray = Array.isArray(blindingFactors) ? blindingFactors : [blindingFactors];
 
-            // Generate vector commitments
-            const { A, S, commitments } = await this.generateVectorCommitments(
-                valueArray,
-                blindingArray
-            );
-
-            // Generate polynomial commitments
-            const { T1, T2, taux, mu } = await this.generatePolyCommitments(
-                valueArray,
-                blindingArray
-            );
-
-            // Generate inner product proof
-            const innerProduct = await this.generateInnerProductProof(
-                valueArray,
-                blindingArray,
-                A,
-                S,
-                T1,
-                T2
-            );
-
-            return {
-                A: A.toHex(),
-                S: S.toHex(),
-                T1: T1.toHex(),
-                T2: T2.toHex(),
-                taux: taux.toString(),
-                mu: mu.toString(),
-                innerProduct
-            };
-        } catch (error) {
-            console.error('Error generating range proof:', error);
-            throw error;
+        if (valueArray.length === 0) {
+            throw new Error('No values to prove');
         }
-    }
-
-    private calculateBitSize(max: bigint): number {
-        return Math.ceil(Math.log2(Number(max) + 1));
-    }
-
-    private valueToVectors(value: bigint, bitSize: number = this.n): {
-        aL: bigint[];
-        aR: bigint[];
-    } {
-        const aL: bigint[] = [];
-        const aR: bigint[] = [];
-        const modulus = 1n << 252n; // Curve order for secp256k1
-
-        // Convert value to binary representation
-        for (let i = 0; i < bitSize; i++) {
-            const bit = (value >> BigInt(i)) & 1n;
-            aL.push(bit);
-            // Ensure aR values are valid scalars modulo the curve order
-            const complement = (bit === 0n) ? 0n : (modulus - 1n);
-            aR.push(complement);
-        }
-
-        // Pad with zeros if needed
-        while (aL.length < this.n) {
-            aL.push(0n);
-            aR.push(0n);
+        if (valueArray.length !== blindingArray.length) {
+            throw new Error('Number of values must match number of blinding factors');
         }
 
-        return { aL, aR };
-    }
-
-    private async computeVectorCommitment(
-        { aL, aR }: { aL: bigint[]; aR: bigint[] },
-        alpha: bigint,
-        bitSize: number = this.n
-    ): Promise<Point> {
-        try {
-            if (aL.length !== this.n || aR.length !== this.n) {
-                throw new Error('Invalid vector length');
-            }
-
-            const modulus = 1n << 252n; // Curve order for secp256k1
-            let commitment = Point.ZERO;
-            
-            // Add left vector commitments
-            for (let i = 0; i < bitSize; i++) {
-                const leftGen = this.getGenerator(i);
-                if (!leftGen || !leftGen.multiply) {
-                    throw new Error('Invalid generator');
-                }
-                const scalar = aL[i] % modulus;
-                if (scalar !== 0n) {
-                    commitment = commitment.add(leftGen.multiply(scalar));
-                }
-            }
-            
-            // Add right vector commitments
-            for (let i = 0; i < bitSize; i++) {
-                const rightGen = this.getGenerator(i + this.n);
-                if (!rightGen || !rightGen.multiply) {
-                    throw new Error('Invalid generator');
-                }
-                const scalar = aR[i] % modulus;
-                if (scalar !== 0n) {
-                    commitment = commitment.add(rightGen.multiply(scalar));
-                }
-            }
-            
-            // Add blinding factor
-            const blindingGen = this.getBlindingGenerator();
-            if (!blindingGen || !blindingGen.multiply) {
-                throw new Error('Invalid blinding generator');
+        // Validate all values are in range
+        valueArray.forEach(value => {
+            if (typeof value !== 'bigint') {
+                throw new Error('Values must be BigInt');
             }
-            const blindingScalar = alpha % modulus;
-            return commitment.add(blindingGen.multiply(blindingScalar));
-        } catch (error) {
-            console.error('Error in vector commitment:', error);
-            throw new Error('Failed to compute vector commitment');
-        }
-    }
-
-    private async generateVectorCommitments(
-        values: bigint[],
-        blindingFactors: bigint[],
-        maxBitSize: number = this.n
-    ): Promise<{
-        A: Point;
-        S: Point;
-        commitments: Point[];
-    }> {
-        try {
-            // Validate inputs
-            if (!Array.isArray(values) || !Array.isArray(blindingFactors)) {
-                throw new Error('Values and blinding factors must be arrays');
+            if (value < 0n) {
+                throw new Error('Value must be non-negative');
             }
-            
-            if (values.length !== blindingFactors.length) {
-                throw new Error('Number of values must match number of blinding factors');
+            if (value >= (1n << BigInt(this.n))) {
+                throw new Error('Value is too large for the given bit size');
             }
+        });
 
-            // Validate and normalize all inputs first
-            const normalizedValues = values.map(v => this.validateScalar(v));
-            const normalizedBlinds = blindingFactors.map(b => this.validateScalar(b));
-
-            const commitments = await Promise.all(
-                normalizedValues.map(async (value, i) => {
-                    const bitSize = this.calculateBitSize(value);
-                    const vectors = this.valueToVectors(value, bitSize);
-                    const alpha = this.generateRandomScalar();
-                    const commitment = await this.computeVectorCommitment(vectors, alpha, bitSize);
-                    if (!commitment.isValid()) {
-                        throw new Error('Generated invalid commitment');
-                    }
-                    return commitment;
-                })
-            );
-
-            if (!commitments.length) {
-                throw new Error('No commitments generated');
+        const n = this.n;
+        const padded = nextPowerOfTwo(valueArray.length);
+        const size = n * padded;
+        const generators = vectorGenerators(size);
+        const commitments = valueArray.map((value, j) => this.commit(value, blindingArray[j]));
+        const gammas = Array.from({ length: padded }, (_, j) => (j < blindingArray.length ? mod(blindingArray[j]) : 0n));
+        const transcript = openTranscript(n, commitments, padded);
+
+        // aL holds the bits of every value, aR = aL - 1
+        const aL = new Array<bigint>(size).fill(0n);
+        valueArray.forEach((value, j) => {
+            for (let i = 0; i < n; i++) {
+                aL[j * n + i] = (value >> BigInt(i)) & 1n;
             }
+        });
+        const aR = aL.map(bit => mod(bit - 1n));
+
+        const alpha = randomScalar();
+        const A = multiscalarMul([alpha, ...aL, ...aR], [PEDERSEN_H, ...generators.G, ...generators.H]);
+        const sL = Array.from({ length: size }, randomScalar);
+        const sR = Array.from({ length: size }, randomScalar);
+        const rho = randomScalar();
+        const S = multiscalarMul([rho, ...sL, ...sR], [PEDERSEN_H, ...generators.G, ...generators.H]);
+
+        transcript.appendPoint('A', A);
+        transcript.appendPoint('S', S);
+        const y = transcript.challenge('y');
+        const z = transcript.challenge('z');
+
+        // l(X) = aL - z + sL*X
+        // r(X) = y^nm o (aR + z + sR*X) + z^(2+j) * 2^i for bit i of value j
+        const yPowers = powers(y, size);
+        const zPowers = powers(z, padded + 2);
+        const twoPowers = powers(2n, n);
+        const l0 = aL.map(bit => mod(bit - z));
+        const l1 = sL;
+        const r0 = aR.map((bit, i) =>
+            mod(yPowers[i] * (bit + z) + zPowers[2 + Math.floor(i / n)] * twoPowers[i % n])
+        );
+        const r1 = sR.map((s, i) => mod(yPowers[i] * s));
+
+        // t(X) = <l(X), r(X)> = t0 + t1*X + t2*X^2
+        const t1 = mod(innerProduct(l0, r1) + innerProduct(l1, r0));
+        const t2 = innerProduct(l1, r1);
+        const tau1 = randomScalar();
+        const tau2 = randomScalar();
+        const T1 = multiscalarMul([t1, tau1], [PEDERSEN_G, PEDERSEN_H]);
+        const T2 = multiscalarMul([t2, tau2], [PEDERSEN_G, PEDERSEN_H]);
+
+        transcript.appendPoint('T1', T1);
+        transcript.appendPoint('T2', T2);
+        const x = transcript.challenge('x');
+
+        const taux = mod(
+            tau2 * x * x + tau1 * x + gammas.reduce((sum, gamma, j) => sum + zPowers[2 + j] * gamma, 0n)
+        );
+        const mu = mod(alpha + rho * x);
+        const l = l0.map((li, i) => mod(li + l1[i] * x));
+        const r = r0.map((ri, i) => mod(ri + r1[i] * x));
+        const t = innerProduct(l, r);
+
+        transcript.appendScalar('t', t);
+        transcript.appendScalar('taux', taux);
+        transcript.appendScalar('mu', mu);
+        const w = transcript.challenge('w');
+
+        // r is expressed over H'_i = y^-i * H_i, which turns y^nm o aR back into aR
+        const innerProductProof = this.innerProduct.prove(
+            transcript,
+            PEDERSEN_G.multiply(w),
+            generators,
+            powers(modInverse(y), size),
+            { a: l, b: r }
+        );
 
-            const A = this.aggregatePoints(commitments);
-            const S = this.aggregatePoints(commitments.map(c => c));
-
-            // Validate final points
-            this.validatePoint(A);
-            this.validatePoint(S);
-
-            return { A, S, commitments };
-        } catch (error) {
-            console.error('Error generating vector commitments:', error);
-            throw new Error(`Failed to generate vector commitments: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-    }
-
-    private aggregatePoints(points: Point[]): Point {
-        if (!points.length) return Point.ZERO;
-        return points.reduce((sum, point) => {
-            if (!point || !point.add) {
-                throw new Error('Invalid point in aggregation');
-            }
-            return sum.add(point);
-        }, Point.ZERO);
+        return {
+            A: A.toHex(),
+            S: S.toHex(),
+            T1: T1.toHex(),
+            T2: T2.toHex(),
+            t: t.toString(),
+            taux: taux.toString(),
+            mu: mu.toString(),
+            innerProduct: innerProductProof
+        };
     }
 
     /**
      * Verify a range proof for one or more values
      */
     public async verify(proof: RangeProof, commitments: Point | Point[]): Promise<boolean> {
-        try {
-            // Handle both single and batch verification
-            const commitmentArray = Array.isArray(commitments) ? commitments : [commitments];
-            
-            // Validate proof structure
-            if (!this.validateProofStructure(proof)) {
-                return false;
-            }
+        return this.verifyBatch([{ proof, commitments }]);
+    }
 
-            // Convert hex strings to points with validation
-            const points = {
-                A: Point.fromHex(proof.A),
-                S: Point.fromHex(proof.S),
-                T1: Point.fromHex(proof.T1),
-                T2: Point.fromHex(proof.T2)
-            };
-
-            // Batch verify commitments
-            const isValid = await Promise.all(
-                commitmentArray.map(commitment => 
-                    this.verifyCommitment(commitment, points, proof)
-                )
-            );
-
-            return isValid.every(result => result === true);
-        } catch (error) {
-            console.error('Error in range proof verification:', error);
+    /**
+     * Verify many range proofs at once; true only if every proof is valid
+     */
+    public async verifyBatch(items: Array<{ proof: RangeProof; commitments: Point | Point[] }>): Promise<boolean> {
+        if (!items.every(({ proof }) => this.validateProofStructure(proof))) {
             return false;
         }
+        return verifyRangeProofBatch(items.map(({ proof, commitments }) => ({
+            proof,
+            commitments: Array.isArray(commitments) ? commitments : [commitments],
+            bitSize: this.n
+        })));
     }
 
     private validateProofStructure(proof: RangeProof): boolean {
         return !!(
-            proof.A && proof.S && proof.T1 && proof.T2 &&
-            proof.taux && proof.mu && proof.innerProduct
+            proof && proof.A && proof.S && proof.T1 && proof.T2 &&
+            proof.t && proof.taux && proof.mu && proof.innerProduct &&
+            Array.isArray(proof.innerProduct.L) && Array.isArray(proof.innerProduct.R)
         );
     }
-
-    private async verifyCommitment(
-        commitment: Point,
-        points: { A: Point; S: Point; T1: Point; T2: Point },
-        proof: RangeProof
-    ): Promise<boolean> {
-        try {
-            // Verify the commitment matches the proof
-            const verified = await this.innerProduct.verify(
-                commitment,
-                points,
-                BigInt(proof.taux),
-                BigInt(proof.mu),
-                proof.innerProduct
-            );
-
-            return verified;
-        } catch (error) {
-            console.error('Error verifying commitment:', error);
-            return false;
-        }
-    }
-
-    private convertToBits(value: bigint): bigint[] {
-        try {
-            if (value < 0n) {
-                throw new Error('Value must be non-negative');
-            }
-
-            // Initialize array with zeros
-            const bits = new Array(this.n).fill(0n);
-            
-            // Convert to binary and fill array from right to left
-            let tempValue = value;
-            for (let i = this.n - 1; i >= 0; i--) {
-                bits[i] = tempValue & 1n;
-                tempValue = tempValue >> 1n;
-            }
-
-            // Check if value was too large (remaining bits are non-zero)
-            if (tempValue > 0n) {
-                throw new Error('Value is too large for the given bit size');
-            }
-
-            return bits;
-        } catch (error) {
-            console.error('Error converting value to bits:', error);
-            throw new Error('Failed to convert value to bits');
-        }
-    }
-
-    private generateRandomVector(length: number): bigint[] {
-        try {
-            return Array(length).fill(0).map(() => {
-                const scalar = this.generateRandomScalar();
-                return (scalar % secp256k1.CURVE.n + secp256k1.CURVE.n) % secp256k1.CURVE.n;
-            });
-        } catch (error) {
-            console.error('Error generating random vector:', error);
-            throw new Error('Failed to generate random vector');
-        }
-    }
-
-    private generateRandomScalar(): bigint {
-        const modulus = 1n << 252n; // Curve order for secp256k1
-        const bytes = new Uint8Array(32);
-        crypto.getRandomValues(bytes);
-        let scalar = 0n;
-        for (let i = 0; i < bytes.length; i++) {
-            scalar = (scalar << 8n) | BigInt(bytes[i]);
-        }
-        return scalar % modulus;
-    }
-
-    private generateChallenge(...points: Point[]): bigint {
-        const data = points.map(p => p.toHex()).join('');
-        const hash = sha256(Buffer.from(data, 'hex'));
-        return BigInt('0x' + bytesToHex(hash)) % secp256k1.CURVE.n;
-    }
-
-    private computePolynomials(aL: bigint[], aR: bigint[], sL: bigint[], sR: bigint[], alpha: bigint, z: bigint): { t0: bigint, t1: bigint, t2: bigint } {
-        try {
-            // Compute powers of y
-            const yn = new Array(this.n).fill(0n).map((_, i) => this.modPow(z, BigInt(i + 1)));
-
-            // Compute l(X) = aL - z*1^n + sL*X
-            const l0 = aL.map((a, i) => (a - z) % secp256k1.CURVE.n);
-            const l1 = sL;
-
-            // Compute r(X) = y^n ○ (aR + z*1^n + sR*X) + z^2*2^n
-            const r0 = aR.map((a, i) => (a + z) % secp256k1.CURVE.n);
-            const r1 = sR;
-
-            // Compute t(X) = <l(X), r(X)>
-            const t0 = this.innerProduct(l0, r0);
-            const t1 = (this.innerProduct(l0, r1) + this.innerProduct(l1, r0)) % secp256k1.CURVE.n;
-            const t2 = this.innerProduct(l1, r1);
-
-            return { t0, t1, t2 };
-        } catch (error) {
-            throw new Error(`Error computing polynomials: ${error.message}`);
-        }
-    }
-
-    private innerProduct(a: bigint[], b: bigint[]): bigint {
-        if (a.length !== b.length) {
-            throw new Error('Vectors must have the same length');
-        }
-        return a.reduce((sum, ai, i) => (sum + ai * b[i]) % secp256k1.CURVE.n, 0n);
-    }
-
-    private modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
-        if (modulus === 1n) return 0n;
-        let result = 1n;
-        base = base % modulus;
-        while (exponent > 0n) {
-            if (exponent & 1n) {
-                result = (result * base) % modulus;
-            }
-            base = (base * base) % modulus;
-            exponent = exponent >> 1n;
-        }
-        return result;
-    }
-
-    private computeT1(aL: bigint[], aR: bigint[], sL: bigint[], sR: bigint[], y: bigint, z: bigint): bigint {
-        try {
-            let result = BigInt(0);
-            
-            for (let i = 0; i < this.n; i++) {
-                // Validate and normalize input scalars
-                const validAL = aL[i] % secp256k1.CURVE.n;
-                const validAR = aR[i] % secp256k1.CURVE.n;
-                const validSL = sL[i] % secp256k1.CURVE.n;
-                const validSR = sR[i] % secp256k1.CURVE.n;
-                const validY = y % secp256k1.CURVE.n;
-                const validZ = z % secp256k1.CURVE.n;
-                
-                // Compute terms with validated scalars
-                const term1 = (validAL * validSR) % secp256k1.CURVE.n;
-                const term2 = (validAR * validSL) % secp256k1.CURVE.n;
-                const term3 = (validY * validSL * validSR) % secp256k1.CURVE.n;
-                
-                // Add terms to result with modular arithmetic
-                result = (result + term1 + term2 + term3) % secp256k1.CURVE.n;
-            }
-            
-            return result;
-        } catch (error) {
-            console.error('Error computing T1:', error);
-            throw new Error('Failed to compute T1');
-        }
-    }
-
-    private computeT2(sL: bigint[], sR: bigint[], y: bigint): bigint {
-        try {
-            let result = BigInt(0);
-            
-            for (let i = 0; i < this.n; i++) {
-                // Validate and normalize input scalars
-                const validSL = sL[i] % secp256k1.CURVE.n;
-                const validSR = sR[i] % secp256k1.CURVE.n;
-                const validY = y % secp256k1.CURVE.n;
-                
-                // Compute term with validated scalars
-                const term = (validSL * validSR * validY) % secp256k1.CURVE.n;
-                
-                // Add term to result with modular arithmetic
-                result = (result + term) % secp256k1.CURVE.n;
-            }
-            
-            return result;
-        } catch (error) {
-            console.error('Error computing T2:', error);
-            throw new Error('Failed to compute T2');
-        }
-    }
-
-    private computeTaux(
-        tau1: bigint,
-        tau2: bigint,
-        x: bigint,
-        z: bigint,
-        alpha: bigint
-    ): bigint {
-        return (tau2 * x * x + tau1 * x + z * z * alpha) % secp256k1.CURVE.n;
-    }
-
-    private computeInnerProductVectors(
-        aL: bigint[],
-        aR: bigint[],
-        sL: bigint[],
-        sR: bigint[],
-        y: bigint,
-        z: bigint,
-        x: bigint
-    ): { l: bigint[]; r: bigint[] } {
-        const l = aL.map((a, i) => (a - z + sL[i] * x) % secp256k1.CURVE.n);
-        const r = aR.map((a, i) => {
-            const yi = this.modPow(y, BigInt(i), secp256k1.CURVE.n);
-            return (yi * (a + z + sR[i] * x) + z * z * (1n << BigInt(i))) % secp256k1.CURVE.n;
-        });
-        return { l, r };
-    }
-
-    private computeVerificationVectors(
-        y: bigint,
-        z: bigint,
-        x: bigint,
-        numValues: number
-    ): { l: bigint[]; r: bigint[] } {
-        try {
-            const l = new Array(this.n * numValues).fill(0n);
-            const r = new Array(this.n * numValues).fill(0n);
-
-            for (let i = 0; i < this.n * numValues; i++) {
-                // Compute powers of y for the current position
-                const yi = this.modPow(y, BigInt(i + 1));
-
-                // Left vector: -z + x*sL
-                l[i] = (0n - z) % secp256k1.CURVE.n;
-
-                // Right vector: yi * (z + x*sR) + z^2 * 2^i
-                const powerOfTwo = (1n << BigInt(i % this.n));
-                r[i] = (yi * z + z * z * powerOfTwo) % secp256k1.CURVE.n;
-            }
-
-            return { l, r };
-        } catch (error) {
-            console.error('Error computing verification vectors:', error);
-            throw new Error('Failed to compute verification vectors');
-        }
-    }
-
-    private computeTCommitment(
-        V: Point,
-        T1: Point,
-        T2: Point,
-        x: bigint,
-        z: bigint,
-        taux: bigint
-    ): boolean {
-        const lhs = V.multiply(z * z)
-            .add(T1.multiply(x))
-            .add(T2.multiply(x * x));
-        
-        const rhs = this.commitToScalar(taux, 0n);
-        return lhs.toHex() === rhs.toHex();
-    }
-
-    private commitToScalar(value: bigint, blinding: bigint): Point {
-        return Point.BASE.multiply(value)
-            .add(this.getBlindingGenerator().multiply(blinding));
-    }
-
-    private computeAggregatedTCommitment(
-        commitments: Point[],
-        T1: Point,
-        T2: Point,
-        x: bigint,
-        z: bigint,
-        taux: bigint
-    ): boolean {
-        try {
-            // Compute z^2 * V + delta(y,z) * G + T1*x + T2*x^2
-            let commitment = Point.ZERO;
-
-            // Add z^2 * V for each commitment
-            for (let i = 0; i < commitments.length; i++) {
-                commitment = commitment.add(commitments[i].multiply(z * z));
-            }
-
-            // Add T1*x + T2*x^2
-            commitment = commitment
-                .add(T1.multiply(x))
-                .add(T2.multiply(x * x));
-
-            // Add blinding factor
-            const blindingGen = this.getBlindingGenerator();
-            const tCommitment = blindingGen.multiply(taux);
-
-            // Check if commitments match
-            return commitment.equals(tCommitment);
-        } catch (error) {
-            console.error('Error in aggregated T commitment:', error);
-            return false;
-        }
-    }
-
-    private computeInnerProduct(a: bigint[], b: bigint[]): bigint {
-        if (a.length !== b.length) {
-            throw new Error('Vectors must have the same length');
-        }
-
-        try {
-            return a.reduce((sum, ai, i) => {
-                const product = (ai * b[i]) % secp256k1.CURVE.n;
-                return (sum + product) % secp256k1.CURVE.n;
-            }, 0n);
-        } catch (error) {
-            console.error('Error computing inner product:', error);
-            throw new Error('Failed to compute inner product');
-        }
-    }
-
-    private createCommitment(value: bigint, blindingFactor: bigint): Point {
-        try {
-            // Ensure value and blinding factor are within the valid range
-            const validValue = value % secp256k1.CURVE.n;
-            const validBlinding = blindingFactor % secp256k1.CURVE.n;
-
-            // Validate scalars are positive
-            if (validValue < BigInt(0) || validBlinding < BigInt(0)) {
-                throw new Error('Scalars must be positive');
-            }
-
-            // Create base point commitment with validated value
-            const basePoint = Point.BASE.multiply(validValue);
-
-            // Create blinding point with validated blinding factor
-            const blindingPoint = this.getBlindingGenerator().multiply(validBlinding);
-
-            // Return combined commitment
-            return basePoint.add(blindingPoint);
-        } catch (error) {
-            console.error('Error creating commitment:', error);
-            throw new Error('Failed to create commitment');
-        }
-    }
-
-    private computeCommitment(value: bigint, blinding: bigint): Point {
-        try {
-            // Get the base point for the commitment
-            const basePoint = secp256k1.Point.fromPrivateKey(1n);
-            
-            // Get the blinding generator
-            const blindingGen = this.getBlindingGenerator();
-            
-            // Compute commitment = value*G + blinding*H
-            return basePoint.multiply(value).add(blindingGen.multiply(blinding));
-        } catch (error) {
-            console.error('Error computing commitment:', error);
-            throw new Error('Failed to compute commitment');
-        }
-    }
-
-    private async generatePolyCommitments(
-        values: bigint[],
-        blindingFactors: bigint[],
-        maxBitSize: number = this.n
-    ): Promise<{
-        T1: Point;
-        T2: Point;
-        taux: bigint;
-        mu: bigint;
-    }> {
-        try {
-            const modulus = secp256k1.CURVE.n;
-            
-            // Validate inputs are arrays
-            if (!Array.isArray(values) || !Array.isArray(blindingFactors)) {
-                throw new Error('Values and blinding factors must be arrays');
-            }
-
-            // Validate all inputs are BigInt
-            if (!values.every(v => typeof v === 'bigint') || 
-                !blindingFactors.every(b => typeof b === 'bigint')) {
-                throw new Error('All values and blinding factors must be BigInt');
-            }
-
-            // Normalize all inputs
-            const normalizedValues = values.map(v => this.validateScalar(v));
-            const normalizedBlinds = blindingFactors.map(b => this.validateScalar(b));
-            
-            // Generate random values for polynomial coefficients
-            const tau1 = this.generateRandomScalar();
-            const tau2 = this.generateRandomScalar();
-            
-            // Calculate polynomial terms
-            let t1 = 0n;
-            let t2 = 0n;
-            
-            for (let i = 0; i < normalizedValues.length; i++) {
-                const term1 = (normalizedValues[i] * normalizedBlinds[i]) % modulus;
-                const term2 = ((normalizedValues[i] * normalizedValues[i]) % modulus * normalizedBlinds[i]) % modulus;
-                
-                t1 = (t1 + term1) % modulus;
-                t2 = (t2 + term2) % modulus;
-            }
-            
-            // Validate generators
-            const g0 = this.getGenerator(0);
-            const g1 = this.getGenerator(1);
-            const h = this.getBlindingGenerator();
-            
-            this.validatePoint(g0);
-            this.validatePoint(g1);
-            this.validatePoint(h);
-            
-            // Generate commitments with validated scalars
-            let T1: Point;
-            let T2: Point;
-            
-            try {
-                const t1Commitment = g0.multiply(t1);
-                const tau1Commitment = h.multiply(tau1);
-                T1 = t1Commitment.add(tau1Commitment);
-                
-                const t2Commitment = g1.multiply(t2);
-                const tau2Commitment = h.multiply(tau2);
-                T2 = t2Commitment.add(tau2Commitment);
-                
-                // Validate generated points
-                this.validatePoint(T1);
-                this.validatePoint(T2);
-            } catch (error) {
-                throw new Error(`Failed to generate commitments: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-            
-            // Calculate taux and mu with modular arithmetic
-            const taux = (tau1 + tau2) % modulus;
-            const mu = this.generateRandomScalar();
-            
-            return { T1, T2, taux, mu };
-        } catch (error) {
-            console.error('Error generating polynomial commitments:', error);
-            throw new Error(`Failed to generate polynomial commitments: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-    }
-}
\ No newline at end of file
+}
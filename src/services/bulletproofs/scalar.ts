@@ -0,0 +1,55 @@
+import * as secp256k1 from '@noble/secp256k1';
+import { randomBytes } from 'crypto';
+
+/** Order of the secp256k1 group; all Bulletproofs scalars live modulo this */
+export const ORDER = secp256k1.CURVE.n;
+
+export function mod(value: bigint): bigint {
+    const reduced = value % ORDER;
+    return reduced < 0n ? reduced + ORDER : reduced;
+}
+
+export function modPow(base: bigint, exponent: bigint): bigint {
+    let result = 1n;
+    base = mod(base);
+    while (exponent > 0n) {
+        if (exponent & 1n) {
+            result = (result * base) % ORDER;
+        }
+        base = (base * base) % ORDER;
+        exponent >>= 1n;
+    }
+    return result;
+}
+
+/** Inverse by Fermat's little theorem; the group order is prime */
+export function modInverse(value: bigint): bigint {
+    if (mod(value) === 0n) {
+        throw new Error('Cannot invert zero');
+    }
+    return modPow(value, ORDER - 2n);
+}
+
+/** [1, x, x^2, ..., x^(length-1)] */
+export function powers(x: bigint, length: number): bigint[] {
+    const result = new Array<bigint>(length);
+    let current = 1n;
+    for (let i = 0; i < length; i++) {
+        result[i] = current;
+        current = (current * x) % ORDER;
+    }
+    return result;
+}
+
+export function innerProduct(a: bigint[], b: bigint[]): bigint {
+    if (a.length !== b.length) {
+        throw new Error('Vectors must have the same length');
+    }
+    return a.reduce((sum, ai, i) => (sum + ai * b[i]) % ORDER, 0n);
+}
+
+export function randomScalar(): bigint {
+    // 64 bytes keep the modular bias negligible
+    const scalar = mod(BigInt('0x' + randomBytes(64).toString('hex')));
+    return scalar === 0n ? randomScalar() : scalar;
+}
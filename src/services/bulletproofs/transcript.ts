@@ -0,0 +1,48 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { Point } from '../zkProof';
+import { mod } from './scalar';
+
+/**
+ * Fiat-Shamir transcript. Every message the prover sends is absorbed before
+ * the challenge that depends on it is squeezed, so prover and verifier
+ * derive the same challenges and neither can pick them.
+ */
+export class Transcript {
+    private state: Uint8Array;
+
+    constructor(label: string) {
+        this.state = sha256(`bulletproofs/${label}`);
+    }
+
+    public appendMessage(label: string, message: string): void {
+        // Length prefixes keep label/message boundaries unambiguous
+        this.state = sha256(concatBytes(
+            this.state,
+            utf8ToBytes(`${label.length}:${label}${message.length}:${message}`)
+        ));
+    }
+
+    public appendPoint(label: string, point: Point | string): void {
+        this.appendMessage(label, typeof point === 'string' ? point : point.toHex());
+    }
+
+    public appendScalar(label: string, scalar: bigint): void {
+        this.appendMessage(label, mod(scalar).toString(16));
+    }
+
+    public appendNumber(label: string, value: number): void {
+        this.appendMessage(label, value.toString());
+    }
+
+    /** A nonzero challenge scalar bound to everything appended so far */
+    public challenge(label: string): bigint {
+        for (;;) {
+            this.appendMessage('challenge', label);
+            const scalar = mod(BigInt('0x' + bytesToHex(this.state)));
+            if (scalar !== 0n) {
+                return scalar;
+            }
+        }
+    }
+}
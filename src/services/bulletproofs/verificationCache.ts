@@ -0,0 +1,85 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { RangeStatement } from './rangeProof';
+
+export interface VerificationCacheStats {
+    hits: number;
+    misses: number;
+    size: number;
+    maxSize: number;
+    hitRate: number;
+}
+
+/**
+ * Content-addressed cache of range proof verification results. Entries are
+ * keyed by a hash over the proof and everything it is verified against, so
+ * a proof presented with other commitments or another bit size is a miss,
+ * never a stale hit. Least recently used entries are evicted first.
+ */
+export class VerificationCache {
+    private entries: Map<string, boolean>;
+    private hits = 0;
+    private misses = 0;
+
+    constructor(private readonly maxSize: number = 10000) {
+        this.entries = new Map();
+    }
+
+    /** Hash of a statement's canonical encoding */
+    public static key({ proof, commitments, bitSize }: RangeStatement): string {
+        const canonical = JSON.stringify([
+            bitSize,
+            commitments.map(commitment => commitment.toHex()),
+            proof.A,
+            proof.S,
+            proof.T1,
+            proof.T2,
+            proof.t,
+            proof.taux,
+            proof.mu,
+            proof.innerProduct.L,
+            proof.innerProduct.R,
+            proof.innerProduct.a,
+            proof.innerProduct.b
+        ]);
+        return bytesToHex(sha256(canonical));
+    }
+
+    public get(key: string): boolean | undefined {
+        const valid = this.entries.get(key);
+        if (valid === undefined) {
+            this.misses++;
+            return undefined;
+        }
+        // Map keeps insertion order; re-inserting marks the entry as most recent
+        this.entries.delete(key);
+        this.entries.set(key, valid);
+        this.hits++;
+        return valid;
+    }
+
+    public set(key: string, valid: boolean): void {
+        this.entries.delete(key);
+        this.entries.set(key, valid);
+        while (this.entries.size > this.maxSize) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    public clear(): void {
+        this.entries.clear();
+        this.hits = 0;
+        this.misses = 0;
+    }
+
+    public getStats(): VerificationCacheStats {
+        const lookups = this.hits + this.misses;
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            size: this.entries.size,
+            maxSize: this.maxSize,
+            hitRate: lookups === 0 ? 0 : this.hits / lookups
+        };
+    }
+}
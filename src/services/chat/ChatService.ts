@@ -3,10 +3,16 @@ import { SupabaseClient } from "@supabase/supabase-js";
 import { Redis } from '@upstash/redis';
 import { Message, MessageStatus } from "../../types/chat/message";
 import { ZKService } from "@/lib/zk/ZKService";
+import { DEFAULT_DEVICE_ID, RatchetError } from "@/lib/zk/ratchet";
 import { MessageRecoveryService } from "./MessageRecoveryService";
+import { MessageSearchService } from "./MessageSearchService";
 import { logger } from "../../lib/logger";
 import { env } from "@/utils/env";
 
+// A sealed session state that no longer opens; new X3DH sessions replace it
+const isBrokenRatchetSession = (error: Error) =>
+  error instanceof RatchetError && error.code === "decryption_failed";
+
 interface ChatClient {
   ws: WebSocket;
   userId: string;
@@ -104,6 +110,7 @@ export class ChatService {
             senderId: message.senderId,
             recipientId: message.recipientId,
             threadId: message.threadId,
+            messageId: message.id,
           }
         );
 
@@ -146,6 +153,10 @@ export class ChatService {
       // Update message history
       this.updateMessageHistory(message.threadId, message);
 
+      // Stored content is encrypted, so embed the plaintext now; search
+      // indexing must never hold up or fail delivery
+      this.indexForSearch(message);
+
       await logger.info("Message sent successfully", {
         messageId: message.id,
         threadId: message.threadId,
@@ -158,12 +169,36 @@ export class ChatService {
         threadId: message.threadId,
       });
 
-      // Queue message for retry
-      await this.recoveryService.queueMessageForRetry(message, err);
+      // Queue message for retry, over new ratchet sessions if its own are broken
+      if (isBrokenRatchetSession(err)) {
+        await this.recoveryService.queueRatchetRecovery(message, err, DEFAULT_DEVICE_ID);
+      } else {
+        await this.recoveryService.queueMessageForRetry(message, err);
+      }
       throw error;
     }
   }
 
+  private indexForSearch(message: Message): void {
+    const emotions = message.metadata?.emotions;
+    const riskFlags = message.metadata?.risk_flags;
+    MessageSearchService.getInstance(this.supabase, this.redis)
+      .indexMessage({
+        id: message.id,
+        thread_id: message.threadId,
+        content: message.content,
+        emotion_tags: Array.isArray(emotions) ? emotions.map(String) : undefined,
+        risk_flags: Array.isArray(riskFlags) ? riskFlags.map(String) : undefined,
+      })
+      .catch(async (error) => {
+        await logger.error(
+          "Failed to index message for search",
+          error instanceof Error ? error : new Error(String(error)),
+          { messageId: message.id }
+        );
+      });
+  }
+
   public async recoverThreadMessages(threadId: string): Promise<number> {
     try {
       const recoveredCount =
@@ -0,0 +1,301 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Redis } from '@upstash/redis';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../lib/logger';
+import { invalidateMessage } from '../../lib/edge/chat-cache';
+import { invalidateMessageCache } from '../../lib/edge/message-cache';
+import { HIPAACompliantAuditService } from '../HIPAACompliantAuditService';
+import { HIPAAActionType, HIPAAEventType } from '../../types/hipaa';
+import { MessageSearchService } from './MessageSearchService';
+import {
+  COMPLIANCE_ROLES,
+  HistoryActor,
+  MessageRevision,
+  OriginalVault,
+  REDACTOR_ROLES,
+  RedactedOriginal,
+  RedactionError,
+  RedactionRecord,
+  RedactionRequest,
+  RedactionSpan,
+  applyRedactions,
+  diffWords,
+  scrubText
+} from './history';
+
+interface EditRow {
+  id: string;
+  editor_id: string;
+  previous_content: string;
+  new_content: string;
+  edited_at: string;
+}
+
+interface RedactionRow {
+  id: string;
+  message_id: string;
+  thread_id: string;
+  redacted_by: string;
+  reason: string;
+  spans: RedactionSpan[];
+  encrypted_original: string;
+  iv: string;
+  key_id: string;
+  created_at: string;
+}
+
+const toRecord = (row: RedactionRow): RedactionRecord => ({
+  id: row.id,
+  messageId: row.message_id,
+  threadId: row.thread_id,
+  redactedBy: row.redacted_by,
+  reason: row.reason,
+  spans: row.spans,
+  createdAt: row.created_at
+});
+
+/**
+ * Edit history and PHI redaction for session messages. A redaction
+ * replaces spans with typed placeholders in the message and in every
+ * earlier revision, and keeps the pre-redaction text only as an encrypted
+ * original readable by compliance roles.
+ */
+export class MessageHistoryService {
+  private static instance: MessageHistoryService;
+  private supabase: SupabaseClient;
+  private redis: Redis;
+  private audit: HIPAACompliantAuditService;
+  private vault: OriginalVault | null = null;
+
+  private constructor(supabaseClient: SupabaseClient, redis: Redis, audit: HIPAACompliantAuditService) {
+    this.supabase = supabaseClient;
+    this.redis = redis;
+    this.audit = audit;
+  }
+
+  public static getInstance(
+    supabaseClient: SupabaseClient,
+    redis: Redis,
+    audit: HIPAACompliantAuditService = new HIPAACompliantAuditService()
+  ): MessageHistoryService {
+    if (!MessageHistoryService.instance) {
+      MessageHistoryService.instance = new MessageHistoryService(supabaseClient, redis, audit);
+    }
+    return MessageHistoryService.instance;
+  }
+
+  private getVault(): OriginalVault {
+    if (!this.vault) {
+      this.vault = OriginalVault.fromEnv();
+    }
+    return this.vault;
+  }
+
+  /** Revisions oldest first, each with a word diff against the one before */
+  public async getEditHistory(messageId: string, client: SupabaseClient = this.supabase): Promise<MessageRevision[]> {
+    const { data, error } = await client
+      .from('session_message_edits')
+      .select('id, editor_id, previous_content, new_content, edited_at')
+      .eq('message_id', messageId)
+      .order('edited_at', { ascending: true });
+
+    if (error) throw error;
+
+    return ((data ?? []) as EditRow[]).map(row => ({
+      id: row.id,
+      editorId: row.editor_id,
+      editedAt: row.edited_at,
+      previousContent: row.previous_content,
+      newContent: row.new_content,
+      diff: diffWords(row.previous_content, row.new_content)
+    }));
+  }
+
+  public async listRedactions(messageId: string, client: SupabaseClient = this.supabase): Promise<RedactionRecord[]> {
+    const { data, error } = await client
+      .from('message_redactions')
+      .select('id, message_id, thread_id, redacted_by, reason, spans, created_at')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return ((data ?? []) as RedactionRow[]).map(toRecord);
+  }
+
+  /**
+   * Redacts spans of a message's current content. Earlier revisions are
+   * scrubbed of the same text so the history does not leak it, and caches
+   * and search indexes are refreshed once the change is committed.
+   */
+  public async redactMessage(
+    messageId: string,
+    request: RedactionRequest,
+    client: SupabaseClient = this.supabase
+  ): Promise<RedactionRecord> {
+    const { actor } = request;
+    if (!REDACTOR_ROLES.includes(actor.role)) {
+      await this.logAudit(actor, HIPAAActionType.UPDATE, 'failure', messageId, { operation: 'REDACT_MESSAGE' });
+      throw new RedactionError('forbidden', 'Redaction requires a supervisor or compliance role');
+    }
+
+    const { data: message, error: messageError } = await client
+      .from('messages')
+      .select('id, thread_id, content, metadata')
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (messageError) throw messageError;
+    if (!message) throw new RedactionError('not_found', 'Message not found');
+
+    const { data: editData, error: editError } = await client
+      .from('session_message_edits')
+      .select('id, previous_content, new_content')
+      .eq('message_id', messageId);
+
+    if (editError) throw editError;
+    const edits = (editData ?? []) as RedactedOriginal['edits'];
+
+    const { content, removed } = applyRedactions(message.content, request.spans);
+    const redactionId = uuidv4();
+    const sealed = await this.getVault().seal(redactionId, { content: message.content, edits });
+    const spans = [...request.spans].sort((a, b) => a.start - b.start);
+
+    const scrubbedEdits = edits
+      .map(edit => ({
+        id: edit.id,
+        previous_content: scrubText(edit.previous_content, removed),
+        new_content: scrubText(edit.new_content, removed)
+      }))
+      .filter((scrubbed, i) =>
+        scrubbed.previous_content !== edits[i].previous_content || scrubbed.new_content !== edits[i].new_content
+      );
+
+    // One transaction: the tombstone, the redacted message and the scrubbed history
+    const { error: redactError } = await client.rpc('apply_message_redaction', {
+      p_redaction: {
+        id: redactionId,
+        message_id: messageId,
+        thread_id: message.thread_id,
+        redacted_by: actor.id,
+        reason: request.reason,
+        spans,
+        encrypted_original: sealed.ciphertext,
+        iv: sealed.iv,
+        key_id: sealed.keyId
+      },
+      p_content: content,
+      p_edits: scrubbedEdits
+    });
+    if (redactError) throw redactError;
+
+    // Categories and counts only; the audit trail must not repeat the PHI
+    await this.logAudit(actor, HIPAAActionType.UPDATE, 'success', messageId, {
+      operation: 'REDACT_MESSAGE',
+      redactionId,
+      reason: request.reason,
+      categories: Array.from(new Set(spans.map(span => span.category))),
+      spanCount: spans.length
+    });
+
+    await this.refreshDerivedData(messageId, message.thread_id, content, message.metadata, client);
+
+    return {
+      id: redactionId,
+      messageId,
+      threadId: message.thread_id,
+      redactedBy: actor.id,
+      reason: request.reason,
+      spans,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  /** Decrypts the pre-redaction message and history; compliance roles only */
+  public async getOriginal(
+    redactionId: string,
+    actor: HistoryActor,
+    client: SupabaseClient = this.supabase
+  ): Promise<RedactedOriginal> {
+    if (!COMPLIANCE_ROLES.includes(actor.role)) {
+      await this.logAudit(actor, HIPAAActionType.READ, 'failure', redactionId, { operation: 'READ_REDACTED_ORIGINAL' });
+      throw new RedactionError('forbidden', 'Only compliance roles can read redacted originals');
+    }
+
+    const { data, error } = await client
+      .from('message_redactions')
+      .select('*')
+      .eq('id', redactionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new RedactionError('not_found', 'Redaction not found');
+
+    const row = data as RedactionRow;
+    const original = await this.getVault().open(redactionId, {
+      ciphertext: row.encrypted_original,
+      iv: row.iv,
+      keyId: row.key_id
+    });
+
+    await this.logAudit(actor, HIPAAActionType.READ, 'success', row.message_id, {
+      operation: 'READ_REDACTED_ORIGINAL',
+      redactionId
+    });
+
+    return original;
+  }
+
+  /**
+   * Drops cached copies and re-indexes the redacted text. The full-text
+   * vector is a generated column; the embedding is deleted first so the
+   * old one never outlives the redaction, even without an embedder.
+   */
+  private async refreshDerivedData(
+    messageId: string,
+    threadId: string,
+    content: string,
+    metadata: Record<string, unknown> | null,
+    client: SupabaseClient
+  ): Promise<void> {
+    try {
+      await Promise.all([invalidateMessage(messageId), invalidateMessageCache(threadId)]);
+
+      const { error } = await client.from('message_embeddings').delete().eq('message_id', messageId);
+      if (error) throw error;
+
+      const emotions = metadata?.emotions;
+      const riskFlags = metadata?.risk_flags;
+      await MessageSearchService.getInstance(this.supabase, this.redis).indexMessage({
+        id: messageId,
+        thread_id: threadId,
+        content,
+        emotion_tags: Array.isArray(emotions) ? emotions.map(String) : undefined,
+        risk_flags: Array.isArray(riskFlags) ? riskFlags.map(String) : undefined
+      });
+    } catch (err) {
+      await logger.error('Failed to refresh caches after redaction', err instanceof Error ? err : undefined, {
+        messageId
+      });
+    }
+  }
+
+  private async logAudit(
+    actor: HistoryActor,
+    action: HIPAAActionType,
+    status: 'success' | 'failure',
+    resourceId: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await this.audit.logEvent({
+      eventType: action === HIPAAActionType.READ ? HIPAAEventType.USER_ACCESS : HIPAAEventType.DATA_MODIFICATION,
+      timestamp: new Date(),
+      actor,
+      action: { type: action, status, details },
+      resource: {
+        type: 'message',
+        id: resourceId,
+        description: action === HIPAAActionType.READ ? 'Redacted message original' : 'Message content redaction'
+      }
+    });
+  }
+}
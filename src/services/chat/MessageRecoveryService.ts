@@ -4,29 +4,32 @@ import { v4 as uuidv4 } from 'uuid';
 import { ZKService } from '../zk/ZKService';
 import { ChatMessage, MessageStatus, FailedMessage, KeyTransitionContext } from '../../types/chat';
 import { logger } from '../../lib/logger';
+import { ForwardSecrecyService } from '../../lib/zk/ForwardSecrecyService';
+import { encodeEnvelopes } from '../../lib/zk/ratchet';
 import { DistributedLockService } from './DistributedLockService';
+import { RetryJob, RetryQueue, RetryJobStatus, SupabaseRetryQueue, DEFAULT_RETRY_POLICY } from './RetryQueue';
 
-interface RetryQueueItem {
+interface RetryPayload {
   message: ChatMessage;
-  attempts: number;
-  lastAttempt: Date;
-  error?: Error;
   keyTransitionContext?: KeyTransitionContext;
 }
 
+export type DeadLetter = RetryJob<RetryPayload>;
+
 export class MessageRecoveryService {
   private static instance: MessageRecoveryService;
-  private retryQueue: Map<string, RetryQueueItem>;
-  private maxRetries = 3;
-  private retryIntervals = [1000, 5000, 15000]; // Exponential backoff
+  private retryQueue: RetryQueue<RetryPayload>;
+  private claimBatchSize = 10;
+  private processing = false;
   private zkService: ZKService;
   private supabase: SupabaseClient;
   private lockService: DistributedLockService;
+  private forwardSecrecy?: ForwardSecrecyService;
   private transitionTimeoutMs = 30000; // 30 seconds timeout for key transitions
   private serverId: string;
 
-  private constructor(supabaseClient: SupabaseClient, redis: Redis) {
-    this.retryQueue = new Map();
+  private constructor(supabaseClient: SupabaseClient, redis: Redis, retryQueue?: RetryQueue<RetryPayload>) {
+    this.retryQueue = retryQueue ?? new SupabaseRetryQueue<RetryPayload>(supabaseClient, DEFAULT_RETRY_POLICY);
     this.zkService = ZKService.getInstance();
     this.supabase = supabaseClient;
     this.lockService = DistributedLockService.getInstance(redis);
@@ -34,17 +37,17 @@ export class MessageRecoveryService {
     this.startRetryProcessor();
   }
 
-  public static getInstance(supabaseClient: SupabaseClient, redis: Redis): MessageRecoveryService {
+  public static getInstance(
+    supabaseClient: SupabaseClient,
+    redis: Redis,
+    retryQueue?: RetryQueue<RetryPayload>
+  ): MessageRecoveryService {
     if (!MessageRecoveryService.instance) {
-      MessageRecoveryService.instance = new MessageRecoveryService(supabaseClient, redis);
+      MessageRecoveryService.instance = new MessageRecoveryService(supabaseClient, redis, retryQueue);
     }
     return MessageRecoveryService.instance;
   }
 
-  private getLockKey(messageId: string): string {
-    return `message_recovery:${messageId}`;
-  }
-
   private getTransitionLockKey(messageId: string): string {
     return `key_transition:${messageId}`;
   }
@@ -54,262 +57,271 @@ export class MessageRecoveryService {
     error: Error, 
     keyTransitionContext?: KeyTransitionContext
   ): Promise<void> {
-    const lockKey = this.getLockKey(message.id);
-    const holderId = `${this.serverId}:${Date.now()}`;
-
     try {
-      const lockAcquired = await this.lockService.acquireLock(lockKey, holderId);
-      if (!lockAcquired) {
-        await logger.warn('Failed to acquire lock for message retry', {
-          messageId: message.id,
-          error: 'Lock acquisition failed'
-        });
-        return;
-      }
-
-      try {
-        const existingItem = this.retryQueue.get(message.id);
-        
-        if (existingItem && existingItem.attempts >= this.maxRetries) {
-          await this.handleMaxRetriesExceeded(message, keyTransitionContext);
-          return;
-        }
-
-        this.retryQueue.set(message.id, {
-          message,
-          attempts: existingItem ? existingItem.attempts + 1 : 1,
-          lastAttempt: new Date(),
-          error,
-          keyTransitionContext
-        });
-
-        await logger.info('Message queued for retry', {
-          messageId: message.id,
-          attempts: existingItem ? existingItem.attempts + 1 : 1,
-          error: error.message,
-          keyTransition: keyTransitionContext ? {
-            fromVersion: keyTransitionContext.fromVersion,
-            toVersion: keyTransitionContext.toVersion
-          } : undefined
-        });
-      } finally {
-        await this.lockService.releaseLock(lockKey, holderId);
-      }
-    } catch (error) {
-      await logger.error('Error in queueMessageForRetry', {
+      await this.retryQueue.enqueue(
+        message.id,
+        message.threadId,
+        { message, keyTransitionContext },
+        error.message
+      );
+
+      await logger.info('Message queued for retry', {
         messageId: message.id,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error.message,
+        keyTransition: keyTransitionContext ? {
+          fromVersion: keyTransitionContext.fromVersion,
+          toVersion: keyTransitionContext.toVersion
+        } : undefined
+      });
+    } catch (error) {
+      await logger.error('Error in queueMessageForRetry', error instanceof Error ? error : undefined, {
+        messageId: message.id
       });
       throw error;
     }
   }
 
-  private async handleMaxRetriesExceeded(
+  /**
+   * Re-send a message whose Double Ratchet sessions broke, e.g. a device
+   * lost its state. The sender's sessions with the recipient are retired
+   * so the retry opens new ones by X3DH.
+   */
+  public async queueRatchetRecovery(
     message: ChatMessage,
-    keyTransitionContext?: KeyTransitionContext
+    error: Error,
+    senderDeviceId: string
   ): Promise<void> {
-    const lockKey = this.getLockKey(message.id);
-    const holderId = `${this.serverId}:${Date.now()}`;
+    const keyTransitionContext = await this.getForwardSecrecy().beginKeyTransition(
+      { userId: message.senderId, deviceId: senderDeviceId },
+      message.recipientId
+    );
+    await this.queueMessageForRetry(message, error, keyTransitionContext);
+  }
 
-    try {
-      const lockAcquired = await this.lockService.acquireLock(lockKey, holderId);
-      if (!lockAcquired) {
-        await logger.warn('Failed to acquire lock for max retries handling', {
-          messageId: message.id,
-          error: 'Lock acquisition failed'
-        });
-        return;
-      }
+  private getForwardSecrecy(): ForwardSecrecyService {
+    this.forwardSecrecy ??= ForwardSecrecyService.getInstance(this.supabase);
+    return this.forwardSecrecy;
+  }
 
-      try {
-        const queueItem = this.retryQueue.get(message.id);
-        const status = keyTransitionContext ? MessageStatus.TRANSITION_FAILED : MessageStatus.FAILED;
-
-        await this.supabase.from('failed_messages').insert({
-          message_id: message.id,
-          thread_id: message.threadId,
-          content: message.content,
-          sender_id: message.senderId,
-          recipient_id: message.recipientId,
-          status,
-          error: queueItem?.error?.message,
-          retry_count: queueItem?.attempts || 0,
-          encryption_key_version: keyTransitionContext?.fromVersion || 'current',
-          encryption_key_id: keyTransitionContext?.keyId,
-          encryption_metadata: keyTransitionContext ? {
-            key_transitions: [{
-              from_version: keyTransitionContext.fromVersion,
-              to_version: keyTransitionContext.toVersion,
-              timestamp: Date.now() / 1000
-            }]
-          } : null,
-          created_at: message.timestamp,
-          updated_at: new Date().toISOString()
-        });
+  /**
+   * Record a dead-lettered job in failed_messages, where thread-level
+   * recovery and the status UI look for it
+   */
+  private async handleMaxRetriesExceeded(job: DeadLetter, reason: string): Promise<void> {
+    const { message, keyTransitionContext } = job.payload;
+    const status = keyTransitionContext ? MessageStatus.TRANSITION_FAILED : MessageStatus.FAILED;
 
-        this.retryQueue.delete(message.id);
+    try {
+      await this.supabase.from('failed_messages').upsert({
+        message_id: message.id,
+        thread_id: message.threadId,
+        content: message.content,
+        sender_id: message.senderId,
+        recipient_id: message.recipientId,
+        status,
+        error: reason,
+        retry_count: job.attempts,
+        encryption_key_version: keyTransitionContext?.fromVersion || 'current',
+        encryption_key_id: keyTransitionContext?.keyId,
+        encryption_metadata: keyTransitionContext ? {
+          key_transitions: [{
+            from_version: keyTransitionContext.fromVersion,
+            to_version: keyTransitionContext.toVersion,
+            timestamp: Date.now() / 1000
+          }],
+          ratchet: keyTransitionContext.ratchet
+        } : null,
+        created_at: message.timestamp,
+        updated_at: new Date().toISOString()
+      });
 
-        await logger.error('Message retry attempts exceeded', {
-          messageId: message.id,
-          threadId: message.threadId,
-          error: queueItem?.error?.message,
-          keyTransition: keyTransitionContext ? {
-            fromVersion: keyTransitionContext.fromVersion,
-            toVersion: keyTransitionContext.toVersion
-          } : undefined
-        });
-      } finally {
-        await this.lockService.releaseLock(lockKey, holderId);
-      }
-    } catch (error) {
-      await logger.error('Error in handleMaxRetriesExceeded', {
+      await logger.warn('Message retry attempts exceeded', {
         messageId: message.id,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        threadId: message.threadId,
+        attempts: job.attempts,
+        error: reason,
+        keyTransition: keyTransitionContext ? {
+          fromVersion: keyTransitionContext.fromVersion,
+          toVersion: keyTransitionContext.toVersion
+        } : undefined
+      });
+    } catch (error) {
+      await logger.error('Error in handleMaxRetriesExceeded', error instanceof Error ? error : undefined, {
+        messageId: message.id
       });
-      throw error;
     }
   }
 
-  private async retryMessage(queueItem: RetryQueueItem): Promise<boolean> {
-    const { message, attempts, keyTransitionContext } = queueItem;
-    const lockKey = this.getLockKey(message.id);
+  /**
+   * Deliver a claimed job. The queue lease keeps other instances off the
+   * message; the transition lock still serialises re-encryption per message.
+   * Throws on failure so the caller can reschedule with the error.
+   */
+  private async retryMessage(job: DeadLetter): Promise<void> {
+    const { message, keyTransitionContext } = job.payload;
     const transitionLockKey = this.getTransitionLockKey(message.id);
     const holderId = `${this.serverId}:${Date.now()}`;
+    let encryptedContent: string;
 
-    try {
-      // Acquire main retry lock
-      const lockAcquired = await this.lockService.acquireLock(lockKey, holderId);
-      if (!lockAcquired) {
-        await logger.warn('Failed to acquire lock for message retry', {
-          messageId: message.id,
-          error: 'Lock acquisition failed'
-        });
-        return false;
+    if (keyTransitionContext) {
+      const transitionLockAcquired = await this.lockService.acquireLock(
+        transitionLockKey,
+        holderId,
+        this.transitionTimeoutMs
+      );
+
+      if (!transitionLockAcquired) {
+        throw new Error('Transition lock acquisition failed');
       }
 
       try {
-        let encryptedContent: string;
-
-        if (keyTransitionContext) {
-          // Acquire transition lock if needed
-          const transitionLockAcquired = await this.lockService.acquireLock(
-            transitionLockKey,
-            holderId,
-            this.transitionTimeoutMs
-          );
-
-          if (!transitionLockAcquired) {
-            await logger.warn('Failed to acquire lock for key transition', {
-              messageId: message.id,
-              error: 'Transition lock acquisition failed'
-            });
-            return false;
-          }
-
-          try {
-            encryptedContent = await this.zkService.reEncryptMessageWithNewKey(
-              message.content,
-              message.senderId,
-              message.recipientId,
-              keyTransitionContext.fromVersion,
-              keyTransitionContext.toVersion
-            );
-
-            await this.supabase
-              .from('failed_messages')
-              .update({
-                encryption_key_version: keyTransitionContext.toVersion,
-                status: MessageStatus.TRANSITION_PENDING
-              })
-              .eq('message_id', message.id);
-          } finally {
-            await this.lockService.releaseLock(transitionLockKey, holderId);
-          }
-        } else {
-          encryptedContent = await this.zkService.encryptMessageWithSessionKey(
+        encryptedContent = keyTransitionContext.ratchet
+          ? await this.reEncryptOverRatchet(message, keyTransitionContext.ratchet.senderDeviceId)
+          : await this.zkService.reEncryptMessageWithNewKey(
             message.content,
             message.senderId,
-            message.recipientId
+            message.recipientId,
+            keyTransitionContext.fromVersion,
+            keyTransitionContext.toVersion
           );
-        }
-
-        const { error } = await this.supabase.from('messages').insert({
-          id: message.id,
-          thread_id: message.threadId,
-          sender_id: message.senderId,
-          recipient_id: message.recipientId,
-          content: encryptedContent,
-          status: MessageStatus.SENT,
-          created_at: message.timestamp,
-          updated_at: new Date().toISOString()
-        });
-
-        if (error) throw error;
 
         await this.supabase
           .from('failed_messages')
-          .update({ 
-            status: MessageStatus.RECOVERED,
-            updated_at: new Date().toISOString()
+          .update({
+            encryption_key_version: keyTransitionContext.toVersion,
+            status: MessageStatus.TRANSITION_PENDING
           })
           .eq('message_id', message.id);
-
-        this.retryQueue.delete(message.id);
-        await logger.info('Message retry successful', {
-          messageId: message.id,
-          attempts,
-          keyTransition: keyTransitionContext ? {
-            fromVersion: keyTransitionContext.fromVersion,
-            toVersion: keyTransitionContext.toVersion
-          } : undefined
-        });
-
-        return true;
       } finally {
-        await this.lockService.releaseLock(lockKey, holderId);
+        await this.lockService.releaseLock(transitionLockKey, holderId);
       }
-    } catch (error) {
-      await logger.error('Message retry failed', {
-        messageId: message.id,
-        attempts,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        keyTransition: keyTransitionContext ? {
-          fromVersion: keyTransitionContext.fromVersion,
-          toVersion: keyTransitionContext.toVersion
-        } : undefined
-      });
-      return false;
+    } else {
+      encryptedContent = await this.zkService.encryptMessageWithSessionKey(
+        message.content,
+        message.senderId,
+        message.recipientId
+      );
     }
+
+    const { error } = await this.supabase.from('messages').upsert({
+      id: message.id,
+      thread_id: message.threadId,
+      sender_id: message.senderId,
+      recipient_id: message.recipientId,
+      content: encryptedContent,
+      status: MessageStatus.SENT,
+      created_at: message.timestamp,
+      updated_at: new Date().toISOString()
+    });
+
+    if (error) throw error;
+
+    await this.supabase
+      .from('failed_messages')
+      .update({ 
+        status: MessageStatus.RECOVERED,
+        updated_at: new Date().toISOString()
+      })
+      .eq('message_id', message.id);
+  }
+
+  /** Encryption over new sessions runs the X3DH handshakes for the retired ones */
+  private async reEncryptOverRatchet(message: ChatMessage, senderDeviceId: string): Promise<string> {
+    const { envelopes } = await this.getForwardSecrecy().encryptForUser(
+      message.threadId,
+      { userId: message.senderId, deviceId: senderDeviceId },
+      message.recipientId,
+      message.content,
+      message.id
+    );
+    if (envelopes.length === 0) {
+      throw new Error('No device could be reached over a new ratchet session');
+    }
+    return encodeEnvelopes(envelopes);
   }
 
   private startRetryProcessor(): void {
-    setInterval(async () => {
-      for (const [messageId, queueItem] of this.retryQueue.entries()) {
-        const timeSinceLastAttempt = Date.now() - queueItem.lastAttempt.getTime();
-        const retryInterval = this.retryIntervals[queueItem.attempts - 1] || 
-                            this.retryIntervals[this.retryIntervals.length - 1];
-
-        // Check if key transition has timed out
-        if (queueItem.keyTransitionContext) {
-          const transitionTime = Date.now() - queueItem.keyTransitionContext.transitionStarted.getTime();
+    setInterval(() => {
+      this.processDueRetries().catch(error =>
+        logger.error('Retry processor tick failed', error instanceof Error ? error : undefined)
+      );
+    }, 1000); // Poll the retry queue every second
+  }
+
+  /**
+   * Claim and attempt due retries. Safe to run on every instance at once;
+   * returns the number of messages delivered.
+   */
+  public async processDueRetries(): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      const jobs = await this.retryQueue.claim(this.serverId, this.claimBatchSize);
+      let delivered = 0;
+
+      for (const claimed of jobs) {
+        const job = this.rehydrate(claimed);
+        const { message, keyTransitionContext } = job.payload;
+
+        // Key transitions that overran their window need an operator
+        if (keyTransitionContext) {
+          const transitionTime = Date.now() - keyTransitionContext.transitionStarted.getTime();
           if (transitionTime > this.transitionTimeoutMs) {
-            await this.handleMaxRetriesExceeded(queueItem.message, queueItem.keyTransitionContext);
+            await this.retryQueue.deadLetter(job, this.serverId, 'Key transition timed out');
+            await this.handleMaxRetriesExceeded(job, 'Key transition timed out');
             continue;
           }
         }
 
-        if (timeSinceLastAttempt >= retryInterval) {
-          const success = await this.retryMessage(queueItem);
-          
-          if (!success && queueItem.attempts >= this.maxRetries) {
-            await this.handleMaxRetriesExceeded(
-              queueItem.message,
-              queueItem.keyTransitionContext
-            );
+        try {
+          await this.retryMessage(job);
+          await this.retryQueue.ack(message.id, this.serverId);
+          delivered++;
+
+          await logger.info('Message retry successful', {
+            messageId: message.id,
+            attempts: job.attempts,
+            keyTransition: keyTransitionContext ? {
+              fromVersion: keyTransitionContext.fromVersion,
+              toVersion: keyTransitionContext.toVersion
+            } : undefined
+          });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'Unknown error';
+          const status: RetryJobStatus = await this.retryQueue.fail(job, this.serverId, reason);
+
+          if (status === 'dead') {
+            await this.handleMaxRetriesExceeded(job, reason);
+          } else {
+            await logger.warn('Message retry failed', {
+              messageId: message.id,
+              attempts: job.attempts,
+              error: reason
+            });
           }
         }
       }
-    }, 1000); // Check retry queue every second
+
+      return delivered;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /** Payloads come back from JSON storage with dates as strings */
+  private rehydrate(job: DeadLetter): DeadLetter {
+    const { message, keyTransitionContext } = job.payload;
+    return {
+      ...job,
+      payload: {
+        message: { ...message, timestamp: new Date(message.timestamp) },
+        keyTransitionContext: keyTransitionContext ? {
+          ...keyTransitionContext,
+          transitionStarted: new Date(keyTransitionContext.transitionStarted)
+        } : undefined
+      }
+    };
   }
 
   public async recoverFailedMessages(threadId: string): Promise<number> {
@@ -356,15 +368,16 @@ export class MessageRecoveryService {
               toVersion: 'current',
               keyId: failedMessage.encryption_key_id,
               transitionStarted: new Date(),
-              retryCount: 0
+              retryCount: 0,
+              ratchet: failedMessage.encryption_metadata?.ratchet
             } : undefined;
 
-            this.retryQueue.set(message.id, {
+            await this.retryQueue.enqueue(message.id, message.threadId, {
               message,
-              attempts: 0,
-              lastAttempt: new Date(0),
               keyTransitionContext
             });
+            // A dead letter being recovered gets a fresh attempt budget
+            await this.retryQueue.replay(message.id);
 
             recoveredCount++;
           } catch (error) {
@@ -388,6 +401,40 @@ export class MessageRecoveryService {
     }
   }
 
+  public async listDeadLetters(threadId?: string, limit?: number): Promise<DeadLetter[]> {
+    return this.retryQueue.listDeadLetters(threadId, limit);
+  }
+
+  /** Put a dead letter back in the queue with a fresh attempt budget */
+  public async replayDeadLetter(messageId: string, operatorId: string): Promise<boolean> {
+    const replayed = await this.retryQueue.replay(messageId);
+    if (replayed) {
+      await this.supabase
+        .from('failed_messages')
+        .update({ status: MessageStatus.FAILED, updated_at: new Date().toISOString() })
+        .eq('message_id', messageId);
+      await logger.info('Dead letter replayed', { messageId, operatorId });
+    }
+    return replayed;
+  }
+
+  /** Drop a dead letter for good; the failed_messages row is kept for the audit trail */
+  public async discardDeadLetter(messageId: string, operatorId: string): Promise<boolean> {
+    const discarded = await this.retryQueue.discard(messageId);
+    if (discarded) {
+      await this.supabase
+        .from('failed_messages')
+        .update({ status: 'discarded', updated_at: new Date().toISOString() })
+        .eq('message_id', messageId);
+      await logger.info('Dead letter discarded', { messageId, operatorId });
+    }
+    return discarded;
+  }
+
+  public async getQueueStats(): Promise<Record<RetryJobStatus, number>> {
+    return this.retryQueue.stats();
+  }
+
   public async getFailedMessageStats(threadId: string): Promise<{
     total: number;
     needsKeyTransition: number;
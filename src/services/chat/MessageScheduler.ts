@@ -0,0 +1,455 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Redis } from '@upstash/redis';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { logger } from '../../lib/logger';
+import { Message } from '../../types/chat/message';
+import { UserPreferenceService } from '../UserPreferenceService';
+import { ChatService } from './ChatService';
+import {
+  SCHEDULER_ROLES,
+  ScheduleActor,
+  ScheduleError,
+  ScheduleRequest,
+  ScheduleStatus,
+  ScheduledMessage,
+  SchedulePreview,
+  assertTimeZone,
+  expandOccurrences,
+  parseLocalDateTime,
+  parseRRule
+} from './schedule';
+
+type MessageSender = Pick<ChatService, 'sendMessage'>;
+
+interface ScheduledMessageRow {
+  id: string;
+  thread_id: string;
+  sender_id: string;
+  recipient_id: string;
+  content: string;
+  starts_at: string;
+  rrule: string | null;
+  status: ScheduleStatus;
+  timezone: string;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  occurrence_count: number;
+  delivery_attempts: number;
+  lease_owner: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Namespace for occurrence message ids, so a redelivered occurrence reuses its id
+const OCCURRENCE_NAMESPACE = '6f1c7a52-4d0e-4b59-9a51-0c6d1e3a8b27';
+
+const toScheduled = (row: ScheduledMessageRow): ScheduledMessage => ({
+  id: row.id,
+  threadId: row.thread_id,
+  senderId: row.sender_id,
+  recipientId: row.recipient_id,
+  content: row.content,
+  startsAt: row.starts_at,
+  rrule: row.rrule,
+  status: row.status,
+  timezone: row.timezone,
+  nextRunAt: row.next_run_at ? new Date(row.next_run_at) : null,
+  lastRunAt: row.last_run_at ? new Date(row.last_run_at) : null,
+  occurrenceCount: row.occurrence_count,
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+/**
+ * Scheduled and recurring thread messages. Schedules live in
+ * `scheduled_messages` with their next run time, so nothing is held in
+ * memory between ticks and a restarted instance simply resumes polling.
+ * Due rows are leased through `claim_scheduled_messages` (SKIP LOCKED), so
+ * every instance can run the poller. Recurrences are evaluated in the
+ * recipient's current timezone from their preferences.
+ *
+ * The instance's own client is the delivery worker's and should be the
+ * service role, since it acts on every creator's schedules. Calls made for a
+ * user take that user's client so row-level policies apply.
+ */
+export class MessageScheduler {
+  private static instance: MessageScheduler;
+  private supabase: SupabaseClient;
+  private preferences: UserPreferenceService;
+  private sender: MessageSender;
+  private serverId: string;
+  private processing = false;
+  private claimBatchSize = 10;
+  private leaseMs = 60000; // a failed delivery is retried once its lease lapses
+  private maxAttempts = 5; // then the schedule is paused for its creator
+  private pollTimer?: ReturnType<typeof setInterval>;
+
+  private constructor(supabaseClient: SupabaseClient, redis: Redis, sender: MessageSender) {
+    this.supabase = supabaseClient;
+    this.preferences = UserPreferenceService.getInstance(supabaseClient as any, redis);
+    this.sender = sender;
+    this.serverId = `scheduler_${uuidv4()}`;
+    this.start();
+  }
+
+  public static getInstance(
+    supabaseClient: SupabaseClient,
+    redis: Redis,
+    sender?: MessageSender
+  ): MessageScheduler {
+    if (!MessageScheduler.instance) {
+      MessageScheduler.instance = new MessageScheduler(
+        supabaseClient,
+        redis,
+        sender ?? MessageScheduler.createChatService(supabaseClient)
+      );
+    }
+    return MessageScheduler.instance;
+  }
+
+  private static createChatService(supabaseClient: SupabaseClient): ChatService {
+    const chatService = new ChatService();
+    chatService.setSupabaseClient(supabaseClient);
+    return chatService;
+  }
+
+  /** Poll for due schedules; started on construction, so any instance using the scheduler delivers */
+  public start(intervalMs = 30000): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      this.processDue().catch(error =>
+        logger.error('Scheduled message tick failed', error instanceof Error ? error : undefined)
+      );
+    }, intervalMs);
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  public async schedule(
+    request: ScheduleRequest,
+    actor: ScheduleActor,
+    client: SupabaseClient = this.supabase
+  ): Promise<ScheduledMessage> {
+    if (!SCHEDULER_ROLES.includes(actor.role)) {
+      throw new ScheduleError('forbidden', 'Only instructors and supervisors can schedule messages');
+    }
+    if (!request.content.trim()) {
+      throw new ScheduleError('invalid_rule', 'Scheduled messages need content');
+    }
+    if (request.senderId !== actor.id) {
+      throw new ScheduleError('forbidden', 'Messages can only be scheduled from your own account');
+    }
+    await this.assertThreadParticipants(request.threadId, [actor.id, request.recipientId], client);
+
+    const { timezone, occurrences } = await this.preview(request, 1);
+    if (occurrences.length === 0) {
+      throw new ScheduleError('invalid_rule', 'The schedule has no future occurrences');
+    }
+
+    const { data, error } = await client
+      .from('scheduled_messages')
+      .insert({
+        id: uuidv4(),
+        thread_id: request.threadId,
+        sender_id: request.senderId,
+        recipient_id: request.recipientId,
+        content: request.content,
+        starts_at: request.startsAt,
+        rrule: request.rrule ?? null,
+        status: 'active',
+        timezone,
+        next_run_at: occurrences[0].at.toISOString(),
+        occurrence_count: 0,
+        created_by: actor.id
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await logger.info('Message scheduled', {
+      scheduleId: data.id,
+      threadId: request.threadId,
+      recurring: Boolean(request.rrule),
+      nextRunAt: data.next_run_at
+    });
+    return toScheduled(data as ScheduledMessageRow);
+  }
+
+  /** Upcoming occurrences of a schedule that has not been saved yet */
+  public async preview(
+    request: Pick<ScheduleRequest, 'recipientId' | 'startsAt' | 'rrule'>,
+    count = 5
+  ): Promise<SchedulePreview> {
+    const rule = request.rrule ? parseRRule(request.rrule) : null;
+    const start = parseLocalDateTime(request.startsAt);
+    const timezone = await this.resolveTimezone(request.recipientId);
+
+    return {
+      timezone,
+      occurrences: expandOccurrences(rule, start, timezone, { after: new Date(), limit: count })
+    };
+  }
+
+  /** Upcoming occurrences of a saved schedule, starting from its next run */
+  public async previewSchedule(
+    scheduleId: string,
+    count = 5,
+    client: SupabaseClient = this.supabase
+  ): Promise<SchedulePreview> {
+    const row = await this.getRow(scheduleId, client);
+    if (row.status === 'cancelled' || row.status === 'completed') {
+      return { timezone: row.timezone, occurrences: [] };
+    }
+
+    const timezone = await this.resolveTimezone(row.recipient_id);
+    // A paused schedule resumes from now, so its preview does too
+    const after = row.status === 'active' && row.next_run_at
+      ? new Date(new Date(row.next_run_at).getTime() - 1)
+      : new Date();
+    return {
+      timezone,
+      occurrences: expandOccurrences(
+        row.rrule ? parseRRule(row.rrule) : null,
+        parseLocalDateTime(row.starts_at),
+        timezone,
+        { after, limit: count }
+      )
+    };
+  }
+
+  public async listForThread(threadId: string, client: SupabaseClient = this.supabase): Promise<ScheduledMessage[]> {
+    const { data, error } = await client
+      .from('scheduled_messages')
+      .select('*')
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return ((data ?? []) as ScheduledMessageRow[]).map(toScheduled);
+  }
+
+  public async pause(
+    scheduleId: string,
+    actor: ScheduleActor,
+    client: SupabaseClient = this.supabase
+  ): Promise<ScheduledMessage> {
+    return this.transition(scheduleId, actor, ['active'], { status: 'paused' }, client);
+  }
+
+  /** Resumes from the next occurrence after now; occurrences missed while paused are skipped */
+  public async resume(
+    scheduleId: string,
+    actor: ScheduleActor,
+    client: SupabaseClient = this.supabase
+  ): Promise<ScheduledMessage> {
+    const row = await this.getRow(scheduleId, client);
+    const next = await this.nextOccurrence(row, new Date());
+
+    return this.transition(scheduleId, actor, ['paused'], next
+      ? { status: 'active', next_run_at: next.at.toISOString(), timezone: next.timezone, delivery_attempts: 0 }
+      : { status: 'completed', next_run_at: null }, client);
+  }
+
+  public async cancel(
+    scheduleId: string,
+    actor: ScheduleActor,
+    client: SupabaseClient = this.supabase
+  ): Promise<ScheduledMessage> {
+    return this.transition(scheduleId, actor, ['active', 'paused'], { status: 'cancelled', next_run_at: null }, client);
+  }
+
+  /**
+   * Claim and deliver due occurrences; returns how many were sent. An
+   * instance that was down delivers one overdue occurrence per schedule
+   * and then moves on to the next future one rather than replaying the
+   * whole backlog into the thread. An occurrence that fails maxAttempts
+   * times pauses its schedule.
+   */
+  public async processDue(): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      const { data, error } = await this.supabase.rpc('claim_scheduled_messages', {
+        p_owner: this.serverId,
+        p_limit: this.claimBatchSize,
+        p_lease_ms: this.leaseMs,
+        p_max_attempts: this.maxAttempts
+      });
+      if (error) throw error;
+
+      let delivered = 0;
+      for (const row of (data ?? []) as ScheduledMessageRow[]) {
+        try {
+          await this.deliver(row);
+          delivered++;
+        } catch (err) {
+          // Keep the lease so the retry waits for it to lapse
+          await this.supabase
+            .from('scheduled_messages')
+            .update({ last_error: err instanceof Error ? err.message : 'Unknown error' })
+            .eq('id', row.id)
+            .eq('lease_owner', this.serverId);
+
+          await logger.error('Scheduled message delivery failed', err instanceof Error ? err : undefined, {
+            scheduleId: row.id,
+            threadId: row.thread_id
+          });
+        }
+      }
+      return delivered;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async deliver(row: ScheduledMessageRow): Promise<void> {
+    const occurrenceAt = new Date(row.next_run_at!);
+    const messageId = uuidv5(`${row.id}:${occurrenceAt.toISOString()}`, OCCURRENCE_NAMESPACE);
+
+    // A previous attempt may have sent the message and died before advancing
+    const { data: existing, error: existingError } = await this.supabase
+      .from('messages')
+      .select('id')
+      .eq('id', messageId)
+      .maybeSingle();
+    if (existingError) throw existingError;
+
+    if (!existing) {
+      const now = new Date();
+      const message: Message = {
+        id: messageId,
+        threadId: row.thread_id,
+        senderId: row.sender_id,
+        recipientId: row.recipient_id,
+        content: row.content,
+        type: 'text',
+        status: 'sending',
+        timestamp: now,
+        metadata: { scheduledMessageId: row.id, occurrenceAt: occurrenceAt.toISOString() },
+        created_at: now.toISOString(),
+        updated_at: now.toISOString()
+      };
+      await this.sender.sendMessage(message);
+    }
+
+    const now = new Date();
+    const next = await this.nextOccurrence(row, occurrenceAt > now ? occurrenceAt : now);
+    const { error } = await this.supabase
+      .from('scheduled_messages')
+      .update({
+        status: next ? 'active' : 'completed',
+        next_run_at: next ? next.at.toISOString() : null,
+        timezone: next?.timezone ?? row.timezone,
+        last_run_at: now.toISOString(),
+        occurrence_count: row.occurrence_count + 1,
+        delivery_attempts: 0,
+        lease_owner: null,
+        lease_expires_at: null,
+        last_error: null,
+        updated_at: now.toISOString()
+      })
+      .eq('id', row.id)
+      .eq('lease_owner', this.serverId)
+      .eq('status', 'active');
+    if (error) throw error;
+
+    await logger.info('Scheduled message delivered', {
+      scheduleId: row.id,
+      messageId,
+      nextRunAt: next?.at.toISOString() ?? null
+    });
+  }
+
+  private async nextOccurrence(row: ScheduledMessageRow, after: Date) {
+    const timezone = await this.resolveTimezone(row.recipient_id);
+    const [next] = expandOccurrences(
+      row.rrule ? parseRRule(row.rrule) : null,
+      parseLocalDateTime(row.starts_at),
+      timezone,
+      { after, limit: 1 }
+    );
+    return next ?? null;
+  }
+
+  /** Recipient's preferred timezone; an unknown zone falls back to UTC */
+  private async assertThreadParticipants(
+    threadId: string,
+    userIds: string[],
+    client: SupabaseClient
+  ): Promise<void> {
+    const { data, error } = await client
+      .from('thread_participants')
+      .select('user_id')
+      .eq('thread_id', threadId)
+      .in('user_id', userIds);
+
+    if (error) throw error;
+    const participants = new Set((data ?? []).map((row: { user_id: string }) => row.user_id));
+    if (!userIds.every(userId => participants.has(userId))) {
+      throw new ScheduleError('forbidden', 'The sender and recipient must both take part in the thread');
+    }
+  }
+
+  private async resolveTimezone(userId: string): Promise<string> {
+    const { timezone } = await this.preferences.getPreferences(userId);
+    try {
+      return assertTimeZone(timezone || 'UTC');
+    } catch {
+      await logger.warn('Unknown timezone in user preferences, using UTC', { userId, timezone });
+      return 'UTC';
+    }
+  }
+
+  private async getRow(scheduleId: string, client: SupabaseClient): Promise<ScheduledMessageRow> {
+    const { data, error } = await client
+      .from('scheduled_messages')
+      .select('*')
+      .eq('id', scheduleId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new ScheduleError('not_found', 'Scheduled message not found');
+    return data as ScheduledMessageRow;
+  }
+
+  /** Status change that only applies if the schedule is still in an allowed state */
+  private async transition(
+    scheduleId: string,
+    actor: ScheduleActor,
+    from: ScheduleStatus[],
+    update: Partial<ScheduledMessageRow>,
+    client: SupabaseClient
+  ): Promise<ScheduledMessage> {
+    const row = await this.getRow(scheduleId, client);
+    if (row.created_by !== actor.id && actor.role !== 'admin') {
+      throw new ScheduleError('forbidden', 'Only the creator or an admin can change this schedule');
+    }
+    if (!from.includes(row.status)) {
+      throw new ScheduleError('invalid_state', `Schedule is ${row.status}`);
+    }
+
+    const { data, error } = await client
+      .from('scheduled_messages')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', scheduleId)
+      .in('status', from)
+      .select();
+
+    if (error) throw error;
+    if (!data?.length) {
+      throw new ScheduleError('invalid_state', 'Schedule changed while updating it');
+    }
+
+    await logger.info('Scheduled message updated', { scheduleId, status: update.status, actorId: actor.id });
+    return toScheduled(data[0] as ScheduledMessageRow);
+  }
+}
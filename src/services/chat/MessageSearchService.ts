@@ -4,10 +4,26 @@ import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../../lib/logger';
 import {
   MessageSearchResult,
+  SearchMode,
   SearchOptions,
   SearchStatistics,
   SearchAuditLog
 } from '../../types/chat';
+import {
+  DEFAULT_HYBRID_WEIGHTS,
+  EmbeddingProvider,
+  HybridCandidate,
+  HybridWeights,
+  IndexableMessage,
+  MessageEmbeddingIndexer,
+  createEmbeddingProvider,
+  fuseCandidates
+} from './search';
+
+/** Candidates fetched per signal before fusion and pagination */
+const HYBRID_CANDIDATES = 200;
+/** Vector-only hits below this cosine similarity are dropped */
+const MIN_SIMILARITY = 0.3;
 
 export class MessageSearchService {
   private static instance: MessageSearchService;
@@ -15,15 +31,35 @@ export class MessageSearchService {
   private redis: Redis;
   private readonly CACHE_TTL = 5 * 60; // 5 minutes
   private readonly MAX_RESULTS = 100;
+  private embeddings: EmbeddingProvider | null;
+  private indexer: MessageEmbeddingIndexer | null;
+  private weights: HybridWeights;
 
-  private constructor(supabaseClient: SupabaseClient, redis: Redis) {
+  private constructor(
+    supabaseClient: SupabaseClient,
+    redis: Redis,
+    embeddings: EmbeddingProvider | null,
+    weights: HybridWeights
+  ) {
     this.supabase = supabaseClient;
     this.redis = redis;
+    this.embeddings = embeddings;
+    this.indexer = embeddings ? new MessageEmbeddingIndexer(supabaseClient, embeddings) : null;
+    this.weights = weights;
   }
 
-  public static getInstance(supabaseClient: SupabaseClient, redis: Redis): MessageSearchService {
+  /**
+   * `embeddings` defaults to the provider configured by `EMBEDDING_PROVIDER`;
+   * without one, searches run as full-text only.
+   */
+  public static getInstance(
+    supabaseClient: SupabaseClient,
+    redis: Redis,
+    embeddings: EmbeddingProvider | null = createEmbeddingProvider(),
+    weights: HybridWeights = DEFAULT_HYBRID_WEIGHTS
+  ): MessageSearchService {
     if (!MessageSearchService.instance) {
-      MessageSearchService.instance = new MessageSearchService(supabaseClient, redis);
+      MessageSearchService.instance = new MessageSearchService(supabaseClient, redis, embeddings, weights);
     }
     return MessageSearchService.instance;
   }
@@ -35,13 +71,14 @@ export class MessageSearchService {
   private async logSearch(
     options: SearchOptions,
     resultCount: number,
-    executionTime: number
+    executionTime: number,
+    client: SupabaseClient
   ): Promise<void> {
     try {
-      const user = await this.supabase.auth.getUser();
+      const user = await client.auth.getUser();
       if (!user.data.user) return;
 
-      const { error } = await this.supabase.from('search_audit_logs').insert({
+      const { error } = await client.from('search_audit_logs').insert({
         id: uuidv4(),
         user_id: user.data.user.id,
         thread_id: options.thread_id,
@@ -53,13 +90,19 @@ export class MessageSearchService {
             start_date: options.start_date,
             end_date: options.end_date,
             sender_id: options.sender_id,
-            sort: options.sort
+            sort: options.sort,
+            mode: this.resolveMode(options),
+            emotion_tags: options.emotion_tags,
+            risk_flags: options.risk_flags
           },
-          client_info: {
-            browser: navigator.userAgent,
-            os: navigator.platform,
-            device: 'web'
-          }
+          // Server-side callers (e.g. AI tools) have no navigator
+          client_info: typeof navigator !== 'undefined'
+            ? {
+                browser: navigator.userAgent,
+                os: navigator.platform,
+                device: 'web'
+              }
+            : { device: 'server' }
         }
       });
 
@@ -77,7 +120,14 @@ export class MessageSearchService {
     }
   }
 
-  public async searchMessages(options: SearchOptions): Promise<MessageSearchResult[]> {
+  /**
+   * Server-side callers pass the caller's client so the search runs under
+   * RLS as the caller rather than as this instance's client.
+   */
+  public async searchMessages(
+    options: SearchOptions,
+    client: SupabaseClient = this.supabase
+  ): Promise<MessageSearchResult[]> {
     const startTime = Date.now();
     const cacheKey = this.getCacheKey(options);
 
@@ -89,49 +139,9 @@ export class MessageSearchService {
         return cachedResults;
       }
 
-      // Build the search query
-      let query = this.supabase
-        .from('message_search_results')
-        .select('*')
-        .textSearch('search_vector', options.query);
-
-      // Apply filters
-      if (options.thread_id) {
-        query = query.eq('thread_id', options.thread_id);
-      }
-      if (options.start_date) {
-        query = query.gte('created_at', options.start_date);
-      }
-      if (options.end_date) {
-        query = query.lte('created_at', options.end_date);
-      }
-      if (options.sender_id) {
-        query = query.eq('sender_id', options.sender_id);
-      }
-
-      // Apply sorting
-      switch (options.sort) {
-        case 'date_asc':
-          query = query.order('created_at', { ascending: true });
-          break;
-        case 'date_desc':
-          query = query.order('created_at', { ascending: false });
-          break;
-        default: // rank
-          query = query.order('rank', { ascending: false });
-      }
-
-      // Apply pagination
-      query = query
-        .range(options.offset || 0, Math.min((options.offset || 0) + (options.limit || 20), this.MAX_RESULTS))
-        .limit(options.limit || 20);
-
-      // Execute search
-      const { data: results, error } = await query;
-
-      if (error) throw error;
-
-      const searchResults = results as MessageSearchResult[];
+      const searchResults = this.resolveMode(options) === 'fulltext' && !this.hasSignalFilters(options)
+        ? await this.fullTextSearch(options, client)
+        : await this.hybridSearch(options, client);
 
       // Cache results
       await this.redis.set(cacheKey, searchResults, {
@@ -140,7 +150,7 @@ export class MessageSearchService {
 
       // Log search
       const executionTime = Date.now() - startTime;
-      await this.logSearch(options, searchResults.length, executionTime);
+      await this.logSearch(options, searchResults.length, executionTime, client);
 
       await logger.info('Search completed', {
         options,
@@ -159,6 +169,120 @@ export class MessageSearchService {
     }
   }
 
+  /**
+   * Embeds a message for semantic search. Called with the plaintext at send
+   * time; a no-op when no embedding provider is configured.
+   */
+  public async indexMessage(message: IndexableMessage): Promise<void> {
+    if (!this.indexer) return;
+    await this.indexer.indexMessage(message);
+  }
+
+  /** Re-embeds a batch of messages, e.g. when backfilling or switching models */
+  public async indexMessages(messages: IndexableMessage[]): Promise<number> {
+    if (!this.indexer) return 0;
+    return this.indexer.indexMessages(messages);
+  }
+
+  private resolveMode(options: SearchOptions): SearchMode {
+    if (!this.embeddings) return 'fulltext';
+    return options.mode ?? 'hybrid';
+  }
+
+  private hasSignalFilters(options: SearchOptions): boolean {
+    return Boolean(options.emotion_tags?.length || options.risk_flags?.length);
+  }
+
+  private async fullTextSearch(options: SearchOptions, client: SupabaseClient): Promise<MessageSearchResult[]> {
+    // Build the search query
+    let query = client
+      .from('message_search_results')
+      .select('*')
+      .textSearch('search_vector', options.query);
+
+    // Apply filters
+    if (options.thread_id) {
+      query = query.eq('thread_id', options.thread_id);
+    }
+    if (options.start_date) {
+      query = query.gte('created_at', options.start_date);
+    }
+    if (options.end_date) {
+      query = query.lte('created_at', options.end_date);
+    }
+    if (options.sender_id) {
+      query = query.eq('sender_id', options.sender_id);
+    }
+
+    // Apply sorting
+    switch (options.sort) {
+      case 'date_asc':
+        query = query.order('created_at', { ascending: true });
+        break;
+      case 'date_desc':
+        query = query.order('created_at', { ascending: false });
+        break;
+      default: // rank
+        query = query.order('rank', { ascending: false });
+    }
+
+    // Apply pagination
+    query = query
+      .range(options.offset || 0, Math.min((options.offset || 0) + (options.limit || 20), this.MAX_RESULTS))
+      .limit(options.limit || 20);
+
+    // Execute search
+    const { data: results, error } = await query;
+
+    if (error) throw error;
+
+    return results as MessageSearchResult[];
+  }
+
+  /**
+   * Runs text and vector retrieval in one RPC (which also applies the
+   * emotion/risk filters), fuses the two scores, then sorts and paginates
+   * locally. Full-text mode with signal filters also lands here, with no
+   * query embedding.
+   */
+  private async hybridSearch(options: SearchOptions, client: SupabaseClient): Promise<MessageSearchResult[]> {
+    const mode = this.resolveMode(options);
+    const queryEmbedding = mode !== 'fulltext' && this.embeddings
+      ? (await this.embeddings.embed([options.query]))[0]
+      : null;
+
+    const { data, error } = await client.rpc('hybrid_search_messages', {
+      query_text: options.query,
+      query_embedding: queryEmbedding ? JSON.stringify(queryEmbedding) : null,
+      match_count: HYBRID_CANDIDATES,
+      min_similarity: MIN_SIMILARITY,
+      filter_thread_id: options.thread_id ?? null,
+      filter_sender_id: options.sender_id ?? null,
+      filter_start: options.start_date ?? null,
+      filter_end: options.end_date ?? null,
+      filter_emotion_tags: options.emotion_tags?.length ? options.emotion_tags : null,
+      filter_risk_flags: options.risk_flags?.length ? options.risk_flags : null
+    });
+
+    if (error) throw error;
+
+    const weights: HybridWeights = mode === 'semantic'
+      ? { text: 0, vector: 1 }
+      : mode === 'fulltext'
+        ? { text: 1, vector: 0 }
+        : this.weights;
+    const results = fuseCandidates((data ?? []) as HybridCandidate[], weights);
+
+    if (options.sort === 'date_asc' || options.sort === 'date_desc') {
+      const direction = options.sort === 'date_asc' ? 1 : -1;
+      results.sort((a, b) => direction * (Date.parse(a.created_at) - Date.parse(b.created_at)));
+    }
+
+    const offset = options.offset || 0;
+    const limit = Math.min(options.limit || 20, Math.max(0, this.MAX_RESULTS - offset));
+    return results.slice(offset, offset + limit);
+  }
+
   public async getSearchStatistics(threadId: string): Promise<SearchStatistics[]> {
     try {
       const { data, error } = await this.supabase
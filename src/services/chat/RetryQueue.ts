@@ -0,0 +1,227 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type RetryJobStatus = 'pending' | 'in_flight' | 'dead';
+
+export interface RetryJob<T> {
+  messageId: string;
+  threadId: string;
+  payload: T;
+  /** Incremented on every claim, so a worker dying mid-attempt still counts */
+  attempts: number;
+  status: RetryJobStatus;
+  availableAt: Date;
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** How long a claimed job stays invisible to other workers */
+  visibilityTimeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  visibilityTimeoutMs: 60 * 1000
+};
+
+export interface RetryQueue<T> {
+  enqueue(messageId: string, threadId: string, payload: T, error?: string): Promise<void>;
+  claim(owner: string, limit: number): Promise<RetryJob<T>[]>;
+  /** Remove a job that succeeded. Ignored if the lease was lost. */
+  ack(messageId: string, owner: string): Promise<void>;
+  /** Reschedule a failed attempt, or dead-letter it once attempts are exhausted */
+  fail(job: RetryJob<T>, owner: string, error: string): Promise<RetryJobStatus>;
+  deadLetter(job: RetryJob<T>, owner: string, error: string): Promise<void>;
+  listDeadLetters(threadId?: string, limit?: number): Promise<RetryJob<T>[]>;
+  /** Move a dead letter back to pending with a fresh attempt budget */
+  replay(messageId: string): Promise<boolean>;
+  discard(messageId: string): Promise<boolean>;
+  stats(): Promise<Record<RetryJobStatus, number>>;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the capped delay is fixed, the
+ * other half random, so retries from many instances spread out without ever
+ * collapsing to zero.
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'> = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number {
+  const capped = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(capped / 2 + random() * (capped / 2));
+}
+
+interface RetryQueueRow {
+  message_id: string;
+  thread_id: string;
+  payload: unknown;
+  attempts: number;
+  status: RetryJobStatus;
+  available_at: string;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toJob<T>(row: RetryQueueRow): RetryJob<T> {
+  return {
+    messageId: row.message_id,
+    threadId: row.thread_id,
+    payload: row.payload as T,
+    attempts: row.attempts,
+    status: row.status,
+    availableAt: new Date(row.available_at),
+    leaseOwner: row.lease_owner ?? undefined,
+    leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at) : undefined,
+    lastError: row.last_error ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+/**
+ * Retry queue in the `message_retry_queue` table. Claims go through the
+ * `claim_message_retries` function, which leases rows with SKIP LOCKED so
+ * any number of instances can poll without handing out the same job twice.
+ * Every write after a claim is conditional on still holding the lease.
+ */
+export class SupabaseRetryQueue<T> implements RetryQueue<T> {
+  constructor(
+    private supabase: SupabaseClient,
+    private policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    private table = 'message_retry_queue'
+  ) {}
+
+  async enqueue(messageId: string, threadId: string, payload: T, error?: string): Promise<void> {
+    const now = new Date().toISOString();
+    // A message already queued keeps its attempt count and schedule
+    const { error: insertError } = await this.supabase.from(this.table).upsert(
+      {
+        message_id: messageId,
+        thread_id: threadId,
+        payload,
+        status: 'pending',
+        available_at: now,
+        last_error: error ?? null,
+        updated_at: now
+      },
+      { onConflict: 'message_id', ignoreDuplicates: true }
+    );
+    if (insertError) throw insertError;
+  }
+
+  async claim(owner: string, limit: number): Promise<RetryJob<T>[]> {
+    const { data, error } = await this.supabase.rpc('claim_message_retries', {
+      p_owner: owner,
+      p_limit: limit,
+      p_visibility_ms: this.policy.visibilityTimeoutMs,
+      p_max_attempts: this.policy.maxAttempts
+    });
+    if (error) throw error;
+    return ((data ?? []) as RetryQueueRow[]).map(row => toJob<T>(row));
+  }
+
+  async ack(messageId: string, owner: string): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.table)
+      .delete()
+      .eq('message_id', messageId)
+      .eq('lease_owner', owner);
+    if (error) throw error;
+  }
+
+  async fail(job: RetryJob<T>, owner: string, error: string): Promise<RetryJobStatus> {
+    if (job.attempts >= this.policy.maxAttempts) {
+      await this.deadLetter(job, owner, error);
+      return 'dead';
+    }
+
+    const availableAt = new Date(Date.now() + computeBackoff(job.attempts, this.policy));
+    await this.release(job.messageId, owner, {
+      status: 'pending',
+      available_at: availableAt.toISOString(),
+      last_error: error
+    });
+    return 'pending';
+  }
+
+  async deadLetter(job: RetryJob<T>, owner: string, error: string): Promise<void> {
+    await this.release(job.messageId, owner, { status: 'dead', last_error: error });
+  }
+
+  async listDeadLetters(threadId?: string, limit = 100): Promise<RetryJob<T>[]> {
+    let query = this.supabase
+      .from(this.table)
+      .select('*')
+      .eq('status', 'dead');
+    if (threadId) {
+      query = query.eq('thread_id', threadId);
+    }
+    const { data, error } = await query.order('updated_at', { ascending: false }).limit(limit);
+    if (error) throw error;
+    return ((data ?? []) as RetryQueueRow[]).map(row => toJob<T>(row));
+  }
+
+  async replay(messageId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .update({
+        status: 'pending',
+        attempts: 0,
+        available_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('message_id', messageId)
+      .eq('status', 'dead')
+      .select('message_id');
+    if (error) throw error;
+    return (data?.length ?? 0) > 0;
+  }
+
+  async discard(messageId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .delete()
+      .eq('message_id', messageId)
+      .eq('status', 'dead')
+      .select('message_id');
+    if (error) throw error;
+    return (data?.length ?? 0) > 0;
+  }
+
+  async stats(): Promise<Record<RetryJobStatus, number>> {
+    const { data, error } = await this.supabase.from(this.table).select('status');
+    if (error) throw error;
+    const counts: Record<RetryJobStatus, number> = { pending: 0, in_flight: 0, dead: 0 };
+    for (const row of (data ?? []) as Array<Pick<RetryQueueRow, 'status'>>) {
+      counts[row.status]++;
+    }
+    return counts;
+  }
+
+  private async release(messageId: string, owner: string, update: Partial<RetryQueueRow>): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.table)
+      .update({
+        ...update,
+        lease_owner: null,
+        lease_expires_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('message_id', messageId)
+      .eq('lease_owner', owner);
+    if (error) throw error;
+  }
+}
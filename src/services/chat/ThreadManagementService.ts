@@ -10,12 +10,25 @@ import {
   ThreadGroup,
   ThreadAuditLog
 } from '../../types/thread';
+import {
+  BundleRow,
+  MESSAGE_PARENT_FIELDS,
+  ThreadBundleCodec,
+  ThreadBundlePayload,
+  ThreadExportOptions,
+  ThreadImportOptions,
+  ThreadImportResult,
+  parseBundle,
+  remapPayload,
+  serializeBundle
+} from './threadBundle';
 
 export class ThreadManagementService implements ThreadManager {
   private static instance: ThreadManagementService;
   private supabase: SupabaseClient;
   private redis: Redis;
   private readonly CACHE_TTL = 5 * 60; // 5 minutes
+  private bundleCodec?: ThreadBundleCodec;
 
   private constructor(supabaseClient: SupabaseClient, redis: Redis) {
     this.supabase = supabaseClient;
@@ -40,7 +53,7 @@ export class ThreadManagementService implements ThreadManager {
     }
   }
 
-  public async getThread(threadId: string): Promise<ThreadWithMetadata> {
+  public async getThread(threadId: string, client: SupabaseClient = this.supabase): Promise<ThreadWithMetadata> {
     const cacheKey = this.getCacheKey(`${threadId}:metadata`);
     
     try {
@@ -51,7 +64,7 @@ export class ThreadManagementService implements ThreadManager {
       }
 
       // Fetch thread data
-      const { data: thread, error: threadError } = await this.supabase
+      const { data: thread, error: threadError } = await client
         .from('chat_threads')
         .select(`
           *,
@@ -72,7 +85,7 @@ export class ThreadManagementService implements ThreadManager {
       if (!thread) throw new Error('Thread not found');
 
       // Get unread count
-      const { data: unreadCount, error: unreadError } = await this.supabase
+      const { data: unreadCount, error: unreadError } = await client
         .from('messages')
         .select('id', { count: 'exact' })
         .eq('thread_id', threadId)
@@ -81,7 +94,7 @@ export class ThreadManagementService implements ThreadManager {
       if (unreadError) throw unreadError;
 
       // Get last message
-      const { data: lastMessage, error: messageError } = await this.supabase
+      const { data: lastMessage, error: messageError } = await client
         .from('messages')
         .select('id, content, sender_id, created_at')
         .eq('thread_id', threadId)
@@ -214,24 +227,24 @@ export class ThreadManagementService implements ThreadManager {
       userId: string;
       role: 'therapist' | 'client';
     }>;
-  }): Promise<ThreadWithMetadata> {
+  }, client: SupabaseClient = this.supabase): Promise<ThreadWithMetadata> {
     const threadId = uuidv4();
 
     try {
       // Start transaction
-      const { error: txError } = await this.supabase.rpc('begin_transaction');
+      const { error: txError } = await client.rpc('begin_transaction');
       if (txError) throw txError;
 
       try {
         // Create thread
-        const { error: threadError } = await this.supabase
+        const { error: threadError } = await client
           .from('chat_threads')
           .insert({ id: threadId });
 
         if (threadError) throw threadError;
 
         // Create metadata
-        const { error: metadataError } = await this.supabase
+        const { error: metadataError } = await client
           .from('thread_metadata')
           .insert({
             thread_id: threadId,
@@ -244,7 +257,7 @@ export class ThreadManagementService implements ThreadManager {
 
         // Create hierarchy if parent exists
         if (data.parentId) {
-          const { error: hierarchyError } = await this.supabase
+          const { error: hierarchyError } = await client
             .from('thread_hierarchy')
             .insert({
               thread_id: threadId,
@@ -256,7 +269,7 @@ export class ThreadManagementService implements ThreadManager {
         }
 
         // Add participants
-        const { error: participantError } = await this.supabase
+        const { error: participantError } = await client
           .from('chat_threads_participants')
           .insert(
             data.participants.map(p => ({
@@ -269,14 +282,14 @@ export class ThreadManagementService implements ThreadManager {
         if (participantError) throw participantError;
 
         // Commit transaction
-        const { error: commitError } = await this.supabase.rpc('commit_transaction');
+        const { error: commitError } = await client.rpc('commit_transaction');
         if (commitError) throw commitError;
 
         // Get the created thread
-        return await this.getThread(threadId);
+        return await this.getThread(threadId, client);
       } catch (err) {
         // Rollback transaction
-        await this.supabase.rpc('rollback_transaction');
+        await client.rpc('rollback_transaction');
         throw err;
       }
     } catch (err) {
@@ -296,9 +309,9 @@ export class ThreadManagementService implements ThreadManager {
     color?: string;
     icon?: string;
     custom_properties?: Record<string, unknown>;
-  }): Promise<ThreadWithMetadata> {
+  }, client: SupabaseClient = this.supabase): Promise<ThreadWithMetadata> {
     try {
-      const { error } = await this.supabase
+      const { error } = await client
         .from('thread_metadata')
         .update({
           ...data,
@@ -309,7 +322,7 @@ export class ThreadManagementService implements ThreadManager {
       if (error) throw error;
 
       await this.clearThreadCache(threadId);
-      return await this.getThread(threadId);
+      return await this.getThread(threadId, client);
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Failed to update thread');
       await logger.error('Error updating thread', {
@@ -400,12 +413,12 @@ export class ThreadManagementService implements ThreadManager {
     color?: string;
     icon?: string;
     position: number;
-  }): Promise<ThreadGroup> {
+  }, client: SupabaseClient = this.supabase): Promise<ThreadGroup> {
     try {
-      const user = await this.supabase.auth.getUser();
+      const user = await client.auth.getUser();
       if (!user.data.user) throw new Error('User not authenticated');
 
-      const { data: group, error } = await this.supabase
+      const { data: group, error } = await client
         .from('thread_groups')
         .insert({
           ...data,
@@ -461,12 +474,17 @@ export class ThreadManagementService implements ThreadManager {
     }
   }
 
-  public async addThreadToGroup(groupId: string, threadId: string, position: number): Promise<void> {
+  public async addThreadToGroup(
+    groupId: string,
+    threadId: string,
+    position: number,
+    client: SupabaseClient = this.supabase
+  ): Promise<void> {
     try {
-      const user = await this.supabase.auth.getUser();
+      const user = await client.auth.getUser();
       if (!user.data.user) throw new Error('User not authenticated');
 
-      const { error } = await this.supabase
+      const { error } = await client
         .from('thread_group_members')
         .upsert({
           group_id: groupId,
@@ -572,4 +590,184 @@ export class ThreadManagementService implements ThreadManager {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  private getBundleCodec(): ThreadBundleCodec {
+    if (!this.bundleCodec) {
+      this.bundleCodec = ThreadBundleCodec.fromEnv();
+    }
+    return this.bundleCodec;
+  }
+
+  private async selectRows(
+    table: string,
+    column: string,
+    values: string | string[],
+    client: SupabaseClient
+  ): Promise<BundleRow[]> {
+    if (Array.isArray(values) && values.length === 0) return [];
+
+    const query = client.from(table).select('*');
+    const { data, error } = Array.isArray(values)
+      ? await query.in(column, values)
+      : await query.eq(column, values);
+
+    if (error) throw error;
+    return (data ?? []) as BundleRow[];
+  }
+
+  private async collectThreadPayload(
+    threadId: string,
+    includeSupervision: boolean,
+    client: SupabaseClient
+  ): Promise<ThreadBundlePayload> {
+    const [metadata, hierarchy, participants, allMessages, allAttachments, metrics, events] = await Promise.all([
+      this.selectRows('thread_metadata', 'thread_id', threadId, client),
+      this.selectRows('thread_hierarchy', 'thread_id', threadId, client),
+      this.selectRows('chat_threads_participants', 'thread_id', threadId, client),
+      this.selectRows('messages', 'thread_id', threadId, client),
+      this.selectRows('attachments', 'thread_id', threadId, client),
+      this.selectRows('thread_metrics', 'thread_id', threadId, client),
+      this.selectRows('thread_events', 'thread_id', threadId, client)
+    ]);
+
+    if (metadata.length === 0) throw new Error('Thread not found');
+
+    // Supervisor whispers never leave in client-facing exports; replies that
+    // pointed at one are detached so the bundle still validates
+    const whisperIds = new Set(
+      allMessages
+        .filter(message => !includeSupervision && message.visibility === 'supervision')
+        .map(message => message.id as string)
+    );
+    const messages = allMessages
+      .filter(message => !whisperIds.has(message.id as string))
+      .map(message => {
+        const detached = MESSAGE_PARENT_FIELDS.filter(field => whisperIds.has(message[field] as string));
+        return detached.length === 0
+          ? message
+          : { ...message, ...Object.fromEntries(detached.map(field => [field, null])) };
+      });
+    const attachments = allAttachments.filter(attachment => !whisperIds.has(attachment.message_id as string));
+
+    const messageIds = messages.map(message => message.id as string);
+    const [reactions, edits] = await Promise.all([
+      this.selectRows('message_reactions', 'message_id', messageIds, client),
+      this.selectRows('session_message_edits', 'message_id', messageIds, client)
+    ]);
+
+    return {
+      thread: { metadata: metadata[0], hierarchy: hierarchy[0] ?? null },
+      participants,
+      messages: [...messages].sort((a, b) => String(a.created_at).localeCompare(String(b.created_at))),
+      reactions,
+      edits,
+      attachments: attachments.filter(attachment => !attachment.deleted_at),
+      analytics: { metrics: metrics[0] ?? null, events }
+    };
+  }
+
+  /**
+   * Packages a thread with its messages, reactions, edits, attachment
+   * records and analytics into a signed (and optionally encrypted) bundle.
+   * Attachment files stay in storage; their records keep storage paths and
+   * key metadata so the objects can be copied alongside.
+   */
+  public async exportThread(
+    threadId: string,
+    options: ThreadExportOptions = {},
+    client: SupabaseClient = this.supabase
+  ): Promise<string> {
+    try {
+      const payload = await this.collectThreadPayload(threadId, options.includeSupervision ?? false, client);
+      const bundle = await this.getBundleCodec().seal(payload, {
+        sourceThreadId: threadId,
+        exportedBy: options.exportedBy,
+        passphrase: options.passphrase
+      });
+
+      await logger.info('Thread exported', {
+        threadId,
+        bundleId: bundle.manifest.bundle_id,
+        counts: bundle.manifest.counts,
+        encrypted: bundle.manifest.encryption !== null
+      });
+
+      return serializeBundle(bundle);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to export thread');
+      await logger.error('Error exporting thread', error, { threadId });
+      throw error;
+    }
+  }
+
+  /**
+   * Recreates a bundled thread under new ids. The bundle is fully verified
+   * and every referenced user must be mapped before anything is written;
+   * the rows are then written by import_thread_bundle in one transaction.
+   */
+  public async importThread(
+    serialized: string,
+    options: ThreadImportOptions,
+    client: SupabaseClient = this.supabase
+  ): Promise<ThreadImportResult> {
+    try {
+      const { manifest, payload } = await this.getBundleCodec().open(parseBundle(serialized), options.passphrase);
+
+      const threadId = uuidv4();
+      const rows = remapPayload(payload, {
+        threadId,
+        userIdMap: options.userIdMap,
+        parentThreadId: options.parentThreadId
+      });
+
+      const metadata = rows.metadata ?? { thread_id: threadId, status: 'active' };
+      const customProperties = (metadata.custom_properties as Record<string, unknown> | undefined) ?? {};
+
+      // Ordered: later tables reference rows inserted earlier
+      const tables: Array<{ table: string; rows: BundleRow[] }> = [
+        { table: 'chat_threads', rows: [{ id: threadId }] },
+        {
+          table: 'thread_metadata',
+          rows: [{
+            ...metadata,
+            custom_properties: {
+              ...customProperties,
+              imported_from: { bundle_id: manifest.bundle_id, source_thread_id: manifest.source_thread_id }
+            }
+          }]
+        },
+        { table: 'thread_hierarchy', rows: rows.hierarchy ? [rows.hierarchy] : [] },
+        { table: 'chat_threads_participants', rows: rows.participants },
+        { table: 'messages', rows: rows.messages },
+        { table: 'message_reactions', rows: rows.reactions },
+        { table: 'session_message_edits', rows: rows.edits },
+        { table: 'attachments', rows: rows.attachments },
+        { table: 'thread_metrics', rows: rows.metrics ? [rows.metrics] : [] },
+        { table: 'thread_events', rows: rows.events }
+      ];
+
+      const { error: importError } = await client.rpc('import_thread_bundle', {
+        p_tables: tables.filter(({ rows: tableRows }) => tableRows.length > 0)
+      });
+      if (importError) throw importError;
+
+      await logger.info('Thread imported', {
+        threadId,
+        bundleId: manifest.bundle_id,
+        sourceThreadId: manifest.source_thread_id,
+        counts: manifest.counts
+      });
+
+      return {
+        threadId,
+        bundleId: manifest.bundle_id,
+        counts: manifest.counts,
+        messageIds: rows.messageIds
+      };
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to import thread');
+      await logger.error('Error importing thread', error);
+      throw error;
+    }
+  }
+}
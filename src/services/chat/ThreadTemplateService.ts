@@ -0,0 +1,393 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Redis } from '@upstash/redis';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { logger } from '../../lib/logger';
+import { Message } from '../../types/chat/message';
+import { ChatService } from './ChatService';
+import { ThreadManagementService } from './ThreadManagementService';
+import {
+  ProvisionReport,
+  ProvisionResult,
+  ProvisionTarget,
+  TEMPLATE_ROLES,
+  TemplateActor,
+  TemplateError,
+  ThreadTemplate,
+  ThreadTemplateDefinition,
+  ThreadTemplateEntry,
+  assertValidDefinition,
+  clientProfileIds,
+  renderText
+} from './templates';
+
+type MessageSender = Pick<ChatService, 'sendMessage'>;
+type ThreadOperations = Pick<ThreadManagementService, 'createThread' | 'updateThread' | 'createGroup' | 'addThreadToGroup'>;
+
+interface ThreadTemplateRow {
+  id: string;
+  name: string;
+  description: string | null;
+  definition: ThreadTemplateDefinition;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ProvisionRow {
+  id: string;
+  template_id: string;
+  user_id: string;
+  status: 'in_progress' | 'completed';
+  group_id: string | null;
+  thread_ids: Record<string, string>;
+}
+
+/** Progress of one trainee, kept outside the attempt so failures can report it */
+interface ProvisionProgress {
+  groupId: string | null;
+  threadIds: Record<string, string>;
+}
+
+// Namespace for seed message ids, so a retried provisioning reuses them
+const SEED_NAMESPACE = 'a3d9e2f4-7b61-4c8e-9f05-2e8b6c1d4a70';
+
+const toTemplate = (row: ThreadTemplateRow): ThreadTemplate => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  definition: row.definition,
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+/**
+ * Thread and group templates for training cohorts. Provisioning builds on
+ * ThreadManagementService one trainee at a time and records progress in
+ * `thread_template_provisions` after every step, so re-running a cohort
+ * skips finished trainees and resumes partial ones without duplicating
+ * threads, seed messages or group memberships.
+ *
+ * The instance is shared across requests, so routes pass the caller's
+ * client to each call; threads, seed messages and progress rows are then
+ * written under the caller's own row-level security.
+ */
+export class ThreadTemplateService {
+  private static instance: ThreadTemplateService;
+  private supabase: SupabaseClient;
+  private threads: ThreadOperations;
+  private createSender: (client: SupabaseClient) => MessageSender;
+
+  private constructor(
+    supabaseClient: SupabaseClient,
+    threads: ThreadOperations,
+    createSender: (client: SupabaseClient) => MessageSender
+  ) {
+    this.supabase = supabaseClient;
+    this.threads = threads;
+    this.createSender = createSender;
+  }
+
+  public static getInstance(
+    supabaseClient: SupabaseClient,
+    redis: Redis,
+    sender?: MessageSender
+  ): ThreadTemplateService {
+    if (!ThreadTemplateService.instance) {
+      ThreadTemplateService.instance = new ThreadTemplateService(
+        supabaseClient,
+        ThreadManagementService.getInstance(supabaseClient, redis),
+        sender ? () => sender : ThreadTemplateService.createChatService
+      );
+    }
+    return ThreadTemplateService.instance;
+  }
+
+  private static createChatService(supabaseClient: SupabaseClient): ChatService {
+    const chatService = new ChatService();
+    chatService.setSupabaseClient(supabaseClient);
+    return chatService;
+  }
+
+  private assertTemplateRole(actor: TemplateActor): void {
+    if (!TEMPLATE_ROLES.includes(actor.role)) {
+      throw new TemplateError('forbidden', 'Only instructors and admins can manage thread templates');
+    }
+  }
+
+  public async createTemplate(
+    data: { name: string; description?: string; definition: ThreadTemplateDefinition },
+    actor: TemplateActor,
+    client: SupabaseClient = this.supabase
+  ): Promise<ThreadTemplate> {
+    this.assertTemplateRole(actor);
+    assertValidDefinition(data.definition);
+    await this.assertClientProfilesExist(data.definition, client);
+
+    const { data: row, error } = await client
+      .from('thread_templates')
+      .insert({
+        id: uuidv4(),
+        name: data.name,
+        description: data.description ?? null,
+        definition: data.definition,
+        created_by: actor.id
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await logger.info('Thread template created', {
+      templateId: row.id,
+      threads: data.definition.threads.length
+    });
+    return toTemplate(row as ThreadTemplateRow);
+  }
+
+  public async getTemplate(templateId: string, client: SupabaseClient = this.supabase): Promise<ThreadTemplate> {
+    const { data, error } = await client
+      .from('thread_templates')
+      .select('*')
+      .eq('id', templateId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new TemplateError('not_found', 'Thread template not found');
+    return toTemplate(data as ThreadTemplateRow);
+  }
+
+  public async listTemplates(client: SupabaseClient = this.supabase): Promise<ThreadTemplate[]> {
+    const { data, error } = await client
+      .from('thread_templates')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return ((data ?? []) as ThreadTemplateRow[]).map(toTemplate);
+  }
+
+  /**
+   * Instantiates a template for each trainee. Trainees are independent:
+   * one failing is reported in its result and the rest carry on.
+   */
+  public async provision(
+    templateId: string,
+    targets: ProvisionTarget[],
+    actor: TemplateActor,
+    client: SupabaseClient = this.supabase
+  ): Promise<ProvisionReport> {
+    this.assertTemplateRole(actor);
+    const template = await this.getTemplate(templateId, client);
+    const sender = this.createSender(client);
+
+    const unique = Array.from(new Map(targets.map(target => [target.userId, target])).values());
+    const results: ProvisionResult[] = [];
+
+    for (const target of unique) {
+      const progress: ProvisionProgress = { groupId: null, threadIds: {} };
+      try {
+        results.push(await this.provisionOne(template, target, actor, progress, sender, client));
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Failed to provision template');
+        await logger.error('Template provisioning failed', error, { templateId, userId: target.userId });
+        // Best effort; the report carries the error either way
+        await client
+          .from('thread_template_provisions')
+          .update({ last_error: error.message, updated_at: new Date().toISOString() })
+          .eq('template_id', templateId)
+          .eq('user_id', target.userId);
+        results.push({ userId: target.userId, outcome: 'failed', ...progress, error: error.message });
+      }
+    }
+
+    const report: ProvisionReport = {
+      templateId,
+      results,
+      provisioned: results.filter(result => result.outcome === 'provisioned').length,
+      alreadyProvisioned: results.filter(result => result.outcome === 'already_provisioned').length,
+      failed: results.filter(result => result.outcome === 'failed').length
+    };
+
+    await logger.info('Template provisioned', {
+      templateId,
+      provisioned: report.provisioned,
+      alreadyProvisioned: report.alreadyProvisioned,
+      failed: report.failed
+    });
+    return report;
+  }
+
+  private async provisionOne(
+    template: ThreadTemplate,
+    target: ProvisionTarget,
+    actor: TemplateActor,
+    progress: ProvisionProgress,
+    sender: MessageSender,
+    client: SupabaseClient
+  ): Promise<ProvisionResult> {
+    const row = await this.getOrCreateProvision(template.id, target.userId, actor, client);
+    progress.groupId = row.group_id;
+    progress.threadIds = { ...row.thread_ids };
+
+    if (row.status === 'completed') {
+      return { userId: target.userId, outcome: 'already_provisioned', ...progress };
+    }
+
+    const vars = { name: target.displayName ?? target.userId };
+    const { group } = template.definition;
+
+    if (group && !progress.groupId) {
+      const created = await this.threads.createGroup({
+        ...group,
+        name: renderText(group.name, vars),
+        description: group.description && renderText(group.description, vars)
+      }, client);
+      progress.groupId = created.id;
+      await this.saveProgress(row.id, progress, client);
+    }
+
+    for (const entry of template.definition.threads) {
+      let threadId = progress.threadIds[entry.key];
+      if (!threadId) {
+        const thread = await this.threads.createThread({
+          title: renderText(entry.title, vars),
+          description: entry.description && renderText(entry.description, vars),
+          parentId: entry.parentKey ? progress.threadIds[entry.parentKey] : undefined,
+          participants: [{ userId: target.userId, role: 'therapist' }]
+        }, client);
+        threadId = thread.id;
+        progress.threadIds[entry.key] = threadId;
+        await this.saveProgress(row.id, progress, client);
+      }
+
+      // Everything after creation is repeatable, so a resumed run simply redoes it
+      await this.finishThread(template, entry, threadId, target, actor, progress.groupId, vars, sender, client);
+    }
+
+    const { error } = await client
+      .from('thread_template_provisions')
+      .update({ status: 'completed', last_error: null, updated_at: new Date().toISOString() })
+      .eq('id', row.id);
+    if (error) throw error;
+
+    return { userId: target.userId, outcome: 'provisioned', ...progress };
+  }
+
+  private async finishThread(
+    template: ThreadTemplate,
+    entry: ThreadTemplateEntry,
+    threadId: string,
+    target: ProvisionTarget,
+    actor: TemplateActor,
+    groupId: string | null,
+    vars: { name: string },
+    sender: MessageSender,
+    client: SupabaseClient
+  ): Promise<void> {
+    await this.threads.updateThread(threadId, {
+      ...(entry.pinned ? { status: 'pinned' as const } : {}),
+      custom_properties: {
+        template: { id: template.id, key: entry.key },
+        client_profile_id: entry.clientProfileId ?? null
+      }
+    }, client);
+
+    for (const [index, seed] of entry.seedMessages.entries()) {
+      const messageId = uuidv5(`${threadId}:seed:${index}`, SEED_NAMESPACE);
+      const { data: existing, error } = await client
+        .from('messages')
+        .select('id')
+        .eq('id', messageId)
+        .maybeSingle();
+      if (error) throw error;
+      if (existing) continue;
+
+      const now = new Date();
+      const message: Message = {
+        id: messageId,
+        threadId,
+        senderId: actor.id,
+        recipientId: target.userId,
+        content: renderText(seed.content, vars),
+        type: 'text',
+        status: 'sending',
+        timestamp: now,
+        metadata: {
+          templateId: template.id,
+          seedIndex: index,
+          seedRole: seed.role,
+          ...(seed.role === 'client' && entry.clientProfileId ? { clientProfileId: entry.clientProfileId } : {})
+        },
+        created_at: now.toISOString(),
+        updated_at: now.toISOString()
+      };
+      await sender.sendMessage(message);
+    }
+
+    if (groupId) {
+      await this.threads.addThreadToGroup(groupId, threadId, entry.position, client);
+    }
+  }
+
+  private async getOrCreateProvision(
+    templateId: string,
+    userId: string,
+    actor: TemplateActor,
+    client: SupabaseClient
+  ): Promise<ProvisionRow> {
+    const { data: existing, error } = await client
+      .from('thread_template_provisions')
+      .select('*')
+      .eq('template_id', templateId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (existing) return existing as ProvisionRow;
+
+    const { data: created, error: insertError } = await client
+      .from('thread_template_provisions')
+      .insert({
+        id: uuidv4(),
+        template_id: templateId,
+        user_id: userId,
+        status: 'in_progress',
+        group_id: null,
+        thread_ids: {},
+        provisioned_by: actor.id
+      })
+      .select()
+      .single();
+    if (insertError) throw insertError;
+    return created as ProvisionRow;
+  }
+
+  private async saveProgress(provisionId: string, progress: ProvisionProgress, client: SupabaseClient): Promise<void> {
+    const { error } = await client
+      .from('thread_template_provisions')
+      .update({
+        group_id: progress.groupId,
+        thread_ids: progress.threadIds,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', provisionId);
+    if (error) throw error;
+  }
+
+  private async assertClientProfilesExist(definition: ThreadTemplateDefinition, client: SupabaseClient): Promise<void> {
+    const ids = clientProfileIds(definition);
+    if (ids.length === 0) return;
+
+    const { data, error } = await client
+      .from('client_profiles')
+      .select('id')
+      .in('id', ids);
+    if (error) throw error;
+
+    const found = new Set((data ?? []).map((row: { id: string }) => row.id));
+    const missing = ids.filter(id => !found.has(id));
+    if (missing.length > 0) {
+      throw new TemplateError('unknown_client_profile', `Unknown client profiles: ${missing.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * @jest-environment node
+ */
+import { MessageHistoryService } from '../MessageHistoryService';
+import { applyRedactions, diffWords, RedactionError } from '../history';
+import { invalidateMessage } from '../../../lib/edge/chat-cache';
+import { invalidateMessageCache } from '../../../lib/edge/message-cache';
+import { MessageSearchService } from '../MessageSearchService';
+
+jest.mock('../../../lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../../../lib/edge/chat-cache', () => ({ invalidateMessage: jest.fn() }));
+jest.mock('../../../lib/edge/message-cache', () => ({ invalidateMessageCache: jest.fn() }));
+jest.mock('../../HIPAACompliantAuditService', () => ({ HIPAACompliantAuditService: jest.fn() }));
+jest.mock('../MessageSearchService', () => ({ MessageSearchService: { getInstance: jest.fn() } }));
+
+const supervisor = { id: 'sup-1', role: 'supervisor', ipAddress: '10.0.0.1' };
+const compliance = { id: 'co-1', role: 'compliance_officer', ipAddress: '10.0.0.2' };
+
+function createSupabase(tables: Record<string, any[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: any) => boolean> = [];
+    let update: Record<string, unknown> | null = null;
+    let remove = false;
+    const rows = () => (tables[table] ?? []).filter(row => filters.every(filter => filter(row)));
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      insert: async (row: any) => {
+        (tables[table] ??= []).push(row);
+        return { error: null };
+      },
+      update: (values: Record<string, unknown>) => {
+        update = values;
+        return builder;
+      },
+      delete: () => {
+        remove = true;
+        return builder;
+      },
+      maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => void) => {
+        if (update) rows().forEach(row => Object.assign(row, update));
+        if (remove) tables[table] = (tables[table] ?? []).filter(row => !rows().includes(row));
+        resolve({ data: rows(), error: null });
+      }
+    };
+    return builder;
+  };
+  // apply_message_redaction writes the tombstone, message and edits together
+  const rpc = jest.fn(async (_name: string, { p_redaction, p_content, p_edits }: any) => {
+    (tables.message_redactions ??= []).push(p_redaction);
+    const message = tables.messages.find(row => row.id === p_redaction.message_id);
+    Object.assign(message, { content: p_content, is_redacted: true });
+    p_edits.forEach((scrubbed: any) => {
+      Object.assign(tables.session_message_edits.find(row => row.id === scrubbed.id), scrubbed);
+    });
+    return { error: null };
+  });
+  return { from, rpc };
+}
+
+describe('MessageHistoryService', () => {
+  let tables: Record<string, any[]>;
+  let audit: { logEvent: jest.Mock };
+  let indexMessage: jest.Mock;
+  let service: MessageHistoryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.MESSAGE_REDACTION_KEY = 'test-redaction-key';
+    tables = {
+      messages: [{ id: 'm1', thread_id: 't1', content: 'Client Jane Doe lives in Springfield', metadata: { emotions: ['calm'] } }],
+      session_message_edits: [
+        { id: 'e1', message_id: 'm1', editor_id: 'u1', previous_content: 'Client Jane lives nearby', new_content: 'Client Jane Doe lives in Springfield', edited_at: '2024-04-01T10:00:00Z' }
+      ],
+      message_embeddings: [{ message_id: 'm1', embedding: [0.1] }]
+    };
+    audit = { logEvent: jest.fn().mockResolvedValue(undefined) };
+    indexMessage = jest.fn().mockResolvedValue(undefined);
+    (MessageSearchService.getInstance as jest.Mock).mockReturnValue({ indexMessage });
+    (MessageHistoryService as any).instance = undefined;
+    service = MessageHistoryService.getInstance(createSupabase(tables) as any, {} as any, audit as any);
+  });
+
+  afterEach(() => {
+    delete process.env.MESSAGE_REDACTION_KEY;
+  });
+
+  it('should diff revisions word by word', async () => {
+    const [revision] = await service.getEditHistory('m1');
+
+    expect(revision.diff).toEqual([
+      { op: 'equal', text: 'Client Jane ' },
+      { op: 'insert', text: 'Doe ' },
+      { op: 'equal', text: 'lives ' },
+      { op: 'delete', text: 'nearby' },
+      { op: 'insert', text: 'in Springfield' }
+    ]);
+  });
+
+  it('should read through the client passed for the request', async () => {
+    const requestTables = { session_message_edits: [] };
+
+    expect(await service.getEditHistory('m1', createSupabase(requestTables) as any)).toEqual([]);
+  });
+
+  it('should replace spans with typed placeholders and reject overlaps', () => {
+    expect(applyRedactions('Call Ann at 555-0100', [
+      { start: 12, end: 20, category: 'contact' },
+      { start: 5, end: 8, category: 'name' }
+    ]).content).toBe('Call [REDACTED:NAME] at [REDACTED:CONTACT]');
+
+    expect(() => applyRedactions('abcdef', [
+      { start: 0, end: 3, category: 'name' },
+      { start: 2, end: 4, category: 'name' }
+    ])).toThrow(RedactionError);
+  });
+
+  it('should redact the message and scrub the same text from its history', async () => {
+    const record = await service.redactMessage('m1', {
+      spans: [{ start: 7, end: 15, category: 'name' }, { start: 25, end: 36, category: 'location' }],
+      reason: 'PHI in training transcript',
+      actor: supervisor
+    });
+
+    expect(tables.messages[0]).toMatchObject({
+      content: 'Client [REDACTED:NAME] lives in [REDACTED:LOCATION]',
+      is_redacted: true
+    });
+    expect(tables.session_message_edits[0].new_content).toBe('Client [REDACTED:NAME] lives in [REDACTED:LOCATION]');
+    expect(tables.message_redactions[0]).toMatchObject({ id: record.id, redacted_by: 'sup-1' });
+    expect(JSON.stringify(tables.message_redactions[0])).not.toContain('Jane Doe');
+  });
+
+  it('should audit without repeating PHI and refresh caches and search', async () => {
+    await service.redactMessage('m1', {
+      spans: [{ start: 7, end: 15, category: 'name' }],
+      reason: 'PHI',
+      actor: supervisor
+    });
+
+    const event = audit.logEvent.mock.calls[0][0];
+    expect(event).toMatchObject({
+      eventType: 'DATA_MODIFICATION',
+      actor: supervisor,
+      action: { type: 'UPDATE', status: 'success', details: { categories: ['name'], spanCount: 1 } },
+      resource: { type: 'message', id: 'm1' }
+    });
+    expect(JSON.stringify(event)).not.toContain('Jane');
+    expect(invalidateMessage).toHaveBeenCalledWith('m1');
+    expect(invalidateMessageCache).toHaveBeenCalledWith('t1');
+    expect(tables.message_embeddings).toHaveLength(0);
+    expect(indexMessage).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'm1',
+      content: 'Client [REDACTED:NAME] lives in Springfield',
+      emotion_tags: ['calm']
+    }));
+  });
+
+  it('should keep the original readable by compliance roles only', async () => {
+    const record = await service.redactMessage('m1', {
+      spans: [{ start: 7, end: 15, category: 'name' }],
+      reason: 'PHI',
+      actor: supervisor
+    });
+
+    await expect(service.getOriginal(record.id, supervisor)).rejects.toMatchObject({ code: 'forbidden' });
+    expect(audit.logEvent).toHaveBeenLastCalledWith(expect.objectContaining({
+      action: expect.objectContaining({ type: 'READ', status: 'failure' })
+    }));
+
+    const original = await service.getOriginal(record.id, compliance);
+    expect(original.content).toBe('Client Jane Doe lives in Springfield');
+    expect(original.edits[0].previous_content).toBe('Client Jane lives nearby');
+  });
+
+  it('should refuse redaction without a redactor role', async () => {
+    await expect(service.redactMessage('m1', {
+      spans: [{ start: 7, end: 15, category: 'name' }],
+      reason: 'PHI',
+      actor: { id: 'c1', role: 'client', ipAddress: '10.0.0.3' }
+    })).rejects.toMatchObject({ code: 'forbidden' });
+    expect(tables.messages[0].content).toContain('Jane Doe');
+  });
+
+  it('should produce diffs that rebuild the new text', () => {
+    const next = 'the quick  brown fox';
+    const rebuilt = diffWords('a quick fox', next)
+      .filter(segment => segment.op !== 'delete')
+      .map(segment => segment.text)
+      .join('');
+
+    expect(rebuilt).toBe(next);
+  });
+});
@@ -0,0 +1,234 @@
+import { MessageRecoveryService } from '../MessageRecoveryService';
+import { computeBackoff, RetryJob, RetryJobStatus, RetryQueue } from '../RetryQueue';
+
+const zk = {
+  encryptMessageWithSessionKey: jest.fn(),
+  reEncryptMessageWithNewKey: jest.fn()
+};
+
+jest.mock('../../zk/ZKService', () => ({
+  ZKService: { getInstance: () => zk }
+}));
+
+const forwardSecrecy = {
+  beginKeyTransition: jest.fn(),
+  encryptForUser: jest.fn()
+};
+
+jest.mock('../../../lib/zk/ForwardSecrecyService', () => ({
+  ForwardSecrecyService: { getInstance: () => forwardSecrecy }
+}));
+
+jest.mock('../DistributedLockService', () => ({
+  DistributedLockService: {
+    getInstance: () => ({
+      acquireLock: jest.fn().mockResolvedValue(true),
+      releaseLock: jest.fn().mockResolvedValue(undefined)
+    })
+  }
+}));
+
+jest.mock('../../../lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+/**
+ * In-memory stand-in with the same lease semantics as the Supabase queue
+ */
+class FakeRetryQueue implements RetryQueue<any> {
+  jobs = new Map<string, RetryJob<any>>();
+
+  constructor(private maxAttempts = 3) {}
+
+  async enqueue(messageId: string, threadId: string, payload: any, error?: string) {
+    if (this.jobs.has(messageId)) return;
+    const now = new Date();
+    // Round-trip through JSON like a JSONB column would
+    this.jobs.set(messageId, {
+      messageId, threadId, payload: JSON.parse(JSON.stringify(payload)), attempts: 0, status: 'pending',
+      availableAt: now, lastError: error, createdAt: now, updatedAt: now
+    });
+  }
+
+  async claim(owner: string, limit: number) {
+    const due = [...this.jobs.values()]
+      .filter(job => job.status === 'pending' && job.availableAt.getTime() <= Date.now())
+      .slice(0, limit);
+    for (const job of due) {
+      Object.assign(job, { status: 'in_flight', attempts: job.attempts + 1, leaseOwner: owner });
+    }
+    return due.map(job => ({ ...job }));
+  }
+
+  async ack(messageId: string, owner: string) {
+    if (this.jobs.get(messageId)?.leaseOwner === owner) this.jobs.delete(messageId);
+  }
+
+  async fail(job: RetryJob<any>, owner: string, error: string): Promise<RetryJobStatus> {
+    if (job.attempts >= this.maxAttempts) {
+      await this.deadLetter(job, owner, error);
+      return 'dead';
+    }
+    Object.assign(this.jobs.get(job.messageId)!, { status: 'pending', availableAt: new Date(), lastError: error });
+    return 'pending';
+  }
+
+  async deadLetter(job: RetryJob<any>, _owner: string, error: string) {
+    Object.assign(this.jobs.get(job.messageId)!, { status: 'dead', lastError: error, leaseOwner: undefined });
+  }
+
+  async listDeadLetters(threadId?: string) {
+    return [...this.jobs.values()].filter(job => job.status === 'dead' && (!threadId || job.threadId === threadId));
+  }
+
+  async replay(messageId: string) {
+    const job = this.jobs.get(messageId);
+    if (job?.status !== 'dead') return false;
+    Object.assign(job, { status: 'pending', attempts: 0 });
+    return true;
+  }
+
+  async discard(messageId: string) {
+    return this.jobs.get(messageId)?.status === 'dead' && this.jobs.delete(messageId);
+  }
+
+  async stats() {
+    const counts = { pending: 0, in_flight: 0, dead: 0 };
+    this.jobs.forEach(job => counts[job.status]++);
+    return counts;
+  }
+}
+
+const supabaseStub = () => {
+  const query: any = {};
+  ['insert', 'upsert', 'update', 'eq'].forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.then = (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null });
+  return { from: jest.fn(() => query), query };
+};
+
+const message = {
+  id: 'msg-1',
+  threadId: 'thread-1',
+  senderId: 'user-1',
+  recipientId: 'user-2',
+  content: 'hello',
+  timestamp: new Date('2024-03-01T10:00:00Z')
+};
+
+describe('computeBackoff', () => {
+  const policy = { baseDelayMs: 1000, maxDelayMs: 10000 };
+
+  it('should grow exponentially with jitter in the upper half', () => {
+    expect(computeBackoff(1, policy, () => 0)).toBe(500);
+    expect(computeBackoff(1, policy, () => 1)).toBe(1000);
+    expect(computeBackoff(3, policy, () => 0)).toBe(2000);
+    expect(computeBackoff(3, policy, () => 1)).toBe(4000);
+  });
+
+  it('should cap the delay', () => {
+    expect(computeBackoff(20, policy, () => 1)).toBe(10000);
+  });
+});
+
+describe('MessageRecoveryService', () => {
+  let queue: FakeRetryQueue;
+  let supabase: ReturnType<typeof supabaseStub>;
+  let service: MessageRecoveryService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    (MessageRecoveryService as any).instance = undefined;
+    queue = new FakeRetryQueue();
+    supabase = supabaseStub();
+    service = MessageRecoveryService.getInstance(supabase as any, {} as any, queue);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should persist failed messages to the queue and deliver them', async () => {
+    zk.encryptMessageWithSessionKey.mockResolvedValue('ciphertext');
+
+    await service.queueMessageForRetry(message as any, new Error('network'));
+    const delivered = await service.processDueRetries();
+
+    expect(delivered).toBe(1);
+    expect(queue.jobs.size).toBe(0);
+    expect(supabase.query.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'msg-1', content: 'ciphertext', created_at: message.timestamp })
+    );
+  });
+
+  it('should reschedule failures and dead-letter after the last attempt', async () => {
+    zk.encryptMessageWithSessionKey.mockRejectedValue(new Error('zk unavailable'));
+    await service.queueMessageForRetry(message as any, new Error('network'));
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await service.processDueRetries();
+    }
+
+    const [deadLetter] = await service.listDeadLetters('thread-1');
+    expect(deadLetter).toEqual(expect.objectContaining({ messageId: 'msg-1', attempts: 3, lastError: 'zk unavailable' }));
+    expect(supabase.from).toHaveBeenCalledWith('failed_messages');
+    expect(await service.processDueRetries()).toBe(0);
+  });
+
+  it('should dead-letter key transitions that overran their window', async () => {
+    await service.queueMessageForRetry(message as any, new Error('rotation'), {
+      fromVersion: 'v1',
+      toVersion: 'v2',
+      keyId: 'key-1',
+      transitionStarted: new Date(Date.now() - 60000),
+      retryCount: 0
+    } as any);
+
+    await service.processDueRetries();
+
+    expect(zk.reEncryptMessageWithNewKey).not.toHaveBeenCalled();
+    expect(queue.jobs.get('msg-1')).toEqual(expect.objectContaining({ status: 'dead', lastError: 'Key transition timed out' }));
+  });
+
+  it('should re-send broken ratchet sessions over new ones', async () => {
+    const ratchet = { senderDeviceId: 'phone', retiredSessionIds: ['session-1'] };
+    forwardSecrecy.beginKeyTransition.mockResolvedValue({
+      fromVersion: 'ratchet',
+      toVersion: 'current',
+      keyId: 'user-1:phone',
+      transitionStarted: new Date(),
+      retryCount: 0,
+      ratchet
+    });
+    forwardSecrecy.encryptForUser.mockResolvedValue({ envelopes: [{ recipient: { userId: 'user-2', deviceId: 'primary' } }], undelivered: [] });
+
+    await service.queueRatchetRecovery(message as any, new Error('no_session'), 'phone');
+    expect(queue.jobs.get('msg-1')!.payload.keyTransitionContext.ratchet).toEqual(ratchet);
+
+    expect(await service.processDueRetries()).toBe(1);
+    expect(forwardSecrecy.beginKeyTransition).toHaveBeenCalledWith({ userId: 'user-1', deviceId: 'phone' }, 'user-2');
+    expect(forwardSecrecy.encryptForUser).toHaveBeenCalledWith('thread-1', { userId: 'user-1', deviceId: 'phone' }, 'user-2', 'hello', 'msg-1');
+    expect(zk.reEncryptMessageWithNewKey).not.toHaveBeenCalled();
+    expect(supabase.query.update).toHaveBeenCalledWith(expect.objectContaining({ encryption_key_version: 'current' }));
+  });
+
+  it('should let operators replay and discard dead letters', async () => {
+    zk.encryptMessageWithSessionKey.mockRejectedValue(new Error('zk unavailable'));
+    await service.queueMessageForRetry(message as any, new Error('network'));
+    await service.queueMessageForRetry({ ...message, id: 'msg-2' } as any, new Error('network'));
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await service.processDueRetries();
+    }
+
+    expect(await service.replayDeadLetter('msg-1', 'admin-1')).toBe(true);
+    expect(await service.discardDeadLetter('msg-2', 'admin-1')).toBe(true);
+    expect(await service.discardDeadLetter('msg-2', 'admin-1')).toBe(false);
+    expect(await service.getQueueStats()).toEqual({ pending: 1, in_flight: 0, dead: 0 });
+
+    zk.encryptMessageWithSessionKey.mockResolvedValue('ciphertext');
+    expect(await service.processDueRetries()).toBe(1);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @jest-environment node
+ */
+import { MessageScheduler } from '../MessageScheduler';
+import { UserPreferenceService } from '../../UserPreferenceService';
+import { ScheduleError, expandOccurrences, parseLocalDateTime, parseRRule, zonedTimeToUtc } from '../schedule';
+
+jest.mock('../../../lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../ChatService', () => ({ ChatService: jest.fn() }));
+jest.mock('../../UserPreferenceService', () => ({ UserPreferenceService: { getInstance: jest.fn() } }));
+
+const instructor = { id: 'inst-1', role: 'instructor' };
+
+function createSupabase(tables: Record<string, any[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: any) => boolean> = [];
+    let update: Record<string, unknown> | null = null;
+    let inserted: any = null;
+    const rows = () => (tables[table] ?? []).filter(row => filters.every(filter => filter(row)));
+    const apply = () => {
+      if (inserted) return [inserted];
+      const matched = rows();
+      if (update) matched.forEach(row => Object.assign(row, update));
+      return matched;
+    };
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push(row => values.includes(row[column]));
+        return builder;
+      },
+      insert: (row: any) => {
+        inserted = { created_at: new Date().toISOString(), updated_at: new Date().toISOString(), ...row };
+        (tables[table] ??= []).push(inserted);
+        return builder;
+      },
+      update: (values: Record<string, unknown>) => {
+        update = values;
+        return builder;
+      },
+      single: async () => ({ data: apply()[0] ?? null, error: null }),
+      maybeSingle: async () => ({ data: apply()[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => void) => resolve({ data: apply(), error: null })
+    };
+    return builder;
+  };
+
+  // Lease rows that are due, like claim_scheduled_messages
+  const rpc = jest.fn(async (_name: string, params: { p_owner: string; p_max_attempts: number }) => {
+    const now = new Date();
+    const lapsed = (row: any) => !row.lease_expires_at || new Date(row.lease_expires_at) <= now;
+    (tables.scheduled_messages ?? [])
+      .filter(row => row.status === 'active' && lapsed(row) && (row.delivery_attempts ?? 0) >= params.p_max_attempts)
+      .forEach(row => Object.assign(row, { status: 'paused', lease_owner: null, lease_expires_at: null }));
+
+    const due = (tables.scheduled_messages ?? []).filter(row =>
+      row.status === 'active' && new Date(row.next_run_at) <= now && lapsed(row)
+    );
+    due.forEach(row => {
+      row.lease_owner = params.p_owner;
+      row.lease_expires_at = new Date(now.getTime() + 60000).toISOString();
+      row.delivery_attempts = (row.delivery_attempts ?? 0) + 1;
+    });
+    return { data: due.map(row => ({ ...row })), error: null };
+  });
+
+  return { from, rpc };
+}
+
+describe('MessageScheduler', () => {
+  let tables: Record<string, any[]>;
+  let timezones: Record<string, string>;
+  let sendMessage: jest.Mock;
+  let scheduler: MessageScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00Z') });
+    tables = {
+      scheduled_messages: [],
+      messages: [],
+      thread_participants: [
+        { thread_id: 'thread-1', user_id: 'inst-1' },
+        { thread_id: 'thread-1', user_id: 'trainee' }
+      ]
+    };
+    timezones = { trainee: 'America/New_York' };
+    sendMessage = jest.fn(async (message: any) => {
+      tables.messages.push({ id: message.id, thread_id: message.threadId });
+    });
+    (UserPreferenceService.getInstance as jest.Mock).mockReturnValue({
+      getPreferences: jest.fn(async (userId: string) => ({ language: 'en', timezone: timezones[userId] }))
+    });
+
+    (MessageScheduler as any).instance = undefined;
+    scheduler = MessageScheduler.getInstance(createSupabase(tables) as any, {} as any, { sendMessage });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  const weekly = {
+    threadId: 'thread-1',
+    senderId: 'inst-1',
+    recipientId: 'trainee',
+    content: 'Weekly reflection prompt',
+    startsAt: '2024-03-04T09:00',
+    rrule: 'FREQ=WEEKLY;BYDAY=MO'
+  };
+
+  it('should keep wall-clock time across DST in the recipient timezone', () => {
+    const occurrences = expandOccurrences(
+      parseRRule(weekly.rrule),
+      parseLocalDateTime(weekly.startsAt),
+      'America/New_York',
+      { limit: 2 }
+    );
+
+    expect(occurrences.map(occurrence => occurrence.at.toISOString())).toEqual([
+      '2024-03-04T14:00:00.000Z',
+      '2024-03-11T13:00:00.000Z'
+    ]);
+    expect(occurrences.every(occurrence => occurrence.local.endsWith('T09:00'))).toBe(true);
+    // 02:30 does not exist on the spring-forward night; it moves to 03:30 EDT
+    expect(zonedTimeToUtc(parseLocalDateTime('2024-03-10T02:30'), 'America/New_York').toISOString())
+      .toBe('2024-03-10T07:30:00.000Z');
+  });
+
+  it('should count COUNT from the start and reject unsupported rule parts', () => {
+    const rule = parseRRule('RRULE:FREQ=DAILY;COUNT=3');
+    const remaining = expandOccurrences(rule, parseLocalDateTime('2024-03-01T08:00'), 'UTC', {
+      after: new Date('2024-03-02T08:00:00Z'),
+      limit: 10
+    });
+
+    expect(remaining.map(occurrence => occurrence.local)).toEqual(['2024-03-03T08:00']);
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow(ScheduleError);
+    expect(() => parseRRule('FREQ=YEARLY')).toThrow(ScheduleError);
+    expect(() => parseRRule('FREQ=DAILY;BYSETPOS=1')).toThrow(ScheduleError);
+  });
+
+  it('should schedule in the recipient timezone and only for scheduler roles', async () => {
+    const schedule = await scheduler.schedule(weekly, instructor);
+
+    expect(schedule).toMatchObject({ status: 'active', timezone: 'America/New_York', occurrenceCount: 0 });
+    expect(schedule.nextRunAt?.toISOString()).toBe('2024-03-04T14:00:00.000Z');
+
+    await expect(scheduler.schedule(weekly, { id: 'c1', role: 'client' }))
+      .rejects.toMatchObject({ code: 'forbidden' });
+    await expect(scheduler.schedule({ ...weekly, startsAt: '2024-02-01T09:00', rrule: null }, instructor))
+      .rejects.toMatchObject({ code: 'invalid_rule' });
+  });
+
+  it('should only schedule between the caller and another participant of the thread', async () => {
+    await expect(scheduler.schedule({ ...weekly, senderId: 'trainee' }, instructor))
+      .rejects.toMatchObject({ code: 'forbidden' });
+    await expect(scheduler.schedule({ ...weekly, recipientId: 'outsider' }, instructor))
+      .rejects.toMatchObject({ code: 'forbidden' });
+    await expect(scheduler.schedule({ ...weekly, threadId: 'thread-2' }, instructor))
+      .rejects.toMatchObject({ code: 'forbidden' });
+
+    expect(tables.scheduled_messages).toHaveLength(0);
+  });
+
+  it('should deliver through the sender and advance to the next occurrence', async () => {
+    const schedule = await scheduler.schedule(weekly, instructor);
+    jest.setSystemTime(new Date('2024-03-04T14:00:30Z'));
+
+    expect(await scheduler.processDue()).toBe(1);
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+      threadId: 'thread-1',
+      senderId: 'inst-1',
+      recipientId: 'trainee',
+      content: 'Weekly reflection prompt',
+      metadata: { scheduledMessageId: schedule.id, occurrenceAt: '2024-03-04T14:00:00.000Z' }
+    }));
+    expect(tables.scheduled_messages[0]).toMatchObject({
+      status: 'active',
+      occurrence_count: 1,
+      next_run_at: '2024-03-11T13:00:00.000Z',
+      lease_owner: null
+    });
+
+    // Nothing is due again until next Monday
+    expect(await scheduler.processDue()).toBe(0);
+  });
+
+  it('should not resend an occurrence that was sent before a crash', async () => {
+    await scheduler.schedule({ ...weekly, rrule: null }, instructor);
+    jest.setSystemTime(new Date('2024-03-04T14:01:00Z'));
+    sendMessage.mockImplementationOnce(async (message: any) => {
+      tables.messages.push({ id: message.id });
+      throw new Error('Worker died before advancing');
+    });
+
+    expect(await scheduler.processDue()).toBe(0);
+    expect(tables.scheduled_messages[0].last_error).toBe('Worker died before advancing');
+
+    // The lease lapses and another attempt picks it up
+    jest.setSystemTime(new Date('2024-03-04T14:03:00Z'));
+    expect(await scheduler.processDue()).toBe(1);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(tables.scheduled_messages[0]).toMatchObject({ status: 'completed', next_run_at: null, occurrence_count: 1 });
+  });
+
+  it('should pause a schedule whose occurrence keeps failing', async () => {
+    await scheduler.schedule({ ...weekly, rrule: null }, instructor);
+    sendMessage.mockRejectedValue(new Error('Thread archived'));
+
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      jest.setSystemTime(new Date(Date.UTC(2024, 2, 4, 14, attempt * 2)));
+      expect(await scheduler.processDue()).toBe(0);
+    }
+    expect(sendMessage).toHaveBeenCalledTimes(5);
+
+    jest.setSystemTime(new Date('2024-03-04T14:15:00Z'));
+    expect(await scheduler.processDue()).toBe(0);
+    expect(sendMessage).toHaveBeenCalledTimes(5);
+    expect(tables.scheduled_messages[0]).toMatchObject({ status: 'paused', last_error: 'Thread archived' });
+  });
+
+  it('should deliver one overdue occurrence after downtime and skip the backlog', async () => {
+    await scheduler.schedule(weekly, instructor);
+    jest.setSystemTime(new Date('2024-03-20T12:00:00Z'));
+
+    expect(await scheduler.processDue()).toBe(1);
+    expect(await scheduler.processDue()).toBe(0);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(tables.scheduled_messages[0].next_run_at).toBe('2024-03-25T13:00:00.000Z');
+  });
+
+  it('should pause, resume from now and cancel', async () => {
+    const schedule = await scheduler.schedule(weekly, instructor);
+
+    await scheduler.pause(schedule.id, instructor);
+    jest.setSystemTime(new Date('2024-03-12T12:00:00Z'));
+    expect(await scheduler.processDue()).toBe(0);
+
+    const preview = await scheduler.previewSchedule(schedule.id, 2);
+    expect(preview.occurrences.map(occurrence => occurrence.local)).toEqual(['2024-03-18T09:00', '2024-03-25T09:00']);
+
+    const resumed = await scheduler.resume(schedule.id, instructor);
+    expect(resumed.nextRunAt?.toISOString()).toBe('2024-03-18T13:00:00.000Z');
+
+    await expect(scheduler.cancel(schedule.id, { id: 'inst-2', role: 'instructor' }))
+      .rejects.toMatchObject({ code: 'forbidden' });
+    expect((await scheduler.cancel(schedule.id, instructor)).status).toBe('cancelled');
+    await expect(scheduler.resume(schedule.id, instructor)).rejects.toMatchObject({ code: 'invalid_state' });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+import { MessageSearchService } from '../MessageSearchService';
+import { EmbeddingProvider, HybridCandidate, fuseCandidates } from '../search';
+
+jest.mock('../../../lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const candidate = (id: string, text_rank: number, similarity: number, created_at = '2024-04-01T10:00:00Z'): HybridCandidate => ({
+  id,
+  thread_id: 'thread-1',
+  content: `message ${id}`,
+  created_at,
+  sender_id: 'user-1',
+  highlighted_content: `message ${id}`,
+  text_rank,
+  similarity
+});
+
+const embeddings: EmbeddingProvider = {
+  name: 'fake',
+  model: 'fake-embed',
+  embed: jest.fn(async (texts: string[]) => texts.map(() => [0.1, 0.2, 0.3]))
+};
+
+/** Supabase stub: chainable query builder, rpc and auth */
+function createSupabase(rows: HybridCandidate[], existingEmbeddings: unknown[] = []) {
+  const inserts: Record<string, unknown[]> = {};
+  const query: any = {
+    select: jest.fn(() => query),
+    in: jest.fn(() => query),
+    insert: jest.fn((row: unknown) => {
+      (inserts[query.table] ??= []).push(row);
+      return Promise.resolve({ error: null });
+    }),
+    upsert: jest.fn((rows: unknown) => {
+      (inserts[query.table] ??= []).push(rows);
+      return Promise.resolve({ error: null });
+    }),
+    then: (resolve: (value: unknown) => void) => resolve({ data: existingEmbeddings, error: null })
+  };
+  return {
+    inserts,
+    client: {
+      from: jest.fn((table: string) => {
+        query.table = table;
+        return query;
+      }),
+      rpc: jest.fn().mockResolvedValue({ data: rows, error: null }),
+      auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } } }) }
+    }
+  };
+}
+
+function createRedis() {
+  const store = new Map<string, unknown>();
+  return {
+    store,
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+    })
+  };
+}
+
+function createService(supabase: any, redis: any, provider: EmbeddingProvider | null = embeddings) {
+  (MessageSearchService as any).instance = undefined;
+  return MessageSearchService.getInstance(supabase, redis, provider);
+}
+
+describe('fuseCandidates', () => {
+  it('should scale text ranks against the best hit and weight both signals', () => {
+    const results = fuseCandidates([
+      candidate('lexical', 0.2, 0.1),
+      candidate('semantic', 0, 0.9),
+      candidate('both', 0.1, 0.8)
+    ]);
+
+    expect(results.map(result => result.id)).toEqual(['both', 'semantic', 'lexical']);
+    expect(results[0].rank).toBeCloseTo(0.4 * 0.5 + 0.6 * 0.8);
+  });
+
+  it('should rank purely by similarity when text carries no weight', () => {
+    const results = fuseCandidates([candidate('a', 0.5, 0.2), candidate('b', 0, 0.7)], { text: 0, vector: 1 });
+
+    expect(results.map(result => result.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('MessageSearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should embed the query and pass filters to the hybrid RPC', async () => {
+    const supabase = createSupabase([candidate('a', 0.02, 0.82), candidate('b', 0.05, 0.3)]);
+    const service = createService(supabase.client, createRedis());
+
+    const results = await service.searchMessages({
+      query: 'client mentioned feeling trapped',
+      thread_id: 'thread-1',
+      emotion_tags: ['fear'],
+      risk_flags: ['death-wish']
+    });
+
+    expect(embeddings.embed).toHaveBeenCalledWith(['client mentioned feeling trapped']);
+    expect(supabase.client.rpc).toHaveBeenCalledWith('hybrid_search_messages', expect.objectContaining({
+      query_text: 'client mentioned feeling trapped',
+      query_embedding: JSON.stringify([0.1, 0.2, 0.3]),
+      filter_thread_id: 'thread-1',
+      filter_emotion_tags: ['fear'],
+      filter_risk_flags: ['death-wish']
+    }));
+    expect(results.map(result => result.id)).toEqual(['a', 'b']);
+  });
+
+  it('should cache results and audit the search like full-text queries', async () => {
+    const supabase = createSupabase([candidate('a', 0.1, 0.9)]);
+    const redis = createRedis();
+    const service = createService(supabase.client, redis);
+    const options = { query: 'stuck', thread_id: 'thread-1', mode: 'semantic' as const };
+
+    await service.searchMessages(options);
+    await service.searchMessages(options);
+
+    expect(supabase.client.rpc).toHaveBeenCalledTimes(1);
+    expect(redis.set).toHaveBeenCalledTimes(1);
+    expect(supabase.inserts.search_audit_logs).toHaveLength(1);
+    expect(supabase.inserts.search_audit_logs[0]).toMatchObject({
+      query: 'stuck',
+      result_count: 1,
+      metadata: { filters: { mode: 'semantic' } }
+    });
+  });
+
+  it('should sort by date and paginate after fusion', async () => {
+    const supabase = createSupabase([
+      candidate('old', 0.3, 0.9, '2024-01-01T00:00:00Z'),
+      candidate('new', 0.1, 0.5, '2024-03-01T00:00:00Z'),
+      candidate('mid', 0.2, 0.7, '2024-02-01T00:00:00Z')
+    ]);
+    const service = createService(supabase.client, createRedis());
+
+    const results = await service.searchMessages({ query: 'q', sort: 'date_desc', limit: 2, offset: 1 });
+
+    expect(results.map(result => result.id)).toEqual(['mid', 'old']);
+  });
+
+  it('should route risk filters through the RPC without embedding when no provider is configured', async () => {
+    const supabase = createSupabase([candidate('a', 0.2, 0)]);
+    const service = createService(supabase.client, createRedis(), null);
+
+    await service.searchMessages({ query: 'q', risk_flags: ['self-harm'] });
+
+    expect(embeddings.embed).not.toHaveBeenCalled();
+    expect(supabase.client.rpc).toHaveBeenCalledWith('hybrid_search_messages', expect.objectContaining({
+      query_embedding: null,
+      filter_risk_flags: ['self-harm']
+    }));
+  });
+
+  it('should index messages with detected risk flags and skip unchanged content', async () => {
+    const supabase = createSupabase([]);
+    const service = createService(supabase.client, createRedis());
+
+    await service.indexMessage({
+      id: 'm1',
+      thread_id: 'thread-1',
+      content: 'Some days I just want to die',
+      emotion_tags: ['sadness']
+    });
+
+    const [rows] = supabase.inserts.message_embeddings as any[][];
+    expect(rows[0]).toMatchObject({
+      message_id: 'm1',
+      model: 'fake-embed',
+      emotion_tags: ['sadness'],
+      risk_flags: ['death-wish']
+    });
+
+    const unchanged = createSupabase([], [{ message_id: 'm1', content_hash: rows[0].content_hash, model: 'fake-embed' }]);
+    const indexed = await createService(unchanged.client, createRedis()).indexMessages([
+      { id: 'm1', thread_id: 'thread-1', content: 'Some days I just want to die' }
+    ]);
+    expect(indexed).toBe(0);
+  });
+});
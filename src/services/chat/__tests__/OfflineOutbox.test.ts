@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+import {
+  MemoryOutboxStore,
+  OfflineOutbox,
+  OutboxEvent,
+  OutboxOperation,
+  OutboxServerState,
+  ServerMessageState,
+  rebaseOrder,
+  toFrame
+} from '../outbox';
+
+function fakeServer(messages: ServerMessageState[] = [], groups: Record<string, string[]> = {}): OutboxServerState {
+  return {
+    getMessage: jest.fn(async (id: string) => messages.find(message => message.id === id) ?? null),
+    getGroupOrder: jest.fn(async (id: string) => groups[id] ?? null)
+  };
+}
+
+const send = (id: string, content = `message ${id}`) => ({
+  kind: 'send' as const,
+  message: { id, threadId: 't1', senderId: 'u1', content, timestamp: '2024-04-01T10:00:00Z' }
+});
+
+describe('OfflineOutbox', () => {
+  let outbox: OfflineOutbox;
+  let handOff: jest.Mock;
+  let events: OutboxEvent[];
+  let sent: OutboxOperation[];
+  const transport = (operation: OutboxOperation) => {
+    sent.push(operation);
+  };
+
+  beforeEach(() => {
+    handOff = jest.fn().mockResolvedValue(undefined);
+    outbox = new OfflineOutbox(new MemoryOutboxStore(), handOff, 3);
+    events = [];
+    sent = [];
+    outbox.subscribe(event => events.push(event));
+  });
+
+  it('should replay queued operations in order and empty the queue', async () => {
+    await outbox.enqueue(send('m1'));
+    await outbox.enqueue(send('m2'));
+
+    const summary = await outbox.replay(transport, fakeServer());
+
+    expect(sent.map(op => op.kind === 'send' && op.message.id)).toEqual(['m1', 'm2']);
+    expect(summary).toEqual({ applied: 2, skipped: 0, handedOff: 0, failed: 0, remaining: 0 });
+    expect(events).toContainEqual({ type: 'changed', pending: 0 });
+  });
+
+  it('should fold edits and deletes into sends that never left the device', async () => {
+    await outbox.enqueue(send('m1', 'helo'));
+    await outbox.enqueue({ kind: 'edit', threadId: 't1', messageId: 'm1', content: 'hello' });
+    await outbox.enqueue(send('m2'));
+    await outbox.enqueue({ kind: 'delete', threadId: 't1', messageId: 'm2' });
+
+    const pending = await outbox.pending();
+
+    expect(pending).toHaveLength(1);
+    expect(pending[0]).toMatchObject({ kind: 'send', message: { id: 'm1', content: 'hello' } });
+  });
+
+  it('should not resend messages the server already has', async () => {
+    await outbox.enqueue(send('m1'));
+
+    const summary = await outbox.replay(transport, fakeServer([{ id: 'm1', content: 'message m1', updatedAt: 0 }]));
+
+    expect(sent).toHaveLength(0);
+    expect(summary.skipped).toBe(1);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'conflict', reason: 'already_delivered' }));
+  });
+
+  it('should drop edits to messages deleted on the server', async () => {
+    await outbox.enqueue({ kind: 'edit', threadId: 't1', messageId: 'gone', content: 'typo fix' });
+
+    await outbox.replay(transport, fakeServer());
+
+    expect(sent).toHaveLength(0);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'conflict', reason: 'target_deleted' }));
+    expect(await outbox.pending()).toHaveLength(0);
+  });
+
+  it('should let a newer server edit win over an older offline edit', async () => {
+    await outbox.enqueue({ kind: 'edit', threadId: 't1', messageId: 'm1', content: 'offline edit' });
+    const server = fakeServer([{ id: 'm1', content: 'edited elsewhere', updatedAt: Date.now() + 60000 }]);
+
+    await outbox.replay(transport, server);
+
+    expect(sent).toHaveLength(0);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'conflict', reason: 'superseded' }));
+  });
+
+  it('should rebase a reorder onto a group that changed while offline', async () => {
+    await outbox.enqueue({ kind: 'reorder', groupId: 'g1', threadIds: ['c', 'b', 'a'], baseThreadIds: ['a', 'b', 'c'] });
+
+    await outbox.replay(transport, fakeServer([], { g1: ['a', 'c', 'd'] }));
+
+    expect(sent[0]).toMatchObject({ kind: 'reorder', threadIds: ['c', 'a', 'd'], baseThreadIds: ['a', 'c', 'd'] });
+    expect(events).toContainEqual(expect.objectContaining({ type: 'conflict', reason: 'rebased' }));
+    // Only the membership matters, not the order the server happens to hold
+    expect(rebaseOrder(['c', 'b', 'a'], ['d', 'c', 'a'])).toEqual(['c', 'a', 'd']);
+  });
+
+  it('should stop at a failure and hand off sends that keep failing', async () => {
+    await outbox.enqueue(send('m1'));
+    await outbox.enqueue(send('m2'));
+    const failing = () => {
+      throw new Error('socket closed');
+    };
+
+    const first = await outbox.replay(failing, fakeServer());
+    expect(first.remaining).toBe(2);
+    expect((await outbox.pending())[0]).toMatchObject({ attempts: 1, lastError: 'socket closed' });
+
+    await outbox.replay(failing, fakeServer());
+    const last = await outbox.replay(failing, fakeServer());
+
+    // m2 only starts its own attempts once m1 is out of the way
+    expect(handOff).toHaveBeenCalledTimes(1);
+    expect(handOff.mock.calls[0][0]).toMatchObject({ kind: 'send', message: { id: 'm1' }, attempts: 3 });
+    expect(last).toMatchObject({ handedOff: 1, remaining: 1 });
+    expect((await outbox.pending())[0]).toMatchObject({ message: { id: 'm2' }, attempts: 1 });
+  });
+
+  it('should report non-message operations that run out of attempts', async () => {
+    await outbox.enqueue({ kind: 'delete', threadId: 't1', messageId: 'm9' });
+    const server = fakeServer([{ id: 'm9', content: 'x', updatedAt: 0 }]);
+    const failing = () => {
+      throw new Error('socket closed');
+    };
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await outbox.replay(failing, server);
+    }
+
+    expect(handOff).not.toHaveBeenCalled();
+    expect(events).toContainEqual(expect.objectContaining({ type: 'failed', error: 'socket closed' }));
+  });
+
+  it('should frame operations for the socket', () => {
+    const frame = JSON.parse(toFrame({ ...send('m1'), id: 'op1', seq: 1, createdAt: 0, attempts: 0 }));
+
+    expect(frame).toEqual({ type: 'message', payload: expect.objectContaining({ id: 'm1' }), operationId: 'op1' });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * @jest-environment node
+ */
+import { ThreadManagementService } from '../ThreadManagementService';
+import {
+  ThreadBundleCodec,
+  ThreadBundleError,
+  ThreadBundlePayload,
+  remapPayload
+} from '../threadBundle';
+
+jest.mock('../../../lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const SIGNING_KEY = 'test-signing-key-0123456789';
+
+function samplePayload(): ThreadBundlePayload {
+  return {
+    thread: {
+      metadata: { thread_id: 't-src', title: 'Cohort A', status: 'active', custom_properties: { cohort: 'a' } },
+      hierarchy: null
+    },
+    participants: [
+      { thread_id: 't-src', user_id: 'u-therapist', role: 'therapist' },
+      { thread_id: 't-src', user_id: 'u-client', role: 'client' }
+    ],
+    // Reply listed before its parent to exercise ordering
+    messages: [
+      { id: 'm-2', thread_id: 't-src', sender_id: 'u-client', content: 'reply', parent_message_id: 'm-1', created_at: '2024-04-01T10:01:00Z', search_vector: "'repli':1" },
+      { id: 'm-1', thread_id: 't-src', sender_id: 'u-therapist', content: 'hello', parent_message_id: null, created_at: '2024-04-01T10:00:00Z' }
+    ],
+    reactions: [{ id: 'r-1', message_id: 'm-1', user_id: 'u-client', emoji: '👍' }],
+    edits: [{ id: 'e-1', message_id: 'm-2', editor_id: 'u-client', previous_content: 'rpely', new_content: 'reply' }],
+    attachments: [{ id: 'a-1', thread_id: 't-src', message_id: 'm-1', uploader_id: 'u-therapist', storage_path: 't-src/a-1', previous_version_id: null }],
+    analytics: {
+      metrics: { thread_id: 't-src', message_count: 2 },
+      events: [{ id: 'ev-1', thread_id: 't-src', user_id: 'u-client', event_type: 'message_sent' }]
+    }
+  };
+}
+
+/** Round-trips through JSON, as a bundle written to disk would */
+const viaJson = <T>(value: T): any => JSON.parse(JSON.stringify(value));
+
+describe('ThreadBundleCodec', () => {
+  const codec = new ThreadBundleCodec(SIGNING_KEY);
+
+  it('should seal a manifest describing the payload and open it again', async () => {
+    const bundle = await codec.seal(samplePayload(), { sourceThreadId: 't-src', exportedBy: 'admin-1' });
+
+    expect(bundle.manifest).toMatchObject({
+      format: 'thread-bundle',
+      schema_version: 1,
+      source_thread_id: 't-src',
+      counts: { participants: 2, messages: 2, reactions: 1, edits: 1, attachments: 1, analytics_events: 1 },
+      user_ids: ['u-client', 'u-therapist'],
+      encryption: null
+    });
+
+    const opened = await codec.open(viaJson(bundle));
+    expect(opened.payload).toEqual(samplePayload());
+  });
+
+  it('should encrypt the payload under a passphrase', async () => {
+    const bundle = viaJson(await codec.seal(samplePayload(), { sourceThreadId: 't-src', passphrase: 'correct horse battery' }));
+
+    expect(typeof bundle.payload).toBe('string');
+    expect(bundle.payload).not.toContain('hello');
+    await expect(codec.open(bundle)).rejects.toMatchObject({ code: 'passphrase_required' });
+    await expect(codec.open(bundle, 'wrong passphrase')).rejects.toMatchObject({ code: 'decryption_failed' });
+    expect((await codec.open(bundle, 'correct horse battery')).payload.messages).toHaveLength(2);
+  });
+
+  it('should reject tampered payloads and manifests', async () => {
+    const bundle = viaJson(await codec.seal(samplePayload(), { sourceThreadId: 't-src' }));
+
+    const editedPayload = viaJson(bundle);
+    editedPayload.payload.messages[1].content = 'altered';
+    await expect(codec.open(editedPayload)).rejects.toMatchObject({ code: 'payload_mismatch' });
+
+    const editedManifest = viaJson(bundle);
+    editedManifest.manifest.source_thread_id = 't-other';
+    await expect(codec.open(editedManifest)).rejects.toMatchObject({ code: 'bad_signature' });
+
+    await expect(new ThreadBundleCodec('another-key').open(bundle)).rejects.toMatchObject({ code: 'bad_signature' });
+  });
+
+  it('should refuse newer schema versions and broken reply chains', async () => {
+    const bundle = viaJson(await codec.seal(samplePayload(), { sourceThreadId: 't-src' }));
+    bundle.manifest.schema_version = 2;
+    await expect(codec.open(bundle)).rejects.toMatchObject({ code: 'unsupported_version' });
+
+    const orphaned = samplePayload();
+    orphaned.messages[0].parent_message_id = 'm-missing';
+    await expect(codec.seal(orphaned, { sourceThreadId: 't-src' })).rejects.toThrow(ThreadBundleError);
+  });
+});
+
+describe('remapPayload', () => {
+  const userIdMap = { 'u-therapist': 'u-therapist-2', 'u-client': 'u-client-2' };
+
+  it('should assign new ids, map users and keep replies attached to their parents', () => {
+    let next = 0;
+    const rows = remapPayload(samplePayload(), { threadId: 't-new', userIdMap, newId: () => `id-${++next}` });
+
+    const [parent, reply] = rows.messages;
+    expect(parent).toMatchObject({ id: rows.messageIds['m-1'], sender_id: 'u-therapist-2', thread_id: 't-new' });
+    expect(reply).toMatchObject({ parent_message_id: parent.id, sender_id: 'u-client-2' });
+    expect(reply).not.toHaveProperty('search_vector');
+    expect(rows.reactions[0]).toMatchObject({ message_id: parent.id, user_id: 'u-client-2' });
+    expect(rows.edits[0]).toMatchObject({ message_id: reply.id, editor_id: 'u-client-2' });
+    expect(rows.attachments[0]).toMatchObject({ message_id: parent.id, uploader_id: 'u-therapist-2', thread_id: 't-new' });
+    expect(rows.metadata).toMatchObject({ thread_id: 't-new', title: 'Cohort A' });
+  });
+
+  it('should name every unmapped user', () => {
+    expect(() => remapPayload(samplePayload(), { threadId: 't-new', userIdMap: { 'u-client': 'x' } }))
+      .toThrow(/u-therapist/);
+  });
+});
+
+describe('ThreadManagementService bundles', () => {
+  /** In-memory tables behind a minimal query builder */
+  function createSupabase(tables: Record<string, any[]>) {
+    const from = (table: string) => {
+      const filters: Array<(row: any) => boolean> = [];
+      const builder: any = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters.push(row => row[column] === value);
+          return builder;
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push(row => values.includes(row[column]));
+          return builder;
+        },
+        insert: async (rows: any[]) => {
+          (tables[table] ??= []).push(...rows);
+          return { error: null };
+        },
+        then: (resolve: (value: unknown) => void) =>
+          resolve({ data: (tables[table] ?? []).filter(row => filters.every(filter => filter(row))), error: null })
+      };
+      return builder;
+    };
+    // import_thread_bundle inserts every table's rows in one call
+    const rpc = jest.fn(async (_name: string, { p_tables }: { p_tables: Array<{ table: string; rows: any[] }> }) => {
+      p_tables.forEach(({ table, rows }) => (tables[table] ??= []).push(...rows));
+      return { error: null };
+    });
+    return { from, rpc };
+  }
+
+  function createService(supabase: any) {
+    (ThreadManagementService as any).instance = undefined;
+    return ThreadManagementService.getInstance(supabase, {} as any);
+  }
+
+  beforeAll(() => {
+    process.env.THREAD_BUNDLE_SIGNING_KEY = SIGNING_KEY;
+  });
+
+  afterAll(() => {
+    delete process.env.THREAD_BUNDLE_SIGNING_KEY;
+  });
+
+  it('should export a thread from one environment and import it into another', async () => {
+    const payload = samplePayload();
+    const source = createSupabase({
+      thread_metadata: [payload.thread.metadata],
+      chat_threads_participants: payload.participants,
+      messages: payload.messages,
+      message_reactions: payload.reactions,
+      session_message_edits: payload.edits,
+      attachments: payload.attachments,
+      thread_metrics: [payload.analytics.metrics],
+      thread_events: payload.analytics.events
+    });
+    const bundle = await createService(source).exportThread('t-src', { passphrase: 'cohort transfer key' });
+
+    const targetTables: Record<string, any[]> = {};
+    const target = createSupabase(targetTables);
+    const result = await createService(target).importThread(bundle, {
+      passphrase: 'cohort transfer key',
+      userIdMap: { 'u-therapist': 'staging-therapist', 'u-client': 'staging-client' }
+    });
+
+    expect(target.rpc).toHaveBeenCalledTimes(1);
+    expect(target.rpc.mock.calls[0][0]).toBe('import_thread_bundle');
+    expect(targetTables.chat_threads).toEqual([{ id: result.threadId }]);
+    expect(targetTables.thread_metadata[0].custom_properties).toEqual({
+      cohort: 'a',
+      imported_from: { bundle_id: result.bundleId, source_thread_id: 't-src' }
+    });
+    expect(targetTables.messages.map(message => message.content)).toEqual(['hello', 'reply']);
+    expect(targetTables.messages[1].parent_message_id).toBe(targetTables.messages[0].id);
+    expect(targetTables.thread_events[0]).toMatchObject({ thread_id: result.threadId, user_id: 'staging-client' });
+    expect(result.counts.messages).toBe(2);
+  });
+
+  it('should leave supervisor whispers out of exports', async () => {
+    const payload = samplePayload();
+    const whisper = { id: 'm-w', thread_id: 't-src', sender_id: 'u-therapist', content: 'coach note', visibility: 'supervision', parent_message_id: 'm-1', created_at: '2024-04-01T10:00:30Z' };
+    const source = createSupabase({
+      thread_metadata: [payload.thread.metadata],
+      chat_threads_participants: payload.participants,
+      messages: [...payload.messages, whisper, { ...payload.messages[0], id: 'm-3', parent_message_id: 'm-w' }],
+      message_reactions: [...payload.reactions, { id: 'r-w', message_id: 'm-w', user_id: 'u-client', emoji: '👀' }]
+    });
+
+    const bundle = await createService(source).exportThread('t-src');
+    const { payload: exported } = await new ThreadBundleCodec(SIGNING_KEY).open(JSON.parse(bundle));
+
+    expect(exported.messages.map(message => message.id)).toEqual(['m-1', 'm-2', 'm-3']);
+    expect(exported.messages[2].parent_message_id).toBeNull();
+    expect(exported.reactions.map(reaction => reaction.id)).toEqual(['r-1']);
+  });
+
+  it('should write nothing when the bundle fails verification', async () => {
+    const targetTables: Record<string, any[]> = {};
+    const target = createSupabase(targetTables);
+
+    await expect(
+      createService(target).importThread('{"manifest":{}}', { userIdMap: {} })
+    ).rejects.toMatchObject({ code: 'malformed' });
+    expect(target.rpc).not.toHaveBeenCalled();
+    expect(targetTables).toEqual({});
+  });
+});
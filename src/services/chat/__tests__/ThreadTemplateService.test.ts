@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+import { ThreadTemplateService } from '../ThreadTemplateService';
+import { ThreadManagementService } from '../ThreadManagementService';
+import { TemplateError, ThreadTemplateDefinition, assertValidDefinition } from '../templates';
+
+jest.mock('../../../lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../ChatService', () => ({ ChatService: jest.fn() }));
+jest.mock('../ThreadManagementService', () => ({ ThreadManagementService: { getInstance: jest.fn() } }));
+
+const instructor = { id: 'inst-1', role: 'instructor' };
+
+function createSupabase(tables: Record<string, any[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: any) => boolean> = [];
+    let update: Record<string, unknown> | null = null;
+    let inserted: any = null;
+    const rows = () => (tables[table] ?? []).filter(row => filters.every(filter => filter(row)));
+    const apply = () => {
+      if (inserted) return [inserted];
+      const matched = rows();
+      if (update) matched.forEach(row => Object.assign(row, update));
+      return matched;
+    };
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push(row => values.includes(row[column]));
+        return builder;
+      },
+      insert: (row: any) => {
+        inserted = { created_at: new Date().toISOString(), updated_at: new Date().toISOString(), ...row };
+        (tables[table] ??= []).push(inserted);
+        return builder;
+      },
+      update: (values: Record<string, unknown>) => {
+        update = values;
+        return builder;
+      },
+      single: async () => ({ data: apply()[0] ?? null, error: null }),
+      maybeSingle: async () => ({ data: apply()[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => void) => resolve({ data: apply(), error: null })
+    };
+    return builder;
+  };
+  return { from };
+}
+
+const definition: ThreadTemplateDefinition = {
+  group: { name: 'Practicum: {{name}}', color: '#3366ff', position: 0 },
+  threads: [
+    {
+      key: 'intake',
+      title: 'Intake with Alex',
+      pinned: true,
+      clientProfileId: 'profile-1',
+      position: 0,
+      seedMessages: [
+        { role: 'instructor', content: 'Welcome {{name}}, start with the intake.' },
+        { role: 'client', content: 'I have not been sleeping well.' }
+      ]
+    },
+    {
+      key: 'debrief',
+      title: 'Debrief',
+      parentKey: 'intake',
+      position: 1,
+      seedMessages: []
+    }
+  ]
+};
+
+describe('ThreadTemplateService', () => {
+  let tables: Record<string, any[]>;
+  let threads: Record<string, jest.Mock>;
+  let sendMessage: jest.Mock;
+  let supabase: ReturnType<typeof createSupabase>;
+  let service: ThreadTemplateService;
+  let nextThread: number;
+
+  beforeEach(() => {
+    tables = {
+      thread_templates: [],
+      thread_template_provisions: [],
+      client_profiles: [{ id: 'profile-1' }],
+      messages: []
+    };
+    nextThread = 0;
+    threads = {
+      createThread: jest.fn(async () => ({ id: `thread-${++nextThread}` })),
+      updateThread: jest.fn(async (id: string) => ({ id })),
+      createGroup: jest.fn(async (data: any) => ({ id: `group-${data.name}` })),
+      addThreadToGroup: jest.fn(async () => undefined)
+    };
+    sendMessage = jest.fn(async (message: any) => {
+      tables.messages.push({ id: message.id, thread_id: message.threadId });
+    });
+    (ThreadManagementService.getInstance as jest.Mock).mockReturnValue(threads);
+
+    supabase = createSupabase(tables);
+    (ThreadTemplateService as any).instance = undefined;
+    service = ThreadTemplateService.getInstance(supabase as any, {} as any, { sendMessage });
+  });
+
+  it('should reject templates with unknown parents, duplicate keys or missing client profiles', async () => {
+    expect(() => assertValidDefinition({
+      group: null,
+      threads: [{ ...definition.threads[1] }, { ...definition.threads[0] }]
+    })).toThrow(TemplateError);
+    expect(() => assertValidDefinition({
+      group: null,
+      threads: [definition.threads[0], { ...definition.threads[0] }]
+    })).toThrow('Duplicate thread key "intake"');
+
+    await expect(service.createTemplate({
+      name: 'Sleep',
+      definition: { group: null, threads: [{ ...definition.threads[0], clientProfileId: 'missing' }] }
+    }, instructor)).rejects.toMatchObject({ code: 'unknown_client_profile' });
+    await expect(service.createTemplate({ name: 'Sleep', definition }, { id: 't1', role: 'therapist' }))
+      .rejects.toMatchObject({ code: 'forbidden' });
+  });
+
+  it('should provision threads, seeds, pins and the organizer layout per trainee', async () => {
+    const template = await service.createTemplate({ name: 'Sleep', definition }, instructor);
+
+    const report = await service.provision(template.id, [{ userId: 'trainee-1', displayName: 'Sam' }], instructor);
+
+    expect(report).toMatchObject({ provisioned: 1, alreadyProvisioned: 0, failed: 0 });
+    expect(report.results[0]).toMatchObject({
+      outcome: 'provisioned',
+      groupId: 'group-Practicum: Sam',
+      threadIds: { intake: 'thread-1', debrief: 'thread-2' }
+    });
+    expect(threads.createThread).toHaveBeenLastCalledWith(expect.objectContaining({
+      parentId: 'thread-1',
+      participants: [{ userId: 'trainee-1', role: 'therapist' }]
+    }), supabase);
+    expect(threads.updateThread).toHaveBeenCalledWith('thread-1', {
+      status: 'pinned',
+      custom_properties: { template: { id: template.id, key: 'intake' }, client_profile_id: 'profile-1' }
+    }, supabase);
+    expect(sendMessage.mock.calls.map(([message]) => message.content)).toEqual([
+      'Welcome Sam, start with the intake.',
+      'I have not been sleeping well.'
+    ]);
+    expect(sendMessage.mock.calls[1][0].metadata).toMatchObject({ seedRole: 'client', clientProfileId: 'profile-1' });
+    expect(threads.addThreadToGroup).toHaveBeenCalledWith('group-Practicum: Sam', 'thread-2', 1, supabase);
+  });
+
+  it('should read and provision through the client passed for the request', async () => {
+    const template = await service.createTemplate({ name: 'Sleep', definition }, instructor);
+    const requestTables: Record<string, any[]> = {
+      thread_templates: [...tables.thread_templates],
+      thread_template_provisions: [],
+      messages: []
+    };
+    const requestClient = createSupabase(requestTables);
+
+    expect(await service.listTemplates(createSupabase({ thread_templates: [] }) as any)).toEqual([]);
+    await service.provision(template.id, [{ userId: 'trainee-1' }], instructor, requestClient as any);
+
+    expect(threads.createThread).toHaveBeenCalledWith(expect.any(Object), requestClient);
+    expect(requestTables.thread_template_provisions).toHaveLength(1);
+    expect(tables.thread_template_provisions).toHaveLength(0);
+  });
+
+  it('should skip trainees who already have the template', async () => {
+    const template = await service.createTemplate({ name: 'Sleep', definition }, instructor);
+    await service.provision(template.id, [{ userId: 'trainee-1' }], instructor);
+
+    const report = await service.provision(
+      template.id,
+      [{ userId: 'trainee-1' }, { userId: 'trainee-2' }, { userId: 'trainee-2' }],
+      instructor
+    );
+
+    expect(report.results.map(result => [result.userId, result.outcome])).toEqual([
+      ['trainee-1', 'already_provisioned'],
+      ['trainee-2', 'provisioned']
+    ]);
+    expect(threads.createThread).toHaveBeenCalledTimes(4);
+  });
+
+  it('should report failures per trainee and resume without duplicates', async () => {
+    const template = await service.createTemplate({ name: 'Sleep', definition }, instructor);
+    sendMessage
+      .mockImplementationOnce(async (message: any) => {
+        tables.messages.push({ id: message.id });
+      })
+      .mockRejectedValueOnce(new Error('Encryption service unavailable'));
+
+    const first = await service.provision(template.id, [{ userId: 'trainee-1' }, { userId: 'trainee-2' }], instructor);
+
+    expect(first).toMatchObject({ provisioned: 1, failed: 1 });
+    expect(first.results[0]).toMatchObject({
+      outcome: 'failed',
+      error: 'Encryption service unavailable',
+      threadIds: { intake: 'thread-1' }
+    });
+    expect(tables.thread_template_provisions[0]).toMatchObject({
+      status: 'in_progress',
+      last_error: 'Encryption service unavailable'
+    });
+
+    const retry = await service.provision(template.id, [{ userId: 'trainee-1' }], instructor);
+
+    expect(retry.results[0]).toMatchObject({ outcome: 'provisioned', threadIds: { intake: 'thread-1', debrief: 'thread-4' } });
+    // One group and one intake thread for trainee-1; the delivered seed is not resent
+    expect(threads.createGroup).toHaveBeenCalledTimes(2);
+    expect(threads.createThread).toHaveBeenCalledTimes(4);
+    expect(tables.messages.filter(message => message.thread_id !== 'thread-2')).toHaveLength(2);
+  });
+});
@@ -1,6 +1,61 @@
 import { createSupabaseClient } from "@supabase/ssr";
 import { SupabaseClient, SupabaseClientOptions } from "@supabase/supabase-js";
 import { InterventionOptimizationSystem } from "../interventionOptimization";
+export interface EmotionAnalysis {
+  primaryEmotion: string;
+  intensity: number;
+  triggers: Array<string>;
+}
+
+const EMOTION_LEXICON: Record<string, string[]> = {
+  anger: ["angry", "furious", "annoyed", "irritated", "pissed", "hate", "resent", "fed up", "frustrated"],
+  anxiety: ["anxious", "worried", "nervous", "scared", "afraid", "panic", "overwhelmed", "on edge", "stressed"],
+  sadness: ["sad", "down", "depressed", "hopeless", "empty", "lonely", "miss", "cry", "crying", "grief"],
+  shame: ["ashamed", "embarrassed", "stupid", "worthless", "my fault", "failure", "guilty"],
+  joy: ["happy", "glad", "relieved", "excited", "grateful", "proud", "hopeful", "better"],
+};
+
+const INTENSIFIERS = ["really", "so", "very", "extremely", "completely", "totally", "always", "never"];
+
+/**
+ * Lexicon-based emotion analysis. Returns `neutral` with a low intensity when
+ * no emotion words are present. `knownTriggers` are matched as substrings and
+ * reported back when they occur in the message.
+ */
+export function analyzeEmotion(
+  message: string,
+  knownTriggers: Array<string> = [],
+): EmotionAnalysis {
+  const text = message.toLowerCase();
+  const countWord = (term: string) =>
+    (text.match(new RegExp(`\\b${term}\\b`, "g")) || []).length;
+
+  let primaryEmotion = "neutral";
+  let bestScore = 0;
+  for (const [emotion, terms] of Object.entries(EMOTION_LEXICON)) {
+    const score = terms.reduce((sum, term) => sum + countWord(term), 0);
+    if (score > bestScore) {
+      primaryEmotion = emotion;
+      bestScore = score;
+    }
+  }
+
+  const triggers = knownTriggers.filter((trigger) =>
+    text.includes(trigger.toLowerCase()),
+  );
+  const intensifiers = INTENSIFIERS.reduce(
+    (sum, term) => sum + (countWord(term) > 0 ? 1 : 0),
+    0,
+  );
+  const exclamations = Math.min(text.split("!").length - 1, 2);
+
+  const intensity = bestScore === 0
+    ? 2
+    : Math.min(10, 3 + bestScore * 2 + intensifiers + exclamations + triggers.length);
+
+  return { primaryEmotion, intensity, triggers };
+}
+
 export class EmotionalStateManager {
   private supabase: SupabaseClient;
   private interventionOptimizer: InterventionOptimizationSystem;
@@ -39,17 +94,8 @@ export class EmotionalStateManager {
     }
     console.error("Emotional analysis returned undefined or is not an object");
   }
-  private async analyzeEmotion(_message: string): Promise<{
-    primaryEmotion: string;
-    intensity: number;
-    triggers: Array<string>;
-  } | null> {
-    // Implement the actual emotion analysis logic here
-    return {
-      primaryEmotion: "happy",
-      intensity: 5,
-      triggers: ["example trigger"],
-    };
+  private async analyzeEmotion(message: string): Promise<EmotionAnalysis | null> {
+    return analyzeEmotion(message);
   }
 }
 
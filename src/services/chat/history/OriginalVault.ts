@@ -0,0 +1,77 @@
+import { RedactionError } from './errors';
+import { EncryptedOriginal, RedactedOriginal } from './types';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+/**
+ * Encrypts pre-redaction content with AES-256-GCM under a dedicated key
+ * (MESSAGE_REDACTION_KEY), bound to its redaction id so a ciphertext cannot
+ * be moved to another record. The key id lets a rotated deployment tell
+ * which key sealed an original.
+ */
+export class OriginalVault {
+  private key: Promise<CryptoKey>;
+  private keyId: Promise<string>;
+
+  constructor(secret: string) {
+    if (!secret) {
+      throw new RedactionError('not_configured', 'A redaction key is required');
+    }
+    const digest = crypto.subtle.digest('SHA-256', encoder.encode(secret));
+    this.key = digest.then(bytes =>
+      crypto.subtle.importKey('raw', bytes, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+    );
+    this.keyId = crypto.subtle.digest('SHA-256', encoder.encode(`key-id:${secret}`)).then(bytes =>
+      Array.from(new Uint8Array(bytes).slice(0, 8)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+    );
+  }
+
+  static fromEnv(env: Record<string, string | undefined> = process.env): OriginalVault {
+    return new OriginalVault(env.MESSAGE_REDACTION_KEY ?? '');
+  }
+
+  async seal(redactionId: string, original: RedactedOriginal): Promise<EncryptedOriginal> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(redactionId) },
+      await this.key,
+      encoder.encode(JSON.stringify(original))
+    );
+
+    return {
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+      iv: toBase64(iv),
+      keyId: await this.keyId
+    };
+  }
+
+  async open(redactionId: string, sealed: EncryptedOriginal): Promise<RedactedOriginal> {
+    if (sealed.keyId !== await this.keyId) {
+      throw new RedactionError('decryption_failed', `Original was sealed with key ${sealed.keyId}`);
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(sealed.iv), additionalData: encoder.encode(redactionId) },
+        await this.key,
+        fromBase64(sealed.ciphertext)
+      );
+      return JSON.parse(decoder.decode(plaintext)) as RedactedOriginal;
+    } catch {
+      throw new RedactionError('decryption_failed', 'Original could not be decrypted');
+    }
+  }
+}
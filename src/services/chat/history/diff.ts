@@ -0,0 +1,59 @@
+import { DiffSegment } from './types';
+
+// Above this many token pairs the LCS table gets too large; fall back to a replace
+const MAX_DIFF_CELLS = 250000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function push(segments: DiffSegment[], op: DiffSegment['op'], text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+}
+
+/**
+ * Word-level diff between two revisions, with whitespace kept so joining
+ * the equal and insert segments gives back `next` exactly.
+ */
+export function diffWords(previous: string, next: string): DiffSegment[] {
+  const a = tokenize(previous);
+  const b = tokenize(next);
+  const segments: DiffSegment[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (previous) push(segments, 'delete', previous);
+    if (next) push(segments, 'insert', next);
+    return segments;
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(segments, 'delete', a[i++]);
+    } else {
+      push(segments, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) push(segments, 'delete', a[i++]);
+  while (j < b.length) push(segments, 'insert', b[j++]);
+
+  return segments;
+}
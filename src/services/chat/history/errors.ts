@@ -0,0 +1,16 @@
+export type RedactionErrorCode =
+  | 'invalid_span'
+  | 'forbidden'
+  | 'not_found'
+  | 'decryption_failed'
+  | 'not_configured';
+
+export class RedactionError extends Error {
+  public readonly code: RedactionErrorCode;
+
+  constructor(code: RedactionErrorCode, message: string) {
+    super(message);
+    this.name = 'RedactionError';
+    this.code = code;
+  }
+}
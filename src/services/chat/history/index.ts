@@ -0,0 +1,5 @@
+export * from './types';
+export * from './errors';
+export * from './diff';
+export * from './redact';
+export * from './OriginalVault';
@@ -0,0 +1,62 @@
+import { RedactionError } from './errors';
+import { REDACTION_CATEGORIES, RedactionCategory, RedactionSpan } from './types';
+
+export interface RemovedText {
+  text: string;
+  category: RedactionCategory;
+}
+
+export function placeholderFor(category: RedactionCategory): string {
+  return `[REDACTED:${category.toUpperCase()}]`;
+}
+
+/** Spans must be in bounds, non-empty and non-overlapping; returns them in order */
+export function validateSpans(content: string, spans: RedactionSpan[]): RedactionSpan[] {
+  if (spans.length === 0) {
+    throw new RedactionError('invalid_span', 'At least one span is required');
+  }
+
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  sorted.forEach((span, index) => {
+    if (!Number.isInteger(span.start) || !Number.isInteger(span.end) || span.start < 0 || span.end > content.length || span.start >= span.end) {
+      throw new RedactionError('invalid_span', `Span ${span.start}-${span.end} is outside the message`);
+    }
+    if (!REDACTION_CATEGORIES.includes(span.category)) {
+      throw new RedactionError('invalid_span', `Unknown redaction category: ${span.category}`);
+    }
+    if (index > 0 && span.start < sorted[index - 1].end) {
+      throw new RedactionError('invalid_span', `Span ${span.start}-${span.end} overlaps another span`);
+    }
+  });
+  return sorted;
+}
+
+/** Replaces each span with its category placeholder */
+export function applyRedactions(content: string, spans: RedactionSpan[]): { content: string; removed: RemovedText[] } {
+  const sorted = validateSpans(content, spans);
+  let redacted = '';
+  let cursor = 0;
+
+  for (const span of sorted) {
+    redacted += content.slice(cursor, span.start) + placeholderFor(span.category);
+    cursor = span.end;
+  }
+  redacted += content.slice(cursor);
+
+  return {
+    content: redacted,
+    removed: sorted.map(span => ({ text: content.slice(span.start, span.end), category: span.category }))
+  };
+}
+
+/**
+ * Removes already-redacted text wherever else it appears, e.g. in earlier
+ * revisions of the message. Longer values go first so a name is not
+ * partly replaced by a shorter overlapping value.
+ */
+export function scrubText(text: string, removed: RemovedText[]): string {
+  return [...removed]
+    .filter(item => item.text.trim().length > 0)
+    .sort((a, b) => b.text.length - a.text.length)
+    .reduce((result, item) => result.split(item.text).join(placeholderFor(item.category)), text);
+}
@@ -0,0 +1,74 @@
+/** Kinds of PHI a redaction can stand in for; each renders as its own placeholder */
+export const REDACTION_CATEGORIES = [
+  'name',
+  'date',
+  'location',
+  'contact',
+  'identifier',
+  'health',
+  'other'
+] as const;
+
+export type RedactionCategory = typeof REDACTION_CATEGORIES[number];
+
+/** Roles that may redact messages */
+export const REDACTOR_ROLES = ['admin', 'compliance_officer', 'supervisor'];
+
+/** Roles that may read the encrypted original behind a redaction */
+export const COMPLIANCE_ROLES = ['admin', 'compliance_officer'];
+
+/** Character range [start, end) of the current message content */
+export interface RedactionSpan {
+  start: number;
+  end: number;
+  category: RedactionCategory;
+}
+
+export interface DiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface MessageRevision {
+  id: string;
+  editorId: string;
+  editedAt: string;
+  previousContent: string;
+  newContent: string;
+  diff: DiffSegment[];
+}
+
+export interface HistoryActor {
+  id: string;
+  role: string;
+  ipAddress: string;
+}
+
+export interface RedactionRequest {
+  spans: RedactionSpan[];
+  reason: string;
+  actor: HistoryActor;
+}
+
+/** A redaction as anyone with access to the message may see it; no original content */
+export interface RedactionRecord {
+  id: string;
+  messageId: string;
+  threadId: string;
+  redactedBy: string;
+  reason: string;
+  spans: RedactionSpan[];
+  createdAt: string;
+}
+
+/** What the vault encrypts: the message and its edit history before redaction */
+export interface RedactedOriginal {
+  content: string;
+  edits: Array<{ id: string; previous_content: string; new_content: string }>;
+}
+
+export interface EncryptedOriginal {
+  ciphertext: string;
+  iv: string;
+  keyId: string;
+}
@@ -0,0 +1,151 @@
+import { v4 as uuidv4 } from 'uuid';
+import { coalesce, resolveConflict } from './conflicts';
+import { IndexedDBOutboxStore, MemoryOutboxStore } from './stores';
+import { handOffToRecovery } from './remote';
+import {
+  OutboxDraft,
+  OutboxEvent,
+  OutboxFailureHandler,
+  OutboxOperation,
+  OutboxServerState,
+  OutboxStore,
+  OutboxTransport,
+  ReplaySummary
+} from './types';
+
+export const DEFAULT_MAX_REPLAY_ATTEMPTS = 5;
+
+/**
+ * Queues sends, edits, deletes and group reorders made while offline and
+ * replays them in order once a connection is back. Each replay checks the
+ * server first (see resolveConflict), so replays are idempotent. Sends that
+ * keep failing are handed to MessageRecoveryService; other operations are
+ * reported as failed.
+ */
+export class OfflineOutbox {
+  private static instance: OfflineOutbox;
+  private listeners = new Set<(event: OutboxEvent) => void>();
+  // Enqueue and replay run one at a time so coalescing sees a stable queue
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly store: OutboxStore,
+    private readonly onPersistentFailure: OutboxFailureHandler = handOffToRecovery,
+    private readonly maxAttempts = DEFAULT_MAX_REPLAY_ATTEMPTS
+  ) {}
+
+  public static getInstance(): OfflineOutbox {
+    if (!OfflineOutbox.instance) {
+      const store = typeof indexedDB === 'undefined' ? new MemoryOutboxStore() : new IndexedDBOutboxStore();
+      OfflineOutbox.instance = new OfflineOutbox(store);
+    }
+    return OfflineOutbox.instance;
+  }
+
+  public subscribe(listener: (event: OutboxEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: OutboxEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(task, task);
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  public pending(): Promise<OutboxOperation[]> {
+    return this.store.list();
+  }
+
+  public enqueue(draft: OutboxDraft): Promise<OutboxOperation> {
+    return this.serialize(async () => {
+      const queued = await this.store.list();
+      const operation = {
+        ...draft,
+        id: uuidv4(),
+        seq: queued.reduce((max, op) => Math.max(max, op.seq), 0) + 1,
+        createdAt: Date.now(),
+        attempts: 0
+      } as OutboxOperation;
+
+      const next = coalesce(queued, operation);
+      const kept = new Set(next.map(op => op.id));
+      await Promise.all(queued.filter(op => !kept.has(op.id)).map(op => this.store.remove(op.id)));
+      await Promise.all(next.filter(op => !queued.includes(op)).map(op => this.store.put(op)));
+
+      this.emit({ type: 'changed', pending: next.length });
+      return next.find(op => op.id === operation.id) ?? operation;
+    });
+  }
+
+  /**
+   * Sends queued operations in enqueue order. Stops at the first failure so
+   * later operations never overtake it; the failed one is retried on the
+   * next replay until it runs out of attempts.
+   */
+  public replay(transport: OutboxTransport, server: OutboxServerState): Promise<ReplaySummary> {
+    return this.serialize(async () => {
+      const summary: ReplaySummary = { applied: 0, skipped: 0, handedOff: 0, failed: 0, remaining: 0 };
+
+      for (const operation of await this.store.list()) {
+        try {
+          const resolution = await resolveConflict(operation, server);
+          if (resolution.action === 'skip') {
+            await this.store.remove(operation.id);
+            this.emit({ type: 'conflict', operation, reason: resolution.reason });
+            summary.skipped++;
+            continue;
+          }
+
+          await transport(resolution.operation);
+          await this.store.remove(operation.id);
+          if (resolution.reason) {
+            this.emit({ type: 'conflict', operation: resolution.operation, reason: resolution.reason });
+          }
+          summary.applied++;
+        } catch (err) {
+          const error = err instanceof Error ? err : new Error('Replay failed');
+          const failed = { ...operation, attempts: operation.attempts + 1, lastError: error.message };
+
+          if (failed.attempts < this.maxAttempts) {
+            await this.store.put(failed);
+            break;
+          }
+
+          await this.store.remove(operation.id);
+          if (await this.giveUp(failed, error)) {
+            summary.handedOff++;
+          } else {
+            summary.failed++;
+          }
+        }
+      }
+
+      summary.remaining = (await this.store.list()).length;
+      this.emit({ type: 'changed', pending: summary.remaining });
+      return summary;
+    });
+  }
+
+  /** Returns whether the operation was handed off for server-side retry */
+  private async giveUp(operation: OutboxOperation, error: Error): Promise<boolean> {
+    if (operation.kind === 'send') {
+      try {
+        await this.onPersistentFailure(operation, error);
+        this.emit({ type: 'handed_off', operation, error: error.message });
+        return true;
+      } catch (handoffError) {
+        console.error('Failed to hand off outbox message:', handoffError);
+      }
+    }
+
+    this.emit({ type: 'failed', operation, error: error.message });
+    return false;
+  }
+}
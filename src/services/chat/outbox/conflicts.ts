@@ -0,0 +1,117 @@
+import {
+  ConflictResolution,
+  OutboxOperation,
+  OutboxServerState,
+  ReorderOperation
+} from './types';
+
+/**
+ * Applies the user's relative order to the group as it is now: threads
+ * removed on the server are dropped, threads added there are appended in
+ * server order. Same inputs always give the same order.
+ */
+export function rebaseOrder(desired: string[], current: string[]): string[] {
+  const members = new Set(current);
+  const kept = desired.filter(threadId => members.has(threadId));
+  const placed = new Set(kept);
+  return [...kept, ...current.filter(threadId => !placed.has(threadId))];
+}
+
+const sameOrder = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+/**
+ * Decides what replaying an operation should do given the server's state:
+ * - send: skipped if a message with its id already exists
+ * - edit: skipped if the message was deleted, or changed on the server
+ *   after the offline edit was made (last writer wins)
+ * - delete: skipped if the message is already gone; otherwise it wins over
+ *   any concurrent edit
+ * - reorder: rebased onto the current membership when the group changed,
+ *   skipped if the group is gone
+ */
+export async function resolveConflict(
+  operation: OutboxOperation,
+  server: OutboxServerState
+): Promise<ConflictResolution> {
+  switch (operation.kind) {
+    case 'send': {
+      const existing = await server.getMessage(operation.message.id);
+      return existing ? { action: 'skip', reason: 'already_delivered' } : { action: 'apply', operation };
+    }
+
+    case 'edit': {
+      const existing = await server.getMessage(operation.messageId);
+      if (!existing) return { action: 'skip', reason: 'target_deleted' };
+      if (existing.content === operation.content) return { action: 'skip', reason: 'no_change' };
+      if (existing.updatedAt > operation.createdAt) return { action: 'skip', reason: 'superseded' };
+      return { action: 'apply', operation };
+    }
+
+    case 'delete': {
+      const existing = await server.getMessage(operation.messageId);
+      return existing ? { action: 'apply', operation } : { action: 'skip', reason: 'target_deleted' };
+    }
+
+    case 'reorder': {
+      const current = await server.getGroupOrder(operation.groupId);
+      if (!current) return { action: 'skip', reason: 'target_deleted' };
+      if (sameOrder(current, operation.baseThreadIds)) {
+        return sameOrder(current, operation.threadIds)
+          ? { action: 'skip', reason: 'no_change' }
+          : { action: 'apply', operation };
+      }
+
+      const threadIds = rebaseOrder(operation.threadIds, current);
+      if (sameOrder(threadIds, current)) return { action: 'skip', reason: 'no_change' };
+      const rebased: ReorderOperation = { ...operation, threadIds, baseThreadIds: current };
+      return { action: 'apply', operation: rebased, reason: 'rebased' };
+    }
+  }
+}
+
+/**
+ * Folds a new operation into what is already queued, so replay sends the
+ * net effect. Returns the operations to keep, with the new one merged in
+ * or appended.
+ */
+export function coalesce(queued: OutboxOperation[], next: OutboxOperation): OutboxOperation[] {
+  switch (next.kind) {
+    case 'edit': {
+      const pendingSend = queued.find(op => op.kind === 'send' && op.message.id === next.messageId);
+      if (pendingSend && pendingSend.kind === 'send') {
+        // Never reached the server; send the edited text instead
+        return queued.map(op => op === pendingSend
+          ? { ...pendingSend, message: { ...pendingSend.message, content: next.content } }
+          : op);
+      }
+      const pendingEdit = queued.find(op => op.kind === 'edit' && op.messageId === next.messageId);
+      if (pendingEdit) {
+        return queued.map(op => op === pendingEdit ? { ...next, id: op.id, seq: op.seq } : op);
+      }
+      return [...queued, next];
+    }
+
+    case 'delete': {
+      const touchesMessage = (op: OutboxOperation) =>
+        (op.kind === 'send' && op.message.id === next.messageId) ||
+        (op.kind === 'edit' && op.messageId === next.messageId);
+      const neverSent = queued.some(op => op.kind === 'send' && op.message.id === next.messageId);
+      const rest = queued.filter(op => !touchesMessage(op));
+      return neverSent ? rest : [...rest, next];
+    }
+
+    case 'reorder': {
+      const pending = queued.find(op => op.kind === 'reorder' && op.groupId === next.groupId);
+      if (pending && pending.kind === 'reorder') {
+        return queued.map(op => op === pending
+          ? { ...next, id: op.id, seq: op.seq, baseThreadIds: pending.baseThreadIds }
+          : op);
+      }
+      return [...queued, next];
+    }
+
+    default:
+      return [...queued, next];
+  }
+}
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './conflicts';
+export * from './stores';
+export * from './remote';
+export * from './OfflineOutbox';
@@ -0,0 +1,91 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OutboxOperation, OutboxServerState, ServerMessageState } from './types';
+
+export const OUTBOX_FAILURES_ENDPOINT = '/api/chat/outbox/failures';
+
+/** Reads message and group state through the signed-in user's Supabase client */
+export class SupabaseOutboxServerState implements OutboxServerState {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async getMessage(messageId: string): Promise<ServerMessageState | null> {
+    const { data, error } = await this.supabase
+      .from('messages')
+      .select('id, content, created_at, updated_at')
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      id: data.id,
+      content: data.content,
+      updatedAt: new Date(data.updated_at ?? data.created_at).getTime()
+    };
+  }
+
+  async getGroupOrder(groupId: string): Promise<string[] | null> {
+    const { data: group, error: groupError } = await this.supabase
+      .from('thread_groups')
+      .select('id')
+      .eq('id', groupId)
+      .maybeSingle();
+
+    if (groupError) throw groupError;
+    if (!group) return null;
+
+    const { data, error } = await this.supabase
+      .from('thread_group_members')
+      .select('thread_id, position')
+      .eq('group_id', groupId)
+      .order('position', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []).map((member: { thread_id: string }) => member.thread_id);
+  }
+}
+
+/** Passes a send that exhausted its replays to the server-side retry queue */
+export async function handOffToRecovery(operation: OutboxOperation, error: Error): Promise<void> {
+  if (operation.kind !== 'send') return;
+
+  const response = await fetch(OUTBOX_FAILURES_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      message: operation.message,
+      error: error.message,
+      attempts: operation.attempts
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Outbox handoff failed with status ${response.status}`);
+  }
+}
+
+/** WebSocket frame for an operation; the client id makes server-side dedupe possible */
+export function toFrame(operation: OutboxOperation): string {
+  switch (operation.kind) {
+    case 'send':
+      return JSON.stringify({ type: 'message', payload: operation.message, operationId: operation.id });
+    case 'edit':
+      return JSON.stringify({
+        type: 'message_edited',
+        payload: { messageId: operation.messageId, threadId: operation.threadId, content: operation.content },
+        operationId: operation.id
+      });
+    case 'delete':
+      return JSON.stringify({
+        type: 'message_deleted',
+        payload: { messageId: operation.messageId, threadId: operation.threadId },
+        operationId: operation.id
+      });
+    case 'reorder':
+      return JSON.stringify({
+        type: 'group_reordered',
+        payload: { groupId: operation.groupId, threadIds: operation.threadIds },
+        operationId: operation.id
+      });
+  }
+}
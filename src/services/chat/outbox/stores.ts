@@ -0,0 +1,78 @@
+import { OutboxOperation, OutboxStore } from './types';
+
+const DB_NAME = 'chat-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'operations';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Keeps queued operations in IndexedDB so they survive reloads and closed
+ * tabs. One database per origin; operations are keyed by id and listed in
+ * enqueue order.
+ */
+export class IndexedDBOutboxStore implements OutboxStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory = indexedDB) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = this.factory.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const store = req.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('seq', 'seq');
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          this.db = null;
+          reject(req.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async list(): Promise<OutboxOperation[]> {
+    const store = await this.store('readonly');
+    return request(store.index('seq').getAll() as IDBRequest<OutboxOperation[]>);
+  }
+
+  async put(operation: OutboxOperation): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.put(operation));
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.delete(id));
+  }
+}
+
+/** Used where IndexedDB is unavailable (server rendering, private modes) */
+export class MemoryOutboxStore implements OutboxStore {
+  private operations = new Map<string, OutboxOperation>();
+
+  async list(): Promise<OutboxOperation[]> {
+    return Array.from(this.operations.values()).sort((a, b) => a.seq - b.seq);
+  }
+
+  async put(operation: OutboxOperation): Promise<void> {
+    this.operations.set(operation.id, operation);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.operations.delete(id);
+  }
+}
@@ -0,0 +1,108 @@
+export type OutboxOperationKind = 'send' | 'edit' | 'delete' | 'reorder';
+
+/** A message composed offline; `id` is client-generated so replays are idempotent */
+export interface OutboxMessage {
+  id: string;
+  threadId: string;
+  senderId: string;
+  recipientId?: string;
+  content: string;
+  timestamp: string;
+  metadata?: Record<string, unknown>;
+}
+
+interface OutboxOperationBase {
+  id: string;
+  /** Enqueue order; replay follows it so a thread's operations stay in order */
+  seq: number;
+  /** When the user made the change, used for last-writer-wins against the server */
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SendOperation extends OutboxOperationBase {
+  kind: 'send';
+  message: OutboxMessage;
+}
+
+export interface EditOperation extends OutboxOperationBase {
+  kind: 'edit';
+  threadId: string;
+  messageId: string;
+  content: string;
+}
+
+export interface DeleteOperation extends OutboxOperationBase {
+  kind: 'delete';
+  threadId: string;
+  messageId: string;
+}
+
+export interface ReorderOperation extends OutboxOperationBase {
+  kind: 'reorder';
+  groupId: string;
+  threadIds: string[];
+  /** Group order the user was looking at when reordering */
+  baseThreadIds: string[];
+}
+
+export type OutboxOperation = SendOperation | EditOperation | DeleteOperation | ReorderOperation;
+
+type DraftOf<T> = T extends OutboxOperation ? Omit<T, 'id' | 'seq' | 'createdAt' | 'attempts' | 'lastError'> : never;
+
+/** What callers hand to the outbox; bookkeeping fields are filled in on enqueue */
+export type OutboxDraft = DraftOf<OutboxOperation>;
+
+export interface OutboxStore {
+  list(): Promise<OutboxOperation[]>;
+  put(operation: OutboxOperation): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface ServerMessageState {
+  id: string;
+  content: string;
+  updatedAt: number;
+}
+
+/** Reads the server's current view of what an operation touches */
+export interface OutboxServerState {
+  /** null when the message does not exist (never delivered, or deleted) */
+  getMessage(messageId: string): Promise<ServerMessageState | null>;
+  /** Member thread ids in position order; null when the group is gone */
+  getGroupOrder(groupId: string): Promise<string[] | null>;
+}
+
+/** Delivers one operation; throws when it could not be sent */
+export type OutboxTransport = (operation: OutboxOperation) => Promise<void> | void;
+
+/** Receives operations that exhausted their attempts */
+export type OutboxFailureHandler = (operation: OutboxOperation, error: Error) => Promise<void>;
+
+export type ConflictReason =
+  | 'already_delivered'
+  | 'target_deleted'
+  | 'superseded'
+  | 'no_change'
+  | 'rebased';
+
+export type ConflictResolution =
+  | { action: 'apply'; operation: OutboxOperation; reason?: 'rebased' }
+  | { action: 'skip'; reason: Exclude<ConflictReason, 'rebased'> };
+
+export type OutboxEvent =
+  | { type: 'changed'; pending: number }
+  | { type: 'conflict'; operation: OutboxOperation; reason: ConflictReason }
+  | { type: 'handed_off'; operation: OutboxOperation; error: string }
+  | { type: 'failed'; operation: OutboxOperation; error: string };
+
+export interface ReplaySummary {
+  applied: number;
+  skipped: number;
+  handedOff: number;
+  /** Operations dropped after their last attempt without a handoff */
+  failed: number;
+  /** Operations still queued, e.g. after the connection dropped mid-replay */
+  remaining: number;
+}
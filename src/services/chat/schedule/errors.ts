@@ -0,0 +1,16 @@
+export type ScheduleErrorCode =
+  | 'invalid_rule'
+  | 'invalid_timezone'
+  | 'invalid_state'
+  | 'forbidden'
+  | 'not_found';
+
+export class ScheduleError extends Error {
+  public readonly code: ScheduleErrorCode;
+
+  constructor(code: ScheduleErrorCode, message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+    this.code = code;
+  }
+}
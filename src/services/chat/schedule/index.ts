@@ -0,0 +1,4 @@
+export * from './types';
+export * from './errors';
+export * from './timezone';
+export * from './rrule';
@@ -0,0 +1,196 @@
+import { ScheduleError } from './errors';
+import { formatLocalDateTime, zonedTimeToUtc } from './timezone';
+import { Frequency, LocalDateTime, Occurrence, RecurrenceRule, WEEKDAYS, Weekday } from './types';
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Far enough for any realistic schedule; stops a rule that can never match from spinning
+const MAX_SCAN_DAYS = 366 * 20;
+
+function parseIntList(key: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map(item => {
+    const parsed = Number(item);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw new ScheduleError('invalid_rule', `${key} values must be between ${min} and ${max}`);
+    }
+    return parsed;
+  });
+}
+
+function parsePositive(key: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ScheduleError('invalid_rule', `${key} must be a positive integer`);
+  }
+  return parsed;
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw new ScheduleError('invalid_rule', 'UNTIL must be a UTC date such as 20240630T000000Z');
+  }
+  const [year, month, day, hour = '23', minute = '59', second = '59'] = match.slice(1);
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+/**
+ * Parses an RRULE such as `FREQ=WEEKLY;BYDAY=MO;BYHOUR=9`. Only plain
+ * weekday codes are accepted in BYDAY, and parts the scheduler does not
+ * implement are rejected rather than ignored so a rule never silently
+ * means something else.
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, raw] = part.split('=');
+    if (!key || raw === undefined || raw === '') {
+      throw new ScheduleError('invalid_rule', `Malformed rule part: ${part}`);
+    }
+    parts.set(key.toUpperCase(), raw.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new ScheduleError('invalid_rule', `FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  parts.forEach((raw, key) => {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositive(key, raw);
+        break;
+      case 'COUNT':
+        rule.count = parsePositive(key, raw);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(raw);
+        break;
+      case 'BYDAY':
+        rule.byDay = raw.split(',').map(day => {
+          if (!WEEKDAYS.includes(day as Weekday)) {
+            throw new ScheduleError('invalid_rule', `Unsupported BYDAY value: ${day}`);
+          }
+          return day as Weekday;
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(key, raw, 1, 31);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntList(key, raw, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntList(key, raw, 0, 59);
+        break;
+      case 'WKST':
+        if (raw !== 'MO') throw new ScheduleError('invalid_rule', 'Only WKST=MO is supported');
+        break;
+      default:
+        throw new ScheduleError('invalid_rule', `Unsupported rule part: ${key}`);
+    }
+  });
+
+  if (rule.count !== undefined && rule.until) {
+    throw new ScheduleError('invalid_rule', 'COUNT and UNTIL cannot be combined');
+  }
+  return rule;
+}
+
+function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS[(date.getUTCDay() + 6) % 7];
+}
+
+function matchesDate(rule: RecurrenceRule, start: Date, date: Date, dayOffset: number): boolean {
+  const weekday = weekdayOf(date);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return dayOffset % rule.interval === 0
+        && (!rule.byDay || rule.byDay.includes(weekday))
+        && (!rule.byMonthDay || rule.byMonthDay.includes(date.getUTCDate()));
+    case 'WEEKLY': {
+      const startWeek = start.getTime() - WEEKDAYS.indexOf(weekdayOf(start)) * DAY_MS;
+      const weeks = Math.floor((date.getTime() - startWeek) / (7 * DAY_MS));
+      return weeks % rule.interval === 0 && (rule.byDay ?? [weekdayOf(start)]).includes(weekday);
+    }
+    case 'MONTHLY': {
+      const months = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+      if (months % rule.interval !== 0) return false;
+      if (rule.byMonthDay) return rule.byMonthDay.includes(date.getUTCDate());
+      if (rule.byDay) return rule.byDay.includes(weekday);
+      return date.getUTCDate() === start.getUTCDate();
+    }
+  }
+}
+
+function timesOfDay(rule: RecurrenceRule | null, start: LocalDateTime): Array<[number, number]> {
+  const hours = rule?.byHour ?? [start.hour];
+  const minutes = rule?.byMinute ?? [start.minute];
+  return hours
+    .flatMap(hour => minutes.map(minute => [hour, minute] as [number, number]))
+    .sort((a, b) => a[0] * 60 + a[1] - (b[0] * 60 + b[1]));
+}
+
+/**
+ * Occurrences strictly after `after`, in order, evaluated as wall-clock
+ * times in `timeZone` so "Mondays at 9" stays 9am across DST changes.
+ * COUNT is counted from the start, including occurrences before `after`.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule | null,
+  start: LocalDateTime,
+  timeZone: string,
+  options: { after?: Date; limit: number }
+): Occurrence[] {
+  const toOccurrence = (local: LocalDateTime): Occurrence => ({
+    at: zonedTimeToUtc(local, timeZone),
+    local: formatLocalDateTime(local),
+    timezone: timeZone
+  });
+
+  if (!rule) {
+    const only = toOccurrence(start);
+    return !options.after || only.at > options.after ? [only] : [];
+  }
+
+  const startDate = new Date(Date.UTC(start.year, start.month - 1, start.day));
+  const startMinutes = start.hour * 60 + start.minute;
+  const times = timesOfDay(rule, start);
+  const results: Occurrence[] = [];
+  let produced = 0;
+
+  for (let dayOffset = 0; dayOffset < MAX_SCAN_DAYS && results.length < options.limit; dayOffset++) {
+    const date = new Date(startDate.getTime() + dayOffset * DAY_MS);
+    if (!matchesDate(rule, startDate, date, dayOffset)) continue;
+
+    for (const [hour, minute] of times) {
+      if (dayOffset === 0 && hour * 60 + minute < startMinutes) continue;
+
+      const occurrence = toOccurrence({
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour,
+        minute
+      });
+      if (rule.until && occurrence.at > rule.until) return results;
+
+      produced++;
+      if (rule.count !== undefined && produced > rule.count) return results;
+
+      if (!options.after || occurrence.at > options.after) {
+        results.push(occurrence);
+        if (results.length >= options.limit) break;
+      }
+    }
+  }
+
+  return results;
+}
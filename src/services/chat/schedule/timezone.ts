@@ -0,0 +1,91 @@
+import { ScheduleError } from './errors';
+import { LocalDateTime } from './types';
+
+const LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      });
+    } catch {
+      throw new ScheduleError('invalid_timezone', `Unknown timezone: ${timeZone}`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function assertTimeZone(timeZone: string): string {
+  formatterFor(timeZone);
+  return timeZone;
+}
+
+export function parseLocalDateTime(value: string): LocalDateTime {
+  const match = LOCAL_PATTERN.exec(value);
+  if (!match) {
+    throw new ScheduleError('invalid_rule', `Expected a local time like 2024-04-08T09:00, got ${value}`);
+  }
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hour > 23 || minute > 59) {
+    throw new ScheduleError('invalid_rule', `Not a valid date and time: ${value}`);
+  }
+  return { year, month, day, hour, minute };
+}
+
+export function formatLocalDateTime(local: LocalDateTime): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(local.year, 4)}-${pad(local.month)}-${pad(local.day)}T${pad(local.hour)}:${pad(local.minute)}`;
+}
+
+/** The wall-clock time an instant shows in a timezone */
+export function toZonedTime(instant: Date, timeZone: string): LocalDateTime & { second: number } {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second)
+  };
+}
+
+function offsetAt(instant: number, timeZone: string): number {
+  const zoned = toZonedTime(new Date(instant), timeZone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time occurs in a timezone. Around DST changes
+ * a repeated time resolves to its first occurrence and a skipped time
+ * moves forward by the size of the gap, so 02:30 on a spring-forward
+ * night is delivered at 03:30.
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): Date {
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const first = wall - offsetAt(wall, timeZone);
+  const second = wall - offsetAt(first, timeZone);
+
+  const matches = [first, second].filter(candidate => {
+    const zoned = toZonedTime(new Date(candidate), timeZone);
+    return zoned.day === local.day && zoned.hour === local.hour && zoned.minute === local.minute;
+  });
+
+  return new Date(matches.length > 0 ? Math.min(...matches) : Math.max(first, second));
+}
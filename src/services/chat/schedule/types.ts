@@ -0,0 +1,79 @@
+/** RRULE weekday codes, Monday first as in the RRULE default week start */
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/** The subset of RFC 5545 recurrence rules the scheduler supports */
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+  count?: number;
+  until?: Date;
+}
+
+/** Wall-clock date and time with no zone attached; month is 1-12 */
+export interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/** Roles that may schedule messages into trainee threads */
+export const SCHEDULER_ROLES = ['instructor', 'supervisor', 'admin'];
+
+export interface ScheduleActor {
+  id: string;
+  role: string;
+}
+
+export type ScheduleStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export interface ScheduledMessage {
+  id: string;
+  threadId: string;
+  senderId: string;
+  recipientId: string;
+  content: string;
+  /** First occurrence as wall-clock time in the recipient's timezone, e.g. 2024-04-08T09:00 */
+  startsAt: string;
+  /** RRULE without DTSTART; null for a one-off message */
+  rrule: string | null;
+  status: ScheduleStatus;
+  /** Zone the next run was computed in; follows the recipient's preferences */
+  timezone: string;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  occurrenceCount: number;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduleRequest {
+  threadId: string;
+  senderId: string;
+  recipientId: string;
+  content: string;
+  startsAt: string;
+  rrule?: string | null;
+}
+
+export interface Occurrence {
+  at: Date;
+  /** The same instant as wall-clock time in `timezone` */
+  local: string;
+  timezone: string;
+}
+
+export interface SchedulePreview {
+  timezone: string;
+  occurrences: Occurrence[];
+}
@@ -0,0 +1,81 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_CRISIS_RULES } from '@/ai/intent';
+import { EmbeddingProvider, IndexableMessage } from './types';
+
+const EMBEDDING_TABLE = 'message_embeddings';
+const BATCH_SIZE = 32;
+
+async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** Crisis rule ids matched by the text, merged with any flags the caller already raised */
+export function detectRiskFlags(content: string, existing: string[] = []): string[] {
+  const matched = DEFAULT_CRISIS_RULES.filter(rule => rule.pattern.test(content)).map(rule => rule.id);
+  return Array.from(new Set([...existing, ...matched]));
+}
+
+/**
+ * Stores one embedding per message alongside its emotion tags and risk
+ * flags. Messages are stored encrypted, so indexing happens from the
+ * plaintext at send time; unchanged content is not re-embedded.
+ */
+export class MessageEmbeddingIndexer {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly embeddings: EmbeddingProvider
+  ) {}
+
+  async indexMessage(message: IndexableMessage): Promise<boolean> {
+    return (await this.indexMessages([message])) === 1;
+  }
+
+  /** Returns how many messages were (re-)embedded */
+  async indexMessages(messages: IndexableMessage[]): Promise<number> {
+    const pending = messages.filter(message => message.content.trim().length > 0);
+    if (pending.length === 0) return 0;
+
+    const hashes = await Promise.all(pending.map(message => hashContent(message.content)));
+    const { data: existing, error: lookupError } = await this.supabase
+      .from(EMBEDDING_TABLE)
+      .select('message_id, content_hash, model')
+      .in('message_id', pending.map(message => message.id));
+    if (lookupError) throw lookupError;
+
+    const current = new Map<string, { content_hash: string; model: string }>(
+      (existing ?? []).map((row: { message_id: string; content_hash: string; model: string }) => [row.message_id, row])
+    );
+    const stale = pending
+      .map((message, i) => ({ message, hash: hashes[i] }))
+      .filter(({ message, hash }) => {
+        const row = current.get(message.id);
+        return !row || row.content_hash !== hash || row.model !== this.embeddings.model;
+      });
+
+    for (let start = 0; start < stale.length; start += BATCH_SIZE) {
+      const batch = stale.slice(start, start + BATCH_SIZE);
+      const vectors = await this.embeddings.embed(batch.map(({ message }) => message.content));
+      const now = new Date().toISOString();
+
+      const { error } = await this.supabase.from(EMBEDDING_TABLE).upsert(
+        batch.map(({ message, hash }, i) => ({
+          message_id: message.id,
+          thread_id: message.thread_id,
+          embedding: JSON.stringify(vectors[i]),
+          model: this.embeddings.model,
+          content_hash: hash,
+          emotion_tags: message.emotion_tags ?? [],
+          risk_flags: detectRiskFlags(message.content, message.risk_flags),
+          updated_at: now
+        })),
+        { onConflict: 'message_id' }
+      );
+      if (error) throw error;
+    }
+
+    return stale.length;
+  }
+}
@@ -0,0 +1,101 @@
+import { OLLAMA_BASE_URL, OPENAI_BASE_URL } from '@/ai/providers/config';
+import { EmbeddingError } from './errors';
+import { EMBEDDING_DIMENSIONS, EmbeddingProvider } from './types';
+
+type EmbeddingEnv = Record<string, string | undefined>;
+
+function checkDimensions(provider: string, vectors: number[][], expected: number): number[][] {
+  const wrong = vectors.find(vector => vector.length !== expected);
+  if (wrong) {
+    throw new EmbeddingError(provider, `Expected ${expected} dimensions, got ${wrong.length}`);
+  }
+  return vectors;
+}
+
+async function postJson(provider: string, url: string, body: unknown, headers: Record<string, string> = {}): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+  } catch (error) {
+    throw new EmbeddingError(provider, `Request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!response.ok) {
+    throw new EmbeddingError(provider, `Request failed with status ${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+/**
+ * OpenAI `/embeddings`; the `dimensions` parameter shortens text-embedding-3
+ * vectors to the shared column width.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = 'openai';
+
+  constructor(
+    private readonly apiKey: string,
+    public readonly model = 'text-embedding-3-small',
+    private readonly baseUrl = OPENAI_BASE_URL
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const data = await postJson(
+      this.name,
+      `${this.baseUrl.replace(/\/+$/, '')}/embeddings`,
+      { model: this.model, input: texts, dimensions: EMBEDDING_DIMENSIONS },
+      { Authorization: `Bearer ${this.apiKey}` }
+    );
+    const vectors = [...data.data]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding);
+    return checkDimensions(this.name, vectors, EMBEDDING_DIMENSIONS);
+  }
+}
+
+/**
+ * Local embedding model served by Ollama (`/api/embed`), so message text
+ * never leaves the deployment. The model must produce 768-dimensional
+ * vectors; nomic-embed-text does.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = 'local';
+
+  constructor(
+    public readonly model = 'nomic-embed-text',
+    private readonly baseUrl = OLLAMA_BASE_URL
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const data = await postJson(this.name, `${this.baseUrl.replace(/\/+$/, '')}/api/embed`, {
+      model: this.model,
+      input: texts
+    });
+    return checkDimensions(this.name, data.embeddings ?? [], EMBEDDING_DIMENSIONS);
+  }
+}
+
+/**
+ * Picks the embedding backend from `EMBEDDING_PROVIDER` (`openai` | `local`).
+ * Returns null when semantic search is not configured, in which case search
+ * falls back to full-text only.
+ */
+export function createEmbeddingProvider(env: EmbeddingEnv = process.env): EmbeddingProvider | null {
+  const model = env.EMBEDDING_MODEL || undefined;
+  switch (env.EMBEDDING_PROVIDER) {
+    case 'local':
+      return new LocalEmbeddingProvider(model, env.EMBEDDING_BASE_URL || OLLAMA_BASE_URL);
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new EmbeddingError('openai', 'OPENAI_API_KEY is required for OpenAI embeddings');
+      }
+      return new OpenAIEmbeddingProvider(env.OPENAI_API_KEY, model, env.EMBEDDING_BASE_URL || OPENAI_BASE_URL);
+    default:
+      return null;
+  }
+}
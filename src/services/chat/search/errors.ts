@@ -0,0 +1,9 @@
+export class EmbeddingError extends Error {
+  public readonly provider: string;
+
+  constructor(provider: string, message: string) {
+    super(`[${provider}] ${message}`);
+    this.name = 'EmbeddingError';
+    this.provider = provider;
+  }
+}
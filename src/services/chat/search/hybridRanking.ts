@@ -0,0 +1,30 @@
+import { MessageSearchResult } from '../../../types/chat';
+import { HybridCandidate, HybridWeights } from './types';
+
+export const DEFAULT_HYBRID_WEIGHTS: HybridWeights = { text: 0.4, vector: 0.6 };
+
+/**
+ * Combines full-text and vector scores into a single `rank`. Text ranks
+ * (`ts_rank_cd` with length normalization, which saturates like BM25's term
+ * frequency) are scaled against the best text hit in the candidate set so
+ * both signals share a 0–1 range before weighting; cosine similarity is
+ * used as-is.
+ */
+export function fuseCandidates(
+  candidates: HybridCandidate[],
+  weights: HybridWeights = DEFAULT_HYBRID_WEIGHTS
+): MessageSearchResult[] {
+  const maxTextRank = Math.max(0, ...candidates.map(candidate => candidate.text_rank));
+  const total = weights.text + weights.vector || 1;
+
+  return candidates
+    .map(candidate => {
+      const text = maxTextRank > 0 ? candidate.text_rank / maxTextRank : 0;
+      const vector = Math.max(0, candidate.similarity);
+      return {
+        ...candidate,
+        rank: (weights.text * text + weights.vector * vector) / total
+      };
+    })
+    .sort((a, b) => b.rank - a.rank);
+}
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './errors';
+export * from './embeddings';
+export * from './hybridRanking';
+export * from './MessageEmbeddingIndexer';
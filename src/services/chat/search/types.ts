@@ -0,0 +1,30 @@
+import { MessageSearchResult } from '../../../types/chat';
+
+/** Every stored embedding has this width so one pgvector column serves all providers */
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Plaintext view of a message handed to the indexer at send time */
+export interface IndexableMessage {
+  id: string;
+  thread_id: string;
+  content: string;
+  emotion_tags?: string[];
+  risk_flags?: string[];
+}
+
+/** Row returned by the `hybrid_search_messages` RPC, before score fusion */
+export interface HybridCandidate extends Omit<MessageSearchResult, 'rank'> {
+  text_rank: number;
+  similarity: number;
+}
+
+export interface HybridWeights {
+  text: number;
+  vector: number;
+}
@@ -0,0 +1,39 @@
+import { TemplateError } from './errors';
+import { ThreadTemplateDefinition } from './types';
+
+/**
+ * Checks the structure zod cannot: keys are unique and every parent is
+ * declared before its children, so threads can be created in order and
+ * the hierarchy cannot contain cycles.
+ */
+export function assertValidDefinition(definition: ThreadTemplateDefinition): void {
+  if (definition.threads.length === 0) {
+    throw new TemplateError('invalid_template', 'Templates need at least one thread');
+  }
+
+  const seen = new Set<string>();
+  for (const entry of definition.threads) {
+    if (seen.has(entry.key)) {
+      throw new TemplateError('invalid_template', `Duplicate thread key "${entry.key}"`);
+    }
+    if (entry.parentKey !== undefined && !seen.has(entry.parentKey)) {
+      throw new TemplateError(
+        'invalid_template',
+        `Thread "${entry.key}" must come after its parent "${entry.parentKey}"`
+      );
+    }
+    seen.add(entry.key);
+  }
+}
+
+export function clientProfileIds(definition: ThreadTemplateDefinition): string[] {
+  const ids = definition.threads
+    .map(entry => entry.clientProfileId)
+    .filter((id): id is string => typeof id === 'string');
+  return Array.from(new Set(ids));
+}
+
+/** Fills `{{name}}` placeholders for one trainee */
+export function renderText(text: string, vars: { name: string }): string {
+  return text.replace(/\{\{\s*name\s*\}\}/g, vars.name);
+}
@@ -0,0 +1,15 @@
+export type TemplateErrorCode =
+  | 'invalid_template'
+  | 'unknown_client_profile'
+  | 'forbidden'
+  | 'not_found';
+
+export class TemplateError extends Error {
+  public readonly code: TemplateErrorCode;
+
+  constructor(code: TemplateErrorCode, message: string) {
+    super(message);
+    this.name = 'TemplateError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,79 @@
+/** Roles allowed to author templates and provision cohorts */
+export const TEMPLATE_ROLES = ['instructor', 'admin'];
+
+export interface TemplateActor {
+  id: string;
+  role: string;
+}
+
+/**
+ * A message placed in the thread when it is provisioned. `client` lines are
+ * spoken by the simulated client; `instructor` lines by the provisioner.
+ * `{{name}}` is replaced with the trainee's display name.
+ */
+export interface SeedMessageTemplate {
+  role: 'instructor' | 'client';
+  content: string;
+}
+
+export interface ThreadTemplateEntry {
+  /** Stable within the template; provisioning progress is tracked by key */
+  key: string;
+  title: string;
+  description?: string;
+  /** Key of an earlier entry to nest under */
+  parentKey?: string;
+  pinned?: boolean;
+  clientProfileId?: string;
+  /** Position in the organizer group */
+  position: number;
+  seedMessages: SeedMessageTemplate[];
+}
+
+/** The organizer group each trainee's threads are placed in */
+export interface GroupLayout {
+  name: string;
+  description?: string;
+  color?: string;
+  icon?: string;
+  position: number;
+}
+
+export interface ThreadTemplateDefinition {
+  group: GroupLayout | null;
+  threads: ThreadTemplateEntry[];
+}
+
+export interface ThreadTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  definition: ThreadTemplateDefinition;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProvisionTarget {
+  userId: string;
+  displayName?: string;
+}
+
+export type ProvisionOutcome = 'provisioned' | 'already_provisioned' | 'failed';
+
+export interface ProvisionResult {
+  userId: string;
+  outcome: ProvisionOutcome;
+  groupId: string | null;
+  /** Template key → thread id, including threads created before a failure */
+  threadIds: Record<string, string>;
+  error?: string;
+}
+
+export interface ProvisionReport {
+  templateId: string;
+  results: ProvisionResult[];
+  provisioned: number;
+  alreadyProvisioned: number;
+  failed: number;
+}
@@ -0,0 +1,289 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { ThreadBundleError } from './errors';
+import { collectUserIds, countPayload, validatePayload } from './schema';
+import {
+  BundleEncryption,
+  THREAD_BUNDLE_FORMAT,
+  THREAD_BUNDLE_SCHEMA_VERSION,
+  ThreadBundle,
+  ThreadBundleManifest,
+  ThreadBundlePayload
+} from './types';
+
+const PBKDF2_ITERATIONS = 310000;
+const encoder = new TextEncoder();
+
+const rowSchema = z.record(z.unknown());
+
+const payloadSchema = z.object({
+  thread: z.object({ metadata: rowSchema.nullable(), hierarchy: rowSchema.nullable() }),
+  participants: z.array(rowSchema),
+  messages: z.array(rowSchema),
+  reactions: z.array(rowSchema),
+  edits: z.array(rowSchema),
+  attachments: z.array(rowSchema),
+  analytics: z.object({ metrics: rowSchema.nullable(), events: z.array(rowSchema) })
+});
+
+const envelopeSchema = z.object({
+  manifest: z.object({
+    format: z.literal(THREAD_BUNDLE_FORMAT),
+    schema_version: z.number().int(),
+    bundle_id: z.string(),
+    created_at: z.string(),
+    exported_by: z.string().optional(),
+    source_thread_id: z.string(),
+    counts: z.object({
+      participants: z.number(),
+      messages: z.number(),
+      reactions: z.number(),
+      edits: z.number(),
+      attachments: z.number(),
+      analytics_events: z.number()
+    }),
+    user_ids: z.array(z.string()),
+    payload_sha256: z.string(),
+    encryption: z.object({
+      algorithm: z.literal('AES-256-GCM'),
+      kdf: z.literal('PBKDF2-SHA256'),
+      iterations: z.number().int().positive(),
+      salt: z.string(),
+      iv: z.string()
+    }).nullable()
+  }),
+  signature: z.object({
+    algorithm: z.literal('HMAC-SHA256'),
+    key_id: z.string(),
+    value: z.string()
+  }),
+  payload: z.union([z.string(), z.record(z.unknown())])
+});
+
+/** JSON with object keys sorted, so signatures do not depend on key order */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Seals and opens thread bundles: a readable manifest (schema version,
+ * counts, referenced users, payload hash) signed with a shared HMAC key,
+ * and a payload that is optionally AES-GCM encrypted under a passphrase.
+ * Uses Web Crypto so it runs in both Node and the browser.
+ */
+export class ThreadBundleCodec {
+  private hmacKey: Promise<CryptoKey>;
+  private keyId: Promise<string>;
+
+  constructor(signingKey: string) {
+    if (!signingKey) {
+      throw new ThreadBundleError('not_configured', 'A bundle signing key is required');
+    }
+    this.hmacKey = crypto.subtle.importKey(
+      'raw',
+      encoder.encode(signingKey),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+    // Lets importers tell "wrong key" apart from "tampered"
+    this.keyId = sha256Hex(signingKey).then(hash => hash.slice(0, 16));
+  }
+
+  static fromEnv(env: Record<string, string | undefined> = process.env): ThreadBundleCodec {
+    return new ThreadBundleCodec(env.THREAD_BUNDLE_SIGNING_KEY ?? '');
+  }
+
+  async seal(
+    payload: ThreadBundlePayload,
+    options: { sourceThreadId: string; exportedBy?: string; passphrase?: string }
+  ): Promise<ThreadBundle> {
+    validatePayload(payload);
+
+    const bundleId = uuidv4();
+    let stored: ThreadBundlePayload | string = payload;
+    let encryption: BundleEncryption | null = null;
+
+    if (options.passphrase) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const key = await deriveKey(options.passphrase, salt, PBKDF2_ITERATIONS);
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(bundleId) },
+        key,
+        encoder.encode(canonicalJson(payload))
+      );
+      stored = toBase64(new Uint8Array(ciphertext));
+      encryption = {
+        algorithm: 'AES-256-GCM',
+        kdf: 'PBKDF2-SHA256',
+        iterations: PBKDF2_ITERATIONS,
+        salt: toBase64(salt),
+        iv: toBase64(iv)
+      };
+    }
+
+    const manifest: ThreadBundleManifest = {
+      format: THREAD_BUNDLE_FORMAT,
+      schema_version: THREAD_BUNDLE_SCHEMA_VERSION,
+      bundle_id: bundleId,
+      created_at: new Date().toISOString(),
+      exported_by: options.exportedBy,
+      source_thread_id: options.sourceThreadId,
+      counts: countPayload(payload),
+      user_ids: collectUserIds(payload),
+      payload_sha256: await sha256Hex(typeof stored === 'string' ? stored : canonicalJson(stored)),
+      encryption
+    };
+
+    const signature = await crypto.subtle.sign('HMAC', await this.hmacKey, encoder.encode(canonicalJson(manifest)));
+
+    return {
+      manifest,
+      signature: { algorithm: 'HMAC-SHA256', key_id: await this.keyId, value: toBase64(new Uint8Array(signature)) },
+      payload: stored
+    };
+  }
+
+  /**
+   * Verifies and decodes a bundle. Nothing in the payload is trusted until
+   * the signature, payload hash, decryption and referential checks all pass.
+   */
+  async open(input: unknown, passphrase?: string): Promise<{ manifest: ThreadBundleManifest; payload: ThreadBundlePayload }> {
+    const parsed = envelopeSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ThreadBundleError('malformed', `Not a thread bundle: ${parsed.error.issues[0]?.message}`);
+    }
+    const bundle = parsed.data as ThreadBundle;
+    const { manifest } = bundle;
+
+    if (manifest.schema_version < 1 || manifest.schema_version > THREAD_BUNDLE_SCHEMA_VERSION) {
+      throw new ThreadBundleError(
+        'unsupported_version',
+        `Bundle schema version ${manifest.schema_version} is not supported (max ${THREAD_BUNDLE_SCHEMA_VERSION})`
+      );
+    }
+
+    if (bundle.signature.key_id !== await this.keyId) {
+      throw new ThreadBundleError('bad_signature', 'Bundle was signed with a different key');
+    }
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await this.hmacKey,
+      fromBase64(bundle.signature.value),
+      encoder.encode(canonicalJson(manifest))
+    );
+    if (!valid) {
+      throw new ThreadBundleError('bad_signature', 'Bundle manifest signature is invalid');
+    }
+
+    const stored = bundle.payload;
+    const storedText = typeof stored === 'string' ? stored : canonicalJson(stored);
+    if (await sha256Hex(storedText) !== manifest.payload_sha256) {
+      throw new ThreadBundleError('payload_mismatch', 'Bundle payload does not match its manifest');
+    }
+
+    let decoded: unknown = stored;
+    if (manifest.encryption) {
+      if (typeof stored !== 'string') {
+        throw new ThreadBundleError('malformed', 'Encrypted bundle carries a plaintext payload');
+      }
+      if (!passphrase) {
+        throw new ThreadBundleError('passphrase_required', 'Bundle is encrypted; a passphrase is required');
+      }
+      decoded = await this.decrypt(stored, manifest.encryption, manifest.bundle_id, passphrase);
+    } else if (typeof stored === 'string') {
+      throw new ThreadBundleError('malformed', 'Unencrypted bundle carries an opaque payload');
+    }
+
+    const payloadResult = payloadSchema.safeParse(decoded);
+    if (!payloadResult.success) {
+      throw new ThreadBundleError('malformed', `Invalid bundle payload: ${payloadResult.error.issues[0]?.message}`);
+    }
+    const payload = payloadResult.data as ThreadBundlePayload;
+
+    if (canonicalJson(countPayload(payload)) !== canonicalJson(manifest.counts)) {
+      throw new ThreadBundleError('integrity', 'Bundle contents do not match the manifest counts');
+    }
+    if (canonicalJson(collectUserIds(payload)) !== canonicalJson([...manifest.user_ids].sort())) {
+      throw new ThreadBundleError('integrity', 'Bundle user references do not match the manifest');
+    }
+    validatePayload(payload);
+
+    return { manifest, payload };
+  }
+
+  private async decrypt(
+    ciphertext: string,
+    encryption: BundleEncryption,
+    bundleId: string,
+    passphrase: string
+  ): Promise<unknown> {
+    try {
+      const key = await deriveKey(passphrase, fromBase64(encryption.salt), encryption.iterations);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(encryption.iv), additionalData: encoder.encode(bundleId) },
+        key,
+        fromBase64(ciphertext)
+      );
+      return JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+      throw new ThreadBundleError('decryption_failed', 'Could not decrypt bundle; check the passphrase');
+    }
+  }
+}
+
+export function serializeBundle(bundle: ThreadBundle): string {
+  return JSON.stringify(bundle);
+}
+
+export function parseBundle(serialized: string): unknown {
+  try {
+    return JSON.parse(serialized);
+  } catch {
+    throw new ThreadBundleError('malformed', 'Bundle is not valid JSON');
+  }
+}
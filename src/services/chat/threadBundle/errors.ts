@@ -0,0 +1,20 @@
+export type ThreadBundleErrorCode =
+  | 'malformed'
+  | 'unsupported_version'
+  | 'bad_signature'
+  | 'payload_mismatch'
+  | 'passphrase_required'
+  | 'decryption_failed'
+  | 'integrity'
+  | 'unmapped_user'
+  | 'not_configured';
+
+export class ThreadBundleError extends Error {
+  public readonly code: ThreadBundleErrorCode;
+
+  constructor(code: ThreadBundleErrorCode, message: string) {
+    super(message);
+    this.name = 'ThreadBundleError';
+    this.code = code;
+  }
+}
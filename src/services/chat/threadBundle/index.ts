@@ -0,0 +1,5 @@
+export * from './types';
+export * from './errors';
+export * from './schema';
+export * from './ThreadBundleCodec';
+export * from './remap';
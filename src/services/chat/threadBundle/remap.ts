@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ThreadBundleError } from './errors';
+import { MESSAGE_PARENT_FIELDS, USER_FIELDS, collectUserIds, orderByThreading } from './schema';
+import { BundleRow, ThreadBundlePayload } from './types';
+
+/** Columns that only make sense in the source database */
+const DERIVED_FIELDS = ['search_vector', 'reply_count'];
+
+export interface RemappedThread {
+  metadata: BundleRow | null;
+  hierarchy: BundleRow | null;
+  participants: BundleRow[];
+  messages: BundleRow[];
+  reactions: BundleRow[];
+  edits: BundleRow[];
+  attachments: BundleRow[];
+  metrics: BundleRow | null;
+  events: BundleRow[];
+  messageIds: Record<string, string>;
+}
+
+export interface RemapOptions {
+  threadId: string;
+  userIdMap: Record<string, string>;
+  parentThreadId?: string;
+  newId?: () => string;
+}
+
+/**
+ * Rewrites a verified payload for insertion under a new thread: fresh row
+ * ids, users translated through `userIdMap`, and reply links pointing at
+ * the new message ids. Messages come back parents-first.
+ */
+export function remapPayload(payload: ThreadBundlePayload, options: RemapOptions): RemappedThread {
+  const { threadId, userIdMap } = options;
+  const newId = options.newId ?? uuidv4;
+
+  const unmapped = collectUserIds(payload).filter(id => !userIdMap[id]);
+  if (unmapped.length > 0) {
+    throw new ThreadBundleError('unmapped_user', `No target user for: ${unmapped.join(', ')}`);
+  }
+
+  const mapUsers = (row: BundleRow, fields: readonly string[]): BundleRow => {
+    const copy: BundleRow = { ...row };
+    for (const field of fields) {
+      if (typeof copy[field] === 'string') copy[field] = userIdMap[copy[field] as string];
+    }
+    for (const field of DERIVED_FIELDS) delete copy[field];
+    return copy;
+  };
+
+  const messageIds: Record<string, string> = {};
+  const ordered = orderByThreading(payload.messages);
+  ordered.forEach(message => {
+    messageIds[message.id as string] = newId();
+  });
+
+  const messages = ordered.map(message => {
+    const row = mapUsers(message, USER_FIELDS.messages);
+    row.id = messageIds[message.id as string];
+    row.thread_id = threadId;
+    for (const field of MESSAGE_PARENT_FIELDS) {
+      if (typeof row[field] === 'string') row[field] = messageIds[row[field] as string];
+    }
+    return row;
+  });
+
+  const attachmentIds: Record<string, string> = {};
+  payload.attachments.forEach(attachment => {
+    attachmentIds[attachment.id as string] = newId();
+  });
+
+  const metadata: BundleRow | null = payload.thread.metadata ? { ...payload.thread.metadata, thread_id: threadId } : null;
+  if (metadata) delete metadata.id;
+
+  return {
+    metadata,
+    hierarchy: options.parentThreadId
+      ? { thread_id: threadId, parent_id: options.parentThreadId, position: 0 }
+      : null,
+    participants: payload.participants.map(row => ({
+      ...mapUsers(row, USER_FIELDS.participants),
+      thread_id: threadId
+    })),
+    messages,
+    reactions: payload.reactions.map(row => ({
+      ...mapUsers(row, USER_FIELDS.reactions),
+      id: newId(),
+      message_id: messageIds[row.message_id as string]
+    })),
+    edits: payload.edits.map(row => ({
+      ...mapUsers(row, USER_FIELDS.edits),
+      id: newId(),
+      message_id: messageIds[row.message_id as string]
+    })),
+    attachments: payload.attachments.map(row => ({
+      ...mapUsers(row, USER_FIELDS.attachments),
+      id: attachmentIds[row.id as string],
+      thread_id: threadId,
+      message_id: typeof row.message_id === 'string' ? messageIds[row.message_id] : null,
+      // Earlier versions left behind in the source are not part of the bundle
+      previous_version_id: typeof row.previous_version_id === 'string'
+        ? attachmentIds[row.previous_version_id] ?? null
+        : null
+    })),
+    metrics: payload.analytics.metrics ? { ...payload.analytics.metrics, thread_id: threadId } : null,
+    events: payload.analytics.events.map(row => ({
+      ...mapUsers(row, USER_FIELDS.events),
+      id: newId(),
+      thread_id: threadId
+    })),
+    messageIds
+  };
+}
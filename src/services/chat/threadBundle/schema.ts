@@ -0,0 +1,119 @@
+import { ThreadBundleError } from './errors';
+import { BundleRow, ThreadBundleCounts, ThreadBundlePayload } from './types';
+
+/** Columns holding user ids, per payload section */
+export const USER_FIELDS = {
+  participants: ['user_id'],
+  messages: ['sender_id', 'recipient_id', 'user_id'],
+  reactions: ['user_id'],
+  edits: ['editor_id'],
+  attachments: ['uploader_id'],
+  events: ['user_id']
+} as const;
+
+/**
+ * Reply links between messages: `parent_message_id` from the threading
+ * migration and the older `parent_id` on the base messages table.
+ */
+export const MESSAGE_PARENT_FIELDS = ['parent_message_id', 'parent_id'] as const;
+
+function userIdsIn(rows: BundleRow[], fields: readonly string[]): string[] {
+  return rows.flatMap(row => fields.map(field => row[field]).filter((id): id is string => typeof id === 'string'));
+}
+
+export function collectUserIds(payload: ThreadBundlePayload): string[] {
+  const ids = [
+    ...userIdsIn(payload.participants, USER_FIELDS.participants),
+    ...userIdsIn(payload.messages, USER_FIELDS.messages),
+    ...userIdsIn(payload.reactions, USER_FIELDS.reactions),
+    ...userIdsIn(payload.edits, USER_FIELDS.edits),
+    ...userIdsIn(payload.attachments, USER_FIELDS.attachments),
+    ...userIdsIn(payload.analytics.events, USER_FIELDS.events)
+  ];
+  return Array.from(new Set(ids)).sort();
+}
+
+export function countPayload(payload: ThreadBundlePayload): ThreadBundleCounts {
+  return {
+    participants: payload.participants.length,
+    messages: payload.messages.length,
+    reactions: payload.reactions.length,
+    edits: payload.edits.length,
+    attachments: payload.attachments.length,
+    analytics_events: payload.analytics.events.length
+  };
+}
+
+export function parentOf(message: BundleRow): string | null {
+  for (const field of MESSAGE_PARENT_FIELDS) {
+    if (typeof message[field] === 'string') return message[field] as string;
+  }
+  return null;
+}
+
+/**
+ * Orders messages so every parent precedes its replies, preserving the
+ * original order otherwise. Throws on cycles or parents missing from the bundle.
+ */
+export function orderByThreading(messages: BundleRow[]): BundleRow[] {
+  const byId = new Map(messages.map(message => [message.id as string, message]));
+  const ordered: BundleRow[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (message: BundleRow) => {
+    const id = message.id as string;
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      throw new ThreadBundleError('integrity', `Reply chain through message ${id} forms a cycle`);
+    }
+    state.set(id, 'visiting');
+
+    const parentId = parentOf(message);
+    if (parentId !== null) {
+      const parent = byId.get(parentId);
+      if (!parent) {
+        throw new ThreadBundleError('integrity', `Message ${id} replies to ${parentId}, which is not in the bundle`);
+      }
+      visit(parent);
+    }
+
+    state.set(id, 'done');
+    ordered.push(message);
+  };
+
+  messages.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Referential checks that must hold before anything is written: unique
+ * message ids, complete reply chains, and reactions, edits and
+ * attachments that point at messages in the bundle.
+ */
+export function validatePayload(payload: ThreadBundlePayload): void {
+  const messageIds = new Set<string>();
+  for (const message of payload.messages) {
+    if (typeof message.id !== 'string') {
+      throw new ThreadBundleError('integrity', 'Message without an id');
+    }
+    if (messageIds.has(message.id)) {
+      throw new ThreadBundleError('integrity', `Duplicate message ${message.id}`);
+    }
+    messageIds.add(message.id);
+  }
+
+  orderByThreading(payload.messages);
+
+  const checkMessageRef = (section: string, rows: BundleRow[], optional = false) => {
+    for (const row of rows) {
+      const ref = row.message_id;
+      if (optional && (ref === null || ref === undefined)) continue;
+      if (typeof ref !== 'string' || !messageIds.has(ref)) {
+        throw new ThreadBundleError('integrity', `${section} row references unknown message ${String(ref)}`);
+      }
+    }
+  };
+  checkMessageRef('Reaction', payload.reactions);
+  checkMessageRef('Edit', payload.edits);
+  checkMessageRef('Attachment', payload.attachments, true);
+}
@@ -0,0 +1,90 @@
+export const THREAD_BUNDLE_FORMAT = 'thread-bundle';
+export const THREAD_BUNDLE_SCHEMA_VERSION = 1;
+
+/** A database row carried verbatim; ids and user references are remapped on import */
+export type BundleRow = Record<string, unknown>;
+
+export interface ThreadBundlePayload {
+  thread: {
+    metadata: BundleRow | null;
+    hierarchy: BundleRow | null;
+  };
+  participants: BundleRow[];
+  messages: BundleRow[];
+  reactions: BundleRow[];
+  edits: BundleRow[];
+  attachments: BundleRow[];
+  analytics: {
+    metrics: BundleRow | null;
+    events: BundleRow[];
+  };
+}
+
+export interface ThreadBundleCounts {
+  participants: number;
+  messages: number;
+  reactions: number;
+  edits: number;
+  attachments: number;
+  analytics_events: number;
+}
+
+export interface BundleEncryption {
+  algorithm: 'AES-256-GCM';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  iv: string;
+}
+
+export interface ThreadBundleManifest {
+  format: typeof THREAD_BUNDLE_FORMAT;
+  schema_version: number;
+  bundle_id: string;
+  created_at: string;
+  exported_by?: string;
+  source_thread_id: string;
+  counts: ThreadBundleCounts;
+  /** Every user id referenced by the payload, so an import map can be built up front */
+  user_ids: string[];
+  /** SHA-256 of the payload exactly as stored (ciphertext when encrypted) */
+  payload_sha256: string;
+  encryption: BundleEncryption | null;
+}
+
+export interface BundleSignature {
+  algorithm: 'HMAC-SHA256';
+  key_id: string;
+  value: string;
+}
+
+export interface ThreadBundle {
+  manifest: ThreadBundleManifest;
+  signature: BundleSignature;
+  /** Plain payload, or base64 AES-GCM ciphertext of it */
+  payload: ThreadBundlePayload | string;
+}
+
+export interface ThreadExportOptions {
+  /** Encrypts the payload; the manifest stays readable */
+  passphrase?: string;
+  exportedBy?: string;
+  /** Keeps supervisor whispers; off for anything a client may receive */
+  includeSupervision?: boolean;
+}
+
+export interface ThreadImportOptions {
+  /** Source user id -> target user id; every referenced user must be mapped */
+  userIdMap: Record<string, string>;
+  passphrase?: string;
+  /** Thread to nest the import under; the source hierarchy is not carried over */
+  parentThreadId?: string;
+}
+
+export interface ThreadImportResult {
+  threadId: string;
+  bundleId: string;
+  counts: ThreadBundleCounts;
+  /** Source message id -> imported message id */
+  messageIds: Record<string, string>;
+}
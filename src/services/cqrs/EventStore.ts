@@ -3,6 +3,7 @@ import { Event, EventStore, EventStoreOptions } from '@/types/cqrs';
 import { RedisService } from '@/services/RedisService';
 import { eventSchema } from '@/types/cqrs';
 import { EventEmitter } from 'events';
+import { EventVersionConflictError } from './errors';
 
 @singleton()
 export class RedisEventStore extends EventEmitter implements EventStore {
@@ -36,11 +37,21 @@ export class RedisEventStore extends EventEmitter implements EventStore {
     return `aggregate:${aggregateId}:events`;
   }
 
+  private getVersionKey(aggregateId: string): string {
+    return `aggregate:${aggregateId}:version`;
+  }
+
   private getEventTypeKey(type: string): string {
     return `eventType:${type}:events`;
   }
 
-  public async append(event: Event): Promise<void> {
+  /**
+   * Store an event. With `expectedVersion` (the aggregate's last version,
+   * -1 for a new one) the append only succeeds if no other writer got there
+   * first; otherwise an EventVersionConflictError is thrown and nothing is
+   * stored.
+   */
+  public async append(event: Event, expectedVersion?: number): Promise<void> {
     try {
       // Validate event
       eventSchema.parse(event);
@@ -51,8 +62,23 @@ export class RedisEventStore extends EventEmitter implements EventStore {
 
       // Add to aggregate's event list
       if (event.metadata?.aggregateId) {
-        const aggregateKey = this.getAggregateKey(event.metadata.aggregateId as string);
-        await this.redisService.rpush(aggregateKey, event.id);
+        const aggregateId = event.metadata.aggregateId as string;
+        const aggregateKey = this.getAggregateKey(aggregateId);
+        if (expectedVersion === undefined) {
+          await this.redisService.rpush(aggregateKey, event.id);
+        } else {
+          const appended = await this.redisService.appendIfVersion(
+            aggregateKey,
+            this.getVersionKey(aggregateId),
+            expectedVersion,
+            event.version,
+            event.id
+          );
+          if (!appended) {
+            await this.redisService.del(eventKey);
+            throw new EventVersionConflictError(aggregateId, expectedVersion);
+          }
+        }
 
         // Check if we need to create a snapshot
         const eventCount = await this.redisService.llen(aggregateKey);
@@ -73,7 +99,9 @@ export class RedisEventStore extends EventEmitter implements EventStore {
       // Emit event
       this.emit('eventStored', event);
     } catch (error) {
-      console.error('Error storing event:', error);
+      if (!(error instanceof EventVersionConflictError)) {
+        console.error('Error storing event:', error);
+      }
       throw error;
     }
   }
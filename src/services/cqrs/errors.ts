@@ -0,0 +1,12 @@
+/**
+ * Another writer appended to the aggregate since the caller last read it
+ */
+export class EventVersionConflictError extends Error {
+  constructor(
+    public readonly aggregateId: string,
+    public readonly expectedVersion: number
+  ) {
+    super(`Aggregate ${aggregateId} is no longer at version ${expectedVersion}`);
+    this.name = 'EventVersionConflictError';
+  }
+}
@@ -1,4 +1,5 @@
 export * from './EventStore';
+export * from './errors';
 export * from './CommandBus';
 export * from './EventBus';
 export * from './QueryBus';
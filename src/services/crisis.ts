@@ -0,0 +1,12 @@
+// src/services/crisis.ts
+
+async function crisisServiceHandler(message: string): Promise<string> {
+  // Never depends on a model call: crisis replies must always go out
+  return [
+    "It sounds like you may be going through something really painful right now, and you don't have to face it alone.",
+    'If you are in immediate danger, please call your local emergency number (911 in the US).',
+    'You can call or text 988 to reach the Suicide & Crisis Lifeline, or text HOME to 741741 for the Crisis Text Line, any time of day.',
+  ].join('\n');
+}
+
+export { crisisServiceHandler };
@@ -1,6 +1,7 @@
 import { singleton } from 'tsyringe';
 import { dataService } from '../../services/dataService';
 import { NLPService } from '../nlp/NLPService';
+import { detectBoundaryIssues } from '@/lib/compliance/output-patterns';
 
 @singleton()
 export class EthicsService {
@@ -88,6 +89,13 @@ export class EthicsService {
       recommendations.push('Review and reinforce therapeutic relationship boundaries');
     }
 
+    // Check boundary-crossing language in the content itself
+    const contentIssues = detectBoundaryIssues(session?.content ?? '');
+    if (contentIssues.length > 0) {
+      issues.push(...contentIssues);
+      recommendations.push('Keep communication within the therapeutic relationship');
+    }
+
     const severity = this.determineBoundarySeverity(issues);
 
     return {
@@ -1,8 +1,19 @@
 // src/services/generalChat.ts
+import { IntentRouter, type IntentResult } from '@/ai/intent';
+
+async function generalChatHandler(message: string, intent?: IntentResult): Promise<string> {
+  // The router fell back here because it wasn't sure; ask instead of guessing
+  if (intent?.source === 'fallback') {
+    const options = IntentRouter.getInstance()
+      .getRoutes()
+      .filter(route => route.id !== 'general_chat' && route.id !== 'crisis')
+      .map(route => `- ${route.label}: ${route.description}`)
+      .join('\n');
+    return `I want to make sure I help with the right thing. Are you looking for one of these?\n${options}`;
+  }
 
-async function generalChatHandler(message: string): Promise<string> {
   // TODO: Implement general chat logic
   return 'General chat: ' + message;
 }
 
-export { generalChatHandler };
\ No newline at end of file
+export { generalChatHandler };
@@ -2,6 +2,7 @@ import { singleton } from "tsyringe";
 import { dataService } from "@/lib/data";
 import { SecurityService } from "../security/SecurityService";
 import { AuditService } from "../audit/AuditService";
+import { detectPHI } from "@/lib/compliance/output-patterns";
 
 @singleton()
 export class HIPAAService {
@@ -94,6 +95,17 @@ export class HIPAAService {
       recommendations.push(...(transmissionStatus.recommendations || []));
     }
 
+    // Check identifiers disclosed in the content itself
+    const disclosed = detectPHI(session?.content ?? "");
+    if (disclosed.length > 0) {
+      issues.push(
+        ...disclosed.map(
+          (type) => `Content discloses ${type.replace("_", " ")}`,
+        ),
+      );
+      recommendations.push("Remove identifiers from message content");
+    }
+
     return {
       isSecure: issues.length === 0,
       issues: issues.length > 0 ? issues : undefined,
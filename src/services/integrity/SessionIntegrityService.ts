@@ -0,0 +1,215 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../../lib/logger';
+import type { SessionState } from '@/types/session';
+import { SessionIntegrityError } from './errors';
+import { WorkerProver } from './prover';
+import {
+  DEFAULT_PROOF_SYSTEM,
+  ProofSystem,
+  SessionIntegrityProof,
+  SessionIntegrityProver,
+  SessionIntegrityVerification,
+  SessionMessage,
+  SessionSignature,
+  TherapistPublicKey
+} from './types';
+import { buildCircuitInputs, buildSessionMessage, hashToField, parseStatement } from './witness';
+
+/** Row returned by `get_session_integrity_proof` */
+interface IntegrityProofRow {
+  session_id: string;
+  therapist_id: string;
+  protocol: ProofSystem;
+  proof: Record<string, unknown>;
+  public_signals: string[];
+  proved_at: string;
+  public_key_x: string | null;
+  public_key_y: string | null;
+}
+
+const toProof = (row: IntegrityProofRow): SessionIntegrityProof => ({
+  sessionId: row.session_id,
+  therapistId: row.therapist_id,
+  protocol: row.protocol,
+  proof: row.proof,
+  publicSignals: row.public_signals,
+  provedAt: new Date(row.proved_at),
+  therapistPublicKey: row.public_key_x && row.public_key_y ? [row.public_key_x, row.public_key_y] : null
+});
+
+const sameKey = (a: [string, string], b: [string, string]) => a[0] === b[0] && a[1] === b[1];
+
+/**
+ * Proves a completed session against session_integrity.circom and keeps
+ * the proof in `session_integrity_proofs`, one per session. A proof only
+ * carries hashes, the session's end time and the therapist's public key,
+ * so verification needs no access to session content.
+ *
+ * Therapists register the public half of their signing key once and
+ * sign each session's message on their own device. Only the session's own
+ * therapist can prove it, and a proof is only accepted if it was signed
+ * with the key registered for the session's therapist.
+ */
+export class SessionIntegrityService {
+  private static instance: SessionIntegrityService;
+  private supabase: SupabaseClient;
+  private prover: SessionIntegrityProver;
+
+  constructor(supabaseClient: SupabaseClient, prover: SessionIntegrityProver = new WorkerProver()) {
+    this.supabase = supabaseClient;
+    this.prover = prover;
+  }
+
+  public static getInstance(supabaseClient: SupabaseClient): SessionIntegrityService {
+    if (!SessionIntegrityService.instance) {
+      SessionIntegrityService.instance = new SessionIntegrityService(supabaseClient);
+    }
+    return SessionIntegrityService.instance;
+  }
+
+  public async registerTherapistKey(key: TherapistPublicKey): Promise<void> {
+    const { error } = await this.supabase.from('therapist_integrity_keys').upsert(
+      {
+        therapist_id: key.therapistId,
+        public_key_x: key.publicKey[0],
+        public_key_y: key.publicKey[1]
+      },
+      { onConflict: 'therapist_id' }
+    );
+    if (error) throw error;
+
+    logger.info('Therapist integrity key registered', { therapistId: key.therapistId });
+  }
+
+  /** The message the session's therapist signs before asking for a proof */
+  public async getSessionMessage(
+    session: SessionState,
+    options: { therapistId: string; interventionCount: number }
+  ): Promise<SessionMessage> {
+    await this.assertSessionTherapist(session.id, options.therapistId);
+    return buildSessionMessage(session, options.interventionCount);
+  }
+
+  /**
+   * Prove a completed session from its therapist's signature over the
+   * session message. Proving again replaces the stored proof, e.g. after
+   * moving from Groth16 to PLONK.
+   */
+  public async proveSession(
+    session: SessionState,
+    options: {
+      therapistId: string;
+      interventionCount: number;
+      signature: SessionSignature;
+      protocol?: ProofSystem;
+      referenceTime?: Date;
+    }
+  ): Promise<SessionIntegrityProof> {
+    const protocol = options.protocol ?? DEFAULT_PROOF_SYSTEM;
+    const { therapistId } = options;
+
+    // Fail before proving rather than store a proof that can never verify
+    const registered = await this.getTherapistKey(therapistId);
+    if (!registered) {
+      throw new SessionIntegrityError('unregistered_key', `No signing key is registered for therapist ${therapistId}`);
+    }
+    await this.assertSessionTherapist(session.id, therapistId);
+
+    const inputs = await buildCircuitInputs(session, { ...options, publicKey: registered });
+    const started = Date.now();
+    const { proof, publicSignals } = await this.prover.prove(inputs, protocol);
+    const provedAt = new Date();
+
+    const { error } = await this.supabase.from('session_integrity_proofs').upsert(
+      {
+        session_id: session.id,
+        protocol,
+        proof,
+        public_signals: publicSignals,
+        proved_at: provedAt.toISOString()
+      },
+      { onConflict: 'session_id' }
+    );
+    if (error) throw error;
+
+    logger.info('Session integrity proof stored', {
+      sessionId: session.id,
+      protocol,
+      durationMs: Date.now() - started
+    });
+    return {
+      sessionId: session.id,
+      therapistId,
+      protocol,
+      proof,
+      publicSignals,
+      provedAt,
+      therapistPublicKey: registered
+    };
+  }
+
+  /** Stored proof with the session's therapist and their registered key */
+  public async getProof(sessionId: string): Promise<SessionIntegrityProof | null> {
+    const { data, error } = await this.supabase.rpc('get_session_integrity_proof', { p_session_id: sessionId });
+    if (error) throw error;
+    const row = (data as IntegrityProofRow[] | null)?.[0];
+    return row ? toProof(row) : null;
+  }
+
+  /**
+   * Check the stored proof for a session. Beyond the SNARK itself, the
+   * proof must name this session and be signed with the key registered
+   * for the session's therapist.
+   */
+  public async verifySession(sessionId: string): Promise<SessionIntegrityVerification> {
+    const stored = await this.getProof(sessionId);
+    if (!stored) {
+      throw new SessionIntegrityError('not_found', `No integrity proof for session ${sessionId}`);
+    }
+
+    const statement = parseStatement(stored.publicSignals);
+    const valid =
+      statement.sessionId === hashToField(sessionId).toString() &&
+      stored.therapistPublicKey !== null &&
+      sameKey(statement.therapistPublicKey, stored.therapistPublicKey) &&
+      (await this.prover.verify(stored.protocol, stored.proof, stored.publicSignals));
+
+    if (!valid) {
+      logger.warn('Session integrity proof failed verification', { sessionId, protocol: stored.protocol });
+    }
+
+    return {
+      sessionId,
+      valid,
+      protocol: stored.protocol,
+      therapistId: stored.therapistId,
+      statement,
+      provedAt: stored.provedAt
+    };
+  }
+
+  private async assertSessionTherapist(sessionId: string, therapistId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('sessions')
+      .select('therapist_id')
+      .eq('id', sessionId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      throw new SessionIntegrityError('not_found', `Session ${sessionId} does not exist`);
+    }
+    if (data.therapist_id !== therapistId) {
+      throw new SessionIntegrityError('not_session_therapist', `Session ${sessionId} is not led by therapist ${therapistId}`);
+    }
+  }
+
+  private async getTherapistKey(therapistId: string): Promise<[string, string] | null> {
+    const { data, error } = await this.supabase
+      .from('therapist_integrity_keys')
+      .select('public_key_x, public_key_y')
+      .eq('therapist_id', therapistId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? [data.public_key_x, data.public_key_y] : null;
+  }
+}
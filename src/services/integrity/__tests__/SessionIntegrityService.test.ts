@@ -0,0 +1,299 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { SessionState } from '@/types/session';
+import {
+  SessionIntegrityError,
+  SessionIntegrityInputs,
+  SessionIntegrityProver,
+  SessionIntegrityService,
+  SessionSignature,
+  WorkerProver,
+  defaultArtifacts,
+  derivePublicKey,
+  hashToField,
+  signSessionMessage
+} from '..';
+
+jest.mock('../../../lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+// Deterministic stand-ins for Poseidon and Baby Jubjub EdDSA; field elements are bigints
+jest.mock(
+  'circomlibjs',
+  () => {
+    const { createHash: hash } = jest.requireActual('crypto');
+    const h = (...parts: unknown[]) =>
+      BigInt(`0x${hash('sha256').update(parts.map(String).join('|')).digest('hex')}`) % BigInt(2 ** 120);
+    const F = { e: (value: unknown) => BigInt(value as string), toObject: (element: bigint) => element };
+    const poseidon = Object.assign((inputs: unknown[]) => h('poseidon', ...inputs), { F });
+    // Signatures derive from the public key so verification can recompute them
+    const prv2pub = (key: Buffer) => [h('ax', key.toString('hex')), h('ay', key.toString('hex'))];
+    const sign = ([ax, ay]: bigint[], message: bigint) => ({
+      R8: [h('r8x', ax, ay, message), h('r8y', ax, ay, message)],
+      S: h('s', ax, ay, message)
+    });
+    const eddsa = {
+      F,
+      prv2pub,
+      signPoseidon: (key: Buffer, message: bigint) => sign(prv2pub(key), message),
+      verifyPoseidon: (message: bigint, signature: { R8: bigint[]; S: bigint }, publicKey: bigint[]) => {
+        const expected = sign(publicKey, message);
+        return expected.R8[0] === signature.R8[0] && expected.R8[1] === signature.R8[1] && expected.S === signature.S;
+      }
+    };
+    return { buildEddsa: async () => eddsa, buildPoseidon: async () => poseidon };
+  },
+  { virtual: true }
+);
+
+const digest = (signals: string[]) => createHash('sha256').update(JSON.stringify(signals)).digest('hex');
+
+/** Produces the circuit's public signals and a "proof" that only verifies against them */
+function createProver() {
+  const prove = jest.fn(async (inputs: SessionIntegrityInputs, _protocol: string) => {
+    const publicSignals = [
+      inputs.sessionId,
+      inputs.timestamp,
+      inputs.referenceTime,
+      inputs.therapistPubKeyAx,
+      inputs.therapistPubKeyAy,
+      inputs.metricsHash
+    ];
+    return { proof: { digest: digest(publicSignals) }, publicSignals };
+  });
+  const verify = jest.fn(async (_protocol: string, proof: Record<string, unknown>, publicSignals: string[]) =>
+    proof.digest === digest(publicSignals)
+  );
+  return { prove, verify } satisfies SessionIntegrityProver;
+}
+
+function createSupabase(tables: Record<string, any[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: any) => boolean> = [];
+    const rows = () => (tables[table] ??= []).filter(row => filters.every(filter => filter(row)));
+    const builder: any = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      upsert: async (row: any, { onConflict }: { onConflict: string }) => {
+        const existing = (tables[table] ??= []).find(candidate => candidate[onConflict] === row[onConflict]);
+        if (existing) Object.assign(existing, row);
+        else tables[table].push({ ...row });
+        return { error: null };
+      },
+      maybeSingle: async () => ({ data: rows()[0] ?? null, error: null })
+    };
+    return builder;
+  };
+
+  const rpc = async (name: string, args: { p_session_id: string }) => {
+    expect(name).toBe('get_session_integrity_proof');
+    const data = (tables.session_integrity_proofs ?? [])
+      .filter(proof => proof.session_id === args.p_session_id)
+      .map(proof => {
+        const session = tables.sessions.find(candidate => candidate.id === proof.session_id);
+        const key = (tables.therapist_integrity_keys ?? []).find(candidate => candidate.therapist_id === session.therapist_id);
+        return {
+          ...proof,
+          therapist_id: session.therapist_id,
+          public_key_x: key?.public_key_x ?? null,
+          public_key_y: key?.public_key_y ?? null
+        };
+      });
+    return { data, error: null };
+  };
+
+  return { from, rpc } as any;
+}
+
+const NOW = new Date('2024-04-08T12:00:00Z');
+const therapistKey = Buffer.alloc(32, 7);
+const otherKey = Buffer.alloc(32, 9);
+const unsigned: SessionSignature = { r8: ['1', '2'], s: '3' };
+
+function completedSession(overrides: Partial<SessionState> = {}): SessionState {
+  return {
+    id: 'session-1',
+    clientId: 'client-1',
+    mode: 'individual',
+    status: 'completed',
+    startTime: new Date('2024-04-08T10:00:00Z'),
+    endTime: new Date('2024-04-08T10:45:00Z'),
+    metrics: { sentiment: 0.6, engagement: 0.856, riskLevel: 0.34, interventionSuccess: 0.5 },
+    ...overrides
+  };
+}
+
+const errorCode = (promise: Promise<unknown>) =>
+  promise.then(
+    () => null,
+    error => (error instanceof SessionIntegrityError ? error.code : error)
+  );
+
+describe('SessionIntegrityService', () => {
+  let tables: Record<string, any[]>;
+  let prover: ReturnType<typeof createProver>;
+  let service: SessionIntegrityService;
+
+  // What the therapist's device does with the message the server hands out
+  const sign = async (session: SessionState, privateKey: Buffer = therapistKey, interventionCount = 4) => {
+    const { message } = await service.getSessionMessage(session, { therapistId: 'therapist-1', interventionCount });
+    return signSessionMessage(privateKey, message);
+  };
+
+  const prove = async (session: SessionState, options: { signature?: SessionSignature; therapistId?: string } = {}) =>
+    service.proveSession(session, {
+      therapistId: options.therapistId ?? 'therapist-1',
+      interventionCount: 4,
+      signature: options.signature ?? (await sign(session)),
+      referenceTime: NOW
+    });
+
+  beforeEach(async () => {
+    tables = {
+      sessions: [
+        { id: 'session-1', therapist_id: 'therapist-1' },
+        { id: 'session-2', therapist_id: 'therapist-1' }
+      ]
+    };
+    prover = createProver();
+    service = new SessionIntegrityService(createSupabase(tables), prover);
+    await service.registerTherapistKey({ therapistId: 'therapist-1', publicKey: await derivePublicKey(therapistKey) });
+  });
+
+  it('should prove a completed session and verify it without session content', async () => {
+    const stored = await service.proveSession(completedSession(), {
+      therapistId: 'therapist-1',
+      interventionCount: 4,
+      signature: await sign(completedSession()),
+      protocol: 'plonk',
+      referenceTime: NOW
+    });
+
+    const [inputs, protocol] = prover.prove.mock.calls[0];
+    expect(protocol).toBe('plonk');
+    expect(inputs).toMatchObject({
+      durationMinutes: '45',
+      interventionCount: '4',
+      riskLevel: '3',
+      engagementScore: '85',
+      sessionId: hashToField('session-1').toString(),
+      clientDataHash: hashToField('client-1').toString()
+    });
+    expect(stored.therapistPublicKey).toEqual([inputs.therapistPubKeyAx, inputs.therapistPubKeyAy]);
+
+    const verification = await service.verifySession('session-1');
+    expect(verification).toMatchObject({ valid: true, protocol: 'plonk', therapistId: 'therapist-1' });
+    expect(verification.statement.timestamp).toBe(Date.parse('2024-04-08T10:45:00Z') / 1000);
+    expect(verification.statement.referenceTime).toBe(NOW.getTime() / 1000);
+    expect(JSON.stringify(verification)).not.toContain('client-1');
+  });
+
+  it('should hand out the message only to the session therapist', async () => {
+    const message = await service.getSessionMessage(completedSession(), { therapistId: 'therapist-1', interventionCount: 4 });
+    expect(message).toMatchObject({
+      sessionId: hashToField('session-1').toString(),
+      timestamp: (Date.parse('2024-04-08T10:45:00Z') / 1000).toString(),
+      metrics: { durationMinutes: 45, interventionCount: 4, riskLevel: 3, engagementScore: 85 }
+    });
+
+    expect(
+      await errorCode(service.getSessionMessage(completedSession(), { therapistId: 'therapist-2', interventionCount: 4 }))
+    ).toBe('not_session_therapist');
+    expect(
+      await errorCode(service.getSessionMessage(completedSession({ id: 'session-9' }), { therapistId: 'therapist-1', interventionCount: 4 }))
+    ).toBe('not_found');
+  });
+
+  it('should refuse sessions the circuit cannot prove', async () => {
+    const proveWith = (session: SessionState, interventionCount = 4, referenceTime = NOW) =>
+      errorCode(service.proveSession(session, { therapistId: 'therapist-1', interventionCount, signature: unsigned, referenceTime }));
+
+    expect(await proveWith(completedSession({ status: 'active', endTime: undefined }))).toBe('session_not_completed');
+    expect(
+      await proveWith(completedSession({ startTime: new Date('2024-04-08T12:10:00Z'), endTime: new Date('2024-04-08T12:40:00Z') }))
+    ).toBe('session_expired');
+    expect(await proveWith(completedSession({ startTime: new Date('2024-04-08T07:00:00Z') }))).toBe('metrics_out_of_range');
+    expect(await proveWith(completedSession(), 50)).toBe('metrics_out_of_range');
+    expect(await proveWith(completedSession(), 4, new Date('2024-05-09T12:00:00Z'))).toBe('session_expired');
+    expect(prover.prove).not.toHaveBeenCalled();
+  });
+
+  it('should only prove signatures by the key registered for the therapist', async () => {
+    expect(await errorCode(prove(completedSession(), { signature: await sign(completedSession(), otherKey) }))).toBe('invalid_signature');
+    expect(await errorCode(prove(completedSession(), { signature: unsigned }))).toBe('invalid_signature');
+    // A signature over other metrics does not carry over
+    expect(
+      await errorCode(prove(completedSession(), { signature: await sign(completedSession(), therapistKey, 5) }))
+    ).toBe('invalid_signature');
+    expect(await errorCode(prove(completedSession(), { therapistId: 'therapist-2' }))).toBe('unregistered_key');
+    expect(prover.prove).not.toHaveBeenCalled();
+  });
+
+  it('should only prove sessions led by the signing therapist', async () => {
+    await service.registerTherapistKey({ therapistId: 'therapist-2', publicKey: await derivePublicKey(otherKey) });
+
+    expect(await errorCode(prove(completedSession(), { therapistId: 'therapist-2', signature: unsigned }))).toBe('not_session_therapist');
+    expect(await errorCode(prove(completedSession({ id: 'session-9' }), { signature: unsigned }))).toBe('not_found');
+    expect(prover.prove).not.toHaveBeenCalled();
+  });
+
+  it('should reject proofs moved to another session, tampered with or signed by a replaced key', async () => {
+    await prove(completedSession());
+    const original = tables.session_integrity_proofs[0];
+
+    tables.session_integrity_proofs.push({ ...original, session_id: 'session-2' });
+    expect((await service.verifySession('session-2')).valid).toBe(false);
+
+    original.public_signals = [...original.public_signals];
+    original.public_signals[5] = '12345';
+    expect((await service.verifySession('session-1')).valid).toBe(false);
+
+    await prove(completedSession());
+    expect((await service.verifySession('session-1')).valid).toBe(true);
+
+    await service.registerTherapistKey({ therapistId: 'therapist-1', publicKey: await derivePublicKey(otherKey) });
+    expect((await service.verifySession('session-1')).valid).toBe(false);
+  });
+
+  it('should report sessions without a proof as not found', async () => {
+    expect(await errorCode(service.verifySession('session-2'))).toBe('not_found');
+  });
+
+  it('should fail fast when the circuit has not been set up', async () => {
+    const workerProver = new WorkerProver(defaultArtifacts('/nonexistent'));
+    const inputs = {} as SessionIntegrityInputs;
+
+    expect(await errorCode(workerProver.prove(inputs, 'groth16'))).toBe('artifacts_missing');
+    expect(await errorCode(workerProver.verify('plonk', {}, []))).toBe('artifacts_missing');
+  });
+
+  it('should fail when the proof worker exits without replying', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'integrity-'));
+    const artifact = async (name: string, contents = '') => {
+      await fs.writeFile(path.join(dir, name), contents);
+      return path.join(dir, name);
+    };
+    const zkeyPath = await artifact('circuit.zkey');
+    const workerProver = new WorkerProver({
+      ...defaultArtifacts(dir),
+      wasmPath: await artifact('circuit.wasm'),
+      zkeyPaths: { groth16: zkeyPath, plonk: zkeyPath },
+      workerPath: await artifact('worker.js', 'process.exit(1);')
+    });
+
+    try {
+      expect(await errorCode(workerProver.prove({} as SessionIntegrityInputs, 'groth16'))).toBe('proof_failed');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,20 @@
+export type SessionIntegrityErrorCode =
+  | 'session_not_completed'
+  | 'metrics_out_of_range'
+  | 'session_expired'
+  | 'unregistered_key'
+  | 'invalid_signature'
+  | 'not_session_therapist'
+  | 'artifacts_missing'
+  | 'proof_failed'
+  | 'not_found';
+
+export class SessionIntegrityError extends Error {
+  public readonly code: SessionIntegrityErrorCode;
+
+  constructor(code: SessionIntegrityErrorCode, message: string) {
+    super(message);
+    this.name = 'SessionIntegrityError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,14 @@
+export * from './types';
+export * from './errors';
+export {
+  buildCircuitInputs,
+  buildSessionMessage,
+  deriveCircuitMetrics,
+  derivePublicKey,
+  hashToField,
+  parseStatement,
+  signSessionMessage
+} from './witness';
+export { WorkerProver, defaultArtifacts } from './prover';
+export type { ProverArtifacts } from './prover';
+export { SessionIntegrityService } from './SessionIntegrityService';
@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import * as snarkjs from 'snarkjs';
+import { SessionIntegrityError } from './errors';
+import { ProofSystem, SESSION_INTEGRITY_CIRCUIT, SessionIntegrityInputs, SessionIntegrityProver } from './types';
+
+export interface ProverArtifacts {
+  wasmPath: string;
+  zkeyPaths: Record<ProofSystem, string>;
+  verificationKeyPaths: Record<ProofSystem, string>;
+  /** Compiled backend/src/workers/proof.worker.ts */
+  workerPath: string;
+}
+
+/** Where scripts/setup_zk.ts writes the circuit build and keys */
+export function defaultArtifacts(root: string = process.cwd()): ProverArtifacts {
+  const buildDir = path.join(root, 'build', 'circuits');
+  const publicDir = path.join(root, 'public', 'circuits');
+  return {
+    wasmPath: path.join(buildDir, `${SESSION_INTEGRITY_CIRCUIT}_js`, `${SESSION_INTEGRITY_CIRCUIT}.wasm`),
+    zkeyPaths: {
+      groth16: path.join(buildDir, `${SESSION_INTEGRITY_CIRCUIT}_1.zkey`),
+      plonk: path.join(buildDir, `${SESSION_INTEGRITY_CIRCUIT}_plonk.zkey`)
+    },
+    verificationKeyPaths: {
+      groth16: path.join(publicDir, `${SESSION_INTEGRITY_CIRCUIT}_verification_key.json`),
+      plonk: path.join(publicDir, `${SESSION_INTEGRITY_CIRCUIT}_plonk_verification_key.json`)
+    },
+    workerPath: process.env.PROOF_WORKER_PATH || path.join(root, 'backend', 'dist', 'workers', 'proof.worker.js')
+  };
+}
+
+interface WorkerReply {
+  proof?: { proof: Record<string, unknown>; publicSignals: string[] };
+  error?: string;
+}
+
+/**
+ * Proves in the backend proof worker so witness generation and the
+ * multi-exponentiations stay off the request thread. Verification is cheap
+ * and runs in-process, so auditors' requests never need the proving keys.
+ */
+export class WorkerProver implements SessionIntegrityProver {
+  private verificationKeys: Map<ProofSystem, Promise<unknown>> = new Map();
+
+  constructor(private readonly artifacts: ProverArtifacts = defaultArtifacts()) {}
+
+  async prove(inputs: SessionIntegrityInputs, protocol: ProofSystem) {
+    const zkeyPath = this.artifacts.zkeyPaths[protocol];
+    await this.assertArtifacts([this.artifacts.wasmPath, zkeyPath, this.artifacts.workerPath]);
+
+    const reply = await this.runWorker({
+      type: 'generate',
+      protocol,
+      input: inputs,
+      wasmPath: this.artifacts.wasmPath,
+      zkeyPath
+    });
+    if (reply.error || !reply.proof) {
+      throw new SessionIntegrityError('proof_failed', reply.error ?? 'Proof worker returned no proof');
+    }
+    return reply.proof;
+  }
+
+  async verify(protocol: ProofSystem, proof: Record<string, unknown>, publicSignals: string[]): Promise<boolean> {
+    const vKey = await this.loadVerificationKey(protocol);
+    return snarkjs[protocol].verify(vKey, publicSignals, proof);
+  }
+
+  private loadVerificationKey(protocol: ProofSystem): Promise<unknown> {
+    let vKey = this.verificationKeys.get(protocol);
+    if (!vKey) {
+      const keyPath = this.artifacts.verificationKeyPaths[protocol];
+      vKey = this.assertArtifacts([keyPath])
+        .then(() => fs.readFile(keyPath, 'utf-8'))
+        .then(json => JSON.parse(json));
+      // A missing key is retried on the next request instead of being cached
+      vKey.catch(() => this.verificationKeys.delete(protocol));
+      this.verificationKeys.set(protocol, vKey);
+    }
+    return vKey;
+  }
+
+  private async assertArtifacts(paths: string[]): Promise<void> {
+    for (const artifact of paths) {
+      try {
+        await fs.access(artifact);
+      } catch {
+        throw new SessionIntegrityError('artifacts_missing', `Missing ${artifact}; run the ZK setup script`);
+      }
+    }
+  }
+
+  private runWorker(message: Record<string, unknown>): Promise<WorkerReply> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(this.artifacts.workerPath);
+      worker.once('message', (reply: WorkerReply) => {
+        resolve(reply);
+        void worker.terminate();
+      });
+      worker.once('error', error => {
+        reject(new SessionIntegrityError('proof_failed', error.message));
+        void worker.terminate();
+      });
+      // A worker that dies without replying would leave the request hanging; after a reply this is a no-op
+      worker.once('exit', code => {
+        reject(new SessionIntegrityError('proof_failed', `Proof worker exited with code ${code} before replying`));
+      });
+      worker.postMessage(message);
+    });
+  }
+}
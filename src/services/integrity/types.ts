@@ -0,0 +1,110 @@
+export const SESSION_INTEGRITY_CIRCUIT = 'session_integrity';
+
+export type ProofSystem = 'groth16' | 'plonk';
+
+export const DEFAULT_PROOF_SYSTEM: ProofSystem = 'groth16';
+
+/** Exclusive upper bounds enforced by session_integrity.circom */
+export const CIRCUIT_LIMITS = {
+  durationMinutes: 180,
+  interventionCount: 50,
+  riskLevel: 10,
+  engagementScore: 100
+} as const;
+
+/** The circuit rejects sessions that ended more than this long before the proof */
+export const MAX_SESSION_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/** Session metrics in the integer units the circuit checks */
+export interface CircuitMetrics {
+  durationMinutes: number;
+  interventionCount: number;
+  /** Risk decile, 0-9 */
+  riskLevel: number;
+  /** Engagement percentage, 0-99 */
+  engagementScore: number;
+}
+
+/**
+ * Baby Jubjub EdDSA public key a therapist registers, as the circuit's Ax
+ * and Ay. The private key stays on the therapist's device.
+ */
+export interface TherapistPublicKey {
+  therapistId: string;
+  publicKey: [string, string];
+}
+
+/** EdDSA-Poseidon signature over a session message, as decimal field elements */
+export interface SessionSignature {
+  r8: [string, string];
+  s: string;
+}
+
+/** What a therapist signs to attest to a session, with the values it commits to */
+export interface SessionMessage {
+  /** Poseidon(sessionId, timestamp, metricsHash, clientDataHash) */
+  message: string;
+  sessionId: string;
+  timestamp: string;
+  metricsHash: string;
+  clientDataHash: string;
+  metrics: CircuitMetrics;
+}
+
+/** Witness inputs for session_integrity.circom, as decimal strings */
+export interface SessionIntegrityInputs {
+  sessionId: string;
+  timestamp: string;
+  referenceTime: string;
+  therapistPubKeyAx: string;
+  therapistPubKeyAy: string;
+  metricsHash: string;
+  durationMinutes: string;
+  interventionCount: string;
+  riskLevel: string;
+  engagementScore: string;
+  clientDataHash: string;
+  therapistSigR8x: string;
+  therapistSigR8y: string;
+  therapistSigS: string;
+}
+
+/** Public signals in circuit order; everything an auditor learns from a proof */
+export interface SessionIntegrityStatement {
+  sessionId: string;
+  /** Unix seconds the session ended */
+  timestamp: number;
+  /** Unix seconds the proof was generated */
+  referenceTime: number;
+  therapistPublicKey: [string, string];
+  metricsHash: string;
+}
+
+export interface SessionIntegrityProof {
+  sessionId: string;
+  therapistId: string;
+  protocol: ProofSystem;
+  proof: Record<string, unknown>;
+  publicSignals: string[];
+  provedAt: Date;
+  /** Key registered for the session's therapist, null if none is */
+  therapistPublicKey: [string, string] | null;
+}
+
+export interface SessionIntegrityVerification {
+  sessionId: string;
+  valid: boolean;
+  protocol: ProofSystem;
+  therapistId: string;
+  statement: SessionIntegrityStatement;
+  provedAt: Date;
+}
+
+/** Proof generation and verification, kept behind an interface for tests */
+export interface SessionIntegrityProver {
+  prove(inputs: SessionIntegrityInputs, protocol: ProofSystem): Promise<{
+    proof: Record<string, unknown>;
+    publicSignals: string[];
+  }>;
+  verify(protocol: ProofSystem, proof: Record<string, unknown>, publicSignals: string[]): Promise<boolean>;
+}
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import { buildEddsa, buildPoseidon, Eddsa, FieldElement, Poseidon } from 'circomlibjs';
+import type { SessionState } from '@/types/session';
+import { SessionIntegrityError } from './errors';
+import {
+  CIRCUIT_LIMITS,
+  CircuitMetrics,
+  MAX_SESSION_AGE_SECONDS,
+  SessionIntegrityInputs,
+  SessionIntegrityStatement,
+  SessionMessage,
+  SessionSignature
+} from './types';
+
+// Order of the BN254 scalar field the circuit works in
+const FIELD_ORDER = BigInt('21888242871839275222246405745257275088548364400416034343698204186191399460353');
+
+let primitives: Promise<{ eddsa: Eddsa; poseidon: Poseidon }> | null = null;
+
+function loadPrimitives(): Promise<{ eddsa: Eddsa; poseidon: Poseidon }> {
+  if (!primitives) {
+    primitives = Promise.all([buildEddsa(), buildPoseidon()]).then(([eddsa, poseidon]) => ({ eddsa, poseidon }));
+  }
+  return primitives;
+}
+
+const toUnixSeconds = (date: Date | string): number => Math.floor(new Date(date).getTime() / 1000);
+
+/** Map an identifier into the field; auditors recompute this to match a proof to a session */
+export function hashToField(value: string): bigint {
+  const digest = createHash('sha256').update(value).digest('hex');
+  return BigInt(`0x${digest}`) % FIELD_ORDER;
+}
+
+/**
+ * Public key for a therapist's private key, as the circuit's Ax and Ay.
+ * Runs where the private key is held; the server only stores the result.
+ */
+export async function derivePublicKey(privateKey: Buffer): Promise<[string, string]> {
+  const { eddsa } = await loadPrimitives();
+  const [ax, ay] = eddsa.prv2pub(privateKey);
+  return [eddsa.F.toObject(ax).toString(), eddsa.F.toObject(ay).toString()];
+}
+
+/** Sign a session message with a therapist's private key, on the therapist's side */
+export async function signSessionMessage(privateKey: Buffer, message: string): Promise<SessionSignature> {
+  const { eddsa } = await loadPrimitives();
+  const signature = eddsa.signPoseidon(privateKey, eddsa.F.e(message));
+  const [r8x, r8y] = signature.R8 as [FieldElement, FieldElement];
+  return {
+    r8: [eddsa.F.toObject(r8x).toString(), eddsa.F.toObject(r8y).toString()],
+    s: signature.S.toString()
+  };
+}
+
+/**
+ * Convert a completed session's 0-1 scores and wall-clock duration into
+ * the integers the circuit range-checks. Values the circuit would reject
+ * fail here, before any proving work.
+ */
+export function deriveCircuitMetrics(session: SessionState, interventionCount: number): CircuitMetrics {
+  if (session.status !== 'completed' || !session.endTime) {
+    throw new SessionIntegrityError('session_not_completed', `Session ${session.id} has not been completed`);
+  }
+
+  const metrics: CircuitMetrics = {
+    durationMinutes: Math.round((new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / 60000),
+    interventionCount,
+    riskLevel: Math.min(Math.floor(session.metrics.riskLevel * 10), CIRCUIT_LIMITS.riskLevel - 1),
+    engagementScore: Math.min(Math.floor(session.metrics.engagement * 100), CIRCUIT_LIMITS.engagementScore - 1)
+  };
+
+  for (const [name, value] of Object.entries(metrics) as Array<[keyof CircuitMetrics, number]>) {
+    if (!Number.isInteger(value) || value < 0 || value >= CIRCUIT_LIMITS[name]) {
+      throw new SessionIntegrityError(
+        'metrics_out_of_range',
+        `${name} ${value} is outside the provable range [0, ${CIRCUIT_LIMITS[name]})`
+      );
+    }
+  }
+
+  return metrics;
+}
+
+/**
+ * The message a therapist signs for a completed session. It covers the
+ * session, its end time, the metrics hash and the client hash, so none of
+ * them can be swapped after signing.
+ */
+export async function buildSessionMessage(session: SessionState, interventionCount: number): Promise<SessionMessage> {
+  const metrics = deriveCircuitMetrics(session, interventionCount);
+  const timestamp = toUnixSeconds(session.endTime!);
+  const { poseidon } = await loadPrimitives();
+
+  const sessionId = hashToField(session.id);
+  const clientDataHash = hashToField(session.clientId);
+  const metricsHash = poseidon.F.toObject(poseidon([
+    metrics.durationMinutes,
+    metrics.interventionCount,
+    metrics.riskLevel,
+    metrics.engagementScore
+  ]));
+  const message = poseidon.F.toObject(poseidon([sessionId, BigInt(timestamp), metricsHash, clientDataHash]));
+
+  return {
+    message: message.toString(),
+    sessionId: sessionId.toString(),
+    timestamp: timestamp.toString(),
+    metricsHash: metricsHash.toString(),
+    clientDataHash: clientDataHash.toString(),
+    metrics
+  };
+}
+
+/**
+ * Build the session_integrity witness inputs for a completed session from
+ * the therapist's signature over its message. The signature is checked
+ * against the public key here, since the circuit would only fail to prove.
+ */
+export async function buildCircuitInputs(
+  session: SessionState,
+  options: {
+    interventionCount: number;
+    publicKey: [string, string];
+    signature: SessionSignature;
+    referenceTime?: Date;
+  }
+): Promise<SessionIntegrityInputs> {
+  const signed = await buildSessionMessage(session, options.interventionCount);
+  const timestamp = Number(signed.timestamp);
+  const referenceTime = toUnixSeconds(options.referenceTime ?? new Date());
+  if (timestamp > referenceTime || referenceTime - timestamp >= MAX_SESSION_AGE_SECONDS) {
+    throw new SessionIntegrityError(
+      'session_expired',
+      `Session ${session.id} must have ended within 30 days before the proof`
+    );
+  }
+
+  if (!(await verifySessionSignature(signed.message, options.signature, options.publicKey))) {
+    throw new SessionIntegrityError('invalid_signature', `Signature does not match the message for session ${session.id}`);
+  }
+
+  const { metrics } = signed;
+  return {
+    sessionId: signed.sessionId,
+    timestamp: signed.timestamp,
+    referenceTime: referenceTime.toString(),
+    therapistPubKeyAx: options.publicKey[0],
+    therapistPubKeyAy: options.publicKey[1],
+    metricsHash: signed.metricsHash,
+    durationMinutes: metrics.durationMinutes.toString(),
+    interventionCount: metrics.interventionCount.toString(),
+    riskLevel: metrics.riskLevel.toString(),
+    engagementScore: metrics.engagementScore.toString(),
+    clientDataHash: signed.clientDataHash,
+    therapistSigR8x: options.signature.r8[0],
+    therapistSigR8y: options.signature.r8[1],
+    therapistSigS: options.signature.s
+  };
+}
+
+async function verifySessionSignature(
+  message: string,
+  signature: SessionSignature,
+  publicKey: [string, string]
+): Promise<boolean> {
+  const { eddsa } = await loadPrimitives();
+  const { F } = eddsa;
+  try {
+    return eddsa.verifyPoseidon(
+      F.e(message),
+      { R8: [F.e(signature.r8[0]), F.e(signature.r8[1])], S: BigInt(signature.s) },
+      [F.e(publicKey[0]), F.e(publicKey[1])]
+    );
+  } catch {
+    // Malformed points can throw instead of failing verification
+    return false;
+  }
+}
+
+/** Read the public signals back in the order the circuit declares them */
+export function parseStatement(publicSignals: string[]): SessionIntegrityStatement {
+  const [sessionId, timestamp, referenceTime, ax, ay, metricsHash] = publicSignals;
+  return {
+    sessionId,
+    timestamp: Number(timestamp),
+    referenceTime: Number(referenceTime),
+    therapistPublicKey: [ax, ay],
+    metricsHash
+  };
+}
@@ -0,0 +1,160 @@
+import {
+  PlaybackFrame,
+  RecordedEvent,
+  RecordingEventType,
+  RecordingPayloads,
+  SessionRecording
+} from './types';
+
+const emptyFrame = (): PlaybackFrame => ({
+  cursor: -1,
+  offsetMs: 0,
+  messages: [],
+  metrics: {},
+  modelParams: {},
+  triggeredBranches: [],
+  annotations: [],
+  ended: false
+});
+
+const payloadOf = <T extends RecordingEventType>(event: RecordedEvent, _type: T) =>
+  event.payload as RecordingPayloads[T];
+
+/**
+ * Deterministic step/seek over a session recording.
+ *
+ * The timeline is every event except annotations, ordered by sequence.
+ * Annotations are overlays: they show up in every frame at or after the
+ * event they point at, whenever they were written.
+ */
+export class SessionPlayback {
+  private readonly timeline: RecordedEvent[];
+  private readonly annotationEvents: RecordedEvent[];
+  private position = -1;
+  private frame: PlaybackFrame = emptyFrame();
+
+  constructor(recording: SessionRecording) {
+    const ordered = [...recording.events].sort((a, b) => a.sequence - b.sequence);
+    this.timeline = ordered.filter(event => event.type !== RecordingEventType.ANNOTATION);
+    this.annotationEvents = ordered.filter(event => event.type === RecordingEventType.ANNOTATION);
+  }
+
+  public get length(): number {
+    return this.timeline.length;
+  }
+
+  /** Index into the timeline, -1 before the first event */
+  public get index(): number {
+    return this.position;
+  }
+
+  public get durationMs(): number {
+    return this.timeline.length > 0 ? this.timeline[this.timeline.length - 1].offsetMs : 0;
+  }
+
+  public getFrame(): PlaybackFrame {
+    return {
+      ...this.frame,
+      annotations: this.annotationsUpTo(this.frame.cursor)
+    };
+  }
+
+  public step(count: number = 1): PlaybackFrame {
+    return this.seek(this.position + count);
+  }
+
+  /**
+   * Step until the next message is applied, skipping metric and analysis
+   * updates in between
+   */
+  public stepToNextMessage(): PlaybackFrame {
+    const next = this.timeline.findIndex(
+      (event, index) => index > this.position && event.type === RecordingEventType.MESSAGE
+    );
+    return this.seek(next === -1 ? this.timeline.length - 1 : next);
+  }
+
+  public seek(index: number): PlaybackFrame {
+    const target = Math.max(-1, Math.min(index, this.timeline.length - 1));
+
+    // Going backwards replays from the start; frames are cheap to rebuild
+    if (target < this.position) {
+      this.position = -1;
+      this.frame = emptyFrame();
+    }
+    while (this.position < target) {
+      this.position += 1;
+      this.frame = this.apply(this.frame, this.timeline[this.position]);
+    }
+
+    return this.getFrame();
+  }
+
+  /**
+   * Seek to the last event at or before `offsetMs`
+   */
+  public seekToTime(offsetMs: number): PlaybackFrame {
+    let target = -1;
+    this.timeline.forEach((event, index) => {
+      if (event.offsetMs <= offsetMs) target = index;
+    });
+    return this.seek(target);
+  }
+
+  public reset(): PlaybackFrame {
+    return this.seek(-1);
+  }
+
+  /**
+   * Add an annotation locally, e.g. after it was saved through the recorder
+   */
+  public addAnnotation(event: RecordedEvent<'recording.annotation'>): void {
+    this.annotationEvents.push(event);
+  }
+
+  private annotationsUpTo(cursor: number) {
+    return this.annotationEvents
+      .map(event => payloadOf(event, RecordingEventType.ANNOTATION))
+      .filter(annotation => annotation.atSequence <= cursor)
+      .sort((a, b) => a.atSequence - b.atSequence)
+      .map(({ annotationId, atSequence, author, note }) => ({ id: annotationId, atSequence, author, note }));
+  }
+
+  private apply(frame: PlaybackFrame, event: RecordedEvent): PlaybackFrame {
+    const next: PlaybackFrame = { ...frame, cursor: event.sequence, offsetMs: event.offsetMs };
+
+    switch (event.type) {
+      case RecordingEventType.MESSAGE: {
+        const { messageId, role, content } = payloadOf(event, RecordingEventType.MESSAGE);
+        next.messages = [...frame.messages, { id: messageId, role, content, offsetMs: event.offsetMs }];
+        break;
+      }
+      case RecordingEventType.METRICS:
+        next.metrics = { ...frame.metrics, ...payloadOf(event, RecordingEventType.METRICS).metrics };
+        break;
+      case RecordingEventType.MODEL_PARAMS:
+        next.modelParams = { ...frame.modelParams, ...payloadOf(event, RecordingEventType.MODEL_PARAMS).params };
+        break;
+      case RecordingEventType.BRANCH: {
+        const { branchId, action } = payloadOf(event, RecordingEventType.BRANCH);
+        next.triggeredBranches = [...frame.triggeredBranches, { branchId, action, offsetMs: event.offsetMs }];
+        break;
+      }
+      case RecordingEventType.ANALYSIS: {
+        const { overlay } = payloadOf(event, RecordingEventType.ANALYSIS);
+        next.latestAnalysis = overlay;
+        // Attach to its message, or to the latest one when not specified
+        const targetId = overlay.messageId ?? frame.messages[frame.messages.length - 1]?.id;
+        next.messages = frame.messages.map(message =>
+          message.id === targetId ? { ...message, analysis: overlay } : message
+        );
+        break;
+      }
+      case RecordingEventType.ENDED:
+        next.ended = true;
+        break;
+    }
+
+    return next;
+  }
+}
@@ -0,0 +1,156 @@
+import { RedisEventStore } from '@/services/cqrs';
+import { EventVersionConflictError } from '@/services/cqrs/errors';
+import type { Event } from '@/types/cqrs';
+import {
+  AnalysisOverlay,
+  ModelParameters,
+  RECORDING_FORMAT_VERSION,
+  RecordedEvent,
+  RecordingEventType,
+  RecordingPayloads,
+  SessionMetricsSnapshot,
+  SessionRecording
+} from './types';
+import type { BranchAction } from '@/services/scenarios';
+import type { MessageRole } from '@/types/therapy';
+
+type RecordingStore = Pick<RedisEventStore, 'append' | 'getEvents'>;
+
+// Appends lost to another instance before giving up
+const MAX_APPEND_ATTEMPTS = 5;
+
+/**
+ * Writes session recordings to the CQRS event store. Each session is one
+ * aggregate; the event version is the recording sequence number.
+ *
+ * Sequences are cached per process but every append is checked against the
+ * stored version, so a recorder that lost a race to another instance
+ * re-reads the recording and takes the next free sequence instead of
+ * writing a duplicate.
+ *
+ * Recordings are capped by the store's `maxEventsPerAggregate`.
+ */
+export class SessionRecorder {
+  private static instance: SessionRecorder;
+  private readonly eventStore: RecordingStore;
+  private sequences: Map<string, number> = new Map();
+
+  constructor(eventStore: RecordingStore = RedisEventStore.getInstance()) {
+    this.eventStore = eventStore;
+  }
+
+  public static getInstance(): SessionRecorder {
+    if (!SessionRecorder.instance) {
+      SessionRecorder.instance = new SessionRecorder();
+    }
+    return SessionRecorder.instance;
+  }
+
+  public async record<T extends RecordingEventType>(
+    sessionId: string,
+    type: T,
+    payload: RecordingPayloads[T],
+    at: Date = new Date()
+  ): Promise<number> {
+    for (let attempt = 1; ; attempt++) {
+      const sequence = await this.nextSequence(sessionId);
+      const event: Event = {
+        id: crypto.randomUUID(),
+        type,
+        timestamp: at,
+        payload,
+        metadata: { aggregateId: this.aggregateId(sessionId), sessionId },
+        version: sequence
+      };
+
+      try {
+        await this.eventStore.append(event, sequence - 1);
+        this.sequences.set(sessionId, sequence);
+        return sequence;
+      } catch (error) {
+        // Another instance took this sequence; re-read the recording and try the next one
+        this.sequences.delete(sessionId);
+        if (!(error instanceof EventVersionConflictError) || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  public recordStart(sessionId: string, details: { mode?: string; scenarioId?: string } = {}): Promise<number> {
+    return this.record(sessionId, RecordingEventType.STARTED, { sessionId, ...details });
+  }
+
+  public recordMessage(sessionId: string, messageId: string, role: MessageRole, content: string): Promise<number> {
+    return this.record(sessionId, RecordingEventType.MESSAGE, { messageId, role, content });
+  }
+
+  public recordMetrics(sessionId: string, metrics: SessionMetricsSnapshot): Promise<number> {
+    return this.record(sessionId, RecordingEventType.METRICS, { metrics });
+  }
+
+  public recordBranch(sessionId: string, branchId: string, action: BranchAction): Promise<number> {
+    return this.record(sessionId, RecordingEventType.BRANCH, { branchId, action });
+  }
+
+  public recordModelParams(sessionId: string, params: ModelParameters): Promise<number> {
+    return this.record(sessionId, RecordingEventType.MODEL_PARAMS, { params });
+  }
+
+  public recordAnalysis(sessionId: string, overlay: AnalysisOverlay): Promise<number> {
+    return this.record(sessionId, RecordingEventType.ANALYSIS, { overlay });
+  }
+
+  public recordEnd(sessionId: string, reason?: string): Promise<number> {
+    return this.record(sessionId, RecordingEventType.ENDED, { reason });
+  }
+
+  /**
+   * Attach an instructor note to a point in the recording
+   */
+  public annotate(sessionId: string, atSequence: number, author: string, note: string): Promise<number> {
+    return this.record(sessionId, RecordingEventType.ANNOTATION, {
+      annotationId: crypto.randomUUID(),
+      atSequence,
+      author,
+      note
+    });
+  }
+
+  public async getRecording(sessionId: string): Promise<SessionRecording | null> {
+    const events = (await this.eventStore.getEvents(this.aggregateId(sessionId)))
+      .filter(event => event.type.startsWith('recording.'));
+    if (events.length === 0) return null;
+
+    // Events round-trip through Redis as JSON, so timestamps come back as strings
+    const times = events.map(event => new Date(event.timestamp).getTime());
+    const startedAt = Math.min(...times);
+
+    return {
+      formatVersion: RECORDING_FORMAT_VERSION,
+      sessionId,
+      startedAt: new Date(startedAt).toISOString(),
+      events: events.map((event, index): RecordedEvent => ({
+        sequence: event.version,
+        offsetMs: times[index] - startedAt,
+        type: event.type as RecordingEventType,
+        payload: event.payload as RecordingPayloads[RecordingEventType]
+      }))
+    };
+  }
+
+  private aggregateId(sessionId: string): string {
+    return `session-recording:${sessionId}`;
+  }
+
+  private async nextSequence(sessionId: string): Promise<number> {
+    let last = this.sequences.get(sessionId);
+    if (last === undefined) {
+      // Pick up where another process (or a restart) left off
+      const events = await this.eventStore.getEvents(this.aggregateId(sessionId));
+      last = events.reduce((max, event) => Math.max(max, event.version), -1);
+    }
+
+    return last + 1;
+  }
+}
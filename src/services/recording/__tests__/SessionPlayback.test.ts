@@ -0,0 +1,144 @@
+import { SessionPlayback } from '../SessionPlayback';
+import { SessionRecorder } from '../SessionRecorder';
+import type { Event } from '@/types/cqrs';
+import { EventVersionConflictError } from '@/services/cqrs/errors';
+
+jest.mock('@/services/cqrs', () => ({ RedisEventStore: { getInstance: jest.fn() } }));
+
+/** In-memory stand-in that round-trips events through JSON like Redis does */
+const createStore = () => {
+  const events: Event[] = [];
+  return {
+    events,
+    append: jest.fn(async (event: Event, expectedVersion?: number) => {
+      const aggregateId = event.metadata?.aggregateId as string;
+      const current = events
+        .filter(stored => stored.metadata?.aggregateId === aggregateId)
+        .reduce((max, stored) => Math.max(max, stored.version), -1);
+      if (expectedVersion !== undefined && current !== expectedVersion) {
+        throw new EventVersionConflictError(aggregateId, expectedVersion);
+      }
+      events.push(JSON.parse(JSON.stringify(event)));
+    }),
+    getEvents: jest.fn(async (aggregateId: string) =>
+      events.filter(event => event.metadata?.aggregateId === aggregateId).sort((a, b) => a.version - b.version)
+    )
+  };
+};
+
+const START = Date.parse('2024-03-30T09:00:00Z');
+const at = (seconds: number) => new Date(START + seconds * 1000);
+
+async function recordSession(recorder: SessionRecorder) {
+  await recorder.record('s1', 'recording.started', { sessionId: 's1', mode: 'individual' }, at(0));
+  await recorder.record('s1', 'recording.model_params', { params: { model: 'mistral', temperature: 0.9 } }, at(1));
+  await recorder.record('s1', 'recording.message', { messageId: 'm1', role: 'user', content: 'How are you?' }, at(10));
+  await recorder.record('s1', 'recording.message', { messageId: 'm2', role: 'assistant', content: 'Tired.' }, at(15));
+  await recorder.record('s1', 'recording.analysis', { overlay: { emotion: { primary: 'sadness', intensity: 6 } } }, at(15));
+  await recorder.record('s1', 'recording.metrics', { metrics: { sentiment: 0.2, riskLevel: 0.1 } }, at(16));
+  await recorder.record('s1', 'recording.branch', { branchId: 'suggest-break', action: { type: 'suggest_break' } }, at(17));
+  await recorder.record('s1', 'recording.metrics', { metrics: { riskLevel: 0.4 } }, at(30));
+  await recorder.record('s1', 'recording.ended', { reason: 'completed' }, at(60));
+}
+
+describe('session recordings', () => {
+  let store: ReturnType<typeof createStore>;
+  let recorder: SessionRecorder;
+
+  beforeEach(() => {
+    store = createStore();
+    recorder = new SessionRecorder(store);
+  });
+
+  it('should store events as one aggregate with increasing versions', async () => {
+    await recordSession(recorder);
+
+    expect(store.events.map(event => event.version)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(new Set(store.events.map(event => event.metadata?.aggregateId))).toEqual(new Set(['session-recording:s1']));
+  });
+
+  it('should continue the sequence after a restart', async () => {
+    await recordSession(recorder);
+
+    const sequence = await new SessionRecorder(store).annotate('s1', 3, 'instructor-1', 'Good open question');
+
+    expect(sequence).toBe(9);
+  });
+
+  it('should not reuse sequences when several instances record one session', async () => {
+    const other = new SessionRecorder(store);
+
+    await recorder.recordStart('s1');
+    await other.recordMessage('s1', 'm1', 'user', 'Hello');
+    await recorder.recordMessage('s1', 'm2', 'assistant', 'Hi');
+    await other.recordEnd('s1');
+
+    expect(store.events.map(event => event.version)).toEqual([0, 1, 2, 3]);
+    // Both stale caches lose one append and retry with the next sequence
+    expect(store.append).toHaveBeenCalledTimes(6);
+  });
+
+  it('should rebuild the recording with offsets from the first event', async () => {
+    await recordSession(recorder);
+
+    const recording = await recorder.getRecording('s1');
+
+    expect(recording!.startedAt).toBe(at(0).toISOString());
+    expect(recording!.events[2]).toMatchObject({ sequence: 2, offsetMs: 10000, type: 'recording.message' });
+    expect(await recorder.getRecording('other')).toBeNull();
+  });
+
+  it('should step through messages with overlays attached', async () => {
+    await recordSession(recorder);
+    const playback = new SessionPlayback((await recorder.getRecording('s1'))!);
+
+    playback.stepToNextMessage();
+    const frame = playback.stepToNextMessage();
+    expect(frame.messages.map(m => m.content)).toEqual(['How are you?', 'Tired.']);
+    expect(frame.modelParams).toEqual({ model: 'mistral', temperature: 0.9 });
+
+    const withAnalysis = playback.step();
+    expect(withAnalysis.messages[1].analysis?.emotion?.primary).toBe('sadness');
+    expect(withAnalysis.messages[0].analysis).toBeUndefined();
+  });
+
+  it('should produce identical frames for the same position however it is reached', async () => {
+    await recordSession(recorder);
+    const recording = (await recorder.getRecording('s1'))!;
+
+    const forward = new SessionPlayback(recording);
+    forward.step(3);
+    const stepped = forward.step(5);
+
+    const seeking = new SessionPlayback(recording);
+    seeking.seek(8);
+    const rewound = seeking.seek(7);
+
+    expect(rewound).toEqual(stepped);
+    expect(rewound.metrics).toEqual({ sentiment: 0.2, riskLevel: 0.4 });
+    expect(rewound.triggeredBranches).toEqual([{ branchId: 'suggest-break', action: { type: 'suggest_break' }, offsetMs: 17000 }]);
+    expect(rewound.ended).toBe(false);
+  });
+
+  it('should seek by time and clamp out-of-range positions', async () => {
+    await recordSession(recorder);
+    const playback = new SessionPlayback((await recorder.getRecording('s1'))!);
+
+    expect(playback.seekToTime(16500).cursor).toBe(5);
+    expect(playback.seek(100).ended).toBe(true);
+    expect(playback.seek(-5).messages).toEqual([]);
+    expect(playback.durationMs).toBe(60000);
+  });
+
+  it('should show annotations once playback reaches their event', async () => {
+    await recordSession(recorder);
+    await recorder.annotate('s1', 3, 'instructor-1', 'Client is withdrawing here');
+    const playback = new SessionPlayback((await recorder.getRecording('s1'))!);
+
+    expect(playback.length).toBe(9);
+    expect(playback.seek(2).annotations).toEqual([]);
+    expect(playback.seek(3).annotations).toEqual([
+      expect.objectContaining({ atSequence: 3, author: 'instructor-1', note: 'Client is withdrawing here' })
+    ]);
+  });
+});
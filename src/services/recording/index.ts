@@ -0,0 +1,3 @@
+export * from './types';
+export { SessionRecorder } from './SessionRecorder';
+export { SessionPlayback } from './SessionPlayback';
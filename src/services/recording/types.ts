@@ -0,0 +1,103 @@
+import type { BranchAction } from '@/services/scenarios';
+import type { MessageRole } from '@/types/therapy';
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+/** Event types written to the CQRS event store, one aggregate per session */
+export const RecordingEventType = {
+  STARTED: 'recording.started',
+  MESSAGE: 'recording.message',
+  METRICS: 'recording.metrics',
+  BRANCH: 'recording.branch',
+  MODEL_PARAMS: 'recording.model_params',
+  ANALYSIS: 'recording.analysis',
+  ANNOTATION: 'recording.annotation',
+  ENDED: 'recording.ended'
+} as const;
+
+export type RecordingEventType = typeof RecordingEventType[keyof typeof RecordingEventType];
+
+export interface SessionMetricsSnapshot {
+  sentiment?: number;
+  engagement?: number;
+  riskLevel?: number;
+  interventionSuccess?: number;
+}
+
+export interface ModelParameters {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  promptVersion?: string;
+}
+
+/** Overlays shown next to a message during the live session */
+export interface AnalysisOverlay {
+  messageId?: string;
+  emotion?: { primary: string; intensity: number };
+  interventions?: string[];
+  risk?: { level: number; flags?: string[] };
+  patterns?: string[];
+  defenses?: string[];
+}
+
+export interface RecordingPayloads {
+  'recording.started': { sessionId: string; mode?: string; scenarioId?: string };
+  'recording.message': { messageId: string; role: MessageRole; content: string };
+  'recording.metrics': { metrics: SessionMetricsSnapshot };
+  'recording.branch': { branchId: string; action: BranchAction };
+  'recording.model_params': { params: ModelParameters };
+  'recording.analysis': { overlay: AnalysisOverlay };
+  'recording.annotation': { annotationId: string; atSequence: number; author: string; note: string };
+  'recording.ended': { reason?: string };
+}
+
+export interface RecordedEvent<T extends RecordingEventType = RecordingEventType> {
+  sequence: number;
+  /** Milliseconds since the recording started */
+  offsetMs: number;
+  type: T;
+  payload: RecordingPayloads[T];
+}
+
+export interface SessionRecording {
+  formatVersion: number;
+  sessionId: string;
+  startedAt: string;
+  events: RecordedEvent[];
+}
+
+export interface PlaybackMessage {
+  id: string;
+  role: MessageRole;
+  content: string;
+  offsetMs: number;
+  analysis?: AnalysisOverlay;
+}
+
+export interface PlaybackAnnotation {
+  id: string;
+  atSequence: number;
+  author: string;
+  note: string;
+}
+
+/**
+ * Session state reconstructed at a cursor position. Frames are a pure
+ * function of the recording and the cursor, so the same seek always
+ * produces the same frame.
+ */
+export interface PlaybackFrame {
+  /** Sequence of the last applied event, -1 before the first */
+  cursor: number;
+  offsetMs: number;
+  messages: PlaybackMessage[];
+  metrics: SessionMetricsSnapshot;
+  modelParams: ModelParameters;
+  triggeredBranches: Array<{ branchId: string; action: BranchAction; offsetMs: number }>;
+  latestAnalysis?: AnalysisOverlay;
+  annotations: PlaybackAnnotation[];
+  ended: boolean;
+}
@@ -1,25 +1,25 @@
 // src/services/router.ts
 import analyzeMessage from '@/ai/router';
+import type { IntentResult, RouteId } from '@/ai/intent';
 import { therapyServiceHandler } from './therapy';
 import { resourceServiceHandler } from './resource';
 import { appointmentServiceHandler } from './appointment';
+import { crisisServiceHandler } from './crisis';
 import { generalChatHandler } from './generalChat';
 
+const handlers: Record<RouteId, (message: string, intent: IntentResult) => Promise<string>> = {
+  therapy: therapyServiceHandler,
+  resource: resourceServiceHandler,
+  appointment: appointmentServiceHandler,
+  crisis: crisisServiceHandler,
+  general_chat: generalChatHandler,
+};
+
 async function routeMessage(message: string): Promise<any> {
-  const serviceName = await analyzeMessage(message);
+  const intent = await analyzeMessage(message);
+  const handler = handlers[intent.route] || generalChatHandler; // Default to general chat
 
-  switch (serviceName) {
-    case 'Therapy Service':
-      return therapyServiceHandler(message);
-    case 'Resource Service':
-      return resourceServiceHandler(message);
-    case 'Appointment Service':
-      return appointmentServiceHandler(message);
-    case 'General Chat':
-      return generalChatHandler(message);
-    default:
-      return generalChatHandler(message); // Default to general chat
-  }
+  return handler(message, intent);
 }
 
-export default routeMessage;
\ No newline at end of file
+export default routeMessage;
@@ -0,0 +1,111 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { RedisService } from '../RedisService';
+import { ScenarioNotFoundError } from './errors';
+import { parseScenario, validateScenario } from './schema';
+import { ScenarioDefinition, ScenarioFormat } from './types';
+
+const CACHE_CATEGORY = 'session-scenarios';
+
+/**
+ * Persists branching scenarios to Supabase and serves them through the
+ * Redis cache. Versions are immutable: publishing a changed scenario means
+ * bumping `version`. Routes pass their request-scoped client so reads and
+ * writes go through the table's RLS policies as the caller.
+ */
+export class ScenarioLoader {
+  private static instance: ScenarioLoader;
+  private readonly table = 'session_scenarios';
+  private redisService: RedisService;
+
+  private constructor() {
+    this.redisService = RedisService.getInstance();
+  }
+
+  public static getInstance(): ScenarioLoader {
+    if (!ScenarioLoader.instance) {
+      ScenarioLoader.instance = new ScenarioLoader();
+    }
+    return ScenarioLoader.instance;
+  }
+
+  /**
+   * Validate and store an authored scenario (JSON or YAML source)
+   */
+  public async publish(
+    source: string,
+    format?: ScenarioFormat,
+    client: SupabaseClient = supabase
+  ): Promise<ScenarioDefinition> {
+    const scenario = parseScenario(source, format);
+    await this.save(scenario, source, client);
+    return scenario;
+  }
+
+  public async save(
+    input: ScenarioDefinition,
+    source?: string,
+    client: SupabaseClient = supabase
+  ): Promise<ScenarioDefinition> {
+    const scenario = validateScenario(input);
+
+    const { error } = await client.from(this.table).insert({
+      id: scenario.id,
+      version: scenario.version,
+      title: scenario.title,
+      definition: scenario,
+      source: source ?? JSON.stringify(scenario, null, 2)
+    });
+
+    if (error) {
+      throw new Error(`Failed to save scenario ${scenario.id}@${scenario.version}: ${error.message}`);
+    }
+
+    await this.redisService.set(this.cacheKey(scenario.id, scenario.version), scenario, undefined, CACHE_CATEGORY);
+    // "latest" may now point at a different version
+    await this.redisService.del(this.cacheKey(scenario.id));
+    return scenario;
+  }
+
+  /**
+   * Load a scenario version, or the latest one when no version is given
+   */
+  public async load(
+    scenarioId: string,
+    version?: number,
+    client: SupabaseClient = supabase
+  ): Promise<ScenarioDefinition> {
+    const key = this.cacheKey(scenarioId, version);
+    const cached = await this.redisService.get<ScenarioDefinition>(key);
+    if (cached) return cached;
+
+    let query = client.from(this.table).select('definition').eq('id', scenarioId);
+    query = version === undefined
+      ? query.order('version', { ascending: false }).limit(1)
+      : query.eq('version', version);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    if (!data) throw new ScenarioNotFoundError(version === undefined ? scenarioId : `${scenarioId}@${version}`);
+
+    // Re-validate: rows may predate a schema change
+    const scenario = validateScenario(data.definition);
+    await this.redisService.set(key, scenario, undefined, CACHE_CATEGORY);
+    return scenario;
+  }
+
+  public async listVersions(scenarioId: string, client: SupabaseClient = supabase): Promise<number[]> {
+    const { data, error } = await client
+      .from(this.table)
+      .select('version')
+      .eq('id', scenarioId)
+      .order('version', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => row.version);
+  }
+
+  private cacheKey(scenarioId: string, version?: number): string {
+    return `scenario:${scenarioId}:${version ?? 'latest'}`;
+  }
+}
@@ -0,0 +1,53 @@
+import { compileScenario, firedEvents, selectBranch } from './runtime';
+import {
+  ScenarioDefinition,
+  SessionMetricName,
+  SimulationFiring,
+  SimulationResult,
+  SimulationStep
+} from './types';
+
+/**
+ * Dry-runs a scenario against a scripted timeline of metrics and client
+ * state, without a model in the loop. Authors use it to check that branches
+ * fire when they expect.
+ *
+ * Each step is applied in order; metrics and client state carry forward
+ * until overwritten. At every step branches keep firing (one at a time, by
+ * priority) until none are eligible, mirroring repeated `evaluateBranches`
+ * calls in a live session.
+ */
+export class ScenarioSimulator {
+  public run(scenario: ScenarioDefinition, timeline: SimulationStep[]): SimulationResult {
+    const branches = compileScenario(scenario).map(branch => ({ ...branch, triggered: false }));
+    const metrics: Partial<Record<SessionMetricName, number>> = {};
+    const clientState: Record<string, string | number | boolean> = {};
+    const firings: SimulationFiring[] = [];
+
+    const steps = [...timeline].sort((a, b) => a.minute - b.minute);
+    for (const step of steps) {
+      Object.assign(metrics, step.metrics);
+      Object.assign(clientState, step.clientState);
+
+      // Bounded so a repeatable branch can only fire once per step
+      const firedThisStep = new Set<string>();
+      for (;;) {
+        const branch = selectBranch(
+          branches.filter(b => !firedThisStep.has(b.id)),
+          { elapsedMinutes: step.minute, metrics, clientState, firedEvents: firedEvents(branches) }
+        );
+        if (!branch) break;
+
+        branch.triggered = true;
+        firedThisStep.add(branch.id);
+        firings.push({ minute: step.minute, branchId: branch.id, action: branch.action });
+      }
+    }
+
+    return {
+      scenarioId: scenario.id,
+      firings,
+      unreachedBranches: branches.filter(b => !b.triggered).map(b => b.id)
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { ScenarioLoader } from '../ScenarioLoader';
+import { ScenarioNotFoundError } from '../errors';
+import { supabase } from '@/lib/supabase';
+
+const cache = new Map<string, unknown>();
+
+jest.mock('../../RedisService', () => ({
+  RedisService: {
+    getInstance: () => ({
+      get: jest.fn(async (key: string) => cache.get(key) ?? null),
+      set: jest.fn(async (key: string, value: unknown) => {
+        cache.set(key, value);
+      }),
+      del: jest.fn(async (key: string) => cache.delete(key))
+    })
+  }
+}));
+
+jest.mock('@/lib/supabase', () => ({ supabase: { from: jest.fn() } }));
+
+const SOURCE = `
+id: intake
+version: 3
+title: Intake
+branches:
+  - id: end-early
+    when: { metric: riskLevel, op: '>=', value: 0.9 }
+    action: { type: end_session }
+`;
+
+const queryReturning = (result: { data: unknown; error: unknown }) => {
+  const query: any = {};
+  ['select', 'eq', 'order', 'limit'].forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.maybeSingle = jest.fn(async () => result);
+  return query;
+};
+
+describe('ScenarioLoader', () => {
+  const from = supabase.from as jest.Mock;
+
+  beforeEach(() => {
+    cache.clear();
+    from.mockReset();
+  });
+
+  it('should validate, store and cache published scenarios', async () => {
+    const insert = jest.fn(async () => ({ error: null }));
+    from.mockReturnValue({ insert });
+
+    const scenario = await ScenarioLoader.getInstance().publish(SOURCE);
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ id: 'intake', version: 3, source: SOURCE }));
+    expect(cache.get('scenario:intake:3')).toEqual(scenario);
+  });
+
+  it('should not store invalid scenarios', async () => {
+    await expect(ScenarioLoader.getInstance().publish('id: intake\nversion: 0\ntitle: x')).rejects.toThrow(/version/);
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('should serve cached scenarios without hitting Supabase', async () => {
+    from.mockReturnValue({ insert: jest.fn(async () => ({ error: null })) });
+    await ScenarioLoader.getInstance().publish(SOURCE);
+    from.mockClear();
+
+    const scenario = await ScenarioLoader.getInstance().load('intake', 3);
+
+    expect(scenario.title).toBe('Intake');
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('should load the latest version from Supabase and cache it', async () => {
+    const definition = { id: 'intake', version: 4, title: 'Intake v4' };
+    const query = queryReturning({ data: { definition }, error: null });
+    from.mockReturnValue(query);
+
+    const scenario = await ScenarioLoader.getInstance().load('intake');
+
+    expect(query.order).toHaveBeenCalledWith('version', { ascending: false });
+    expect(scenario.version).toBe(4);
+    expect(cache.get('scenario:intake:latest')).toEqual(scenario);
+  });
+
+  it('should query with the client it is given', async () => {
+    const callerFrom = jest.fn(() => queryReturning({ data: { definition: { id: 'intake', version: 5, title: 'Intake v5' } }, error: null }));
+
+    const scenario = await ScenarioLoader.getInstance().load('intake', 5, { from: callerFrom } as any);
+
+    expect(scenario.version).toBe(5);
+    expect(callerFrom).toHaveBeenCalledWith('session_scenarios');
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the scenario does not exist', async () => {
+    from.mockReturnValue(queryReturning({ data: null, error: null }));
+
+    await expect(ScenarioLoader.getInstance().load('missing', 2)).rejects.toThrow(ScenarioNotFoundError);
+  });
+});
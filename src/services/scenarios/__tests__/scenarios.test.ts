@@ -0,0 +1,173 @@
+import { parseScenario } from '../schema';
+import { evaluateCondition } from '../conditions';
+import { ScenarioSimulator } from '../ScenarioSimulator';
+import { ScenarioValidationError } from '../errors';
+import type { ScenarioContext } from '../types';
+
+const CRISIS_SCENARIO = `
+id: grief-crisis
+version: 1
+title: Grief with crisis disclosure
+events:
+  - id: crisis-disclosure
+    event: crisis_disclosure
+    atMinute: 20
+    directive: Disclose passive suicidal thoughts when asked how you are sleeping.
+branches:
+  - id: suggest-break
+    when: { metric: sentiment, op: '<', value: 0.3 }
+    action: { type: suggest_break, message: Consider pausing for a moment. }
+    priority: 1
+  - id: escalate-risk
+    when:
+      all:
+        - event: crisis_disclosure
+        - metric: riskLevel
+          op: '>='
+          value: 0.7
+    action:
+      type: client_directive
+      directive: Become tearful and withdrawn.
+    priority: 5
+  - id: guarded-without-alliance
+    when:
+      all:
+        - client: alliancePhase
+          op: '=='
+          value: guarded
+        - not: { elapsedMinutes: 10 }
+    action: { type: client_directive, directive: Answer in short sentences. }
+`;
+
+const context = (overrides: Partial<ScenarioContext> = {}): ScenarioContext => ({
+  elapsedMinutes: 0,
+  metrics: {},
+  clientState: {},
+  firedEvents: [],
+  ...overrides
+});
+
+describe('scenarios', () => {
+  describe('parseScenario', () => {
+    it('should parse YAML and apply defaults', () => {
+      const scenario = parseScenario(CRISIS_SCENARIO);
+
+      expect(scenario.schemaVersion).toBe(1);
+      expect(scenario.events[0].atMinute).toBe(20);
+      expect(scenario.branches.find(b => b.id === 'guarded-without-alliance')!.priority).toBe(0);
+    });
+
+    it('should parse JSON', () => {
+      const scenario = parseScenario(JSON.stringify({ id: 'empty', version: 2, title: 'Empty' }));
+
+      expect(scenario.branches).toEqual([]);
+      expect(scenario.events).toEqual([]);
+    });
+
+    it('should report every schema issue with its path', () => {
+      const source = JSON.stringify({
+        id: 'bad id',
+        version: 1,
+        title: 'Bad',
+        branches: [{ id: 'b1', when: { metric: 'mood', op: '<', value: 1 }, action: { type: 'client_directive' } }]
+      });
+
+      try {
+        parseScenario(source);
+        fail('expected validation error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ScenarioValidationError);
+        const issues = (error as ScenarioValidationError).issues.join('\n');
+        expect(issues).toContain('id:');
+        expect(issues).toContain('branches.0.when');
+        expect(issues).toContain('client_directive requires a directive');
+      }
+    });
+
+    it('should reject duplicate ids across events and branches', () => {
+      const source = JSON.stringify({
+        id: 'dup',
+        version: 1,
+        title: 'Dup',
+        events: [{ id: 'x', event: 'crisis', atMinute: 1 }],
+        branches: [{ id: 'x', when: { event: 'crisis' }, action: { type: 'end_session' } }]
+      });
+
+      expect(() => parseScenario(source)).toThrow(/duplicate ids: x/);
+    });
+
+    it('should accept a per-scenario difficulty curve and validate its bounds', () => {
+      const scenario = (difficultyCurve: unknown) => JSON.stringify({ id: 'curved', version: 1, title: 'Curved', difficultyCurve });
+      const curve = {
+        id: 'curved-v1',
+        maxStep: 0.1,
+        points: [{ minute: 0, min: 0.2, max: 0.4 }, { minute: 30, min: 0.5, max: 0.9 }]
+      };
+
+      expect(parseScenario(scenario(curve)).difficultyCurve).toEqual(curve);
+      expect(() => parseScenario(scenario({ ...curve, points: [{ minute: 0, min: 0.6, max: 0.4 }] }))).toThrow(
+        /difficultyCurve: point 0 must satisfy 0 <= min <= max <= 1/
+      );
+    });
+
+        it('should wrap YAML syntax errors', () => {
+      expect(() => parseScenario('id: [unterminated', 'yaml')).toThrow(ScenarioValidationError);
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    it('should never match unknown metrics or client fields', () => {
+      expect(evaluateCondition({ metric: 'engagement', op: '<', value: 1 }, context())).toBe(false);
+      expect(evaluateCondition({ client: 'mood', op: '!=', value: 'calm' }, context())).toBe(false);
+    });
+
+    it('should treat elapsedMinutes as "at least" by default', () => {
+      expect(evaluateCondition({ elapsedMinutes: 20 }, context({ elapsedMinutes: 19.9 }))).toBe(false);
+      expect(evaluateCondition({ elapsedMinutes: 20 }, context({ elapsedMinutes: 20 }))).toBe(true);
+    });
+
+    it('should combine conditions', () => {
+      const condition = { any: [{ event: 'crisis' }, { not: { metric: 'riskLevel' as const, op: '<' as const, value: 0.5 } }] };
+
+      expect(evaluateCondition(condition, context({ metrics: { riskLevel: 0.2 } }))).toBe(false);
+      expect(evaluateCondition(condition, context({ metrics: { riskLevel: 0.6 } }))).toBe(true);
+      expect(evaluateCondition(condition, context({ firedEvents: ['crisis'] }))).toBe(true);
+    });
+  });
+
+  describe('ScenarioSimulator', () => {
+    it('should fire scripted events on time and branches that depend on them', () => {
+      const result = new ScenarioSimulator().run(parseScenario(CRISIS_SCENARIO), [
+        { minute: 2, metrics: { sentiment: 0.5, riskLevel: 0.8 }, clientState: { alliancePhase: 'engaging' } },
+        { minute: 15, metrics: { sentiment: 0.2 } },
+        { minute: 21 },
+        { minute: 25, metrics: { sentiment: 0.1 } }
+      ]);
+
+      expect(result.firings.map(f => [f.minute, f.branchId])).toEqual([
+        [15, 'suggest-break'],
+        [21, 'crisis-disclosure'],
+        [21, 'escalate-risk']
+      ]);
+      expect(result.firings[1].action).toMatchObject({ type: 'scripted_event', event: 'crisis_disclosure' });
+      expect(result.unreachedBranches).toEqual(['guarded-without-alliance']);
+    });
+
+    it('should fire repeatable branches at most once per step', () => {
+      const scenario = parseScenario(JSON.stringify({
+        id: 'repeat',
+        version: 1,
+        title: 'Repeat',
+        branches: [{ id: 'nudge', once: false, when: { metric: 'engagement', op: '<', value: 0.2 }, action: { type: 'suggest_break' } }]
+      }));
+
+      const result = new ScenarioSimulator().run(scenario, [
+        { minute: 1, metrics: { engagement: 0.1 } },
+        { minute: 2 },
+        { minute: 3, metrics: { engagement: 0.5 } }
+      ]);
+
+      expect(result.firings.map(f => f.minute)).toEqual([1, 2]);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { ComparisonOperator, ScenarioCondition, ScenarioContext } from './types';
+
+function compare(actual: unknown, op: ComparisonOperator, expected: unknown): boolean {
+  if (actual === undefined || actual === null) return false;
+
+  switch (op) {
+    case '==':
+      return actual === expected;
+    case '!=':
+      return actual !== expected;
+    case '<':
+      return (actual as number) < (expected as number);
+    case '<=':
+      return (actual as number) <= (expected as number);
+    case '>':
+      return (actual as number) > (expected as number);
+    case '>=':
+      return (actual as number) >= (expected as number);
+  }
+}
+
+/**
+ * Evaluate a declarative branch condition. Unknown metrics and client
+ * fields never match, so a typo cannot trigger a branch.
+ */
+export function evaluateCondition(condition: ScenarioCondition, context: ScenarioContext): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(c, context));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(c, context));
+  if ('not' in condition) return !evaluateCondition(condition.not, context);
+  if ('event' in condition) return context.firedEvents.includes(condition.event);
+  if ('elapsedMinutes' in condition) {
+    return compare(context.elapsedMinutes, condition.op ?? '>=', condition.elapsedMinutes);
+  }
+  if ('metric' in condition) return compare(context.metrics[condition.metric], condition.op, condition.value);
+  return compare(context.clientState[condition.client], condition.op, condition.value);
+}
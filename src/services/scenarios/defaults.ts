@@ -0,0 +1,20 @@
+import { SCENARIO_SCHEMA_VERSION, ScenarioDefinition } from './types';
+
+/**
+ * Used for sessions that were started without a scenario
+ */
+export const DEFAULT_SCENARIO: ScenarioDefinition = {
+  schemaVersion: SCENARIO_SCHEMA_VERSION,
+  id: 'default',
+  version: 1,
+  title: 'Default session',
+  events: [],
+  branches: [
+    {
+      id: 'suggest-break',
+      when: { metric: 'sentiment', op: '<', value: 0.3 },
+      action: { type: 'suggest_break' },
+      priority: 1
+    }
+  ]
+};
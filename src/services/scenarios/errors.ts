@@ -0,0 +1,23 @@
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+export class ScenarioValidationError extends ScenarioError {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid scenario: ${issues.join('; ')}`);
+    this.name = 'ScenarioValidationError';
+    this.issues = issues;
+  }
+}
+
+export class ScenarioNotFoundError extends ScenarioError {
+  constructor(scenarioId: string) {
+    super(`Scenario not found: ${scenarioId}`);
+    this.name = 'ScenarioNotFoundError';
+  }
+}
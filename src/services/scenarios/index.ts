@@ -0,0 +1,8 @@
+export * from './types';
+export * from './errors';
+export { scenarioSchema, parseScenario, validateScenario } from './schema';
+export { evaluateCondition } from './conditions';
+export { compileScenario, firedEvents, selectBranch, SCRIPTED_EVENT_PRIORITY, type BranchState } from './runtime';
+export { DEFAULT_SCENARIO } from './defaults';
+export { ScenarioLoader } from './ScenarioLoader';
+export { ScenarioSimulator } from './ScenarioSimulator';
@@ -0,0 +1,62 @@
+import { evaluateCondition } from './conditions';
+import { ScenarioBranch, ScenarioContext, ScenarioDefinition } from './types';
+
+/** Scripted events outrank authored branches unless given a priority */
+export const SCRIPTED_EVENT_PRIORITY = 100;
+
+export interface BranchState {
+  id: string;
+  triggered: boolean;
+}
+
+/**
+ * Flatten a scenario into branches. Each scripted event becomes a one-shot
+ * branch gated on elapsed time (and its optional extra condition).
+ */
+export function compileScenario(scenario: ScenarioDefinition): ScenarioBranch[] {
+  const eventBranches: ScenarioBranch[] = scenario.events.map(event => ({
+    id: event.id,
+    description: `Scripted ${event.event} at minute ${event.atMinute}`,
+    when: event.when
+      ? { all: [{ elapsedMinutes: event.atMinute }, event.when] }
+      : { elapsedMinutes: event.atMinute },
+    action: {
+      type: 'scripted_event',
+      event: event.event,
+      directive: event.directive,
+      message: event.message
+    },
+    priority: event.priority ?? SCRIPTED_EVENT_PRIORITY,
+    once: true
+  }));
+
+  return [...eventBranches, ...scenario.branches];
+}
+
+/**
+ * Names of scripted events that have fired, for `{ event }` conditions
+ */
+export function firedEvents<T extends ScenarioBranch & BranchState>(branches: T[]): string[] {
+  return branches
+    .filter(branch => branch.triggered && branch.action.type === 'scripted_event' && branch.action.event)
+    .map(branch => branch.action.event!);
+}
+
+/**
+ * Highest-priority branch whose condition holds and that may still fire.
+ * Ties keep authoring order.
+ */
+export function selectBranch<T extends ScenarioBranch & BranchState>(
+  branches: T[],
+  context: ScenarioContext
+): T | null {
+  let selected: T | null = null;
+  for (const branch of branches) {
+    if (branch.triggered && branch.once !== false) continue;
+    if (!evaluateCondition(branch.when, context)) continue;
+    if (!selected || branch.priority > selected.priority) {
+      selected = branch;
+    }
+  }
+  return selected;
+}
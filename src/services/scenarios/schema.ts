@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { load } from 'js-yaml';
+import { validateCurve } from '@/ai/difficulty/curves';
+import { ScenarioValidationError } from './errors';
+import {
+  SCENARIO_SCHEMA_VERSION,
+  ScenarioCondition,
+  ScenarioDefinition,
+  ScenarioFormat
+} from './types';
+
+const operator = z.enum(['<', '<=', '>', '>=', '==', '!=']);
+
+const conditionSchema: z.ZodType<ScenarioCondition> = z.lazy(() =>
+  z.union([
+    z.object({
+      metric: z.enum(['sentiment', 'engagement', 'riskLevel', 'interventionSuccess']),
+      op: operator,
+      value: z.number()
+    }).strict(),
+    z.object({
+      client: z.string().min(1),
+      op: operator,
+      value: z.union([z.string(), z.number(), z.boolean()])
+    }).strict(),
+    z.object({ elapsedMinutes: z.number().min(0), op: operator.optional() }).strict(),
+    z.object({ event: z.string().min(1) }).strict(),
+    z.object({ all: z.array(conditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(conditionSchema).min(1) }).strict(),
+    z.object({ not: conditionSchema }).strict()
+  ])
+);
+
+const actionSchema = z
+  .object({
+    type: z.enum(['client_directive', 'suggest_break', 'switch_mode', 'end_session']),
+    directive: z.string().min(1).optional(),
+    message: z.string().min(1).optional(),
+    mode: z.string().min(1).optional()
+  })
+  .strict()
+  .superRefine((action, ctx) => {
+    if (action.type === 'client_directive' && !action.directive) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'client_directive requires a directive' });
+    }
+    if (action.type === 'switch_mode' && !action.mode) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'switch_mode requires a mode' });
+    }
+  });
+
+const difficultyCurveSchema = z
+  .object({
+    id: z.string().min(1),
+    maxStep: z.number(),
+    points: z.array(
+      z.object({ minute: z.number().min(0), min: z.number(), max: z.number() }).strict()
+    )
+  })
+  .strict()
+  .superRefine((curve, ctx) => {
+    validateCurve(curve).forEach(message => ctx.addIssue({ code: z.ZodIssueCode.custom, message }));
+  });
+
+const idSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'must be alphanumeric with - or _');
+
+export const scenarioSchema = z
+  .object({
+    schemaVersion: z.literal(SCENARIO_SCHEMA_VERSION).default(SCENARIO_SCHEMA_VERSION),
+    id: idSchema,
+    version: z.number().int().positive(),
+    title: z.string().min(1),
+    description: z.string().optional(),
+    events: z
+      .array(
+        z.object({
+          id: idSchema,
+          event: z.string().min(1),
+          atMinute: z.number().min(0),
+          directive: z.string().min(1).optional(),
+          message: z.string().min(1).optional(),
+          when: conditionSchema.optional(),
+          priority: z.number().optional()
+        }).strict()
+      )
+      .default([]),
+    branches: z
+      .array(
+        z.object({
+          id: idSchema,
+          description: z.string().optional(),
+          when: conditionSchema,
+          action: actionSchema,
+          priority: z.number().default(0),
+          once: z.boolean().optional()
+        }).strict()
+      )
+      .default([]),
+    difficultyCurve: difficultyCurveSchema.optional()
+  })
+  .strict();
+
+/**
+ * Validate an already-parsed scenario object
+ */
+export function validateScenario(input: unknown): ScenarioDefinition {
+  const result = scenarioSchema.safeParse(input);
+  if (!result.success) {
+    throw new ScenarioValidationError(
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  const scenario = result.data as ScenarioDefinition;
+  const ids = [...scenario.events.map(e => e.id), ...scenario.branches.map(b => b.id)];
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    throw new ScenarioValidationError([`duplicate ids: ${[...new Set(duplicates)].join(', ')}`]);
+  }
+
+  return scenario;
+}
+
+/**
+ * Parse a scenario authored as JSON or YAML. The format is detected from
+ * the first non-blank character when not given.
+ */
+export function parseScenario(source: string, format?: ScenarioFormat): ScenarioDefinition {
+  const detected = format ?? (/^\s*[{[]/.test(source) ? 'json' : 'yaml');
+
+  let parsed: unknown;
+  try {
+    parsed = detected === 'json' ? JSON.parse(source) : load(source);
+  } catch (error) {
+    throw new ScenarioValidationError([`could not parse ${detected}: ${(error as Error).message}`]);
+  }
+
+  return validateScenario(parsed);
+}
@@ -0,0 +1,101 @@
+import type { DifficultyCurve } from '@/ai/difficulty/types';
+
+export const SCENARIO_SCHEMA_VERSION = 1;
+
+export type SessionMetricName = 'sentiment' | 'engagement' | 'riskLevel' | 'interventionSuccess';
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export type ScenarioCondition =
+  | { metric: SessionMetricName; op: ComparisonOperator; value: number }
+  | { client: string; op: ComparisonOperator; value: string | number | boolean }
+  | { elapsedMinutes: number; op?: ComparisonOperator }
+  | { event: string }
+  | { all: ScenarioCondition[] }
+  | { any: ScenarioCondition[] }
+  | { not: ScenarioCondition };
+
+export type BranchActionType =
+  | 'client_directive'
+  | 'suggest_break'
+  | 'switch_mode'
+  | 'end_session'
+  | 'scripted_event';
+
+export interface BranchAction {
+  type: BranchActionType;
+  /** Roleplay instruction for the simulated client */
+  directive?: string;
+  /** Message shown to the trainee */
+  message?: string;
+  /** Target mode for `switch_mode` */
+  mode?: string;
+  /** Event name recorded when a `scripted_event` fires */
+  event?: string;
+}
+
+/**
+ * A timed event, e.g. a crisis disclosure at minute 20. Events are compiled
+ * into branches so they share evaluation and trigger bookkeeping.
+ */
+export interface ScriptedEvent {
+  id: string;
+  event: string;
+  atMinute: number;
+  directive?: string;
+  message?: string;
+  /** Extra gate on top of the timing */
+  when?: ScenarioCondition;
+  priority?: number;
+}
+
+export interface ScenarioBranch {
+  id: string;
+  description?: string;
+  when: ScenarioCondition;
+  action: BranchAction;
+  priority: number;
+  /** Fire at most once per session (default true) */
+  once?: boolean;
+}
+
+export interface ScenarioDefinition {
+  schemaVersion: number;
+  id: string;
+  version: number;
+  title: string;
+  description?: string;
+  events: ScriptedEvent[];
+  branches: ScenarioBranch[];
+  /** Bounds for the adaptive client difficulty; defaults to the client's complexity curve */
+  difficultyCurve?: DifficultyCurve;
+}
+
+export type ScenarioFormat = 'json' | 'yaml';
+
+export interface ScenarioContext {
+  elapsedMinutes: number;
+  metrics: Partial<Record<SessionMetricName, number>>;
+  clientState: Record<string, string | number | boolean | undefined>;
+  /** Event names that have already fired this session */
+  firedEvents: string[];
+}
+
+export interface SimulationStep {
+  minute: number;
+  metrics?: Partial<Record<SessionMetricName, number>>;
+  clientState?: Record<string, string | number | boolean>;
+}
+
+export interface SimulationFiring {
+  minute: number;
+  branchId: string;
+  action: BranchAction;
+}
+
+export interface SimulationResult {
+  scenarioId: string;
+  firings: SimulationFiring[];
+  /** Branches that never fired, useful for spotting unreachable conditions */
+  unreachedBranches: string[];
+}
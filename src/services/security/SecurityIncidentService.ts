@@ -0,0 +1,45 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { SecurityIncident } from '@/types/security';
+
+export type NewSecurityIncident = Omit<SecurityIncident, 'id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Records security incidents for the response team. Storage failures are
+ * rethrown: an alert that silently went nowhere is worse than a failed call.
+ */
+export class SecurityIncidentService {
+  private static instance: SecurityIncidentService;
+
+  constructor(private client: SupabaseClient = supabase) {}
+
+  public static getInstance(): SecurityIncidentService {
+    if (!SecurityIncidentService.instance) {
+      SecurityIncidentService.instance = new SecurityIncidentService();
+    }
+    return SecurityIncidentService.instance;
+  }
+
+  public async reportIncident(incident: NewSecurityIncident): Promise<SecurityIncident> {
+    const { data, error } = await this.client
+      .from('security_incidents')
+      .insert({
+        type: incident.type,
+        severity: incident.severity,
+        status: incident.status,
+        source: incident.source,
+        details: incident.details,
+        metadata: incident.metadata ?? null
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (incident.severity === 'high' || incident.severity === 'critical') {
+      console.warn(`Security incident reported: ${incident.type} (${incident.severity})`, data.id);
+    }
+
+    return data as SecurityIncident;
+  }
+}
@@ -1,15 +1,30 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { Session, SessionMode, SessionState, SessionMetrics } from '../types/session';
 import { RedisService } from './RedisService';
 import { EncryptionService } from '../services/encryption';
 import { ZKService } from '../services/zkservice';
 import { MonitoringService } from './MonitoringService';
+import {
+    BranchAction,
+    DEFAULT_SCENARIO,
+    ScenarioCondition,
+    ScenarioDefinition,
+    ScenarioLoader,
+    compileScenario,
+    firedEvents,
+    selectBranch,
+} from './scenarios';
+import { SessionRecorder } from './recording';
 
 export interface SessionBranch {
     id: string;
     sessionId: string;
-    condition: string;
-    nextAction: string;
-    probability: number;
+    scenarioId: string;
+    description?: string;
+    condition: ScenarioCondition;
+    action: BranchAction;
+    priority: number;
+    once?: boolean;
     triggered: boolean;
 }
 
@@ -21,12 +36,14 @@ class SessionManager {
     private encryptionService: EncryptionService;
     private zkService: ZKService;
     private monitoringService: MonitoringService;
+    private recorder: SessionRecorder;
 
     private constructor() {
         this.redisService = RedisService.getInstance();
         this.encryptionService = EncryptionService.getInstance();
         this.zkService = ZKService.getInstance();
         this.monitoringService = MonitoringService.getInstance();
+        this.recorder = SessionRecorder.getInstance();
     }
 
     public static getInstance(): SessionManager {
@@ -56,6 +73,7 @@ class SessionManager {
         // Store in Redis with pattern for grouped invalidation
         await this.redisService.set(`session:${sessionId}`, session, undefined, 'active-sessions');
         this.currentSession = session;
+        await this.record(() => this.recorder.recordStart(sessionId, { mode }));
 
         return session;
     }
@@ -128,6 +146,7 @@ class SessionManager {
                 'completed-sessions'
             );
             await this.redisService.invalidateByPattern('active-sessions');
+            await this.record(() => this.recorder.recordEnd(endedSession.id, 'completed'));
             
             this.currentSession = null;
         }
@@ -169,63 +188,71 @@ class SessionManager {
         }
     }
 
-    public async loadSessionBranches(sessionId: string): Promise<void> {
+    /**
+     * Install the branches of an authored scenario for a session. Trigger
+     * state already cached for the session wins, so reloading mid-session
+     * does not re-fire branches.
+     */
+    public async loadSessionBranches(
+        sessionId: string,
+        scenarioId?: string,
+        version?: number,
+        client?: SupabaseClient
+    ): Promise<void> {
         const cachedBranches = await this.redisService.hget<SessionBranch[]>('branches', sessionId);
         if (cachedBranches) {
             this.branches.set(sessionId, cachedBranches);
             return;
         }
 
-        // If not in cache, load from storage and cache with pattern
-        const mockBranches: SessionBranch[] = [
-            {
-                id: 'branch1',
-                condition: 'sentiment < 0.3',
-                action: 'suggest_break',
-                priority: 1,
-                triggered: false,
-            },
-            // Add more mock branches as needed
-        ];
-
-        await this.redisService.hset('branches', sessionId, mockBranches);
+        // If not in cache, load the scenario and cache with pattern
+        const scenario: ScenarioDefinition = scenarioId
+            ? await ScenarioLoader.getInstance().load(scenarioId, version, client)
+            : DEFAULT_SCENARIO;
+        const branches: SessionBranch[] = compileScenario(scenario).map(branch => ({
+            id: branch.id,
+            sessionId,
+            scenarioId: scenario.id,
+            description: branch.description,
+            condition: branch.when,
+            action: branch.action,
+            priority: branch.priority,
+            once: branch.once,
+            triggered: false,
+        }));
+
+        await this.redisService.hset('branches', sessionId, branches);
         await this.redisService.set(
             `branches:${sessionId}`,
-            mockBranches,
+            branches,
             undefined,
             'session-branches'
         );
-        this.branches.set(sessionId, mockBranches);
+        this.branches.set(sessionId, branches);
     }
 
-    public async evaluateBranches(metrics: {
-        sentiment: number;
-        engagement: number;
-        riskLevel: number;
-    }): Promise<SessionBranch | null> {
+    public async evaluateBranches(
+        metrics: {
+            sentiment: number;
+            engagement: number;
+            riskLevel: number;
+            interventionSuccess?: number;
+        },
+        clientState: Record<string, string | number | boolean> = {}
+    ): Promise<SessionBranch | null> {
         if (!this.currentSession) return null;
 
         const branches = this.branches.get(this.currentSession.id) || [];
-        const eligibleBranches = branches
-            .filter(branch => !branch.triggered && this.evaluateCondition(branch.condition, metrics))
-            .sort((a, b) => b.priority - a.priority);
-
-        return eligibleBranches[0] || null;
-    }
-
-    private evaluateCondition(condition: string, metrics: {
-        sentiment: number;
-        engagement: number;
-        riskLevel: number;
-    }): boolean {
-        try {
-            // Simple evaluation for demo purposes
-            const { sentiment, engagement, riskLevel } = metrics;
-            return eval(condition);
-        } catch (error) {
-            console.error('Error evaluating condition:', error);
-            return false;
-        }
+        const elapsedMinutes = (Date.now() - new Date(this.currentSession.startTime).getTime()) / 60000;
+        const candidates = branches.map(branch => ({ ...branch, when: branch.condition }));
+
+        const selected = selectBranch(candidates, {
+            elapsedMinutes,
+            metrics,
+            clientState,
+            firedEvents: firedEvents(candidates),
+        });
+        return selected ? branches.find(branch => branch.id === selected.id) || null : null;
     }
 
     public async triggerBranch(branch: SessionBranch): Promise<void> {
@@ -236,6 +263,9 @@ class SessionManager {
             const branchIndex = branches.findIndex(b => b.id === branch.id);
             if (branchIndex >= 0) {
                 branches[branchIndex].triggered = true;
+                await this.record(() =>
+                    this.recorder.recordBranch(this.currentSession!.id, branch.id, branch.action)
+                );
                 await this.redisService.hset('branches', this.currentSession.id, branches);
                 await this.redisService.set(
                     `branches:${this.currentSession.id}`,
@@ -260,6 +290,18 @@ class SessionManager {
                 ...metrics,
             };
             await this.updateSession(this.currentSession.id, { metrics: updatedMetrics });
+            await this.record(() => this.recorder.recordMetrics(this.currentSession!.id, metrics));
+        }
+    }
+
+    /**
+     * Recording is best-effort: a failed write must not break the live session
+     */
+    private async record(write: () => Promise<unknown>): Promise<void> {
+        try {
+            await write();
+        } catch (error) {
+            console.error('Failed to record session event:', error);
         }
     }
 
@@ -3,6 +3,8 @@ import { dataService } from '@/lib/data';
 import { NLPService } from '../nlp/NLPService';
 import { QualityMetricsService } from '../QualityMetricsService';
 import { SessionAnalytics } from '../sessionAnalytics';
+import { LLMProviderRegistry } from '@/ai/providers';
+import type { LLMMessage } from '@/ai/providers';
 
 interface SessionSummary {
   overview: {
@@ -106,6 +108,31 @@ export class SessionSummarizationService {
     }
   }
 
+  /**
+   * Fold conversation turns into a running summary, for keeping long
+   * conversations inside a model's context window
+   */
+  public async summarizeTurns(
+    turns: LLMMessage[],
+    previousSummary?: string
+  ): Promise<string> {
+    const transcript = turns.map(turn => `${turn.role}: ${turn.content}`).join('\n');
+    const completion = await LLMProviderRegistry.getInstance().complete('summarization', [
+      {
+        role: 'system',
+        content: 'You maintain a running summary of a therapy conversation. Keep presenting concerns, ' +
+          'disclosed facts, emotional shifts, agreed goals and any risk indicators. Be concise and factual; ' +
+          'do not add interpretation. Reply with the updated summary only.'
+      },
+      {
+        role: 'user',
+        content: `${previousSummary ? `Current summary:\n${previousSummary}\n\n` : ''}New turns:\n${transcript}`
+      }
+    ]);
+
+    return completion.content.trim();
+  }
+
   private async getSessionData(sessionId: string): Promise<any> {
     return await dataService.get('sessions', {
       where: { id: sessionId },
@@ -239,7 +239,20 @@ export class Point {
         if (typeof scalar !== 'bigint') {
             throw new Error('Invalid scalar: must be a BigInt');
         }
-        return new Point(this.point.multiply(scalar));
+        // Scalars act modulo the group order; noble rejects 0 and anything >= n
+        const reduced = ((scalar % secp256k1.CURVE.n) + secp256k1.CURVE.n) % secp256k1.CURVE.n;
+        if (reduced === 0n) {
+            return Point.ZERO;
+        }
+        return new Point(this.point.multiply(reduced));
+    }
+
+    double(): Point {
+        return new Point(this.point.double());
+    }
+
+    negate(): Point {
+        return new Point(this.point.negate());
     }
 
     toHex(): string {
@@ -8,6 +8,7 @@ export type AttachmentStatus =
   | 'processing'
   | 'ready'
   | 'failed'
+  | 'quarantined'
   | 'deleted';
 
 export interface Attachment extends BaseEntity {
@@ -41,6 +42,8 @@ export interface Attachment extends BaseEntity {
     scanner_info?: Record<string, unknown>;
   };
   preview_status?: string;
+  quarantine_path?: string;
+  quarantined_at?: string;
   preview_metadata?: {
     type: string;
     dimensions?: {
@@ -24,6 +24,30 @@ export const MessageStatus = {
 
 export type MessageStatus = typeof MessageStatus[keyof typeof MessageStatus]
 
+// Message visibility: 'supervision' rows are supervisor whispers, hidden from
+// clients, AI context and client-facing exports
+export const MessageVisibility = {
+  ALL: 'all',
+  SUPERVISION: 'supervision'
+} as const
+
+export type MessageVisibility = typeof MessageVisibility[keyof typeof MessageVisibility]
+
+// Re-encryption of a failed message under newer keys. `ratchet` is set when
+// the old keys were Double Ratchet sessions, which were retired so the retry
+// runs a fresh X3DH handshake
+export interface KeyTransitionContext {
+  fromVersion: string
+  toVersion: string
+  keyId?: string
+  transitionStarted: Date
+  retryCount: number
+  ratchet?: {
+    senderDeviceId: string
+    retiredSessionIds: string[]
+  }
+}
+
 // Base message interface
 export interface Message extends Timestamps, Auditable {
   id: string
@@ -33,6 +57,7 @@ export interface Message extends Timestamps, Auditable {
   content: string
   status: MessageStatus
   metadata: Metadata
+  visibility?: MessageVisibility
 }
 
 // Thread status
@@ -76,6 +101,67 @@ export interface ChatService {
   markAsRead(messageId: string): Promise<void>
 }
 
+// Message search
+export type SearchSort = 'rank' | 'date_asc' | 'date_desc'
+
+// fulltext: Postgres text search only; semantic: embeddings only; hybrid: both, fused
+export type SearchMode = 'fulltext' | 'semantic' | 'hybrid'
+
+export interface SearchOptions {
+  query: string
+  thread_id?: string
+  start_date?: string
+  end_date?: string
+  sender_id?: string
+  sort?: SearchSort
+  limit?: number
+  offset?: number
+  mode?: SearchMode
+  // Match messages carrying any of these tags/flags
+  emotion_tags?: string[]
+  risk_flags?: string[]
+  // Who is searching; part of the cache key so results are never shared across callers
+  requester_id?: string
+}
+
+export interface MessageSearchResult {
+  id: string
+  thread_id: string
+  content: string
+  created_at: string
+  sender_id: string
+  highlighted_content: string
+  rank: number
+  previous_message?: string | null
+  next_message?: string | null
+  // Present on semantic/hybrid results
+  text_rank?: number
+  similarity?: number
+  emotion_tags?: string[]
+  risk_flags?: string[]
+}
+
+export interface SearchStatistics {
+  user_id: string
+  thread_id: string
+  time_bucket: string
+  search_count: number
+  avg_results: number
+  avg_execution_time: number
+  queries: string[]
+}
+
+export interface SearchAuditLog {
+  id: string
+  user_id: string
+  thread_id: string
+  query: string
+  result_count: number
+  execution_time_ms: number
+  created_at: string
+  metadata?: Record<string, unknown>
+}
+
 // Database types
 export type MessageRow = Database['public']['Tables']['messages']['Row']
 export type MessageInsert = Database['public']['Tables']['messages']['Insert']
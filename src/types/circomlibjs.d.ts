@@ -1,21 +1,35 @@
 declare module 'circomlibjs' {
+    /** Element of the BN254 scalar field, in the library's internal encoding */
+    export type FieldElement = Uint8Array;
+
+    export interface Field {
+        e: (value: bigint | number | string) => FieldElement;
+        toObject: (element: FieldElement) => bigint;
+    }
+
     export interface Signature {
-        R8: Uint8Array;
+        R8: [FieldElement, FieldElement] | Uint8Array;
         S: bigint;
     }
 
     export interface Eddsa {
-        prv2pub: (privateKey: Buffer) => Uint8Array;
-        signPoseidon: (privateKey: Buffer, msg: bigint[]) => Signature;
+        prv2pub: (privateKey: Buffer) => [FieldElement, FieldElement];
+        signPoseidon: (privateKey: Buffer, msg: FieldElement) => Signature;
         signMiMC: (privateKey: Buffer, msg: Buffer) => Signature;
-        verifyPoseidon: (msg: bigint[], sig: Signature, pubKey: Uint8Array) => boolean;
+        verifyPoseidon: (msg: FieldElement, sig: Signature, pubKey: [FieldElement, FieldElement]) => boolean;
         packSignature: (sig: Signature) => Uint8Array;
         unpackSignature: (sig: Uint8Array) => Signature;
         pubKey2Bits: (pubKey: Uint8Array) => boolean[];
         r8Bits: (r8: Uint8Array) => boolean[];
         sBits: (s: bigint) => boolean[];
-        F: any;
+        F: Field;
+    }
+
+    export interface Poseidon {
+        (inputs: Array<bigint | number | FieldElement>): FieldElement;
+        F: Field;
     }
 
     export function buildEddsa(): Promise<Eddsa>;
+    export function buildPoseidon(): Promise<Poseidon>;
 }
@@ -88,6 +88,7 @@ export type {
   SessionMode,
   SessionMetrics,
   SessionConfig,
+  SessionState,
   SessionRow,
   SessionInsert,
   SessionUpdate,
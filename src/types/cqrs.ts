@@ -21,7 +21,7 @@ export interface Event {
 
 // Event store interfaces
 export interface EventStore {
-  append(event: Event): Promise<void>;
+  append(event: Event, expectedVersion?: number): Promise<void>;
   getEvents(aggregateId: string): Promise<Event[]>;
   getAllEvents(): Promise<Event[]>;
   getEventsByType(type: string): Promise<Event[]>;
@@ -40,6 +40,24 @@ export interface SessionWithParticipants extends Session {
   messages: Message[]
 }
 
+// Live session held by the session managers. Metrics are 0-1 scores;
+// `endTime` is set once the session is completed
+export interface SessionState {
+  id: string
+  clientId: string
+  mode: SessionMode
+  status: string
+  currentBranch?: string | null
+  startTime: Date
+  endTime?: Date
+  metrics: {
+    sentiment: number
+    engagement: number
+    riskLevel: number
+    interventionSuccess: number
+  }
+}
+
 // Session metrics
 export interface SessionMetrics {
   duration: number
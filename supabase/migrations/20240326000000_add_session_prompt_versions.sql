@@ -0,0 +1,39 @@
+-- Record which roleplay prompt template version produced each session
+CREATE TABLE IF NOT EXISTS session_prompt_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    template_id TEXT NOT NULL,
+    template_version TEXT NOT NULL,
+    locale TEXT NOT NULL DEFAULT 'en',
+    checksum TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_template_version CHECK (template_version ~ '^\d+\.\d+\.\d+$'),
+    CONSTRAINT valid_locale CHECK (locale IN ('en', 'de', 'es', 'fr'))
+);
+
+-- Add indexes
+CREATE INDEX idx_session_prompt_versions_session ON session_prompt_versions(session_id);
+CREATE INDEX idx_session_prompt_versions_template ON session_prompt_versions(template_id, template_version);
+
+-- Add RLS policies
+ALTER TABLE session_prompt_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view prompt versions for their sessions"
+    ON session_prompt_versions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM sessions s
+            WHERE s.id = session_id
+            AND (s.client_id = auth.uid() OR s.therapist_id = auth.uid())
+        )
+    );
+
+CREATE POLICY "Therapists can record prompt versions for their sessions"
+    ON session_prompt_versions FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM sessions s
+            WHERE s.id = session_id
+            AND s.therapist_id = auth.uid()
+        )
+    );
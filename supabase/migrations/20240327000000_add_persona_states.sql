@@ -0,0 +1,27 @@
+-- Persistent persona memory for simulated clients, one row per session
+CREATE TABLE IF NOT EXISTS persona_states (
+    session_id UUID PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+    client_id TEXT NOT NULL,
+    state JSONB NOT NULL,
+    contradiction_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_contradiction_count CHECK (contradiction_count >= 0)
+);
+
+-- Add indexes
+CREATE INDEX idx_persona_states_client ON persona_states(client_id);
+CREATE INDEX idx_persona_states_contradictions ON persona_states(contradiction_count) WHERE contradiction_count > 0;
+
+-- Add RLS policies
+ALTER TABLE persona_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Therapists can manage persona state for their sessions"
+    ON persona_states FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM sessions s
+            WHERE s.id = session_id
+            AND s.therapist_id = auth.uid()
+        )
+    );
@@ -0,0 +1,48 @@
+-- Difficulty adjustments made to simulated clients during a session
+CREATE TABLE IF NOT EXISTS session_difficulty_trajectory (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    turn INTEGER NOT NULL,
+    elapsed_minutes NUMERIC NOT NULL,
+    level NUMERIC NOT NULL,
+    bound_min NUMERIC NOT NULL,
+    bound_max NUMERIC NOT NULL,
+    performance NUMERIC NOT NULL,
+    parameters JSONB NOT NULL,
+    reason TEXT NOT NULL,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_turn CHECK (turn >= 0),
+    CONSTRAINT valid_level CHECK (level >= bound_min AND level <= bound_max),
+    CONSTRAINT valid_bounds CHECK (bound_min >= 0 AND bound_max <= 1 AND bound_min <= bound_max)
+);
+
+-- Add indexes
+CREATE INDEX idx_session_difficulty_trajectory_session ON session_difficulty_trajectory(session_id, recorded_at);
+
+-- Add RLS policies
+ALTER TABLE session_difficulty_trajectory ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Therapists can record difficulty for their sessions"
+    ON session_difficulty_trajectory FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM sessions s
+            WHERE s.id = session_id
+            AND s.therapist_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Session participants and instructors can view difficulty"
+    ON session_difficulty_trajectory FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM sessions s
+            WHERE s.id = session_id
+            AND (s.therapist_id = auth.uid() OR s.client_id = auth.uid())
+        )
+        OR EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role IN ('instructor', 'admin')
+        )
+    );
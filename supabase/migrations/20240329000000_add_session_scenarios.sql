@@ -0,0 +1,32 @@
+-- Authored branching scenarios, one immutable row per version
+CREATE TABLE IF NOT EXISTS session_scenarios (
+    id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    definition JSONB NOT NULL,
+    source TEXT NOT NULL,
+    created_by UUID DEFAULT auth.uid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (id, version),
+    CONSTRAINT valid_version CHECK (version > 0)
+);
+
+-- Add indexes
+CREATE INDEX idx_session_scenarios_latest ON session_scenarios(id, version DESC);
+
+-- Add RLS policies
+ALTER TABLE session_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read scenarios"
+    ON session_scenarios FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Instructors and admins can publish scenarios"
+    ON session_scenarios FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role IN ('instructor', 'admin')
+        )
+    );
@@ -0,0 +1,32 @@
+-- Output guardrail interventions on AI responses, for compliance reporting.
+-- Only the length of the flagged text is kept; the text itself may contain PHI.
+CREATE TABLE IF NOT EXISTS guardrail_interventions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    check_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    session_id TEXT,
+    original_length INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_action CHECK (action IN ('block', 'rewrite', 'annotate')),
+    CONSTRAINT valid_severity CHECK (severity IN ('low', 'medium', 'high'))
+);
+
+-- Add indexes
+CREATE INDEX idx_guardrail_interventions_created ON guardrail_interventions(created_at DESC);
+CREATE INDEX idx_guardrail_interventions_check ON guardrail_interventions(check_id, created_at DESC);
+
+-- Add RLS policies
+ALTER TABLE guardrail_interventions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read guardrail interventions"
+    ON guardrail_interventions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role = 'admin'
+        )
+    );
@@ -0,0 +1,85 @@
+-- Durable retry queue for failed message deliveries, shared by all instances
+CREATE TABLE IF NOT EXISTS message_retry_queue (
+    message_id TEXT PRIMARY KEY,
+    thread_id TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'pending',
+    available_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    lease_owner TEXT,
+    lease_expires_at TIMESTAMPTZ,
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_status CHECK (status IN ('pending', 'in_flight', 'dead')),
+    CONSTRAINT valid_attempts CHECK (attempts >= 0)
+);
+
+-- Add indexes
+CREATE INDEX idx_message_retry_queue_due ON message_retry_queue(available_at)
+    WHERE status = 'pending';
+CREATE INDEX idx_message_retry_queue_leases ON message_retry_queue(lease_expires_at)
+    WHERE status = 'in_flight';
+CREATE INDEX idx_message_retry_queue_dead ON message_retry_queue(thread_id, updated_at DESC)
+    WHERE status = 'dead';
+
+-- Add RLS policies; workers use the service role, operators read through the API
+ALTER TABLE message_retry_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read the retry queue"
+    ON message_retry_queue FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role = 'admin'
+        )
+    );
+
+-- Lease due jobs to one worker. Jobs whose lease expired are due again, unless
+-- they have used up their attempts, in which case they are dead-lettered.
+CREATE OR REPLACE FUNCTION claim_message_retries(
+    p_owner TEXT,
+    p_limit INTEGER,
+    p_visibility_ms INTEGER,
+    p_max_attempts INTEGER
+)
+RETURNS SETOF message_retry_queue AS $$
+BEGIN
+    UPDATE message_retry_queue
+    SET status = 'dead',
+        lease_owner = NULL,
+        lease_expires_at = NULL,
+        last_error = COALESCE(last_error, 'Lease expired'),
+        updated_at = now()
+    WHERE status = 'in_flight'
+    AND lease_expires_at <= now()
+    AND attempts >= p_max_attempts;
+
+    RETURN QUERY
+    UPDATE message_retry_queue q
+    SET status = 'in_flight',
+        attempts = q.attempts + 1,
+        lease_owner = p_owner,
+        lease_expires_at = now() + make_interval(secs => p_visibility_ms / 1000.0),
+        updated_at = now()
+    WHERE q.message_id IN (
+        SELECT message_id FROM message_retry_queue
+        WHERE (status = 'pending' AND available_at <= now())
+        OR (status = 'in_flight' AND lease_expires_at <= now())
+        ORDER BY available_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only workers running with the service role may lease jobs
+REVOKE EXECUTE ON FUNCTION claim_message_retries(TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_message_retries(TEXT, INTEGER, INTEGER, INTEGER) TO service_role;
+
+-- Dead letters can be discarded by operators; failed_messages also tracks key transitions
+ALTER TABLE failed_messages DROP CONSTRAINT IF EXISTS failed_messages_status_check;
+ALTER TABLE failed_messages ADD CONSTRAINT failed_messages_status_check
+    CHECK (status IN ('failed', 'recovered', 'transition_failed', 'transition_pending', 'discarded'));
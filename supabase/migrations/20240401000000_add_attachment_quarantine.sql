@@ -0,0 +1,57 @@
+-- Quarantine state for attachments that failed malware scanning
+ALTER TYPE attachment_status ADD VALUE IF NOT EXISTS 'quarantined';
+
+ALTER TABLE attachments
+    ADD COLUMN IF NOT EXISTS quarantine_path TEXT,
+    ADD COLUMN IF NOT EXISTS quarantined_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_attachments_quarantined ON attachments(quarantined_at)
+    WHERE quarantined_at IS NOT NULL;
+
+-- Isolated bucket for infected files; no policies, so only the service role can reach it
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('quarantined-attachments', 'quarantined-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Security incidents raised by platform services
+CREATE TABLE IF NOT EXISTS security_incidents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open',
+    source JSONB NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}',
+    resolution JSONB,
+    metadata JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_severity CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+    CONSTRAINT valid_status CHECK (status IN ('open', 'investigating', 'resolved', 'closed'))
+);
+
+-- Add indexes
+CREATE INDEX idx_security_incidents_open ON security_incidents(severity, created_at DESC)
+    WHERE status IN ('open', 'investigating');
+
+-- Add RLS policies
+ALTER TABLE security_incidents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read security incidents"
+    ON security_incidents FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update security incidents"
+    ON security_incidents FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role = 'admin'
+        )
+    );
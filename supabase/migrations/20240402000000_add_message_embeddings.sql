@@ -0,0 +1,137 @@
+-- Semantic message search: per-message embeddings plus hybrid retrieval
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS message_embeddings (
+    message_id UUID PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+    thread_id UUID NOT NULL,
+    embedding vector(768) NOT NULL,
+    model TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    emotion_tags TEXT[] NOT NULL DEFAULT '{}',
+    risk_flags TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add indexes
+CREATE INDEX idx_message_embeddings_vector
+    ON message_embeddings USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX idx_message_embeddings_thread ON message_embeddings(thread_id);
+CREATE INDEX idx_message_embeddings_emotions ON message_embeddings USING GIN (emotion_tags);
+CREATE INDEX idx_message_embeddings_risk ON message_embeddings USING GIN (risk_flags);
+
+-- Add RLS policies: embeddings are visible exactly when the message is
+ALTER TABLE message_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read embeddings of messages they can read"
+    ON message_embeddings FOR SELECT
+    USING (EXISTS (SELECT 1 FROM messages m WHERE m.id = message_id));
+
+CREATE POLICY "Users can index messages they sent"
+    ON message_embeddings FOR ALL
+    USING (EXISTS (SELECT 1 FROM messages m WHERE m.id = message_id AND m.sender_id = auth.uid()))
+    WITH CHECK (EXISTS (SELECT 1 FROM messages m WHERE m.id = message_id AND m.sender_id = auth.uid()));
+
+-- Candidate retrieval for hybrid search. Returns the top text matches and the
+-- top vector neighbours (either may be absent) with both raw scores; fusion,
+-- sorting and pagination happen in MessageSearchService. Runs as the caller
+-- so message RLS still applies.
+CREATE OR REPLACE FUNCTION hybrid_search_messages(
+    query_text TEXT,
+    query_embedding vector(768) DEFAULT NULL,
+    match_count INTEGER DEFAULT 200,
+    min_similarity FLOAT DEFAULT 0.3,
+    filter_thread_id UUID DEFAULT NULL,
+    filter_sender_id UUID DEFAULT NULL,
+    filter_start TIMESTAMPTZ DEFAULT NULL,
+    filter_end TIMESTAMPTZ DEFAULT NULL,
+    filter_emotion_tags TEXT[] DEFAULT NULL,
+    filter_risk_flags TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    thread_id UUID,
+    content TEXT,
+    created_at TIMESTAMPTZ,
+    sender_id UUID,
+    highlighted_content TEXT,
+    text_rank REAL,
+    similarity FLOAT,
+    emotion_tags TEXT[],
+    risk_flags TEXT[],
+    previous_message TEXT,
+    next_message TEXT
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH q AS (
+        SELECT websearch_to_tsquery('chat_message_config', query_text) AS query
+    ),
+    filtered AS (
+        SELECT
+            m.id, m.thread_id, m.content, m.created_at, m.sender_id, m.search_vector,
+            e.embedding,
+            COALESCE(e.emotion_tags, '{}') AS emotion_tags,
+            COALESCE(e.risk_flags, '{}') AS risk_flags
+        FROM messages m
+        LEFT JOIN message_embeddings e ON e.message_id = m.id
+        WHERE (filter_thread_id IS NULL OR m.thread_id = filter_thread_id)
+          AND (filter_sender_id IS NULL OR m.sender_id = filter_sender_id)
+          AND (filter_start IS NULL OR m.created_at >= filter_start)
+          AND (filter_end IS NULL OR m.created_at <= filter_end)
+          AND (filter_emotion_tags IS NULL OR e.emotion_tags && filter_emotion_tags)
+          AND (filter_risk_flags IS NULL OR e.risk_flags && filter_risk_flags)
+    ),
+    text_hits AS (
+        -- Normalization 32 maps rank to rank/(rank+1), saturating like BM25
+        SELECT f.id, ts_rank_cd(f.search_vector, q.query, 32) AS text_rank
+        FROM filtered f, q
+        WHERE f.search_vector @@ q.query
+        ORDER BY text_rank DESC
+        LIMIT match_count
+    ),
+    vector_hits AS (
+        SELECT f.id, 1 - (f.embedding <=> query_embedding) AS similarity
+        FROM filtered f
+        WHERE query_embedding IS NOT NULL AND f.embedding IS NOT NULL
+        ORDER BY f.embedding <=> query_embedding
+        LIMIT match_count
+    ),
+    candidates AS (
+        SELECT
+            COALESCE(t.id, v.id) AS id,
+            COALESCE(t.text_rank, 0) AS text_rank,
+            v.similarity
+        FROM text_hits t
+        FULL OUTER JOIN vector_hits v ON v.id = t.id
+    )
+    SELECT
+        f.id,
+        f.thread_id,
+        f.content,
+        f.created_at,
+        f.sender_id,
+        ts_headline('chat_message_config', f.content, q.query) AS highlighted_content,
+        c.text_rank,
+        COALESCE(
+            c.similarity,
+            CASE WHEN query_embedding IS NOT NULL AND f.embedding IS NOT NULL
+                THEN 1 - (f.embedding <=> query_embedding) END,
+            0
+        ) AS similarity,
+        f.emotion_tags,
+        f.risk_flags,
+        (SELECT p.content FROM messages p
+            WHERE p.thread_id = f.thread_id AND p.created_at < f.created_at
+            ORDER BY p.created_at DESC LIMIT 1) AS previous_message,
+        (SELECT n.content FROM messages n
+            WHERE n.thread_id = f.thread_id AND n.created_at > f.created_at
+            ORDER BY n.created_at ASC LIMIT 1) AS next_message
+    FROM candidates c
+    JOIN filtered f ON f.id = c.id
+    CROSS JOIN q
+    WHERE c.text_rank > 0 OR c.similarity >= min_similarity;
+$$;
+
+COMMENT ON TABLE message_embeddings IS 'Per-message embeddings with emotion tags and risk flags for semantic search';
+COMMENT ON FUNCTION hybrid_search_messages IS 'Text and vector candidate retrieval for hybrid message search';
@@ -0,0 +1,40 @@
+-- Visibility scopes for messages: 'supervision' rows are supervisor whispers
+-- shown to the session's trainee and supervisor, never to the client
+ALTER TABLE messages
+    ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'all',
+    ADD CONSTRAINT valid_message_visibility CHECK (visibility IN ('all', 'supervision'));
+
+CREATE INDEX IF NOT EXISTS idx_messages_supervision ON messages(session_id, created_at)
+    WHERE visibility = 'supervision';
+
+-- The supervisor assigned to a session; the trainee is its therapist
+ALTER TABLE sessions
+    ADD COLUMN IF NOT EXISTS supervisor_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_supervisor ON sessions(supervisor_id)
+    WHERE supervisor_id IS NOT NULL;
+
+-- Restrictive, so it narrows every permissive SELECT policy on messages
+CREATE POLICY "Only supervision participants can view whispers"
+    ON messages AS RESTRICTIVE FOR SELECT
+    USING (
+        visibility = 'all' OR
+        auth.uid() = user_id OR
+        EXISTS (
+            SELECT 1 FROM sessions s
+            WHERE s.id = messages.session_id
+            AND (s.therapist_id = auth.uid() OR s.supervisor_id = auth.uid())
+        )
+    );
+
+-- Whispers can only be written by the session's supervisor
+CREATE POLICY "Only supervisors can write whispers"
+    ON messages AS RESTRICTIVE FOR INSERT
+    WITH CHECK (
+        visibility = 'all' OR
+        EXISTS (
+            SELECT 1 FROM sessions s
+            WHERE s.id = messages.session_id
+            AND s.supervisor_id = auth.uid()
+        )
+    );
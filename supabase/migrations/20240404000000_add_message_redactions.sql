@@ -0,0 +1,93 @@
+-- Redaction tombstones: which spans were replaced, by whom and why. The
+-- pre-redaction message and edit history are kept only as AES-GCM ciphertext.
+CREATE TABLE IF NOT EXISTS message_redactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    thread_id UUID NOT NULL,
+    redacted_by UUID NOT NULL REFERENCES auth.users(id),
+    reason TEXT NOT NULL,
+    spans JSONB NOT NULL,
+    encrypted_original TEXT NOT NULL,
+    iv TEXT NOT NULL,
+    key_id TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT spans_is_array CHECK (jsonb_typeof(spans) = 'array')
+);
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS is_redacted BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS last_redacted_at TIMESTAMPTZ;
+
+-- Add indexes
+CREATE INDEX idx_message_redactions_message ON message_redactions(message_id);
+CREATE INDEX idx_message_redactions_thread ON message_redactions(thread_id, created_at DESC);
+
+-- Add RLS policies
+ALTER TABLE message_redactions ENABLE ROW LEVEL SECURITY;
+
+-- Tombstones, redacted messages and scrubbed edits are only written by
+-- apply_message_redaction below. Originals are only read through the API,
+-- which checks for a compliance role and audits the access.
+CREATE POLICY "Redactors and compliance can view redactions"
+    ON message_redactions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role IN ('admin', 'compliance_officer', 'supervisor')
+        )
+    );
+
+-- Tombstones are permanent
+CREATE POLICY "Redactions cannot be changed"
+    ON message_redactions FOR UPDATE
+    USING (false);
+
+-- Record a redaction in one transaction: the tombstone, the redacted message
+-- and the scrubbed edit history. Runs as the owner so callers need no UPDATE
+-- rights on messages, and checks the caller's role itself instead.
+CREATE OR REPLACE FUNCTION apply_message_redaction(
+    p_redaction JSONB,
+    p_content TEXT,
+    p_edits JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+    v_message_id UUID := (p_redaction->>'message_id')::UUID;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles p
+        WHERE p.user_id = auth.uid()
+        AND p.role IN ('admin', 'compliance_officer', 'supervisor')
+    ) THEN
+        RAISE EXCEPTION 'Not permitted to redact messages' USING ERRCODE = '42501';
+    END IF;
+
+    -- The redactor is always the caller, whatever the payload says
+    INSERT INTO message_redactions (
+        id, message_id, thread_id, redacted_by, reason, spans, encrypted_original, iv, key_id
+    )
+    SELECT id, message_id, thread_id, auth.uid(), reason, spans, encrypted_original, iv, key_id
+    FROM jsonb_populate_record(NULL::message_redactions, p_redaction);
+
+    UPDATE messages
+    SET content = p_content,
+        is_redacted = true,
+        last_redacted_at = now()
+    WHERE id = v_message_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Message % could not be redacted', v_message_id;
+    END IF;
+
+    -- Only the redacted message's own history may be scrubbed
+    UPDATE session_message_edits e
+    SET previous_content = s.previous_content,
+        new_content = s.new_content
+    FROM jsonb_to_recordset(p_edits) AS s(id UUID, previous_content TEXT, new_content TEXT)
+    WHERE e.id = s.id
+    AND e.message_id = v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_message_redaction(JSONB, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION apply_message_redaction(JSONB, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,112 @@
+-- Scheduled and recurring thread messages. starts_at is wall-clock time in
+-- the recipient's timezone; next_run_at is the resolved instant to deliver.
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    thread_id UUID NOT NULL,
+    sender_id UUID NOT NULL REFERENCES auth.users(id),
+    recipient_id UUID NOT NULL REFERENCES auth.users(id),
+    content TEXT NOT NULL,
+    starts_at TEXT NOT NULL,
+    rrule TEXT,
+    status TEXT NOT NULL DEFAULT 'active',
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    next_run_at TIMESTAMPTZ,
+    last_run_at TIMESTAMPTZ,
+    occurrence_count INTEGER NOT NULL DEFAULT 0,
+    delivery_attempts INTEGER NOT NULL DEFAULT 0,
+    lease_owner TEXT,
+    lease_expires_at TIMESTAMPTZ,
+    last_error TEXT,
+    created_by UUID NOT NULL REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_schedule_status CHECK (status IN ('active', 'paused', 'cancelled', 'completed')),
+    CONSTRAINT active_schedules_have_next_run CHECK (status <> 'active' OR next_run_at IS NOT NULL)
+);
+
+-- Add indexes
+CREATE INDEX idx_scheduled_messages_due ON scheduled_messages(next_run_at)
+    WHERE status = 'active';
+CREATE INDEX idx_scheduled_messages_thread ON scheduled_messages(thread_id, created_at);
+
+-- Add RLS policies; delivery runs with the service role
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Schedulers can create scheduled messages"
+    ON scheduled_messages FOR INSERT
+    WITH CHECK (
+        auth.uid() = created_by AND
+        auth.uid() = sender_id AND
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role IN ('instructor', 'supervisor', 'admin')
+        )
+    );
+
+CREATE POLICY "Creators and admins can view scheduled messages"
+    ON scheduled_messages FOR SELECT
+    USING (
+        auth.uid() = created_by OR
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Creators and admins can update scheduled messages"
+    ON scheduled_messages FOR UPDATE
+    USING (
+        auth.uid() = created_by OR
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role = 'admin'
+        )
+    );
+
+-- Lease due schedules to one worker. A lease that lapsed without the
+-- schedule advancing (failed delivery, crashed worker) makes it due again,
+-- unless the occurrence has used up its attempts, in which case the schedule
+-- is paused for its creator to look at and resume.
+CREATE OR REPLACE FUNCTION claim_scheduled_messages(
+    p_owner TEXT,
+    p_limit INTEGER,
+    p_lease_ms INTEGER,
+    p_max_attempts INTEGER
+)
+RETURNS SETOF scheduled_messages AS $$
+BEGIN
+    UPDATE scheduled_messages
+    SET status = 'paused',
+        lease_owner = NULL,
+        lease_expires_at = NULL,
+        last_error = COALESCE(last_error, 'Lease expired'),
+        updated_at = now()
+    WHERE status = 'active'
+    AND lease_expires_at <= now()
+    AND delivery_attempts >= p_max_attempts;
+
+    RETURN QUERY
+    UPDATE scheduled_messages s
+    SET lease_owner = p_owner,
+        lease_expires_at = now() + make_interval(secs => p_lease_ms / 1000.0),
+        delivery_attempts = s.delivery_attempts + 1,
+        updated_at = now()
+    WHERE s.id IN (
+        SELECT id FROM scheduled_messages
+        WHERE status = 'active'
+        AND next_run_at <= now()
+        AND (lease_expires_at IS NULL OR lease_expires_at <= now())
+        ORDER BY next_run_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING s.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the delivery worker, running with the service role, may lease schedules
+REVOKE EXECUTE ON FUNCTION claim_scheduled_messages(TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_scheduled_messages(TEXT, INTEGER, INTEGER, INTEGER) TO service_role;
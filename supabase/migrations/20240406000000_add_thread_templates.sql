@@ -0,0 +1,82 @@
+-- Thread and group templates for training cohorts. definition holds the
+-- organizer group, threads, seed messages and simulated client profiles.
+CREATE TABLE IF NOT EXISTS thread_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    definition JSONB NOT NULL,
+    created_by UUID NOT NULL REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One row per template and trainee; thread_ids maps template keys to the
+-- threads created so far, so a re-run resumes instead of duplicating
+CREATE TABLE IF NOT EXISTS thread_template_provisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES thread_templates(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id),
+    status TEXT NOT NULL DEFAULT 'in_progress',
+    group_id UUID REFERENCES thread_groups(id),
+    thread_ids JSONB NOT NULL DEFAULT '{}'::jsonb,
+    last_error TEXT,
+    provisioned_by UUID NOT NULL REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_provision_status CHECK (status IN ('in_progress', 'completed')),
+    CONSTRAINT unique_template_provision UNIQUE (template_id, user_id)
+);
+
+-- Add indexes
+CREATE INDEX idx_thread_templates_created_at ON thread_templates(created_at DESC);
+CREATE INDEX idx_thread_template_provisions_user ON thread_template_provisions(user_id);
+
+-- Add RLS policies
+ALTER TABLE thread_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE thread_template_provisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors and admins can view thread templates"
+    ON thread_templates FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role IN ('instructor', 'admin')
+        )
+    );
+
+CREATE POLICY "Instructors and admins can create thread templates"
+    ON thread_templates FOR INSERT
+    WITH CHECK (
+        auth.uid() = created_by AND
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role IN ('instructor', 'admin')
+        )
+    );
+
+CREATE POLICY "Instructors and admins can manage provisions"
+    ON thread_template_provisions FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.user_id = auth.uid()
+            AND p.role IN ('instructor', 'admin')
+        )
+    );
+
+CREATE POLICY "Trainees can view their own provisions"
+    ON thread_template_provisions FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Add updated_at triggers
+CREATE TRIGGER update_thread_templates_updated_at
+    BEFORE UPDATE ON thread_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_thread_template_provisions_updated_at
+    BEFORE UPDATE ON thread_template_provisions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,113 @@
+-- Double Ratchet devices, X3DH prekeys and per-device sessions. Private key
+-- material and ratchet state are sealed by the application (RATCHET_STATE_KEY)
+-- before they reach these tables.
+CREATE TABLE IF NOT EXISTS ratchet_devices (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    device_id TEXT NOT NULL,
+    identity_key TEXT NOT NULL,
+    signing_key TEXT NOT NULL,
+    signed_prekey_id INTEGER NOT NULL,
+    signed_prekey TEXT NOT NULL,
+    signed_prekey_signature TEXT NOT NULL,
+    sealed_secrets JSONB NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (user_id, device_id)
+);
+
+CREATE TABLE IF NOT EXISTS ratchet_one_time_prekeys (
+    user_id UUID NOT NULL,
+    device_id TEXT NOT NULL,
+    key_id INTEGER NOT NULL,
+    public_key TEXT NOT NULL,
+    sealed_private JSONB NOT NULL,
+    claimed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (user_id, device_id, key_id),
+    FOREIGN KEY (user_id, device_id) REFERENCES ratchet_devices(user_id, device_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS ratchet_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    local_user_id UUID NOT NULL,
+    local_device_id TEXT NOT NULL,
+    remote_user_id UUID NOT NULL,
+    remote_device_id TEXT NOT NULL,
+    sealed_state JSONB NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    status TEXT NOT NULL DEFAULT 'active',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_ratchet_session_status CHECK (status IN ('active', 'retired')),
+    FOREIGN KEY (local_user_id, local_device_id) REFERENCES ratchet_devices(user_id, device_id) ON DELETE CASCADE
+);
+
+-- Each device's decrypted copy of a message, sealed by the application. A
+-- message key is gone once used, so later reads open the copy instead; the
+-- sending device's copy is written when the message is encrypted.
+CREATE TABLE IF NOT EXISTS ratchet_message_copies (
+    message_id TEXT NOT NULL,
+    user_id UUID NOT NULL,
+    device_id TEXT NOT NULL,
+    sealed_content JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (message_id, user_id, device_id),
+    FOREIGN KEY (user_id, device_id) REFERENCES ratchet_devices(user_id, device_id) ON DELETE CASCADE
+);
+
+-- Add indexes
+CREATE INDEX idx_ratchet_devices_active ON ratchet_devices(user_id) WHERE revoked_at IS NULL;
+CREATE INDEX idx_ratchet_one_time_prekeys_available ON ratchet_one_time_prekeys(user_id, device_id, key_id)
+    WHERE claimed_at IS NULL;
+-- At most one live session per device pair; retired ones are kept for recovery
+CREATE UNIQUE INDEX idx_ratchet_sessions_active_pair
+    ON ratchet_sessions(local_user_id, local_device_id, remote_user_id, remote_device_id)
+    WHERE status = 'active';
+
+CREATE TRIGGER update_ratchet_devices_updated_at
+    BEFORE UPDATE ON ratchet_devices
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_ratchet_sessions_updated_at
+    BEFORE UPDATE ON ratchet_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add RLS policies; the ratchet runs with the service role, users only see their devices
+ALTER TABLE ratchet_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ratchet_one_time_prekeys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ratchet_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ratchet_message_copies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own devices"
+    ON ratchet_devices FOR SELECT
+    USING (user_id = auth.uid());
+
+-- Hand out one unclaimed one-time prekey, so two senders never share one
+CREATE OR REPLACE FUNCTION claim_one_time_prekey(
+    p_user_id UUID,
+    p_device_id TEXT
+)
+RETURNS TABLE (key_id INTEGER, public_key TEXT) AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE ratchet_one_time_prekeys k
+    SET claimed_at = now()
+    WHERE (k.user_id, k.device_id, k.key_id) IN (
+        SELECT o.user_id, o.device_id, o.key_id FROM ratchet_one_time_prekeys o
+        WHERE o.user_id = p_user_id
+        AND o.device_id = p_device_id
+        AND o.claimed_at IS NULL
+        ORDER BY o.key_id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING k.key_id, k.public_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Prekeys are handed out by the server's ratchet store, never by clients directly
+REVOKE EXECUTE ON FUNCTION claim_one_time_prekey(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_one_time_prekey(UUID, TEXT) TO service_role;
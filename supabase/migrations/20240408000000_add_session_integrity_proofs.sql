@@ -0,0 +1,77 @@
+-- Baby Jubjub EdDSA keys therapists sign session integrity proofs with
+CREATE TABLE IF NOT EXISTS therapist_integrity_keys (
+    therapist_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    public_key_x TEXT NOT NULL,
+    public_key_y TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One session_integrity.circom proof per session. Public signals hold only
+-- hashes, timestamps and the therapist's public key, never session content
+CREATE TABLE IF NOT EXISTS session_integrity_proofs (
+    session_id UUID PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+    protocol TEXT NOT NULL,
+    proof JSONB NOT NULL,
+    public_signals JSONB NOT NULL,
+    proved_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT valid_integrity_protocol CHECK (protocol IN ('groth16', 'plonk'))
+);
+
+-- Add updated_at triggers
+CREATE TRIGGER update_therapist_integrity_keys_updated_at
+    BEFORE UPDATE ON therapist_integrity_keys
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_session_integrity_proofs_updated_at
+    BEFORE UPDATE ON session_integrity_proofs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add RLS policies; proofs are written with the service role
+ALTER TABLE therapist_integrity_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_integrity_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Therapists can view their own integrity key"
+    ON therapist_integrity_keys FOR SELECT
+    USING (therapist_id = auth.uid());
+
+CREATE POLICY "Therapists can view proofs of their sessions"
+    ON session_integrity_proofs FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM sessions s
+            WHERE s.id = session_integrity_proofs.session_id
+            AND s.therapist_id = auth.uid()
+        )
+    );
+
+-- Everything an auditor needs to verify a session's proof: the proof, the
+-- session's therapist and the key registered for them. Callable without a
+-- login and exposes no session content
+CREATE OR REPLACE FUNCTION get_session_integrity_proof(p_session_id UUID)
+RETURNS TABLE (
+    session_id UUID,
+    therapist_id UUID,
+    protocol TEXT,
+    proof JSONB,
+    public_signals JSONB,
+    proved_at TIMESTAMPTZ,
+    public_key_x TEXT,
+    public_key_y TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT p.session_id, s.therapist_id, p.protocol, p.proof, p.public_signals,
+           p.proved_at, k.public_key_x, k.public_key_y
+    FROM session_integrity_proofs p
+    JOIN sessions s ON s.id = p.session_id
+    LEFT JOIN therapist_integrity_keys k ON k.therapist_id = s.therapist_id
+    WHERE p.session_id = p_session_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_session_integrity_proof(UUID) TO anon, authenticated;
@@ -0,0 +1,40 @@
+-- Write an imported thread bundle in a single transaction. p_tables is an
+-- ordered array of {"table": ..., "rows": [...]}; each table's rows are
+-- inserted with the columns they carry, so omitted columns keep their defaults.
+CREATE OR REPLACE FUNCTION import_thread_bundle(p_tables JSONB)
+RETURNS VOID AS $$
+DECLARE
+    entry JSONB;
+    target TEXT;
+    columns TEXT;
+BEGIN
+    FOR entry IN SELECT value FROM jsonb_array_elements(p_tables) LOOP
+        target := entry->>'table';
+        IF target NOT IN (
+            'chat_threads', 'thread_metadata', 'thread_hierarchy', 'chat_threads_participants',
+            'messages', 'message_reactions', 'session_message_edits', 'attachments',
+            'thread_metrics', 'thread_events'
+        ) THEN
+            RAISE EXCEPTION 'Table % cannot be imported', target;
+        END IF;
+
+        SELECT string_agg(DISTINCT quote_ident(key), ', ')
+        INTO columns
+        FROM jsonb_array_elements(entry->'rows') AS row_value,
+             jsonb_object_keys(row_value) AS key;
+
+        IF columns IS NULL THEN
+            CONTINUE;
+        END IF;
+
+        EXECUTE format(
+            'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1)',
+            target, columns, columns, target
+        ) USING entry->'rows';
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Imports run server-side with the service role after an admin check
+REVOKE EXECUTE ON FUNCTION import_thread_bundle(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_thread_bundle(JSONB) TO service_role;